@@ -10,6 +10,7 @@ import {
   AuthenticateWithRedirectCallback,
 } from '@clerk/clerk-react';
 import { useQuery, useMutation, useAction } from 'convex/react';
+import { ConvexError } from 'convex/values';
 import { api } from './convex/_generated/api';
 import VideoReviewer from './components/VideoReviewer';
 import Dashboard from './components/Dashboard';
@@ -33,6 +34,17 @@ import { LEGAL_DOCUMENT_VERSIONS } from './legal/legalContent';
 import { BoardPageWrapper } from './components/board/BoardPageWrapper';
 import { AuthLanding } from './components/marketing/AuthLanding';
 import SubnetworkPage from './components/subnetwork/SubnetworkPage';
+import SharePasswordGate from './components/SharePasswordGate';
+import GuestReviewerForm from './components/GuestReviewerForm';
+import {
+  openShareLink,
+  readGuestSession,
+  readShareGrant,
+  ShareOpenFailure,
+  storeGuestSession,
+  type ShareOpenError,
+  type StoredGuestSession,
+} from './lib/share-access';
 
 type LegalDocumentType = keyof typeof LEGAL_DOCUMENT_VERSIONS;
 
@@ -304,6 +316,8 @@ const App: React.FC = () => {
           width: video.width,
           height: video.height,
           fps: video.fps,
+          startTimecode: video.startTimecode ?? undefined,
+          dropFrame: video.dropFrame ?? undefined,
           duration: video.duration,
           projectId: video.projectId ?? undefined,
           uploadedAt: new Date(video.uploadedAt).toISOString(),
@@ -322,6 +336,8 @@ const App: React.FC = () => {
           width: video.width,
           height: video.height,
           fps: video.fps,
+          startTimecode: video.startTimecode ?? undefined,
+          dropFrame: video.dropFrame ?? undefined,
           duration: video.duration,
           projectId: video.projectId ?? undefined,
           uploadedAt: new Date(video.uploadedAt).toISOString(),
@@ -357,15 +373,30 @@ const App: React.FC = () => {
       const project = notification.projectId ? projectMap.get(notification.projectId) : undefined;
       const contextTitle = notification.contextTitle ?? video?.title ?? project?.name ?? null;
       const preview = notification.previewUrl ?? video?.thumbnailUrl ?? null;
-      const typeLabel = notification.type === 'mention' ? 'Mention' : 'Share';
+      const typeLabel =
+        notification.type === 'mention'
+          ? 'Mention'
+          : notification.type === 'approval'
+            ? 'Approval'
+            : notification.type === 'assignment'
+              ? 'Assigned'
+              : 'Share';
       const displayTitle =
         notification.type === 'mention'
           ? contextTitle
             ? `Mention in ${contextTitle}`
             : 'You were mentioned'
-          : contextTitle
-            ? `Shared: ${contextTitle}`
-            : notification.message;
+          : notification.type === 'approval'
+            ? contextTitle
+              ? `Review decision on ${contextTitle}`
+              : notification.message
+            : notification.type === 'assignment'
+              ? contextTitle
+                ? `Note assigned in ${contextTitle}`
+                : notification.message
+              : contextTitle
+                ? `Shared: ${contextTitle}`
+                : notification.message;
       const displaySubtitle =
         notification.type === 'mention'
           ? notification.mentionText ?? notification.message
@@ -383,12 +414,38 @@ const App: React.FC = () => {
 
   // Share-link handling
   const shareToken = useMemo(() => (route.name === 'share' ? route.token : null), [route]);
-  const shareResolution = useQuery(api.shares.resolveToken, shareToken ? { token: shareToken } : undefined);
+  // Grants from /api/share/open unlock password-protected and view-limited links.
+  const [shareGrants, setShareGrants] = useState<Record<string, string>>({});
+  const shareGrant = shareToken ? shareGrants[shareToken] ?? readShareGrant(shareToken) : null;
+  const shareResolution = useQuery(
+    api.shares.resolveToken,
+    shareToken ? { token: shareToken, grant: shareGrant ?? undefined } : undefined
+  );
   const shareVideo = useQuery(
     api.videos.getByShareToken,
-    shareToken && shareResolution && (shareResolution as any)?.videoId ? { token: shareToken } : undefined
+    shareToken && shareResolution?.videoId
+      ? { token: shareToken, grant: shareGrant ?? undefined }
+      : undefined
   );
   const shareAccessLoggedRef = useRef<string | null>(null);
+  const shareOpenAttemptRef = useRef<string | null>(null);
+  const [shareOpenError, setShareOpenError] = useState<ShareOpenError | null>(null);
+  const [shareUnlocking, setShareUnlocking] = useState(false);
+  // Signed-out visitors on a link that allows comments can review as a named guest.
+  const [guestSessions, setGuestSessions] = useState<Record<string, StoredGuestSession | null>>({});
+  const [guestPrefersSignIn, setGuestPrefersSignIn] = useState(false);
+  const [guestStarting, setGuestStarting] = useState(false);
+  const [guestError, setGuestError] = useState<string | null>(null);
+  const guestSession = shareToken
+    ? shareToken in guestSessions
+      ? guestSessions[shareToken]
+      : readGuestSession(shareToken)
+    : null;
+  const guestProfile = useQuery(
+    api.shareGuests.current,
+    !isSignedIn && guestSession ? { guestToken: guestSession.guestToken } : undefined
+  );
+  const startGuestSession = useMutation(api.shareGuests.start);
 
   const ensureUser = useMutation(api.users.ensure);
   const ensuredRef = useRef(false);
@@ -1258,13 +1315,79 @@ const App: React.FC = () => {
     setActiveCompositionId(null);
   }, [route]);
 
+  const unlockShare = useCallback(
+    async (password?: string) => {
+      if (!shareToken) return;
+      setShareUnlocking(true);
+      setShareOpenError(null);
+      try {
+        const { grant } = await openShareLink(shareToken, password);
+        setShareGrants((prev) => ({ ...prev, [shareToken]: grant }));
+      } catch (error) {
+        setShareOpenError(error instanceof ShareOpenFailure ? error.code : 'OPEN_FAILED');
+      } finally {
+        setShareUnlocking(false);
+      }
+    },
+    [shareToken]
+  );
+
+  // Open every link once per tab so the view is counted and logged; locked links need it to show anything.
+  useEffect(() => {
+    if (!shareToken || !shareResolution) return;
+    if (shareResolution.locked && shareResolution.requiresPassword) return; // waits for the password gate
+    if (!shareResolution.locked && shareGrant) return;
+    const key = `${shareToken}|${shareGrant ?? ''}`;
+    if (shareOpenAttemptRef.current === key) return;
+    shareOpenAttemptRef.current = key;
+    void unlockShare();
+  }, [shareToken, shareResolution, shareGrant, unlockShare]);
+
+  const setGuestSessionForLink = useCallback((token: string, session: StoredGuestSession | null) => {
+    storeGuestSession(token, session);
+    setGuestSessions((prev) => ({ ...prev, [token]: session }));
+  }, []);
+
+  // Drop a stored guest session once the server no longer accepts it (expired, or the link was revoked).
+  useEffect(() => {
+    if (shareToken && guestSession && guestProfile === null) {
+      setGuestSessionForLink(shareToken, null);
+    }
+  }, [shareToken, guestSession, guestProfile, setGuestSessionForLink]);
+
+  const handleStartGuest = useCallback(
+    async ({ name, email }: { name: string; email: string }) => {
+      if (!shareToken) return;
+      setGuestStarting(true);
+      setGuestError(null);
+      try {
+        const started = await startGuestSession({ token: shareToken, grant: shareGrant ?? undefined, name, email });
+        setGuestSessionForLink(shareToken, { guestToken: started.guestToken, name: started.guest.name, email: started.guest.email });
+      } catch (error) {
+        const code = error instanceof ConvexError ? String(error.data) : null;
+        setGuestError(
+          code === 'INVALID_EMAIL'
+            ? 'Enter a valid email address.'
+            : code === 'INVALID_NAME'
+              ? 'Enter your name (up to 80 characters).'
+              : code === 'GUEST_COMMENTS_DISABLED'
+                ? 'This link does not allow guest comments. Sign in to continue.'
+                : 'Could not start a guest session. Try again.'
+        );
+      } finally {
+        setGuestStarting(false);
+      }
+    },
+    [shareToken, shareGrant, startGuestSession, setGuestSessionForLink]
+  );
+
   // If landing on /share/:token, open the linked review/project
   useEffect(() => {
     if (!shareToken) return;
     if (shareResolution === undefined) return; // loading
     if (shareResolution === null) return; // invalid or expired
-    if (shareResolution && (shareResolution as any).projectId) {
-      setActiveProjectId((shareResolution as any).projectId as string);
+    if (shareResolution.projectId) {
+      setActiveProjectId(shareResolution.projectId);
       setView('project');
       return;
     }
@@ -1278,6 +1401,8 @@ const App: React.FC = () => {
         width: (shareVideo as any).width,
         height: (shareVideo as any).height,
         fps: (shareVideo as any).fps,
+        startTimecode: shareVideo.startTimecode ?? undefined,
+        dropFrame: shareVideo.dropFrame ?? undefined,
         duration: (shareVideo as any).duration,
         projectId: (shareVideo as any).projectId ?? undefined,
         uploadedAt: new Date((shareVideo as any).uploadedAt).toISOString(),
@@ -1293,9 +1418,8 @@ const App: React.FC = () => {
     if (!shareToken) return;
     if (!shareResolution) return;
     if (!currentUser) return;
-    const shareMeta = shareResolution as any;
-    const targetVideoId = shareMeta?.videoId ?? (shareVideo as any)?.id ?? null;
-    const targetProjectId = shareMeta?.projectId ?? null;
+    const targetVideoId = shareResolution.videoId ?? (shareVideo as any)?.id ?? null;
+    const targetProjectId = shareResolution.projectId ?? null;
     if (!targetVideoId && !targetProjectId) return;
     const key = `${shareToken}|${currentUser._id}`;
     if (shareAccessLoggedRef.current === key) return;
@@ -1403,11 +1527,68 @@ const App: React.FC = () => {
     return renderLegalPage();
   }
 
+  // Signed-out view of a share link: password gate, guest sign-up, then the reviewer as that guest.
+  // Returns null (falling back to the sign-in landing) for project links and links without comments.
+  const guestShareView = (() => {
+    if (isSignedIn || !shareToken || guestPrefersSignIn) return null;
+    if (shareResolution === undefined) {
+      return (
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 size={48} className="animate-spin text-gray-400" />
+        </div>
+      );
+    }
+    if (!shareResolution) return null;
+    if (shareResolution.locked === true) {
+      return (
+        <div className="min-h-screen flex bg-gray-50">
+          <SharePasswordGate
+            requiresPassword={Boolean(shareResolution.requiresPassword)}
+            busy={shareUnlocking}
+            error={shareOpenError}
+            onSubmit={(password) => void unlockShare(password)}
+            onLeave={() => setGuestPrefersSignIn(true)}
+            leaveLabel="Sign in instead"
+          />
+        </div>
+      );
+    }
+    if (!shareResolution.allowComments || !shareResolution.videoId) return null;
+    if (!guestSession || guestProfile === null) {
+      return (
+        <GuestReviewerForm
+          busy={guestStarting}
+          error={guestError}
+          onSubmit={(details) => void handleStartGuest(details)}
+          onSignIn={() => setGuestPrefersSignIn(true)}
+        />
+      );
+    }
+    if (!sharedSelectedVideo || guestProfile === undefined) {
+      return (
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 size={48} className="animate-spin text-gray-400" />
+        </div>
+      );
+    }
+    return (
+      <VideoReviewer
+        key={sharedSelectedVideo.id}
+        video={sharedSelectedVideo}
+        onGoBack={() => setGuestPrefersSignIn(true)}
+        theme={preference}
+        guest={{ token: guestSession.guestToken, name: guestProfile.name }}
+      />
+    );
+  })();
+
   return (
     // Rely on body.theme-dark / body.theme-light from useThemePreference + index.css
     <div className={"min-h-screen flex flex-col transition-colors"}>
       <SignedOut>
-        {isMiroEmbed ? (
+        {guestShareView ? (
+          guestShareView
+        ) : isMiroEmbed ? (
           <div className="min-h-screen w-full bg-gray-50 px-4 py-6">
             <div className="mx-auto w-full max-w-sm rounded-2xl border border-gray-200 bg-white p-5 text-center shadow-2xl">
               <div className="mb-2 flex items-center justify-center gap-2 text-gray-900">
@@ -1533,6 +1714,14 @@ const App: React.FC = () => {
           <div className="flex-1 flex items-center justify-center text-white/70">
             <Loader2 size={48} className="animate-spin" />
           </div>
+        ) : shareToken && shareResolution?.locked ? (
+          <SharePasswordGate
+            requiresPassword={Boolean(shareResolution.requiresPassword)}
+            busy={shareUnlocking}
+            error={shareOpenError}
+            onSubmit={(password) => void unlockShare(password)}
+            onLeave={() => navigate('/workspaces')}
+          />
         ) : view === 'reviewer' && currentVideo ? (
           <VideoReviewer
             key={currentVideo.id}
@@ -41,6 +41,9 @@ import { useMobileGestures } from "@/hooks/use-mobile-gestures";
 import { useResourcePermissions } from "@/hooks/use-resource-permissions";
 import { Id } from "@/convex/_generated/dataModel";
 import { api } from "@/convex/_generated/api";
+import type { AiOutputGridPayload } from "@/utils/aiSweep";
+import { AI_OUTPUT_GRID_MIME_TYPE, contactSheetColumns } from "@/utils/aiSweep";
+import { SubnetworkTemplateGallery } from "@/components/subnetwork/SubnetworkTemplateGallery";
 
 import { Info } from "./info";
 import { Participants } from "./participants";
@@ -457,6 +460,7 @@ export const Canvas = ({
   const tabCommandInputRef = useRef<HTMLInputElement | null>(null);
 
   const [outputsDrawerSubnetworkId, setOutputsDrawerSubnetworkId] = useState<string | null>(null);
+  const [templateGalleryPoint, setTemplateGalleryPoint] = useState<Point | null>(null);
 
   const boardSubnetworkOutputs = useQuery(
     api.aiOutputs.listForBoard,
@@ -469,6 +473,21 @@ export const Canvas = ({
       : "skip"
   );
 
+  // Sweep variants grouped per sweep run, newest first, so a whole sweep can be dragged at once.
+  const boardSweepSheets = useMemo(() => {
+    const sheets = new Map<string, any[]>();
+    for (const output of boardSubnetworkOutputs ?? []) {
+      if (output.sweepLabel === undefined || !output.workflowRunId || !output.publicUrl) continue;
+      const list = sheets.get(String(output.workflowRunId)) ?? [];
+      list.push(output);
+      sheets.set(String(output.workflowRunId), list);
+    }
+    return Array.from(sheets.entries()).map(([workflowRunId, outputs]) => ({
+      workflowRunId,
+      outputs: outputs.sort((a, b) => (a.sweepIndex ?? 0) - (b.sweepIndex ?? 0)),
+    }));
+  }, [boardSubnetworkOutputs]);
+
   const boardSubnetworks = useQuery(
     api.aiSubnetworks.listByBoard,
     publicHomeMode
@@ -700,8 +719,6 @@ export const Canvas = ({
           headerColor: { r: 248, g: 250, b: 252 },
           alternateRowColors: true,
           showRowNumbers: true,
-          allowSorting: false,
-          allowFiltering: false,
           opacity: 1,
         } as TableLayer);
       } else if (layerType === LayerType.Arrow || layerType === LayerType.Line) {
@@ -5227,6 +5244,58 @@ export const Canvas = ({
     []
   );
 
+  // A dropped contact sheet becomes a grid of layers centred on the drop point. Each output is
+  // fitted into the same square cell and keeps its sweep label as the layer title.
+  const insertSubnetworkOutputGrid = useMutation(
+    ({ storage, setMyPresence }, payload: { point: Point; grid: AiOutputGridPayload }) => {
+      const liveLayers = storage.get("layers");
+      const liveLayerIds = storage.get("layerIds");
+      const outputs = payload.grid.outputs.filter((output) => output.publicUrl || output.storageKey);
+      if (outputs.length === 0) return;
+
+      const cell = 280;
+      const gap = 24;
+      const columns = Math.max(1, Math.min(Math.floor(payload.grid.columns) || 1, outputs.length));
+      const rows = Math.ceil(outputs.length / columns);
+      const left = payload.point.x - (columns * cell + (columns - 1) * gap) / 2;
+      const top = payload.point.y - (rows * cell + (rows - 1) * gap) / 2;
+
+      const layerIds: string[] = [];
+      outputs.forEach((output, index) => {
+        const aspect =
+          typeof output.width === "number" && typeof output.height === "number" && output.width > 0 && output.height > 0
+            ? output.width / output.height
+            : 1;
+        const width = aspect >= 1 ? cell : Math.round(cell * aspect);
+        const height = aspect >= 1 ? Math.round(cell / aspect) : cell;
+        const column = index % columns;
+        const row = Math.floor(index / columns);
+        const layerId = nanoid();
+
+        liveLayers.set(
+          layerId,
+          new LiveObject({
+            type:
+              output.outputType === "video" || String(output.mimeType ?? "").startsWith("video/")
+                ? LayerType.Video
+                : LayerType.Image,
+            x: left + column * (cell + gap) + (cell - width) / 2,
+            y: top + row * (cell + gap) + (cell - height) / 2,
+            width,
+            height,
+            url: output.publicUrl || output.storageKey || "",
+            previewUrl: output.publicUrl || undefined,
+            title: output.title || "AI Output",
+          } as any)
+        );
+        liveLayerIds.push(layerId);
+        layerIds.push(layerId);
+      });
+      setMyPresence({ selection: layerIds }, { addToHistory: true });
+    },
+    []
+  );
+
   const openSubnetworkRoute = useCallback((subnetworkId: string) => {
     const path = `/board/${boardId}/subnetwork/${subnetworkId}`;
     try {
@@ -5272,6 +5341,30 @@ export const Canvas = ({
     [isViewer, canUseSubnetworkCommands, camera, createAiSubnetwork, boardId, createSubnetworkCardLayer]
   );
 
+  const handleOpenTemplateGallery = useCallback(
+    (point: Point) => {
+      if (isViewer) return;
+      if (!canUseSubnetworkCommands) {
+        toast.error("AI Subnetwork creation is disabled by feature flag.");
+        return;
+      }
+      setTemplateGalleryPoint(point);
+    },
+    [isViewer, canUseSubnetworkCommands]
+  );
+
+  const handleTemplateInstantiated = useCallback(
+    (result: { subnetworkId: string; title: string }) => {
+      if (!templateGalleryPoint) return;
+      createSubnetworkCardLayer({
+        point: templateGalleryPoint,
+        subnetworkId: result.subnetworkId,
+        title: result.title,
+      });
+    },
+    [templateGalleryPoint, createSubnetworkCardLayer]
+  );
+
   const tabCommandItems = useMemo(() => {
     if (!canUseSubnetworkCommands) {
       return [];
@@ -5283,6 +5376,11 @@ export const Canvas = ({
         title: "Create Subnetwork AI",
         description: "Create a new AI subnetwork card in this board",
       },
+      {
+        id: "create-subnetwork-from-template",
+        title: "New Subnetwork from Template",
+        description: "Pick a saved or shared template and fill in its parameters",
+      },
     ];
 
     if (!query) {
@@ -5300,10 +5398,13 @@ export const Canvas = ({
       if (commandId === "create-subnetwork") {
         void handleCreateSubnetworkCard(point);
       }
+      if (commandId === "create-subnetwork-from-template") {
+        handleOpenTemplateGallery(point);
+      }
       setTabCommandMenu(null);
       setTabCommandQuery("");
     },
-    [handleCreateSubnetworkCard]
+    [handleCreateSubnetworkCard, handleOpenTemplateGallery]
   );
 
   const onContextMenu = useCallback(
@@ -5337,7 +5438,9 @@ export const Canvas = ({
   const onCanvasDragOver = useCallback(
     (e: React.DragEvent<SVGSVGElement>) => {
       if (isViewer) return;
-      const hasOutput = Array.from(e.dataTransfer.types).includes("application/x-reffo-ai-output");
+      const types = Array.from(e.dataTransfer.types);
+      const hasOutput =
+        types.includes("application/x-reffo-ai-output") || types.includes(AI_OUTPUT_GRID_MIME_TYPE);
       if (!hasOutput) return;
       e.preventDefault();
       e.dataTransfer.dropEffect = "copy";
@@ -5348,18 +5451,24 @@ export const Canvas = ({
   const onCanvasDrop = useCallback(
     (e: React.DragEvent<SVGSVGElement>) => {
       if (isViewer) return;
-      const raw = e.dataTransfer.getData("application/x-reffo-ai-output");
-      if (!raw) return;
+      const rawGrid = e.dataTransfer.getData(AI_OUTPUT_GRID_MIME_TYPE);
+      const raw = rawGrid ? "" : e.dataTransfer.getData("application/x-reffo-ai-output");
+      if (!rawGrid && !raw) return;
       e.preventDefault();
       try {
-        const output = JSON.parse(raw);
         const point = pointerEventToCanvasPoint(e as any, camera);
+        if (rawGrid) {
+          const grid = JSON.parse(rawGrid) as AiOutputGridPayload;
+          if (Array.isArray(grid.outputs)) insertSubnetworkOutputGrid({ point, grid });
+          return;
+        }
+        const output = JSON.parse(raw);
         insertSubnetworkOutputLayer({ point, output });
       } catch {
         // ignore malformed payloads
       }
     },
-    [camera, insertSubnetworkOutputLayer, isViewer]
+    [camera, insertSubnetworkOutputGrid, insertSubnetworkOutputLayer, isViewer]
   );
 
   const createTodoWidget = useMutation(
@@ -5448,6 +5557,7 @@ export const Canvas = ({
         projectId={projectId}
         compactMobile={isMobileBoardUI}
         publicHomeMode={publicHomeMode}
+        backgroundColor={gridConfig.backgroundColor}
       />
       {!isMobileBoardUI && (
         <Participants
@@ -6082,6 +6192,16 @@ export const Canvas = ({
               TAB
             </span>
           </button>
+          <button
+            type="button"
+            className="flex w-full items-center justify-between rounded-lg px-3 py-2 text-left text-sm font-medium text-slate-700 hover:bg-slate-50 hover:text-slate-900"
+            onClick={() => {
+              handleOpenTemplateGallery(boardContextMenu.canvasPoint);
+              setBoardContextMenu(null);
+            }}
+          >
+            <span>New from Template...</span>
+          </button>
         </div>
       )}
 
@@ -6144,6 +6264,17 @@ export const Canvas = ({
         </div>
       )}
 
+      {canUseSubnetworkCommands && (
+        <SubnetworkTemplateGallery
+          open={templateGalleryPoint !== null}
+          onOpenChange={(open) => {
+            if (!open) setTemplateGalleryPoint(null);
+          }}
+          boardId={boardId}
+          onInstantiated={handleTemplateInstantiated}
+        />
+      )}
+
       {outputsDrawerSubnetworkId && (
         <aside
           className="absolute right-0 top-0 z-[70] h-full w-[360px] border-l border-slate-200 bg-white/95 backdrop-blur"
@@ -6166,6 +6297,56 @@ export const Canvas = ({
           </div>
           <div className="h-[calc(100%-60px)] overflow-y-auto p-3">
             <div className="space-y-2">
+              {boardSweepSheets.map((sheet) => (
+                <div
+                  key={sheet.workflowRunId}
+                  draggable={!isViewer}
+                  onDragStart={(event) => {
+                    if (isViewer) return;
+                    const payload: AiOutputGridPayload = {
+                      columns: contactSheetColumns(sheet.outputs.length),
+                      outputs: sheet.outputs.map((output) => ({
+                        outputType: output.outputType,
+                        title: output.sweepLabel ?? output.title,
+                        publicUrl: output.publicUrl,
+                        storageKey: output.storageKey,
+                        mimeType: output.mimeType,
+                        width: output.width,
+                        height: output.height,
+                      })),
+                    };
+                    event.dataTransfer.setData(AI_OUTPUT_GRID_MIME_TYPE, JSON.stringify(payload));
+                    event.dataTransfer.effectAllowed = "copy";
+                  }}
+                  className="rounded-xl border border-slate-200 bg-white p-2 shadow-sm"
+                >
+                  <div className="grid grid-cols-4 gap-1">
+                    {sheet.outputs.map((output) => (
+                      <img
+                        key={output._id}
+                        src={output.publicUrl}
+                        alt={output.sweepLabel}
+                        title={output.sweepLabel}
+                        draggable={false}
+                        className="aspect-square w-full rounded border border-slate-100 object-cover"
+                      />
+                    ))}
+                  </div>
+                  <div className="mt-2 flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-xs font-semibold text-slate-800">
+                        Sweep · {sheet.outputs.length} variants
+                      </p>
+                      <p className="truncate text-[11px] text-slate-500">{sheet.outputs[0].nodeTitle}</p>
+                    </div>
+                    {!isViewer && (
+                      <span className="rounded border border-slate-200 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                        Drag grid
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
               {(boardSubnetworkOutputs ?? []).map((output: any) => (
                 <div
                   key={output._id}
@@ -6211,7 +6392,10 @@ export const Canvas = ({
                       <p className="truncate text-xs font-semibold text-slate-800">
                         {output.title || `${output.nodeTitle} v${output.version}`}
                       </p>
-                      <p className="truncate text-[11px] text-slate-500">{output.nodeTitle}</p>
+                      <p className="truncate text-[11px] text-slate-500">
+                        {output.nodeTitle}
+                        {output.sweepLabel ? ` · ${output.sweepLabel}` : ""}
+                      </p>
                     </div>
                     {!isViewer && (
                       <span className="rounded border border-slate-200 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
@@ -0,0 +1,186 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  BOARD_EXPORT_SCALES,
+  type BoardExportFormat,
+  type BoardExportSource,
+  downloadBoardExport,
+  exportBoardPdf,
+  exportBoardPng,
+  exportBoardSvg,
+  getBoardExportFrames,
+} from "@/lib/board-export";
+import { cn } from "@/lib/utils";
+import { useStorage } from "@/liveblocks.config";
+import type { Layer } from "@/types/canvas";
+
+const FORMAT_LABELS: Record<BoardExportFormat, string> = {
+  png: "PNG",
+  svg: "SVG",
+  pdf: "PDF",
+};
+
+const WHOLE_BOARD = "board";
+
+interface ExportBoardDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardTitle: string;
+  backgroundColor?: string;
+}
+
+const toFileName = (title: string) =>
+  title.trim().replace(/[\\/:*?"<>|]+/g, "-").replace(/\s+/g, " ") || "board";
+
+export const ExportBoardDialog = ({
+  isOpen,
+  onClose,
+  boardTitle,
+  backgroundColor,
+}: ExportBoardDialogProps) => {
+  const layers = useStorage((root) => root.layers) as ReadonlyMap<string, Layer> | null;
+  const layerIds = useStorage((root) => root.layerIds);
+  const [format, setFormat] = useState<BoardExportFormat>("pdf");
+  const [scale, setScale] = useState<number>(2);
+  const [scope, setScope] = useState<string>(WHOLE_BOARD);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const source = useMemo<BoardExportSource | null>(
+    () => (layers && layerIds ? { layers, layerIds, backgroundColor } : null),
+    [layers, layerIds, backgroundColor],
+  );
+  const frames = useMemo(() => (source ? getBoardExportFrames(source) : []), [source]);
+  const selectedFrame = frames.find((frame) => frame.id === scope) ?? null;
+
+  const handleExport = async () => {
+    if (!source) return;
+    setIsExporting(true);
+    try {
+      const region = format === "pdf" ? null : selectedFrame?.bounds ?? null;
+      const blob =
+        format === "pdf"
+          ? await exportBoardPdf(source, scale)
+          : format === "svg"
+            ? await exportBoardSvg(source, region)
+            : await exportBoardPng(source, scale, region);
+      if (!blob) {
+        toast.error("Nothing to export on this board yet");
+        return;
+      }
+      const baseName = toFileName(selectedFrame && format !== "pdf" ? `${boardTitle} - ${selectedFrame.title}` : boardTitle);
+      downloadBoardExport(blob, `${baseName}.${format}`);
+      onClose();
+    } catch (error) {
+      console.error("[Board Export] failed", error);
+      toast.error("Export failed. Try a smaller scale.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isExporting && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export board</DialogTitle>
+          <DialogDescription>
+            {format === "pdf"
+              ? frames.length > 0
+                ? `One page per frame (${frames.length}), left to right and top to bottom.`
+                : "This board has no frames, so the PDF has a single page with the whole board."
+              : "Download the whole board or a single frame."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(FORMAT_LABELS) as BoardExportFormat[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setFormat(option)}
+                  className={cn(
+                    "rounded-xl border px-3 py-2 text-sm font-semibold transition-colors",
+                    format === option
+                      ? "border-slate-900 bg-slate-900 text-white"
+                      : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50",
+                  )}
+                >
+                  {FORMAT_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format !== "pdf" && (
+            <div className="space-y-2">
+              <Label htmlFor="board-export-scope">Area</Label>
+              <select
+                id="board-export-scope"
+                value={scope}
+                onChange={(event) => setScope(event.target.value)}
+                className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-slate-900 focus:outline-none"
+              >
+                <option value={WHOLE_BOARD}>Whole board</option>
+                {frames.map((frame) => (
+                  <option key={frame.id} value={frame.id}>
+                    Frame: {frame.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {format !== "svg" && (
+            <div className="space-y-2">
+              <Label>Scale</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {BOARD_EXPORT_SCALES.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setScale(option)}
+                    className={cn(
+                      "rounded-xl border px-3 py-2 text-sm font-semibold transition-colors",
+                      scale === option
+                        ? "border-slate-900 bg-slate-900 text-white"
+                        : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50",
+                    )}
+                  >
+                    {option}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!source || isExporting}>
+            {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Export {FORMAT_LABELS[format]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,7 +1,8 @@
 "use client";
 
+import { useState } from "react";
 import { useQuery } from "convex/react";
-import { ArrowLeft, LogOut, Pencil } from "lucide-react";
+import { ArrowLeft, Download, LogOut, Pencil } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
 
@@ -9,11 +10,14 @@ import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 import { useRenameModal } from "@/store/use-rename-modal";
 
+import { ExportBoardDialog } from "./export-board-dialog";
+
 type InfoProps = {
   boardId: string;
   projectId?: string | null;
   compactMobile?: boolean;
   publicHomeMode?: boolean;
+  backgroundColor?: string;
 };
 
 export const Info = ({
@@ -21,8 +25,10 @@ export const Info = ({
   projectId,
   compactMobile = false,
   publicHomeMode = false,
+  backgroundColor,
 }: InfoProps) => {
   const { onOpen } = useRenameModal();
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const data = useQuery(api.board.get, {
     id: boardId as Id<"boards">,
   });
@@ -125,7 +131,21 @@ export const Info = ({
           <span className="max-w-[220px] truncate">{boardTitle}</span>
           <Pencil className="h-3.5 w-3.5 text-slate-400 transition-colors duration-200 group-hover:text-slate-600" />
         </button>
+        <button
+          onClick={() => setIsExportOpen(true)}
+          className="group inline-flex items-center gap-2 rounded-xl border border-slate-200/70 bg-slate-50/80 px-3 py-2 text-xs font-semibold text-slate-600 transition-all duration-200 hover:bg-white hover:text-slate-900 hover:shadow-sm"
+          aria-label="Export board"
+        >
+          <Download className="h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Export</span>
+        </button>
       </div>
+      <ExportBoardDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        boardTitle={data.title}
+        backgroundColor={backgroundColor}
+      />
     </div>
   );
 };
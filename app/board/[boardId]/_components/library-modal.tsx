@@ -4,6 +4,7 @@ import React, { useState, useCallback, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { X, Download, CheckSquare, Square } from "lucide-react";
 import { Library } from "@/components/library/library";
+import type { PaletteSwatch } from "@/components/library/color-search";
 import { Id } from "@/convex/_generated/dataModel";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -23,6 +24,8 @@ interface LibraryModalProps {
   isOpen: boolean;
   onClose: () => void;
   allowedTypes?: AssetImportType[];
+  // Opens the library already ranked by this palette (e.g. "find assets with this palette" on an image).
+  initialPalette?: PaletteSwatch[] | null;
 }
 
 export const LibraryModal = ({
@@ -31,6 +34,7 @@ export const LibraryModal = ({
   isOpen,
   onClose,
   allowedTypes = ["image", "video", "file"],
+  initialPalette,
 }: LibraryModalProps) => {
   const [selectedItems, setSelectedItems] = useState<Id<"assets">[]>([]);
   const [isImporting, setIsImporting] = useState(false);
@@ -533,6 +537,7 @@ export const LibraryModal = ({
                 onSelectionChange={setSelectedItems}
                 onFilteredDataChange={handleFilteredDataChange}
                 allowedTypes={allowedTypes}
+                initialPalette={initialPalette}
               />
             </div>
           </div>
@@ -548,6 +553,7 @@ interface LibraryImportWrapperProps {
   selectedItems: Id<"assets">[];
   onSelectionChange: (items: Id<"assets">[]) => void;
   allowedTypes: AssetImportType[];
+  initialPalette?: PaletteSwatch[] | null;
   onFilteredDataChange: (data: {
     filteredReferences: any[];
     filters: any;
@@ -562,6 +568,7 @@ const LibraryImportWrapper = ({
   onSelectionChange,
   onFilteredDataChange,
   allowedTypes,
+  initialPalette,
 }: LibraryImportWrapperProps) => {
   return (
     <div className="h-full w-full px-4 py-4 md:px-6 md:py-6">
@@ -573,6 +580,7 @@ const LibraryImportWrapper = ({
         onSelectionChange={onSelectionChange}
         onFilteredDataChange={onFilteredDataChange}
         allowedTypes={allowedTypes}
+        initialPalette={initialPalette}
             />
           </div>
   );
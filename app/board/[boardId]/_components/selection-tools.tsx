@@ -38,11 +38,15 @@ import {
   Box,
   Copy,
   BookmarkPlus,
-  BookmarkCheck
+  BookmarkCheck,
+  Palette
 } from "lucide-react";
 import { memo, useState, useEffect, useRef } from "react";
 import React from "react";
 import { toast } from "sonner";
+import { extractDominantColorsFromUrl } from "@/utils/dominantColor";
+import { paletteFromColors, type PaletteSwatch } from "@/components/library/color-search";
+import { LibraryModal } from "./library-modal";
 
 import { useDeleteLayers } from "@/hooks/use-delete-layers";
 import { useLayerOrdering } from "@/hooks/use-layer-ordering";
@@ -1429,6 +1433,9 @@ export const SelectionTools = memo(
     const { hasMultipleSelection, selectedLayers, updateLayerPositions } = useSelection();
     const createLibraryAsset = useConvexMutation(api.assets.createFromBoardMedia);
     const [isSavingToLibrary, setIsSavingToLibrary] = useState(false);
+    const [paletteSearch, setPaletteSearch] = useState<PaletteSwatch[] | null>(null);
+    const [isExtractingPalette, setIsExtractingPalette] = useState(false);
+    const me = useQuery(api.users.current, {});
     const [isExportingFrameId, setIsExportingFrameId] = useState<string | null>(null);
 
     // Check if pencil is active
@@ -2588,6 +2595,23 @@ export const SelectionTools = memo(
       selectedDownloadableUrls.every((url) => savedLibraryUrlSet.has(url));
     const unsavedCount = selectedDownloadableUrls.filter((url) => !savedLibraryUrlSet.has(url)).length;
 
+    const singleImageSelected =
+      singleDownloadableSelected && selectedDownloadableData[0]?.type === "image" ? selectedDownloadableData[0] : null;
+
+    const handleFindByPalette = async () => {
+      if (!singleImageSelected?.url || isExtractingPalette) return;
+      setIsExtractingPalette(true);
+      try {
+        const colors = await extractDominantColorsFromUrl(singleImageSelected.url, 20, 5);
+        setPaletteSearch(paletteFromColors(colors));
+      } catch (error) {
+        console.error("Palette extraction failed", error);
+        toast.error("Couldn't read this image's colors");
+      } finally {
+        setIsExtractingPalette(false);
+      }
+    };
+
     const handleSaveToLibrary = async () => {
       if (isSavingToLibrary || selectedDownloadableData.length === 0 || allSelectedSaved) return;
       setIsSavingToLibrary(true);
@@ -3219,6 +3243,28 @@ export const SelectionTools = memo(
                   </div>
                 </SelectionTooltip>
               )}
+
+              {singleImageSelected && (
+                <SelectionTooltip label="Find assets with this palette" isVisible={shouldShowSelectionTooltip("Find assets with this palette")}>
+                  <div
+                    onMouseEnter={() => handleMouseEnter("Find assets with this palette")}
+                    onMouseLeave={handleMouseLeave}
+                  >
+                    <button
+                      onClick={handleFindByPalette}
+                      className={CONTROL_BUTTON_COMPACT_CLASSES}
+                      disabled={isExtractingPalette}
+                      title="Find assets with this palette"
+                    >
+                      {isExtractingPalette ? (
+                        <RefreshCw className="w-4 h-4 animate-spin text-slate-400" />
+                      ) : (
+                        <Palette className="w-4 h-4 text-slate-500" />
+                      )}
+                    </button>
+                  </div>
+                </SelectionTooltip>
+              )}
             </div>
             
             {/* Only show the rest of the controls if there are actually selected elements */}
@@ -3313,6 +3359,16 @@ export const SelectionTools = memo(
             )}
           </div>
         </div>
+        {boardId && (
+          <LibraryModal
+            boardId={boardId}
+            userId={me?._id ? String(me._id) : ""}
+            isOpen={Boolean(paletteSearch)}
+            onClose={() => setPaletteSearch(null)}
+            allowedTypes={["image"]}
+            initialPalette={paletteSearch}
+          />
+        )}
       </div>
     );
   },
@@ -4,18 +4,27 @@ import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { nanoid } from "nanoid";
 import { toast } from "sonner";
 import {
+  ArrowDown,
+  ArrowUp,
   Calendar,
   Check,
   ChevronDown,
+  ChevronRight,
+  Download,
+  FileSpreadsheet,
   GripVertical,
+  Group,
   Hash,
   Image as ImageIcon,
   List,
+  ListFilter,
   MoreHorizontal,
   Plus,
   Settings,
+  Sigma,
   Trash2,
   Type,
+  Upload,
   User,
   X,
 } from "lucide-react";
@@ -23,12 +32,16 @@ import { shallow } from "@liveblocks/client";
 
 import { useMutation, useOthersMapped, useSelf } from "@/liveblocks.config";
 import {
+  TableAggregate,
   TableCell,
   TableColumn,
   TableColumnType,
+  TableFilterOperator,
+  TableFilterRule,
   TableLayer,
   TableRow,
   TableSelectOption,
+  TableSortRule,
 } from "@/types/canvas";
 import { colorToCSS } from "@/lib/utils";
 import {
@@ -42,6 +55,31 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { FormulaError, FormulaResult, parseFormula } from "@/utils/tableFormula";
+import {
+  TABLE_AGGREGATE_LABELS,
+  TABLE_FILTER_OPERATOR_LABELS,
+  TableFormulaResults,
+  aggregateTableColumn,
+  computeTableFormulas,
+  filterTableRows,
+  formatTableValue,
+  groupTableRows,
+  isGroupableColumn,
+  sortTableRows,
+  tableFormulaResult,
+} from "@/utils/tableView";
+import {
+  SPREADSHEET_FILE_ACCEPT,
+  SpreadsheetFormat,
+  downloadSpreadsheet,
+  ensureSpreadsheetOptions,
+  mergeSpreadsheetIntoTable,
+  parseDelimited,
+  readSpreadsheetFile,
+  spreadsheetValueForColumn,
+  tableToSpreadsheet,
+} from "@/utils/tableSpreadsheet";
 
 interface TableProps {
   id: string;
@@ -71,6 +109,9 @@ type PersonOption = {
 const TABLE_TITLE_HEIGHT = 44;
 const TABLE_HEADER_HEIGHT = 46;
 const TABLE_FOOTER_HEIGHT = 40;
+const TABLE_VIEW_BAR_HEIGHT = 44;
+const TABLE_AGGREGATE_ROW_HEIGHT = 36;
+const TABLE_GROUP_HEADER_HEIGHT = 34;
 const TABLE_ACTION_COLUMN_WIDTH = 64;
 const TABLE_ROW_NUMBER_WIDTH = 56;
 const TABLE_MIN_COLUMN_WIDTH = 190;
@@ -81,6 +122,9 @@ const TABLE_IMAGE_ROW_HEIGHT = 96;
 const TABLE_MENU_CONTENT_CLASS =
   "z-[320] rounded-xl border border-slate-200 bg-white p-1.5 text-slate-700 shadow-xl shadow-slate-900/10";
 const TABLE_MENU_ITEM_CLASS = "cursor-pointer rounded-lg px-2.5 py-2 text-sm text-slate-700 focus:bg-slate-100 focus:text-slate-900";
+const TABLE_NATIVE_SELECT_CLASS =
+  "h-8 rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-700 focus:outline-none focus:ring-1 focus:ring-slate-300";
+const TABLE_FILTER_OPERATORS: TableFilterOperator[] = ["contains", "equals", "notEquals", "gt", "lt", "isEmpty", "isNotEmpty"];
 
 const TABLE_FONT = "14px Inter, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif";
 const TABLE_FONT_SEMIBOLD = "600 14px Inter, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif";
@@ -341,6 +385,16 @@ const ColumnSettingsDialog = ({
     setDraft(column);
   }, [column]);
 
+  const formulaError = useMemo(() => {
+    if (draft.type !== TableColumnType.Formula) return null;
+    try {
+      parseFormula(draft.formula || "");
+      return null;
+    } catch (error) {
+      return error instanceof FormulaError ? error.message : "Invalid formula";
+    }
+  }, [draft.type, draft.formula]);
+
   if (!open) return null;
 
   const addOption = () => {
@@ -380,19 +434,58 @@ const ColumnSettingsDialog = ({
             />
           </div>
 
-          <div className="flex items-center gap-2">
-            <input
-              id="table-col-required"
-              type="checkbox"
-              className="h-4 w-4 rounded border-slate-300"
-              checked={Boolean(draft.required)}
-              onChange={(e) => setDraft((prev) => ({ ...prev, required: e.target.checked }))}
-            />
-            <label htmlFor="table-col-required" className="text-sm text-slate-700">
-              Required field
-            </label>
+          {draft.type === TableColumnType.Formula && (
+            <div className="space-y-1.5">
+              <label className="block text-xs font-medium uppercase tracking-wide text-slate-500">Formula</label>
+              <textarea
+                value={draft.formula || ""}
+                rows={3}
+                spellCheck={false}
+                className="w-full rounded-md border border-slate-200 bg-white p-2 font-mono text-sm text-slate-800 focus:outline-none focus:ring-1 focus:ring-slate-300"
+                placeholder="e.g. DATEDIFF({Start}, {Due}) or {Frames} / 24"
+                onChange={(e) => setDraft((prev) => ({ ...prev, formula: e.target.value }))}
+              />
+              {formulaError ? (
+                <p className="text-xs text-rose-600">{formulaError}</p>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  Reference columns as {"{Column name}"}. Functions: SUM, AVG, MIN, MAX, COUNT, IF, DATEDIFF, ROUND, ABS, TODAY.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="mb-1.5 block text-xs font-medium uppercase tracking-wide text-slate-500">Totals row</label>
+            <select
+              value={draft.aggregate || ""}
+              className={`${TABLE_NATIVE_SELECT_CLASS} w-full`}
+              onChange={(e) => setDraft((prev) => ({ ...prev, aggregate: (e.target.value || undefined) as TableAggregate | undefined }))}
+            >
+              <option value="">None</option>
+              {availableAggregates(draft).map((aggregate) => (
+                <option key={aggregate} value={aggregate}>
+                  {TABLE_AGGREGATE_LABELS[aggregate]}
+                </option>
+              ))}
+            </select>
           </div>
 
+          {draft.type !== TableColumnType.Formula && (
+            <div className="flex items-center gap-2">
+              <input
+                id="table-col-required"
+                type="checkbox"
+                className="h-4 w-4 rounded border-slate-300"
+                checked={Boolean(draft.required)}
+                onChange={(e) => setDraft((prev) => ({ ...prev, required: e.target.checked }))}
+              />
+              <label htmlFor="table-col-required" className="text-sm text-slate-700">
+                Required field
+              </label>
+            </div>
+          )}
+
           {(draft.type === TableColumnType.Select || draft.type === TableColumnType.MultiSelect) && (
             <div className="space-y-3">
               <label className="block text-xs font-medium uppercase tracking-wide text-slate-500">Options</label>
@@ -482,6 +575,26 @@ const ColumnSettingsDialog = ({
   );
 };
 
+function availableAggregates(column: TableColumn): TableAggregate[] {
+  switch (column.type) {
+    case TableColumnType.Number:
+    case TableColumnType.Formula:
+      return ["count", "filled", "sum", "avg", "min", "max"];
+    case TableColumnType.Date:
+      return ["count", "filled", "min", "max"];
+    default:
+      return ["count", "filled"];
+  }
+}
+
+function formatAggregateValue(column: TableColumn, aggregate: TableAggregate, value: ReturnType<typeof aggregateTableColumn>) {
+  if (value === null) return "—";
+  if (column.type === TableColumnType.Date && (aggregate === "min" || aggregate === "max")) {
+    return new Date(String(value)).toLocaleDateString("en-GB");
+  }
+  return formatTableValue(value);
+}
+
 function getColumnIcon(type: TableColumnType) {
   switch (type) {
     case TableColumnType.Number:
@@ -496,6 +609,8 @@ function getColumnIcon(type: TableColumnType) {
       return ImageIcon;
     case TableColumnType.Person:
       return User;
+    case TableColumnType.Formula:
+      return Sigma;
     default:
       return Type;
   }
@@ -879,6 +994,27 @@ const CellEditor = ({
   return <span className="text-sm text-slate-700">{String(value || "")}</span>;
 };
 
+const FormulaCell = ({ column, result }: { column: TableColumn; result?: FormulaResult }) => {
+  if (!column.formula?.trim()) {
+    return <span className="px-2 py-1 text-sm italic text-slate-400">Set a formula</span>;
+  }
+
+  if (result?.error !== undefined) {
+    return (
+      <span className="px-2 py-1 font-mono text-xs font-semibold text-rose-600" title={result.error}>
+        #ERROR
+      </span>
+    );
+  }
+
+  const value = result?.value ?? null;
+  return (
+    <span className={`px-2 py-1 text-sm text-slate-800 ${typeof value === "number" ? "font-mono tabular-nums" : "whitespace-pre-wrap break-words"}`}>
+      {formatTableValue(value)}
+    </span>
+  );
+};
+
 export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelected = false }: TableProps) => {
   const {
     x,
@@ -893,11 +1029,17 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
     headerColor,
     alternateRowColors,
     showRowNumbers,
+    sortRules,
+    filterRules,
+    groupByColumnId,
+    showFooter,
   } = layer;
 
   const updateTable = useUpdateTable();
   const manualWidthColumnsRef = useRef<Set<string>>(new Set());
   const containerRef = useRef<HTMLDivElement | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const importModeRef = useRef<"append" | "replace">("append");
 
   const me = useSelf(
     (self) => {
@@ -928,6 +1070,7 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
   const [columnDrag, setColumnDrag] = useState<ColumnDragState>({ draggingId: null, overId: null });
   const [settingsColumnId, setSettingsColumnId] = useState<string | null>(null);
   const [dropCell, setDropCell] = useState<string | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(() => new Set());
 
   const normalizedColumnsResult = useMemo(() => normalizeColumns(columns), [columns]);
   const normalizedColumns = normalizedColumnsResult.columns;
@@ -935,6 +1078,47 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
   const normalizedRowsResult = useMemo(() => normalizeRows(rows, normalizedColumns), [rows, normalizedColumns]);
   const normalizedRows = normalizedRowsResult.rows;
 
+  const formulaResults: TableFormulaResults = useMemo(
+    () => computeTableFormulas(normalizedColumns, normalizedRows),
+    [normalizedColumns, normalizedRows],
+  );
+
+  const visibleRows = useMemo(() => {
+    const filtered = filterTableRows(normalizedRows, normalizedColumns, filterRules, formulaResults);
+    return sortTableRows(filtered, normalizedColumns, sortRules, formulaResults);
+  }, [normalizedRows, normalizedColumns, filterRules, sortRules, formulaResults]);
+
+  const groupByColumn = useMemo(
+    () => normalizedColumns.find((column) => column.id === groupByColumnId && isGroupableColumn(column)) || null,
+    [normalizedColumns, groupByColumnId],
+  );
+
+  const rowGroups = useMemo(() => (groupByColumn ? groupTableRows(visibleRows, groupByColumn) : null), [groupByColumn, visibleRows]);
+
+  // Rows in the order they are rendered: group by group, skipping collapsed groups. A multi-select
+  // row shown in several groups counts once, where it first appears.
+  const displayedRows = useMemo(() => {
+    if (!rowGroups) return visibleRows;
+    const rows = new Map<string, TableRow>();
+    rowGroups
+      .filter((group) => !collapsedGroups.has(group.key))
+      .forEach((group) => group.rows.forEach((row) => rows.has(row.id) || rows.set(row.id, row)));
+    return Array.from(rows.values());
+  }, [rowGroups, collapsedGroups, visibleRows]);
+
+  const aggregateValues = useMemo(() => {
+    const map = new Map<string, ReturnType<typeof aggregateTableColumn>>();
+    if (!showFooter) return map;
+    normalizedColumns.forEach((column) => {
+      if (column.aggregate) {
+        map.set(column.id, aggregateTableColumn(column, column.aggregate, visibleRows, formulaResults));
+      }
+    });
+    return map;
+  }, [showFooter, normalizedColumns, visibleRows, formulaResults]);
+
+  const hasViewRules = Boolean(filterRules?.length || sortRules?.length || groupByColumn);
+
   const people = useMemo(() => {
     const map = new Map<string, PersonOption>();
     if (me?.id) {
@@ -964,10 +1148,16 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
     [normalizedColumns, widthMap],
   );
 
-  const rowHeights = useMemo(() => normalizedRows.map((row) => estimateRowHeight(row, renderedColumns)), [normalizedRows, renderedColumns]);
+  const rowHeights = useMemo(
+    () => new Map(normalizedRows.map((row) => [row.id, estimateRowHeight(row, renderedColumns)])),
+    [normalizedRows, renderedColumns],
+  );
 
   const titleHeight = title ? TABLE_TITLE_HEIGHT : 0;
-  const minimumTableHeight = titleHeight + TABLE_HEADER_HEIGHT + TABLE_FOOTER_HEIGHT + TABLE_BASE_ROW_HEIGHT;
+  const viewBarHeight = hasViewRules ? TABLE_VIEW_BAR_HEIGHT : 0;
+  const aggregateRowHeight = showFooter ? TABLE_AGGREGATE_ROW_HEIGHT : 0;
+  const chromeHeight = titleHeight + viewBarHeight + TABLE_HEADER_HEIGHT + aggregateRowHeight + TABLE_FOOTER_HEIGHT;
+  const minimumTableHeight = chromeHeight + TABLE_BASE_ROW_HEIGHT;
 
   const minimumCommittedWidth = useMemo(() => {
     const columnsWidth = normalizedColumns.reduce((sum, column) => sum + column.width, 0);
@@ -1189,6 +1379,117 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
     return () => container.removeEventListener("boardElementDrop", handleBoardDrop as EventListener);
   }, [normalizedColumns, updateCell]);
 
+  // Multi-cell text pasted from a spreadsheet fills the displayed cells from the target cell
+  // down and right, adding rows when the range runs past the end of the table.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const text = event.clipboardData?.getData("text/plain") || "";
+      const target = event.target as HTMLElement | null;
+      const trimmed = text.replace(/\r?\n$/, "");
+      // Plain multi-line text in a textarea is a note, not a range.
+      if (!trimmed.includes("\t") && (!trimmed.includes("\n") || target?.tagName === "TEXTAREA")) return;
+
+      const columnId = target?.closest<HTMLElement>("[data-column-id]")?.dataset.columnId;
+      const rowId = target?.closest<HTMLElement>("[data-row-id]")?.dataset.rowId;
+      const startColumn = normalizedColumns.findIndex((column) => column.id === columnId);
+      const startRow = displayedRows.findIndex((row) => row.id === rowId);
+      if (startColumn < 0 || startRow < 0) return;
+
+      const matrix = parseDelimited(trimmed, "\t");
+      if (matrix.length === 0) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      const targetColumns = normalizedColumns.slice(startColumn, startColumn + Math.max(...matrix.map((line) => line.length)));
+      const nextColumns = normalizedColumns.map((column) => {
+        const offset = targetColumns.indexOf(column);
+        return offset < 0 ? column : ensureSpreadsheetOptions(column, matrix.map((line) => line[offset] ?? ""));
+      });
+      const byId = new Map(nextColumns.map((column) => [column.id, column]));
+
+      const now = new Date().toISOString();
+      const updatesByRow = new Map<string, string[]>();
+      const appended: TableRow[] = [];
+      matrix.forEach((line, offset) => {
+        const existing = displayedRows[startRow + offset];
+        if (existing) {
+          updatesByRow.set(existing.id, line);
+          return;
+        }
+        const row: TableRow = {
+          id: `row_${nanoid()}`,
+          createdAt: now,
+          updatedAt: now,
+          cells: nextColumns.map((column) => ({ columnId: column.id, value: defaultValueForType(column.type) })),
+        };
+        updatesByRow.set(row.id, line);
+        appended.push(row);
+      });
+
+      const applyLine = (row: TableRow) => {
+        const line = updatesByRow.get(row.id);
+        if (!line) return row;
+        const cells = row.cells.map((cell) => {
+          const offset = targetColumns.findIndex((column) => column.id === cell.columnId);
+          const column = byId.get(cell.columnId);
+          if (offset < 0 || offset >= line.length || !column) return cell;
+          if (column.type === TableColumnType.Formula || column.type === TableColumnType.Person) return cell;
+          return { ...cell, value: spreadsheetValueForColumn(column, line[offset]) };
+        });
+        return { ...row, cells, updatedAt: now };
+      };
+
+      patch({
+        columns: nextColumns,
+        rows: [...normalizedRows, ...appended].map(applyLine),
+      });
+      toast.success(`Pasted ${matrix.length} ${matrix.length === 1 ? "row" : "rows"}`);
+    };
+
+    container.addEventListener("paste", handlePaste);
+    return () => container.removeEventListener("paste", handlePaste);
+  }, [normalizedColumns, normalizedRows, displayedRows, patch]);
+
+  const importSpreadsheet = useCallback(
+    async (file: File, mode: "append" | "replace") => {
+      try {
+        const matrix = await readSpreadsheetFile(file);
+        const result = mergeSpreadsheetIntoTable(matrix, normalizedColumns, normalizedRows, mode);
+        if (result.imported === 0) {
+          toast.error("No rows found in this file");
+          return;
+        }
+        const nextMinWidth = result.columns.reduce((sum, column) => sum + column.width, 0) + rowNumberWidth + TABLE_ACTION_COLUMN_WIDTH;
+        patch({
+          columns: result.columns,
+          rows: result.rows,
+          width: Math.max(width, nextMinWidth),
+        });
+        toast.success(`Imported ${result.imported} ${result.imported === 1 ? "row" : "rows"}`);
+      } catch (error) {
+        console.error("Spreadsheet import failed", error);
+        toast.error("Could not read this spreadsheet");
+      }
+    },
+    [normalizedColumns, normalizedRows, patch, width, rowNumberWidth],
+  );
+
+  const exportSpreadsheet = useCallback(
+    (format: SpreadsheetFormat) => {
+      const matrix = tableToSpreadsheet(
+        normalizedColumns,
+        visibleRows,
+        formulaResults,
+        (personId) => people.find((person) => person.id === personId)?.name,
+      );
+      downloadSpreadsheet(format, matrix, title || "table");
+    },
+    [normalizedColumns, visibleRows, formulaResults, people, title],
+  );
+
   const addRow = useCallback(() => {
     const now = new Date().toISOString();
     const newRow: TableRow = {
@@ -1242,6 +1543,10 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
         rows: nextRows,
         width: Math.max(width, nextMinWidth),
       });
+
+      if (type === TableColumnType.Formula) {
+        setSettingsColumnId(newColumn.id);
+      }
     },
     [normalizedColumns, normalizedRows, patch, width, rowNumberWidth],
   );
@@ -1281,11 +1586,60 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
         columns: nextColumns,
         rows: nextRows,
         width: Math.max(nextMinWidth, TABLE_MIN_COLUMN_WIDTH + TABLE_ACTION_COLUMN_WIDTH),
+        sortRules: sortRules?.filter((rule) => rule.columnId !== columnId),
+        filterRules: filterRules?.filter((rule) => rule.columnId !== columnId),
+        groupByColumnId: groupByColumnId === columnId ? "" : undefined,
       });
     },
-    [normalizedColumns, normalizedRows, patch, rowNumberWidth],
+    [normalizedColumns, normalizedRows, patch, rowNumberWidth, sortRules, filterRules, groupByColumnId],
+  );
+
+  const setSortRule = useCallback(
+    (columnId: string, direction: TableSortRule["direction"] | null) => {
+      const rest = (sortRules || []).filter((rule) => rule.columnId !== columnId);
+      // The latest sort becomes the primary key; earlier ones break ties.
+      patch({ sortRules: direction ? [{ columnId, direction }, ...rest] : rest });
+    },
+    [sortRules, patch],
   );
 
+  const addFilterRule = useCallback(
+    (column: TableColumn) => {
+      const operator: TableFilterOperator =
+        column.type === TableColumnType.Text || column.type === TableColumnType.MultiSelect || column.type === TableColumnType.Person
+          ? "contains"
+          : "equals";
+      patch({ filterRules: [...(filterRules || []), { id: `flt_${nanoid()}`, columnId: column.id, operator, value: "" }] });
+    },
+    [filterRules, patch],
+  );
+
+  const updateFilterRule = useCallback(
+    (ruleId: string, updates: Partial<TableFilterRule>) => {
+      patch({ filterRules: (filterRules || []).map((rule) => (rule.id === ruleId ? { ...rule, ...updates } : rule)) });
+    },
+    [filterRules, patch],
+  );
+
+  const removeFilterRule = useCallback(
+    (ruleId: string) => {
+      patch({ filterRules: (filterRules || []).filter((rule) => rule.id !== ruleId) });
+    },
+    [filterRules, patch],
+  );
+
+  const toggleGroup = useCallback((groupKey: string) => {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupKey)) {
+        next.delete(groupKey);
+      } else {
+        next.add(groupKey);
+      }
+      return next;
+    });
+  }, []);
+
   const handleColumnReorder = useCallback(
     (targetId: string) => {
       if (!columnDrag.draggingId) {
@@ -1332,7 +1686,117 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
   );
 
   const tableHeight = Math.max(height, minimumTableHeight);
-  const bodyViewportHeight = Math.max(0, tableHeight - titleHeight - TABLE_HEADER_HEIGHT - TABLE_FOOTER_HEIGHT);
+  const bodyViewportHeight = Math.max(0, tableHeight - chromeHeight);
+
+  const renderRow = (row: TableRow, rowIndex: number) => {
+    const rowHeight = rowHeights.get(row.id) || TABLE_BASE_ROW_HEIGHT;
+
+    return (
+      <div
+        key={row.id}
+        data-row-id={row.id}
+        className={`group flex border-b transition-colors ${alternateRowColors && rowIndex % 2 === 1 ? "bg-slate-50/60" : "bg-white"} hover:bg-slate-50/80`}
+        style={{
+          minHeight: rowHeight,
+          borderBottomColor: borderColor ? colorToCSS(borderColor) : "#f1f5f9",
+        }}
+      >
+        {showRowNumbers && (
+          <div
+            data-table-interactive="true"
+            className="flex items-center justify-center border-r text-xs font-medium text-slate-500"
+            style={{ width: rowNumberWidth, borderRightColor: borderColor ? colorToCSS(borderColor) : "#f1f5f9" }}
+          >
+            {rowIndex + 1}
+          </div>
+        )}
+
+        {renderedColumns.map((column) => {
+          const cell = row.cells.find((entry) => entry.columnId === column.id) || {
+            columnId: column.id,
+            value: defaultValueForType(column.type),
+          };
+
+          const cellKey = `${row.id}:${column.id}`;
+          const isDropTarget = dropCell === cellKey;
+          const isMediaColumn = column.type === TableColumnType.Image;
+
+          return (
+            <div
+              key={cellKey}
+              data-table-interactive="true"
+              data-column-id={column.id}
+              data-column-type={column.type}
+              className={`relative border-r px-3 py-1.5 ${isMediaColumn ? "flex items-center justify-center" : "flex items-start"} ${
+                isDropTarget ? "bg-blue-100/70" : ""
+              }`}
+              style={{
+                width: column.width,
+                minHeight: rowHeight,
+                borderRightColor: borderColor ? colorToCSS(borderColor) : "#f1f5f9",
+              }}
+              onPointerDown={(event) => event.stopPropagation()}
+              onDragOver={
+                isMediaColumn
+                  ? (event) => {
+                      event.preventDefault();
+                      event.stopPropagation();
+                      if (dropCell !== cellKey) {
+                        setDropCell(cellKey);
+                      }
+                    }
+                  : undefined
+              }
+              onDragLeave={
+                isMediaColumn
+                  ? (event) => {
+                      event.stopPropagation();
+                      const nextTarget = event.relatedTarget as Node | null;
+                      if (!nextTarget || !event.currentTarget.contains(nextTarget)) {
+                        setDropCell((current) => (current === cellKey ? null : current));
+                      }
+                    }
+                  : undefined
+              }
+              onDrop={
+                isMediaColumn
+                  ? (event) => {
+                      handleMediaDrop(event, row.id, column.id);
+                    }
+                  : undefined
+              }
+            >
+              {column.type === TableColumnType.Formula ? (
+                <FormulaCell column={column} result={tableFormulaResult(row, column, formulaResults)} />
+              ) : (
+                <CellEditor rowId={row.id} column={column} cell={cell} people={people} onChange={updateCell} />
+              )}
+
+              {isMediaColumn && isDropTarget && (
+                <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded border-2 border-dashed border-blue-400 bg-blue-100/40 text-xs font-medium text-blue-700">
+                  Drop media here
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div data-table-interactive="true" className="flex items-center justify-center" style={{ width: TABLE_ACTION_COLUMN_WIDTH }}>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 opacity-0 transition-opacity group-hover:opacity-100 hover:bg-rose-50 hover:text-rose-600"
+            onClick={(event) => {
+              event.stopPropagation();
+              removeRow(row.id);
+            }}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
 
   return (
     <foreignObject
@@ -1393,23 +1857,229 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
               </button>
               <span className="truncate text-sm font-semibold text-slate-900">{title}</span>
               <Badge variant="outline" className="border-slate-300 bg-white text-[11px] text-slate-600">
-                {normalizedRows.length}
+                {visibleRows.length === normalizedRows.length ? normalizedRows.length : `${visibleRows.length}/${normalizedRows.length}`}
               </Badge>
             </div>
 
-            <Button
-              variant="outline"
-              size="sm"
-              data-table-interactive="true"
-              className="h-8 border-slate-200 bg-white px-2.5 text-xs text-slate-700 hover:bg-slate-50"
-              onClick={(event) => {
-                event.stopPropagation();
-                addRow();
-              }}
+            <div className="flex items-center gap-1.5">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    data-table-interactive="true"
+                    className="h-8 border-slate-200 bg-white px-2.5 text-xs text-slate-700 hover:bg-slate-50"
+                    onClick={(event) => event.stopPropagation()}
+                  >
+                    <ListFilter className="mr-1 h-3.5 w-3.5" />
+                    Filter
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className={`${TABLE_MENU_CONTENT_CLASS} min-w-[200px]`}>
+                  <DropdownMenuLabel>Filter by</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {normalizedColumns
+                    .filter((column) => column.type !== TableColumnType.Image)
+                    .map((column) => {
+                      const Icon = getColumnIcon(column.type);
+                      return (
+                        <DropdownMenuItem key={column.id} className={TABLE_MENU_ITEM_CLASS} onClick={() => addFilterRule(column)}>
+                          <Icon className="mr-2 h-3.5 w-3.5" />
+                          {column.name}
+                        </DropdownMenuItem>
+                      );
+                    })}
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    data-table-interactive="true"
+                    className="h-8 border-slate-200 bg-white px-2.5 text-xs text-slate-700 hover:bg-slate-50"
+                    onClick={(event) => event.stopPropagation()}
+                  >
+                    <FileSpreadsheet className="mr-1 h-3.5 w-3.5" />
+                    Data
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className={`${TABLE_MENU_CONTENT_CLASS} min-w-[200px]`}>
+                  <DropdownMenuLabel>Import CSV / XLSX</DropdownMenuLabel>
+                  <DropdownMenuItem
+                    className={TABLE_MENU_ITEM_CLASS}
+                    onClick={() => {
+                      importModeRef.current = "append";
+                      importInputRef.current?.click();
+                    }}
+                  >
+                    <Upload className="mr-2 h-3.5 w-3.5" />
+                    Append rows…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className={TABLE_MENU_ITEM_CLASS}
+                    onClick={() => {
+                      importModeRef.current = "replace";
+                      importInputRef.current?.click();
+                    }}
+                  >
+                    <Upload className="mr-2 h-3.5 w-3.5" />
+                    Replace rows…
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Export {hasViewRules ? "visible rows" : "rows"}</DropdownMenuLabel>
+                  <DropdownMenuItem className={TABLE_MENU_ITEM_CLASS} onClick={() => exportSpreadsheet("csv")}>
+                    <Download className="mr-2 h-3.5 w-3.5" />
+                    CSV
+                  </DropdownMenuItem>
+                  <DropdownMenuItem className={TABLE_MENU_ITEM_CLASS} onClick={() => exportSpreadsheet("xlsx")}>
+                    <Download className="mr-2 h-3.5 w-3.5" />
+                    Excel (XLSX)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={SPREADSHEET_FILE_ACCEPT}
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  event.target.value = "";
+                  if (file) void importSpreadsheet(file, importModeRef.current);
+                }}
+              />
+
+              <Button
+                variant="outline"
+                size="sm"
+                data-table-interactive="true"
+                className="h-8 border-slate-200 bg-white px-2.5 text-xs text-slate-700 hover:bg-slate-50"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  addRow();
+                }}
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Row
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {hasViewRules && (
+          <div
+            data-table-interactive="true"
+            className="flex h-[44px] items-center gap-2 overflow-x-auto border-b bg-slate-50/70 px-3"
+            style={{ borderBottomColor: borderColor ? colorToCSS(borderColor) : "#e2e8f0" }}
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            {(filterRules || []).map((rule) => {
+              const column = normalizedColumns.find((entry) => entry.id === rule.columnId);
+              if (!column) return null;
+              const needsValue = rule.operator !== "isEmpty" && rule.operator !== "isNotEmpty";
+
+              return (
+                <div key={rule.id} className="flex flex-shrink-0 items-center gap-1 rounded-lg border border-slate-200 bg-white py-0.5 pl-2 pr-0.5">
+                  <ListFilter className="h-3.5 w-3.5 text-slate-400" />
+                  <span className="text-xs font-medium text-slate-700">{column.name}</span>
+                  <select
+                    value={rule.operator}
+                    className={`${TABLE_NATIVE_SELECT_CLASS} h-7 border-0 text-xs`}
+                    onChange={(event) => updateFilterRule(rule.id, { operator: event.target.value as TableFilterOperator })}
+                  >
+                    {TABLE_FILTER_OPERATORS.map((operator) => (
+                      <option key={operator} value={operator}>
+                        {TABLE_FILTER_OPERATOR_LABELS[operator]}
+                      </option>
+                    ))}
+                  </select>
+                  {needsValue &&
+                    (column.type === TableColumnType.Select || column.type === TableColumnType.MultiSelect ? (
+                      <select
+                        value={rule.value || ""}
+                        className={`${TABLE_NATIVE_SELECT_CLASS} h-7 text-xs`}
+                        onChange={(event) => updateFilterRule(rule.id, { value: event.target.value })}
+                      >
+                        <option value="">Any</option>
+                        {(column.options || []).map((option) => (
+                          <option key={option.id} value={option.label}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        value={rule.value || ""}
+                        type={column.type === TableColumnType.Date ? "date" : column.type === TableColumnType.Number ? "number" : "text"}
+                        placeholder="Value"
+                        className="h-7 w-28 rounded-md border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:outline-none focus:ring-1 focus:ring-slate-300"
+                        onChange={(event) => updateFilterRule(rule.id, { value: event.target.value })}
+                      />
+                    ))}
+                  <button
+                    type="button"
+                    className="flex h-6 w-6 items-center justify-center rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-700"
+                    title="Remove filter"
+                    onClick={() => removeFilterRule(rule.id)}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+
+            {(sortRules || []).map((rule) => {
+              const column = normalizedColumns.find((entry) => entry.id === rule.columnId);
+              if (!column) return null;
+              const Arrow = rule.direction === "asc" ? ArrowUp : ArrowDown;
+
+              return (
+                <div key={rule.columnId} className="flex flex-shrink-0 items-center gap-1 rounded-lg border border-slate-200 bg-white py-0.5 pl-2 pr-0.5">
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 text-xs font-medium text-slate-700"
+                    title="Reverse sort"
+                    onClick={() => setSortRule(rule.columnId, rule.direction === "asc" ? "desc" : "asc")}
+                  >
+                    <Arrow className="h-3.5 w-3.5 text-slate-400" />
+                    {column.name}
+                  </button>
+                  <button
+                    type="button"
+                    className="flex h-6 w-6 items-center justify-center rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-700"
+                    title="Remove sort"
+                    onClick={() => setSortRule(rule.columnId, null)}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+
+            {groupByColumn && (
+              <div className="flex flex-shrink-0 items-center gap-1 rounded-lg border border-slate-200 bg-white py-0.5 pl-2 pr-0.5">
+                <Group className="h-3.5 w-3.5 text-slate-400" />
+                <span className="text-xs font-medium text-slate-700">Grouped by {groupByColumn.name}</span>
+                <button
+                  type="button"
+                  className="flex h-6 w-6 items-center justify-center rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-700"
+                  title="Remove grouping"
+                  onClick={() => patch({ groupByColumnId: "" })}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            )}
+
+            <button
+              type="button"
+              className="ml-auto flex-shrink-0 rounded-md px-2 py-1 text-xs font-medium text-slate-500 hover:bg-slate-100 hover:text-slate-800"
+              onClick={() => patch({ filterRules: [], sortRules: [], groupByColumnId: "" })}
             >
-              <Plus className="mr-1 h-3.5 w-3.5" />
-              Row
-            </Button>
+              Clear view
+            </button>
           </div>
         )}
 
@@ -1431,6 +2101,8 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
 
           {renderedColumns.map((column, index) => {
             const Icon = getColumnIcon(column.type);
+            const sortRule = sortRules?.find((rule) => rule.columnId === column.id);
+            const canSortOrFilter = column.type !== TableColumnType.Image;
             const isDragging = columnDrag.draggingId === column.id;
             const isDragOver = columnDrag.overId === column.id;
 
@@ -1469,6 +2141,12 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
                 <Icon className="h-3.5 w-3.5 flex-shrink-0 text-slate-500" />
                 <span className="truncate text-sm font-medium text-slate-700">{column.name}</span>
                 {column.required && <span className="text-xs text-rose-500">*</span>}
+                {sortRule &&
+                  (sortRule.direction === "asc" ? (
+                    <ArrowUp className="h-3.5 w-3.5 flex-shrink-0 text-blue-600" />
+                  ) : (
+                    <ArrowDown className="h-3.5 w-3.5 flex-shrink-0 text-blue-600" />
+                  ))}
 
                 <div className="ml-auto flex items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
                   <Button
@@ -1496,6 +2174,44 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
                     <DropdownMenuContent align="end" className={TABLE_MENU_CONTENT_CLASS}>
                       <DropdownMenuLabel>Column</DropdownMenuLabel>
                       <DropdownMenuSeparator />
+                      {canSortOrFilter && (
+                        <>
+                          <DropdownMenuItem className={TABLE_MENU_ITEM_CLASS} onClick={() => setSortRule(column.id, "asc")}>
+                            <ArrowUp className="mr-2 h-3.5 w-3.5" />
+                            Sort ascending
+                          </DropdownMenuItem>
+                          <DropdownMenuItem className={TABLE_MENU_ITEM_CLASS} onClick={() => setSortRule(column.id, "desc")}>
+                            <ArrowDown className="mr-2 h-3.5 w-3.5" />
+                            Sort descending
+                          </DropdownMenuItem>
+                          {sortRule && (
+                            <DropdownMenuItem className={TABLE_MENU_ITEM_CLASS} onClick={() => setSortRule(column.id, null)}>
+                              <X className="mr-2 h-3.5 w-3.5" />
+                              Clear sort
+                            </DropdownMenuItem>
+                          )}
+                        </>
+                      )}
+                      {canSortOrFilter && (
+                        <DropdownMenuItem className={TABLE_MENU_ITEM_CLASS} onClick={() => addFilterRule(column)}>
+                          <ListFilter className="mr-2 h-3.5 w-3.5" />
+                          Filter by this column
+                        </DropdownMenuItem>
+                      )}
+                      {isGroupableColumn(column) && (
+                        <DropdownMenuItem
+                          className={TABLE_MENU_ITEM_CLASS}
+                          onClick={() => patch({ groupByColumnId: groupByColumn?.id === column.id ? "" : column.id })}
+                        >
+                          <Group className="mr-2 h-3.5 w-3.5" />
+                          {groupByColumn?.id === column.id ? "Ungroup" : "Group by this column"}
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem className={TABLE_MENU_ITEM_CLASS} onClick={() => patch({ showFooter: !showFooter })}>
+                        <Sigma className="mr-2 h-3.5 w-3.5" />
+                        {showFooter ? "Hide totals row" : "Show totals row"}
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
                       <DropdownMenuItem
                         className={TABLE_MENU_ITEM_CLASS}
                         onClick={(event) => {
@@ -1588,118 +2304,130 @@ export const Table = memo(({ id, layer, onPointerDown, selectionColor, isSelecte
                   <ImageIcon className="mr-2 h-3.5 w-3.5" />
                   Image / Video
                 </DropdownMenuItem>
+                <DropdownMenuItem className={TABLE_MENU_ITEM_CLASS} onClick={() => addColumn(TableColumnType.Formula)}>
+                  <Sigma className="mr-2 h-3.5 w-3.5" />
+                  Formula
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
         </div>
 
         <div className="overflow-auto bg-white/80" style={{ maxHeight: bodyViewportHeight }}>
-          {normalizedRows.map((row, rowIndex) => {
-            const rowHeight = rowHeights[rowIndex] || TABLE_BASE_ROW_HEIGHT;
-
-            return (
-              <div
-                key={row.id}
-                data-row-id={row.id}
-                className={`group flex border-b transition-colors ${alternateRowColors && rowIndex % 2 === 1 ? "bg-slate-50/60" : "bg-white"} hover:bg-slate-50/80`}
-                style={{
-                  minHeight: rowHeight,
-                  borderBottomColor: borderColor ? colorToCSS(borderColor) : "#f1f5f9",
-                }}
-              >
-                {showRowNumbers && (
-                  <div
-                    data-table-interactive="true"
-                    className="flex items-center justify-center border-r text-xs font-medium text-slate-500"
-                    style={{ width: rowNumberWidth, borderRightColor: borderColor ? colorToCSS(borderColor) : "#f1f5f9" }}
-                  >
-                    {rowIndex + 1}
-                  </div>
-                )}
-
-                {renderedColumns.map((column) => {
-                  const cell = row.cells.find((entry) => entry.columnId === column.id) || {
-                    columnId: column.id,
-                    value: defaultValueForType(column.type),
-                  };
+          {visibleRows.length === 0 && normalizedRows.length > 0 && (
+            <div className="flex h-[46px] items-center justify-center text-sm italic text-slate-400">No rows match the current filters</div>
+          )}
 
-                  const cellKey = `${row.id}:${column.id}`;
-                  const isDropTarget = dropCell === cellKey;
-                  const isMediaColumn = column.type === TableColumnType.Image;
+          {rowGroups
+            ? rowGroups.map((group) => {
+                const collapsed = collapsedGroups.has(group.key);
 
-                  return (
-                    <div
-                      key={cellKey}
+                return (
+                  <div key={group.key}>
+                    <button
+                      type="button"
                       data-table-interactive="true"
-                      data-column-id={column.id}
-                      data-column-type={column.type}
-                      className={`relative border-r px-3 py-1.5 ${isMediaColumn ? "flex items-center justify-center" : "flex items-start"} ${
-                        isDropTarget ? "bg-blue-100/70" : ""
-                      }`}
-                      style={{
-                        width: column.width,
-                        minHeight: rowHeight,
-                        borderRightColor: borderColor ? colorToCSS(borderColor) : "#f1f5f9",
+                      className="flex w-full items-center gap-2 border-b bg-slate-100/70 px-3 text-left text-xs font-semibold text-slate-600 hover:bg-slate-100"
+                      style={{ height: TABLE_GROUP_HEADER_HEIGHT, borderBottomColor: borderColor ? colorToCSS(borderColor) : "#e2e8f0" }}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleGroup(group.key);
                       }}
                       onPointerDown={(event) => event.stopPropagation()}
-                      onDragOver={
-                        isMediaColumn
-                          ? (event) => {
-                              event.preventDefault();
-                              event.stopPropagation();
-                              if (dropCell !== cellKey) {
-                                setDropCell(cellKey);
-                              }
-                            }
-                          : undefined
-                      }
-                      onDragLeave={
-                        isMediaColumn
-                          ? (event) => {
-                              event.stopPropagation();
-                              const nextTarget = event.relatedTarget as Node | null;
-                              if (!nextTarget || !event.currentTarget.contains(nextTarget)) {
-                                setDropCell((current) => (current === cellKey ? null : current));
-                              }
-                            }
-                          : undefined
-                      }
-                      onDrop={
-                        isMediaColumn
-                          ? (event) => {
-                              handleMediaDrop(event, row.id, column.id);
-                            }
-                          : undefined
-                      }
                     >
-                      <CellEditor rowId={row.id} column={column} cell={cell} people={people} onChange={updateCell} />
-
-                      {isMediaColumn && isDropTarget && (
-                        <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded border-2 border-dashed border-blue-400 bg-blue-100/40 text-xs font-medium text-blue-700">
-                          Drop media here
-                        </div>
+                      <ChevronRight className={`h-3.5 w-3.5 text-slate-400 transition-transform ${collapsed ? "" : "rotate-90"}`} />
+                      {group.option ? (
+                        <Badge
+                          variant="secondary"
+                          className="border text-xs"
+                          style={{
+                            backgroundColor: `${colorToCSS(group.option.color)}20`,
+                            color: colorToCSS(group.option.color),
+                            borderColor: `${colorToCSS(group.option.color)}55`,
+                          }}
+                        >
+                          {group.label}
+                        </Badge>
+                      ) : (
+                        <span className="italic text-slate-500">{group.label}</span>
                       )}
-                    </div>
-                  );
-                })}
+                      <span className="font-medium text-slate-400">{group.rows.length}</span>
+                    </button>
+                    {!collapsed && group.rows.map((row, rowIndex) => renderRow(row, rowIndex))}
+                  </div>
+                );
+              })
+            : visibleRows.map((row, rowIndex) => renderRow(row, rowIndex))}
+        </div>
 
-                <div data-table-interactive="true" className="flex items-center justify-center" style={{ width: TABLE_ACTION_COLUMN_WIDTH }}>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-7 w-7 p-0 opacity-0 transition-opacity group-hover:opacity-100 hover:bg-rose-50 hover:text-rose-600"
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      removeRow(row.id);
-                    }}
-                  >
-                    <Trash2 className="h-3.5 w-3.5" />
-                  </Button>
-                </div>
+        {showFooter && (
+          <div
+            className="group flex border-t bg-slate-50/80"
+            style={{ height: TABLE_AGGREGATE_ROW_HEIGHT, borderTopColor: borderColor ? colorToCSS(borderColor) : "#e2e8f0" }}
+          >
+            {showRowNumbers && (
+              <div
+                className="flex items-center justify-center border-r"
+                style={{ width: rowNumberWidth, borderRightColor: borderColor ? colorToCSS(borderColor) : "#e2e8f0" }}
+              >
+                <Sigma className="h-3.5 w-3.5 text-slate-400" />
               </div>
-            );
-          })}
-        </div>
+            )}
+
+            {renderedColumns.map((column) => (
+              <div
+                key={column.id}
+                data-table-interactive="true"
+                className="flex items-center justify-end border-r px-2"
+                style={{ width: column.width, borderRightColor: borderColor ? colorToCSS(borderColor) : "#e2e8f0" }}
+                onPointerDown={(event) => event.stopPropagation()}
+              >
+                <DropdownMenu modal={false}>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      type="button"
+                      className="flex h-7 max-w-full items-center gap-1.5 rounded-md px-2 text-xs hover:bg-slate-200/60"
+                      onClick={(event) => event.stopPropagation()}
+                    >
+                      {column.aggregate ? (
+                        <>
+                          <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                            {TABLE_AGGREGATE_LABELS[column.aggregate]}
+                          </span>
+                          <span className="truncate font-mono font-semibold tabular-nums text-slate-800">
+                            {formatAggregateValue(column, column.aggregate, aggregateValues.get(column.id) ?? null)}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-slate-400 opacity-0 transition-opacity group-hover:opacity-100">Calculate</span>
+                      )}
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className={`${TABLE_MENU_CONTENT_CLASS} min-w-[160px]`}>
+                    <DropdownMenuItem
+                      className={`${TABLE_MENU_ITEM_CLASS} text-slate-500`}
+                      onClick={() => updateColumn(column.id, { aggregate: undefined })}
+                    >
+                      None
+                    </DropdownMenuItem>
+                    {availableAggregates(column).map((aggregate) => (
+                      <DropdownMenuItem
+                        key={aggregate}
+                        className={TABLE_MENU_ITEM_CLASS}
+                        onClick={() => updateColumn(column.id, { aggregate })}
+                      >
+                        {TABLE_AGGREGATE_LABELS[aggregate]}
+                        {column.aggregate === aggregate && <Check className="ml-auto h-3.5 w-3.5 text-blue-600" />}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))}
+
+            <div style={{ width: TABLE_ACTION_COLUMN_WIDTH }} />
+          </div>
+        )}
 
         <button
           type="button"
@@ -1,6 +1,8 @@
 import React, { useRef, useEffect, useState, useMemo, useCallback } from 'react';
 import { Annotation, Point, Video, AnnotationTool, RectangleAnnotation, EllipseAnnotation, PointerPosition, Comment, TextAnnotation, ImageAnnotation, VideoAnnotation, MentionOption, FreehandAnnotation, ArrowAnnotation } from '../types';
 import * as geo from '../utils/geometry';
+import { commentCoversFrame } from '../utils/commentRange';
+import { isAnnotationVisibleAt, poseAnnotation, translateAnnotation, unposeAnnotation } from '../utils/annotationHold';
 import CommentPopover from './CommentPopover';
 import NewCommentPopover from './NewCommentPopover';
 import { CheckCircle2, UploadCloud, Play, Pause, Volume2, VolumeX, Repeat } from 'lucide-react';
@@ -189,7 +191,8 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
 
   const annotationsForFrame = useMemo(() => {
     return annotations
-      .filter((annotation) => annotation.frame === currentFrame)
+      .filter((annotation) => isAnnotationVisibleAt(annotation, currentFrame))
+      .map((annotation) => poseAnnotation(annotation, currentFrame))
       .map((annotation, index) => ({ annotation, index }))
       .sort((left, right) => {
         const leftLayer = getLayerValue(left.annotation, left.index);
@@ -201,8 +204,21 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
   }, [annotations, currentFrame]);
 
   const selectedAnnotations = useMemo(() => {
-    return annotations.filter(a => selectedAnnotationIds.includes(a.id));
-  }, [annotations, selectedAnnotationIds]);
+    return annotations
+      .filter(a => selectedAnnotationIds.includes(a.id))
+      .map(a => (isAnnotationVisibleAt(a, currentFrame) ? poseAnnotation(a, currentFrame) : a));
+  }, [annotations, selectedAnnotationIds, currentFrame]);
+
+  // Edits are made on posed copies; map them back onto the drawn shape and its keyframes.
+  const commitAnnotationUpdates = useCallback((updates: Annotation[]) => {
+    const originals = new Map(annotations.map((annotation) => [annotation.id, annotation]));
+    onUpdateAnnotations(
+      updates.map((update) => {
+        const original = originals.get(update.id);
+        return original ? unposeAnnotation(update, original, currentFrame) : update;
+      }),
+    );
+  }, [annotations, currentFrame, onUpdateAnnotations]);
 
   const effectiveAnnotations = useMemo(() => {
     if (!transformedAnnotations) return annotationsForFrame;
@@ -235,7 +251,7 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
 
   const commentsOnFrame = useMemo(() => {
     return comments
-      .filter(c => c.frame === currentFrame && c.position)
+      .filter(c => commentCoversFrame(c, currentFrame) && c.position)
       .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }, [comments, currentFrame]);
   
@@ -1174,7 +1190,7 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
 
     // Finalize annotation transform
     if (transform && transformedAnnotations) {
-        onUpdateAnnotations(transformedAnnotations);
+        commitAnnotationUpdates(transformedAnnotations);
     }
 
     // Finalize marquee selection
@@ -1348,11 +1364,11 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
         })
         .filter((annotation): annotation is Annotation => Boolean(annotation));
       if (updates.length > 0) {
-        onUpdateAnnotations(updates);
+        commitAnnotationUpdates(updates);
       }
       setContextMenu(null);
     },
-    [annotationsForFrame, selectedAnnotationIds, onUpdateAnnotations],
+    [annotationsForFrame, selectedAnnotationIds, commitAnnotationUpdates],
   );
 
   const handleCanvasPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
@@ -1416,50 +1432,6 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     return 'default';
   };
 
-  const translateAnnotation = useCallback((annotation: Annotation, dx: number, dy: number): Annotation => {
-    switch (annotation.type) {
-      case AnnotationTool.RECTANGLE:
-      case AnnotationTool.ELLIPSE:
-      case AnnotationTool.IMAGE:
-      case AnnotationTool.VIDEO: {
-        const typed = annotation as RectangleAnnotation | EllipseAnnotation | ImageAnnotation | VideoAnnotation;
-        if (!typed.center) return annotation;
-        return {
-          ...typed,
-          center: {
-            x: typed.center.x + dx,
-            y: typed.center.y + dy,
-          },
-        };
-      }
-      case AnnotationTool.ARROW: {
-        const typed = annotation as ArrowAnnotation;
-        return {
-          ...typed,
-          start: { x: typed.start.x + dx, y: typed.start.y + dy },
-          end: { x: typed.end.x + dx, y: typed.end.y + dy },
-        };
-      }
-      case AnnotationTool.FREEHAND: {
-        const typed = annotation as FreehandAnnotation;
-        return {
-          ...typed,
-          points: typed.points.map((point) => ({ x: point.x + dx, y: point.y + dy })),
-        };
-      }
-      case AnnotationTool.TEXT: {
-        const typed = annotation as TextAnnotation;
-        if (!typed.position) return annotation;
-        return {
-          ...typed,
-          position: { x: typed.position.x + dx, y: typed.position.y + dy },
-        };
-      }
-      default:
-        return annotation;
-    }
-  }, []);
-
   const computeAlignmentSnap = useCallback(
     (movedAnnotations: Annotation[]): { dx: number; dy: number; guides: AlignmentGuide[] } => {
       if (!renderedRect) return { dx: 0, dy: 0, guides: [] };
@@ -1955,6 +1927,7 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     >
       <canvas
         ref={canvasRef}
+        data-annotation-layer
         className="absolute top-0 left-0 w-full h-full pointer-events-auto z-0 touch-none select-none"
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { CheckCircle2, XCircle, AlertTriangle, PauseCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { api } from '../convex/_generated/api';
+import type { Id } from '../convex/_generated/dataModel';
+import type { VideoApproval } from '../types';
+import type { ReviewApprovalStatus } from '../types/canvas';
+
+interface ApprovalPanelProps {
+  videoId: string;
+  // Source being reviewed; defaults to the video's current upload on the server.
+  storageKey?: string;
+  revisionLabel?: string;
+  canDecide: boolean;
+  isDark?: boolean;
+}
+
+const STATUS_OPTIONS: Array<{ status: ReviewApprovalStatus; label: string; Icon: React.ComponentType<{ size?: number; className?: string }> }> = [
+  { status: 'approved', label: 'Approve', Icon: CheckCircle2 },
+  { status: 'needs_changes', label: 'Needs changes', Icon: AlertTriangle },
+  { status: 'on_hold', label: 'On hold', Icon: PauseCircle },
+  { status: 'rejected', label: 'Reject', Icon: XCircle },
+];
+
+const STATUS_TEXT: Record<ReviewApprovalStatus, string> = {
+  approved: 'Approved',
+  needs_changes: 'Needs changes',
+  on_hold: 'On hold',
+  rejected: 'Rejected',
+};
+
+const statusTone = (status: ReviewApprovalStatus, isDark: boolean) => {
+  switch (status) {
+    case 'approved':
+      return isDark ? 'text-emerald-300 bg-emerald-500/15 border-emerald-400/30' : 'text-emerald-700 bg-emerald-50 border-emerald-200';
+    case 'needs_changes':
+      return isDark ? 'text-amber-300 bg-amber-500/15 border-amber-400/30' : 'text-amber-700 bg-amber-50 border-amber-200';
+    case 'on_hold':
+      return isDark ? 'text-sky-300 bg-sky-500/15 border-sky-400/30' : 'text-sky-700 bg-sky-50 border-sky-200';
+    case 'rejected':
+    default:
+      return isDark ? 'text-red-300 bg-red-500/15 border-red-400/30' : 'text-red-700 bg-red-50 border-red-200';
+  }
+};
+
+const ApprovalPanel: React.FC<ApprovalPanelProps> = ({ videoId, storageKey, revisionLabel, canDecide, isDark = true }) => {
+  const approvals = useQuery(api.approvals.listByVideo, {
+    videoId: videoId as Id<'videos'>,
+    storageKey,
+  }) as VideoApproval[] | undefined;
+  // Link-share viewers can see decisions but only the owner and group members may sign off.
+  const isReviewer = useQuery(api.approvals.canDecide, canDecide ? { videoId: videoId as Id<'videos'> } : 'skip');
+  const setDecision = useMutation(api.approvals.setDecision);
+  const withdrawDecision = useMutation(api.approvals.withdraw);
+
+  const [expanded, setExpanded] = useState(false);
+  const [feedback, setFeedback] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ownDecision = useMemo(() => (approvals ?? []).find((a) => a.isOwnDecision) ?? null, [approvals]);
+  const counts = useMemo(() => {
+    const result: Record<ReviewApprovalStatus, number> = { approved: 0, needs_changes: 0, on_hold: 0, rejected: 0 };
+    (approvals ?? []).forEach((a) => {
+      if (a.status in result) result[a.status] += 1;
+    });
+    return result;
+  }, [approvals]);
+
+  useEffect(() => {
+    setFeedback(ownDecision?.feedback ?? '');
+  }, [ownDecision?.id, ownDecision?.feedback]);
+
+  const handleDecide = async (status: ReviewApprovalStatus) => {
+    if (saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await setDecision({
+        videoId: videoId as Id<'videos'>,
+        status,
+        feedback: feedback.trim() || undefined,
+        storageKey,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save decision.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (saving || !ownDecision) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await withdrawDecision({ videoId: videoId as Id<'videos'>, storageKey });
+      setFeedback('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to withdraw decision.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const subtle = isDark ? 'text-white/50' : 'text-gray-500';
+  const border = isDark ? 'border-white/10' : 'border-gray-200';
+  const total = approvals?.length ?? 0;
+
+  return (
+    <div className={`border-b ${border} px-3 py-2 text-sm`}>
+      <button
+        type="button"
+        onClick={() => setExpanded((s) => !s)}
+        className="w-full flex items-center justify-between gap-2"
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="font-semibold">Approvals</span>
+          {revisionLabel && <span className={`${subtle} text-[11px] truncate`}>{revisionLabel}</span>}
+        </div>
+        <div className="flex items-center gap-1.5">
+          {total === 0 ? (
+            <span className={`${subtle} text-[11px]`}>No decisions</span>
+          ) : (
+            STATUS_OPTIONS.filter(({ status }) => counts[status] > 0).map(({ status, Icon }) => (
+              <span
+                key={status}
+                className={`inline-flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-[11px] font-semibold ${statusTone(status, isDark)}`}
+                title={STATUS_TEXT[status]}
+              >
+                <Icon size={12} /> {counts[status]}
+              </span>
+            ))
+          )}
+          {expanded ? <ChevronUp size={16} className={subtle} /> : <ChevronDown size={16} className={subtle} />}
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-3">
+          {canDecide && isReviewer && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-1.5">
+                {STATUS_OPTIONS.map(({ status, label, Icon }) => {
+                  const active = ownDecision?.status === status;
+                  return (
+                    <button
+                      key={status}
+                      type="button"
+                      disabled={saving}
+                      onClick={() => handleDecide(status)}
+                      className={`inline-flex items-center justify-center gap-1.5 rounded-full border px-2 py-1 text-xs font-semibold transition disabled:opacity-50 ${
+                        active
+                          ? statusTone(status, isDark)
+                          : isDark
+                            ? 'border-white/10 bg-white/5 text-white/80 hover:bg-white/10'
+                            : 'border-gray-200 bg-white text-gray-800 hover:bg-gray-50'
+                      }`}
+                    >
+                      <Icon size={14} /> {label}
+                    </button>
+                  );
+                })}
+              </div>
+              <textarea
+                value={feedback}
+                onChange={(e) => setFeedback(e.target.value)}
+                rows={2}
+                placeholder="Optional note for this decision"
+                className={`w-full resize-none rounded-xl border px-2 py-1.5 text-xs outline-none ${
+                  isDark ? 'border-white/10 bg-black/40 text-white placeholder:text-white/40' : 'border-gray-200 bg-white text-gray-900 placeholder:text-gray-400'
+                }`}
+              />
+              {ownDecision && (
+                <div className="flex items-center justify-between text-[11px]">
+                  <span className={subtle}>
+                    {ownDecision.feedback !== (feedback.trim() || null) ? 'Pick a decision to save the note.' : `Your decision: ${STATUS_TEXT[ownDecision.status]}`}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handleWithdraw}
+                    disabled={saving}
+                    className={`${isDark ? 'text-white/60 hover:text-white' : 'text-gray-600 hover:text-gray-900'} font-semibold disabled:opacity-50`}
+                  >
+                    Withdraw
+                  </button>
+                </div>
+              )}
+              {error && <div className="text-xs text-red-400">{error}</div>}
+            </div>
+          )}
+
+          <ul className="space-y-2">
+            {(approvals ?? []).map((approval) => (
+              <li key={approval.id} className="flex items-start gap-2">
+                {approval.reviewerAvatar ? (
+                  <img src={approval.reviewerAvatar} alt={approval.reviewerName} className="w-6 h-6 rounded-full object-cover flex-shrink-0" />
+                ) : (
+                  <div className={`w-6 h-6 rounded-full flex items-center justify-center text-[11px] font-bold flex-shrink-0 ${isDark ? 'bg-white/10' : 'bg-gray-100'}`}>
+                    {(approval.reviewerName[0] ?? 'U').toUpperCase()}
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-xs font-semibold">{approval.reviewerName}</span>
+                    <span className={`rounded-full border px-1.5 py-0.5 text-[10px] font-semibold ${statusTone(approval.status, isDark)}`}>
+                      {STATUS_TEXT[approval.status]}
+                    </span>
+                  </div>
+                  {approval.feedback && <p className={`${isDark ? 'text-white/70' : 'text-gray-700'} text-xs break-words`}>{approval.feedback}</p>}
+                  <div className={`${subtle} text-[10px]`}>{new Date(approval.updatedAt).toLocaleString()}</div>
+                </div>
+              </li>
+            ))}
+            {approvals && approvals.length === 0 && (
+              <li className={`${subtle} text-xs`}>Nobody has signed off on this version yet.</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalPanel;
@@ -0,0 +1,177 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { FileText, Loader2, Paperclip, X } from 'lucide-react';
+import { CommentAttachment } from '../types';
+import {
+  COMMENT_ATTACHMENT_ACCEPT,
+  MAX_COMMENT_ATTACHMENTS,
+  commentAttachmentError,
+  commentAttachmentKind,
+  formatAttachmentSize,
+} from '../utils/commentAttachments';
+
+/** An uploaded file as `comments.create` takes it; the storage key never comes back to clients. */
+export type UploadedCommentAttachment = CommentAttachment & { storageKey: string };
+
+export type CommentAttachmentUploader = (file: File) => Promise<UploadedCommentAttachment>;
+
+type PendingAttachment = {
+  id: string;
+  name: string;
+  status: 'uploading' | 'ready' | 'error';
+  attachment?: UploadedCommentAttachment;
+  error?: string;
+};
+
+/** Uploads files as soon as they are picked, so sending the comment doesn't wait on them. */
+export const useCommentAttachmentUploads = (upload?: CommentAttachmentUploader) => {
+  const [pending, setPending] = useState<PendingAttachment[]>([]);
+  const counter = useRef(0);
+
+  const addFiles = useCallback(
+    (files: FileList | File[]) => {
+      if (!upload) return;
+      const room = MAX_COMMENT_ATTACHMENTS - pending.filter((entry) => entry.status !== 'error').length;
+      Array.from(files)
+        .slice(0, Math.max(0, room))
+        .forEach((file) => {
+          const id = `attachment-${(counter.current += 1)}`;
+          const error = commentAttachmentError(file.type, file.size);
+          setPending((prev) => [...prev, { id, name: file.name, status: error ? 'error' : 'uploading', error: error ?? undefined }]);
+          if (error) return;
+          upload(file)
+            .then((attachment) => {
+              setPending((prev) => prev.map((entry) => (entry.id === id ? { ...entry, status: 'ready', attachment } : entry)));
+            })
+            .catch((err) => {
+              const message = err instanceof Error ? err.message : 'Upload failed';
+              setPending((prev) => prev.map((entry) => (entry.id === id ? { ...entry, status: 'error', error: message } : entry)));
+            });
+        });
+    },
+    [pending, upload],
+  );
+
+  const remove = useCallback((id: string) => setPending((prev) => prev.filter((entry) => entry.id !== id)), []);
+  const reset = useCallback(() => setPending([]), []);
+
+  const attachments = useMemo(
+    () => pending.flatMap((entry) => (entry.status === 'ready' && entry.attachment ? [entry.attachment] : [])),
+    [pending],
+  );
+  const uploading = pending.some((entry) => entry.status === 'uploading');
+
+  return { pending, addFiles, remove, reset, attachments, uploading, enabled: Boolean(upload) };
+};
+
+export const AttachFilesButton: React.FC<{ onFiles: (files: FileList) => void; isDark?: boolean; disabled?: boolean }> = ({
+  onFiles,
+  isDark = true,
+  disabled = false,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  return (
+    <>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        title="Attach images, PDFs or clips"
+        className={`inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full disabled:opacity-40 ${
+          isDark ? 'text-white/60 hover:bg-white/10 hover:text-white' : 'text-gray-500 hover:bg-gray-100 hover:text-gray-900'
+        }`}
+      >
+        <Paperclip size={15} />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={COMMENT_ATTACHMENT_ACCEPT}
+        className="hidden"
+        onChange={(event) => {
+          if (event.target.files?.length) onFiles(event.target.files);
+          event.target.value = '';
+        }}
+      />
+    </>
+  );
+};
+
+export const PendingAttachmentChips: React.FC<{ pending: PendingAttachment[]; onRemove: (id: string) => void; isDark?: boolean }> = ({
+  pending,
+  onRemove,
+  isDark = true,
+}) => {
+  if (pending.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {pending.map((entry) => (
+        <span
+          key={entry.id}
+          title={entry.error ?? entry.name}
+          className={`inline-flex max-w-[12rem] items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] ${
+            entry.status === 'error'
+              ? isDark ? 'border-red-400/40 bg-red-500/10 text-red-200' : 'border-rose-200 bg-rose-50 text-rose-700'
+              : isDark ? 'border-white/10 bg-white/5 text-white/80' : 'border-gray-200 bg-gray-50 text-gray-700'
+          }`}
+        >
+          {entry.status === 'uploading' ? <Loader2 size={11} className="animate-spin" /> : <Paperclip size={11} />}
+          <span className="truncate">{entry.status === 'error' ? entry.error : entry.name}</span>
+          <button type="button" onClick={() => onRemove(entry.id)} className="shrink-0 opacity-60 hover:opacity-100" aria-label={`Remove ${entry.name}`}>
+            <X size={11} />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+/** Inline rendering of a comment's attachments: image thumbnails, playable clips and PDF links. */
+export const CommentAttachmentList: React.FC<{ attachments?: CommentAttachment[]; isDark?: boolean }> = ({ attachments, isDark = true }) => {
+  if (!attachments || attachments.length === 0) return null;
+  return (
+    <div className="mt-2 flex flex-wrap gap-2" data-stop-frame-jump="true">
+      {attachments.map((attachment) => {
+        const kind = commentAttachmentKind(attachment.mimeType);
+        if (kind === 'image') {
+          return (
+            <a key={attachment.url} href={attachment.url} target="_blank" rel="noreferrer" title={attachment.name}>
+              <img
+                src={attachment.url}
+                alt={attachment.name}
+                loading="lazy"
+                className={`h-20 max-w-[10rem] rounded-lg border object-cover ${isDark ? 'border-white/10' : 'border-gray-200'}`}
+              />
+            </a>
+          );
+        }
+        if (kind === 'video') {
+          return (
+            <video
+              key={attachment.url}
+              src={attachment.url}
+              controls
+              preload="metadata"
+              className={`h-24 max-w-[12rem] rounded-lg border bg-black ${isDark ? 'border-white/10' : 'border-gray-200'}`}
+            />
+          );
+        }
+        return (
+          <a
+            key={attachment.url}
+            href={attachment.url}
+            target="_blank"
+            rel="noreferrer"
+            className={`inline-flex max-w-[14rem] items-center gap-1.5 rounded-lg border px-2 py-1.5 text-xs ${
+              isDark ? 'border-white/10 bg-white/5 text-white/80 hover:bg-white/10' : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <FileText size={14} className="shrink-0" />
+            <span className="truncate">{attachment.name}</span>
+            <span className={`shrink-0 ${isDark ? 'text-white/40' : 'text-gray-400'}`}>{formatAttachmentSize(attachment.size)}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+};
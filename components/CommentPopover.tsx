@@ -6,6 +6,7 @@ import { Comment, CurrentUserProfile, MentionOption } from '../types';
 import { RenderedRect, normalizedToCanvas } from '../utils/geometry';
 import { X, CornerDownRight } from 'lucide-react';
 import { splitMentionSegments } from '../utils/mentions';
+import { CommentAttachmentList } from './CommentAttachments';
 
 interface CommentPopoverProps {
   comment: Comment;
@@ -74,6 +75,9 @@ const CommentThreadItem: React.FC<CommentThreadItemProps> = ({
         <div className="flex items-start justify-between gap-2">
           <div className="flex items-baseline space-x-2">
             <span className="font-semibold text-white text-sm">{comment.authorName}</span>
+            {comment.isGuest && (
+              <span className="rounded-full bg-white/10 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white/70">Guest</span>
+            )}
             <span className="text-xs text-white/40">{timeAgo(comment.createdAt)}</span>
           </div>
           {actions && <div className="flex items-center gap-1">{actions}</div>}
@@ -145,6 +149,7 @@ const CommentThreadItem: React.FC<CommentThreadItemProps> = ({
             })}
           </p>
         )}
+        <CommentAttachmentList attachments={comment.attachments} isDark={isDark} />
       </div>
     </div>
   );
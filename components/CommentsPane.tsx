@@ -1,18 +1,41 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Comment, MentionOption } from '../types';
-import { MessageSquare, CheckCircle2, Circle, Trash2, Pencil, ChevronDown, ChevronUp } from 'lucide-react';
+import { Comment, CommentFrameRange, MentionOption } from '../types';
+import type { ReviewCommentStatus } from '../types/canvas';
+import { MessageSquare, CheckCircle2, Circle, Trash2, Pencil, ChevronDown, ChevronUp, Eye, SmilePlus, UserRound, CalendarClock, Repeat, MoveHorizontal, X } from 'lucide-react';
 import { useMutation } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import { splitMentionSegments } from '../utils/mentions';
+import { TimecodeDisplayMode, TimecodeFormat, formatFrameLabel, parseTimecodeInput } from '../utils/timecode';
+import { commentCoversFrame } from '../utils/commentRange';
+import { COMMENT_REACTIONS, COMMENT_STATUS_LABELS, commentStatusOf, formatDueDate, isCommentOverdue, matchesCommentTaskFilters } from '../utils/commentTasks';
+import {
+  AttachFilesButton,
+  CommentAttachmentList,
+  CommentAttachmentUploader,
+  PendingAttachmentChips,
+  UploadedCommentAttachment,
+  useCommentAttachmentUploads,
+} from './CommentAttachments';
 
 const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 const INTERACTIVE_SELECTOR = 'button, input, textarea, select, a, [role="button"], [data-stop-frame-jump="true"]';
 
+// null clears the field; undefined leaves it as is.
+export type CommentTaskUpdate = { assigneeId?: string | null; dueDate?: string | null };
+
 interface CommentProps {
   comment: Comment;
   replies: Comment[];
-  onAddComment: (text: string, parentId?: string) => void;
+  onAddComment: (text: string, parentId?: string, attachments?: UploadedCommentAttachment[]) => void;
   onToggleResolve: (id: string) => void;
+  onSetStatus: (id: string, status: ReviewCommentStatus) => void;
+  onToggleReaction: (id: string, emoji: string) => void;
+  onUpdateTask: (id: string, task: CommentTaskUpdate) => void;
+  currentUserId?: string | null;
+  /** Uploads a picked file; omitted for guests, who can't attach files. */
+  onUploadAttachment?: CommentAttachmentUploader;
+  /** Loops a range note's frames in the player. */
+  onPlayRange?: (comment: Comment) => void;
   onJumpToFrame: (frame: number | undefined) => void;
   onDeleteComment: (id: string) => void;
   isActive: boolean;
@@ -23,23 +46,34 @@ interface CommentProps {
   highlightTerm?: string | null;
   onSelectComment?: (id: string) => void;
   onUpdateFrame: (id: string, frame: number) => Promise<void>;
+  timecodeFormat?: TimecodeFormat;
+  frameDisplay?: TimecodeDisplayMode;
 }
 
 const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
- = ({ comment, replies, onAddComment, onToggleResolve, onJumpToFrame, onDeleteComment, isActive, setActive, mentionOptions = [], isReply = false, isDark = true, highlightCommentId, highlightTerm, onSelectComment, onUpdateFrame }) => {
+ = ({ comment, replies, onAddComment, onToggleResolve, onSetStatus, onToggleReaction, onUpdateTask, currentUserId = null, onUploadAttachment, onPlayRange, onJumpToFrame, onDeleteComment, isActive, setActive, mentionOptions = [], isReply = false, isDark = true, highlightCommentId, highlightTerm, onSelectComment, onUpdateFrame, timecodeFormat, frameDisplay = 'frames' }) => {
   const [showReply, setShowReply] = useState(false);
   const [replyText, setReplyText] = useState('');
+  const replyAttachments = useCommentAttachmentUploads(onUploadAttachment);
   const [open, setOpen] = useState(false);
   const [q, setQ] = useState('');
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(comment.text);
-  const [frameDraft, setFrameDraft] = useState(
-    comment.frame !== undefined && comment.frame !== null ? String(comment.frame) : '',
-  );
+  const showTimecode = frameDisplay === 'timecode' && !!timecodeFormat;
+  const toFrameDraft = (frame: number | undefined | null) => {
+    if (frame === undefined || frame === null) return '';
+    return timecodeFormat ? formatFrameLabel(frame, timecodeFormat, frameDisplay) : String(frame);
+  };
+  const [frameDraft, setFrameDraft] = useState(() => toFrameDraft(comment.frame));
   const [isSavingFrame, setIsSavingFrame] = useState(false);
   const [quickReply, setQuickReply] = useState('');
   const [saving, setSaving] = useState(false);
   const [showReplies, setShowReplies] = useState(false);
+  const [reactionPickerOpen, setReactionPickerOpen] = useState(false);
+  const status = commentStatusOf(comment);
+  const overdue = isCommentOverdue(comment);
+  // Only people with an account can be assigned; email-only contacts have no inbox to notify.
+  const assignableOptions = useMemo(() => mentionOptions.filter((option) => !option.id.startsWith('email:')), [mentionOptions]);
   const updateText = useMutation(api.comments.updateText);
   const inputRef = useRef<HTMLInputElement>(null);
   const quickReplyInputRef = useRef<HTMLInputElement>(null);
@@ -55,9 +89,11 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
   
   const handleReplySubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (replyText.trim()) {
-      onAddComment(replyText, comment.id);
+    if (replyAttachments.uploading) return;
+    if (replyText.trim() || replyAttachments.attachments.length > 0) {
+      onAddComment(replyText, comment.id, replyAttachments.attachments);
       setReplyText('');
+      replyAttachments.reset();
       setShowReply(false);
     }
   }
@@ -93,19 +129,19 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
   }, [comment.text]);
 
   useEffect(() => {
-    setFrameDraft(comment.frame !== undefined && comment.frame !== null ? String(comment.frame) : '');
-  }, [comment.frame, comment.id]);
+    setFrameDraft(toFrameDraft(comment.frame));
+  }, [comment.frame, comment.id, frameDisplay, timecodeFormat]);
 
   const commitFrameUpdate = async () => {
     if (isReply || comment.frame === undefined || comment.frame === null || isSavingFrame) return;
     const trimmed = frameDraft.trim();
     if (!trimmed) {
-      setFrameDraft(String(comment.frame));
+      setFrameDraft(toFrameDraft(comment.frame));
       return;
     }
-    const nextFrame = Number.parseInt(trimmed, 10);
-    if (!Number.isFinite(nextFrame) || nextFrame < 0) {
-      setFrameDraft(String(comment.frame));
+    const nextFrame = showTimecode ? parseTimecodeInput(trimmed, timecodeFormat!) : Number.parseInt(trimmed, 10);
+    if (nextFrame === null || !Number.isFinite(nextFrame) || nextFrame < 0) {
+      setFrameDraft(toFrameDraft(comment.frame));
       return;
     }
     if (nextFrame === comment.frame) return;
@@ -114,7 +150,7 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
     try {
       await onUpdateFrame(comment.id, nextFrame);
     } catch {
-      setFrameDraft(String(comment.frame));
+      setFrameDraft(toFrameDraft(comment.frame));
     } finally {
       setIsSavingFrame(false);
     }
@@ -263,7 +299,14 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
         />
         <div className="flex-1 min-w-0">
           <div className="flex items-center justify-between gap-2">
-            <span className={`font-semibold text-sm truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>{comment.authorName}</span>
+            <span className="flex min-w-0 items-center gap-1.5">
+              <span className={`font-semibold text-sm truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>{comment.authorName}</span>
+              {comment.isGuest && (
+                <span className={`rounded-full px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${isDark ? 'bg-white/10 text-white/70' : 'bg-gray-100 text-gray-600'}`}>
+                  Guest
+                </span>
+              )}
+            </span>
             <span className={`text-[11px] whitespace-nowrap ${isDark ? 'text-white/40' : 'text-gray-500'}`}>{timeAgo(comment.createdAt)}</span>
           </div>
           {isEditing ? (
@@ -342,12 +385,13 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
               })}
             </p>
           )}
+          <CommentAttachmentList attachments={comment.attachments} isDark={isDark} />
           <div className={`flex flex-wrap items-center gap-2 text-[11px] mt-2 ${isDark ? 'text-white/60' : 'text-gray-500'}`}>
             {!isReply && comment.frame !== undefined && (
               <div className={`inline-flex items-center gap-1 rounded-full px-2 py-1 ${isDark ? 'bg-white/10' : 'bg-gray-100'}`} data-stop-frame-jump="true">
-                <span className={isDark ? 'text-white/70' : 'text-gray-600'}>Frame</span>
+                <span className={isDark ? 'text-white/70' : 'text-gray-600'}>{showTimecode ? 'TC' : 'Frame'}</span>
                 <input
-                  type="number"
+                  type={showTimecode ? 'text' : 'number'}
                   min={0}
                   step={1}
                   value={frameDraft}
@@ -363,22 +407,55 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
                     }
                     if (event.key === 'Escape') {
                       event.preventDefault();
-                      setFrameDraft(String(comment.frame));
+                      setFrameDraft(toFrameDraft(comment.frame));
                     }
                   }}
                   disabled={isSavingFrame}
-                  className={`h-5 w-14 rounded-md border-0 bg-transparent px-1 text-xs focus:outline-none ${
+                  title={showTimecode ? `Frame ${comment.frame}` : undefined}
+                  className={`h-5 ${showTimecode ? 'w-[6.5rem] font-mono' : 'w-14'} rounded-md border-0 bg-transparent px-1 text-xs focus:outline-none ${
                     isDark ? 'text-white focus:ring-1 focus:ring-white/30' : 'text-gray-900 focus:ring-1 focus:ring-gray-400/40'
                   }`}
                 />
+                {comment.frameEnd !== undefined && (
+                  <span className={`pr-1 text-xs ${showTimecode ? 'font-mono' : ''} ${isDark ? 'text-white' : 'text-gray-900'}`} title={`Through frame ${comment.frameEnd}`}>
+                    – {toFrameDraft(comment.frameEnd)}
+                  </span>
+                )}
               </div>
             )}
+            {!isReply && comment.frameEnd !== undefined && onPlayRange && (
+              <button
+                onClick={() => onPlayRange(comment)}
+                className={`flex items-center gap-1 ${isDark ? 'hover:text-white' : 'hover:text-gray-900'}`}
+                title="Loop this range"
+              >
+                <Repeat size={14} /> Loop
+              </button>
+            )}
             {!isReply && (
               <button onClick={() => setShowReply((s) => !s)} className={isDark ? 'hover:text-white' : 'hover:text-gray-900'}>Reply</button>
             )}
             <button onClick={() => setIsEditing((v) => !v)} className={`flex items-center gap-1 ${isDark ? 'hover:text-white' : 'hover:text-gray-900'}`} title="Edit">
               <Pencil size={14} /> Edit
             </button>
+            {!isReply && status === 'open' && (
+              <button
+                onClick={() => onSetStatus(comment.id, 'acknowledged')}
+                className={`flex items-center gap-1 ${isDark ? 'hover:text-white' : 'hover:text-gray-900'}`}
+                title="Let the thread know you've seen it"
+              >
+                <Eye size={14} /> Acknowledge
+              </button>
+            )}
+            {!isReply && status === 'acknowledged' && (
+              <button
+                onClick={() => onSetStatus(comment.id, 'open')}
+                className={`flex items-center gap-1 ${isDark ? 'text-amber-200 hover:text-white' : 'text-amber-700 hover:text-gray-900'}`}
+                title="Mark as open"
+              >
+                <Eye size={14} /> {COMMENT_STATUS_LABELS.acknowledged}
+              </button>
+            )}
             {!isReply && (
               <button
                 onClick={() => onToggleResolve(comment.id)}
@@ -396,6 +473,105 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
               <Trash2 size={14}/>
             </button>
           </div>
+          {!isReply && currentUserId && (
+            <div className={`flex flex-wrap items-center gap-2 text-[11px] mt-2 ${isDark ? 'text-white/60' : 'text-gray-500'}`} data-stop-frame-jump="true">
+              <label className={`inline-flex items-center gap-1 rounded-full px-2 py-1 ${isDark ? 'bg-white/10' : 'bg-gray-100'}`} title="Assignee">
+                <UserRound size={12} />
+                <select
+                  value={comment.assigneeId ?? ''}
+                  onChange={(event) => onUpdateTask(comment.id, { assigneeId: event.target.value || null })}
+                  className={`max-w-[8.5rem] truncate border-0 bg-transparent text-[11px] focus:outline-none ${isDark ? 'text-white' : 'text-gray-900'}`}
+                >
+                  <option value="">Unassigned</option>
+                  {comment.assigneeId && !assignableOptions.some((option) => option.id === comment.assigneeId) && (
+                    <option value={comment.assigneeId}>{comment.assigneeName ?? 'Assigned'}</option>
+                  )}
+                  {assignableOptions.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className={`inline-flex items-center gap-1 rounded-full px-2 py-1 ${
+                  overdue ? (isDark ? 'bg-red-500/20 text-red-200' : 'bg-rose-100 text-rose-700') : isDark ? 'bg-white/10' : 'bg-gray-100'
+                }`}
+                title={overdue ? 'Overdue' : 'Due date'}
+              >
+                <CalendarClock size={12} />
+                <input
+                  type="date"
+                  value={comment.dueDate ?? ''}
+                  onChange={(event) => onUpdateTask(comment.id, { dueDate: event.target.value || null })}
+                  className={`h-5 w-[7.5rem] border-0 bg-transparent text-[11px] focus:outline-none ${isDark ? 'text-white [color-scheme:dark]' : 'text-gray-900'}`}
+                />
+                {overdue && <span className="font-semibold">Overdue</span>}
+              </label>
+            </div>
+          )}
+          {!isReply && !currentUserId && (comment.assigneeName || comment.dueDate) && (
+            <div className={`flex flex-wrap items-center gap-2 text-[11px] mt-2 ${isDark ? 'text-white/60' : 'text-gray-500'}`}>
+              {comment.assigneeName && (
+                <span className="inline-flex items-center gap-1"><UserRound size={12} /> {comment.assigneeName}</span>
+              )}
+              {comment.dueDate && (
+                <span className={`inline-flex items-center gap-1 ${overdue ? (isDark ? 'text-red-200' : 'text-rose-700') : ''}`}>
+                  <CalendarClock size={12} /> Due {formatDueDate(comment.dueDate)}
+                </span>
+              )}
+            </div>
+          )}
+          {((comment.reactions?.length ?? 0) > 0 || currentUserId) && (
+            <div className="relative flex flex-wrap items-center gap-1 mt-2">
+              {(comment.reactions ?? []).map((reaction) => {
+                const mine = Boolean(currentUserId && reaction.userIds.includes(currentUserId));
+                return (
+                  <button
+                    key={reaction.emoji}
+                    type="button"
+                    disabled={!currentUserId}
+                    onClick={() => onToggleReaction(comment.id, reaction.emoji)}
+                    className={`inline-flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-xs ${
+                      mine
+                        ? (isDark ? 'border-sky-400/60 bg-sky-500/20 text-white' : 'border-sky-300 bg-sky-50 text-sky-800')
+                        : (isDark ? 'border-white/10 bg-white/5 text-white/80 hover:bg-white/10' : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50')
+                    }`}
+                  >
+                    <span>{reaction.emoji}</span>
+                    <span className="text-[11px] font-semibold">{reaction.userIds.length}</span>
+                  </button>
+                );
+              })}
+              {currentUserId && (
+                <button
+                  type="button"
+                  onClick={() => setReactionPickerOpen((v) => !v)}
+                  className={`inline-flex h-6 w-6 items-center justify-center rounded-full ${isDark ? 'text-white/50 hover:bg-white/10 hover:text-white' : 'text-gray-400 hover:bg-gray-100 hover:text-gray-800'}`}
+                  title="Add reaction"
+                >
+                  <SmilePlus size={14} />
+                </button>
+              )}
+              {reactionPickerOpen && (
+                <div className={`absolute left-0 top-full z-20 mt-1 flex gap-0.5 rounded-full border p-1 shadow-xl ${isDark ? 'border-white/10 bg-black/90' : 'border-gray-200 bg-white'}`}>
+                  {COMMENT_REACTIONS.map((emoji) => (
+                    <button
+                      key={emoji}
+                      type="button"
+                      onClick={() => {
+                        onToggleReaction(comment.id, emoji);
+                        setReactionPickerOpen(false);
+                      }}
+                      className={`h-7 w-7 rounded-full text-sm ${isDark ? 'hover:bg-white/10' : 'hover:bg-gray-100'}`}
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           {!isReply && replies.length > 0 && (
             <div className="mt-2">
               <button onClick={() => setShowReplies(v => !v)} className={`inline-flex items-center gap-1 text-xs ${isDark ? 'text-white/60 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`}>
@@ -406,7 +582,7 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
       </div>
     </div>
       {showReply && (
-        <form onSubmit={handleReplySubmit} className="ml-11 mt-3 flex gap-2 relative">
+        <form onSubmit={handleReplySubmit} className="ml-11 mt-3 flex flex-wrap gap-2 relative">
             <input 
                 type="text"
                 value={replyText}
@@ -419,7 +595,10 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
                 }`}
                 ref={inputRef}
             />
-            <button type="submit" className={`px-4 rounded-full text-xs font-semibold ${isDark ? 'bg-white text-black hover:bg-white/90' : 'bg-gray-900 text-gray-50 hover:bg-black'}`}>Send</button>
+            {replyAttachments.enabled && (
+              <AttachFilesButton onFiles={replyAttachments.addFiles} isDark={isDark} />
+            )}
+            <button type="submit" disabled={replyAttachments.uploading} className={`px-4 rounded-full disabled:opacity-50 text-xs font-semibold ${isDark ? 'bg-white text-black hover:bg-white/90' : 'bg-gray-900 text-gray-50 hover:bg-black'}`}>Send</button>
             {open && sugg.length > 0 && (
               <div className={`absolute left-0 top-10 z-10 max-h-48 w-full overflow-auto rounded-xl border shadow-2xl ${isDark ? 'border-white/10 bg-black/90 text-white' : 'border-gray-200 bg-white text-gray-900'}`}>
                 {sugg.map((s) => (
@@ -436,6 +615,9 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
                 ))}
               </div>
             )}
+            <div className="basis-full">
+              <PendingAttachmentChips pending={replyAttachments.pending} onRemove={replyAttachments.remove} isDark={isDark} />
+            </div>
         </form>
       )}
       {!isReply && replies.length > 0 && showReplies && (
@@ -447,6 +629,11 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
               replies={[]}
               onAddComment={onAddComment} 
               onToggleResolve={onToggleResolve}
+              onSetStatus={onSetStatus}
+              onToggleReaction={onToggleReaction}
+              onUpdateTask={onUpdateTask}
+              currentUserId={currentUserId}
+              onUploadAttachment={onUploadAttachment}
               onJumpToFrame={onJumpToFrame}
               onUpdateFrame={onUpdateFrame}
               onDeleteComment={onDeleteComment}
@@ -458,6 +645,8 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
               highlightCommentId={highlightCommentId}
               highlightTerm={highlightTerm}
               onSelectComment={onSelectComment}
+              timecodeFormat={timecodeFormat}
+              frameDisplay={frameDisplay}
             />
           ))}
           {/* Quick reply box after the first reply */}
@@ -506,8 +695,22 @@ const CommentItem: React.FC<CommentProps & { mentionOptions?: MentionOption[] }>
 interface CommentsPaneProps {
   comments: Comment[];
   currentFrame: number;
-  onAddComment: (text: string, parentId?: string) => void;
+  onAddComment: (text: string, parentId?: string, attachments?: UploadedCommentAttachment[]) => void;
   onToggleResolve: (id: string) => void;
+  onSetStatus: (id: string, status: ReviewCommentStatus) => void;
+  onToggleReaction: (id: string, emoji: string) => void;
+  onUpdateTask: (id: string, task: CommentTaskUpdate) => void;
+  /** Signed-in reviewer; null for guests, who can't react or assign. */
+  currentUserId?: string | null;
+  /** Uploads a picked file; omitted for guests, who can't attach files. */
+  onUploadAttachment?: CommentAttachmentUploader;
+  /** Range picked on the timeline for the next comment. */
+  commentRange?: CommentFrameRange | null;
+  rangeSelecting?: boolean;
+  /** Arms the timeline so the next drag picks a range; omitted where there is no timeline. */
+  onToggleRangeSelect?: () => void;
+  onClearCommentRange?: () => void;
+  onPlayRange?: (comment: Comment) => void;
   onJumpToFrame: (frame: number | undefined) => void;
   onUpdateCommentFrame: (commentId: string, frame: number) => Promise<void>;
   activeCommentId: string | null;
@@ -517,19 +720,24 @@ interface CommentsPaneProps {
   highlightCommentId?: string | null;
   highlightTerm?: string | null;
   mentionOptions?: MentionOption[];
+  timecodeFormat?: TimecodeFormat;
+  frameDisplay?: TimecodeDisplayMode;
 }
 
-const CommentsPane: React.FC<CommentsPaneProps> = ({ comments, currentFrame, onAddComment, onToggleResolve, onJumpToFrame, onUpdateCommentFrame, activeCommentId, setActiveCommentId, onDeleteComment, isDark = true, highlightCommentId = null, highlightTerm = null, mentionOptions = [] }) => {
+const CommentsPane: React.FC<CommentsPaneProps> = ({ comments, currentFrame, onAddComment, onToggleResolve, onSetStatus, onToggleReaction, onUpdateTask, currentUserId = null, onUploadAttachment, commentRange = null, rangeSelecting = false, onToggleRangeSelect, onClearCommentRange, onPlayRange, onJumpToFrame, onUpdateCommentFrame, activeCommentId, setActiveCommentId, onDeleteComment, isDark = true, highlightCommentId = null, highlightTerm = null, mentionOptions = [], timecodeFormat, frameDisplay = 'frames' }) => {
   const [newCommentText, setNewCommentText] = useState('');
-  type Filter = 'active' | 'all' | 'open' | 'resolved';
+  const newCommentAttachments = useCommentAttachmentUploads(onUploadAttachment);
+  type Filter = 'active' | 'all' | ReviewCommentStatus;
   const FILTER_STORAGE_KEY = 'videoreviewer:commentsFilter';
   const [filter, setFilter] = useState<Filter>(() => {
     if (typeof window === 'undefined') return 'active';
     try {
       const saved = window.localStorage.getItem(FILTER_STORAGE_KEY) as Filter | null;
-      return (saved === 'all' || saved === 'open' || saved === 'resolved' || saved === 'active') ? saved : 'active';
+      return (saved === 'all' || saved === 'open' || saved === 'acknowledged' || saved === 'resolved' || saved === 'active') ? saved : 'active';
     } catch { return 'active'; }
   });
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [overdueOnly, setOverdueOnly] = useState(false);
   useEffect(() => {
     try { window.localStorage.setItem(FILTER_STORAGE_KEY, filter); } catch {}
   }, [filter]);
@@ -560,23 +768,33 @@ const CommentsPane: React.FC<CommentsPaneProps> = ({ comments, currentFrame, onA
   }, [comments]);
   
   const filteredComments = useMemo(() => {
-    if (filter === 'all') return commentTree;
+    let threads = commentTree;
     if (filter === 'active') {
       const inFrame = (c: Comment & { replies: Comment[] }) => {
-        if (c.frame === currentFrame) return true;
+        if (commentCoversFrame(c, currentFrame)) return true;
         return c.replies.some(r => r.frame === currentFrame);
       };
-      return commentTree.filter(inFrame);
+      threads = threads.filter(inFrame);
     }
-    const isOpen = filter === 'open';
-    return commentTree.filter(c => c.resolved !== isOpen);
-  }, [commentTree, filter, currentFrame]);
+    const taskFilters = { status: filter === 'active' ? 'all' : filter, assignedToMe, overdueOnly } as const;
+    return threads.filter(c => matchesCommentTaskFilters(c, taskFilters, currentUserId));
+  }, [commentTree, filter, currentFrame, assignedToMe, overdueOnly, currentUserId]);
+
+  const overdueCount = useMemo(() => commentTree.filter(c => isCommentOverdue(c)).length, [commentTree]);
+  const filterButtonClass = (selected: boolean) =>
+    `px-4 py-1.5 rounded-full text-xs font-semibold transition ${selected ? (isDark ? 'bg-white text-black' : 'bg-white text-gray-900 shadow-sm') : (isDark ? 'text-white/60 hover:bg-white/10' : 'text-gray-600 hover:text-gray-900 hover:bg-white/70')}`;
+  const toggleChipClass = (selected: boolean) =>
+    `inline-flex items-center gap-1 rounded-full border px-2.5 py-1 text-[11px] font-semibold transition ${selected ? (isDark ? 'border-white bg-white text-black' : 'border-gray-900 bg-gray-900 text-white') : (isDark ? 'border-white/10 text-white/60 hover:bg-white/10' : 'border-gray-200 text-gray-600 hover:bg-gray-50')}`;
+
+  const composerFrameLabel = (frame: number) => (timecodeFormat ? formatFrameLabel(frame, timecodeFormat, frameDisplay) : String(frame));
 
   const handleSubmitComment = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newCommentText.trim()) {
-      onAddComment(newCommentText);
+    if (newCommentAttachments.uploading) return;
+    if (newCommentText.trim() || newCommentAttachments.attachments.length > 0) {
+      onAddComment(newCommentText, undefined, newCommentAttachments.attachments);
       setNewCommentText('');
+      newCommentAttachments.reset();
       setMentionOpen(false);
     }
   };
@@ -641,10 +859,21 @@ const CommentsPane: React.FC<CommentsPaneProps> = ({ comments, currentFrame, onA
           <MessageSquare size={16}/> Comments
         </h2>
         <div className={`mt-4 inline-flex flex-wrap items-center gap-1 rounded-full border p-1 shadow-sm ${isDark ? 'bg-white/5 border-white/10' : 'bg-gray-50 border-gray-200'}`}>
-            <button onClick={() => setFilter('active')} className={`px-4 py-1.5 rounded-full text-xs font-semibold transition ${filter === 'active' ? (isDark ? 'bg-white text-black' : 'bg-white text-gray-900 shadow-sm') : (isDark ? 'text-white/60 hover:bg-white/10' : 'text-gray-600 hover:text-gray-900 hover:bg-white/70')}`}>Active</button>
-            <button onClick={() => setFilter('all')} className={`px-4 py-1.5 rounded-full text-xs font-semibold transition ${filter === 'all' ? (isDark ? 'bg-white text-black' : 'bg-white text-gray-900 shadow-sm') : (isDark ? 'text-white/60 hover:bg-white/10' : 'text-gray-600 hover:text-gray-900 hover:bg-white/70')}`}>All</button>
-            <button onClick={() => setFilter('open')} className={`px-4 py-1.5 rounded-full text-xs font-semibold transition ${filter === 'open' ? (isDark ? 'bg-white text-black' : 'bg-white text-gray-900 shadow-sm') : (isDark ? 'text-white/60 hover:bg-white/10' : 'text-gray-600 hover:text-gray-900 hover:bg-white/70')}`}>Open</button>
-            <button onClick={() => setFilter('resolved')} className={`px-4 py-1.5 rounded-full text-xs font-semibold transition ${filter === 'resolved' ? (isDark ? 'bg-white text-black' : 'bg-white text-gray-900 shadow-sm') : (isDark ? 'text-white/60 hover:bg-white/10' : 'text-gray-600 hover:text-gray-900 hover:bg-white/70')}`}>Resolved</button>
+            <button onClick={() => setFilter('active')} className={filterButtonClass(filter === 'active')}>Active</button>
+            <button onClick={() => setFilter('all')} className={filterButtonClass(filter === 'all')}>All</button>
+            <button onClick={() => setFilter('open')} className={filterButtonClass(filter === 'open')}>Open</button>
+            <button onClick={() => setFilter('acknowledged')} className={filterButtonClass(filter === 'acknowledged')}>Acknowledged</button>
+            <button onClick={() => setFilter('resolved')} className={filterButtonClass(filter === 'resolved')}>Resolved</button>
+        </div>
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+          {currentUserId && (
+            <button onClick={() => setAssignedToMe((v) => !v)} className={toggleChipClass(assignedToMe)}>
+              <UserRound size={12} /> Assigned to me
+            </button>
+          )}
+          <button onClick={() => setOverdueOnly((v) => !v)} className={toggleChipClass(overdueOnly)}>
+            <CalendarClock size={12} /> Overdue{overdueCount > 0 ? ` (${overdueCount})` : ''}
+          </button>
         </div>
       </div>
       <div className="flex-1 overflow-y-scroll scroll-slim pr-1 pb-28">
@@ -655,6 +884,12 @@ const CommentsPane: React.FC<CommentsPaneProps> = ({ comments, currentFrame, onA
                 replies={comment.replies}
                 onAddComment={onAddComment}
                 onToggleResolve={onToggleResolve}
+                onSetStatus={onSetStatus}
+                onToggleReaction={onToggleReaction}
+                onUpdateTask={onUpdateTask}
+                currentUserId={currentUserId}
+                onUploadAttachment={onUploadAttachment}
+                onPlayRange={onPlayRange}
                 onJumpToFrame={onJumpToFrame}
                 onUpdateFrame={onUpdateCommentFrame}
                 onDeleteComment={onDeleteComment}
@@ -665,17 +900,40 @@ const CommentsPane: React.FC<CommentsPaneProps> = ({ comments, currentFrame, onA
                 highlightCommentId={highlightCommentId ?? null}
                 highlightTerm={highlightTerm ?? null}
                 onSelectComment={setActiveCommentId}
+                timecodeFormat={timecodeFormat}
+                frameDisplay={frameDisplay}
              />
           </div>
         ))}
       </div>
       <div className={`px-4 py-3 border-t sticky bottom-0 z-40 ${isDark ? 'border-white/10 bg-black/60' : 'border-gray-200 bg-white'}`}>
-        <form onSubmit={handleSubmitComment} className="flex items-end gap-2">
+        {(commentRange || rangeSelecting) && (
+          <div className={`mb-2 flex items-center gap-2 text-[11px] ${isDark ? 'text-white/70' : 'text-gray-600'}`}>
+            {commentRange ? (
+              <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-semibold ${isDark ? 'bg-emerald-400/20 text-emerald-100' : 'bg-emerald-50 text-emerald-700'}`}>
+                <MoveHorizontal size={12} /> {composerFrameLabel(commentRange.start)}–{composerFrameLabel(commentRange.end)}
+                <button type="button" onClick={onClearCommentRange} className="opacity-60 hover:opacity-100" aria-label="Clear range">
+                  <X size={11} />
+                </button>
+              </span>
+            ) : (
+              <span>Drag across the timeline to pick a range</span>
+            )}
+          </div>
+        )}
+        <PendingAttachmentChips pending={newCommentAttachments.pending} onRemove={newCommentAttachments.remove} isDark={isDark} />
+        <form onSubmit={handleSubmitComment} className={`flex items-end gap-2 ${newCommentAttachments.pending.length > 0 ? 'mt-2' : ''}`}>
           <div className="relative flex-1">
             <textarea
               value={newCommentText}
               onChange={handleTextareaChange}
-              placeholder={`Add comment at frame ${currentFrame}…`}
+              placeholder={
+                commentRange
+                  ? `Add comment on ${composerFrameLabel(commentRange.start)}–${composerFrameLabel(commentRange.end)}…`
+                  : timecodeFormat && frameDisplay === 'timecode'
+                  ? `Add comment at ${formatFrameLabel(currentFrame, timecodeFormat, frameDisplay)}…`
+                  : `Add comment at frame ${currentFrame}…`
+              }
               className={`w-full rounded-2xl px-3 py-2 text-sm resize-none min-h-[104px] focus:outline-none focus:ring-2 ${
                 isDark
                   ? 'bg-white/5 border border-white/10 text-white focus:ring-white/40'
@@ -700,7 +958,24 @@ const CommentsPane: React.FC<CommentsPaneProps> = ({ comments, currentFrame, onA
             </div>
           )}
           </div>
-          <button type="submit" className={`px-3 py-2 font-semibold rounded-full hover:opacity-95 text-xs ${isDark ? 'bg-white text-black' : 'bg-gray-900 text-gray-50 hover:bg-black'}`}>
+          {onToggleRangeSelect && (
+            <button
+              type="button"
+              onClick={onToggleRangeSelect}
+              title="Comment on a range: drag across the timeline (or Shift-drag any time)"
+              className={`inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full ${
+                rangeSelecting
+                  ? isDark ? 'bg-emerald-400/20 text-emerald-100' : 'bg-emerald-50 text-emerald-700'
+                  : isDark ? 'text-white/60 hover:bg-white/10 hover:text-white' : 'text-gray-500 hover:bg-gray-100 hover:text-gray-900'
+              }`}
+            >
+              <MoveHorizontal size={15} />
+            </button>
+          )}
+          {newCommentAttachments.enabled && (
+            <AttachFilesButton onFiles={newCommentAttachments.addFiles} isDark={isDark} />
+          )}
+          <button type="submit" disabled={newCommentAttachments.uploading} className={`px-3 py-2 font-semibold rounded-full hover:opacity-95 disabled:opacity-50 text-xs ${isDark ? 'bg-white text-black' : 'bg-gray-900 text-gray-50 hover:bg-black'}`}>
             Send
           </button>
         </form>
@@ -25,10 +25,13 @@ import {
   CheckCircle2,
   Info,
   ChevronDown,
+  Lock,
+  Eye,
 } from 'lucide-react';
 import { useAction, useMutation, useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
-import { Project, Video, ShareGroup, ContentShare } from '../types';
+import type { Id } from '../convex/_generated/dataModel';
+import { Project, Video, ShareGroup, ContentShare, LinkProtection } from '../types';
 import { useThemePreference } from '../useTheme';
 import { publicBaseUrl } from '../utils/url';
 
@@ -861,6 +864,7 @@ const Dashboard: React.FC<DashboardProps> = ({
     allowDownload: boolean,
     allowComments: boolean,
     expiresAt?: number,
+    protection?: LinkProtection,
   ) => {
     const token = await generateShareLink({
       videoId: video.id as any,
@@ -868,6 +872,8 @@ const Dashboard: React.FC<DashboardProps> = ({
       allowDownload,
       allowComments,
       expiresAt,
+      password: protection?.password,
+      maxViews: protection?.maxViews,
     });
     pushToast('success', 'Shareable link generated. Copy it from the sharing panel.');
     return token;
@@ -878,6 +884,7 @@ const Dashboard: React.FC<DashboardProps> = ({
     allowDownload: boolean,
     allowComments: boolean,
     expiresAt?: number,
+    protection?: LinkProtection,
   ) => {
     const token = await generateShareLink({
       videoId: undefined,
@@ -885,6 +892,8 @@ const Dashboard: React.FC<DashboardProps> = ({
       allowDownload,
       allowComments,
       expiresAt,
+      password: protection?.password,
+      maxViews: protection?.maxViews,
     });
     pushToast('success', 'Project link generated.');
     return token;
@@ -1595,6 +1604,7 @@ const Dashboard: React.FC<DashboardProps> = ({
               options.allowDownload,
               options.allowComments,
               options.expiresAt,
+              options,
             )
           }
           onShareToGroup={(args) =>
@@ -1606,7 +1616,7 @@ const Dashboard: React.FC<DashboardProps> = ({
             )
           }
           onUnshare={async (shareId) => {
-            await revokeShare({ shareId: shareId as any });
+            await revokeShare({ shareId: shareId as Id<'contentShares'> });
             pushToast('success', 'Sharing removed.');
           }}
           onClose={() => setVideoToShare(null)}
@@ -1670,6 +1680,7 @@ const Dashboard: React.FC<DashboardProps> = ({
               options.allowDownload,
               options.allowComments,
               options.expiresAt,
+              options,
             )
           }
           onShareToGroup={(args) =>
@@ -1681,7 +1692,7 @@ const Dashboard: React.FC<DashboardProps> = ({
             )
           }
           onUnshare={async (shareId) => {
-            await revokeShare({ shareId: shareId as any });
+            await revokeShare({ shareId: shareId as Id<'contentShares'> });
             pushToast('success', 'Sharing removed.');
           }}
           onClose={() => setProjectToShare(null)}
@@ -1966,7 +1977,7 @@ interface ShareModalProps {
     expiresAt?: number;
     videoId?: string;
     projectId?: string;
-  }) => Promise<string>;
+  } & LinkProtection) => Promise<string>;
   onUnshare: (shareId: string) => Promise<void> | void;
   onClose: () => void;
 }
@@ -1987,6 +1998,9 @@ export const ShareModal: React.FC<ShareModalProps> = ({
   const [allowComments, setAllowComments] = useState(true);
   const [linkToken, setLinkToken] = useState<string | null>(() => existingShares.find((share) => share.linkToken)?.linkToken ?? null);
   const [generating, setGenerating] = useState(false);
+  const [linkPassword, setLinkPassword] = useState('');
+  const [linkMaxViews, setLinkMaxViews] = useState('');
+  const [logShareId, setLogShareId] = useState<string | null>(null);
   const assetKind = video ? 'review' : 'project';
   const assetTitle = video ? video.title : project?.name ?? '';
   const shareArgs = {
@@ -2007,15 +2021,22 @@ export const ShareModal: React.FC<ShareModalProps> = ({
     return out;
   }, [existingShares]);
 
+  const parsedMaxViews = linkMaxViews.trim() ? Number(linkMaxViews) : undefined;
+  const maxViewsInvalid = parsedMaxViews !== undefined && (!Number.isInteger(parsedMaxViews) || parsedMaxViews < 1);
+
   const handleGenerateLink = async () => {
+    if (maxViewsInvalid) return;
     setGenerating(true);
     const token = await onGenerateLink({
       allowDownload,
       allowComments,
       videoId: shareArgs.videoId,
       projectId: shareArgs.projectId,
+      password: linkPassword || undefined,
+      maxViews: parsedMaxViews,
     });
     setLinkToken(token);
+    setLinkPassword('');
     setGenerating(false);
   };
 
@@ -2045,8 +2066,16 @@ export const ShareModal: React.FC<ShareModalProps> = ({
                           </>
                         ) : (
                           <>
-                            <p className="font-semibold text-white">Public link</p>
+                            <p className="flex items-center gap-1 font-semibold text-white">
+                              Public link
+                              {share.hasPassword && <Lock size={12} className="text-white/60" aria-label="Password protected" />}
+                            </p>
                             <p className="text-white/50">Token: {(share.linkToken ?? '').slice(0,12)}…</p>
+                            <p className="text-white/50">
+                              {share.maxViews
+                                ? `${share.viewCount ?? 0} of ${share.maxViews} views used`
+                                : `${share.viewCount ?? 0} view${share.viewCount === 1 ? '' : 's'}`}
+                            </p>
                             <p className="text-white/50">
                               {video
                                 ? (<>
@@ -2059,16 +2088,30 @@ export const ShareModal: React.FC<ShareModalProps> = ({
                           </>
                         )}
                       </div>
-                      <button
-                        onClick={() => onUnshare(share.id)}
-                        className="rounded-full bg-white/10 px-3 py-1 text-white/70 hover:text-white"
-                      >
-                        Unshare
-                      </button>
+                      <div className="flex items-center gap-2">
+                        {!group && (
+                          <button
+                            onClick={() => setLogShareId((current) => (current === share.id ? null : share.id))}
+                            className={`inline-flex items-center gap-1 rounded-full px-3 py-1 ${logShareId === share.id ? 'bg-white/20 text-white' : 'bg-white/10 text-white/70 hover:text-white'}`}
+                          >
+                            <Eye size={12} />
+                            Access log
+                          </button>
+                        )}
+                        <button
+                          onClick={() => onUnshare(share.id)}
+                          className="rounded-full bg-white/10 px-3 py-1 text-white/70 hover:text-white"
+                        >
+                          Unshare
+                        </button>
+                      </div>
                     </div>
                   );
                 })}
               </div>
+              {logShareId && visibleShares.some((share) => share.id === logShareId) && (
+                <ShareAccessLog shareId={logShareId as Id<'contentShares'>} />
+              )}
             </section>
           )}
           <section className="rounded-2xl border border-white/10 bg-white/5 p-4">
@@ -2136,11 +2179,48 @@ export const ShareModal: React.FC<ShareModalProps> = ({
                 </div>
               </label>
             </div>
+            <div className="mt-3 grid gap-2 text-xs text-white/70 sm:grid-cols-2">
+              <label className="space-y-1 rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+                <span className="flex items-center gap-1 font-semibold text-white">
+                  <Lock size={12} />
+                  Password
+                </span>
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={linkPassword}
+                  onChange={(event) => setLinkPassword(event.target.value)}
+                  placeholder="Optional"
+                  className="w-full bg-transparent text-white placeholder:text-white/30 focus:outline-none"
+                />
+              </label>
+              <label className="space-y-1 rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+                <span className="flex items-center gap-1 font-semibold text-white">
+                  <Eye size={12} />
+                  View limit
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={linkMaxViews}
+                  onChange={(event) => setLinkMaxViews(event.target.value)}
+                  placeholder="Unlimited"
+                  className="w-full bg-transparent text-white placeholder:text-white/30 focus:outline-none"
+                />
+              </label>
+            </div>
+            {maxViewsInvalid && <p className="mt-2 text-xs text-rose-300">The view limit must be a whole number above zero.</p>}
+            {parsedMaxViews !== undefined && !maxViewsInvalid && (
+              <p className="mt-2 text-xs text-white/50">
+                The link is revoked automatically after {parsedMaxViews} view{parsedMaxViews === 1 ? '' : 's'}.
+              </p>
+            )}
             <div className="mt-4 flex flex-wrap items-center gap-2">
               <button
                 onClick={handleGenerateLink}
                 className="inline-flex items-center gap-2 rounded-full bg-white/10 px-4 py-2 text-sm font-semibold text-white hover:bg-white/20"
-                disabled={generating}
+                disabled={generating || maxViewsInvalid}
               >
                 {generating ? <Loader2 className="animate-spin" size={16} /> : <LinkIcon size={16} />}
                 {linkToken ? 'Refresh link' : 'Generate link'}
@@ -2182,6 +2262,43 @@ export const ShareModal: React.FC<ShareModalProps> = ({
   );
 };
 
+const ACCESS_OUTCOME_LABELS: Record<string, string> = {
+  granted: 'Opened',
+  password_required: 'Asked for password',
+  invalid_password: 'Wrong password',
+  limit_reached: 'Blocked: view limit',
+  rate_limited: 'Blocked: too many attempts',
+};
+
+const ShareAccessLog: React.FC<{ shareId: Id<'contentShares'> }> = ({ shareId }) => {
+  const entries = useQuery(api.shares.listAccessLogs, { shareId });
+
+  return (
+    <div className="mt-3 rounded-xl border border-white/10 bg-black/30 p-3 text-xs text-white/70">
+      <p className="font-semibold text-white">Access log</p>
+      {entries === undefined ? (
+        <Loader2 className="mt-2 animate-spin text-white/40" size={14} />
+      ) : entries.length === 0 ? (
+        <p className="mt-2 text-white/50">Nobody has opened this link yet.</p>
+      ) : (
+        <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex flex-wrap items-baseline gap-x-2">
+              <span className="text-white/50">{new Date(entry.createdAt).toLocaleString()}</span>
+              <span className={entry.outcome === 'granted' ? 'text-white' : 'text-rose-300'}>
+                {ACCESS_OUTCOME_LABELS[entry.outcome] ?? entry.outcome}
+              </span>
+              {entry.viewer && <span className="text-white/70">{entry.viewer}</span>}
+              {entry.ipHash && <span className="font-mono text-white/40" title="Hashed IP address">#{entry.ipHash}</span>}
+              {entry.userAgent && <span className="w-full truncate text-white/40" title={entry.userAgent}>{entry.userAgent}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 interface ProjectModalProps {
   initialName: string;
   onCancel: () => void;
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import type { Comment, Video } from '../types';
+import type { TimecodeFormat } from '../utils/timecode';
+import { CommentExportFormat, downloadCommentExport, serializeComments } from '../utils/commentExport';
+
+interface ExportCommentsModalProps {
+  video: Video;
+  comments: Comment[];
+  timecodeFormat: TimecodeFormat;
+  // Frames that carry sketches; only those get a thumbnail.
+  annotatedFrames: number[];
+  // Renders and uploads a snapshot per frame. Omitted when snapshots are unavailable (e.g. image reviews).
+  onCaptureThumbnails?: (frames: number[], onProgress: (done: number) => void) => Promise<Record<number, string>>;
+  buildReviewUrl?: (comment: Comment) => string;
+  onClose: () => void;
+  isDark?: boolean;
+}
+
+const FORMAT_OPTIONS: Array<{ value: CommentExportFormat; label: string; hint: string }> = [
+  { value: 'xml', label: 'Marker XML', hint: 'Sequence markers for Premiere Pro and DaVinci Resolve (FCP7 XML).' },
+  { value: 'edl', label: 'EDL', hint: 'CMX3600 with locator comments, for Avid and Resolve.' },
+  { value: 'csv', label: 'CSV', hint: 'Every comment and reply, for spreadsheets and trackers.' },
+];
+
+const ExportCommentsModal: React.FC<ExportCommentsModalProps> = ({
+  video,
+  comments,
+  timecodeFormat,
+  annotatedFrames,
+  onCaptureThumbnails,
+  buildReviewUrl,
+  onClose,
+  isDark = true,
+}) => {
+  const [format, setFormat] = useState<CommentExportFormat>('xml');
+  const [includeResolved, setIncludeResolved] = useState(true);
+  const [includeThumbnails, setIncludeThumbnails] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedComments = useMemo(() => {
+    if (includeResolved) return comments;
+    const resolvedRoots = new Set(comments.filter((c) => !c.parentId && c.resolved).map((c) => c.id));
+    return comments.filter((c) => !resolvedRoots.has(c.id) && !(c.parentId && resolvedRoots.has(c.parentId)));
+  }, [comments, includeResolved]);
+
+  const thumbnailFrames = useMemo(() => {
+    const annotated = new Set(annotatedFrames);
+    const frames = new Set<number>();
+    selectedComments.forEach((c) => {
+      if (!c.parentId && typeof c.frame === 'number' && annotated.has(c.frame)) frames.add(c.frame);
+    });
+    return Array.from(frames).sort((a, b) => a - b);
+  }, [annotatedFrames, selectedComments]);
+
+  const threadCount = selectedComments.filter((c) => !c.parentId).length;
+
+  const handleExport = async () => {
+    if (exporting) return;
+    setExporting(true);
+    setError(null);
+    try {
+      let thumbnails: Record<number, string> | undefined;
+      if (includeThumbnails && onCaptureThumbnails && thumbnailFrames.length > 0) {
+        setProgress({ done: 0, total: thumbnailFrames.length });
+        thumbnails = await onCaptureThumbnails(thumbnailFrames, (done) =>
+          setProgress({ done, total: thumbnailFrames.length }),
+        );
+      }
+      const contents = serializeComments(format, selectedComments, {
+        video,
+        format: timecodeFormat,
+        thumbnails,
+        buildReviewUrl,
+      });
+      downloadCommentExport(format, contents, video.title);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to export comments.');
+    } finally {
+      setExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const subtle = isDark ? 'text-white/60' : 'text-gray-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+      <div className="absolute inset-0 bg-black/60" onClick={exporting ? undefined : onClose} />
+      <div
+        className={`relative w-full max-w-md rounded-2xl border px-6 py-6 shadow-2xl ${
+          isDark ? 'bg-black/90 border-white/10 text-white/80' : 'bg-white border-gray-200 text-gray-900'
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Export comments</h2>
+          <button onClick={onClose} disabled={exporting} aria-label="Close" className={`${subtle} hover:opacity-80 disabled:opacity-40`}>
+            <X size={18} />
+          </button>
+        </div>
+        <p className={`mt-1 text-xs ${subtle}`}>
+          {threadCount} thread{threadCount === 1 ? '' : 's'} · timecode from{' '}
+          {video.startTimecode ?? (timecodeFormat.dropFrame ? '00:00:00;00' : '00:00:00:00')}
+        </p>
+
+        <div className="mt-5 space-y-2">
+          {FORMAT_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className={`flex cursor-pointer items-start gap-3 rounded-xl border px-3 py-2 ${
+                format === option.value
+                  ? isDark ? 'border-white/40 bg-white/10' : 'border-gray-900/40 bg-gray-50'
+                  : isDark ? 'border-white/10' : 'border-gray-200'
+              }`}
+            >
+              <input
+                type="radio"
+                name="comment-export-format"
+                className="mt-1"
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+              />
+              <span>
+                <span className="block text-sm font-semibold">{option.label}</span>
+                <span className={`block text-xs ${subtle}`}>{option.hint}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="mt-4 space-y-2 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={includeResolved} onChange={(e) => setIncludeResolved(e.target.checked)} />
+            <span>Include resolved threads</span>
+          </label>
+          {onCaptureThumbnails && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeThumbnails}
+                disabled={thumbnailFrames.length === 0}
+                onChange={(e) => setIncludeThumbnails(e.target.checked)}
+              />
+              <span className={thumbnailFrames.length === 0 ? subtle : undefined}>
+                Upload annotated frame thumbnails ({thumbnailFrames.length})
+              </span>
+            </label>
+          )}
+        </div>
+
+        {progress && (
+          <p className={`mt-3 text-xs ${subtle}`}>
+            Capturing thumbnails… {progress.done}/{progress.total}
+          </p>
+        )}
+        {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            className={`rounded-full px-4 py-2 text-sm font-semibold disabled:opacity-50 ${
+              isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || threadCount === 0}
+            className={`inline-flex items-center gap-2 rounded-full px-4 py-2 text-sm font-semibold disabled:opacity-50 ${
+              isDark ? 'bg-white text-black hover:bg-white/90' : 'bg-black text-white hover:bg-black/90'
+            }`}
+          >
+            <Download size={16} />
+            {exporting ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportCommentsModal;
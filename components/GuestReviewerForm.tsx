@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Loader2, UserRound } from 'lucide-react';
+
+interface GuestReviewerFormProps {
+  busy: boolean;
+  error: string | null;
+  onSubmit: (details: { name: string; email: string }) => void;
+  onSignIn: () => void;
+}
+
+/**
+ * Lets someone opening a share link comment as a named guest instead of creating an account.
+ */
+const GuestReviewerForm: React.FC<GuestReviewerFormProps> = ({ busy, error, onSubmit, onSignIn }) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !email.trim()) return;
+    onSubmit({ name: name.trim(), email: email.trim() });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-6 py-12">
+      <form onSubmit={handleSubmit} className="w-full max-w-md rounded-3xl border border-gray-200 bg-white p-8 shadow-2xl">
+        <div className="flex items-center gap-3">
+          <span className="flex h-10 w-10 items-center justify-center rounded-full bg-gray-900 text-white">
+            <UserRound size={18} />
+          </span>
+          <h2 className="text-xl font-semibold text-gray-900">Review as a guest</h2>
+        </div>
+        <p className="mt-3 text-sm text-gray-700">
+          Your name is shown next to your comments. No account needed.
+        </p>
+        <label className="mt-5 block text-xs font-semibold text-gray-700">
+          Name
+          <input
+            type="text"
+            autoFocus
+            autoComplete="name"
+            maxLength={80}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className="mt-1 w-full rounded-xl border border-gray-300 px-4 py-2 text-sm font-normal text-gray-900 focus:border-gray-900 focus:outline-none"
+          />
+        </label>
+        <label className="mt-3 block text-xs font-semibold text-gray-700">
+          Email
+          <input
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            className="mt-1 w-full rounded-xl border border-gray-300 px-4 py-2 text-sm font-normal text-gray-900 focus:border-gray-900 focus:outline-none"
+          />
+        </label>
+        {error && <p className="mt-3 text-sm text-rose-600">{error}</p>}
+        <div className="mt-6 flex flex-wrap gap-3">
+          <button
+            type="submit"
+            disabled={busy || !name.trim() || !email.trim()}
+            className="inline-flex items-center gap-2 rounded-full border border-gray-900 bg-gray-900 px-5 py-2 text-sm font-semibold text-white hover:bg-black disabled:opacity-60"
+          >
+            {busy && <Loader2 size={14} className="animate-spin" />}
+            Continue as guest
+          </button>
+          <button
+            type="button"
+            onClick={onSignIn}
+            className="rounded-full border border-gray-300 bg-white px-5 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50"
+          >
+            Sign in instead
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default GuestReviewerForm;
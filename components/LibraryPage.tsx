@@ -4,6 +4,7 @@ import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 import { uploadFileMultipart } from "@/lib/upload/multipart";
+import { paletteToLabFingerprint } from "@/utils/colorUtils";
 import {
   compressImageFile,
   createImagePreviewDataUrl,
@@ -11,6 +12,7 @@ import {
 } from "@/lib/upload/imageCompression";
 import { Library } from "@/components/library/library";
 import { CollectionsView } from "@/components/library/collections";
+import { DuplicatesView } from "@/components/library/duplicates";
 import { ReferenceDeleteConfirmation } from "@/components/library/ReferenceDeleteConfirmation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -42,6 +44,7 @@ import {
   LayoutGrid,
   Loader2,
   Sparkles,
+  Copy,
 } from "lucide-react";
 import { toast } from "sonner";
 import { AnimatePresence, motion, useReducedMotion } from "framer-motion";
@@ -211,6 +214,22 @@ const extractDominantColors = (img: HTMLImageElement, maxColors = 6) => {
     .map(([color]) => color);
 };
 
+// Exact-duplicate detection hashes the original file; very large files are left to pHash matching.
+const SHA256_MAX_BYTES = 200 * 1024 * 1024;
+
+const computeSha256 = async (file: File) => {
+  if (file.size > SHA256_MAX_BYTES || !globalThis.crypto?.subtle) return undefined;
+  try {
+    const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  } catch (error) {
+    console.warn("Library sha256 failed; skipping exact duplicate check", error);
+    return undefined;
+  }
+};
+
 const computeDHash = (img: HTMLImageElement) => {
   const width = 9;
   const height = 8;
@@ -635,7 +654,7 @@ const LibraryPage: React.FC = () => {
   const [uploadCollectionIds, setUploadCollectionIds] = useState<Id<"assetCollections">[]>([]);
   const [isCreatingUploadCollection, setIsCreatingUploadCollection] = useState(false);
   const [uploadCollectionTitleOverrides, setUploadCollectionTitleOverrides] = useState<Record<string, string>>({});
-  const [activeTab, setActiveTab] = useState<"references" | "collections">("references");
+  const [activeTab, setActiveTab] = useState<"references" | "collections" | "duplicates">("references");
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedAssetIds, setSelectedAssetIds] = useState<Id<"assets">[]>([]);
   const [isFindingSimilar, setIsFindingSimilar] = useState(false);
@@ -729,7 +748,8 @@ const LibraryPage: React.FC = () => {
   }, [assets]);
 
   const uploadCollections = useMemo(() => {
-    return (collections ?? []) as any[];
+    // Smart collections pick their references by rule, so they cannot be added to by hand.
+    return ((collections ?? []) as any[]).filter((c) => !c?.isSmart);
   }, [collections]);
 
   const filteredUploadCollections = useMemo(() => {
@@ -1075,6 +1095,7 @@ const LibraryPage: React.FC = () => {
           type,
           mimeType: uploadFile.type || item.file.type || undefined,
           fileSize: uploadFile.size || item.file.size,
+          sha256: await computeSha256(item.file),
           source: "upload",
         })) as Id<"assets">;
 
@@ -1107,6 +1128,7 @@ const LibraryPage: React.FC = () => {
               height: metadata.height,
               aspectRatio: metadata.aspectRatio,
               dominantColors: metadata.dominantColors,
+              colorFingerprint: paletteToLabFingerprint(metadata.dominantColors),
               phash: metadata.phash,
               blurDataUrl: imagePreviewDataUrl,
               variants,
@@ -2605,6 +2627,18 @@ const LibraryPage: React.FC = () => {
 	                <LayoutGrid className="h-4 w-4" />
 	                Collections
 	              </button>
+	              <button
+	                onClick={() => setActiveTab("duplicates")}
+	                className={[
+	                  "inline-flex items-center gap-2 rounded-full px-6 py-2 text-sm font-semibold transition",
+	                  activeTab === "duplicates"
+	                    ? "bg-white text-gray-900 shadow-sm"
+	                    : "text-gray-600 hover:text-gray-900 hover:bg-white/70",
+	                ].join(" ")}
+	              >
+	                <Copy className="h-4 w-4" />
+	                Duplicates
+	              </button>
 	            </div>
 	          </div>
 
@@ -2709,8 +2743,10 @@ const LibraryPage: React.FC = () => {
                 onSelectionChange={setSelectedAssetIds}
               />
               </>
-            ) : (
+            ) : activeTab === "collections" ? (
               <CollectionsView />
+            ) : (
+              <DuplicatesView />
             )}
           </div>
         </div>
@@ -2879,7 +2915,7 @@ const LibraryPage: React.FC = () => {
               <label className="text-xs font-semibold uppercase text-gray-500">Pick one</label>
               <div className="max-h-[260px] overflow-y-auto rounded-2xl border border-gray-200 bg-white">
                 {(collections ?? [])
-                  .filter((c: any) => !c?.isShared)
+                  .filter((c: any) => !c?.isShared && !c?.isSmart)
                   .filter((c: any) =>
                     collectionPickerQuery.trim()
                       ? String(c.title ?? "")
@@ -2914,7 +2950,7 @@ const LibraryPage: React.FC = () => {
                       </button>
                     );
                   })}
-                {(collections ?? []).filter((c: any) => !c?.isShared).length === 0 && (
+                {(collections ?? []).filter((c: any) => !c?.isShared && !c?.isSmart).length === 0 && (
                   <div className="px-4 py-6 text-sm text-gray-500">No collections yet.</div>
                 )}
               </div>
@@ -1133,7 +1133,7 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({ user, projects, onBac
             <div className="mt-4 space-y-3 text-sm text-white/70">
               <ToggleRow
                 label="Review updates"
-                description="Email me when reviewers submit feedback."
+                description="Daily email with new feedback, resolved threads and revisions."
                 enabled={localSettings?.notifications.reviewUpdates ?? true}
                 onToggle={() =>
                   handleSettingsChange((current) => ({
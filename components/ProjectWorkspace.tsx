@@ -1,7 +1,7 @@
 import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import { nanoid } from 'nanoid';
 import { Film, PlayCircle, ArrowLeft, X, AlertTriangle, CheckCircle2, Info, LayoutGrid, Plus, MoreHorizontal, Pencil, Trash2, UploadCloud, ChevronDown, ChevronRight } from 'lucide-react';
-import { Video, Project, ContentShare, Board } from '../types';
+import { Video, Project, ContentShare, Board, LinkProtection } from '../types';
 import { useThemePreference } from '../useTheme';
 import { useQuery, useMutation, useAction } from 'convex/react';
 import { api } from '../convex/_generated/api';
@@ -13,6 +13,7 @@ import {
   ShareModal,
 } from './Dashboard';
 import { compressImage } from '../lib/image-compression';
+import { formatFrameRate } from '../utils/timecode';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -525,7 +526,7 @@ const ProjectWorkspace: React.FC<{
   );
 
   const generateVideoLink = useCallback(
-    async (video: Video, allowDownload: boolean, allowComments: boolean, expiresAt?: number) => {
+    async (video: Video, allowDownload: boolean, allowComments: boolean, expiresAt?: number, protection?: LinkProtection) => {
       try {
         const token = await generateShareLink({
           videoId: video.id as any,
@@ -533,6 +534,8 @@ const ProjectWorkspace: React.FC<{
           allowDownload,
           allowComments,
           expiresAt,
+          password: protection?.password,
+          maxViews: protection?.maxViews,
         });
         pushToast('success', 'Shareable link generated.');
         return token;
@@ -1261,7 +1264,7 @@ const ProjectWorkspace: React.FC<{
                       <div className="flex items-center justify-between px-3 pb-3 text-[11px] text-gray-500">
                         <span>Updated {formatDate(video.lastReviewedAt ?? video.uploadedAt)}</span>
                         <span>
-                          {video.width}×{video.height} • {video.fps} fps
+                          {video.width}×{video.height} • {formatFrameRate(video.fps)} fps
                         </span>
                       </div>
                     </div>
@@ -1301,7 +1304,7 @@ const ProjectWorkspace: React.FC<{
                                 {video.title}
                               </span>
                               <div className="text-[11px] text-gray-500">
-                                Uploaded {formatDate(video.uploadedAt)} • {video.width}×{video.height} • {video.fps} fps
+                                Uploaded {formatDate(video.uploadedAt)} • {video.width}×{video.height} • {formatFrameRate(video.fps)} fps
                               </div>
                             </div>
                           </td>
@@ -1688,7 +1691,7 @@ const ProjectWorkspace: React.FC<{
             shareVideoToGroup(videoToShare, args.groupId, args.allowDownload, args.allowComments)
           }
           onGenerateLink={(options) =>
-            generateVideoLink(videoToShare, options.allowDownload, options.allowComments, options.expiresAt)
+            generateVideoLink(videoToShare, options.allowDownload, options.allowComments, options.expiresAt, options)
           }
           onUnshare={(shareId) => unshareVideo(shareId)}
           onClose={() => setVideoToShare(null)}
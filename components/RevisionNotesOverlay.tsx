@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import getStroke from 'perfect-freehand';
+import { Annotation, AnnotationTool, Comment, Video } from '../types';
+import * as geo from '../utils/geometry';
+import { commentCoversFrame } from '../utils/commentRange';
+import { isAnnotationVisibleAt, poseAnnotation } from '../utils/annotationHold';
+
+interface RevisionNotesOverlayProps {
+  video: Video;
+  currentFrame: number;
+  annotations: Annotation[];
+  comments: Comment[];
+  /** Short name of the revision the notes come from (e.g. "v2"). */
+  label: string;
+  onSelectComment?: (comment: Comment) => void;
+}
+
+// Notes from the older revision are drawn in one tint so they never read as notes on the current one.
+const GHOST_COLOR = '#f59e0b';
+
+/**
+ * Read-only layer that draws another revision's annotations and comment pins on top of the player.
+ */
+const RevisionNotesOverlay: React.FC<RevisionNotesOverlayProps> = ({ video, currentFrame, annotations, comments, label, onSelectComment }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || typeof ResizeObserver === 'undefined') return;
+    const update = () => {
+      const rect = el.getBoundingClientRect();
+      setSize({ width: rect.width, height: rect.height });
+    };
+    update();
+    const obs = new ResizeObserver(() => update());
+    obs.observe(el);
+    return () => obs.disconnect();
+  }, []);
+
+  const renderedRect = useMemo(() => {
+    if (!size || !video.width || !video.height) return null;
+    return geo.getRenderedRect({
+      containerWidth: size.width,
+      containerHeight: size.height,
+      videoWidth: video.width,
+      videoHeight: video.height,
+    });
+  }, [size, video.width, video.height]);
+
+  const frameAnnotations = useMemo(
+    () =>
+      annotations
+        .filter((annotation) => isAnnotationVisibleAt(annotation, currentFrame))
+        .map((annotation) => poseAnnotation(annotation, currentFrame)),
+    [annotations, currentFrame],
+  );
+  const framePins = useMemo(
+    () => comments.filter((comment) => !comment.parentId && commentCoversFrame(comment, currentFrame) && comment.position),
+    [comments, currentFrame],
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size || !renderedRect) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, size.width, size.height);
+    ctx.strokeStyle = GHOST_COLOR;
+    ctx.fillStyle = GHOST_COLOR;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    for (const anno of frameAnnotations as any[]) {
+      ctx.lineWidth = anno.lineWidth || 2;
+      ctx.setLineDash([]);
+      switch (anno.type) {
+        case AnnotationTool.FREEHAND: {
+          const pts = (anno.points ?? []).map((p: any) => {
+            const c = geo.normalizedToCanvas(p, renderedRect);
+            return [c.x, c.y];
+          });
+          if (!pts.length) break;
+          const stroke = getStroke(pts, { size: Math.max(1, anno.lineWidth || 2), thinning: 0.5, smoothing: 0.5, streamline: 0.5, simulatePressure: true }) as number[][];
+          if (!stroke.length) break;
+          ctx.beginPath();
+          ctx.moveTo(stroke[0][0], stroke[0][1]);
+          for (let i = 1; i < stroke.length; i++) ctx.lineTo(stroke[i][0], stroke[i][1]);
+          ctx.closePath();
+          ctx.fill();
+          break;
+        }
+        case AnnotationTool.RECTANGLE:
+        case AnnotationTool.ELLIPSE:
+        case AnnotationTool.IMAGE:
+        case AnnotationTool.VIDEO: {
+          if (!anno.center || anno.width == null || anno.height == null) break;
+          const center = geo.normalizedToCanvas(anno.center, renderedRect);
+          const width = anno.width * renderedRect.width;
+          const height = anno.height * renderedRect.height;
+          ctx.save();
+          ctx.translate(center.x, center.y);
+          ctx.rotate(anno.rotation || 0);
+          ctx.beginPath();
+          if (anno.type === AnnotationTool.ELLIPSE) {
+            ctx.ellipse(0, 0, Math.abs(width / 2), Math.abs(height / 2), 0, 0, 2 * Math.PI);
+          } else {
+            // Media annotations are outlined only: the shape is what matters when checking fixes.
+            if (anno.type !== AnnotationTool.RECTANGLE) ctx.setLineDash([6, 4]);
+            ctx.rect(-width / 2, -height / 2, width, height);
+          }
+          ctx.stroke();
+          ctx.restore();
+          break;
+        }
+        case AnnotationTool.ARROW: {
+          if (!anno.start || !anno.end) break;
+          const start = geo.normalizedToCanvas(anno.start, renderedRect);
+          const end = geo.normalizedToCanvas(anno.end, renderedRect);
+          const headlen = Math.min(15, Math.max(5, (anno.lineWidth || 4) * 2.5));
+          const angle = Math.atan2(end.y - start.y, end.x - start.x);
+          ctx.beginPath();
+          ctx.moveTo(start.x, start.y);
+          ctx.lineTo(end.x, end.y);
+          ctx.lineTo(end.x - headlen * Math.cos(angle - Math.PI / 6), end.y - headlen * Math.sin(angle - Math.PI / 6));
+          ctx.moveTo(end.x, end.y);
+          ctx.lineTo(end.x - headlen * Math.cos(angle + Math.PI / 6), end.y - headlen * Math.sin(angle + Math.PI / 6));
+          ctx.stroke();
+          break;
+        }
+        case AnnotationTool.TEXT: {
+          if (!anno.position || !anno.text) break;
+          const pos = geo.normalizedToCanvas(anno.position, renderedRect);
+          ctx.font = `${anno.fontSize || 16}px sans-serif`;
+          ctx.textBaseline = 'top';
+          ctx.fillText(anno.text, pos.x, pos.y);
+          break;
+        }
+      }
+    }
+  }, [frameAnnotations, renderedRect, size]);
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 z-20 pointer-events-none">
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" aria-hidden />
+      {renderedRect && framePins.map((comment) => {
+        const pos = geo.normalizedToCanvas(comment.position!, renderedRect);
+        return (
+          <button
+            key={`revision-pin-${comment.id}`}
+            type="button"
+            className={`pointer-events-auto absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-dashed px-1.5 py-0.5 text-[10px] font-bold shadow ${comment.resolved ? 'border-emerald-400 bg-emerald-500/80 text-white' : 'border-amber-300 bg-amber-500/90 text-black'}`}
+            style={{ left: pos.x, top: pos.y }}
+            title={`${label} · ${comment.authorName}: ${comment.text}`}
+            onClick={() => onSelectComment?.(comment)}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RevisionNotesOverlay;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import type { ShareOpenError } from '../lib/share-access';
+
+interface SharePasswordGateProps {
+  requiresPassword: boolean;
+  busy: boolean;
+  error: ShareOpenError | null;
+  onSubmit: (password?: string) => void;
+  onLeave: () => void;
+  leaveLabel?: string;
+}
+
+const ERROR_MESSAGES: Record<ShareOpenError, string> = {
+  SHARE_NOT_FOUND: 'This link is no longer available.',
+  PASSWORD_REQUIRED: 'Enter the password to open this link.',
+  INVALID_PASSWORD: 'That password is not correct.',
+  TOO_MANY_ATTEMPTS: 'Too many wrong passwords. Try again in a few minutes.',
+  VIEW_LIMIT_REACHED: 'This link has reached its view limit. Ask the sender for a new one.',
+  OPEN_FAILED: 'Could not open the link. Check your connection and try again.',
+};
+
+/**
+ * Shown on /share/:token while a password-protected or view-limited link is still locked.
+ */
+const SharePasswordGate: React.FC<SharePasswordGateProps> = ({ requiresPassword, busy, error, onSubmit, onLeave, leaveLabel = 'Back to workspaces' }) => {
+  const [password, setPassword] = useState('');
+  const closed = error === 'VIEW_LIMIT_REACHED' || error === 'SHARE_NOT_FOUND';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (requiresPassword && !password) return;
+    onSubmit(requiresPassword ? password : undefined);
+  };
+
+  return (
+    <div className="flex-1 flex items-center justify-center px-6 py-12">
+      <form onSubmit={handleSubmit} className="w-full max-w-md rounded-3xl border border-gray-200 bg-white p-8 shadow-2xl">
+        <div className="flex items-center gap-3">
+          <span className="flex h-10 w-10 items-center justify-center rounded-full bg-gray-900 text-white">
+            <Lock size={18} />
+          </span>
+          <h2 className="text-xl font-semibold text-gray-900">Protected link</h2>
+        </div>
+        <p className="mt-3 text-sm text-gray-700">
+          {requiresPassword
+            ? 'The sender protected this review with a password.'
+            : 'This link can only be opened a limited number of times.'}
+        </p>
+        {requiresPassword && !closed && (
+          <input
+            type="password"
+            autoFocus
+            autoComplete="off"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            placeholder="Password"
+            className="mt-5 w-full rounded-xl border border-gray-300 px-4 py-2 text-sm text-gray-900 focus:border-gray-900 focus:outline-none"
+          />
+        )}
+        {error && <p className="mt-3 text-sm text-rose-600">{ERROR_MESSAGES[error]}</p>}
+        <div className="mt-6 flex flex-wrap gap-3">
+          {!closed && (
+            <button
+              type="submit"
+              disabled={busy || (requiresPassword && !password)}
+              className="inline-flex items-center gap-2 rounded-full border border-gray-900 bg-gray-900 px-5 py-2 text-sm font-semibold text-white hover:bg-black disabled:opacity-60"
+            >
+              {busy && <Loader2 size={14} className="animate-spin" />}
+              {requiresPassword ? 'Open review' : 'Try again'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onLeave}
+            className="rounded-full border border-gray-300 bg-white px-5 py-2 text-sm font-semibold text-gray-800 hover:bg-gray-50"
+          >
+            {leaveLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SharePasswordGate;
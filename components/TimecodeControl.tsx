@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import {
+  TimecodeDisplayMode,
+  TimecodeFormat,
+  formatFrameLabel,
+  getTimebase,
+  normalizeTimecode,
+  parseTimecodeInput,
+} from '../utils/timecode';
+
+interface TimecodeControlProps {
+  currentFrame: number;
+  totalFrames: number;
+  format: TimecodeFormat;
+  startTimecode?: string | null;
+  mode: TimecodeDisplayMode;
+  onToggleMode: () => void;
+  onGoToFrame: (frame: number) => void;
+  // Only provided for the video owner.
+  onSaveSettings?: (settings: { startTimecode: string | null; dropFrame: boolean }) => Promise<void>;
+  isDark?: boolean;
+}
+
+const TimecodeControl: React.FC<TimecodeControlProps> = ({
+  currentFrame,
+  totalFrames,
+  format,
+  startTimecode,
+  mode,
+  onToggleMode,
+  onGoToFrame,
+  onSaveSettings,
+  isDark = true,
+}) => {
+  const [gotoDraft, setGotoDraft] = useState('');
+  const [gotoError, setGotoError] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [startDraft, setStartDraft] = useState(startTimecode ?? '');
+  const [dropFrameDraft, setDropFrameDraft] = useState(format.dropFrame);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!settingsOpen) return;
+    setStartDraft(startTimecode ?? '');
+    setDropFrameDraft(format.dropFrame);
+    setSettingsError(null);
+  }, [settingsOpen, startTimecode, format.dropFrame]);
+
+  useEffect(() => {
+    if (!settingsOpen) return;
+    const onDown = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setSettingsOpen(false);
+      }
+    };
+    window.addEventListener('mousedown', onDown);
+    return () => window.removeEventListener('mousedown', onDown);
+  }, [settingsOpen]);
+
+  const submitGoto = (event: React.FormEvent) => {
+    event.preventDefault();
+    const frame = parseTimecodeInput(gotoDraft, format);
+    if (frame === null || frame > totalFrames) {
+      setGotoError(true);
+      return;
+    }
+    setGotoError(false);
+    setGotoDraft('');
+    onGoToFrame(frame);
+  };
+
+  const saveSettings = async () => {
+    if (!onSaveSettings || saving) return;
+    const trimmed = startDraft.trim();
+    const normalized = trimmed ? normalizeTimecode(trimmed, format.fps, dropFrameDraft) : null;
+    if (trimmed && !normalized) {
+      setSettingsError(`Use HH:MM:SS${dropFrameDraft ? ';' : ':'}FF with frames below ${getTimebase(format.fps, dropFrameDraft)}.`);
+      return;
+    }
+    setSaving(true);
+    setSettingsError(null);
+    try {
+      await onSaveSettings({ startTimecode: normalized, dropFrame: dropFrameDraft });
+      setSettingsOpen(false);
+    } catch (err) {
+      setSettingsError(err instanceof Error ? err.message : 'Unable to save timecode settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const chip = isDark ? 'bg-white/10 hover:bg-white/20 text-white/90' : 'bg-gray-100 hover:bg-gray-200 text-gray-900';
+  const input = isDark
+    ? 'bg-black/40 border-white/10 text-white placeholder:text-white/40'
+    : 'bg-white border-gray-200 text-gray-900 placeholder:text-gray-400';
+
+  return (
+    <div className="relative flex items-center gap-2" ref={popoverRef}>
+      <button
+        type="button"
+        onClick={onToggleMode}
+        className={`rounded-full px-3 py-1 font-mono text-xs font-semibold tabular-nums ${chip}`}
+        title={mode === 'timecode' ? 'Showing timecode — click to show frame numbers' : 'Showing frame numbers — click to show timecode'}
+      >
+        {formatFrameLabel(currentFrame, format, mode)}
+      </button>
+      <form onSubmit={submitGoto}>
+        <input
+          value={gotoDraft}
+          onChange={(e) => { setGotoDraft(e.target.value); setGotoError(false); }}
+          placeholder="Go to TC / frame"
+          aria-label="Go to timecode or frame"
+          className={`w-32 rounded-full border px-3 py-1 font-mono text-xs outline-none ${input} ${gotoError ? 'border-red-400' : ''}`}
+        />
+      </form>
+      {onSaveSettings && (
+        <button
+          type="button"
+          onClick={() => setSettingsOpen((s) => !s)}
+          className={`p-1.5 rounded-full ${chip}`}
+          title="Timecode settings"
+          aria-label="Timecode settings"
+        >
+          <Settings2 size={14} />
+        </button>
+      )}
+      {settingsOpen && onSaveSettings && (
+        <div
+          className={`absolute left-0 bottom-full mb-2 w-64 rounded-2xl border p-3 text-xs shadow-2xl z-30 ${
+            isDark ? 'border-white/10 bg-black/85 text-white' : 'border-gray-200 bg-white text-gray-900'
+          }`}
+        >
+          <div className="mb-2 font-semibold">Timecode</div>
+          <label className="block space-y-1">
+            <span className={isDark ? 'text-white/60' : 'text-gray-500'}>Start timecode</span>
+            <input
+              value={startDraft}
+              onChange={(e) => setStartDraft(e.target.value)}
+              placeholder={dropFrameDraft ? '00:00:00;00' : '00:00:00:00'}
+              className={`w-full rounded-lg border px-2 py-1 font-mono outline-none ${input}`}
+            />
+          </label>
+          <label className="mt-2 flex items-center gap-2">
+            <input type="checkbox" checked={dropFrameDraft} onChange={(e) => setDropFrameDraft(e.target.checked)} />
+            <span>Drop-frame (29.97 / 59.94)</span>
+          </label>
+          {settingsError && <div className="mt-2 text-red-400">{settingsError}</div>}
+          <div className="mt-3 flex justify-end gap-2">
+            <button type="button" onClick={() => setSettingsOpen(false)} className={`rounded-full px-3 py-1 font-semibold ${chip}`}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={saveSettings}
+              disabled={saving}
+              className={`rounded-full px-3 py-1 font-semibold disabled:opacity-50 ${isDark ? 'bg-white text-black hover:bg-white/90' : 'bg-black text-white hover:bg-black/90'}`}
+            >
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimecodeControl;
@@ -1,5 +1,9 @@
 import React, { useMemo, useRef, useEffect, useCallback, useState } from 'react';
-import { Video, Annotation, Comment } from '../types';
+import { Video, Annotation, Comment, CommentFrameRange } from '../types';
+import { annotationLastFrame, isAnnotationHeld } from '../utils/annotationHold';
+import { TimecodeDisplayMode, TimecodeFormat, formatFrameLabel } from '../utils/timecode';
+import { DecodedWaveform } from '../utils/waveform';
+import WaveformLane from './WaveformLane';
 
 interface TimelineProps {
   currentTime: number;
@@ -11,13 +15,27 @@ interface TimelineProps {
   isDark?: boolean;
   abLoop?: { a?: number | null; b?: number | null };
   onAbChange?: (which: 'a' | 'b', time: number) => void;
+  timecodeFormat?: TimecodeFormat;
+  frameDisplay?: TimecodeDisplayMode;
+  /** Audio lane under the scrubber; omitted when undefined, `null` while it is being computed. */
+  waveform?: DecodedWaveform | null;
+  /** Range picked for the comment being composed. */
+  commentRange?: CommentFrameRange | null;
+  /**
+   * Enables picking a comment range: Shift-drag on the track, or a plain drag while
+   * `rangeSelecting` is set. Called with null when the drag ends on a single frame.
+   */
+  onCommentRangeChange?: (range: CommentFrameRange | null) => void;
+  rangeSelecting?: boolean;
 }
 
-const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, video, annotations, comments, isDark = true, abLoop, onAbChange }) => {
+const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, video, annotations, comments, isDark = true, abLoop, onAbChange, timecodeFormat, frameDisplay = 'frames', waveform, commentRange = null, onCommentRangeChange, rangeSelecting = false }) => {
   const timelineRef = useRef<HTMLDivElement>(null);
   const [timelineWidth, setTimelineWidth] = useState(0);
   const isSeeking = useRef(false);
   const abDragging = useRef<null | 'a' | 'b'>(null);
+  // Frame the current range drag started on; null when not dragging a range.
+  const rangeOrigin = useRef<number | null>(null);
   // While scrubbing we want the playhead to feel 1:1 with the pointer even if the
   // video decoder can't keep up. We keep a local UI time and throttle actual seeks.
   const [scrubTime, setScrubTime] = useState<number | null>(null);
@@ -29,7 +47,14 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
   const lastSeekEmitRef = useRef<number>(0);
   const SEEK_INTERVAL_MS = 50; // ~20Hz: less thrash, smoother decoder during scrubs
   const scrubTimeRef = useRef<number | null>(null);
+  const lastTouchTimeRef = useRef<number | null>(null);
   useEffect(() => { scrubTimeRef.current = scrubTime; }, [scrubTime]);
+  const lastFrame = Math.max(0, Math.floor(duration * fps) - 1);
+  const rangeFromDrag = useCallback((time: number): CommentFrameRange => {
+    const origin = rangeOrigin.current ?? 0;
+    const frame = Math.max(0, Math.min(lastFrame, Math.floor(time * fps)));
+    return { start: Math.min(origin, frame), end: Math.max(origin, frame) };
+  }, [fps, lastFrame]);
 
   const getTimeFromPosition = useCallback((clientX: number): number => {
     const timeline = timelineRef.current;
@@ -69,6 +94,10 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
         onAbChange(abDragging.current, getTimeFromMouseEvent(e));
         return;
       }
+      if (rangeOrigin.current != null && onCommentRangeChange) {
+        onCommentRangeChange(rangeFromDrag(getTimeFromMouseEvent(e)));
+        return;
+      }
       if (isSeeking.current) {
         const t = getTimeFromMouseEvent(e);
         setScrubTime(t);
@@ -94,7 +123,21 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
       }
     };
 
-    const handleMouseUp = () => {
+    const finishRange = (time: number | null) => {
+      if (rangeOrigin.current == null) return;
+      const range = time == null ? null : rangeFromDrag(time);
+      rangeOrigin.current = null;
+      if (!onCommentRangeChange) return;
+      if (!range || range.end === range.start) {
+        onCommentRangeChange(null);
+        return;
+      }
+      onCommentRangeChange(range);
+      onSeek(range.start / fps);
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      finishRange(getTimeFromMouseEvent(e));
       if (isSeeking.current) {
         isSeeking.current = false;
         // Flush final seek for accurate landing.
@@ -116,6 +159,13 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
         onAbChange(abDragging.current, getTimeFromTouchEvent(e));
         return;
       }
+      if (rangeOrigin.current != null && onCommentRangeChange) {
+        e.preventDefault();
+        const t = getTimeFromTouchEvent(e);
+        lastTouchTimeRef.current = t;
+        onCommentRangeChange(rangeFromDrag(t));
+        return;
+      }
       if (isSeeking.current) {
         e.preventDefault();
         const t = getTimeFromTouchEvent(e);
@@ -142,6 +192,8 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
     };
 
     const handleTouchEnd = () => {
+      // touchend carries no touches, so finish the range where the finger last was.
+      finishRange(lastTouchTimeRef.current);
       if (isSeeking.current) {
         isSeeking.current = false;
         if (seekTimerRef.current != null) {
@@ -173,11 +225,17 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
       }
       pendingSeekTimeRef.current = null;
     };
-  }, [getTimeFromMouseEvent, getTimeFromTouchEvent, onSeek, onAbChange, duration]);
+  }, [getTimeFromMouseEvent, getTimeFromTouchEvent, onSeek, onAbChange, onCommentRangeChange, rangeFromDrag, fps, duration]);
 
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
     const target = e.target as HTMLElement;
     if (target && target.dataset && target.dataset.abHandle) return; // handled by handle element
+    if (onCommentRangeChange && duration > 0 && (rangeSelecting || e.shiftKey)) {
+      const t = getTimeFromMouseEvent(e.nativeEvent);
+      rangeOrigin.current = Math.max(0, Math.min(lastFrame, Math.floor(t * fps)));
+      onCommentRangeChange(rangeFromDrag(t));
+      return;
+    }
     isSeeking.current = true;
     const t = getTimeFromMouseEvent(e.nativeEvent);
     setScrubTime(t);
@@ -189,6 +247,13 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
   const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
     const target = e.target as HTMLElement;
     if (target && (target as any).dataset && (target as any).dataset.abHandle) return;
+    if (onCommentRangeChange && duration > 0 && rangeSelecting) {
+      const t = getTimeFromPosition(e.touches[0].clientX);
+      rangeOrigin.current = Math.max(0, Math.min(lastFrame, Math.floor(t * fps)));
+      lastTouchTimeRef.current = t;
+      onCommentRangeChange(rangeFromDrag(t));
+      return;
+    }
     isSeeking.current = true;
     const t = getTimeFromPosition(e.touches[0].clientX);
     setScrubTime(t);
@@ -237,17 +302,57 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
       });
   }, [annotations, comments, duration, fps]);
 
+  const commentRangeBars = useMemo(() => {
+    const totalFrames = Math.max(1, Math.floor(duration * fps));
+    if (duration <= 0) return [];
+    return comments
+      .filter((c) => !c.parentId && c.frame !== undefined && c.frameEnd !== undefined && c.frameEnd > c.frame)
+      .map((c) => ({
+        id: c.id,
+        start: c.frame!,
+        end: c.frameEnd!,
+        resolved: c.resolved,
+        left: (c.frame! / totalFrames) * 100,
+        width: ((c.frameEnd! + 1 - c.frame!) / totalFrames) * 100,
+      }));
+  }, [comments, duration, fps]);
+  const sketchHoldBars = useMemo(() => {
+    const totalFrames = Math.max(1, Math.floor(duration * fps));
+    if (duration <= 0) return [];
+    return annotations
+      .filter((a) => Number.isFinite(a.frame) && isAnnotationHeld(a))
+      .map((a) => {
+        const end = annotationLastFrame(a);
+        return {
+          id: a.id,
+          start: a.frame,
+          end,
+          keyframed: Boolean(a.keyframes?.length),
+          left: (a.frame / totalFrames) * 100,
+          width: ((end + 1 - a.frame) / totalFrames) * 100,
+        };
+      });
+  }, [annotations, duration, fps]);
+  const totalFramesForRange = Math.max(1, Math.floor(duration * fps));
+
+  const frameLabel = useCallback(
+    (frame: number) => (timecodeFormat ? formatFrameLabel(frame, timecodeFormat, frameDisplay) : String(frame)),
+    [timecodeFormat, frameDisplay],
+  );
+  const showTimecode = frameDisplay === 'timecode' && !!timecodeFormat;
+
   const currentFrameNumber = useMemo(() => Math.max(0, Math.round(displayTime * fps)), [displayTime, fps]);
+  const currentFrameLabel = frameLabel(currentFrameNumber);
   const currentFrameLabelLeftPct = useMemo(() => {
-    // Approximate the label width from the digit count to avoid DOM measuring every frame.
-    const digits = String(currentFrameNumber).length;
+    // Approximate the label width from the character count to avoid DOM measuring every frame.
+    const digits = currentFrameLabel.length;
     const approx = Math.max(32, 16 + digits * 7);
     const w = Math.max(1, timelineWidth);
     const half = Math.min(w / 2, approx / 2);
     const px = (Math.max(0, Math.min(100, progress)) / 100) * w;
     const clamped = Math.max(half, Math.min(w - half, px));
     return (clamped / w) * 100;
-  }, [currentFrameNumber, progress, timelineWidth]);
+  }, [currentFrameLabel, progress, timelineWidth]);
 
   // Build adaptive tick marks so we show ~10 nicely spaced labels
   const tickConfig = useMemo(() => {
@@ -270,7 +375,7 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
     <div className="w-full group px-2 select-none">
       <div 
         ref={timelineRef}
-        className={`relative h-6 rounded-full cursor-pointer ${isDark ? 'bg-black/50' : 'bg-gray-200'}`} 
+        className={`relative h-6 rounded-full ${rangeSelecting ? 'cursor-crosshair' : 'cursor-pointer'} ${isDark ? 'bg-black/50' : 'bg-gray-200'}`} 
         onMouseDown={handleMouseDown}
         onTouchStart={handleTouchStart}
       >
@@ -278,6 +383,35 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
             className={`absolute top-0 left-0 h-full rounded-full ${isDark ? 'bg-white/30' : 'bg-gray-900/20'}`} 
             style={{ width: `${progress}%` }}
         />
+        {/* Range comments: a bar from the first to the last frame */}
+        {commentRangeBars.map(({ id, start, end, resolved, left, width }) => (
+          <div
+            key={`timeline-range-${id}`}
+            className={`absolute bottom-0.5 h-1.5 rounded-full ${resolved ? 'bg-neutral-500/70' : 'bg-black/80'} ${isDark ? 'ring-1 ring-white/40' : 'ring-1 ring-black/10'}`}
+            style={{ left: `${left}%`, width: `${width}%` }}
+            title={`Comment on ${frameLabel(start)}–${frameLabel(end)}`}
+          />
+        ))}
+        {/* Held sketches: a thin bar over the frames they stay on screen */}
+        {sketchHoldBars.map(({ id, start, end, keyframed, left, width }) => (
+          <div
+            key={`timeline-hold-${id}`}
+            className={`absolute top-0.5 h-1 rounded-full ${keyframed ? 'bg-sky-400/70' : 'bg-neutral-500/70'}`}
+            style={{ left: `${left}%`, width: `${width}%` }}
+            title={`Sketch held ${frameLabel(start)}–${frameLabel(end)}${keyframed ? ' (keyframed)' : ''}`}
+          />
+        ))}
+        {/* Range picked for the comment being composed */}
+        {duration > 0 && commentRange && (
+          <div
+            className="absolute inset-y-0 z-20 rounded-sm border-x-2 border-emerald-400 bg-emerald-400/25 pointer-events-none"
+            style={{
+              left: `${(commentRange.start / totalFramesForRange) * 100}%`,
+              width: `${((commentRange.end + 1 - commentRange.start) / totalFramesForRange) * 100}%`,
+            }}
+            title={`New comment on ${frameLabel(commentRange.start)}–${frameLabel(commentRange.end)}`}
+          />
+        )}
         {/* Timeline markers (comments + sketch annotations) */}
         {timelineMarkers.map(({ frame, position, kind }) => {
           const colorClass = kind === 'comment' ? 'bg-black' : 'bg-neutral-500';
@@ -288,7 +422,7 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
               key={`timeline-marker-${frame}-${kind}`}
               className={`absolute left-0 top-1/2 -translate-x-1/2 -translate-y-1/2 h-2 w-2 rounded-full ${colorClass} ${ringClass}`}
               style={{ left: `${position}%` }}
-              title={`${label} at frame ${frame}`}
+              title={showTimecode ? `${label} at ${frameLabel(frame)} (frame ${frame})` : `${label} at frame ${frame}`}
             />
           );
         })}
@@ -304,14 +438,15 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
               className="rounded-md bg-white px-2 py-0.5 text-[10px] font-semibold text-black shadow-md border border-black whitespace-nowrap"
               title={`Frame ${currentFrameNumber}`}
             >
-              {currentFrameNumber}
+              {currentFrameLabel}
             </div>
           </div>
         )}
 
         {/* Adaptive frame ticks and labels */}
         {tickConfig.ticks.map(({ frame, position }, i) => {
-          const labelEvery = timelineWidth < 420 ? 4 : timelineWidth < 768 ? 3 : 2;
+          // Timecode labels are roughly twice as wide as frame numbers.
+          const labelEvery = (timelineWidth < 420 ? 4 : timelineWidth < 768 ? 3 : 2) * (showTimecode ? 2 : 1);
           const showLabel = i % labelEvery === 0;
           return (
           <React.Fragment key={`tick-${frame}-${i}`}>
@@ -324,7 +459,7 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
                 className={`absolute bottom-0 translate-y-[110%] -translate-x-1/2 text-[10px] ${isDark ? 'text-white/60' : 'text-gray-800'}`}
                 style={{ left: `${position}%` }}
               >
-                {frame}
+                {frameLabel(frame)}
               </div>
             )}
           </React.Fragment>
@@ -394,6 +529,17 @@ const Timeline: React.FC<TimelineProps> = ({ currentTime, duration, onSeek, vide
           </>
         )}
       </div>
+      {waveform !== undefined && (
+        <div className="mt-6">
+          <WaveformLane
+            waveform={waveform}
+            currentTime={displayTime}
+            duration={duration}
+            onSeek={onSeek}
+            isDark={isDark}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Annotation, AnnotationTool } from '../types';
-import { MousePointer2, Pen, Square, Circle, MoveUpRight, MessageSquare, Undo, Redo, SquareStack, Droplet, MoreHorizontal, X, Trash2 } from 'lucide-react';
+import { MousePointer2, Pen, Square, Circle, MoveUpRight, MessageSquare, Undo, Redo, SquareStack, Droplet, MoreHorizontal, X, Trash2, Timer, Loader2 } from 'lucide-react';
+import { annotationLastFrame } from '../utils/annotationHold';
 
 interface ToolbarProps {
   activeTool: AnnotationTool;
@@ -26,6 +27,10 @@ interface ToolbarProps {
   isDark?: boolean;
   onOpenCompare?: () => void;
   onOpenReplace?: () => void;
+  /** Hold the selection for N frames, until the next shot change, or (null) on its own frame only. */
+  onSetHold?: (hold: number | 'cut' | null) => void;
+  onClearKeyframes?: () => void;
+  holdBusy?: boolean;
 }
 
 const tools = [
@@ -63,6 +68,9 @@ const Toolbar: React.FC<ToolbarProps> = ({
   isDark = true,
   onOpenCompare,
   onOpenReplace,
+  onSetHold,
+  onClearKeyframes,
+  holdBusy = false,
 }) => {
   
   const isTextTool = activeTool === AnnotationTool.TEXT;
@@ -72,12 +80,32 @@ const Toolbar: React.FC<ToolbarProps> = ({
   const showFillControls = true;
   const showShapePanelControls = showFillControls || showStrokeControls;
   const shapePanelTitle = showFillControls && showStrokeControls ? 'Fill & Stroke' : showFillControls ? 'Fill' : 'Stroke';
-  const [openPanel, setOpenPanel] = React.useState<null | 'style' | 'fill' | 'more'>(null);
+  const [openPanel, setOpenPanel] = React.useState<null | 'style' | 'fill' | 'more' | 'hold'>(null);
   const [mobileOpen, setMobileOpen] = React.useState(false);
   const rootRef = React.useRef<HTMLDivElement>(null);
   const closePanels = () => setOpenPanel(null);
   const closeAll = () => { setOpenPanel(null); setMobileOpen(false); };
   const ActiveToolIcon = tools.find((t) => t.id === activeTool)?.icon ?? MousePointer2;
+  const showHoldControls = Boolean(onSetHold) && selectedAnnotations.length > 0;
+  const selectionHoldFrames = selectedAnnotations.length > 0
+    ? Math.max(...selectedAnnotations.map((a) => annotationLastFrame(a) - a.frame + 1))
+    : 1;
+  const selectionKeyframes = selectedAnnotations.reduce((sum, a) => sum + (a.keyframes?.length ?? 0), 0);
+  const [holdFrames, setHoldFrames] = React.useState(String(selectionHoldFrames));
+
+  React.useEffect(() => {
+    setHoldFrames(String(selectionHoldFrames));
+  }, [selectionHoldFrames]);
+
+  React.useEffect(() => {
+    if (!showHoldControls && openPanel === 'hold') setOpenPanel(null);
+  }, [showHoldControls, openPanel]);
+
+  const applyHoldFrames = () => {
+    const frames = Math.round(Number(holdFrames));
+    if (!Number.isFinite(frames) || frames < 1) return;
+    onSetHold?.(frames);
+  };
 
   React.useEffect(() => {
     const onDocClick = (e: MouseEvent) => {
@@ -169,6 +197,15 @@ const Toolbar: React.FC<ToolbarProps> = ({
               <Droplet size={16} />
             </button>
           )}
+          {showHoldControls && (
+            <button
+              title="Hold"
+              onClick={() => setOpenPanel(openPanel === 'hold' ? null : 'hold')}
+              className={`h-8 w-8 inline-flex items-center justify-center rounded-full ${isDark ? 'hover:bg-white/10' : 'hover:bg-gray-100'}`}
+            >
+              <Timer size={16} />
+            </button>
+          )}
           <button
             title="More"
             onClick={() => setOpenPanel(openPanel === 'more' ? null : 'more')}
@@ -303,6 +340,15 @@ const Toolbar: React.FC<ToolbarProps> = ({
                     <Droplet size={18} />
                   </button>
                 )}
+                {showHoldControls && (
+                  <button
+                    title="Hold"
+                    onClick={() => setOpenPanel(openPanel === 'hold' ? null : 'hold')}
+                    className={`h-10 w-10 inline-flex items-center justify-center rounded-full ${isDark ? 'hover:bg-white/10' : 'hover:bg-gray-100'}`}
+                  >
+                    <Timer size={18} />
+                  </button>
+                )}
                 <button
                   title="More"
                   onClick={() => setOpenPanel(openPanel === 'more' ? null : 'more')}
@@ -412,6 +458,73 @@ const Toolbar: React.FC<ToolbarProps> = ({
         </div>
       )}
 
+      {openPanel === 'hold' && showHoldControls && (
+        <div
+          className={`absolute bottom-full mb-3 left-1/2 -translate-x-1/2 rounded-3xl border shadow-2xl backdrop-blur-md overflow-hidden max-h-[60vh] ${
+            isDark ? 'bg-black/85 border-white/10 text-white' : 'bg-white/95 border-gray-200 text-gray-900'
+          }`}
+        >
+          <div className={`px-4 py-3 flex items-center justify-between ${isDark ? 'bg-white/5 border-b border-white/10' : 'bg-gray-50 border-b border-gray-200'}`}>
+            <span className="text-xs font-semibold uppercase tracking-[0.2em] opacity-70">Hold</span>
+            <button className={`p-1 rounded-full ${isDark ? 'hover:bg-white/10' : 'hover:bg-gray-100'}`} onClick={closePanels}><X size={14} /></button>
+          </div>
+          <div className="p-4 flex flex-col gap-3 min-w-[260px] overflow-y-auto">
+            <div className="flex items-center gap-2">
+              <span className="text-[11px] uppercase opacity-70">Frames</span>
+              <input
+                type="number"
+                min={1}
+                value={holdFrames}
+                onChange={(e) => setHoldFrames(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') applyHoldFrames(); }}
+                disabled={holdBusy}
+                className={`w-20 rounded-lg border px-2 py-1 text-sm tabular-nums ${isDark ? 'bg-white/5 border-white/10' : 'bg-white border-gray-200'}`}
+              />
+              <button
+                onClick={applyHoldFrames}
+                disabled={holdBusy}
+                className={`${isDark ? 'bg-white text-black' : 'bg-black text-gray-50'} px-3 py-1 rounded-full text-xs font-semibold disabled:opacity-40`}
+              >
+                Apply
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onSetHold?.('cut')}
+                disabled={holdBusy}
+                className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold disabled:opacity-40 ${isDark ? 'bg-white/10 text-white/80 hover:bg-white/15' : 'bg-black/5 text-gray-800 hover:bg-black/10'}`}
+              >
+                {holdBusy && <Loader2 size={12} className="animate-spin" />}
+                Until next cut
+              </button>
+              <button
+                onClick={() => onSetHold?.(null)}
+                disabled={holdBusy || selectionHoldFrames <= 1}
+                className={`px-3 py-1 rounded-full text-xs font-semibold disabled:opacity-40 ${isDark ? 'bg-white/10 text-white/80 hover:bg-white/15' : 'bg-black/5 text-gray-800 hover:bg-black/10'}`}
+              >
+                Clear hold
+              </button>
+            </div>
+            <div className={`pt-3 border-t text-xs ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+              <div className="flex items-center justify-between gap-3">
+                <span className="opacity-70">
+                  {selectionKeyframes === 0 ? 'No keyframes' : `${selectionKeyframes} keyframe${selectionKeyframes === 1 ? '' : 's'}`}
+                </span>
+                {onClearKeyframes && selectionKeyframes > 0 && (
+                  <button
+                    onClick={onClearKeyframes}
+                    className={`px-3 py-1 rounded-full font-semibold ${isDark ? 'bg-white/10 text-white/80 hover:bg-white/15' : 'bg-black/5 text-gray-800 hover:bg-black/10'}`}
+                  >
+                    Clear keyframes
+                  </button>
+                )}
+              </div>
+              <p className="mt-1 opacity-50 max-w-[240px]">Move a held shape on a later frame to add a keyframe; it glides between keyframes while playing.</p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {openPanel === 'more' && (
         <div
           className={`absolute bottom-full mb-3 left-1/2 -translate-x-1/2 rounded-3xl border shadow-2xl backdrop-blur-md overflow-hidden max-h-[60vh] ${
@@ -11,6 +11,7 @@ import { UploadState } from "@/types/media";
 import { useCamera } from "@/app/contexts/CameraContext";
 import { uploadFileMultipart } from "@/lib/upload/multipart";
 import { compressImageFile, isCompressibleImage, createImagePreviewDataUrl } from "@/lib/upload/imageCompression";
+import { isSpreadsheetFile, readSpreadsheetFile, spreadsheetToTable } from "@/utils/tableSpreadsheet";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 
@@ -53,7 +54,7 @@ export const UploadOverlay = ({ boardId, userRole }: UploadOverlayProps) => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const isViewer = userRole === "viewer";
   
-  const { handleMediaUploaded, handleFileUploaded } = useMediaUpload({ boardId, camera });
+  const { handleMediaUploaded, handleFileUploaded, insertTableLayerAtViewCenter } = useMediaUpload({ boardId, camera });
   const canUpload = !isViewer;
 
   const createVideoPreviewCapture = async (
@@ -226,7 +227,27 @@ export const UploadOverlay = ({ boardId, userRole }: UploadOverlayProps) => {
       return;
     }
     
-    const filesArray = Array.isArray(files) ? files : Array.from(files ?? []);
+    const droppedFiles = Array.isArray(files) ? files : Array.from(files ?? []);
+    if (droppedFiles.length === 0) return;
+
+    // I fogli di calcolo diventano tabelle sulla board invece di file allegati
+    const spreadsheetFiles = droppedFiles.filter(isSpreadsheetFile);
+    for (const file of spreadsheetFiles) {
+      try {
+        const table = spreadsheetToTable(await readSpreadsheetFile(file), file.name);
+        if (table.rows.length === 0) {
+          toast.error(`${file.name} has no rows to import`);
+          continue;
+        }
+        insertTableLayerAtViewCenter(table);
+        toast.success(`Imported ${file.name} as a table`);
+      } catch (error) {
+        console.error("❌ Error importing spreadsheet:", error);
+        toast.error(`Could not read ${file.name}`);
+      }
+    }
+
+    const filesArray = droppedFiles.filter((file) => !isSpreadsheetFile(file));
     if (filesArray.length === 0) return;
     
     // Throttling: processa massimo 2 file contemporaneamente per evitare race conditions
@@ -457,7 +478,7 @@ export const UploadOverlay = ({ boardId, userRole }: UploadOverlayProps) => {
     
     // Avvia il processing con throttling
     await processFilesWithThrottling(filesArray);
-  }, [boardId, createMedia, handleFileUploaded, handleMediaUploaded, isViewer]);
+  }, [boardId, createMedia, handleFileUploaded, handleMediaUploaded, insertTableLayerAtViewCenter, isViewer]);
   
   const { isDragging } = useDragDropUpload({
     onDrop: handleDrop,
@@ -3,6 +3,7 @@ import {
   Video,
   Annotation,
   Comment,
+  CommentFrameRange,
   AnnotationTool,
   Point,
   RectangleAnnotation,
@@ -10,12 +11,18 @@ import {
   TextAnnotation,
   CurrentUserProfile,
 } from '../types';
+import type { ReviewCommentStatus } from '../types/canvas';
 import VideoPlayer from './VideoPlayer';
 import AnnotationCanvas from './AnnotationCanvas';
 import CommentsPane from './CommentsPane';
+import type { UploadedCommentAttachment } from './CommentAttachments';
+import ApprovalPanel from './ApprovalPanel';
+import TimecodeControl from './TimecodeControl';
+import ExportCommentsModal from './ExportCommentsModal';
 import Toolbar from './Toolbar';
-import { ChevronLeft, ChevronDown, ChevronUp, Eye, EyeOff, Play, Pause, Volume2, VolumeX, SkipBack, SkipForward, StepBack, StepForward, Maximize, Minimize, Share2, PanelRightOpen, PanelRightClose } from 'lucide-react';
+import { ChevronLeft, ChevronDown, ChevronUp, Eye, EyeOff, Play, Pause, Volume2, VolumeX, SkipBack, SkipForward, StepBack, StepForward, Maximize, Minimize, Share2, PanelRightOpen, PanelRightClose, FileDown } from 'lucide-react';
 import Timeline from './Timeline';
+import RevisionNotesOverlay from './RevisionNotesOverlay';
 import { useQuery, useMutation, useAction } from 'convex/react';
 import { api } from '../convex/_generated/api';
 import type { Id } from '../convex/_generated/dataModel';
@@ -23,8 +30,16 @@ import { useThemePreference, ThemePref } from '../useTheme';
 import { ShareModal } from './Dashboard';
 import { useUser } from '@clerk/clerk-react';
 import { compressImageFile } from '../utils/imageCompression';
+import { commentAttachmentError, commentAttachmentKind } from '../utils/commentAttachments';
+import { getRenderedRect } from '../utils/geometry';
+import { TimecodeDisplayMode, formatFrameRate, getTimecodeFormat, secondsToTimecode } from '../utils/timecode';
+import { useVideoWaveforms } from '../hooks/use-video-waveforms';
+import { keyframesWithinHold } from '../utils/annotationHold';
+import { findNextCut } from '../utils/sceneCuts';
+import { toast } from 'sonner';
 
 type CompareMode = 'overlay' | 'side-by-side-horizontal' | 'side-by-side-vertical';
+type CompareBlend = 'normal' | 'difference';
 
 interface ReviewFocusContext {
   commentId?: string | null;
@@ -40,6 +55,8 @@ interface VideoReviewerProps {
   initialFocus?: ReviewFocusContext | null;
   onConsumeInitialFocus?: () => void;
   onOpenEditor?: (compositionId: Id<'compositions'>) => void;
+  /** Set when a guest reviewer opened the video through a share link without signing in. */
+  guest?: { token: string; name: string } | null;
 }
 
 const DEFAULT_COMMENT_POSITION: Point = { x: 0.5, y: 0.5 };
@@ -54,6 +71,16 @@ const loadCommentSeenMap = (videoId: string): Record<string, number> => {
   }
 };
 
+const FRAME_DISPLAY_STORAGE_KEY = 'videoreviewer:frame-display';
+const loadFrameDisplayMode = (): TimecodeDisplayMode => {
+  if (typeof window === 'undefined') return 'frames';
+  try {
+    return window.localStorage.getItem(FRAME_DISPLAY_STORAGE_KEY) === 'timecode' ? 'timecode' : 'frames';
+  } catch {
+    return 'frames';
+  }
+};
+
 const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
 const IMAGE_EXT_RE = /\.(png|jpe?g|gif|webp|avif|bmp|svg)(?:[\?#].*)?$/i;
 const isImageLikePath = (value?: string | null) => {
@@ -121,7 +148,7 @@ const uploadBlobWithProgress = (url: string, blob: Blob, onProgress?: (percent:
     xhr.send(blob);
   });
 
-const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBack, theme = 'system', initialFocus = null, onConsumeInitialFocus, onOpenEditor }) => {
+const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBack, theme = 'system', initialFocus = null, onConsumeInitialFocus, onOpenEditor, guest = null }) => {
   const isDark = useThemePreference(theme);
   const { user: clerkUser, isSignedIn } = useUser();
   const currentUser = useQuery(api.users.current, isSignedIn ? {} : "skip") as
@@ -137,6 +164,9 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     return window.innerWidth >= 768;
   });
   const [pendingComment, setPendingComment] = useState<{ position: Point } | null>(null);
+  // Frame range for the next top-level comment, dragged out on the timeline.
+  const [commentRange, setCommentRange] = useState<CommentFrameRange | null>(null);
+  const [commentRangeSelecting, setCommentRangeSelecting] = useState(false);
 
 
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -199,8 +229,9 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     }
   }, [showAnnotations]);
 
-  const annotationsQuery = useQuery(api.annotations.listByVideo, { videoId });
-  const commentsQuery = useQuery(api.comments.listByVideo, { videoId });
+  const guestToken = guest?.token;
+  const annotationsQuery = useQuery(api.annotations.listByVideo, { videoId, guestToken });
+  const commentsQuery = useQuery(api.comments.listByVideo, { videoId, guestToken });
 
   const createAnnotationMutation = useMutation(api.annotations.create);
   const updateAnnotationMutation = useMutation(api.annotations.update);
@@ -214,7 +245,12 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
   const updateCommentPositionMutation = useMutation(api.comments.updatePosition);
   const updateCommentTextMutation = useMutation(api.comments.updateText);
   const updateCommentFrameMutation = useMutation((api.comments as any).updateFrame);
+  const setCommentStatusMutation = useMutation(api.comments.setStatus);
+  const toggleCommentReactionMutation = useMutation(api.comments.toggleReaction);
+  const updateCommentTaskMutation = useMutation(api.comments.updateTask);
   const getDownloadUrlAction = useAction(api.storage.getDownloadUrl);
+  const waveformSources = useMemo(() => [{ videoId, storageKey: video.storageKey }], [videoId, video.storageKey]);
+  const waveforms = useVideoWaveforms(waveformSources);
   const generateAnnotationAssetUploadUrl = useAction(api.storage.generateAnnotationAssetUploadUrl);
   const syncFriends = useMutation(api.shareGroups.syncFriendsFromGroups);
   // Sharing data (reuse Dashboard flows)
@@ -225,6 +261,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
   const shareToGroup = useMutation(api.shares.shareToGroup);
   const revokeShare = useMutation(api.shares.revoke);
   const [shareOpen, setShareOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const notifications = useQuery(api.notifications.list, {}) as NotificationRecord[] | undefined;
   const markNotificationRead = useMutation(api.notifications.markRead);
   const [commentSeenAt, setCommentSeenAt] = useState<Record<string, number>>(() => loadCommentSeenMap(video.id));
@@ -241,6 +278,22 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
   const [confirmDeleteRevision, setConfirmDeleteRevision] = useState<any | null>(null);
   const [deletingRevision, setDeletingRevision] = useState(false);
   const listRevisions = useQuery(api.videos.listRevisions as any, { videoId: video.id as any }) as Array<any> | undefined;
+  // Every upload of this video, oldest first. Revision rows are written when a source is replaced,
+  // so their createdAt orders them; the current upload is always the newest.
+  const revisionUploads = useMemo(() => {
+    const uploads: Array<{ storageKey: string; fps: number; name: string; label: string }> = [];
+    const history = [...(listRevisions ?? [])]
+      .filter((r) => r.storageKey !== video.storageKey)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    history.forEach((r) => {
+      if (uploads.some((u) => u.storageKey === r.storageKey)) return;
+      uploads.push({ storageKey: r.storageKey, fps: r.fps, name: r.fileName || r.label || 'Previous upload', label: '' });
+    });
+    if (video.storageKey) {
+      uploads.push({ storageKey: video.storageKey, fps: video.fps, name: video.title, label: '' });
+    }
+    return uploads.map((u, idx) => ({ ...u, label: `v${idx + 1}` }));
+  }, [listRevisions, video.storageKey, video.fps, video.title]);
   const replaceSource = useMutation(api.videos.replaceSource as any);
   const deleteRevision = useMutation(api.videos.deleteRevision as any);
   const generateVideoUploadUrl = useAction(api.storage.generateVideoUploadUrl);
@@ -356,6 +409,21 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     } catch {}
   }, [exportsForVideo]);
   const [loopMenuOpen, setLoopMenuOpen] = useState(false);
+  const [frameDisplay, setFrameDisplay] = useState<TimecodeDisplayMode>(loadFrameDisplayMode);
+  const updateTimecodeSettings = useMutation(api.videos.updateTimecodeSettings);
+  const timecodeFormat = useMemo(
+    () => getTimecodeFormat({ fps: video.fps, startTimecode: video.startTimecode, dropFrame: video.dropFrame }),
+    [video.fps, video.startTimecode, video.dropFrame],
+  );
+  const toggleFrameDisplay = useCallback(() => {
+    setFrameDisplay((prev) => {
+      const next: TimecodeDisplayMode = prev === 'timecode' ? 'frames' : 'timecode';
+      try {
+        window.localStorage.setItem(FRAME_DISPLAY_STORAGE_KEY, next);
+      } catch {}
+      return next;
+    });
+  }, []);
   const [effectiveFps, setEffectiveFps] = useState<number>(Math.max(1, Math.floor(video.fps || 24)));
   const [fpsDetected, setFpsDetected] = useState<boolean>(false);
 
@@ -364,17 +432,30 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     setFpsDetected(false);
   }, [video.id, playbackUrl]);
   const [compareModalOpen, setCompareModalOpen] = useState(false);
-  const [compareSource, setCompareSource] = useState<{ url: string; name: string; objectUrl?: boolean } | null>(null);
+  const [compareSource, setCompareSource] = useState<{ url: string; name: string; objectUrl?: boolean; fps?: number } | null>(null);
   const [compareMode, setCompareMode] = useState<CompareMode>('overlay');
   const [compareOpacity, setCompareOpacity] = useState(0.6);
   const [comparePanelCollapsed, setComparePanelCollapsed] = useState(false);
-  const [compareDraft, setCompareDraft] = useState<{ url: string | null; name: string | null; objectUrl?: boolean; mode: CompareMode; opacity: number; offsetFrames: number }>({ url: null, name: null, objectUrl: false, mode: 'overlay', opacity: 0.6, offsetFrames: 0 });
+  const [compareDraft, setCompareDraft] = useState<{ url: string | null; name: string | null; objectUrl?: boolean; mode: CompareMode; opacity: number; offsetFrames: number; revisionBaseKey: string | null; revisionTargetKey: string | null }>({ url: null, name: null, objectUrl: false, mode: 'overlay', opacity: 0.6, offsetFrames: 0, revisionBaseKey: null, revisionTargetKey: null });
   const compareVideoOverlayRef = useRef<HTMLVideoElement>(null);
   const compareVideoSideRef = useRef<HTMLVideoElement>(null);
   const draftUrlRef = useRef<string | null>(null);
   const prevCompareUrlRef = useRef<string | null>(null);
   const appliedFocusRef = useRef<string | null>(null);
   const [compareOffsetFrames, setCompareOffsetFrames] = useState<number>(0);
+  const [compareBlend, setCompareBlend] = useState<CompareBlend>('normal');
+  // Revision compare: the older upload plays as the compare source, the newer one in the main player.
+  const [revisionCompare, setRevisionCompare] = useState<{ baseKey: string; targetKey: string } | null>(null);
+  const [showBaseNotes, setShowBaseNotes] = useState(true);
+  const baseNotes = useQuery(
+    api.revisionNotes.listForSource,
+    revisionCompare ? { videoId, storageKey: revisionCompare.baseKey } : 'skip',
+  );
+  const targetNotes = useQuery(
+    api.revisionNotes.listForSource,
+    revisionCompare ? { videoId, storageKey: revisionCompare.targetKey } : 'skip',
+  );
+  const activeSourceKey = revisionCompare?.targetKey ?? video.storageKey;
   // Use native HTML video loop only in simple single-video mode.
   // Compare mode and A-B loop use manual looping to avoid desync/races.
   const nativeMainLoopEnabled = loopEnabled && !abLoopEnabled && !compareSource;
@@ -780,7 +861,9 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     if (!el) return;
     const fps = Math.max(1, Math.floor(video.fps || 24));
     const offsetSec = Math.max(0, compareOffsetFrames) / fps;
-    const target = Math.max(0, mainTime - offsetSec);
+    // Revisions are aligned by frame number, so a source at another rate is retimed.
+    const compareFps = compareSource?.fps ? Math.max(1, Math.floor(compareSource.fps)) : fps;
+    const target = Math.max(0, (mainTime - offsetSec) * (fps / compareFps));
 
     // Before offset: keep paused at 0 for a clean start
     if (mainTime + 1 / fps < offsetSec) {
@@ -806,7 +889,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
       el.playbackRate = Math.abs(diff) < RATE_EPSILON ? 1.0 : rate;
       if (isPlaying) { const p = el.play(); (p as any)?.catch?.(() => undefined); } else { try { el.pause(); } catch {} }
     }
-  }, [compareOffsetFrames, video.fps, isPlaying]);
+  }, [compareOffsetFrames, compareSource?.fps, video.fps, isPlaying]);
 
   useEffect(() => {
     if (isImageReview) return;
@@ -869,9 +952,11 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
       mode: compareMode,
       opacity: compareOpacity,
       offsetFrames: compareOffsetFrames,
+      revisionBaseKey: revisionCompare?.baseKey ?? null,
+      revisionTargetKey: revisionCompare?.targetKey ?? null,
     });
     setCompareModalOpen(true);
-  }, [isImageReview, compareSource, compareMode, compareOpacity, compareOffsetFrames]);
+  }, [isImageReview, compareSource, compareMode, compareOpacity, compareOffsetFrames, revisionCompare]);
 
   const closeCompareModal = useCallback(() => {
     if (draftUrlRef.current && draftUrlRef.current.startsWith('blob:')) {
@@ -881,7 +966,29 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     setCompareModalOpen(false);
   }, []);
 
+  const startRevisionCompare = useCallback(async (baseKey: string, targetKey: string) => {
+    const base = revisionUploads.find((u) => u.storageKey === baseKey);
+    if (!base || baseKey === targetKey) return;
+    try {
+      const url = await getDownloadUrlAction({ storageKey: baseKey });
+      setCompareSource({ url, name: `${base.label} · ${base.name}`, fps: base.fps });
+      setRevisionCompare({ baseKey, targetKey });
+      setCompareOffsetFrames(0);
+      setShowBaseNotes(true);
+    } catch (error) {
+      console.error('Failed to load revision for compare', error);
+    }
+  }, [revisionUploads, getDownloadUrlAction]);
+
   const applyCompareDraft = useCallback(() => {
+    if (!compareDraft.url && compareDraft.revisionBaseKey && compareDraft.revisionTargetKey) {
+      setCompareMode(compareDraft.mode);
+      setCompareOpacity(compareDraft.opacity);
+      void startRevisionCompare(compareDraft.revisionBaseKey, compareDraft.revisionTargetKey);
+      setCompareModalOpen(false);
+      return;
+    }
+    setRevisionCompare(null);
     if (compareDraft.url) {
       setCompareSource({
         url: compareDraft.url,
@@ -903,13 +1010,44 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     }
 
     setCompareModalOpen(false);
-  }, [compareDraft]);
+  }, [compareDraft, startRevisionCompare]);
 
   const clearCompare = useCallback(() => {
     setCompareSource(null);
+    setRevisionCompare(null);
     setCompareModalOpen(false);
   }, []);
 
+  useEffect(() => {
+    if (!compareSource) setRevisionCompare(null);
+  }, [compareSource]);
+
+  // The main player shows the newer revision while comparing; the current upload comes back afterwards.
+  const revisionTargetKey = revisionCompare?.targetKey ?? null;
+  useEffect(() => {
+    if (!revisionTargetKey || revisionTargetKey === video.storageKey) return;
+    let cancelled = false;
+    void (async () => {
+      try {
+        const url = await getDownloadUrlAction({ storageKey: revisionTargetKey });
+        if (!cancelled) { setPlaybackUrl(url); setPlaybackKind('signed'); setPlaybackAttempt(0); }
+      } catch (error) {
+        console.error('Failed to load revision for playback', error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      if (sourceUrl) {
+        setPlaybackUrl(sourceUrl); setPlaybackKind('provided'); setPlaybackAttempt(0);
+        return;
+      }
+      void getDownloadUrlAction({ storageKey: video.storageKey })
+        .then((url) => { setPlaybackUrl(url); setPlaybackKind('signed'); setPlaybackAttempt(0); })
+        .catch(() => { setPlaybackUrl(video.src); setPlaybackKind('public'); setPlaybackAttempt(0); });
+    };
+  }, [revisionTargetKey, video.storageKey, video.src, sourceUrl, getDownloadUrlAction]);
+
+
   const handleCompareFileChange = useCallback((file: File | null) => {
     if (draftUrlRef.current && draftUrlRef.current.startsWith('blob:')) {
       URL.revokeObjectURL(draftUrlRef.current);
@@ -921,7 +1059,21 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     }
     const objectUrl = URL.createObjectURL(file);
     draftUrlRef.current = objectUrl;
-    setCompareDraft(prev => ({ ...prev, url: objectUrl, name: file.name, objectUrl: true }));
+    setCompareDraft(prev => ({ ...prev, url: objectUrl, name: file.name, objectUrl: true, revisionBaseKey: null, revisionTargetKey: null }));
+  }, []);
+
+  const handleDraftRevisionChange = useCallback((which: 'base' | 'target', storageKey: string | null) => {
+    if (draftUrlRef.current && draftUrlRef.current.startsWith('blob:')) {
+      URL.revokeObjectURL(draftUrlRef.current);
+      draftUrlRef.current = null;
+    }
+    setCompareDraft(prev => ({
+      ...prev,
+      url: null,
+      name: null,
+      objectUrl: false,
+      ...(which === 'base' ? { revisionBaseKey: storageKey } : { revisionTargetKey: storageKey }),
+    }));
   }, []);
 
   const handleDraftModeChange = useCallback((mode: CompareMode) => {
@@ -946,12 +1098,44 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     parentId: doc.parentId ?? undefined,
     text: doc.text,
     frame: doc.frame ?? undefined,
+    frameEnd: doc.frameEnd ?? undefined,
     resolved: doc.resolved,
     createdAt: new Date(doc.createdAt ?? Date.now()).toISOString(),
     updatedAt: doc.updatedAt ?? doc.createdAt ?? Date.now(),
     position: doc.position ?? undefined,
+    isGuest: doc.isGuest ?? false,
+    status: doc.status ?? undefined,
+    assigneeId: doc.assigneeId ?? undefined,
+    assigneeName: doc.assigneeName ?? undefined,
+    dueDate: doc.dueDate ?? undefined,
+    reactions: doc.reactions ?? [],
+    attachments: doc.attachments ?? undefined,
   }), []);
 
+  // While comparing revisions the stage shows only the newer revision's own notes;
+  // the older revision's notes are drawn by RevisionNotesOverlay.
+  const stageAnnotations = useMemo(() => {
+    if (!revisionCompare || !targetNotes) return annotations;
+    const ids = new Set(targetNotes.annotations.map((a: any) => a.id as string));
+    return annotations.filter((a) => a.id.startsWith('client-') || ids.has(a.id));
+  }, [annotations, revisionCompare, targetNotes]);
+  const stageComments = useMemo(() => {
+    if (!revisionCompare || !targetNotes) return comments;
+    const ids = new Set(targetNotes.comments.map((c: any) => c.id as string));
+    return comments.filter((c) => ids.has(c.id));
+  }, [comments, revisionCompare, targetNotes]);
+  const baseRevisionLabel = revisionCompare
+    ? revisionUploads.find((u) => u.storageKey === revisionCompare.baseKey)?.label ?? 'Older'
+    : '';
+  const baseNoteComments = useMemo(
+    () => (baseNotes?.comments ?? []).map(convertCommentFromServer),
+    [baseNotes, convertCommentFromServer],
+  );
+  const baseNoteAnnotations = useMemo(
+    () => (baseNotes?.annotations ?? []).map(convertAnnotationFromServer),
+    [baseNotes, convertAnnotationFromServer],
+  );
+
   const serializeAnnotationForMutation = useCallback((annotation: Annotation) => {
     const { id, videoId: _videoId, authorId, createdAt, ...rest } = annotation as any;
     return rest;
@@ -1148,6 +1332,90 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
 	    };
 	  }, []);
 
+  const annotatedFrames = useMemo(
+    () => Array.from(new Set(annotations.map((annotation) => annotation.frame))),
+    [annotations],
+  );
+
+  const buildCommentReviewUrl = useCallback(
+    (comment: Comment) => {
+      const params = new URLSearchParams({ comment: comment.id });
+      if (typeof comment.frame === 'number') params.set('frame', String(comment.frame));
+      return `${window.location.origin}/review/${video.id}?${params.toString()}`;
+    },
+    [video.id],
+  );
+
+  // Seeks to each frame, composites the video frame with the annotation layer and uploads a JPEG.
+  const captureAnnotatedThumbnails = useCallback(
+    async (frames: number[], onProgress: (done: number) => void) => {
+      const el = videoRef.current;
+      if (!el) throw new Error('Video is not ready yet.');
+      const fpsCanonical = Math.max(1, Math.floor(video.fps || 24));
+      const restoreTime = el.currentTime;
+      const nextFrame = () => new Promise<void>((resolve) => window.requestAnimationFrame(() => resolve()));
+      const results: Record<number, string> = {};
+      setIsPlaying(false);
+      setShowAnnotations(true);
+      try {
+        for (let i = 0; i < frames.length; i++) {
+          const frame = frames[i];
+          await new Promise<void>((resolve) => {
+            const done = () => {
+              el.removeEventListener('seeked', done);
+              resolve();
+            };
+            el.addEventListener('seeked', done);
+            el.currentTime = frame / fpsCanonical;
+          });
+          setCurrentTime(frame / fpsCanonical);
+          setCurrentFrame(frame);
+          // Let React commit the frame change and the annotation canvas redraw.
+          await nextFrame();
+          await nextFrame();
+
+          const maxWidth = 960;
+          const scale = Math.min(1, maxWidth / Math.max(1, el.videoWidth || video.width));
+          const width = Math.max(1, Math.round((el.videoWidth || video.width) * scale));
+          const height = Math.max(1, Math.round((el.videoHeight || video.height) * scale));
+          const canvas = document.createElement('canvas');
+          canvas.width = width;
+          canvas.height = height;
+          const ctx = canvas.getContext('2d');
+          if (!ctx) throw new Error('Canvas is not supported in this browser.');
+          ctx.drawImage(el, 0, 0, width, height);
+          const layer = containerRef.current?.querySelector<HTMLCanvasElement>('canvas[data-annotation-layer]');
+          if (layer && layer.width > 0 && layer.height > 0) {
+            const rect = getRenderedRect({
+              containerWidth: layer.width,
+              containerHeight: layer.height,
+              videoWidth: video.width,
+              videoHeight: video.height,
+            });
+            ctx.drawImage(layer, rect.x, rect.y, rect.width, rect.height, 0, 0, width, height);
+          }
+          const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob((b) => resolve(b), 'image/jpeg', 0.85));
+          if (!blob) throw new Error('Unable to capture frame thumbnail.');
+
+          const uploadDetails = await generateAnnotationAssetUploadUrl({
+            contentType: 'image/jpeg',
+            fileName: `frame-${frame}.jpg`,
+            videoId: video.id as Id<'videos'>,
+            assetType: 'image',
+          });
+          if (!uploadDetails) throw new Error('Unable to obtain upload credentials');
+          await uploadBlobWithProgress(uploadDetails.uploadUrl, blob);
+          results[frame] = uploadDetails.publicUrl;
+          onProgress(i + 1);
+        }
+      } finally {
+        applySeek(restoreTime);
+      }
+      return results;
+    },
+    [applySeek, generateAnnotationAssetUploadUrl, video.fps, video.height, video.id, video.width],
+  );
+
   const handleAddAnnotation = useCallback((newAnnotation: Omit<Annotation, 'id' | 'videoId' | 'authorId' | 'createdAt'>) => {
     const frameAnnotations = annotations.filter((annotation) => annotation.frame === newAnnotation.frame);
     const maxLayer = frameAnnotations.reduce((max, annotation, index) => {
@@ -1176,6 +1444,8 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
         const created = await createAnnotationMutation({
           videoId,
           annotation: annotationPayload as any,
+          sourceStorageKey: activeSourceKey,
+          guestToken,
         });
         const real = convertAnnotationFromServer(created);
         setAnnotations(prev => prev.map(a => (a.id === tempId ? real : a)));
@@ -1191,7 +1461,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
       }
     })();
     return tempId;
-  }, [annotations, createAnnotationMutation, videoId, convertAnnotationFromServer, video.id, pushHistory]);
+  }, [activeSourceKey, annotations, createAnnotationMutation, guestToken, videoId, convertAnnotationFromServer, video.id, pushHistory]);
 
   const copySelectedAnnotations = useCallback(() => {
     if (selectedAnnotations.length === 0) return;
@@ -1296,6 +1566,55 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     [annotations, selectedAnnotationIds, handleUpdateAnnotations],
   );
 
+  const [holdBusy, setHoldBusy] = useState(false);
+
+  const handleSetAnnotationHold = useCallback(
+    async (hold: number | 'cut' | null) => {
+      const selectedSet = new Set(selectedAnnotationIds);
+      const targets = annotations.filter((annotation) => selectedSet.has(annotation.id));
+      if (targets.length === 0) return;
+      const applyEnd = (lastFrameFor: (annotation: Annotation) => number | undefined) => {
+        patchSelectedAnnotations((annotation) => {
+          const end = lastFrameFor(annotation);
+          const frameEnd = end !== undefined && end > annotation.frame ? end : undefined;
+          if (frameEnd === annotation.frameEnd) return null;
+          const next = { ...annotation, frameEnd };
+          return { ...next, keyframes: keyframesWithinHold(next) };
+        });
+      };
+      if (hold === null) {
+        applyEnd(() => undefined);
+        return;
+      }
+      if (hold !== 'cut') {
+        applyEnd((annotation) => annotation.frame + Math.max(1, Math.round(hold)) - 1);
+        return;
+      }
+      const src = playbackUrl ?? sourceUrl ?? video.src;
+      const fps = Math.max(1, Math.floor(video.fps || 24));
+      const fromFrame = Math.min(...targets.map((annotation) => annotation.frame));
+      setHoldBusy(true);
+      try {
+        const cut = await findNextCut(src, { fromFrame, fps });
+        if (cut === null) {
+          toast.error('No shot change found in the next 10 seconds');
+          return;
+        }
+        applyEnd(() => cut - 1);
+      } catch (error) {
+        console.error('Failed to find next cut', error);
+        toast.error('Could not scan the video for shot changes');
+      } finally {
+        setHoldBusy(false);
+      }
+    },
+    [annotations, selectedAnnotationIds, patchSelectedAnnotations, playbackUrl, sourceUrl, video.src, video.fps],
+  );
+
+  const handleClearKeyframes = useCallback(() => {
+    patchSelectedAnnotations((annotation) => (annotation.keyframes?.length ? { ...annotation, keyframes: undefined } : null));
+  }, [patchSelectedAnnotations]);
+
   const handleDeleteAnnotations = useCallback((ids: string[]) => {
     if (ids.length === 0) return;
     const shouldRecord = historyRecordingRef.current;
@@ -1557,20 +1876,55 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     }
   }, [activeTool, selectedAnnotations, setBrushColorState, setBrushSizeState, setFontSize]);
 
-  const handleAddComment = useCallback((text: string, parentId?: string) => {
+  const uploadCommentAttachment = useCallback(
+    async (file: File): Promise<UploadedCommentAttachment> => {
+      const kind = commentAttachmentKind(file.type);
+      const problem = commentAttachmentError(file.type, file.size);
+      if (!kind || problem) {
+        throw new Error(problem ?? 'Unsupported file');
+      }
+      const uploadDetails = await generateAnnotationAssetUploadUrl({
+        contentType: file.type,
+        fileName: file.name,
+        videoId: video.id as Id<'videos'>,
+        assetType: kind === 'pdf' ? 'file' : kind,
+        contentLength: file.size,
+      });
+      if (!uploadDetails) {
+        throw new Error('Unable to obtain upload credentials');
+      }
+      await uploadBlobWithProgress(uploadDetails.uploadUrl, file, () => {});
+      return {
+        storageKey: uploadDetails.storageKey,
+        url: uploadDetails.publicUrl,
+        name: file.name,
+        mimeType: file.type,
+        size: file.size,
+      };
+    },
+    [generateAnnotationAssetUploadUrl, video.id],
+  );
+
+  const handleAddComment = useCallback((text: string, parentId?: string, attachments?: UploadedCommentAttachment[]) => {
     const pendingPosition = pendingComment?.position;
     const fallbackPosition = !parentId && !pendingPosition ? DEFAULT_COMMENT_POSITION : undefined;
     const positionToSend = pendingPosition ?? fallbackPosition;
+    const range = parentId ? null : commentRange;
     void (async () => {
       try {
         const created = await createCommentMutation({
           videoId,
           text,
           parentId: parentId ? (parentId as Id<'comments'>) : undefined,
-          frame: isNaN(currentFrame) ? undefined : currentFrame,
+          frame: range ? range.start : isNaN(currentFrame) ? undefined : currentFrame,
+          frameEnd: range ? range.end : undefined,
           position: positionToSend,
+          sourceStorageKey: activeSourceKey,
+          guestToken,
+          attachments: attachments && attachments.length > 0 ? attachments : undefined,
         });
         setPendingComment(null);
+        if (range) setCommentRange(null);
         const mapped = convertCommentFromServer(created);
         setComments(prev => [...prev, mapped]);
         if (pendingPosition) {
@@ -1583,19 +1937,46 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
         console.error('Failed to add comment', error);
       }
     })();
-  }, [convertCommentFromServer, createCommentMutation, currentFrame, markCommentSeen, pendingComment, resolveRootCommentId, videoId]);
+  }, [activeSourceKey, commentRange, convertCommentFromServer, createCommentMutation, currentFrame, guestToken, markCommentSeen, pendingComment, resolveRootCommentId, videoId]);
   
   const handleToggleCommentResolved = useCallback((id: string) => {
     void (async () => {
       try {
         await toggleCommentResolvedMutation({ commentId: id as Id<'comments'> });
-        setComments(prev => prev.map(c => c.id === id ? { ...c, resolved: !c.resolved } : c));
+        setComments(prev => prev.map(c => c.id === id ? { ...c, resolved: !c.resolved, status: c.resolved ? 'open' : 'resolved' } : c));
       } catch (error) {
         console.error('Failed to toggle comment resolution', error);
       }
     })();
   }, [toggleCommentResolvedMutation]);
 
+  const handleSetCommentStatus = useCallback((id: string, status: ReviewCommentStatus) => {
+    void (async () => {
+      try {
+        await setCommentStatusMutation({ commentId: id as Id<'comments'>, status });
+        setComments(prev => prev.map(c => c.id === id ? { ...c, status, resolved: status === 'resolved' } : c));
+      } catch (error) {
+        console.error('Failed to update comment status', error);
+      }
+    })();
+  }, [setCommentStatusMutation]);
+
+  const handleToggleCommentReaction = useCallback((id: string, emoji: string) => {
+    void toggleCommentReactionMutation({ commentId: id as Id<'comments'>, emoji }).catch((error) => {
+      console.error('Failed to toggle reaction', error);
+    });
+  }, [toggleCommentReactionMutation]);
+
+  const handleUpdateCommentTask = useCallback((id: string, task: { assigneeId?: string | null; dueDate?: string | null }) => {
+    void updateCommentTaskMutation({
+      commentId: id as Id<'comments'>,
+      assigneeId: task.assigneeId === undefined ? undefined : (task.assigneeId as Id<'users'> | null),
+      dueDate: task.dueDate,
+    }).catch((error) => {
+      console.error('Failed to update comment task', error);
+    });
+  }, [updateCommentTaskMutation]);
+
   const handleEditCommentText = useCallback((id: string, text: string) => {
     const trimmed = text.trim();
     if (!trimmed) return;
@@ -1714,10 +2095,30 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     handleSeek(safeFrame / safeFps);
   };
 
+  // Range notes play through the A–B loop, so the loop menu and handles work on them as usual.
+  const playCommentRange = (comment: Comment) => {
+    if (isImageReview || comment.frame === undefined || comment.frameEnd === undefined) return;
+    const safeFps = Math.max(1, Math.floor(Number(video.fps) || 24));
+    const a = comment.frame / safeFps;
+    const b = (comment.frameEnd + 1) / safeFps;
+    setAbA(a);
+    setAbB(duration > 0 ? Math.min(duration, b) : b);
+    setAbLoopEnabled(true);
+    handleSeek(a);
+    setIsPlaying(true);
+  };
+
+  const handleCommentRangeChange = useCallback((range: CommentFrameRange | null) => {
+    setCommentRange(range);
+    setCommentRangeSelecting(false);
+  }, []);
+
   useEffect(() => {
     setHighlightedCommentId(null);
     setMentionHighlight(null);
     setActiveCommentPopoverId(null);
+    setCommentRange(null);
+    setCommentRangeSelecting(false);
     appliedFocusRef.current = null;
   }, [video.id]);
 
@@ -2053,8 +2454,8 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     await shareToGroup({ groupId: groupId as any, videoId: video.id as any, allowDownload, allowComments });
   }, [shareToGroup, video.id]);
 
-  const handleGenerateLink = useCallback(async ({ allowDownload, allowComments }: { allowDownload: boolean; allowComments: boolean; }) => {
-    const token = await generateShareLink({ videoId: video.id as any, allowDownload, allowComments });
+  const handleGenerateLink = useCallback(async ({ allowDownload, allowComments, password, maxViews }: { allowDownload: boolean; allowComments: boolean; password?: string; maxViews?: number; }) => {
+    const token = await generateShareLink({ videoId: video.id as any, allowDownload, allowComments, password, maxViews });
     return token;
   }, [generateShareLink, video.id]);
 
@@ -2068,6 +2469,18 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
     return `${m}:${s}`;
   }, []);
   
+  const formatLoopPoint = useCallback(
+    (secs: number) => (frameDisplay === 'timecode' ? secondsToTimecode(secs, timecodeFormat) : formatClock(secs)),
+    [frameDisplay, timecodeFormat, formatClock],
+  );
+
+  const handleSaveTimecodeSettings = useCallback(
+    async ({ startTimecode, dropFrame }: { startTimecode: string | null; dropFrame: boolean }) => {
+      await updateTimecodeSettings({ videoId: video.id as Id<'videos'>, startTimecode, dropFrame });
+    },
+    [updateTimecodeSettings, video.id],
+  );
+
   const headerDuration = Number.isFinite(video.duration) && video.duration > 0 ? video.duration : (duration || 0);
   const headerMeta = isImageReview
     ? `${video.width}×${video.height} • Image`
@@ -2256,7 +2669,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
               <div className={`${isDark ? 'bg-white/5 border-white/10' : 'bg-gray-50 border-gray-200'} rounded-2xl border p-4 space-y-3`}>
                 <div className="font-semibold mb-2">Current</div>
                 <div className="space-y-1 text-xs opacity-80">
-                  <div>{video.width}×{video.height} • {video.fps} fps • {Math.round(video.duration)}s</div>
+                  <div>{video.width}×{video.height} • {formatFrameRate(video.fps)} fps • {Math.round(video.duration)}s</div>
                   <div>Uploaded {new Date(video.uploadedAt).toLocaleString()}</div>
                 </div>
                 <div className="mt-3">
@@ -2272,7 +2685,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                         const meta = await (async () => new Promise<{width:number;height:number;fps:number;duration:number}>((resolve, reject) => {
                           const el = document.createElement('video');
                           el.preload = 'metadata';
-                          el.onloadedmetadata = () => { resolve({ width: el.videoWidth, height: el.videoHeight, fps: Math.max(1, Math.floor(video.fps || 24)), duration: el.duration }); URL.revokeObjectURL(el.src); };
+                          el.onloadedmetadata = () => { resolve({ width: el.videoWidth, height: el.videoHeight, fps: video.fps || 24, duration: el.duration }); URL.revokeObjectURL(el.src); };
                           el.onerror = () => { URL.revokeObjectURL(el.src); reject(new Error('Unable to read video metadata.')); };
                           el.src = URL.createObjectURL(file);
                         }))();
@@ -2302,7 +2715,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                           });
                           result = { storageKey: creds.storageKey, publicUrl: creds.publicUrl };
                         }
-                        await replaceSource({ videoId: video.id as any, storageKey: result.storageKey, publicUrl: result.publicUrl, width: Math.max(1, Math.floor(meta.width)), height: Math.max(1, Math.floor(meta.height)), fps: Math.max(1, Math.floor(meta.fps)), duration: Math.max(0, Math.round(meta.duration)), newTitle: file.name });
+                        await replaceSource({ videoId: video.id as any, storageKey: result.storageKey, publicUrl: result.publicUrl, width: Math.max(1, Math.floor(meta.width)), height: Math.max(1, Math.floor(meta.height)), fps: meta.fps > 0 ? meta.fps : 24, duration: Math.max(0, Math.round(meta.duration)), newTitle: file.name });
                         // Immediately use the new public URL to avoid long loading while queries refresh
                         setPlaybackUrl(result.publicUrl);
                         setPlaybackKind('public');
@@ -2327,7 +2740,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                     <div className="px-3 pb-3 pt-1 flex items-center justify-between text-xs opacity-90">
                       <div className="space-y-1">
                         <div>Resolution: {video.width}×{video.height}</div>
-                        <div>Frame rate: {video.fps} fps</div>
+                        <div>Frame rate: {formatFrameRate(video.fps)} fps</div>
                         <div>Duration: {Math.round(video.duration)}s</div>
                         <div>Uploaded: {new Date(video.uploadedAt).toLocaleString()}</div>
                       </div>
@@ -2362,7 +2775,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                       <div className="px-3 pb-3 pt-1 flex items-center justify-between text-xs opacity-90">
                         <div className="space-y-1">
                           <div>Resolution: {rev.width}×{rev.height}</div>
-                          <div>Frame rate: {rev.fps} fps</div>
+                          <div>Frame rate: {formatFrameRate(rev.fps)} fps</div>
                           <div>Duration: {Math.round(rev.duration)}s</div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -2429,8 +2842,11 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                 canUndo={canUndo}
                 canRedo={canRedo}
                 isDark={isDark}
-                onOpenCompare={isImageReview ? undefined : openCompareModal}
+                onOpenCompare={isImageReview || guest ? undefined : openCompareModal}
                 onOpenReplace={!isImageReview && video.isOwnedByCurrentUser ? () => setReplaceOpen(true) : undefined}
+                onSetHold={isImageReview ? undefined : handleSetAnnotationHold}
+                onClearKeyframes={isImageReview ? undefined : handleClearKeyframes}
+                holdBusy={holdBusy}
               />
 			              <div className={`w-full h-full relative overflow-hidden ${ui.stageBg}`}>
 			                <div className="absolute inset-0 flex items-center justify-center">
@@ -2488,8 +2904,8 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                     isPlaying={isPlaying}
                     setIsPlaying={setIsPlaying}
                     onTimeUpdate={handleTimeUpdate}
-                    annotations={showAnnotations ? annotations : []}
-                    comments={comments}
+                    annotations={showAnnotations ? stageAnnotations : []}
+                    comments={stageComments}
                     onSeek={handleSeek}
                     currentFrame={currentFrame}
                     externalControls
@@ -2500,7 +2916,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                     video={video}
                     videoElement={videoRef.current}
                     currentFrame={currentFrame}
-                    annotations={showAnnotations ? annotations : []}
+                    annotations={showAnnotations ? stageAnnotations : []}
                     onAddAnnotation={handleAddAnnotation}
                     onUpdateAnnotations={handleUpdateAnnotations}
                     onDeleteAnnotations={handleDeleteAnnotations}
@@ -2512,7 +2928,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                     shapeFillOpacity={shapeFillOpacity}
                     selectedAnnotationIds={selectedAnnotationIds}
                     setSelectedAnnotationIds={setSelectedAnnotationIds}
-                    comments={comments}
+                    comments={stageComments}
                     activeCommentId={activeCommentId}
                     onCommentPlacement={handleCommentPlacement}
                     activeCommentPopoverId={activeCommentPopoverId}
@@ -2529,6 +2945,16 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                     threadMeta={commentThreadMeta}
                     mentionOptions={mentionableOptions ?? []}
 	                  />
+                  {revisionCompare && showAnnotations && showBaseNotes && (
+                    <RevisionNotesOverlay
+                      video={video}
+                      currentFrame={currentFrame}
+                      annotations={baseNoteAnnotations}
+                      comments={baseNoteComments}
+                      label={baseRevisionLabel}
+                      onSelectComment={(comment) => setActiveCommentId(comment.id)}
+                    />
+                  )}
 	                </div>
 		                <div className={`relative flex-1 min-w-0 flex items-center justify-center overflow-hidden ${ui.stageBg}`}>
 		                  <video
@@ -2561,8 +2987,8 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                   isPlaying={isPlaying}
                   setIsPlaying={setIsPlaying}
                   onTimeUpdate={handleTimeUpdate}
-                  annotations={showAnnotations ? annotations : []}
-                  comments={comments}
+                  annotations={showAnnotations ? stageAnnotations : []}
+                  comments={stageComments}
                   onSeek={handleSeek}
                   currentFrame={currentFrame}
                   externalControls
@@ -2574,7 +3000,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                   video={video}
                   videoElement={videoRef.current}
                   currentFrame={currentFrame}
-                  annotations={showAnnotations ? annotations : []}
+                  annotations={showAnnotations ? stageAnnotations : []}
                   onAddAnnotation={handleAddAnnotation}
                   onUpdateAnnotations={handleUpdateAnnotations}
                   onDeleteAnnotations={handleDeleteAnnotations}
@@ -2586,7 +3012,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                   shapeFillOpacity={shapeFillOpacity}
                   selectedAnnotationIds={selectedAnnotationIds}
                   setSelectedAnnotationIds={setSelectedAnnotationIds}
-                  comments={showAnnotations ? comments : []}
+                  comments={showAnnotations ? stageComments : []}
                   activeCommentId={activeCommentId}
                   onCommentPlacement={handleCommentPlacement}
                   activeCommentPopoverId={activeCommentPopoverId}
@@ -2603,13 +3029,23 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                   threadMeta={commentThreadMeta}
                   mentionOptions={mentionableOptions ?? []}
                 />
+                {revisionCompare && showAnnotations && showBaseNotes && (
+                  <RevisionNotesOverlay
+                    video={video}
+                    currentFrame={currentFrame}
+                    annotations={baseNoteAnnotations}
+                    comments={baseNoteComments}
+                    label={baseRevisionLabel}
+                    onSelectComment={(comment) => setActiveCommentId(comment.id)}
+                  />
+                )}
                 {compareSource && compareMode === 'overlay' && (
                   <video
                     key={`cmp-overlay-${compareMode}-${compareSource.url}`}
                     ref={compareVideoOverlayRef}
                     src={compareSource.url}
                     className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-                    style={{ opacity: compareOpacity }}
+                    style={compareBlend === 'difference' ? { mixBlendMode: 'difference' } : { opacity: compareOpacity }}
                     preload="metadata"
                     muted
                     playsInline
@@ -2695,6 +3131,31 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                     </button>
                     </div>
                     {compareMode === 'overlay' && (
+                      <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                        <span className={`${isDark ? 'text-white/70' : 'text-gray-600'}`}>Blend</span>
+                        <button
+                          onClick={() => setCompareBlend('normal')}
+                          className={`${compareBlend === 'normal'
+                            ? (isDark ? 'bg-white/20 text-white' : 'bg-black/10 text-gray-900')
+                            : (isDark ? 'bg-white/10 text-white/70 hover:bg-white/20' : 'bg-black/5 text-gray-700 hover:bg-black/10')}
+                            px-2.5 py-1 rounded-full text-[11px] font-semibold`}
+                          title="Blend with opacity"
+                        >
+                          Normal
+                        </button>
+                        <button
+                          onClick={() => setCompareBlend('difference')}
+                          className={`${compareBlend === 'difference'
+                            ? (isDark ? 'bg-white/20 text-white' : 'bg-black/10 text-gray-900')
+                            : (isDark ? 'bg-white/10 text-white/70 hover:bg-white/20' : 'bg-black/5 text-gray-700 hover:bg-black/10')}
+                            px-2.5 py-1 rounded-full text-[11px] font-semibold`}
+                          title="Pixel difference: unchanged areas turn black"
+                        >
+                          Difference
+                        </button>
+                      </div>
+                    )}
+                    {compareMode === 'overlay' && compareBlend === 'normal' && (
                       <div>
                         <label className="flex items-center justify-between text-[11px] uppercase gap-3">
                           <span className={`${isDark ? 'text-white/60' : 'text-gray-600'}`}>Opacity</span>
@@ -2743,6 +3204,52 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                         </button>
                       </div>
                     </div>
+                    {revisionCompare && (
+                      <div>
+                        <div className="flex items-center justify-between gap-3">
+                          <span className={`text-[11px] uppercase ${isDark ? 'text-white/60' : 'text-gray-600'}`}>
+                            Notes from {baseRevisionLabel}
+                            {baseNotes && ` · ${baseNoteComments.filter((c) => !c.parentId && c.resolved).length}/${baseNoteComments.filter((c) => !c.parentId).length} resolved`}
+                          </span>
+                          <label className={`flex items-center gap-1.5 text-[11px] ${isDark ? 'text-white/70' : 'text-gray-700'}`}>
+                            <input
+                              type="checkbox"
+                              checked={showBaseNotes}
+                              onChange={(e) => setShowBaseNotes(e.target.checked)}
+                              className={isDark ? 'accent-white' : 'accent-black'}
+                            />
+                            Show
+                          </label>
+                        </div>
+                        <ul className="mt-2 space-y-1">
+                          {baseNotes === undefined && (
+                            <li className={`text-[11px] ${isDark ? 'text-white/50' : 'text-gray-500'}`}>Loading…</li>
+                          )}
+                          {baseNotes && baseNoteComments.filter((c) => !c.parentId).length === 0 && (
+                            <li className={`text-[11px] ${isDark ? 'text-white/50' : 'text-gray-500'}`}>No comments on this revision.</li>
+                          )}
+                          {baseNoteComments.filter((c) => !c.parentId).map((comment) => (
+                            <li key={`base-note-${comment.id}`} className="flex items-start gap-2 text-[11px]">
+                              <input
+                                type="checkbox"
+                                checked={comment.resolved}
+                                onChange={() => handleToggleCommentResolved(comment.id)}
+                                className={`mt-0.5 ${isDark ? 'accent-white' : 'accent-black'}`}
+                                title={comment.resolved ? 'Mark as open' : 'Mark as fixed'}
+                              />
+                              <button
+                                onClick={() => { if (comment.frame != null) jumpToFrame(comment.frame); setActiveCommentId(comment.id); }}
+                                className={`min-w-0 flex-1 text-left ${comment.resolved ? 'line-through opacity-60' : ''} ${isDark ? 'text-white/90 hover:text-white' : 'text-gray-800 hover:text-black'}`}
+                                title={comment.text}
+                              >
+                                {comment.frame != null && <span className="mr-1 font-mono opacity-70">{comment.frame}</span>}
+                                <span className="truncate">{comment.text}</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 )}
 	              </div>
@@ -2770,6 +3277,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                     video={video}
                     annotations={annotations}
                     comments={comments}
+                    waveform={waveforms[videoId] ?? null}
                     abLoop={{ a: abA ?? undefined, b: abB ?? undefined }}
                     onAbChange={(which, t) => {
                       const clamped = Math.max(0, Math.min(duration, t));
@@ -2798,7 +3306,12 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                         }
                       }
                     }}
+                    timecodeFormat={timecodeFormat}
+                    frameDisplay={frameDisplay}
                     isDark={isDark}
+                    commentRange={commentRange}
+                    onCommentRangeChange={handleCommentRangeChange}
+                    rangeSelecting={commentRangeSelecting}
                   />
                   {/* Removed resolution • fps row under the timeline as requested */}
                 </div>
@@ -2889,11 +3402,22 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
                         </button>
                         {(abA != null || abB != null) && (
                           <div className={`px-3 py-2 text-[11px] ${ui.subtleText}`}>
-                            A: {formatClock(abA ?? 0)} {abB != null && '•'} {abB != null && `B: ${formatClock(abB)}`}
+                            A: {formatLoopPoint(abA ?? 0)} {abB != null && '•'} {abB != null && `B: ${formatLoopPoint(abB)}`}
                           </div>
                         )}
                       </div>
                     </div>
+                    <TimecodeControl
+                      currentFrame={currentFrame}
+                      totalFrames={Math.max(0, Math.floor(duration * timecodeFormat.fps))}
+                      format={timecodeFormat}
+                      startTimecode={video.startTimecode ?? null}
+                      mode={frameDisplay}
+                      onToggleMode={toggleFrameDisplay}
+                      onGoToFrame={jumpToFrame}
+                      onSaveSettings={video.isOwnedByCurrentUser ? handleSaveTimecodeSettings : undefined}
+                      isDark={isDark}
+                    />
                   </div>
                   {/* Center cluster: frame step | jump mark | play | jump mark | frame step */}
                   <div className="flex items-center justify-center gap-3 flex-wrap">
@@ -2992,7 +3516,7 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
 	        >
 	          {showComments ? (
 	            <section className={`h-full overflow-hidden rounded-3xl border shadow-sm ${ui.card} flex flex-col`}>
-	              <div className={`grid grid-cols-4 items-center justify-items-center gap-2 px-3 py-3 border-b ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+	              <div className={`grid grid-cols-5 items-center justify-items-center gap-2 px-3 py-3 border-b ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
 	                <button
 	                  onClick={() => setShowComments(false)}
 	                  title="Hide sidebar"
@@ -3009,15 +3533,34 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
 	                >
 	                  {showAnnotations ? <EyeOff size={18} className="mx-auto" /> : <Eye size={18} className="mx-auto" />}
 	                </button>
+	                {!guest && (
+	                  <button
+	                    onClick={() => setShareOpen(true)}
+	                    title="Share"
+	                    aria-label="Share"
+	                    className={headerActionBtnSmall}
+	                  >
+	                    <Share2 size={16} className="mx-auto" />
+	                  </button>
+	                )}
 	                <button
-	                  onClick={() => setShareOpen(true)}
-	                  title="Share"
-	                  aria-label="Share"
+	                  onClick={() => setExportOpen(true)}
+	                  title="Export comments"
+	                  aria-label="Export comments"
 	                  className={headerActionBtnSmall}
 	                >
-	                  <Share2 size={16} className="mx-auto" />
+	                  <FileDown size={16} className="mx-auto" />
 	                </button>
-	                {currentUser?.avatar || clerkUser?.imageUrl ? (
+	                {guest ? (
+	                  <div
+	                    title={`${guest.name} (guest)`}
+	                    className={`w-9 h-9 rounded-full flex items-center justify-center font-bold ${
+	                      isDark ? 'bg-white/5 border border-dashed border-white/30 text-white' : 'bg-white border border-dashed border-gray-400 text-gray-800'
+	                    }`}
+	                  >
+	                    {(guest.name[0] ?? 'G').toUpperCase()}
+	                  </div>
+	                ) : currentUser?.avatar || clerkUser?.imageUrl ? (
 	                  <img
 	                    src={currentUser?.avatar || clerkUser?.imageUrl}
 	                    alt={
@@ -3038,12 +3581,29 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
 	                  </div>
 	                )}
 	              </div>
+	              <ApprovalPanel
+	                videoId={video.id}
+	                storageKey={activeSourceKey}
+	                revisionLabel={activeSourceKey !== video.storageKey ? revisionUploads.find((u) => u.storageKey === activeSourceKey)?.name : listRevisions && listRevisions.length > 0 ? `Current version · ${listRevisions.length + 1} uploads` : undefined}
+	                canDecide={Boolean(isSignedIn)}
+	                isDark={isDark}
+	              />
 	              <div className="flex-1 min-h-0">
 	                <CommentsPane
 	                  comments={comments}
 	                  currentFrame={currentFrame}
 	                  onAddComment={handleAddComment}
 	                  onToggleResolve={handleToggleCommentResolved}
+	                  onSetStatus={handleSetCommentStatus}
+	                  onToggleReaction={handleToggleCommentReaction}
+	                  onUpdateTask={handleUpdateCommentTask}
+	                  currentUserId={currentUser?._id ?? null}
+	                  onUploadAttachment={currentUser ? uploadCommentAttachment : undefined}
+	                  commentRange={isImageReview ? null : commentRange}
+	                  rangeSelecting={commentRangeSelecting}
+	                  onToggleRangeSelect={isImageReview ? undefined : () => setCommentRangeSelecting((v) => !v)}
+	                  onClearCommentRange={() => setCommentRange(null)}
+	                  onPlayRange={playCommentRange}
 	                  onJumpToFrame={jumpToFrame}
 	                  onUpdateCommentFrame={handleUpdateCommentFrame}
 	                  activeCommentId={activeCommentId}
@@ -3053,6 +3613,8 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
 	                  highlightCommentId={highlightedCommentId}
 	                  highlightTerm={mentionHighlight}
 	                  mentionOptions={mentionableOptions ?? []}
+	                  timecodeFormat={timecodeFormat}
+	                  frameDisplay={frameDisplay}
 	                />
 	              </div>
 	            </section>
@@ -3084,22 +3646,42 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
               >
                 Close
               </button>
-              <div className="h-full pt-6">
-                <CommentsPane
-                  comments={comments}
-                  currentFrame={currentFrame}
-                  onAddComment={handleAddComment}
-                  onToggleResolve={handleToggleCommentResolved}
-                  onJumpToFrame={jumpToFrame}
-                  onUpdateCommentFrame={handleUpdateCommentFrame}
-                  activeCommentId={activeCommentId}
-                  setActiveCommentId={setActiveCommentId}
-                  onDeleteComment={handleDeleteComment}
+              <div className="h-full pt-6 flex flex-col">
+                <ApprovalPanel
+                  videoId={video.id}
+                  storageKey={activeSourceKey}
+                  canDecide={Boolean(isSignedIn)}
                   isDark={isDark}
-                  highlightCommentId={highlightedCommentId}
-                  highlightTerm={mentionHighlight}
-                  mentionOptions={mentionableOptions ?? []}
                 />
+                <div className="flex-1 min-h-0">
+                  <CommentsPane
+                    comments={comments}
+                    currentFrame={currentFrame}
+                    onAddComment={handleAddComment}
+                    onToggleResolve={handleToggleCommentResolved}
+                    onSetStatus={handleSetCommentStatus}
+                    onToggleReaction={handleToggleCommentReaction}
+                    onUpdateTask={handleUpdateCommentTask}
+                    currentUserId={currentUser?._id ?? null}
+                    onUploadAttachment={currentUser ? uploadCommentAttachment : undefined}
+                    commentRange={isImageReview ? null : commentRange}
+                    rangeSelecting={commentRangeSelecting}
+                    onToggleRangeSelect={isImageReview ? undefined : () => setCommentRangeSelecting((v) => !v)}
+                    onClearCommentRange={() => setCommentRange(null)}
+                    onPlayRange={playCommentRange}
+                    onJumpToFrame={jumpToFrame}
+                    onUpdateCommentFrame={handleUpdateCommentFrame}
+                    activeCommentId={activeCommentId}
+                    setActiveCommentId={setActiveCommentId}
+                    onDeleteComment={handleDeleteComment}
+                    isDark={isDark}
+                    highlightCommentId={highlightedCommentId}
+                    highlightTerm={mentionHighlight}
+                    mentionOptions={mentionableOptions ?? []}
+                    timecodeFormat={timecodeFormat}
+                    frameDisplay={frameDisplay}
+                  />
+                </div>
               </div>
             </div>
           </div>
@@ -3128,6 +3710,18 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
           onClose={() => setShareOpen(false)}
         />
       )}
+      {exportOpen && (
+        <ExportCommentsModal
+          video={video}
+          comments={comments}
+          timecodeFormat={timecodeFormat}
+          annotatedFrames={annotatedFrames}
+          onCaptureThumbnails={isImageReview ? undefined : captureAnnotatedThumbnails}
+          buildReviewUrl={buildCommentReviewUrl}
+          onClose={() => setExportOpen(false)}
+          isDark={isDark}
+        />
+      )}
       {!isImageReview && compareModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
           <div className="absolute inset-0 bg-black/60" onClick={closeCompareModal} />
@@ -3137,6 +3731,37 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
               <button onClick={closeCompareModal} className={`${isDark ? 'text-white/60 hover:text-white' : 'text-gray-500 hover:text-gray-900'} text-sm`}>Close</button>
             </div>
             <div className="mt-5 space-y-6">
+              {revisionUploads.length >= 2 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Compare revisions</p>
+                  <p className="text-xs opacity-70">Plays both uploads frame-aligned and shows the older revision's notes on top of the newer one.</p>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {([
+                      { which: 'base', label: 'Older', value: compareDraft.revisionBaseKey },
+                      { which: 'target', label: 'Newer', value: compareDraft.revisionTargetKey },
+                    ] as const).map((field) => (
+                      <label key={field.which} className="space-y-1 text-xs">
+                        <span className="opacity-70">{field.label}</span>
+                        <select
+                          value={field.value ?? ''}
+                          onChange={(e) => handleDraftRevisionChange(field.which, e.target.value || null)}
+                          className={`${isDark ? 'w-full rounded-lg border border-white/20 bg-black/40 px-3 py-2 text-sm text-white' : 'w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900'}`}
+                        >
+                          <option value="">Select…</option>
+                          {revisionUploads.map((upload) => (
+                            <option key={upload.storageKey} value={upload.storageKey}>
+                              {upload.label} · {upload.name}{upload.storageKey === video.storageKey ? ' (current)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                  {compareDraft.revisionBaseKey && compareDraft.revisionBaseKey === compareDraft.revisionTargetKey && (
+                    <p className={`text-xs ${isDark ? 'text-red-300' : 'text-red-600'}`}>Pick two different revisions.</p>
+                  )}
+                </div>
+              )}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Upload comparison clip</label>
                 <input
@@ -3217,7 +3842,8 @@ const VideoReviewer: React.FC<VideoReviewerProps> = ({ video, sourceUrl, onGoBac
               </button>
               <button
                 onClick={applyCompareDraft}
-                className={`${isDark ? 'bg-white text-black hover:bg-white/90' : 'bg-black text-white hover:bg-black/90'} px-4 py-2 text-sm font-semibold rounded-full transition`}
+                disabled={!compareDraft.url && !!compareDraft.revisionBaseKey && compareDraft.revisionBaseKey === compareDraft.revisionTargetKey}
+                className={`${isDark ? 'bg-white text-black hover:bg-white/90' : 'bg-black text-white hover:bg-black/90'} px-4 py-2 text-sm font-semibold rounded-full transition disabled:opacity-50`}
               >
                 Apply
               </button>
@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { DecodedWaveform, drawWaveform } from '../utils/waveform';
+
+interface WaveformLaneProps {
+  /** `null` while the waveform is still being computed. */
+  waveform: DecodedWaveform | null;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  isDark?: boolean;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 64;
+
+const WaveformLane: React.FC<WaveformLaneProps> = ({ waveform, currentTime, duration, onSeek, isDark = true }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const laneRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState(1);
+  const [laneWidth, setLaneWidth] = useState(0);
+
+  // When zoomed in, the visible window follows the playhead.
+  const span = duration > 0 ? duration / zoom : 0;
+  const windowStart = zoom <= 1 ? 0 : Math.max(0, Math.min(duration - span, currentTime - span / 2));
+  const playheadPct = span > 0 ? ((currentTime - windowStart) / span) * 100 : 0;
+
+  useEffect(() => {
+    const el = laneRef.current;
+    if (!el || typeof ResizeObserver === 'undefined') return;
+    const update = () => setLaneWidth(el.getBoundingClientRect().width);
+    update();
+    const obs = new ResizeObserver(() => update());
+    obs.observe(el);
+    return () => obs.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !waveform || span <= 0) return;
+    drawWaveform(canvas, waveform, windowStart, windowStart + span, isDark ? 'rgba(255,255,255,0.7)' : 'rgba(17,24,39,0.6)');
+  }, [waveform, windowStart, span, isDark, laneWidth]);
+
+  const changeZoom = useCallback((factor: number) => {
+    setZoom((z) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, z * factor)));
+  }, []);
+
+  // React's onWheel is passive, so ctrl+wheel zoom is bound natively to be able to preventDefault.
+  useEffect(() => {
+    const el = laneRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      changeZoom(e.deltaY < 0 ? 1.25 : 0.8);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [changeZoom]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (span <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.max(0, Math.min(rect.width, e.clientX - rect.left));
+    onSeek(windowStart + (x / Math.max(1, rect.width)) * span);
+  };
+
+  const muted = isDark ? 'text-white/50' : 'text-gray-500';
+  const buttonClass = `p-1 rounded disabled:opacity-30 ${isDark ? 'text-white/70 hover:bg-white/10' : 'text-gray-700 hover:bg-gray-200'}`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div
+        ref={laneRef}
+        className={`relative h-10 flex-1 overflow-hidden rounded-md cursor-pointer ${isDark ? 'bg-black/40' : 'bg-gray-100'}`}
+        onClick={handleClick}
+        title="Audio (Ctrl + scroll to zoom)"
+      >
+        {waveform && waveform.hasAudio ? (
+          <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+        ) : (
+          <div className={`absolute inset-0 flex items-center justify-center text-[10px] ${muted}`}>
+            {waveform ? 'No audio' : 'Analyzing audio…'}
+          </div>
+        )}
+        {duration > 0 && playheadPct >= 0 && playheadPct <= 100 && (
+          <div
+            className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+            style={{ left: `${playheadPct}%` }}
+          />
+        )}
+      </div>
+      <div className="flex flex-col">
+        <button type="button" className={buttonClass} onClick={() => changeZoom(2)} disabled={zoom >= MAX_ZOOM} title="Zoom in">
+          <ZoomIn className="h-3.5 w-3.5" />
+        </button>
+        <button type="button" className={buttonClass} onClick={() => changeZoom(0.5)} disabled={zoom <= MIN_ZOOM} title="Zoom out">
+          <ZoomOut className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformLane;
@@ -7,6 +7,7 @@ import { EditorTimeline } from './EditorTimeline';
 import { Loader2, Pause, Play, RefreshCw, ChevronLeft, Info, Settings, Save, FolderOpen, Trash2, Edit3, Eye, EyeOff, Volume2, VolumeX, Download } from 'lucide-react';
 import { renderCompositionClient } from './clientExport';
 import EditorAssetsPicker from './EditorAssetsPicker';
+import { useVideoWaveforms } from '../../hooks/use-video-waveforms';
 
 const formatSeconds = (seconds: number) => {
   const mins = Math.floor(seconds / 60)
@@ -302,6 +303,15 @@ export const EditorPage: React.FC<EditorPageProps> = ({ compositionId, onExit, o
   const [zoom, setZoom] = useState(1);
   const [videoUrls, setVideoUrls] = useState<Record<string, string>>({});
   const getDownloadUrl = useAction(api.storage.getDownloadUrl);
+  const waveformSources = useMemo(
+    () => Object.values(data?.sources ?? {}).map((source) => ({ videoId: source._id, storageKey: source.storageKey })),
+    [data?.sources],
+  );
+  const waveforms = useVideoWaveforms(waveformSources);
+  const sourceFps = useMemo(
+    () => Object.fromEntries(Object.values(data?.sources ?? {}).map((source) => [source._id as string, source.fps])),
+    [data?.sources],
+  );
   // Upload actions
   const generateVideoUploadUrl = useAction(api.storage.generateVideoUploadUrl);
   const createMultipart = useAction((api as any).storage.createMultipartUpload);
@@ -1488,6 +1498,8 @@ export const EditorPage: React.FC<EditorPageProps> = ({ compositionId, onExit, o
               queueAutosave.current();
               void updateClip({ clipId: clipId as any, patch: patch as any });
             }}
+            waveforms={waveforms}
+            sourceFps={sourceFps}
             trims={Object.fromEntries(trimByClipId)}
             onTrimClip={(clipId, trim) => {
               setDirty(true);
@@ -1565,7 +1577,14 @@ export const EditorPage: React.FC<EditorPageProps> = ({ compositionId, onExit, o
                       >
                         {clientExporting ? 'Browser…' : 'Browser render'}
                       </button>
-                      
+                      <button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        title="Render the full timeline on the render worker"
+                        className="rounded-full border border-white/20 px-3 py-1 text-white/80 hover:bg-white/10 disabled:opacity-50"
+                      >
+                        {exporting ? 'Queueing…' : 'Server render'}
+                      </button>
                     </div>
                   </div>
                   {clientExporting && (
@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { Play, Pause, ChevronLeft, ChevronRight, SkipBack, SkipForward, Volume2, VolumeX } from 'lucide-react';
 import type { Id } from '../../convex/_generated/dataModel';
+import { DecodedWaveform, drawWaveform, peakInRange } from '../../utils/waveform';
 
 function EditableTitle({ id, title, onRename }) {
   const [editing, setEditing] = React.useState(false);
@@ -18,7 +19,7 @@ function EditableTitle({ id, title, onRename }) {
   }, [draft, title, id, onRename]);
   if (!editing) {
     return (
-      <div className="font-semibold truncate" title={title} onDoubleClick={() => setEditing(true)}>
+      <div className="relative font-semibold truncate" title={title} onDoubleClick={() => setEditing(true)}>
         {title}
       </div>
     );
@@ -26,7 +27,7 @@ function EditableTitle({ id, title, onRename }) {
   return (
     <input
       autoFocus
-      className="w-full rounded bg-white/80 px-2 py-0.5 text-[11px] font-semibold text-black outline-none"
+      className="relative w-full rounded bg-white/80 px-2 py-0.5 text-[11px] font-semibold text-black outline-none"
       value={draft}
       onChange={(e) => setDraft(e.target.value)}
       onBlur={commit}
@@ -38,6 +39,29 @@ function EditableTitle({ id, title, onRename }) {
   );
 }
 
+function WaveformCanvas({ source, startSec, endSec, color, className }: {
+  source: DecodedWaveform | ((startSec: number, endSec: number) => number);
+  startSec: number;
+  endSec: number;
+  color: string;
+  className?: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  useEffect(() => {
+    const el = canvasRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setWidth(el.clientWidth));
+    setWidth(el.clientWidth);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+  useEffect(() => {
+    if (canvasRef.current) drawWaveform(canvasRef.current, source, startSec, endSec, color);
+  }, [source, startSec, endSec, color, width]);
+  return <canvas ref={canvasRef} className={className} aria-hidden />;
+}
+
 type ClipDoc = {
   _id: Id<'compositionClips'>;
   compositionId: Id<'compositions'>;
@@ -48,6 +72,7 @@ type ClipDoc = {
   speed: number;
   label?: string;
   zIndex: number;
+  audioEnabled?: boolean;
 };
 
 type TimelineProps = {
@@ -70,6 +95,10 @@ type TimelineProps = {
   onAddClip?: () => void;
   masterVolume?: number;
   onChangeVolume?: (v: number) => void;
+  /** Audio peaks keyed by source video id; enables the mix lane and per-clip waveforms. */
+  waveforms?: Record<string, DecodedWaveform>;
+  /** Source frame rates keyed by video id (source frames are counted at the source's fps). */
+  sourceFps?: Record<string, number>;
 };
 
 const COLORS = ['#38bdf8', '#a855f7', '#f97316', '#14b8a6', '#ec4899', '#facc15'];
@@ -91,7 +120,7 @@ const lanesFromClips = (clips: Array<{ zIndex: number }>) => {
   return [topExtra, ...zs, bottomExtra];
 };
 
-export const EditorTimeline: React.FC<TimelineProps> = ({ clips, durationFrames, fps, playhead, zoom, onSeek, onZoomChange, selectedClipId, onSelectClip, onMoveClip, trims, onTrimClip, playing = false, onTogglePlay, onReset, onRenameClip, onAddClip, masterVolume = 1, onChangeVolume }) => {
+export const EditorTimeline: React.FC<TimelineProps> = ({ clips, durationFrames, fps, playhead, zoom, onSeek, onZoomChange, selectedClipId, onSelectClip, onMoveClip, trims, onTrimClip, playing = false, onTogglePlay, onReset, onRenameClip, onAddClip, masterVolume = 1, onChangeVolume, waveforms, sourceFps }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const trackRef = useRef<HTMLDivElement>(null);
   const [containerWidth, setContainerWidth] = useState<number>(0);
@@ -177,9 +206,10 @@ export const EditorTimeline: React.FC<TimelineProps> = ({ clips, durationFrames,
   }, [lanesForBg]);
   const lanesCount = lanesForBg.length;
   const trackHeaderHeight = 24;
+  const audioLaneHeight = waveforms ? 28 : 0;
   const extraLanesBelow = 2;
   const tracksAreaHeight = Math.max(1, lanesCount + extraLanesBelow) * laneHeight;
-  const totalHeight = trackHeaderHeight + tracksAreaHeight;
+  const totalHeight = trackHeaderHeight + audioLaneHeight + tracksAreaHeight;
 
   const clipBlocks = useMemo(() => {
     const lanes = lanesFromClips(effectiveClips);
@@ -217,6 +247,41 @@ export const EditorTimeline: React.FC<TimelineProps> = ({ clips, durationFrames,
     });
   }, [effectiveClips, pxPerFrame, draggingClip]);
 
+  const fpsForSource = (videoId: string) => Math.max(1, sourceFps?.[videoId] ?? fps);
+
+  // Composition audio: loudest audible clip at each point, with trims and muted clips left out.
+  const sampleMix = useMemo(() => {
+    if (!waveforms) return null;
+    const audible = effectiveClips
+      .filter((clip) => (clip.audioEnabled ?? true) && waveforms[clip.sourceVideoId as string])
+      .map((clip) => {
+        const trim = trims?.[clip._id as string] ?? { start: 0, end: 0 };
+        const duration = getDurationFor(clip);
+        return {
+          clip,
+          waveform: waveforms[clip.sourceVideoId as string],
+          srcFps: fpsForSource(clip.sourceVideoId as string),
+          from: clip.timelineStartFrame + Math.max(0, trim.start),
+          to: clip.timelineStartFrame + duration - Math.max(0, trim.end),
+        };
+      });
+    return (startSec: number, endSec: number) => {
+      const a = startSec * fps;
+      const b = endSec * fps;
+      let max = 0;
+      for (const item of audible) {
+        const from = Math.max(a, item.from);
+        const to = Math.min(b, item.to);
+        if (to <= from) continue;
+        const toSource = (frame: number) =>
+          (item.clip.sourceInFrame + (frame - item.clip.timelineStartFrame) * item.clip.speed) / item.srcFps;
+        max = Math.max(max, peakInRange(item.waveform, toSource(from), toSource(to)));
+      }
+      return max;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [waveforms, effectiveClips, trims, fps, sourceFps]);
+
   const ticks = useMemo(() => {
     // show more frame labels: ~20 divisions
     const framesPerTick = Math.max(1, Math.floor(durationFrames / 20));
@@ -557,7 +622,22 @@ export const EditorTimeline: React.FC<TimelineProps> = ({ clips, durationFrames,
               </div>
             ))}
           </div>
-          <div className="absolute inset-x-0 top-6" style={{ height: tracksAreaHeight }}>
+          {sampleMix && (
+            <div
+              className="absolute inset-x-0 border-b border-white/10 bg-white/[0.03]"
+              style={{ top: trackHeaderHeight, height: audioLaneHeight }}
+              title="Audio mix"
+            >
+              <WaveformCanvas
+                source={sampleMix}
+                startSec={0}
+                endSec={Math.max(1, durationFrames) / Math.max(1, fps)}
+                color="rgba(255,255,255,0.55)"
+                className="absolute inset-0 h-full w-full pointer-events-none"
+              />
+            </div>
+          )}
+          <div className="absolute inset-x-0" style={{ top: trackHeaderHeight + audioLaneHeight, height: tracksAreaHeight }}>
             {Array.from({ length: Math.max(lanesCount + extraLanesBelow, 1) }).map((_, idx) => (
               <div
                 key={`lane-${idx}`}
@@ -624,6 +704,22 @@ export const EditorTimeline: React.FC<TimelineProps> = ({ clips, durationFrames,
                         : clip.laneIndex) * laneHeight,
                 }}
               >
+                {(() => {
+                  const waveform = waveforms?.[clip.sourceVideoId as string];
+                  if (!waveform?.hasAudio) return null;
+                  const srcFps = fpsForSource(clip.sourceVideoId as string);
+                  const hiddenBefore = (clip as any).__hiddenBefore as number || 0;
+                  const hiddenAfter = (clip as any).__hiddenAfter as number || 0;
+                  return (
+                    <WaveformCanvas
+                      source={waveform}
+                      startSec={(clip.sourceInFrame + hiddenBefore * clip.speed) / srcFps}
+                      endSec={(clip.sourceInFrame + (clip.clipDuration - hiddenAfter) * clip.speed) / srcFps}
+                      color={(clip.audioEnabled ?? true) ? 'rgba(0,0,0,0.35)' : 'rgba(0,0,0,0.15)'}
+                      className="absolute inset-0 h-full w-full rounded-md pointer-events-none"
+                    />
+                  );
+                })()}
                 {/* Editable title */}
                 <EditableTitle id={clip._id as string} title={clip.label ?? 'Clip'} onRename={onRenameClip} />
                 {/* Trim overlays for non-visible parts */}
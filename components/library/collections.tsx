@@ -46,18 +46,31 @@ import {
   MoreVertical,
   Pencil,
   Share2,
+  SlidersHorizontal,
+  Sparkles,
   Trash2,
   Upload,
 } from "lucide-react";
 import { toast } from "sonner";
 import { AnimatePresence, motion, useReducedMotion } from "framer-motion";
 import { uploadFileMultipart } from "@/lib/upload/multipart";
+import {
+  SmartCollectionRuleEditor,
+  describeSmartCollectionRule,
+  emptySmartCollectionRuleDraft,
+  smartCollectionRuleToDraft,
+  toSmartCollectionRule,
+  type SmartCollectionRule,
+  type SmartCollectionRuleDraft,
+} from "@/components/library/smart-collection-rule-editor";
 
 type CollectionSummary = {
   id: Id<"assetCollections">;
   title: string;
   projectId: Id<"projects"> | null;
   coverUrl: string | null;
+  isSmart?: boolean;
+  rule?: SmartCollectionRule | null;
   createdAt: number;
   updatedAt: number;
   isShared?: boolean;
@@ -146,6 +159,7 @@ export const CollectionsView: React.FC = () => {
   const renameCollection = useMutation(api.collections.updateTitle);
   const deleteCollection = useMutation(api.collections.remove);
   const setProject = useMutation(api.collections.setProject);
+  const updateRule = useMutation(api.collections.updateRule);
   const setCover = useMutation(api.collections.setCover);
   const clearCover = useMutation(api.collections.clearCover);
   const shareToEmail = useMutation(api.collections.shareToEmail);
@@ -167,6 +181,9 @@ export const CollectionsView: React.FC = () => {
   const [createOpen, setCreateOpen] = useState(false);
   const [newTitle, setNewTitle] = useState("");
   const [newProjectId, setNewProjectId] = useState<string>("none");
+  const [newIsSmart, setNewIsSmart] = useState(false);
+  const [newRuleDraft, setNewRuleDraft] = useState<SmartCollectionRuleDraft>(emptySmartCollectionRuleDraft);
+  const [ruleOpen, setRuleOpen] = useState<{ id: Id<"assetCollections">; draft: SmartCollectionRuleDraft } | null>(null);
 
   const [renameOpen, setRenameOpen] = useState<{ id: Id<"assetCollections">; title: string } | null>(null);
   const [shareOpen, setShareOpen] = useState<Id<"assetCollections"> | null>(null);
@@ -217,6 +234,11 @@ export const CollectionsView: React.FC = () => {
     try {
       const projectId =
         newProjectId !== "none" ? (newProjectId as any as Id<"projects">) : undefined;
+      const rule = newIsSmart ? toSmartCollectionRule(newRuleDraft) : undefined;
+      if (newIsSmart && !rule) {
+        toast.error("Add at least one rule");
+        return;
+      }
 
       const existing = collections.find(
         (c) =>
@@ -232,11 +254,13 @@ export const CollectionsView: React.FC = () => {
         return;
       }
 
-      await createCollection({ title, projectId });
+      await createCollection({ title, projectId, rule: rule ?? undefined });
       toast.success("Collection created");
       setCreateOpen(false);
       setNewTitle("");
       setNewProjectId("none");
+      setNewIsSmart(false);
+      setNewRuleDraft(emptySmartCollectionRuleDraft());
     } catch (e) {
       console.error(e);
       toast.error("Unable to create collection");
@@ -244,7 +268,9 @@ export const CollectionsView: React.FC = () => {
   }, [
     collections,
     createCollection,
+    newIsSmart,
     newProjectId,
+    newRuleDraft,
     newTitle,
     normalizeCollectionTitleDisplay,
     normalizeCollectionTitleKey,
@@ -315,6 +341,23 @@ export const CollectionsView: React.FC = () => {
     renameOpen,
   ]);
 
+  const handleSaveRule = useCallback(async () => {
+    if (!ruleOpen) return;
+    const rule = toSmartCollectionRule(ruleOpen.draft);
+    if (!rule) {
+      toast.error("Add at least one rule");
+      return;
+    }
+    try {
+      await updateRule({ id: ruleOpen.id, rule });
+      toast.success("Rules updated");
+      setRuleOpen(null);
+    } catch (e) {
+      console.error(e);
+      toast.error("Unable to update rules");
+    }
+  }, [ruleOpen, updateRule]);
+
   const requestDelete = useCallback(
     (collection: CollectionSummary) => {
       setDeleteTarget(collection);
@@ -406,10 +449,27 @@ export const CollectionsView: React.FC = () => {
               </Button>
               <div>
                 <h2 className="text-sm font-semibold text-gray-900">{activeCollection.title}</h2>
-                <p className="text-xs text-gray-500">{formatCount(activeCollection.itemCount)} refs</p>
+                <p className="text-xs text-gray-500">
+                  {formatCount(activeCollection.itemCount)} refs
+                  {activeCollection.rule ? ` · ${describeSmartCollectionRule(activeCollection.rule)}` : ""}
+                </p>
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {activeCollection.rule && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={Boolean(activeCollection.isShared)}
+                  onClick={() =>
+                    setRuleOpen({ id: activeCollection.id, draft: smartCollectionRuleToDraft(activeCollection.rule) })
+                  }
+                >
+                  <SlidersHorizontal className="h-4 w-4" />
+                  Rules
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -446,7 +506,9 @@ export const CollectionsView: React.FC = () => {
           <div className="library-masonry">
             {(activeAssets ?? []).length === 0 && (
               <div className="library-masonry-item rounded-2xl border border-gray-200 bg-white p-6 text-sm text-gray-500">
-                No references in this collection yet.
+                {activeCollection.rule
+                  ? "No references match these rules yet."
+                  : "No references in this collection yet."}
               </div>
             )}
             {(activeAssets ?? []).map((asset) => {
@@ -512,6 +574,12 @@ export const CollectionsView: React.FC = () => {
                               {projectName}
                             </span>
                           )}
+                          {c.isSmart && (
+                            <Badge variant="secondary" className="gap-1 bg-gray-100 text-gray-600">
+                              <Sparkles className="h-3 w-3" />
+                              Smart
+                            </Badge>
+                          )}
                           {isShared && (
                             <Badge variant="secondary" className="bg-gray-100 text-gray-600">
                               Shared
@@ -537,6 +605,15 @@ export const CollectionsView: React.FC = () => {
                           <Pencil className="mr-2 h-4 w-4" />
                           Rename
                         </DropdownMenuItem>
+                        {c.rule && (
+                          <DropdownMenuItem
+                            disabled={isShared}
+                            onClick={() => setRuleOpen({ id: c.id, draft: smartCollectionRuleToDraft(c.rule) })}
+                          >
+                            <SlidersHorizontal className="mr-2 h-4 w-4" />
+                            Edit rules
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem disabled={isShared} onClick={() => { setAssignOpen(c.id); }}>
                           <LayoutGrid className="mr-2 h-4 w-4" />
                           Assign workspace
@@ -584,11 +661,13 @@ export const CollectionsView: React.FC = () => {
       )}
 
       <Dialog open={createOpen} onOpenChange={setCreateOpen}>
-        <DialogContent className="sm:max-w-[520px] bg-white text-gray-900">
+        <DialogContent className="sm:max-w-[560px] max-h-[88vh] overflow-y-auto bg-white text-gray-900">
           <DialogHeader>
             <DialogTitle>New collection</DialogTitle>
             <DialogDescription className="text-sm text-gray-500">
-              Create a folder to group references.
+              {newIsSmart
+                ? "References that match the rules appear automatically, including future uploads."
+                : "Create a folder to group references."}
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4">
@@ -612,6 +691,11 @@ export const CollectionsView: React.FC = () => {
                 </SelectContent>
               </Select>
             </div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input type="checkbox" checked={newIsSmart} onChange={(e) => setNewIsSmart(e.target.checked)} />
+              Smart collection (filled by rules)
+            </label>
+            {newIsSmart && <SmartCollectionRuleEditor value={newRuleDraft} onChange={setNewRuleDraft} />}
           </div>
           <DialogFooter className="justify-between">
             <Button variant="ghost" onClick={() => setCreateOpen(false)}>
@@ -622,6 +706,29 @@ export const CollectionsView: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={Boolean(ruleOpen)} onOpenChange={(v) => !v && setRuleOpen(null)}>
+        <DialogContent className="sm:max-w-[560px] max-h-[88vh] overflow-y-auto bg-white text-gray-900">
+          <DialogHeader>
+            <DialogTitle>Smart collection rules</DialogTitle>
+            <DialogDescription className="text-sm text-gray-500">
+              References must match every rule you set.
+            </DialogDescription>
+          </DialogHeader>
+          {ruleOpen && (
+            <SmartCollectionRuleEditor
+              value={ruleOpen.draft}
+              onChange={(draft) => setRuleOpen((prev) => (prev ? { ...prev, draft } : prev))}
+            />
+          )}
+          <DialogFooter className="justify-between">
+            <Button variant="ghost" onClick={() => setRuleOpen(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveRule}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={Boolean(renameOpen)} onOpenChange={(v) => !v && setRenameOpen(null)}>
         <DialogContent className="sm:max-w-[520px] bg-white text-gray-900">
           <DialogHeader>
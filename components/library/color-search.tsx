@@ -0,0 +1,103 @@
+"use client";
+
+import React from "react";
+import { Plus, X } from "lucide-react";
+import { getContrastingTextColor } from "@/lib/utils";
+import { hexToRgb } from "@/utils/colorUtils";
+
+export type PaletteSwatch = {
+  hex: string;
+  weight: number;
+};
+
+export const MAX_PALETTE_SWATCHES = 6;
+
+const DEFAULT_NEW_SWATCH = "#808080";
+
+/** Turns extracted palette colors into swatches, weighting earlier (more dominant) colors higher. */
+export const paletteFromColors = (colors: string[]): PaletteSwatch[] =>
+  colors.slice(0, MAX_PALETTE_SWATCHES).map((hex, index) => ({
+    hex: hex.toLowerCase(),
+    weight: Math.max(0.4, 1 - index * 0.2),
+  }));
+
+const swatchTextColor = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex);
+  return getContrastingTextColor({ r, g, b });
+};
+
+/** Inline strip of swatches, used in banners to show the active palette. */
+export const PaletteStrip: React.FC<{ swatches: PaletteSwatch[]; className?: string }> = ({ swatches, className }) => (
+  <span className={["inline-flex items-center gap-1", className].filter(Boolean).join(" ")}>
+    {swatches.map((swatch, index) => (
+      <span
+        key={`${swatch.hex}-${index}`}
+        className="h-4 w-4 rounded-full border border-black/10"
+        style={{ backgroundColor: swatch.hex }}
+        title={`${swatch.hex} · weight ${Math.round(swatch.weight * 100)}%`}
+      />
+    ))}
+  </span>
+);
+
+/** Swatch editor: pick up to MAX_PALETTE_SWATCHES colors, each with its own weight. */
+export const PalettePicker: React.FC<{
+  value: PaletteSwatch[];
+  onChange: (next: PaletteSwatch[]) => void;
+}> = ({ value, onChange }) => {
+  const update = (index: number, patch: Partial<PaletteSwatch>) =>
+    onChange(value.map((swatch, i) => (i === index ? { ...swatch, ...patch } : swatch)));
+
+  return (
+    <div className="space-y-2">
+      {value.map((swatch, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <label
+            className="relative flex h-8 w-14 shrink-0 cursor-pointer items-center justify-center rounded-md border border-gray-200 text-[10px] font-semibold uppercase"
+            style={{ backgroundColor: swatch.hex, color: swatchTextColor(swatch.hex) }}
+          >
+            {swatch.hex.replace("#", "")}
+            <input
+              type="color"
+              value={swatch.hex}
+              onChange={(e) => update(index, { hex: e.target.value })}
+              className="absolute inset-0 h-full w-full cursor-pointer opacity-0"
+              aria-label={`Color ${index + 1}`}
+            />
+          </label>
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.1}
+            value={swatch.weight}
+            onChange={(e) => update(index, { weight: Number(e.target.value) })}
+            className="flex-1"
+            aria-label={`Weight of color ${index + 1}`}
+          />
+          <span className="w-9 text-right text-[11px] font-semibold text-gray-500">
+            {Math.round(swatch.weight * 100)}%
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            className="rounded-md p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+            aria-label={`Remove color ${index + 1}`}
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      ))}
+      {value.length < MAX_PALETTE_SWATCHES && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, { hex: DEFAULT_NEW_SWATCH, weight: 1 }])}
+          className="inline-flex items-center gap-1.5 rounded-md border border-dashed border-gray-300 px-2.5 py-1.5 text-xs font-semibold text-gray-600 hover:border-gray-400 hover:text-gray-900"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add color
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import type { Id } from "@/convex/_generated/dataModel";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, Copy, Loader2, Merge, ScanSearch, X } from "lucide-react";
+import { toast } from "sonner";
+
+type DuplicateAsset = {
+  _id: Id<"assets">;
+  title: string;
+  fileName?: string;
+  previewUrl: string;
+  type: string;
+  width: number | null;
+  height: number | null;
+  fileSize: number | null;
+  createdAt: number;
+  usageCount: number;
+  collectionCount: number;
+};
+
+type DuplicateGroup = {
+  id: string;
+  kind: "exact" | "near";
+  maxDistance: number;
+  flagIds: Id<"assetDuplicateFlags">[];
+  assets: DuplicateAsset[];
+};
+
+const formatBytes = (bytes: number | null) => {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const DuplicateGroupCard: React.FC<{ group: DuplicateGroup }> = ({ group }) => {
+  const mergeDuplicates = useMutation(api.assets.mergeDuplicates);
+  const dismissDuplicates = useMutation(api.assets.dismissDuplicates);
+  const [keepId, setKeepId] = useState<Id<"assets">>(group.assets[0]._id);
+  const [busy, setBusy] = useState<"merge" | "dismiss" | null>(null);
+
+  useEffect(() => {
+    if (!group.assets.some((asset) => asset._id === keepId)) {
+      setKeepId(group.assets[0]._id);
+    }
+  }, [group.assets, keepId]);
+
+  const handleMerge = async () => {
+    setBusy("merge");
+    try {
+      const result = await mergeDuplicates({
+        keepId,
+        mergeIds: group.assets.map((asset) => asset._id).filter((id) => id !== keepId),
+      });
+      toast.success(`Merged ${result.merged} duplicate${result.merged === 1 ? "" : "s"}`);
+    } catch (error) {
+      console.error("Failed to merge duplicates", error);
+      toast.error("Could not merge these references");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setBusy("dismiss");
+    try {
+      await dismissDuplicates({ flagIds: group.flagIds });
+    } catch (error) {
+      console.error("Failed to dismiss duplicates", error);
+      toast.error("Could not dismiss this group");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">{group.kind === "exact" ? "Exact duplicate" : "Near duplicate"}</Badge>
+          <span className="text-xs text-gray-500">
+            {group.assets.length} references
+            {group.kind === "near" ? ` · up to ${group.maxDistance} bits apart` : ""}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleDismiss} disabled={busy !== null}>
+            {busy === "dismiss" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+            Not duplicates
+          </Button>
+          <Button size="sm" onClick={handleMerge} disabled={busy !== null}>
+            {busy === "merge" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Merge className="mr-2 h-4 w-4" />}
+            Merge into kept
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+        {group.assets.map((asset) => {
+          const isKept = asset._id === keepId;
+          const details = [
+            asset.width && asset.height ? `${asset.width}×${asset.height}` : null,
+            formatBytes(asset.fileSize),
+            new Date(asset.createdAt).toLocaleDateString(),
+          ].filter(Boolean);
+          return (
+            <button
+              key={asset._id}
+              type="button"
+              onClick={() => setKeepId(asset._id)}
+              className={[
+                "group relative overflow-hidden rounded-xl border text-left transition",
+                isKept ? "border-gray-900 ring-2 ring-gray-900" : "border-gray-200 hover:border-gray-400",
+              ].join(" ")}
+            >
+              <div className="aspect-square w-full bg-gray-100">
+                {asset.type === "video" ? (
+                  <video src={asset.previewUrl} className="h-full w-full object-cover" muted preload="metadata" />
+                ) : (
+                  <img src={asset.previewUrl} alt={asset.title} className="h-full w-full object-cover" loading="lazy" />
+                )}
+              </div>
+              {isKept && (
+                <span className="absolute left-2 top-2 inline-flex items-center gap-1 rounded-full bg-gray-900 px-2 py-0.5 text-[11px] font-semibold text-white">
+                  <Check className="h-3 w-3" />
+                  Keep
+                </span>
+              )}
+              <div className="space-y-0.5 p-2">
+                <p className="truncate text-xs font-semibold text-gray-900">{asset.title || asset.fileName}</p>
+                <p className="truncate text-[11px] text-gray-500">{details.join(" · ")}</p>
+                <p className="truncate text-[11px] text-gray-500">
+                  {asset.collectionCount} collection{asset.collectionCount === 1 ? "" : "s"} · {asset.usageCount} use
+                  {asset.usageCount === 1 ? "" : "s"}
+                </p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export const DuplicatesView: React.FC = () => {
+  const groupsRaw = useQuery(api.assets.listDuplicates, {});
+  const scanLibrary = useMutation(api.assets.scanLibraryForDuplicates);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const groups = (groupsRaw ?? []) as unknown as DuplicateGroup[];
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      await scanLibrary({});
+      toast.success("Scanning your library; new matches will appear here");
+    } catch (error) {
+      console.error("Failed to start duplicate scan", error);
+      toast.error("Could not start the scan");
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Duplicates</h2>
+          <p className="text-sm text-gray-500">
+            Pick the reference to keep; merging moves collections and board usages onto it and deletes the rest.
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleScan} disabled={isScanning}>
+          {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanSearch className="mr-2 h-4 w-4" />}
+          Scan library
+        </Button>
+      </div>
+
+      {groupsRaw === undefined ? (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-2 rounded-2xl border border-dashed border-gray-200 py-16 text-center">
+          <Copy className="h-6 w-6 text-gray-400" />
+          <p className="text-sm font-semibold text-gray-700">No duplicates found</p>
+          <p className="text-xs text-gray-500">New uploads are checked automatically.</p>
+        </div>
+      ) : (
+        groups.map((group) => <DuplicateGroupCard key={group.id} group={group} />)
+      )}
+    </div>
+  );
+};
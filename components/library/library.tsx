@@ -16,6 +16,12 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { colorDistance, hexToRgb, rgbToHex } from "@/utils/colorUtils";
+import {
+  MAX_PALETTE_SWATCHES,
+  PalettePicker,
+  PaletteStrip,
+  type PaletteSwatch,
+} from "@/components/library/color-search";
 import {
   Search,
   Filter,
@@ -28,6 +34,7 @@ import {
   ChevronLeft,
   ChevronRight,
   Maximize2,
+  Palette,
 } from "lucide-react";
 import { toast } from "sonner";
 import { AnimatePresence, motion, type Variants } from "framer-motion";
@@ -37,6 +44,8 @@ type FilterState = {
   type: "all" | "image" | "video" | "file";
   tagQuery: string;
   color: string | null;
+  // Weighted palette search; when set, results are ranked by palette distance server-side.
+  palette: PaletteSwatch[];
 };
 
 type LibraryAssetType = "image" | "video" | "file";
@@ -55,6 +64,7 @@ type LibraryProps = {
   onSelectionChange?: (items: Id<"assets">[]) => void;
   allowedTypes?: LibraryAssetType[];
   forcedAssetOrder?: Id<"assets">[] | null;
+  initialPalette?: PaletteSwatch[] | null;
   onFilteredDataChange?: (data: {
     filteredReferences: Doc<"assets">[];
     filters: FilterState;
@@ -345,6 +355,7 @@ export const Library: React.FC<LibraryProps> = ({
   onSelectionChange,
   allowedTypes,
   forcedAssetOrder,
+  initialPalette,
   onFilteredDataChange,
 }) => {
   const normalizedAllowedTypes = useMemo<LibraryAssetType[]>(() => {
@@ -368,8 +379,11 @@ export const Library: React.FC<LibraryProps> = ({
     type: defaultFilterType,
     tagQuery: selectedTags?.join(", ") ?? "",
     color: null,
+    palette: initialPalette ?? [],
   });
   const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [paletteDraft, setPaletteDraft] = useState<PaletteSwatch[]>([]);
   const [tagSearch, setTagSearch] = useState("");
   const [viewerAssetId, setViewerAssetId] = useState<Id<"assets"> | null>(null);
   const viewerContentRef = useRef<HTMLDivElement | null>(null);
@@ -404,9 +418,25 @@ export const Library: React.FC<LibraryProps> = ({
     if (!searchResults) return new Set<string>();
     return new Set(searchResults.map((asset) => String(asset._id)));
   }, [searchResults]);
+  const paletteResults = useQuery(
+    api.assetsColor.searchByPalette,
+    filters.palette.length > 0
+      ? {
+          colors: filters.palette,
+          type: filters.type !== "all" ? filters.type : undefined,
+          limit: 200,
+        }
+      : "skip",
+  );
   const updateMetadata = useMutation(api.assets.updateMetadata);
   const deleteAsset = useMutation(api.assets.deleteAsset);
 
+  useEffect(() => {
+    if (initialPalette && initialPalette.length > 0) {
+      setFilters((prev) => ({ ...prev, palette: initialPalette }));
+    }
+  }, [initialPalette]);
+
   useEffect(() => {
     setFilters((prev) => {
       const isCurrentTypeAllowed =
@@ -636,13 +666,16 @@ export const Library: React.FC<LibraryProps> = ({
   }, [allAssets]);
 
   const forcedAssetOrderMap = useMemo(() => {
-    if (!forcedAssetOrder) return null;
+    const order =
+      forcedAssetOrder ??
+      (filters.palette.length > 0 ? (paletteResults ?? []).map((result) => result.assetId) : null);
+    if (!order) return null;
     const map = new Map<string, number>();
-    forcedAssetOrder.forEach((id, index) => {
+    order.forEach((id, index) => {
       map.set(String(id), index);
     });
     return map;
-  }, [forcedAssetOrder]);
+  }, [forcedAssetOrder, filters.palette.length, paletteResults]);
 
   const filteredAssets = useMemo(() => {
     if (!allAssets) return [] as Doc<"assets">[];
@@ -707,7 +740,8 @@ export const Library: React.FC<LibraryProps> = ({
     Boolean(filters.search) ||
     filters.type !== defaultFilterType ||
     Boolean(filters.tagQuery.trim()) ||
-    Boolean(filters.color);
+    Boolean(filters.color) ||
+    filters.palette.length > 0;
 
   const viewerItems = filteredAssets;
   const viewerIndex = viewerAssetId
@@ -1070,10 +1104,16 @@ export const Library: React.FC<LibraryProps> = ({
       type: defaultFilterType,
       tagQuery: "",
       color: null,
+      palette: [],
     }));
     onTagsChange?.([]);
   };
 
+  const openPalettePicker = () => {
+    setPaletteDraft(filters.palette.length > 0 ? filters.palette : []);
+    setIsPaletteOpen(true);
+  };
+
   const isLoading = allAssets === undefined;
 
   const renderAssetCard = (asset: Doc<"assets">) => {
@@ -1185,6 +1225,20 @@ export const Library: React.FC<LibraryProps> = ({
                 </>
               )}
             </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="relative h-10 w-10 justify-center px-0 sm:w-auto sm:gap-2 sm:px-4"
+              onClick={openPalettePicker}
+              aria-label="Search by palette"
+            >
+              {filters.palette.length > 0 ? (
+                <PaletteStrip swatches={filters.palette} />
+              ) : (
+                <Palette className="h-4 w-4" />
+              )}
+              <span className="hidden sm:inline">Palette</span>
+            </Button>
           </div>
 
           {/* Row 2 (mobile): actions fill width; on desktop this sits to the right. */}
@@ -1207,6 +1261,60 @@ export const Library: React.FC<LibraryProps> = ({
         </div>
       </div>
 
+      <Dialog open={isPaletteOpen} onOpenChange={setIsPaletteOpen}>
+        <DialogContent className="z-[120] sm:max-w-[460px] bg-white text-gray-900">
+          <DialogHeader>
+            <DialogTitle>Search by palette</DialogTitle>
+            <DialogDescription className="text-sm text-gray-500">
+              References are ranked by how closely their colors match; heavier colors count more.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <PalettePicker value={paletteDraft} onChange={setPaletteDraft} />
+            {colorClusters.length > 0 && paletteDraft.length < MAX_PALETTE_SWATCHES && (
+              <div className="space-y-2">
+                <p className="text-xs font-semibold uppercase text-gray-500">From your library</p>
+                <div className="flex flex-wrap gap-2">
+                  {colorClusters.map((cluster) => (
+                    <button
+                      key={cluster.rep}
+                      className="h-7 w-7 rounded-full border border-gray-200"
+                      style={{ backgroundColor: cluster.rep }}
+                      onClick={() =>
+                        setPaletteDraft((prev) =>
+                          prev.length < MAX_PALETTE_SWATCHES ? [...prev, { hex: cluster.rep, weight: 1 }] : prev,
+                        )
+                      }
+                      title={`Add ${cluster.rep}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter className="justify-between">
+            <Button
+              variant="ghost"
+              onClick={() => {
+                handleFilterChange("palette", []);
+                setIsPaletteOpen(false);
+              }}
+            >
+              Clear
+            </Button>
+            <Button
+              onClick={() => {
+                handleFilterChange("palette", paletteDraft);
+                setIsPaletteOpen(false);
+              }}
+              disabled={paletteDraft.length === 0}
+            >
+              Search
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isFilterOpen} onOpenChange={setIsFilterOpen}>
         <DialogContent className="z-[120] sm:max-w-[520px] bg-white text-gray-900">
           <DialogHeader>
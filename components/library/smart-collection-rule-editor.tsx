@@ -0,0 +1,245 @@
+"use client";
+
+import React from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type SmartCollectionRule = {
+  types?: string[];
+  tags?: string[];
+  tagMatch?: "any" | "all";
+  color?: { hex: string; maxDistance: number };
+  orientation?: "landscape" | "portrait" | "square";
+  minDurationSeconds?: number;
+  maxDurationSeconds?: number;
+  createdAfter?: number;
+  createdBefore?: number;
+  text?: string;
+};
+
+// Form state keeps raw input strings; toSmartCollectionRule turns it into the stored rule.
+export type SmartCollectionRuleDraft = {
+  type: string;
+  tags: string;
+  tagMatch: "any" | "all";
+  useColor: boolean;
+  color: string;
+  colorTolerance: number;
+  orientation: string;
+  minDuration: string;
+  maxDuration: string;
+  createdAfter: string;
+  createdBefore: string;
+  text: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const emptySmartCollectionRuleDraft = (): SmartCollectionRuleDraft => ({
+  type: "any",
+  tags: "",
+  tagMatch: "any",
+  useColor: false,
+  color: "#3b82f6",
+  colorTolerance: 60,
+  orientation: "any",
+  minDuration: "",
+  maxDuration: "",
+  createdAfter: "",
+  createdBefore: "",
+  text: "",
+});
+
+const toDateInput = (timestamp?: number) =>
+  typeof timestamp === "number" ? new Date(timestamp).toISOString().slice(0, 10) : "";
+
+const parseNumber = (value: string) => {
+  const n = Number(value);
+  return value.trim() && Number.isFinite(n) ? n : undefined;
+};
+
+const parseDate = (value: string) => {
+  const ms = value ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  return Number.isFinite(ms) ? ms : undefined;
+};
+
+export const smartCollectionRuleToDraft = (rule: SmartCollectionRule | null | undefined): SmartCollectionRuleDraft => {
+  const draft = emptySmartCollectionRuleDraft();
+  if (!rule) return draft;
+  return {
+    ...draft,
+    type: rule.types?.[0] ?? "any",
+    tags: (rule.tags ?? []).join(", "),
+    tagMatch: rule.tagMatch ?? "any",
+    useColor: Boolean(rule.color),
+    color: rule.color?.hex ?? draft.color,
+    colorTolerance: rule.color?.maxDistance ?? draft.colorTolerance,
+    orientation: rule.orientation ?? "any",
+    minDuration: rule.minDurationSeconds?.toString() ?? "",
+    maxDuration: rule.maxDurationSeconds?.toString() ?? "",
+    createdAfter: toDateInput(rule.createdAfter),
+    // Stored as an exclusive bound; the form shows the last included day.
+    createdBefore: toDateInput(rule.createdBefore !== undefined ? rule.createdBefore - DAY_MS : undefined),
+    text: rule.text ?? "",
+  };
+};
+
+/** Returns null when the draft has no criteria. */
+export const toSmartCollectionRule = (draft: SmartCollectionRuleDraft): SmartCollectionRule | null => {
+  const tags = draft.tags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  const createdBefore = parseDate(draft.createdBefore);
+  const rule: SmartCollectionRule = {
+    types: draft.type !== "any" ? [draft.type] : undefined,
+    tags: tags.length ? tags : undefined,
+    tagMatch: tags.length ? draft.tagMatch : undefined,
+    color: draft.useColor ? { hex: draft.color, maxDistance: draft.colorTolerance } : undefined,
+    orientation: draft.orientation !== "any" ? (draft.orientation as SmartCollectionRule["orientation"]) : undefined,
+    minDurationSeconds: parseNumber(draft.minDuration),
+    maxDurationSeconds: parseNumber(draft.maxDuration),
+    createdAfter: parseDate(draft.createdAfter),
+    createdBefore: createdBefore !== undefined ? createdBefore + DAY_MS : undefined,
+    text: draft.text.trim() || undefined,
+  };
+  const hasCriteria = Object.values(rule).some((value) => value !== undefined);
+  return hasCriteria ? rule : null;
+};
+
+export const describeSmartCollectionRule = (rule: SmartCollectionRule) => {
+  const parts: string[] = [];
+  if (rule.types?.length) parts.push(`${rule.types.join(" or ")}s`);
+  if (rule.tags?.length) parts.push(`tagged ${rule.tags.join(rule.tagMatch === "all" ? " + " : " / ")}`);
+  if (rule.color) parts.push(`close to ${rule.color.hex}`);
+  if (rule.orientation) parts.push(rule.orientation);
+  if (rule.minDurationSeconds !== undefined || rule.maxDurationSeconds !== undefined) {
+    parts.push(`${rule.minDurationSeconds ?? 0}-${rule.maxDurationSeconds ?? "∞"}s long`);
+  }
+  if (rule.createdAfter !== undefined) parts.push(`added from ${toDateInput(rule.createdAfter)}`);
+  if (rule.createdBefore !== undefined) parts.push(`added until ${toDateInput(rule.createdBefore - DAY_MS)}`);
+  if (rule.text) parts.push(`matching "${rule.text}"`);
+  return parts.join(", ");
+};
+
+const fieldLabel = "text-xs font-semibold uppercase text-gray-500";
+
+export const SmartCollectionRuleEditor: React.FC<{
+  value: SmartCollectionRuleDraft;
+  onChange: (next: SmartCollectionRuleDraft) => void;
+}> = ({ value, onChange }) => {
+  const set = <K extends keyof SmartCollectionRuleDraft>(key: K, next: SmartCollectionRuleDraft[K]) =>
+    onChange({ ...value, [key]: next });
+
+  return (
+    <div className="grid gap-4 rounded-2xl border border-gray-200 bg-gray-50/60 p-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <label className={fieldLabel}>Type</label>
+          <Select value={value.type} onValueChange={(next) => set("type", next)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="image">Images</SelectItem>
+              <SelectItem value="video">Videos</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className={fieldLabel}>Orientation</label>
+          <Select value={value.orientation} onValueChange={(next) => set("orientation", next)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="landscape">Landscape</SelectItem>
+              <SelectItem value="portrait">Portrait</SelectItem>
+              <SelectItem value="square">Square</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={fieldLabel}>Tags</label>
+        <div className="flex gap-2">
+          <Input
+            value={value.tags}
+            onChange={(e) => set("tags", e.target.value)}
+            placeholder="e.g. portrait, neon"
+          />
+          <Select value={value.tagMatch} onValueChange={(next: any) => set("tagMatch", next)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              <SelectItem value="any">Any tag</SelectItem>
+              <SelectItem value="all">All tags</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-[11px] text-gray-500">Matches your own tags and the AI tags added during analysis.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className={fieldLabel}>Search text</label>
+        <Input value={value.text} onChange={(e) => set("text", e.target.value)} placeholder="Words in title, captions or tags" />
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs font-semibold uppercase text-gray-500">
+          <input type="checkbox" checked={value.useColor} onChange={(e) => set("useColor", e.target.checked)} />
+          Dominant color
+        </label>
+        {value.useColor && (
+          <div className="flex items-center gap-3">
+            <input
+              type="color"
+              value={value.color}
+              onChange={(e) => set("color", e.target.value)}
+              className="h-9 w-12 cursor-pointer rounded-md border border-gray-200 bg-white"
+              aria-label="Color"
+            />
+            <input
+              type="range"
+              min={10}
+              max={160}
+              step={5}
+              value={value.colorTolerance}
+              onChange={(e) => set("colorTolerance", Number(e.target.value))}
+              className="flex-1"
+              aria-label="Color tolerance"
+            />
+            <span className="w-16 text-right text-xs text-gray-500">±{value.colorTolerance}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <label className={fieldLabel}>Duration (seconds)</label>
+          <div className="flex items-center gap-2">
+            <Input inputMode="decimal" value={value.minDuration} onChange={(e) => set("minDuration", e.target.value)} placeholder="Min" />
+            <Input inputMode="decimal" value={value.maxDuration} onChange={(e) => set("maxDuration", e.target.value)} placeholder="Max" />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className={fieldLabel}>Added between</label>
+          <div className="flex items-center gap-2">
+            <Input type="date" value={value.createdAfter} onChange={(e) => set("createdAfter", e.target.value)} />
+            <Input type="date" value={value.createdBefore} onChange={(e) => set("createdBefore", e.target.value)} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useRef } from "react";
 import { ReviewComment } from "@/types/canvas";
-import { CheckCircle } from "lucide-react";
+import { CheckCircle, Paperclip } from "lucide-react";
 import { CreateCommentInput } from "./CreateCommentInput";
 
 interface CommentBubbleProps {
@@ -433,7 +433,9 @@ export function CommentBubble({
           e.stopPropagation();
           e.preventDefault();
         }}
-        title={`${comment.createdByName}: ${comment.content}`}
+        title={`${comment.createdByName}: ${comment.content}${
+          comment.attachments?.length ? `\n${comment.attachments.map((attachment) => attachment.name).join(", ")}` : ""
+        }`}
       >
         {/* Gradient overlay for depth */}
         <div className="absolute inset-0 bg-gradient-to-t from-black/10 to-white/10 rounded-full pointer-events-none" />
@@ -494,6 +496,20 @@ export function CommentBubble({
         </div>
       )}
       
+      {/* Attachment Indicator */}
+      {(comment.attachments?.length ?? 0) > 0 && (
+        <div
+          className="absolute bg-white text-gray-700 rounded-full border-2 border-gray-100 flex items-center justify-center shadow-lg"
+          style={{
+            width: badgeSize * 0.75,
+            height: badgeSize * 0.75,
+            left: 11 - badgeSize * 0.25, // Mirrors the resolved indicator on the bubble's bottom-left
+            top: 11 + size - 1,
+          }}
+        >
+          <Paperclip style={{ width: badgeSize * 0.45, height: badgeSize * 0.45 }} />
+        </div>
+      )}
       
       {/* Intelligently Positioned Popup */}
       {showPopup && (
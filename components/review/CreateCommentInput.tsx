@@ -21,6 +21,13 @@ import {
 import { formatDistanceToNow } from "date-fns";
 import { enUS } from "date-fns/locale";
 import { ReviewDeleteConfirmation } from "./ReviewDeleteConfirmation";
+import {
+  AttachFilesButton,
+  CommentAttachmentList,
+  CommentAttachmentUploader,
+  PendingAttachmentChips,
+  useCommentAttachmentUploads,
+} from "@/components/CommentAttachments";
 
 interface CreateCommentInputProps {
   sessionId: string;
@@ -40,6 +47,8 @@ interface CreateCommentInputProps {
   replies?: ReviewComment[];
   onCommentUpdate?: () => void;
   scale?: number;
+  // Attaching files is offered only when the host can upload them.
+  onUploadAttachment?: CommentAttachmentUploader;
 }
 
 export function CreateCommentInput({
@@ -57,7 +66,8 @@ export function CreateCommentInput({
   onCommentUpdate,
   scale = 1,
   canvasSize,
-  normalize = false
+  normalize = false,
+  onUploadAttachment
 }: CreateCommentInputProps) {
   const [commentText, setCommentText] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -74,6 +84,9 @@ export function CreateCommentInput({
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [commentToDelete, setCommentToDelete] = useState<string | null>(null);
+  const commentAttachments = useCommentAttachmentUploads(onUploadAttachment);
+  const replyAttachments = useCommentAttachmentUploads(onUploadAttachment);
+  const isDark = theme === 'dark';
   
   // Convex mutations
   const createComment = useMutation(api.review.createComment);
@@ -129,7 +142,7 @@ export function CreateCommentInput({
   }, [onCancel]);
   
   const handleSubmit = async () => {
-    if (!commentText.trim() || isSubmitting) return;
+    if (!commentText.trim() || isSubmitting || commentAttachments.uploading) return;
     
     setIsSubmitting(true);
     try {
@@ -142,10 +155,12 @@ export function CreateCommentInput({
         frameNumber,
         frameTimestamp,
         content: commentText.trim(),
-        position: posToSave
+        position: posToSave,
+        attachments: commentAttachments.attachments.length > 0 ? commentAttachments.attachments : undefined
       });
       
       setCommentText("");
+      commentAttachments.reset();
       onCommentCreated?.();
     } catch (error) {
       console.error("Error creating comment:", error);
@@ -156,7 +171,7 @@ export function CreateCommentInput({
 
   // Reply handling
   const handleReply = async () => {
-    if (!replyText.trim() || isSubmitting || !existingComment) return;
+    if (!replyText.trim() || isSubmitting || !existingComment || replyAttachments.uploading) return;
     
     setIsSubmitting(true);
     try {
@@ -167,10 +182,12 @@ export function CreateCommentInput({
         frameTimestamp: existingComment.frameTimestamp,
         content: replyText.trim(),
         position: existingComment.position,
-        threadId: existingComment.threadId
+        threadId: existingComment.threadId,
+        attachments: replyAttachments.attachments.length > 0 ? replyAttachments.attachments : undefined
       });
       
       setReplyText("");
+      replyAttachments.reset();
       onCommentUpdate?.();
     } catch (error) {
       console.error("Error creating reply:", error);
@@ -498,6 +515,7 @@ export function CreateCommentInput({
                       }
                     }}
                   />
+                  <PendingAttachmentChips pending={commentAttachments.pending} onRemove={commentAttachments.remove} isDark={isDark} />
                 </div>
               </div>
             ) : (
@@ -577,6 +595,7 @@ export function CreateCommentInput({
                         ) : (
                           <div className={`text-xs leading-relaxed ${themeClasses.textSecondary}`}>
                             {mainComment.content}
+                            <CommentAttachmentList attachments={mainComment.attachments} isDark={isDark} />
                           </div>
                         )}
                         
@@ -673,6 +692,7 @@ export function CreateCommentInput({
                               <div className="space-y-1">
                                 <div className={`text-xs leading-relaxed ${themeClasses.textSecondary}`}>
                                   {reply.content}
+                                  <CommentAttachmentList attachments={reply.attachments} isDark={isDark} />
                                 </div>
                                 {/* Reply actions */}
                                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -712,13 +732,16 @@ export function CreateCommentInput({
             {mode === 'create' ? (
               /* Create Mode Footer */
               <div className="flex items-center justify-between">
-                <span className={`text-xs ${themeClasses.textMuted}`}>
+                <span className={`flex items-center gap-1 text-xs ${themeClasses.textMuted}`}>
+                  {commentAttachments.enabled && (
+                    <AttachFilesButton onFiles={commentAttachments.addFiles} isDark={isDark} disabled={isSubmitting} />
+                  )}
                   Shift+Enter
                 </span>
                 
                 <Button
                   onClick={handleSubmit}
-                  disabled={!commentText.trim() || isSubmitting}
+                  disabled={!commentText.trim() || isSubmitting || commentAttachments.uploading}
                   className="gap-1 rounded-md bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 text-xs transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
                   size="sm"
                 >
@@ -754,17 +777,21 @@ export function CreateCommentInput({
                       }
                     }}
                   />
+                  <PendingAttachmentChips pending={replyAttachments.pending} onRemove={replyAttachments.remove} isDark={isDark} />
                 </div>
                 
                 {/* Actions */}
                 <div className="flex items-center justify-between">
-                  <span className={`text-xs ${themeClasses.textMuted}`}>
+                  <span className={`flex items-center gap-1 text-xs ${themeClasses.textMuted}`}>
+                    {replyAttachments.enabled && (
+                      <AttachFilesButton onFiles={replyAttachments.addFiles} isDark={isDark} disabled={isSubmitting} />
+                    )}
                     Shift+Enter
                   </span>
                   
                   <Button
                     onClick={handleReply}
-                    disabled={!replyText.trim() || isSubmitting}
+                    disabled={!replyText.trim() || isSubmitting || replyAttachments.uploading}
                     className="gap-1 rounded-md bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 text-xs transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
                     size="sm"
                   >
@@ -30,6 +30,15 @@ import {
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { enUS } from "date-fns/locale";
+import { CommentAttachmentList } from "@/components/CommentAttachments";
+import {
+  COMMENT_STATUS_LABELS,
+  COMMENT_STATUSES,
+  CommentStatusFilter,
+  commentStatusOf,
+  isCommentOverdue,
+  matchesCommentTaskFilters,
+} from "@/utils/commentTasks";
 
 interface ReviewCommentsSidebarProps {
   session: ReviewSession;
@@ -38,6 +47,8 @@ interface ReviewCommentsSidebarProps {
   showComments: boolean;
   theme?: 'dark' | 'light';
   onFrameJump?: (frameNumber: number) => void;
+  // Enables the "Assigned to me" filter.
+  currentUserId?: string | null;
 }
 
 export function ReviewCommentsSidebar({
@@ -46,9 +57,12 @@ export function ReviewCommentsSidebar({
   currentFrame,
   showComments,
   theme = 'light',
-  onFrameJump
+  onFrameJump,
+  currentUserId = null
 }: ReviewCommentsSidebarProps) {
-  const [filterStatus, setFilterStatus] = useState<"all" | "open" | "resolved">("all");
+  const [filterStatus, setFilterStatus] = useState<CommentStatusFilter>("all");
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [overdueOnly, setOverdueOnly] = useState(false);
   const [frameFilter, setFrameFilter] = useState<"current" | "all">("all"); // Filter per frame - default: tutti i frame
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [replyText, setReplyText] = useState("");
@@ -98,8 +112,7 @@ export function ReviewCommentsSidebar({
 
   // Filter and search comments
   const filteredComments = comments.filter(comment => {
-    // Status filter
-    if (filterStatus !== "all" && comment.status !== filterStatus) return false;
+    if (!matchesCommentTaskFilters(comment, { status: filterStatus, assignedToMe, overdueOnly }, currentUserId)) return false;
     
     // Frame filter - NEW: Use frameFilter state
     if (frameFilter === "current" && currentFrame !== undefined && comment.frameNumber !== currentFrame) {
@@ -416,17 +429,20 @@ export function ReviewCommentsSidebar({
                 <label className={`text-xs font-semibold ${themeClasses.text.secondary} uppercase tracking-wide`}>
                   Status
                 </label>
-                <div className="flex gap-2">
+                <div className="flex flex-wrap gap-2">
                   {[
-                    { key: "all", label: "All", count: comments.length },
-                    { key: "open", label: "Open", count: comments.filter(c => c.status === "open").length },
-                    { key: "resolved", label: "Resolved", count: comments.filter(c => c.status === "resolved").length }
+                    { key: "all" as const, label: "All", count: comments.length },
+                    ...COMMENT_STATUSES.map((key) => ({
+                      key,
+                      label: COMMENT_STATUS_LABELS[key],
+                      count: comments.filter(c => commentStatusOf(c) === key).length,
+                    })),
                   ].map((status) => (
                     <Button
                       key={status.key}
                       variant={filterStatus === status.key ? "default" : "ghost"}
                       size="sm"
-                      onClick={() => setFilterStatus(status.key as any)}
+                      onClick={() => setFilterStatus(status.key)}
                       className="text-xs gap-2 rounded-lg"
                     >
                       <span>{status.label}</span>
@@ -438,6 +454,33 @@ export function ReviewCommentsSidebar({
                 </div>
               </div>
 
+              {/* Task Filters */}
+              <div className="flex gap-2">
+                {currentUserId && (
+                  <Button
+                    variant={assignedToMe ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setAssignedToMe((v) => !v)}
+                    className="text-xs gap-2 rounded-lg"
+                  >
+                    <Users className="h-3 w-3" />
+                    <span>Assigned to me</span>
+                  </Button>
+                )}
+                <Button
+                  variant={overdueOnly ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setOverdueOnly((v) => !v)}
+                  className="text-xs gap-2 rounded-lg"
+                >
+                  <Calendar className="h-3 w-3" />
+                  <span>Overdue</span>
+                  <Badge variant="secondary" className="text-xs px-1.5 py-0">
+                    {comments.filter(c => isCommentOverdue(c)).length}
+                  </Badge>
+                </Button>
+              </div>
+
               {/* Frame Filters */}
               {currentFrame !== undefined && (
                 <div className="space-y-2">
@@ -669,6 +712,7 @@ export function ReviewCommentsSidebar({
                         ) : (
                           <div className={`text-xs leading-relaxed ${themeClasses.text.secondary}`}>
                             {main.content}
+                            <CommentAttachmentList attachments={main.attachments} isDark={theme === 'dark'} />
                           </div>
                         )}
 
@@ -860,6 +904,7 @@ export function ReviewCommentsSidebar({
                               ) : (
                                 <div className={`text-xs leading-relaxed ${themeClasses.text.secondary}`}>
                                   {reply.content}
+                                  <CommentAttachmentList attachments={reply.attachments} isDark={theme === 'dark'} />
                                 </div>
                               )}
                             </div>
@@ -992,6 +992,7 @@ export function ReviewInterface({ session }: ReviewInterfaceProps) {
                 showComments={showComments}
                 theme={theme}
                 onFrameJump={handleFrameJump}
+                currentUserId={user?.id ?? null}
               />
               
               <div className={`border-t ${baseClasses.separator}`}>
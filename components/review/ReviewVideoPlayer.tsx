@@ -1962,6 +1962,7 @@ export function ReviewVideoPlayer({
             >
               <ReviewAnnotationLayer
                 annotations={currentFrameAnnotations as any}
+                displayFrame={displayFrame}
                 canvasState={canvasState || { tool: 'select', color: '#000', strokeWidth: 2, opacity: 1, isDrawing: false, zoom: 1, pan: { x: 0, y: 0 } }}
                 applyTransform={false}
                 canvasSize={{ width: canvasNativeWidth, height: canvasNativeHeight }}
@@ -3,7 +3,9 @@ import { useAction, useMutation, useQuery } from "convex/react";
 import {
   Activity,
   AlertTriangle,
+  Bell,
   Cable,
+  Check,
   ChevronDown,
   ChevronLeft,
   ChevronRight,
@@ -13,12 +15,14 @@ import {
   Expand,
   FileText,
   ImageIcon,
+  LayoutTemplate,
   Link2,
   Minus,
   Pin,
   PinOff,
   Play,
   Plus,
+  RotateCcw,
   SquarePen,
   Search,
   Sparkles,
@@ -26,6 +30,7 @@ import {
   Trash2,
   Upload,
   Video,
+  WandSparkles,
   X,
 } from "lucide-react";
 import { toast } from "sonner";
@@ -49,9 +54,24 @@ import {
   normalizeNanoBananaUiConfig,
   normalizeSubnetworkNodeType,
 } from "@/lib/nano-banana-models";
+import { normalizeVeo3UiConfig, VEO3_CAPABILITIES, VEO3_MODEL_OPTIONS } from "@/lib/veo3-models";
+import { normalizeLlmRewriteUiConfig, TEXT_LLM_MODEL_OPTIONS } from "@/lib/text-llm-models";
 import { isAiGoogleBatchEnabled } from "@/lib/feature-flags";
 import { cn } from "@/lib/utils";
 import type { AiNodeType } from "@/types/ai-subnetwork";
+import type { AiOutputDragItem, AiOutputGridPayload, AiSweep } from "@/utils/aiSweep";
+import { extractTemplateVariables, templateVariablePort } from "@/utils/promptTemplate";
+import { listTemplateParameterFields, templateParameterKey } from "@/utils/subnetworkTemplates";
+import {
+  AI_OUTPUT_GRID_MIME_TYPE,
+  contactSheetColumns,
+  countSweepVariants,
+  formatReferenceSubsets,
+  MAX_SWEEP_REPEATS,
+  MAX_SWEEP_VARIANTS,
+  normalizeAiSweep,
+  parseReferenceSubsets,
+} from "@/utils/aiSweep";
 
 const MIN_ZOOM = 0.35;
 const MAX_ZOOM = 2.2;
@@ -79,7 +99,7 @@ type PortDefinition = {
 };
 
 type NodeTemplate = {
-  type: "prompt" | "image_reference" | "nano_banana" | "veo3";
+  type: "prompt" | "prompt_template" | "llm_rewrite" | "image_reference" | "nano_banana" | "veo3";
   title: string;
   description: string;
   icon: React.ComponentType<{ className?: string }>;
@@ -137,6 +157,30 @@ const NODE_TEMPLATES: NodeTemplate[] = [
       text: "",
     },
   },
+  {
+    type: "prompt_template",
+    title: "Prompt Template",
+    description: "Prompt text with {{variable}} slots filled from upstream text nodes",
+    icon: FileText,
+    accentClass: "text-sky-700",
+    borderClass: "border-sky-200",
+    glowClass: "shadow-[0_0_0_1px_rgba(14,165,233,0.35),0_10px_26px_rgba(2,132,199,0.18)]",
+    size: { width: 272, height: 196 },
+    defaultConfig: {
+      template: "",
+    },
+  },
+  {
+    type: "llm_rewrite",
+    title: "LLM Rewrite",
+    description: "Text model that expands or rewrites an upstream prompt",
+    icon: WandSparkles,
+    accentClass: "text-violet-700",
+    borderClass: "border-violet-200",
+    glowClass: "shadow-[0_0_0_1px_rgba(139,92,246,0.35),0_10px_26px_rgba(109,40,217,0.18)]",
+    size: { width: 286, height: 196 },
+    defaultConfig: normalizeLlmRewriteUiConfig({}),
+  },
   {
     type: "image_reference",
     title: "Image Reference",
@@ -170,11 +214,7 @@ const NODE_TEMPLATES: NodeTemplate[] = [
     borderClass: "border-fuchsia-200",
     glowClass: "shadow-[0_0_0_1px_rgba(217,70,239,0.32),0_10px_26px_rgba(162,28,175,0.16)]",
     size: { width: 286, height: 192 },
-    defaultConfig: {
-      durationSeconds: 6,
-      resolution: "1080p",
-      aspectRatio: "16:9",
-    },
+    defaultConfig: normalizeVeo3UiConfig({}),
   },
 ];
 
@@ -183,6 +223,15 @@ const NODE_PORTS: Record<string, { inputs: PortDefinition[]; outputs: PortDefini
     inputs: [],
     outputs: [{ id: "prompt", label: "Prompt", kind: "text" }],
   },
+  // Template inputs come from its {{variable}} slots, see getNodePorts.
+  prompt_template: {
+    inputs: [],
+    outputs: [{ id: "prompt", label: "Prompt", kind: "text" }],
+  },
+  llm_rewrite: {
+    inputs: [{ id: "text", label: "Text", kind: "text" }],
+    outputs: [{ id: "prompt", label: "Prompt", kind: "text" }],
+  },
   image_reference: {
     inputs: [],
     outputs: [{ id: "images", label: "Images", kind: "images" }],
@@ -247,9 +296,18 @@ const clonePlain = <T,>(value: T): T => {
   }
 };
 
-const getNodePorts = (type: string) => {
+const getNodePorts = (type: string, config?: any) => {
   const normalized = normalizeSubnetworkNodeType(type);
-  return NODE_PORTS[normalized] ?? { inputs: [], outputs: [] };
+  const ports = NODE_PORTS[normalized] ?? { inputs: [], outputs: [] };
+  if (normalized !== "prompt_template") return ports;
+  return {
+    ...ports,
+    inputs: extractTemplateVariables(String(config?.template ?? "")).map((name) => ({
+      id: templateVariablePort(name),
+      label: name,
+      kind: "text" as const,
+    })),
+  };
 };
 
 const getPortWorldPoint = (
@@ -290,14 +348,20 @@ const getErrorMessage = (error: unknown) => {
     return "Connection rejected: a node cannot connect to itself.";
   }
   if (raw.includes("CONFIG_INVALID_PROMPT_REQUIRED")) {
-    return "Nano Banana requires a connected Prompt node.";
+    return "Generation nodes require a connected Prompt node.";
   }
   if (raw.includes("CONFIG_INVALID_PROMPT_SOURCE")) {
-    return "Nano Banana prompt input must come from a Prompt node.";
+    return "Prompt input must come from a Prompt, Prompt Template or LLM Rewrite node.";
   }
   if (raw.includes("CONFIG_INVALID_PROMPT_EMPTY")) {
     return "Prompt input is empty. Add text in the Prompt node.";
   }
+  if (raw.includes("CONFIG_INVALID_PROMPT_REWRITE_NOT_RUN")) {
+    return "A connected LLM Rewrite node has no output yet. Run it first, or run the whole flow.";
+  }
+  if (raw.includes("CONFIG_INVALID_TEMPLATE_VARIABLE_UNCONNECTED")) {
+    return "Every {{variable}} in a Prompt Template needs a connected text input.";
+  }
   if (raw.includes("CONFIG_INVALID_REFERENCE_LIMIT")) {
     return "Too many references for selected model. Reduce connected image references.";
   }
@@ -310,15 +374,75 @@ const getErrorMessage = (error: unknown) => {
   if (raw.includes("CONFIG_INVALID_GROUNDING_UNSUPPORTED")) {
     return "Search grounding is not supported for the selected model.";
   }
+  if (raw.includes("CONFIG_INVALID_DURATION")) {
+    return "Selected duration is not valid for the current model.";
+  }
+  if (raw.includes("CONFIG_INVALID_RESOLUTION")) {
+    return "Selected resolution is not valid for the current model.";
+  }
+  if (raw.includes("CONFIG_INVALID_FRAME_SOURCE")) {
+    return "Start and end frames must come from an Image Reference node.";
+  }
+  if (raw.includes("CONFIG_INVALID_FRAME_EMPTY")) {
+    return "The connected frame node has no image.";
+  }
+  if (raw.includes("CONFIG_INVALID_END_FRAME_UNSUPPORTED")) {
+    return "The selected Veo model does not support an end frame.";
+  }
+  if (raw.includes("CONFIG_INVALID_END_FRAME_REQUIRES_START_FRAME")) {
+    return "An end frame needs a connected start frame.";
+  }
   if (raw.includes("CONFIG_BATCH_DISABLED")) {
     return "Batch mode is currently disabled.";
   }
+  if (raw.includes("AI_BUDGET_INVALID_LIMIT")) {
+    return "Budget limits must be positive, and the soft limit can't exceed the hard limit.";
+  }
+  if (raw.includes("AI_TEMPLATE_EMPTY")) {
+    return "Add at least one node before saving a template.";
+  }
+  if (raw.includes("AI_TEMPLATE_TITLE_REQUIRED")) {
+    return "Template title is required.";
+  }
+  if (raw.includes("AI_TEMPLATE_TITLE_TOO_LONG")) {
+    return "Template title must be at most 120 characters.";
+  }
+  if (raw.includes("AI_TEMPLATE_TOO_MANY_PARAMETERS")) {
+    return "A template can expose at most 24 parameters.";
+  }
+  if (raw.includes("AI_TEMPLATE_PARAMETER_NODE_NOT_FOUND") || raw.includes("AI_TEMPLATE_PARAMETER_UNSUPPORTED")) {
+    return "An exposed parameter no longer matches a node in this subnetwork.";
+  }
+  if (raw.includes("AI_TEMPLATE_NOT_FOUND") || raw.includes("AI_TEMPLATE_VERSION_NOT_FOUND")) {
+    return "Template not found. It may have been archived.";
+  }
+  if (raw.includes("GROUP_NOT_FOUND")) {
+    return "Share group not found.";
+  }
   if (raw.includes("FORBIDDEN")) {
     return "Action not allowed for your current role.";
   }
   return raw;
 };
 
+type BudgetScope = "user" | "board" | "subnetwork";
+
+const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  user: "You",
+  board: "Board",
+  subnetwork: "Subnetwork",
+};
+
+const describeBudgetBlock = (block: { scope: BudgetScope; limitUsd: number; projectedUsd: number }) =>
+  `Run blocked: ${BUDGET_SCOPE_LABELS[block.scope].toLowerCase()} monthly hard limit of $${block.limitUsd.toFixed(2)} would be exceeded ($${block.projectedUsd.toFixed(2)}).`;
+
+const parseLimitInput = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+};
+
 const formatStatus = (status: string) =>
   status
     .replaceAll("_", " ")
@@ -576,6 +700,648 @@ const PresenceTracker = () => {
   return null;
 };
 
+const BudgetRow = ({
+  subnetworkId,
+  budget,
+}: {
+  subnetworkId: Id<"aiSubnetworks">;
+  budget: {
+    scope: BudgetScope;
+    softLimitUsd: number | null;
+    hardLimitUsd: number | null;
+    spentUsd: number;
+    canEdit: boolean;
+  };
+}) => {
+  const setBudget = useMutation(api.aiBudgets.setBudget);
+  const [editing, setEditing] = useState(false);
+  const [softDraft, setSoftDraft] = useState("");
+  const [hardDraft, setHardDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const startEditing = () => {
+    setSoftDraft(budget.softLimitUsd === null ? "" : String(budget.softLimitUsd));
+    setHardDraft(budget.hardLimitUsd === null ? "" : String(budget.hardLimitUsd));
+    setEditing(true);
+  };
+
+  const save = async (soft: number | undefined, hard: number | undefined) => {
+    if (Number.isNaN(soft) || Number.isNaN(hard)) {
+      toast.error("Enter limits as dollar amounts.");
+      return;
+    }
+    try {
+      setSaving(true);
+      await setBudget({ subnetworkId, scope: budget.scope, softLimitUsd: soft, hardLimitUsd: hard });
+      setEditing(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const limit = budget.hardLimitUsd ?? budget.softLimitUsd;
+  const usage = limit ? Math.min(1, budget.spentUsd / limit) : 0;
+  const overHard = budget.hardLimitUsd !== null && budget.spentUsd >= budget.hardLimitUsd;
+  const overSoft = budget.softLimitUsd !== null && budget.spentUsd >= budget.softLimitUsd;
+
+  return (
+    <div className="rounded-lg border border-black/10 bg-[#fafafa] px-2.5 py-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-black">{BUDGET_SCOPE_LABELS[budget.scope]}</span>
+        <span className="flex items-center gap-2">
+          <span className="text-black/55">
+            {formatUsd(budget.spentUsd)}
+            {limit !== null && <> / ${limit.toFixed(2)}</>}
+          </span>
+          {budget.canEdit && !editing && (
+            <button type="button" onClick={startEditing} className="text-[11px] font-semibold text-black/55 hover:text-black">
+              {limit === null ? "Set" : "Edit"}
+            </button>
+          )}
+        </span>
+      </div>
+      {limit !== null && (
+        <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-black/10">
+          <div
+            className={cn("h-full rounded-full", overHard ? "bg-rose-500" : overSoft ? "bg-amber-500" : "bg-emerald-500")}
+            style={{ width: `${usage * 100}%` }}
+          />
+        </div>
+      )}
+      {!editing && (budget.softLimitUsd !== null || budget.hardLimitUsd !== null) && (
+        <p className="mt-1 text-[11px] text-black/45">
+          {budget.softLimitUsd !== null && <>Alert at ${budget.softLimitUsd.toFixed(2)}</>}
+          {budget.softLimitUsd !== null && budget.hardLimitUsd !== null && " · "}
+          {budget.hardLimitUsd !== null && <>Block at ${budget.hardLimitUsd.toFixed(2)}</>}
+        </p>
+      )}
+      {editing && (
+        <div className="mt-2 space-y-1.5">
+          <div className="grid grid-cols-2 gap-1.5">
+            <label className="text-[10px] uppercase tracking-wide text-black/45">
+              Soft (alert)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={softDraft}
+                placeholder="None"
+                onChange={(event) => setSoftDraft(event.target.value)}
+                className={cn(INPUT_CLASS, "mt-0.5 h-8 text-xs")}
+              />
+            </label>
+            <label className="text-[10px] uppercase tracking-wide text-black/45">
+              Hard (block)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={hardDraft}
+                placeholder="None"
+                onChange={(event) => setHardDraft(event.target.value)}
+                className={cn(INPUT_CLASS, "mt-0.5 h-8 text-xs")}
+              />
+            </label>
+          </div>
+          <div className="flex items-center justify-end gap-1.5">
+            {(budget.softLimitUsd !== null || budget.hardLimitUsd !== null) && (
+              <button
+                type="button"
+                disabled={saving}
+                onClick={() => void save(undefined, undefined)}
+                className="mr-auto text-[11px] font-semibold text-rose-600 hover:text-rose-700 disabled:opacity-45"
+              >
+                Remove
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="inline-flex h-7 items-center rounded-lg border border-black/15 bg-white px-2 text-[11px] font-semibold text-black/70"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void save(parseLimitInput(softDraft), parseLimitInput(hardDraft))}
+              className="inline-flex h-7 items-center rounded-lg border border-black bg-black px-2 text-[11px] font-semibold text-white disabled:opacity-45"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BudgetsPanel = ({ subnetworkId, canWrite }: { subnetworkId: Id<"aiSubnetworks">; canWrite: boolean }) => {
+  const budgets = useQuery(api.aiBudgets.getForSubnetwork, { subnetworkId });
+  const alerts = useQuery(api.aiBudgets.listAlerts, { subnetworkId });
+  const acknowledgeAlert = useMutation(api.aiBudgets.acknowledgeAlert);
+  const resolveAlert = useMutation(api.aiBudgets.resolveAlert);
+
+  const runAlertAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const openCount = (alerts ?? []).filter((alert) => alert.status === "open").length;
+
+  return (
+    <>
+      <div className={cn(PANEL_CARD_CLASS, "mb-3")}>
+        <div className="flex items-center justify-between">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.12em] text-black/45">Monthly budgets</p>
+          {budgets && <span className="text-[11px] text-black/40">{budgets.monthKey}</span>}
+        </div>
+        <div className="mt-2.5 space-y-1.5 text-xs text-black/70">
+          {(budgets?.budgets ?? []).map((budget) => (
+            <BudgetRow
+              key={budget.scope}
+              subnetworkId={subnetworkId}
+              budget={{ ...budget, canEdit: budget.canEdit && (budget.scope === "user" || canWrite) }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className={cn(PANEL_CARD_CLASS, "mb-3")}>
+        <div className="flex items-center justify-between">
+          <p className="inline-flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-[0.12em] text-black/45">
+            <Bell className="h-3.5 w-3.5" />
+            Alerts
+          </p>
+          {openCount > 0 && (
+            <span className="rounded-full bg-rose-500 px-1.5 py-0.5 text-[10px] font-semibold text-white">{openCount}</span>
+          )}
+        </div>
+        <div className="mt-2.5 max-h-[220px] space-y-1.5 overflow-y-auto pr-1 text-xs">
+          {(alerts ?? []).map((alert) => (
+            <div
+              key={alert._id}
+              className={cn(
+                "rounded-xl border px-2.5 py-2",
+                alert.status === "open"
+                  ? alert.severity === "critical"
+                    ? "border-rose-200 bg-rose-50"
+                    : "border-amber-200 bg-amber-50"
+                  : "border-black/10 bg-white"
+              )}
+            >
+              <p className="flex items-start gap-1.5 text-black/80">
+                <AlertTriangle
+                  className={cn("mt-0.5 h-3.5 w-3.5 shrink-0", alert.severity === "critical" ? "text-rose-600" : "text-amber-600")}
+                />
+                <span>{alert.message}</span>
+              </p>
+              <div className="mt-1.5 flex items-center justify-between gap-2 text-black/45">
+                <span>
+                  {new Date(alert.triggeredAt).toLocaleString()}
+                  {alert.status === "acknowledged" && " · Acknowledged"}
+                </span>
+                <span className="flex items-center gap-1">
+                  {alert.status === "open" && (
+                    <button
+                      type="button"
+                      onClick={() => void runAlertAction(() => acknowledgeAlert({ alertId: alert._id }))}
+                      className="inline-flex h-6 items-center rounded-lg border border-black/15 bg-white px-1.5 text-[11px] font-semibold text-black/70 hover:border-black/35"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => void runAlertAction(() => resolveAlert({ alertId: alert._id }))}
+                    className="inline-flex h-6 items-center gap-1 rounded-lg border border-black/15 bg-white px-1.5 text-[11px] font-semibold text-black/70 hover:border-black/35"
+                  >
+                    <Check className="h-3 w-3" />
+                    Resolve
+                  </button>
+                </span>
+              </div>
+            </div>
+          ))}
+          {(alerts ?? []).length === 0 && (
+            <div className="rounded-xl border border-dashed border-black/20 px-3 py-3 text-center text-black/45">
+              No budget alerts.
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+type TemplatePanelNode = {
+  _id: Id<"aiNodes">;
+  type: string;
+  title: string;
+};
+
+// Saves the subnetwork as a shared template, or publishes a new version of the template it came from.
+const TemplatePanel = ({
+  subnetworkId,
+  nodes,
+  canWrite,
+}: {
+  subnetworkId: Id<"aiSubnetworks">;
+  nodes: TemplatePanelNode[];
+  canWrite: boolean;
+}) => {
+  const origin = useQuery(api.aiSubnetworkTemplates.getOrigin, { subnetworkId });
+  const groups = useQuery(api.shareGroups.list);
+  const createTemplate = useMutation(api.aiSubnetworkTemplates.create);
+  const publishVersion = useMutation(api.aiSubnetworkTemplates.publishVersion);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [groupId, setGroupId] = useState("");
+  const [changeNote, setChangeNote] = useState("");
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canPublish = Boolean(origin?.isOwner);
+  const fieldRows = nodes.flatMap((node) =>
+    listTemplateParameterFields(node.type).map((field) => ({
+      key: templateParameterKey(String(node._id), field.field),
+      nodeId: String(node._id),
+      field: field.field,
+      label: `${node.title} · ${field.label}`,
+    }))
+  );
+
+  const startEditing = () => {
+    setTitle(origin?.title ?? "");
+    setDescription(origin?.description ?? "");
+    setGroupId(origin?.groupId ? String(origin.groupId) : "");
+    setChangeNote("");
+    setSelectedKeys(
+      canPublish ? (origin?.parameters ?? []).map((parameter) => templateParameterKey(parameter.nodeId, parameter.field)) : []
+    );
+    setIsEditing(true);
+  };
+
+  const toggleKey = (key: string) =>
+    setSelectedKeys((current) => (current.includes(key) ? current.filter((item) => item !== key) : [...current, key]));
+
+  const handleSave = async (mode: "create" | "publish") => {
+    const labelByKey = new Map(
+      (origin?.parameters ?? []).map((parameter) => [templateParameterKey(parameter.nodeId, parameter.field), parameter.label])
+    );
+    const parameters = fieldRows
+      .filter((row) => selectedKeys.includes(row.key))
+      .map((row) => ({
+        nodeId: row.nodeId,
+        field: row.field,
+        label: mode === "publish" ? labelByKey.get(row.key) : undefined,
+      }));
+
+    setIsSaving(true);
+    try {
+      if (mode === "publish" && origin) {
+        const result = await publishVersion({
+          templateId: origin.templateId,
+          subnetworkId,
+          parameters,
+          changeNote: changeNote.trim() || undefined,
+        });
+        toast.success(`Published ${origin.title} v${result.version}.`);
+      } else {
+        await createTemplate({
+          subnetworkId,
+          title,
+          description: description.trim() || undefined,
+          groupId: groupId ? (groupId as Id<"shareGroups">) : undefined,
+          parameters,
+        });
+        toast.success("Template saved.");
+      }
+      setIsEditing(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={cn(PANEL_CARD_CLASS, "mb-3")}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="inline-flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-[0.12em] text-black/45">
+          <LayoutTemplate className="h-3.5 w-3.5" />
+          Template
+        </p>
+        {canWrite && !isEditing && (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="inline-flex h-7 items-center rounded-lg border border-black/15 bg-white px-2 text-[11px] font-semibold text-black/70 hover:border-black/35"
+          >
+            {canPublish ? "Publish version" : "Save as template"}
+          </button>
+        )}
+      </div>
+
+      {origin ? (
+        <p className="mt-2 text-xs text-black/70">
+          From <span className="font-semibold text-black">{origin.title}</span>
+          {origin.version !== null && ` · v${origin.version}`}
+          {origin.version !== null && origin.version < origin.latestVersion && (
+            <span className="text-amber-700"> (v{origin.latestVersion} available)</span>
+          )}
+        </p>
+      ) : (
+        !isEditing && <p className="mt-2 text-xs text-black/45">Save this flow to reuse it on any board.</p>
+      )}
+
+      {isEditing && (
+        <div className="mt-2.5 space-y-2 text-xs">
+          {!canPublish && (
+            <>
+              <input
+                value={title}
+                onChange={(event) => setTitle(event.target.value)}
+                maxLength={120}
+                placeholder="Template title"
+                className={INPUT_CLASS}
+              />
+              <textarea
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                rows={2}
+                placeholder="Description (optional)"
+                className={cn(TEXTAREA_CLASS, "text-xs")}
+              />
+              <label className="block text-[11px] uppercase tracking-wide text-black/45">Share with</label>
+              <select value={groupId} onChange={(event) => setGroupId(event.target.value)} className={INPUT_CLASS}>
+                <option value="">Only me</option>
+                {(groups ?? []).map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+
+          <label className="block text-[11px] uppercase tracking-wide text-black/45">Exposed parameters</label>
+          <div className="max-h-[180px] space-y-1 overflow-y-auto pr-1">
+            {fieldRows.map((row) => (
+              <label key={row.key} className="flex items-center justify-between gap-2 rounded-lg border border-black/10 bg-[#fafafa] px-2.5 py-1.5">
+                <span className="truncate text-black/75">{row.label}</span>
+                <input
+                  type="checkbox"
+                  checked={selectedKeys.includes(row.key)}
+                  onChange={() => toggleKey(row.key)}
+                  className="h-4 w-4 accent-black"
+                />
+              </label>
+            ))}
+            {fieldRows.length === 0 && (
+              <div className="rounded-xl border border-dashed border-black/20 px-3 py-3 text-center text-black/45">
+                No nodes with parameters yet.
+              </div>
+            )}
+          </div>
+
+          {canPublish && (
+            <textarea
+              value={changeNote}
+              onChange={(event) => setChangeNote(event.target.value)}
+              rows={2}
+              placeholder="What changed in this version?"
+              className={cn(TEXTAREA_CLASS, "text-xs")}
+            />
+          )}
+
+          <div className="flex items-center justify-end gap-1.5">
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="inline-flex h-7 items-center rounded-lg border border-black/15 bg-white px-2 text-[11px] font-semibold text-black/70 hover:border-black/35"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={isSaving || (!canPublish && !title.trim())}
+              onClick={() => void handleSave(canPublish ? "publish" : "create")}
+              className="inline-flex h-7 items-center rounded-lg bg-black px-2 text-[11px] font-semibold text-white disabled:opacity-45"
+            >
+              {canPublish ? `Publish v${(origin?.latestVersion ?? 0) + 1}` : "Save template"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SWEEP_CHIP_CLASS =
+  "inline-flex h-7 items-center rounded-lg border px-2 text-[11px] font-semibold transition disabled:opacity-45";
+
+// Axis editor for a nano banana node's sweep. Free-text fields commit on blur so typing isn't
+// fought by normalization; the parent keys it by node so they reset on selection.
+const SweepEditor = ({
+  sweep,
+  aspectRatios,
+  imageSizes,
+  referenceCount,
+  onChange,
+}: {
+  sweep?: AiSweep;
+  aspectRatios: string[];
+  imageSizes: string[];
+  referenceCount: number;
+  onChange: (sweep: AiSweep | undefined) => void;
+}) => {
+  const [fragmentsText, setFragmentsText] = useState(() => (sweep?.promptFragments ?? []).join("\n"));
+  const [subsetsText, setSubsetsText] = useState(() => formatReferenceSubsets(sweep?.referenceSubsets));
+
+  const update = (patch: Partial<AiSweep>) => onChange(normalizeAiSweep({ ...(sweep ?? {}), ...patch }));
+  const toggle = (key: "aspectRatios" | "imageSizes", value: string) => {
+    const current = sweep?.[key] ?? [];
+    update({ [key]: current.includes(value) ? current.filter((item) => item !== value) : [...current, value] });
+  };
+
+  const variantCount = countSweepVariants(sweep);
+  const tooMany = variantCount > MAX_SWEEP_VARIANTS;
+  const missingReference = (sweep?.referenceSubsets ?? []).some((subset) =>
+    subset.some((number) => number > referenceCount)
+  );
+
+  const renderChips = (key: "aspectRatios" | "imageSizes", values: string[]) => (
+    <div className="flex flex-wrap gap-1">
+      {values.map((value) => {
+        const active = sweep?.[key]?.includes(value) ?? false;
+        return (
+          <button
+            key={value}
+            type="button"
+            onClick={() => toggle(key, value)}
+            className={cn(
+              SWEEP_CHIP_CLASS,
+              active ? "border-black bg-black text-white" : "border-black/15 bg-white text-black/65 hover:border-black/35"
+            )}
+          >
+            {value}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2 rounded-xl border border-black/10 bg-[#fafafa] px-3 py-2.5">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-black">Sweep</span>
+        <span
+          className={cn(
+            "rounded-full border px-1.5 py-0.5 text-[10px] font-semibold",
+            tooMany ? "border-rose-200 bg-rose-50 text-rose-700" : "border-black/10 bg-white text-black/55"
+          )}
+        >
+          {variantCount} {variantCount === 1 ? "run" : "variants"}
+        </span>
+      </div>
+
+      <label className="block text-[11px] uppercase tracking-wide text-black/45">Prompt fragments</label>
+      <textarea
+        value={fragmentsText}
+        onChange={(event) => setFragmentsText(event.target.value)}
+        onBlur={() => update({ promptFragments: fragmentsText.split("\n") })}
+        rows={3}
+        placeholder="One per line, appended to the prompt"
+        className={cn(TEXTAREA_CLASS, "text-xs")}
+      />
+
+      <label className="block text-[11px] uppercase tracking-wide text-black/45">Aspect ratios</label>
+      {renderChips("aspectRatios", aspectRatios)}
+
+      <label className="block text-[11px] uppercase tracking-wide text-black/45">Image sizes</label>
+      {renderChips("imageSizes", imageSizes)}
+
+      <label className="block text-[11px] uppercase tracking-wide text-black/45">Reference subsets</label>
+      <input
+        value={subsetsText}
+        onChange={(event) => setSubsetsText(event.target.value)}
+        onBlur={() => {
+          const referenceSubsets = parseReferenceSubsets(subsetsText);
+          update({ referenceSubsets });
+          setSubsetsText(formatReferenceSubsets(referenceSubsets));
+        }}
+        placeholder="e.g. 1,2; 3; none"
+        className={cn(INPUT_CLASS, "h-8 text-xs")}
+      />
+
+      <label className="block text-[11px] uppercase tracking-wide text-black/45">Repeats</label>
+      <input
+        type="number"
+        min={1}
+        max={MAX_SWEEP_REPEATS}
+        value={sweep?.repeats ?? 1}
+        onChange={(event) => update({ repeats: Number(event.target.value) })}
+        className={cn(INPUT_CLASS, "h-8 w-20 text-xs")}
+      />
+
+      <p className="text-[11px] text-black/50">Runs when this node is launched alone; workflow runs use the base settings.</p>
+      {tooMany && (
+        <p className="text-[11px] text-rose-600">A sweep can run at most {MAX_SWEEP_VARIANTS} variants.</p>
+      )}
+      {missingReference && (
+        <p className="text-[11px] text-rose-600">
+          A subset uses a reference number above the {referenceCount} connected.
+        </p>
+      )}
+    </div>
+  );
+};
+
+type SweepSheetCell = {
+  run: any;
+  output: any | null;
+};
+
+const toOutputDragItem = (output: any, title?: string): AiOutputDragItem => ({
+  outputType: output.outputType,
+  title: title ?? output.title,
+  publicUrl: output.publicUrl,
+  storageKey: output.storageKey,
+  mimeType: output.mimeType,
+  width: output.width,
+  height: output.height,
+});
+
+// Latest sweep of the selected node, one labelled cell per variant. Dragging the sheet onto a
+// board (e.g. in another window) drops the finished variants as a grid of image layers.
+const SweepContactSheet = ({ workflowRun, cells }: { workflowRun: any; cells: SweepSheetCell[] }) => {
+  const finished = cells.filter((cell) => cell.output?.publicUrl);
+  const columns = contactSheetColumns(cells.length);
+
+  return (
+    <div className={PANEL_CARD_CLASS}>
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-black">Sweep Contact Sheet</p>
+        <span
+          className={cn(
+            "inline-flex rounded-full border px-1.5 py-0.5 text-[10px] font-semibold",
+            getRunToneClasses(workflowRun.status)
+          )}
+        >
+          {workflowRun.completedNodeCount ?? 0}/{workflowRun.nodeCount ?? cells.length} · {formatStatus(workflowRun.status)}
+        </span>
+      </div>
+      <div
+        draggable={finished.length > 0}
+        onDragStart={(event) => {
+          const payload: AiOutputGridPayload = {
+            columns: contactSheetColumns(finished.length),
+            outputs: finished.map((cell) => toOutputDragItem(cell.output, cell.run.sweepLabel)),
+          };
+          event.dataTransfer.setData(AI_OUTPUT_GRID_MIME_TYPE, JSON.stringify(payload));
+          event.dataTransfer.effectAllowed = "copy";
+        }}
+        className="grid gap-1.5"
+        style={{ gridTemplateColumns: `repeat(${Math.min(columns, 4)}, minmax(0, 1fr))` }}
+        title={finished.length > 0 ? "Drag onto a board to place the sheet as a grid" : undefined}
+      >
+        {cells.map(({ run, output }) => (
+          <figure key={run._id} className="min-w-0">
+            {output?.publicUrl && output.mimeType?.startsWith("image/") ? (
+              <img
+                src={output.publicUrl}
+                alt={run.sweepLabel ?? "Variant"}
+                draggable={false}
+                className="aspect-square w-full rounded-lg border border-black/10 object-cover"
+              />
+            ) : (
+              <div
+                className={cn(
+                  "flex aspect-square w-full items-center justify-center rounded-lg border border-dashed text-[10px] font-semibold",
+                  getRunToneClasses(run.status)
+                )}
+              >
+                {formatStatus(run.status)}
+              </div>
+            )}
+            <figcaption className="mt-0.5 truncate text-[10px] text-black/60" title={run.sweepLabel}>
+              {run.sweepLabel ?? `#${(run.sweepIndex ?? 0) + 1}`}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) => {
   const permissions = useResourcePermissions("board", boardId as Id<"boards">);
   const canWrite = permissions.canWrite;
@@ -1379,7 +2145,13 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
       const id = String(node._id);
       const normalizedType = normalizeSubnetworkNodeType(node.type);
       const normalizedConfig =
-        normalizedType === "nano_banana" ? normalizeNanoBananaUiConfig(node.config) : node.config;
+        normalizedType === "nano_banana"
+          ? normalizeNanoBananaUiConfig(node.config)
+          : normalizedType === "veo3"
+            ? normalizeVeo3UiConfig(node.config)
+            : normalizedType === "llm_rewrite"
+              ? normalizeLlmRewriteUiConfig(node.config)
+              : node.config;
       const normalizedNode =
         normalizedType === node.type && normalizedConfig === node.config
           ? node
@@ -1389,7 +2161,7 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
               config: normalizedConfig,
             };
       const template = getTemplateForType(normalizedType);
-      const ports = getNodePorts(normalizedType);
+      const ports = getNodePorts(normalizedType, normalizedConfig);
       return {
         id,
         node: normalizedNode,
@@ -1455,6 +2227,19 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
     return map;
   }, [nodeRuns]);
 
+  const latestRewriteTextByNodeId = useMemo(() => {
+    const map = new Map<string, string>();
+    const sorted = [...(nodeRuns ?? [])].sort((a: any, b: any) => b.createdAt - a.createdAt);
+    for (const run of sorted) {
+      if (run.nodeType !== "llm_rewrite" || String(run.status ?? "").toLowerCase() !== "done") continue;
+      const key = String(run.nodeId);
+      if (!map.has(key) && typeof run.outputSummary?.text === "string") {
+        map.set(key, run.outputSummary.text);
+      }
+    }
+    return map;
+  }, [nodeRuns]);
+
   const referenceCountByNodeId = useMemo(() => {
     const map = new Map<string, number>();
     const nodeTypeById = new Map(
@@ -1495,6 +2280,28 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
     selectedNanoCapability &&
     selectedNanoReferenceCount > selectedNanoCapability.recommendedReferenceWarningThreshold;
 
+  const selectedVeo3Config =
+    selectedNodeType === "veo3"
+      ? normalizeVeo3UiConfig(nodeDraft?.config ?? selectedNodeLayout?.node?.config)
+      : null;
+  const selectedVeo3Capability = selectedVeo3Config ? VEO3_CAPABILITIES[selectedVeo3Config.modelId] : null;
+  const selectedLlmRewriteConfig =
+    selectedNodeType === "llm_rewrite"
+      ? normalizeLlmRewriteUiConfig(nodeDraft?.config ?? selectedNodeLayout?.node?.config)
+      : null;
+  // Prompt and template text is read by downstream nodes at launch; there is nothing to run.
+  const selectedNodeIsRunnable =
+    selectedNodeType !== "prompt" && selectedNodeType !== "prompt_template" && selectedNodeType !== "image_reference";
+  const selectedVeo3FramePorts = useMemo(() => {
+    const ports = new Set<string>();
+    if (selectedNodeType !== "veo3" || !selectedNodeLayout) return ports;
+    for (const edge of graphEdges) {
+      if (String(edge.targetNodeId) !== selectedNodeLayout.id) continue;
+      if (edge.targetPort === "start_frame" || edge.targetPort === "end_frame") ports.add(edge.targetPort);
+    }
+    return ports;
+  }, [graphEdges, selectedNodeLayout, selectedNodeType]);
+
   const selectedNodeOutputs = useQuery(
     api.aiOutputs.listNodeVersions,
     selectedNodeLayout
@@ -1512,12 +2319,29 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
       .sort((a: any, b: any) => b.createdAt - a.createdAt)
       .slice(0, 10);
   }, [nodeRuns, selectedNodeLayout]);
+  const selectedNodeLatestSweep = useMemo(() => {
+    if (!selectedNodeLayout) return null;
+    const workflowRun = (workflowRuns ?? []).find(
+      (run: any) => run.runType === "sweep" && String(run.triggerNodeId) === selectedNodeLayout.id
+    );
+    if (!workflowRun) return null;
+    const outputByNodeRunId = new Map<string, any>();
+    for (const output of selectedNodeOutputs ?? []) {
+      if (!outputByNodeRunId.has(String(output.nodeRunId))) outputByNodeRunId.set(String(output.nodeRunId), output);
+    }
+    const cells = (nodeRuns ?? [])
+      .filter((run: any) => run.workflowRunId === workflowRun._id)
+      .sort((a: any, b: any) => (a.sweepIndex ?? 0) - (b.sweepIndex ?? 0))
+      .map((run: any) => ({ run, output: outputByNodeRunId.get(String(run._id)) ?? null }));
+    return { workflowRun, cells };
+  }, [nodeRuns, selectedNodeLayout, selectedNodeOutputs, workflowRuns]);
   const selectedNodeActiveRun = selectedNodeLayout
     ? activeNodeRunByNodeId.get(selectedNodeLayout.id) ?? null
     : null;
   const selectedNodeActiveRunStatus = selectedNodeActiveRun
     ? String(selectedNodeActiveRun.status ?? "").toLowerCase()
     : null;
+  const selectedNodeCacheEnabled = selectedNodeLayout?.node.runPolicy?.cacheResults === true;
   const selectedNodeIsBusy = Boolean(
     (selectedNodeLayout && runningNodeId === selectedNodeLayout.id) || selectedNodeActiveRun
   );
@@ -1763,14 +2587,26 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
   );
 
   const handleRunNode = useCallback(
-    async (nodeId: string) => {
+    async (nodeId: string, forceRerun = false) => {
       if (!subnetwork || !canWrite) return;
       try {
         setRunningNodeId(nodeId);
-        await launchNode({
+        const result = await launchNode({
           subnetworkId: subnetwork._id,
           nodeId: nodeId as Id<"aiNodes">,
+          forceRerun: forceRerun || undefined,
         });
+        if ("blocked" in result && result.blocked) {
+          toast.error(describeBudgetBlock(result.blocked));
+        } else if ("sweepVariantCount" in result && result.sweepVariantCount) {
+          toast.success(
+            `Started a sweep of ${result.sweepVariantCount} variants (${formatUsd(result.estimatedUsd)} estimated${
+              result.cachedNodeCount ? `, ${result.cachedNodeCount} cached` : ""
+            }).`
+          );
+        } else if ("cacheHit" in result && result.cacheHit) {
+          toast.success("Reused the result of an identical earlier run at no cost.");
+        }
       } catch (error) {
         toast.error(getErrorMessage(error));
       } finally {
@@ -1780,11 +2616,18 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
     [canWrite, launchNode, subnetwork]
   );
 
-  const handleRunWorkflow = useCallback(async () => {
+  const handleRunWorkflow = useCallback(async (forceRerun = false) => {
     if (!subnetwork || !canWrite) return;
     try {
       setRunningWorkflow(true);
-      await launchWorkflow({ subnetworkId: subnetwork._id });
+      const result = await launchWorkflow({ subnetworkId: subnetwork._id, forceRerun: forceRerun || undefined });
+      if ("blocked" in result && result.blocked) {
+        toast.error(describeBudgetBlock(result.blocked));
+      } else if ("cachedNodeCount" in result && result.cachedNodeCount) {
+        toast.success(
+          `Reused cached results for ${result.cachedNodeCount} node${result.cachedNodeCount === 1 ? "" : "s"}.`
+        );
+      }
     } catch (error) {
       toast.error(getErrorMessage(error));
     } finally {
@@ -2131,6 +2974,15 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                 <span className="text-black/30">|</span>
                 <span>{activeRunsCount} active</span>
               </div>
+              <button
+                type="button"
+                onClick={() => void handleRunWorkflow(true)}
+                disabled={runningWorkflow || nodeLayouts.length === 0}
+                title="Run flow without reusing cached results"
+                className="inline-flex h-10 w-10 items-center justify-center rounded-xl border border-black/15 bg-white text-black/70 transition hover:border-black/35 hover:text-black disabled:cursor-not-allowed disabled:opacity-45"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </button>
               <button
                 type="button"
                 onClick={() => void handleRunWorkflow()}
@@ -2258,9 +3110,13 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                   const Icon = layout.template.icon;
                   const nodeType = normalizeSubnetworkNodeType(layout.node.type);
                   const isPromptNode = nodeType === "prompt";
+                  const isPromptTemplateNode = nodeType === "prompt_template";
+                  const isLlmRewriteNode = nodeType === "llm_rewrite";
                   const isImageReferenceNode = nodeType === "image_reference";
                   const isNanoBananaNode = nodeType === "nano_banana";
-                  const promptText = String((layout.node.config as any)?.text ?? "");
+                  const promptTextField = isPromptTemplateNode ? "template" : "text";
+                  const promptText = String((layout.node.config as any)?.[promptTextField] ?? "");
+                  const rewriteText = latestRewriteTextByNodeId.get(layout.id) ?? null;
                   const imageItems = extractImageReferenceItems(layout.node.config);
                   const primaryImage = imageItems[0] ?? null;
                   const nodeOutputs = outputsByNode.get(layout.id) ?? [];
@@ -2361,7 +3217,7 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                         </div>
                       </div>
 
-                      {isPromptNode ? (
+                      {isPromptNode || isPromptTemplateNode ? (
                         <div className="space-y-2 px-3.5 pb-3 pt-2.5 text-xs text-black/70">
                           <textarea
                             key={`${layout.id}:${layout.node.updatedAt ?? ""}`}
@@ -2379,16 +3235,59 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                                 nodeId: layout.node._id as Id<"aiNodes">,
                                 config: {
                                   ...(layout.node.config ?? {}),
-                                  text: nextText,
+                                  [promptTextField]: nextText,
                                 },
                               }).catch((error) => {
                                 toast.error(getErrorMessage(error));
                               });
                             }}
-                            placeholder="Write your prompt here..."
+                            placeholder={
+                              isPromptTemplateNode
+                                ? "A {{subject}} in the style of {{style}}..."
+                                : "Write your prompt here..."
+                            }
                             className="min-h-[112px] w-full resize-y rounded-xl border border-black/15 bg-white px-3 py-2 text-sm text-black outline-none transition focus:border-black/35"
                           />
-                          <p className="px-1 text-[11px] text-black/55">Output: prompt text</p>
+                          <p className="px-1 text-[11px] text-black/55">
+                            {isPromptTemplateNode
+                              ? layout.inputs.length === 0
+                                ? "No {{variables}} yet · Output: prompt text"
+                                : `${layout.inputs.length} variable${layout.inputs.length === 1 ? "" : "s"} · Output: prompt text`
+                              : "Output: prompt text"}
+                          </p>
+                        </div>
+                      ) : isLlmRewriteNode ? (
+                        <div className="space-y-2.5 px-3.5 pb-3 pt-2.5 text-xs text-black/70">
+                          <div className="relative" onPointerDown={(event) => event.stopPropagation()}>
+                            <div
+                              className={cn(
+                                "max-h-36 min-h-[96px] overflow-y-auto whitespace-pre-wrap rounded-xl border border-black/12 bg-[#f7f7f8] px-3 py-2 text-[12px] leading-snug",
+                                rewriteText ? "text-black/80" : "flex items-center justify-center text-[11px] text-black/50"
+                              )}
+                            >
+                              {rewriteText ?? "No rewrite yet"}
+                            </div>
+                            {isNodeBusy ? (
+                              <div className="pointer-events-none absolute inset-0 z-20 flex items-center justify-center rounded-xl bg-white/68 backdrop-blur-[1px]">
+                                <div className="inline-flex items-center gap-2 rounded-full border border-black/15 bg-white px-3 py-1.5 text-[11px] font-semibold text-black/70 shadow-[0_8px_18px_rgba(15,23,42,0.12)]">
+                                  <span className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-black/25 border-t-black" />
+                                  {isNodeQueued ? "Queued..." : "Processing..."}
+                                </div>
+                              </div>
+                            ) : null}
+                          </div>
+                          <button
+                            type="button"
+                            disabled={isNodeBusy}
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              void handleRunNode(layout.id);
+                            }}
+                            className="inline-flex h-8 w-full items-center justify-center gap-1.5 rounded-xl border border-black/15 bg-white text-xs font-semibold text-black transition hover:border-black/35 hover:bg-black hover:text-white disabled:cursor-not-allowed disabled:opacity-45"
+                          >
+                            <Play className="h-3.5 w-3.5" />
+                            {isNodeQueued ? "Queued..." : isNodeProcessing ? "Running..." : isLaunching ? "Starting..." : "Rewrite"}
+                          </button>
                         </div>
                       ) : isImageReferenceNode ? (
                         <div className="space-y-2 px-3.5 pb-3 pt-2.5 text-xs text-black/70">
@@ -2908,28 +3807,45 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                 </div>
               </div>
 
+              {subnetwork && <BudgetsPanel subnetworkId={subnetwork._id} canWrite={canWrite} />}
+
+              {subnetwork && <TemplatePanel subnetworkId={subnetwork._id} nodes={graphNodes} canWrite={canWrite} />}
+
               <div className="space-y-3">
                 {selectedNodeLayout ? (
                   <div className="space-y-3">
                     <div className={PANEL_CARD_CLASS}>
                       <div className="mb-2.5 flex items-center justify-between gap-2">
                         <p className="text-sm font-semibold text-black">Node Details</p>
-                        {selectedNodeType !== "prompt" && selectedNodeType !== "image_reference" && (
-                          <button
-                            type="button"
-                            onClick={() => void handleRunNode(selectedNodeLayout.id)}
-                            disabled={selectedNodeIsBusy || Boolean(selectedNanoReferencesLimitExceeded)}
-                            className="inline-flex h-8 items-center gap-1 rounded-xl border border-black/15 bg-white px-2.5 text-xs font-semibold text-black transition hover:border-black/35 hover:bg-black hover:text-white disabled:opacity-45"
-                          >
-                            <Play className="h-3.5 w-3.5" />
-                            {selectedNodeActiveRunStatus === "queued"
-                              ? "Queued..."
-                              : selectedNodeActiveRunStatus === "processing"
-                              ? "Running..."
-                              : runningNodeId === selectedNodeLayout.id
-                              ? "Starting..."
-                              : "Run"}
-                          </button>
+                        {selectedNodeIsRunnable && (
+                          <div className="flex items-center gap-1">
+                            {selectedNodeCacheEnabled && (
+                              <button
+                                type="button"
+                                onClick={() => void handleRunNode(selectedNodeLayout.id, true)}
+                                disabled={selectedNodeIsBusy || Boolean(selectedNanoReferencesLimitExceeded)}
+                                title="Run fresh, ignoring cached results"
+                                className="inline-flex h-8 w-8 items-center justify-center rounded-xl border border-black/15 bg-white text-black/70 transition hover:border-black/35 hover:text-black disabled:opacity-45"
+                              >
+                                <RotateCcw className="h-3.5 w-3.5" />
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => void handleRunNode(selectedNodeLayout.id)}
+                              disabled={selectedNodeIsBusy || Boolean(selectedNanoReferencesLimitExceeded)}
+                              className="inline-flex h-8 items-center gap-1 rounded-xl border border-black/15 bg-white px-2.5 text-xs font-semibold text-black transition hover:border-black/35 hover:bg-black hover:text-white disabled:opacity-45"
+                            >
+                              <Play className="h-3.5 w-3.5" />
+                              {selectedNodeActiveRunStatus === "queued"
+                                ? "Queued..."
+                                : selectedNodeActiveRunStatus === "processing"
+                                ? "Running..."
+                                : runningNodeId === selectedNodeLayout.id
+                                ? "Starting..."
+                                : "Run"}
+                            </button>
+                          </div>
                         )}
                       </div>
 
@@ -2951,18 +3867,92 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                       />
 
                       <div className="mt-3 space-y-2 text-xs text-black/70">
+                        {selectedNodeIsRunnable && selectedNodeType !== "llm_rewrite" && (
+                          <label className="flex items-center justify-between gap-3 rounded-xl border border-black/10 bg-[#fafafa] px-3 py-2">
+                            <span>
+                              <span className="block font-semibold text-black">Reuse identical results</span>
+                              <span className="block text-[11px] text-black/50">
+                                Same prompt, references and settings reuse the last output instead of billing again.
+                              </span>
+                            </span>
+                            <input
+                              type="checkbox"
+                              checked={selectedNodeCacheEnabled}
+                              disabled={!canWrite}
+                              onChange={(event) =>
+                                void updateNode({
+                                  nodeId: selectedNodeLayout.node._id as Id<"aiNodes">,
+                                  runPolicy: { ...(selectedNodeLayout.node.runPolicy ?? {}), cacheResults: event.target.checked },
+                                }).catch((error) => toast.error(getErrorMessage(error)))
+                              }
+                              className="h-4 w-4 accent-black"
+                            />
+                          </label>
+                        )}
                         {selectedNodeType === "prompt" && (
                           <div className="rounded-xl border border-black/10 bg-[#fafafa] px-3 py-2 text-[11px] text-black/60">
                             Prompt text is edited directly inside the node.
                           </div>
                         )}
 
+                        {selectedNodeType === "prompt_template" && (
+                          <div className="rounded-xl border border-black/10 bg-[#fafafa] px-3 py-2 text-[11px] text-black/60">
+                            Write the template inside the node. Each {"{{variable}}"} becomes an input port; connect a
+                            Prompt, Prompt Template or LLM Rewrite node to fill it.
+                          </div>
+                        )}
+
                         {selectedNodeType === "image_reference" && (
                           <div className="rounded-xl border border-black/10 bg-[#fafafa] px-3 py-2 text-[11px] text-black/60">
                             Image references are created by dropping images on the canvas.
                           </div>
                         )}
 
+                        {selectedNodeType === "llm_rewrite" && selectedLlmRewriteConfig && (
+                          <>
+                            <label className="text-[11px] uppercase tracking-wide text-black/45">Model</label>
+                            <select
+                              value={selectedLlmRewriteConfig.modelId}
+                              onChange={(event) => updateNodeDraftConfig({ modelId: event.target.value })}
+                              className={INPUT_CLASS}
+                            >
+                              {TEXT_LLM_MODEL_OPTIONS.map((model) => (
+                                <option key={model.id} value={model.id}>
+                                  {model.label}
+                                </option>
+                              ))}
+                            </select>
+
+                            <label className="text-[11px] uppercase tracking-wide text-black/45">Instruction</label>
+                            <textarea
+                              value={
+                                typeof nodeDraft?.config?.instruction === "string"
+                                  ? nodeDraft.config.instruction
+                                  : selectedLlmRewriteConfig.instruction
+                              }
+                              onChange={(event) => updateNodeDraftConfig({ instruction: event.target.value })}
+                              rows={4}
+                              className={cn(TEXTAREA_CLASS, "resize-y")}
+                            />
+
+                            <label className="text-[11px] uppercase tracking-wide text-black/45">Temperature</label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={2}
+                              step={0.1}
+                              value={selectedLlmRewriteConfig.temperature}
+                              onChange={(event) => updateNodeDraftConfig({ temperature: Number(event.target.value) })}
+                              className={INPUT_CLASS}
+                            />
+
+                            <div className="rounded-xl border border-black/10 bg-[#fafafa] px-3 py-2 text-[11px] text-black/60">
+                              Connect text to the Text input. The rewritten prompt feeds any node with a prompt input;
+                              in a workflow run the rewrite runs first.
+                            </div>
+                          </>
+                        )}
+
                         {selectedNodeType === "nano_banana" && selectedNanoConfig && selectedNanoCapability && (
                           <>
                             <label className="text-[11px] uppercase tracking-wide text-black/45">Model</label>
@@ -3089,46 +4079,116 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                             >
                               References connected: {selectedNanoReferenceCount}/{selectedNanoCapability.maxReferences}
                             </div>
+
+                            <SweepEditor
+                              key={selectedNodeLayout.id}
+                              sweep={selectedNanoConfig.sweep}
+                              aspectRatios={selectedNanoCapability.aspectRatios}
+                              imageSizes={selectedNanoCapability.imageSizes}
+                              referenceCount={selectedNanoReferenceCount}
+                              onChange={(sweep) => updateNodeDraftConfig({ ...selectedNanoConfig, sweep })}
+                            />
                           </>
                         )}
 
-                        {selectedNodeType === "veo3" && (
+                        {selectedNodeType === "veo3" && selectedVeo3Config && selectedVeo3Capability && (
                           <>
-                            <label className="text-[11px] uppercase tracking-wide text-black/45">Duration (s)</label>
-                            <input
-                              type="number"
-                              min={3}
-                              max={12}
-                              value={Number(nodeDraft?.config?.durationSeconds ?? 6)}
+                            <label className="text-[11px] uppercase tracking-wide text-black/45">Model</label>
+                            <select
+                              value={selectedVeo3Config.modelId}
+                              onChange={(event) =>
+                                updateNodeDraftConfig(
+                                  normalizeVeo3UiConfig({
+                                    ...(nodeDraft?.config ?? {}),
+                                    modelId: event.target.value,
+                                  })
+                                )
+                              }
+                              className={INPUT_CLASS}
+                            >
+                              {VEO3_MODEL_OPTIONS.map((model) => (
+                                <option key={model.id} value={model.id}>
+                                  {model.label}
+                                </option>
+                              ))}
+                            </select>
+
+                            <label className="text-[11px] uppercase tracking-wide text-black/45">Duration</label>
+                            <select
+                              value={selectedVeo3Config.durationSeconds}
                               onChange={(event) =>
                                 updateNodeDraftConfig({
-                                  durationSeconds: clamp(Number(event.target.value) || 6, 3, 12),
+                                  ...selectedVeo3Config,
+                                  durationSeconds: Number(event.target.value),
                                 })
                               }
                               className={INPUT_CLASS}
-                            />
+                            >
+                              {selectedVeo3Capability.durationsSeconds.map((seconds) => (
+                                <option key={seconds} value={seconds}>
+                                  {seconds}s
+                                </option>
+                              ))}
+                            </select>
 
                             <label className="text-[11px] uppercase tracking-wide text-black/45">Resolution</label>
                             <select
-                              value={String(nodeDraft?.config?.resolution ?? "1080p")}
-                              onChange={(event) => updateNodeDraftConfig({ resolution: event.target.value })}
+                              value={selectedVeo3Config.resolution}
+                              onChange={(event) =>
+                                updateNodeDraftConfig({
+                                  ...selectedVeo3Config,
+                                  resolution: event.target.value,
+                                })
+                              }
                               className={INPUT_CLASS}
                             >
-                              <option value="720p">720p</option>
-                              <option value="1080p">1080p</option>
-                              <option value="4k">4K</option>
+                              {selectedVeo3Capability.resolutions.map((resolution) => (
+                                <option key={resolution} value={resolution}>
+                                  {resolution}
+                                </option>
+                              ))}
                             </select>
 
                             <label className="text-[11px] uppercase tracking-wide text-black/45">Aspect ratio</label>
                             <select
-                              value={String(nodeDraft?.config?.aspectRatio ?? "16:9")}
-                              onChange={(event) => updateNodeDraftConfig({ aspectRatio: event.target.value })}
+                              value={selectedVeo3Config.aspectRatio}
+                              onChange={(event) =>
+                                updateNodeDraftConfig({
+                                  ...selectedVeo3Config,
+                                  aspectRatio: event.target.value,
+                                })
+                              }
                               className={INPUT_CLASS}
                             >
-                              <option value="16:9">16:9</option>
-                              <option value="9:16">9:16</option>
-                              <option value="1:1">1:1</option>
+                              {selectedVeo3Capability.aspectRatios.map((ratio) => (
+                                <option key={ratio} value={ratio}>
+                                  {ratio}
+                                </option>
+                              ))}
                             </select>
+
+                            <div
+                              className={cn(
+                                "rounded-xl border px-3 py-2 text-[11px]",
+                                selectedVeo3FramePorts.has("end_frame") &&
+                                  (!selectedVeo3Capability.supportsEndFrame || !selectedVeo3FramePorts.has("start_frame"))
+                                  ? "border-rose-200 bg-rose-50 text-rose-700"
+                                  : "border-black/10 bg-[#fafafa] text-black/60"
+                              )}
+                            >
+                              {selectedVeo3FramePorts.has("end_frame") && !selectedVeo3Capability.supportsEndFrame
+                                ? "This model does not support an end frame."
+                                : selectedVeo3FramePorts.has("end_frame") && !selectedVeo3FramePorts.has("start_frame")
+                                ? "An end frame needs a start frame."
+                                : `Frames connected: ${
+                                    [
+                                      selectedVeo3FramePorts.has("start_frame") ? "start" : null,
+                                      selectedVeo3FramePorts.has("end_frame") ? "end" : null,
+                                    ]
+                                      .filter(Boolean)
+                                      .join(" + ") || "none"
+                                  }`}
+                            </div>
                           </>
                         )}
                       </div>
@@ -3186,6 +4246,13 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                       </div>
                     </div>
 
+                    {selectedNodeLatestSweep && (
+                      <SweepContactSheet
+                        workflowRun={selectedNodeLatestSweep.workflowRun}
+                        cells={selectedNodeLatestSweep.cells}
+                      />
+                    )}
+
                     <div className={PANEL_CARD_CLASS}>
                       <div className="mb-2 flex items-center justify-between">
                         <p className="text-sm font-semibold text-black">Output Versions</p>
@@ -3262,6 +4329,7 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                                 )}
                               >
                                 {formatStatus(run.status)}
+                                {run.cacheHit ? " · Cached" : ""}
                               </span>
                               <span className="text-black/45">
                                 {new Date(run.createdAt).toLocaleTimeString([], {
@@ -3270,6 +4338,7 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                                 })}
                               </span>
                             </div>
+                            {run.sweepLabel && <p className="mt-1 truncate text-[10px] text-black/70">{run.sweepLabel}</p>}
                             {(run.providerModelId || run.executionMode) && (
                               <p className="mt-1 text-[10px] text-black/55">
                                 {run.providerModelId ? run.providerModelId : "model n/a"}
@@ -3343,7 +4412,7 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                       <div key={run._id} className="rounded-xl border border-black/10 bg-white px-2.5 py-2 text-xs">
                         <div className="flex items-center justify-between">
                           <span className="font-semibold text-black">
-                            {run.runType === "workflow" ? "Flow" : "Node"}
+                            {run.runType === "workflow" ? "Flow" : run.runType === "sweep" ? `Sweep · ${run.nodeCount ?? 0}` : "Node"}
                           </span>
                           <span
                             className={cn(
@@ -3391,6 +4460,7 @@ const EditorSurface = ({ boardId, subnetworkId, onBack }: SubnetworkPageProps) =
                             )}
                           >
                             {formatStatus(run.status)}
+                            {run.cacheHit ? " · Cached" : ""}
                           </span>
                         </div>
                         <p className="mt-1 text-black/45">{new Date(run.createdAt).toLocaleTimeString()}</p>
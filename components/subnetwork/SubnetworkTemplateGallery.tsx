@@ -0,0 +1,264 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { LayoutTemplate, Users } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { NANO_BANANA_CAPABILITIES, normalizeNanoBananaUiConfig } from "@/lib/nano-banana-models";
+import { normalizeVeo3UiConfig, VEO3_CAPABILITIES } from "@/lib/veo3-models";
+import { cn } from "@/lib/utils";
+import { findTemplateParameterField } from "@/utils/subnetworkTemplates";
+
+const INPUT_CLASS =
+  "h-9 w-full rounded-xl border border-black/15 bg-white px-3 text-sm text-black outline-none transition focus:border-black/40";
+const TEXTAREA_CLASS =
+  "w-full rounded-xl border border-black/15 bg-white px-3 py-2 text-sm text-black outline-none transition focus:border-black/40";
+
+// Choices for select parameters, taken from the capabilities of the node's model.
+const getSelectOptions = (nodeType: string, field: string, nodeConfig: unknown): string[] => {
+  if (nodeType === "nano_banana") {
+    const capability = NANO_BANANA_CAPABILITIES[normalizeNanoBananaUiConfig(nodeConfig).modelId];
+    if (field === "aspectRatio") return capability.aspectRatios;
+    if (field === "imageSize") return capability.imageSizes;
+  }
+  if (nodeType === "veo3") {
+    const capability = VEO3_CAPABILITIES[normalizeVeo3UiConfig(nodeConfig).modelId];
+    if (field === "aspectRatio") return capability.aspectRatios;
+    if (field === "resolution") return capability.resolutions;
+    if (field === "durationSeconds") return capability.durationsSeconds.map(String);
+  }
+  return [];
+};
+
+const getInstantiateErrorMessage = (error: unknown) => {
+  const code = typeof error === "object" && error && "data" in (error as any) ? String((error as any).data) : "";
+  if (code.includes("AI_TEMPLATE_TITLE_TOO_LONG")) return "Title must be at most 120 characters.";
+  if (code.includes("AI_TEMPLATE_NOT_FOUND") || code.includes("AI_TEMPLATE_VERSION_NOT_FOUND")) {
+    return "Template is no longer available.";
+  }
+  if (code.includes("FORBIDDEN")) return "You don't have access to this template or board.";
+  return "Could not create the subnetwork.";
+};
+
+const formatDefaultValue = (value: unknown) => (value === undefined || value === null ? "" : String(value));
+
+type SubnetworkTemplateGalleryProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  boardId: string;
+  onInstantiated: (result: { subnetworkId: string; title: string }) => void;
+};
+
+export const SubnetworkTemplateGallery = ({
+  open,
+  onOpenChange,
+  boardId,
+  onInstantiated,
+}: SubnetworkTemplateGalleryProps) => {
+  const templates = useQuery(api.aiSubnetworkTemplates.list, open ? {} : "skip");
+  const instantiate = useMutation(api.aiSubnetworkTemplates.instantiate);
+
+  const [templateId, setTemplateId] = useState<Id<"aiSubnetworkTemplates"> | null>(null);
+  const [version, setVersion] = useState<number | null>(null);
+  const [title, setTitle] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  const versions = useQuery(api.aiSubnetworkTemplates.listVersions, templateId ? { templateId } : "skip");
+  const templateVersion = useQuery(
+    api.aiSubnetworkTemplates.getVersion,
+    templateId ? { templateId, version: version ?? undefined } : "skip"
+  );
+
+  useEffect(() => {
+    if (!open) {
+      setTemplateId(null);
+      setVersion(null);
+    }
+  }, [open]);
+
+  // Reset the form to the defaults of the version being looked at.
+  useEffect(() => {
+    if (!templateVersion) return;
+    setTitle(templateVersion.title);
+    setValues(
+      Object.fromEntries(
+        templateVersion.parameters.map((parameter) => [parameter.key, formatDefaultValue(parameter.defaultValue)])
+      )
+    );
+  }, [templateVersion?.templateId, templateVersion?.version]);
+
+  const selectTemplate = (id: Id<"aiSubnetworkTemplates">) => {
+    setTemplateId(id);
+    setVersion(null);
+  };
+
+  const handleCreate = async () => {
+    if (!templateId || !templateVersion) return;
+    setIsCreating(true);
+    try {
+      const result = await instantiate({
+        templateId,
+        boardId: boardId as Id<"boards">,
+        version: templateVersion.version,
+        title,
+        values: templateVersion.parameters.map((parameter) => ({
+          key: parameter.key,
+          value: values[parameter.key] ?? "",
+        })),
+      });
+      onInstantiated({ subnetworkId: String(result.subnetworkId), title: result.title });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(getInstantiateErrorMessage(error));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] bg-white text-slate-900 border border-slate-200/80 shadow-2xl">
+        <DialogHeader>
+          <DialogTitle>New subnetwork from template</DialogTitle>
+          <DialogDescription>Templates you saved or that were shared with your groups.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid min-h-[320px] grid-cols-[260px_1fr] gap-4">
+          <div className="max-h-[420px] space-y-1.5 overflow-y-auto pr-1">
+            {(templates ?? []).map((template) => (
+              <button
+                key={template._id}
+                type="button"
+                onClick={() => selectTemplate(template._id)}
+                className={cn(
+                  "w-full rounded-xl border px-3 py-2 text-left transition",
+                  template._id === templateId ? "border-black bg-black/[0.03]" : "border-black/10 hover:border-black/30"
+                )}
+              >
+                <span className="flex items-center justify-between gap-2">
+                  <span className="truncate text-sm font-semibold text-black">{template.title}</span>
+                  <span className="shrink-0 text-[11px] text-black/45">v{template.latestVersion}</span>
+                </span>
+                <span className="mt-0.5 flex items-center gap-1 text-[11px] text-black/50">
+                  {template.groupName && <Users className="h-3 w-3" />}
+                  {template.isOwner ? "You" : template.ownerName}
+                  {template.groupName && ` · ${template.groupName}`}
+                  {` · ${template.nodeCount} nodes`}
+                </span>
+              </button>
+            ))}
+            {templates && templates.length === 0 && (
+              <div className="rounded-xl border border-dashed border-black/20 px-3 py-6 text-center text-xs text-black/45">
+                No templates yet. Save one from a subnetwork&apos;s side panel.
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3 text-xs">
+            {!templateVersion ? (
+              <div className="flex h-full flex-col items-center justify-center gap-2 text-black/45">
+                <LayoutTemplate className="h-6 w-6" />
+                <span>Pick a template to fill in its parameters.</span>
+              </div>
+            ) : (
+              <>
+                {templateVersion.description && <p className="text-black/65">{templateVersion.description}</p>}
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="mb-1 block text-[11px] uppercase tracking-wide text-black/45">Title</label>
+                    <input
+                      value={title}
+                      onChange={(event) => setTitle(event.target.value)}
+                      maxLength={120}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-1 block text-[11px] uppercase tracking-wide text-black/45">Version</label>
+                    <select
+                      value={templateVersion.version}
+                      onChange={(event) => setVersion(Number(event.target.value))}
+                      className={INPUT_CLASS}
+                    >
+                      {(versions ?? []).map((item) => (
+                        <option key={item.version} value={item.version}>
+                          v{item.version}
+                          {item.version === templateVersion.latestVersion ? " (latest)" : ""}
+                          {item.changeNote ? ` · ${item.changeNote}` : ""}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="max-h-[300px] space-y-2 overflow-y-auto pr-1">
+                  {templateVersion.parameters.map((parameter) => {
+                    const field = findTemplateParameterField(parameter.nodeType, parameter.field);
+                    const value = values[parameter.key] ?? "";
+                    const setValue = (next: string) => setValues((current) => ({ ...current, [parameter.key]: next }));
+                    return (
+                      <div key={parameter.key}>
+                        <label className="mb-1 block text-[11px] uppercase tracking-wide text-black/45">
+                          {parameter.label}
+                        </label>
+                        {field?.input === "textarea" ? (
+                          <textarea
+                            value={value}
+                            onChange={(event) => setValue(event.target.value)}
+                            rows={3}
+                            className={cn(TEXTAREA_CLASS, "text-xs")}
+                          />
+                        ) : field?.input === "select" ? (
+                          <select value={value} onChange={(event) => setValue(event.target.value)} className={INPUT_CLASS}>
+                            {getSelectOptions(parameter.nodeType, parameter.field, parameter.nodeConfig).map((option) => (
+                              <option key={option} value={option}>
+                                {option}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            type={field?.input === "number" ? "number" : "text"}
+                            value={value}
+                            onChange={(event) => setValue(event.target.value)}
+                            className={INPUT_CLASS}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                  {templateVersion.parameters.length === 0 && (
+                    <p className="text-black/45">This template has no exposed parameters.</p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleCreate()} disabled={!templateVersion || isCreating}>
+            Create subnetwork
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
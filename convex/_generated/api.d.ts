@@ -9,35 +9,48 @@
  */
 
 import type * as aiAccess from "../aiAccess.js";
+import type * as aiBudgets from "../aiBudgets.js";
 import type * as aiCosts from "../aiCosts.js";
 import type * as aiGraph from "../aiGraph.js";
 import type * as aiKeys from "../aiKeys.js";
 import type * as aiOutputs from "../aiOutputs.js";
 import type * as aiRuns from "../aiRuns.js";
+import type * as aiSubnetworkTemplates from "../aiSubnetworkTemplates.js";
 import type * as aiSubnetworks from "../aiSubnetworks.js";
 import type * as annotations from "../annotations.js";
+import type * as approvals from "../approvals.js";
 import type * as assetJobs from "../assetJobs.js";
 import type * as assetWorker from "../assetWorker.js";
 import type * as assets from "../assets.js";
+import type * as assetsColor from "../assetsColor.js";
 import type * as assetsSimilarity from "../assetsSimilarity.js";
 import type * as board from "../board.js";
 import type * as boards from "../boards.js";
 import type * as collections from "../collections.js";
 import type * as comments from "../comments.js";
 import type * as compliance from "../compliance.js";
+import type * as crons from "../crons.js";
+import type * as digestEmails from "../digestEmails.js";
+import type * as digests from "../digests.js";
 import type * as edits from "../edits.js";
 import type * as friends from "../friends.js";
 import type * as googleImageModelRegistry from "../googleImageModelRegistry.js";
+import type * as googleTextModelRegistry from "../googleTextModelRegistry.js";
+import type * as googleVideoModelRegistry from "../googleVideoModelRegistry.js";
 import type * as http_aiWorker from "../http/aiWorker.js";
 import type * as http_deleteMedia from "../http/deleteMedia.js";
 import type * as http_libraryWorker from "../http/libraryWorker.js";
 import type * as http_liveblocksAuth from "../http/liveblocksAuth.js";
+import type * as http_renderWorker from "../http/renderWorker.js";
+import type * as http_shareAccess from "../http/shareAccess.js";
 import type * as http_uploadMultipart from "../http/uploadMultipart.js";
 import type * as http from "../http.js";
 import type * as internal_aiOrchestrator from "../internal/aiOrchestrator.js";
 import type * as internal_aiRunner from "../internal/aiRunner.js";
 import type * as internal_googleBatchAdapter from "../internal/googleBatchAdapter.js";
 import type * as internal_googleImageAdapter from "../internal/googleImageAdapter.js";
+import type * as internal_textLlmAdapter from "../internal/textLlmAdapter.js";
+import type * as internal_veo3Adapter from "../internal/veo3Adapter.js";
 import type * as liveblocks from "../liveblocks.js";
 import type * as maintenance from "../maintenance.js";
 import type * as media from "../media.js";
@@ -47,8 +60,10 @@ import type * as publicMural from "../publicMural.js";
 import type * as qdrant from "../qdrant.js";
 import type * as render from "../render.js";
 import type * as review from "../review.js";
+import type * as revisionNotes from "../revisionNotes.js";
 import type * as settings from "../settings.js";
 import type * as shareGroups from "../shareGroups.js";
+import type * as shareGuests from "../shareGuests.js";
 import type * as shares from "../shares.js";
 import type * as slack from "../slack.js";
 import type * as slackData from "../slackData.js";
@@ -58,9 +73,14 @@ import type * as todoLists from "../todoLists.js";
 import type * as users from "../users.js";
 import type * as utils_auth from "../utils/auth.js";
 import type * as utils_avatar from "../utils/avatar.js";
+import type * as utils_emailTransport from "../utils/emailTransport.js";
 import type * as utils_imageCompression from "../utils/imageCompression.js";
+import type * as utils_shareAccess from "../utils/shareAccess.js";
+import type * as utils_shareGuests from "../utils/shareGuests.js";
+import type * as utils_smartCollections from "../utils/smartCollections.js";
 import type * as utils_storage from "../utils/storage.js";
 import type * as videos from "../videos.js";
+import type * as waveforms from "../waveforms.js";
 
 import type {
   ApiFromModules,
@@ -78,35 +98,48 @@ import type {
  */
 declare const fullApi: ApiFromModules<{
   aiAccess: typeof aiAccess;
+  aiBudgets: typeof aiBudgets;
   aiCosts: typeof aiCosts;
   aiGraph: typeof aiGraph;
   aiKeys: typeof aiKeys;
   aiOutputs: typeof aiOutputs;
   aiRuns: typeof aiRuns;
+  aiSubnetworkTemplates: typeof aiSubnetworkTemplates;
   aiSubnetworks: typeof aiSubnetworks;
   annotations: typeof annotations;
+  approvals: typeof approvals;
   assetJobs: typeof assetJobs;
   assetWorker: typeof assetWorker;
   assets: typeof assets;
+  assetsColor: typeof assetsColor;
   assetsSimilarity: typeof assetsSimilarity;
   board: typeof board;
   boards: typeof boards;
   collections: typeof collections;
   comments: typeof comments;
   compliance: typeof compliance;
+  crons: typeof crons;
+  digestEmails: typeof digestEmails;
+  digests: typeof digests;
   edits: typeof edits;
   friends: typeof friends;
   googleImageModelRegistry: typeof googleImageModelRegistry;
+  googleTextModelRegistry: typeof googleTextModelRegistry;
+  googleVideoModelRegistry: typeof googleVideoModelRegistry;
   "http/aiWorker": typeof http_aiWorker;
   "http/deleteMedia": typeof http_deleteMedia;
   "http/libraryWorker": typeof http_libraryWorker;
   "http/liveblocksAuth": typeof http_liveblocksAuth;
+  "http/renderWorker": typeof http_renderWorker;
+  "http/shareAccess": typeof http_shareAccess;
   "http/uploadMultipart": typeof http_uploadMultipart;
   http: typeof http;
   "internal/aiOrchestrator": typeof internal_aiOrchestrator;
   "internal/aiRunner": typeof internal_aiRunner;
   "internal/googleBatchAdapter": typeof internal_googleBatchAdapter;
   "internal/googleImageAdapter": typeof internal_googleImageAdapter;
+  "internal/textLlmAdapter": typeof internal_textLlmAdapter;
+  "internal/veo3Adapter": typeof internal_veo3Adapter;
   liveblocks: typeof liveblocks;
   maintenance: typeof maintenance;
   media: typeof media;
@@ -116,8 +149,10 @@ declare const fullApi: ApiFromModules<{
   qdrant: typeof qdrant;
   render: typeof render;
   review: typeof review;
+  revisionNotes: typeof revisionNotes;
   settings: typeof settings;
   shareGroups: typeof shareGroups;
+  shareGuests: typeof shareGuests;
   shares: typeof shares;
   slack: typeof slack;
   slackData: typeof slackData;
@@ -127,9 +162,14 @@ declare const fullApi: ApiFromModules<{
   users: typeof users;
   "utils/auth": typeof utils_auth;
   "utils/avatar": typeof utils_avatar;
+  "utils/emailTransport": typeof utils_emailTransport;
   "utils/imageCompression": typeof utils_imageCompression;
+  "utils/shareAccess": typeof utils_shareAccess;
+  "utils/shareGuests": typeof utils_shareGuests;
+  "utils/smartCollections": typeof utils_smartCollections;
   "utils/storage": typeof utils_storage;
   videos: typeof videos;
+  waveforms: typeof waveforms;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
@@ -0,0 +1,387 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireBoardWrite, requireSubnetworkRead, requireSubnetworkWrite } from "./aiAccess";
+import { sumLedgerEffective, toMonthKey } from "./aiCosts";
+import { getCurrentUserOrThrow } from "./utils/auth";
+
+type BudgetScope = "user" | "board" | "subnetwork";
+
+const BUDGET_SCOPES: BudgetScope[] = ["user", "board", "subnetwork"];
+const ALERT_SOFT_LIMIT = "budget_soft_limit";
+const ALERT_HARD_LIMIT = "budget_hard_limit";
+const ALERT_STATUS_OPEN = "open";
+const ALERT_STATUS_ACKNOWLEDGED = "acknowledged";
+const ALERT_STATUS_RESOLVED = "resolved";
+const ALERT_LIST_LIMIT = 50;
+
+const budgetScopeValidator = v.union(v.literal("user"), v.literal("board"), v.literal("subnetwork"));
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  user: "Your monthly",
+  board: "Board monthly",
+  subnetwork: "Subnetwork monthly",
+};
+
+const roundUsd = (value: number) => Number(value.toFixed(6));
+
+const scopeTargets = (user: Doc<"users">, subnetwork: Doc<"aiSubnetworks">) => ({
+  user: user._id as Id<"users">,
+  board: subnetwork.boardId as Id<"boards">,
+  subnetwork: subnetwork._id as Id<"aiSubnetworks">,
+});
+
+const findBudget = async (ctx: any, scope: BudgetScope, targetId: string): Promise<Doc<"aiBudgets"> | null> => {
+  if (scope === "user") {
+    return await ctx.db
+      .query("aiBudgets")
+      .withIndex("byScopeUser", (q: any) => q.eq("scope", scope).eq("userId", targetId))
+      .first();
+  }
+  if (scope === "board") {
+    return await ctx.db
+      .query("aiBudgets")
+      .withIndex("byScopeBoard", (q: any) => q.eq("scope", scope).eq("boardId", targetId))
+      .first();
+  }
+  return await ctx.db
+    .query("aiBudgets")
+    .withIndex("byScopeSubnetwork", (q: any) => q.eq("scope", scope).eq("subnetworkId", targetId))
+    .first();
+};
+
+const deleteBudget = async (ctx: any, budget: Doc<"aiBudgets">) => {
+  const alerts: Array<Doc<"aiUsageAlerts">> = await ctx.db
+    .query("aiUsageAlerts")
+    .withIndex("byBudgetMonth", (q: any) => q.eq("budgetId", budget._id))
+    .collect();
+  for (const alert of alerts) {
+    await ctx.db.delete(alert._id);
+  }
+  await ctx.db.delete(budget._id);
+};
+
+/** Removes the budget set on a board or subnetwork, with its alerts; call alongside deleting the target. */
+export const deleteScopeBudget = async (ctx: any, scope: BudgetScope, targetId: string) => {
+  const budget = await findBudget(ctx, scope, targetId);
+  if (budget) await deleteBudget(ctx, budget);
+};
+
+const monthSpendUsd = async (ctx: any, scope: BudgetScope, targetId: string, monthKey: string) => {
+  const index = scope === "user" ? "byUserMonth" : scope === "board" ? "byBoardMonth" : "bySubnetworkMonth";
+  const field = scope === "user" ? "userId" : scope === "board" ? "boardId" : "subnetworkId";
+  const entries = await ctx.db
+    .query("aiCostLedger")
+    .withIndex(index, (q: any) => q.eq(field, targetId).eq("monthKey", monthKey))
+    .collect();
+  return sumLedgerEffective(entries);
+};
+
+const raiseBudgetAlert = async (
+  ctx: any,
+  args: {
+    budget: Doc<"aiBudgets">;
+    alertType: string;
+    launcherId: Id<"users">;
+    subnetwork: Doc<"aiSubnetworks">;
+    monthKey: string;
+    threshold: number;
+    observedValue: number;
+    message: string;
+  }
+) => {
+  // One live alert per budget, limit and month; later launches only refresh the observed spend.
+  const existing = await ctx.db
+    .query("aiUsageAlerts")
+    .withIndex("byBudgetMonth", (q: any) => q.eq("budgetId", args.budget._id).eq("monthKey", args.monthKey))
+    .collect();
+  const live = existing.find(
+    (alert: Doc<"aiUsageAlerts">) => alert.alertType === args.alertType && alert.status !== ALERT_STATUS_RESOLVED
+  );
+  if (live) {
+    await ctx.db.patch(live._id, {
+      observedValue: args.observedValue,
+      message: args.message,
+    });
+    return live._id;
+  }
+
+  const scope = args.budget.scope as BudgetScope;
+  return await ctx.db.insert("aiUsageAlerts", {
+    userId: scope === "user" ? (args.budget.userId as Id<"users">) : args.launcherId,
+    boardId: args.subnetwork.boardId,
+    subnetworkId: args.subnetwork._id,
+    budgetId: args.budget._id,
+    budgetScope: scope,
+    monthKey: args.monthKey,
+    alertType: args.alertType,
+    severity: args.alertType === ALERT_HARD_LIMIT ? "critical" : "warning",
+    message: args.message,
+    threshold: args.threshold,
+    observedValue: args.observedValue,
+    triggeredAt: Date.now(),
+    status: ALERT_STATUS_OPEN,
+  });
+};
+
+export type AiBudgetBlock = {
+  scope: BudgetScope;
+  limitUsd: number;
+  projectedUsd: number;
+};
+
+/**
+ * Checks a launch costing `estimatedUsd` against the user, board and subnetwork budgets for
+ * the current month. Soft limits raise alerts and let the run through; a hard limit raises an
+ * alert and returns the block, which the caller must honour by not starting the run. It does
+ * not throw so the alert survives the mutation.
+ */
+export const checkAiBudgets = async (
+  ctx: any,
+  args: { user: Doc<"users">; subnetwork: Doc<"aiSubnetworks">; estimatedUsd: number }
+): Promise<AiBudgetBlock | null> => {
+  const monthKey = toMonthKey(new Date());
+  const targets = scopeTargets(args.user, args.subnetwork);
+  let blocked: AiBudgetBlock | null = null;
+
+  for (const scope of BUDGET_SCOPES) {
+    const budget = await findBudget(ctx, scope, targets[scope]);
+    if (!budget) continue;
+    const hard = budget.hardLimitUsd;
+    const soft = budget.softLimitUsd;
+    if (hard === undefined && soft === undefined) continue;
+
+    const spent = await monthSpendUsd(ctx, scope, targets[scope], monthKey);
+    const projectedUsd = roundUsd(spent + args.estimatedUsd);
+
+    if (hard !== undefined && projectedUsd > hard) {
+      await raiseBudgetAlert(ctx, {
+        budget,
+        alertType: ALERT_HARD_LIMIT,
+        launcherId: args.user._id,
+        subnetwork: args.subnetwork,
+        monthKey,
+        threshold: hard,
+        observedValue: projectedUsd,
+        message: `${SCOPE_LABELS[scope]} hard limit of $${hard.toFixed(2)} reached; a run estimated at $${args.estimatedUsd.toFixed(2)} was blocked.`,
+      });
+      blocked = blocked ?? { scope, limitUsd: hard, projectedUsd };
+      continue;
+    }
+    if (soft !== undefined && projectedUsd > soft) {
+      await raiseBudgetAlert(ctx, {
+        budget,
+        alertType: ALERT_SOFT_LIMIT,
+        launcherId: args.user._id,
+        subnetwork: args.subnetwork,
+        monthKey,
+        threshold: soft,
+        observedValue: projectedUsd,
+        message: `${SCOPE_LABELS[scope]} spend is over the $${soft.toFixed(2)} soft limit.`,
+      });
+    }
+  }
+
+  return blocked;
+};
+
+const normalizeLimit = (value?: number | null) => {
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isFinite(value) || value < 0) {
+    throw new ConvexError("AI_BUDGET_INVALID_LIMIT");
+  }
+  return roundUsd(value);
+};
+
+export const getForSubnetwork = query({
+  args: {
+    subnetworkId: v.id("aiSubnetworks"),
+  },
+  handler: async (ctx, args) => {
+    const { subnetwork, user, role } = await requireSubnetworkRead(ctx, args.subnetworkId);
+    const monthKey = toMonthKey(new Date());
+    const targets = scopeTargets(user, subnetwork);
+
+    const budgets = await Promise.all(
+      BUDGET_SCOPES.map(async (scope) => {
+        const budget = await findBudget(ctx, scope, targets[scope]);
+        const spentUsd = await monthSpendUsd(ctx, scope, targets[scope], monthKey);
+        const canEdit =
+          scope === "user" ||
+          role === "owner" ||
+          (scope === "subnetwork" && role !== "viewer" && subnetwork.ownerId === user._id);
+        return {
+          scope,
+          budgetId: budget?._id ?? null,
+          softLimitUsd: budget?.softLimitUsd ?? null,
+          hardLimitUsd: budget?.hardLimitUsd ?? null,
+          spentUsd: roundUsd(spentUsd),
+          canEdit,
+        };
+      })
+    );
+
+    return { monthKey, budgets };
+  },
+});
+
+export const setBudget = mutation({
+  args: {
+    subnetworkId: v.id("aiSubnetworks"),
+    scope: budgetScopeValidator,
+    softLimitUsd: v.optional(v.number()),
+    hardLimitUsd: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { subnetwork, user, role } =
+      args.scope === "user"
+        ? await requireSubnetworkRead(ctx, args.subnetworkId)
+        : await requireSubnetworkWrite(ctx, args.subnetworkId);
+
+    // Board budgets belong to the board owner; a subnetwork's budget also to whoever created it.
+    if (args.scope === "board" && role !== "owner") {
+      throw new ConvexError("FORBIDDEN");
+    }
+    if (args.scope === "subnetwork" && role !== "owner" && subnetwork.ownerId !== user._id) {
+      throw new ConvexError("FORBIDDEN");
+    }
+
+    const softLimitUsd = normalizeLimit(args.softLimitUsd);
+    const hardLimitUsd = normalizeLimit(args.hardLimitUsd);
+    if (softLimitUsd !== undefined && hardLimitUsd !== undefined && softLimitUsd > hardLimitUsd) {
+      throw new ConvexError("AI_BUDGET_INVALID_LIMIT");
+    }
+
+    const targets = scopeTargets(user, subnetwork);
+    const existing = await findBudget(ctx, args.scope, targets[args.scope]);
+
+    if (softLimitUsd === undefined && hardLimitUsd === undefined) {
+      if (existing) await deleteBudget(ctx, existing);
+      return { budgetId: null };
+    }
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        softLimitUsd,
+        hardLimitUsd,
+        updatedBy: user._id,
+        updatedAt: now,
+      });
+      return { budgetId: existing._id };
+    }
+
+    const budgetId = await ctx.db.insert("aiBudgets", {
+      scope: args.scope,
+      userId: args.scope === "user" ? targets.user : undefined,
+      boardId: args.scope === "board" ? targets.board : undefined,
+      subnetworkId: args.scope === "subnetwork" ? targets.subnetwork : undefined,
+      softLimitUsd,
+      hardLimitUsd,
+      updatedBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { budgetId };
+  },
+});
+
+export const listAlerts = query({
+  args: {
+    subnetworkId: v.id("aiSubnetworks"),
+  },
+  handler: async (ctx, args) => {
+    const { subnetwork, user } = await requireSubnetworkRead(ctx, args.subnetworkId);
+
+    const liveStatuses = [ALERT_STATUS_OPEN, ALERT_STATUS_ACKNOWLEDGED];
+    const boardAlerts = (
+      await Promise.all(
+        liveStatuses.map((status) =>
+          ctx.db
+            .query("aiUsageAlerts")
+            .withIndex("byBoardStatus", (q) => q.eq("boardId", subnetwork.boardId).eq("status", status))
+            .collect()
+        )
+      )
+    )
+      .flat()
+      .filter(
+        (alert) =>
+          alert.budgetScope === "board" ||
+          (alert.budgetScope === "subnetwork" && alert.subnetworkId === subnetwork._id)
+      );
+    // Personal budget alerts follow the user across boards and are only shown to them.
+    const userAlerts = (
+      await Promise.all(
+        liveStatuses.map((status) =>
+          ctx.db
+            .query("aiUsageAlerts")
+            .withIndex("byUserStatus", (q) => q.eq("userId", user._id).eq("status", status))
+            .collect()
+        )
+      )
+    )
+      .flat()
+      .filter((alert) => alert.budgetScope === "user");
+
+    return [...boardAlerts, ...userAlerts]
+      .sort((a, b) => b.triggeredAt - a.triggeredAt)
+      .slice(0, ALERT_LIST_LIMIT)
+      .map((alert) => ({
+        _id: alert._id,
+        alertType: alert.alertType,
+        severity: alert.severity,
+        budgetScope: alert.budgetScope ?? null,
+        message: alert.message,
+        threshold: alert.threshold ?? null,
+        observedValue: alert.observedValue ?? null,
+        status: alert.status,
+        triggeredAt: alert.triggeredAt,
+        acknowledgedAt: alert.acknowledgedAt ?? null,
+      }));
+  },
+});
+
+const requireAlertWrite = async (ctx: any, alertId: Id<"aiUsageAlerts">) => {
+  const alert: Doc<"aiUsageAlerts"> | null = await ctx.db.get(alertId);
+  if (!alert) throw new ConvexError("AI_ALERT_NOT_FOUND");
+  if (alert.budgetScope === "user" || !alert.boardId) {
+    const user = await getCurrentUserOrThrow(ctx);
+    if (alert.userId !== user._id) throw new ConvexError("FORBIDDEN");
+    return { alert, user };
+  }
+  const { user } = await requireBoardWrite(ctx, alert.boardId);
+  return { alert, user };
+};
+
+export const acknowledgeAlert = mutation({
+  args: {
+    alertId: v.id("aiUsageAlerts"),
+  },
+  handler: async (ctx, args) => {
+    const { alert, user } = await requireAlertWrite(ctx, args.alertId);
+    if (alert.status !== ALERT_STATUS_OPEN) return { ok: true };
+    await ctx.db.patch(alert._id, {
+      status: ALERT_STATUS_ACKNOWLEDGED,
+      acknowledgedAt: Date.now(),
+      acknowledgedBy: user._id,
+    });
+    return { ok: true };
+  },
+});
+
+export const resolveAlert = mutation({
+  args: {
+    alertId: v.id("aiUsageAlerts"),
+  },
+  handler: async (ctx, args) => {
+    const { alert, user } = await requireAlertWrite(ctx, args.alertId);
+    if (alert.status === ALERT_STATUS_RESOLVED) return { ok: true };
+    await ctx.db.patch(alert._id, {
+      status: ALERT_STATUS_RESOLVED,
+      resolvedAt: Date.now(),
+      resolvedBy: user._id,
+    });
+    return { ok: true };
+  },
+});
@@ -10,16 +10,25 @@ import {
   normalizeNanoBananaConfig,
   normalizeNanoNodeType,
 } from "./googleImageModelRegistry";
+import type { NanoBananaImageSize, NanoBananaNodeConfig } from "./googleImageModelRegistry";
+import { estimateVeo3CostUsd, normalizeVeo3Config, VEO3_NODE_TYPE } from "./googleVideoModelRegistry";
+import {
+  estimateLlmRewriteCostUsd,
+  LLM_REWRITE_NODE_TYPE,
+  normalizeLlmRewriteConfig,
+  PROMPT_TEMPLATE_NODE_TYPE,
+} from "./googleTextModelRegistry";
+import { expandAiSweep } from "../utils/aiSweep";
 
 const ESTIMATED_MODEL_COST_USD: Record<string, number> = {
   prompt: 0,
   image_reference: 0,
+  [PROMPT_TEMPLATE_NODE_TYPE]: 0,
   [NANO_BANANA_CANONICAL_NODE_TYPE]: 0.12,
   [NANO_BANANA_LEGACY_NODE_TYPE]: 0.12,
-  veo3: 0.45,
 };
 
-const toMonthKey = (value: Date) => {
+export const toMonthKey = (value: Date) => {
   const month = `${value.getUTCMonth() + 1}`.padStart(2, "0");
   return `${value.getUTCFullYear()}-${month}`;
 };
@@ -59,24 +68,52 @@ const countReferencesForNode = async (ctx: any, node: any) => {
   return sourceNodes.filter((source) => source && normalizeNanoNodeType(source.type) === "image_reference").length;
 };
 
-const estimateNodeUsd = async (ctx: any, node: any) => {
+// A sweeping node costs the sum of its variants; each may differ in size and reference count.
+// Launching the node alone runs every sweep variant; a workflow launch runs the node once with
+// its base config, so `expandSweep` is off when estimating a whole workflow.
+const estimateNanoBananaConfigUsd = (config: NanoBananaNodeConfig, referencesCount: number, expandSweep: boolean) => {
+  const variants = expandSweep && config.sweep ? expandAiSweep(config.sweep) : [null];
+  return variants.reduce(
+    (sum, variant) =>
+      sum +
+      estimateNanoBananaCostUsd({
+        modelId: config.modelId,
+        runMode: config.runMode,
+        imageSize: (variant?.imageSize as NanoBananaImageSize | undefined) ?? config.imageSize,
+        referencesCount: variant?.referenceSubset?.length ?? referencesCount,
+        expectedImagesCount: 1,
+      }),
+    0
+  );
+};
+
+// Before a run the rewritten text is unknown, so only the instruction counts towards input.
+const estimateLlmRewriteConfigUsd = (config: unknown) => {
+  const normalized = normalizeLlmRewriteConfig(config).config;
+  return estimateLlmRewriteCostUsd({
+    modelId: normalized.modelId,
+    inputChars: normalized.instruction.length,
+  });
+};
+
+const estimateNodeUsd = async (ctx: any, node: any, { expandSweep = true }: { expandSweep?: boolean } = {}) => {
   const normalizedType = normalizeNanoNodeType(String(node.type ?? ""));
+  if (normalizedType === VEO3_NODE_TYPE) {
+    return estimateVeo3CostUsd(normalizeVeo3Config(node.config).config);
+  }
+  if (normalizedType === LLM_REWRITE_NODE_TYPE) {
+    return estimateLlmRewriteConfigUsd(node.config);
+  }
   if (normalizedType !== NANO_BANANA_CANONICAL_NODE_TYPE) {
     return estimateNodeTypeCost(normalizedType);
   }
 
   const refsCount = await countReferencesForNode(ctx, node);
   const { config } = normalizeNanoBananaConfig(node.config);
-  return estimateNanoBananaCostUsd({
-    modelId: config.modelId,
-    runMode: config.runMode,
-    imageSize: config.imageSize,
-    referencesCount: refsCount,
-    expectedImagesCount: 1,
-  });
+  return estimateNanoBananaConfigUsd(config, refsCount, expandSweep);
 };
 
-const sumLedgerEffective = (entries: any[]) => {
+export const sumLedgerEffective = (entries: any[]) => {
   const byRun = new Map<string, Array<{ metric: string; amountUsd: number }>>();
   let extra = 0;
 
@@ -101,19 +138,25 @@ const sumLedgerEffective = (entries: any[]) => {
 export const estimateNode = query({
   args: {
     nodeType: v.string(),
+    // Unsaved inspector config; defaults are used when omitted.
+    config: v.optional(v.any()),
   },
   handler: async (_ctx, args) => {
     const normalizedType = normalizeNanoNodeType(args.nodeType);
+    if (normalizedType === VEO3_NODE_TYPE) {
+      return {
+        estimatedUsd: estimateVeo3CostUsd(normalizeVeo3Config(args.config).config),
+      };
+    }
+    if (normalizedType === LLM_REWRITE_NODE_TYPE) {
+      return {
+        estimatedUsd: estimateLlmRewriteConfigUsd(args.config),
+      };
+    }
     if (normalizedType === NANO_BANANA_CANONICAL_NODE_TYPE) {
-      const config = defaultNanoBananaConfig();
+      const config = args.config ? normalizeNanoBananaConfig(args.config).config : defaultNanoBananaConfig();
       return {
-        estimatedUsd: estimateNanoBananaCostUsd({
-          modelId: config.modelId,
-          runMode: config.runMode,
-          imageSize: config.imageSize,
-          referencesCount: 0,
-          expectedImagesCount: 1,
-        }),
+        estimatedUsd: estimateNanoBananaConfigUsd(config, 0, true),
       };
     }
     return {
@@ -200,7 +243,7 @@ export const getSummary = query({
         .query("aiNodes")
         .withIndex("bySubnetwork", (q) => q.eq("subnetworkId", subnetwork._id))
         .collect();
-      const estimates = await Promise.all(nodes.map((node) => estimateNodeUsd(ctx, node)));
+      const estimates = await Promise.all(nodes.map((node) => estimateNodeUsd(ctx, node, { expandSweep: false })));
       selectedRunEstimateUsd = estimates.reduce((acc, amount) => acc + amount, 0);
     }
 
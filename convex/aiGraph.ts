@@ -1,6 +1,7 @@
 import { ConvexError, v } from "convex/values";
+import type { Infer } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { Id } from "./_generated/dataModel";
+import type { Doc, Id } from "./_generated/dataModel";
 import { requireSubnetworkRead, requireSubnetworkWrite } from "./aiAccess";
 import {
   NANO_BANANA_CANONICAL_NODE_TYPE,
@@ -8,10 +9,16 @@ import {
   normalizeNanoBananaConfig,
   normalizeNanoNodeType,
 } from "./googleImageModelRegistry";
+import { normalizeVeo3Config, VEO3_NODE_TYPE } from "./googleVideoModelRegistry";
+import {
+  LLM_REWRITE_NODE_TYPE,
+  normalizeLlmRewriteConfig,
+  PROMPT_TEMPLATE_NODE_TYPE,
+} from "./googleTextModelRegistry";
 
 const nowTs = () => Date.now();
 
-const importedNodeValidator = v.object({
+export const importedNodeValidator = v.object({
   id: v.string(),
   type: v.string(),
   title: v.string(),
@@ -31,7 +38,7 @@ const importedNodeValidator = v.object({
   runPolicy: v.optional(v.any()),
 });
 
-const importedEdgeValidator = v.object({
+export const importedEdgeValidator = v.object({
   sourceNodeId: v.string(),
   sourcePort: v.string(),
   targetNodeId: v.string(),
@@ -96,14 +103,16 @@ const getTopologicalValidation = (nodes: GraphNode[], edges: GraphEdge[]) => {
   };
 };
 
-const assertNodeTypeSupported = (type: string) => {
+export const assertNodeTypeSupported = (type: string) => {
   const normalized = normalizeNanoNodeType(type);
   const allowed = new Set([
     "prompt",
     "image_reference",
     NANO_BANANA_CANONICAL_NODE_TYPE,
     NANO_BANANA_LEGACY_NODE_TYPE,
-    "veo3",
+    VEO3_NODE_TYPE,
+    PROMPT_TEMPLATE_NODE_TYPE,
+    LLM_REWRITE_NODE_TYPE,
   ]);
 
   if (!allowed.has(normalized)) {
@@ -113,7 +122,13 @@ const assertNodeTypeSupported = (type: string) => {
   return normalized;
 };
 
-const normalizeNodeConfigForType = (type: string, config: unknown) => {
+export const normalizeNodeConfigForType = (type: string, config: unknown) => {
+  if (type === VEO3_NODE_TYPE) {
+    return normalizeVeo3Config(config).config;
+  }
+  if (type === LLM_REWRITE_NODE_TYPE) {
+    return normalizeLlmRewriteConfig(config).config;
+  }
   if (type !== NANO_BANANA_CANONICAL_NODE_TYPE && type !== NANO_BANANA_LEGACY_NODE_TYPE) {
     return config;
   }
@@ -406,63 +421,124 @@ export const validateDag = query({
   },
 });
 
-export const replaceGraphFromSnapshot = mutation({
-  args: {
-    subnetworkId: v.id("aiSubnetworks"),
-    nodes: v.array(importedNodeValidator),
-    edges: v.array(importedEdgeValidator),
-  },
-  handler: async (ctx, args) => {
-    const { subnetwork, user } = await requireSubnetworkWrite(ctx, args.subnetworkId);
+export type GraphSnapshotNode = Infer<typeof importedNodeValidator>;
+export type GraphSnapshotEdge = Infer<typeof importedEdgeValidator>;
 
-    if (args.nodes.length > 500) {
-      throw new ConvexError("AI_IMPORT_NODE_LIMIT_EXCEEDED");
+// Checks an imported or templated graph and returns its edges with ports filled in.
+export const validateGraphSnapshot = (nodes: GraphSnapshotNode[], edges: GraphSnapshotEdge[]) => {
+  if (nodes.length > 500) {
+    throw new ConvexError("AI_IMPORT_NODE_LIMIT_EXCEEDED");
+  }
+  if (edges.length > 2500) {
+    throw new ConvexError("AI_IMPORT_EDGE_LIMIT_EXCEEDED");
+  }
+
+  const uniqueNodeIds = new Set<string>();
+  for (const node of nodes) {
+    const importId = node.id.trim();
+    if (!importId) {
+      throw new ConvexError("AI_IMPORT_NODE_ID_REQUIRED");
     }
-    if (args.edges.length > 2500) {
-      throw new ConvexError("AI_IMPORT_EDGE_LIMIT_EXCEEDED");
+    if (uniqueNodeIds.has(importId)) {
+      throw new ConvexError("AI_IMPORT_DUPLICATE_NODE_ID");
     }
+    uniqueNodeIds.add(importId);
+    assertNodeTypeSupported(node.type);
+  }
 
-    const uniqueNodeIds = new Set<string>();
-    for (const node of args.nodes) {
-      const importId = node.id.trim();
-      if (!importId) {
-        throw new ConvexError("AI_IMPORT_NODE_ID_REQUIRED");
-      }
-      if (uniqueNodeIds.has(importId)) {
-        throw new ConvexError("AI_IMPORT_DUPLICATE_NODE_ID");
-      }
-      uniqueNodeIds.add(importId);
-      assertNodeTypeSupported(node.type);
+  const normalizedEdges = edges.map((edge) => ({
+    sourceNodeId: edge.sourceNodeId.trim(),
+    sourcePort: edge.sourcePort.trim() || "output",
+    targetNodeId: edge.targetNodeId.trim(),
+    targetPort: edge.targetPort.trim() || "input",
+  }));
+
+  for (const edge of normalizedEdges) {
+    if (!uniqueNodeIds.has(edge.sourceNodeId) || !uniqueNodeIds.has(edge.targetNodeId)) {
+      throw new ConvexError("AI_IMPORT_EDGE_NODE_NOT_FOUND");
+    }
+    if (edge.sourceNodeId === edge.targetNodeId) {
+      throw new ConvexError("AI_GRAPH_SELF_EDGE_NOT_ALLOWED");
     }
+  }
 
-    const normalizedEdges = args.edges.map((edge) => ({
-      sourceNodeId: edge.sourceNodeId.trim(),
-      sourcePort: edge.sourcePort.trim() || "output",
-      targetNodeId: edge.targetNodeId.trim(),
-      targetPort: edge.targetPort.trim() || "input",
-    }));
+  const pseudoNodes = nodes.map((node) => ({
+    _id: node.id as unknown as Id<"aiNodes">,
+  }));
+  const pseudoEdges = normalizedEdges.map((edge) => ({
+    sourceNodeId: edge.sourceNodeId as unknown as Id<"aiNodes">,
+    targetNodeId: edge.targetNodeId as unknown as Id<"aiNodes">,
+  }));
+  const validation = getTopologicalValidation(pseudoNodes, pseudoEdges);
+  if (!validation.valid) {
+    throw new ConvexError("AI_GRAPH_CYCLE_NOT_ALLOWED");
+  }
 
-    for (const edge of normalizedEdges) {
-      if (!uniqueNodeIds.has(edge.sourceNodeId) || !uniqueNodeIds.has(edge.targetNodeId)) {
-        throw new ConvexError("AI_IMPORT_EDGE_NODE_NOT_FOUND");
-      }
-      if (edge.sourceNodeId === edge.targetNodeId) {
-        throw new ConvexError("AI_GRAPH_SELF_EDGE_NOT_ALLOWED");
-      }
-    }
+  return normalizedEdges;
+};
 
-    const pseudoNodes = args.nodes.map((node) => ({
-      _id: node.id as unknown as Id<"aiNodes">,
-    }));
-    const pseudoEdges = normalizedEdges.map((edge) => ({
-      sourceNodeId: edge.sourceNodeId as unknown as Id<"aiNodes">,
-      targetNodeId: edge.targetNodeId as unknown as Id<"aiNodes">,
-    }));
-    const validation = getTopologicalValidation(pseudoNodes, pseudoEdges);
-    if (!validation.valid) {
-      throw new ConvexError("AI_GRAPH_CYCLE_NOT_ALLOWED");
+// Inserts a validated snapshot into an empty subnetwork, mapping snapshot ids to new node ids.
+export const insertGraphSnapshot = async (
+  ctx: any,
+  subnetwork: Doc<"aiSubnetworks">,
+  user: Doc<"users">,
+  nodes: GraphSnapshotNode[],
+  normalizedEdges: GraphSnapshotEdge[]
+) => {
+  const now = nowTs();
+  const idMap = new Map<string, Id<"aiNodes">>();
+
+  for (const node of nodes) {
+    const nodeId = await ctx.db.insert("aiNodes", {
+      // Imported legacy type is normalized to canonical nano_banana.
+      subnetworkId: subnetwork._id,
+      boardId: subnetwork.boardId,
+      ownerId: user._id,
+      type: assertNodeTypeSupported(node.type),
+      title: node.title.trim() || "Node",
+      position: node.position,
+      size: node.size,
+      config: normalizeNodeConfigForType(node.type, node.config),
+      inputs: node.inputs,
+      outputs: node.outputs,
+      runPolicy: node.runPolicy,
+      createdAt: now,
+      updatedAt: now,
+    });
+    idMap.set(node.id.trim(), nodeId);
+  }
+
+  for (const edge of normalizedEdges) {
+    const sourceNodeId = idMap.get(edge.sourceNodeId);
+    const targetNodeId = idMap.get(edge.targetNodeId);
+    if (!sourceNodeId || !targetNodeId) {
+      throw new ConvexError("AI_IMPORT_EDGE_NODE_NOT_FOUND");
     }
 
+    await ctx.db.insert("aiEdges", {
+      subnetworkId: subnetwork._id,
+      boardId: subnetwork.boardId,
+      sourceNodeId,
+      sourcePort: edge.sourcePort,
+      targetNodeId,
+      targetPort: edge.targetPort,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+};
+
+export const replaceGraphFromSnapshot = mutation({
+  args: {
+    subnetworkId: v.id("aiSubnetworks"),
+    nodes: v.array(importedNodeValidator),
+    edges: v.array(importedEdgeValidator),
+  },
+  handler: async (ctx, args) => {
+    const { subnetwork, user } = await requireSubnetworkWrite(ctx, args.subnetworkId);
+
+    const normalizedEdges = validateGraphSnapshot(args.nodes, args.edges);
+
     const existingEdges = await ctx.db
       .query("aiEdges")
       .withIndex("bySubnetwork", (q) => q.eq("subnetworkId", subnetwork._id))
@@ -480,46 +556,7 @@ export const replaceGraphFromSnapshot = mutation({
     }
 
     const now = nowTs();
-    const idMap = new Map<string, Id<"aiNodes">>();
-
-    for (const node of args.nodes) {
-      const nodeId = await ctx.db.insert("aiNodes", {
-        // Imported legacy type is normalized to canonical nano_banana.
-        subnetworkId: subnetwork._id,
-        boardId: subnetwork.boardId,
-        ownerId: user._id,
-        type: assertNodeTypeSupported(node.type),
-        title: node.title.trim() || "Node",
-        position: node.position,
-        size: node.size,
-        config: normalizeNodeConfigForType(node.type, node.config),
-        inputs: node.inputs,
-        outputs: node.outputs,
-        runPolicy: node.runPolicy,
-        createdAt: now,
-        updatedAt: now,
-      });
-      idMap.set(node.id.trim(), nodeId);
-    }
-
-    for (const edge of normalizedEdges) {
-      const sourceNodeId = idMap.get(edge.sourceNodeId);
-      const targetNodeId = idMap.get(edge.targetNodeId);
-      if (!sourceNodeId || !targetNodeId) {
-        throw new ConvexError("AI_IMPORT_EDGE_NODE_NOT_FOUND");
-      }
-
-      await ctx.db.insert("aiEdges", {
-        subnetworkId: subnetwork._id,
-        boardId: subnetwork.boardId,
-        sourceNodeId,
-        sourcePort: edge.sourcePort,
-        targetNodeId,
-        targetPort: edge.targetPort,
-        createdAt: now,
-        updatedAt: now,
-      });
-    }
+    await insertGraphSnapshot(ctx, subnetwork, user, args.nodes, normalizedEdges);
 
     await ctx.db.patch(subnetwork._id, { updatedAt: now });
 
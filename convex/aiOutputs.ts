@@ -80,11 +80,18 @@ export const listForBoard = query({
       subnetworks.filter(Boolean).map((subnetwork) => [String(subnetwork!._id), subnetwork!])
     );
 
+    // Sweep variants carry their label so the drawer can lay a sweep out as a contact sheet.
+    const nodeRunIds = Array.from(new Set(sliced.map((output) => output.nodeRunId)));
+    const nodeRuns = await Promise.all(nodeRunIds.map((id) => ctx.db.get(id)));
+    const nodeRunMap = new Map(nodeRuns.filter(Boolean).map((run) => [String(run!._id), run!]));
+
     return sliced.map((output) => ({
       ...output,
       nodeTitle: nodeMap.get(String(output.nodeId))?.title ?? "Node",
       nodeType: normalizeNanoNodeType(nodeMap.get(String(output.nodeId))?.type ?? "unknown"),
       subnetworkTitle: subnetworkMap.get(String(output.subnetworkId))?.title ?? "Subnetwork AI",
+      sweepIndex: nodeRunMap.get(String(output.nodeRunId))?.sweepIndex,
+      sweepLabel: nodeRunMap.get(String(output.nodeRunId))?.sweepLabel,
     }));
   },
 });
@@ -3,6 +3,7 @@ import { internalMutation, internalQuery, mutation, query } from "./_generated/s
 import { internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
 import { requireSubnetworkRead, requireSubnetworkWrite } from "./aiAccess";
+import { checkAiBudgets } from "./aiBudgets";
 import {
   assertNanoBananaConfigCompatible,
   estimateNanoBananaCostUsd,
@@ -12,6 +13,22 @@ import {
   normalizeNanoNodeType,
   resolveNanoBananaModelForNode,
 } from "./googleImageModelRegistry";
+import type { NanoBananaImageSize, NanoBananaNodeConfig } from "./googleImageModelRegistry";
+import {
+  assertVeo3ConfigCompatible,
+  estimateVeo3CostUsd,
+  normalizeVeo3Config,
+  VEO3_NODE_TYPE,
+} from "./googleVideoModelRegistry";
+import {
+  estimateLlmRewriteCostUsd,
+  LLM_REWRITE_NODE_TYPE,
+  normalizeLlmRewriteConfig,
+  normalizePromptTemplateConfig,
+  PROMPT_TEMPLATE_NODE_TYPE,
+} from "./googleTextModelRegistry";
+import { countSweepVariants, expandAiSweep, MAX_SWEEP_VARIANTS } from "../utils/aiSweep";
+import { extractTemplateVariables, renderPromptTemplate, templateVariablePort } from "../utils/promptTemplate";
 
 const RUN_STATUS_QUEUED = "queued";
 const RUN_STATUS_PROCESSING = "processing";
@@ -23,9 +40,9 @@ const NODE_STATUS_BLOCKED = "blocked";
 const ESTIMATED_MODEL_COST_USD: Record<string, number> = {
   prompt: 0,
   image_reference: 0,
+  [PROMPT_TEMPLATE_NODE_TYPE]: 0,
   [NANO_BANANA_CANONICAL_NODE_TYPE]: 0.12,
   [NANO_BANANA_LEGACY_NODE_TYPE]: 0.12,
-  veo3: 0.45,
 };
 
 const estimateNodeCost = (nodeType: string) => {
@@ -102,13 +119,252 @@ type PreparedNodeRunInput = {
   requestHash?: string;
 };
 
+type TextSourceOptions = {
+  // Text of each LLM rewrite node's latest done run, keyed by node id.
+  rewriteTexts: Map<string, string>;
+  // Workflow runs execute upstream rewrites first, so a rewrite without text yet is left
+  // pending and the node is prepared again once it is claimed.
+  deferPendingRewrites: boolean;
+};
+
+type TextSourceContext = TextSourceOptions & {
+  nodeById: Map<string, Doc<"aiNodes">>;
+  allEdges: Array<Doc<"aiEdges">>;
+  pendingRewriteNodeIds: Set<string>;
+};
+
+// Text a prompt, prompt template or LLM rewrite node hands to its downstream ports.
+const resolveNodeText = (
+  node: Doc<"aiNodes">,
+  context: TextSourceContext,
+  visiting = new Set<string>()
+): string => {
+  const nodeId = String(node._id);
+  const normalizedType = normalizeNanoNodeType(node.type);
+
+  if (normalizedType === "prompt") {
+    return String((node.config as any)?.text ?? "").trim();
+  }
+
+  if (normalizedType === LLM_REWRITE_NODE_TYPE) {
+    const text = context.rewriteTexts.get(nodeId);
+    if (text !== undefined) return text;
+    if (!context.deferPendingRewrites) {
+      throw new ConvexError("CONFIG_INVALID_PROMPT_REWRITE_NOT_RUN");
+    }
+    context.pendingRewriteNodeIds.add(nodeId);
+    return "";
+  }
+
+  if (normalizedType !== PROMPT_TEMPLATE_NODE_TYPE) {
+    throw new ConvexError("CONFIG_INVALID_PROMPT_SOURCE");
+  }
+  if (visiting.has(nodeId)) {
+    throw new ConvexError("AI_GRAPH_CYCLE_NOT_ALLOWED");
+  }
+
+  visiting.add(nodeId);
+  const { template } = normalizePromptTemplateConfig(node.config).config;
+  const values: Record<string, string> = {};
+  for (const name of extractTemplateVariables(template)) {
+    const variableEdge = context.allEdges.find(
+      (edge) => String(edge.targetNodeId) === nodeId && edge.targetPort === templateVariablePort(name)
+    );
+    if (!variableEdge) {
+      throw new ConvexError("CONFIG_INVALID_TEMPLATE_VARIABLE_UNCONNECTED");
+    }
+    const sourceNode = context.nodeById.get(String(variableEdge.sourceNodeId));
+    if (!sourceNode) {
+      throw new ConvexError("CONFIG_INVALID_PROMPT_SOURCE");
+    }
+    values[name] = resolveNodeText(sourceNode, context, visiting);
+  }
+  visiting.delete(nodeId);
+
+  return renderPromptTemplate(template, values).text;
+};
+
+const resolvePromptInput = (
+  incoming: Array<Doc<"aiEdges">>,
+  context: TextSourceContext,
+  port = "prompt"
+) => {
+  const promptEdge = incoming.find((edge) => edge.targetPort === port);
+  if (!promptEdge) {
+    throw new ConvexError("CONFIG_INVALID_PROMPT_REQUIRED");
+  }
+  const promptNode = context.nodeById.get(String(promptEdge.sourceNodeId));
+  if (!promptNode) {
+    throw new ConvexError("CONFIG_INVALID_PROMPT_SOURCE");
+  }
+
+  const pendingBefore = context.pendingRewriteNodeIds.size;
+  const promptText = resolveNodeText(promptNode, context);
+  if (!promptText && context.pendingRewriteNodeIds.size === pendingBefore) {
+    throw new ConvexError("CONFIG_INVALID_PROMPT_EMPTY");
+  }
+  return promptText;
+};
+
+// Start/end frame ports take the first image of the connected image reference node.
+const resolveFrameInput = (
+  incoming: Array<Doc<"aiEdges">>,
+  nodeById: Map<string, Doc<"aiNodes">>,
+  port: "start_frame" | "end_frame"
+) => {
+  const frameEdge = incoming.find((edge) => edge.targetPort === port);
+  if (!frameEdge) return undefined;
+  const sourceNode = nodeById.get(String(frameEdge.sourceNodeId));
+  if (!sourceNode || normalizeNanoNodeType(sourceNode.type) !== "image_reference") {
+    throw new ConvexError("CONFIG_INVALID_FRAME_SOURCE");
+  }
+  const [frame] = extractImageReferences(sourceNode.config);
+  if (!frame) {
+    throw new ConvexError("CONFIG_INVALID_FRAME_EMPTY");
+  }
+  return frame;
+};
+
+const prepareVeo3NodeRunInput = async (
+  node: Doc<"aiNodes">,
+  incoming: Array<Doc<"aiEdges">>,
+  context: TextSourceContext
+): Promise<PreparedNodeRunInput> => {
+  const promptText = resolvePromptInput(incoming, context);
+  const startFrame = resolveFrameInput(incoming, context.nodeById, "start_frame");
+  const endFrame = resolveFrameInput(incoming, context.nodeById, "end_frame");
+
+  const { config } = normalizeVeo3Config(node.config);
+  assertVeo3ConfigCompatible(config, {
+    hasStartFrame: Boolean(startFrame),
+    hasEndFrame: Boolean(endFrame),
+  });
+
+  const inputSnapshot = {
+    prompt: promptText,
+    startFrame,
+    endFrame,
+  };
+
+  const resolvedConfig = {
+    modelId: config.modelId,
+    durationSeconds: config.durationSeconds,
+    resolution: config.resolution,
+    aspectRatio: config.aspectRatio,
+  };
+
+  const requestHash = await hashSha256Hex(
+    toStableJson({
+      inputSnapshot,
+      resolvedConfig,
+    })
+  );
+
+  return {
+    estimatedUsd: estimateVeo3CostUsd(config),
+    providerModelId: config.modelId,
+    executionMode: "interactive",
+    resolvedConfig,
+    inputSnapshot,
+    requestHash,
+  };
+};
+
+const prepareLlmRewriteNodeRunInput = async (
+  node: Doc<"aiNodes">,
+  incoming: Array<Doc<"aiEdges">>,
+  context: TextSourceContext
+): Promise<PreparedNodeRunInput> => {
+  const text = resolvePromptInput(incoming, context, "text");
+  const { config } = normalizeLlmRewriteConfig(node.config);
+
+  const inputSnapshot = {
+    text,
+    instruction: config.instruction,
+  };
+
+  const resolvedConfig = {
+    modelId: config.modelId,
+    temperature: config.temperature,
+  };
+
+  const requestHash = await hashSha256Hex(
+    toStableJson({
+      inputSnapshot,
+      resolvedConfig,
+    })
+  );
+
+  return {
+    estimatedUsd: estimateLlmRewriteCostUsd({
+      modelId: config.modelId,
+      inputChars: text.length + config.instruction.length,
+    }),
+    providerModelId: config.modelId,
+    executionMode: "interactive",
+    resolvedConfig,
+    inputSnapshot,
+    requestHash,
+  };
+};
+
+const createTextSourceContext = (
+  allNodes: Array<Doc<"aiNodes">>,
+  allEdges: Array<Doc<"aiEdges">>,
+  textSources: TextSourceOptions
+): TextSourceContext => ({
+  ...textSources,
+  nodeById: new Map(allNodes.map((candidate) => [String(candidate._id), candidate])),
+  allEdges,
+  pendingRewriteNodeIds: new Set(),
+});
+
 const prepareNodeRunInput = async (
   node: Doc<"aiNodes">,
   allNodes: Array<Doc<"aiNodes">>,
-  allEdges: Array<Doc<"aiEdges">>
+  allEdges: Array<Doc<"aiEdges">>,
+  textSources: TextSourceOptions
+): Promise<PreparedNodeRunInput> => {
+  const context = createTextSourceContext(allNodes, allEdges, textSources);
+  const prepared = await prepareNodeRunInputFromContext(node, context);
+  if (context.pendingRewriteNodeIds.size === 0) return prepared;
+
+  // The prompt is a placeholder until the rewrites finish, so there is nothing to hash yet.
+  return {
+    ...prepared,
+    inputSnapshot: {
+      ...prepared.inputSnapshot,
+      pendingRewriteNodeIds: Array.from(context.pendingRewriteNodeIds),
+    },
+    requestHash: undefined,
+  };
+};
+
+const prepareNodeRunInputFromContext = async (
+  node: Doc<"aiNodes">,
+  context: TextSourceContext
 ): Promise<PreparedNodeRunInput> => {
   const normalizedType = normalizeNanoNodeType(node.type);
-  const nodeById = new Map(allNodes.map((candidate) => [String(candidate._id), candidate]));
+  const incoming = context.allEdges.filter((edge) => String(edge.targetNodeId) === String(node._id));
+
+  if (normalizedType === VEO3_NODE_TYPE) {
+    return await prepareVeo3NodeRunInput(node, incoming, context);
+  }
+
+  if (normalizedType === LLM_REWRITE_NODE_TYPE) {
+    return await prepareLlmRewriteNodeRunInput(node, incoming, context);
+  }
+
+  if (normalizedType === PROMPT_TEMPLATE_NODE_TYPE) {
+    return {
+      estimatedUsd: 0,
+      providerModelId: normalizedType,
+      executionMode: "interactive",
+      inputSnapshot: {
+        text: resolveNodeText(node, context),
+      },
+    };
+  }
 
   if (normalizedType !== NANO_BANANA_CANONICAL_NODE_TYPE) {
     return {
@@ -118,20 +374,17 @@ const prepareNodeRunInput = async (
     };
   }
 
-  const incoming = allEdges.filter((edge) => String(edge.targetNodeId) === String(node._id));
-  const promptEdge = incoming.find((edge) => edge.targetPort === "prompt");
-  if (!promptEdge) {
-    throw new ConvexError("CONFIG_INVALID_PROMPT_REQUIRED");
-  }
-  const promptNode = nodeById.get(String(promptEdge.sourceNodeId));
-  if (!promptNode || normalizeNanoNodeType(promptNode.type) !== "prompt") {
-    throw new ConvexError("CONFIG_INVALID_PROMPT_SOURCE");
-  }
+  const { promptText, references } = resolveNanoBananaSources(incoming, context);
+  const { config } = normalizeNanoBananaConfig(node.config);
+  return await buildNanoBananaRunInput(config, promptText, references);
+};
 
-  const promptText = String((promptNode.config as any)?.text ?? "").trim();
-  if (!promptText) {
-    throw new ConvexError("CONFIG_INVALID_PROMPT_EMPTY");
-  }
+const resolveNanoBananaSources = (
+  incoming: Array<Doc<"aiEdges">>,
+  context: TextSourceContext
+) => {
+  const { nodeById } = context;
+  const promptText = resolvePromptInput(incoming, context);
 
   const referenceEdges = incoming.filter((edge) => edge.targetPort === "references");
   const references = referenceEdges
@@ -145,9 +398,16 @@ const prepareNodeRunInput = async (
     const key = item.storageKey || item.url;
     if (!dedup.has(key)) dedup.set(key, item);
   }
-  const normalizedReferences = Array.from(dedup.values());
 
-  const { config } = normalizeNanoBananaConfig(node.config);
+  return { promptText, references: Array.from(dedup.values()) };
+};
+
+const buildNanoBananaRunInput = async (
+  config: NanoBananaNodeConfig,
+  promptText: string,
+  normalizedReferences: ReturnType<typeof extractImageReferences>,
+  repeat = 1
+): Promise<PreparedNodeRunInput> => {
   assertNanoBananaConfigCompatible(config, normalizedReferences.length);
 
   const estimatedUsd = estimateNanoBananaCostUsd({
@@ -173,10 +433,13 @@ const prepareNodeRunInput = async (
     enableSearchGrounding: config.enableSearchGrounding,
   };
 
+  // Repeats of a sweep variant ask for the same thing on purpose, so they must not share a
+  // hash (and with it a cached result); the first repeat still matches a plain run.
   const requestHash = await hashSha256Hex(
     toStableJson({
       inputSnapshot,
       resolvedConfig,
+      ...(repeat > 1 ? { repeat } : {}),
     })
   );
 
@@ -190,6 +453,77 @@ const prepareNodeRunInput = async (
   };
 };
 
+type PreparedSweepVariant = PreparedNodeRunInput & {
+  sweepIndex: number;
+  sweepLabel: string;
+};
+
+// One prepared run per sweep variant, or null when the node doesn't sweep. Each variant is
+// validated on its own, so an aspect ratio or size the model can't do fails the launch.
+const prepareSweepRunInputs = async (
+  node: Doc<"aiNodes">,
+  allNodes: Array<Doc<"aiNodes">>,
+  allEdges: Array<Doc<"aiEdges">>,
+  textSources: TextSourceOptions
+): Promise<PreparedSweepVariant[] | null> => {
+  if (normalizeNanoNodeType(node.type) !== NANO_BANANA_CANONICAL_NODE_TYPE) return null;
+  const { config } = normalizeNanoBananaConfig(node.config);
+  if (!config.sweep) return null;
+
+  if (countSweepVariants(config.sweep) > MAX_SWEEP_VARIANTS) {
+    throw new ConvexError("SWEEP_TOO_MANY_VARIANTS");
+  }
+
+  const context = createTextSourceContext(allNodes, allEdges, textSources);
+  const incoming = allEdges.filter((edge) => String(edge.targetNodeId) === String(node._id));
+  const { promptText, references } = resolveNanoBananaSources(incoming, context);
+
+  const prepared: PreparedSweepVariant[] = [];
+  for (const variant of expandAiSweep(config.sweep)) {
+    if (variant.referenceSubset?.some((number) => number > references.length)) {
+      throw new ConvexError("SWEEP_INVALID_REFERENCE_SUBSET");
+    }
+    const variantReferences = variant.referenceSubset
+      ? variant.referenceSubset.map((number) => references[number - 1])
+      : references;
+    const variantPrompt = variant.promptFragment ? `${promptText}\n${variant.promptFragment}` : promptText;
+    const variantConfig: NanoBananaNodeConfig = {
+      ...config,
+      aspectRatio: variant.aspectRatio ?? config.aspectRatio,
+      imageSize: (variant.imageSize as NanoBananaImageSize | undefined) ?? config.imageSize,
+    };
+
+    prepared.push({
+      ...(await buildNanoBananaRunInput(variantConfig, variantPrompt, variantReferences, variant.repeat)),
+      sweepIndex: variant.index,
+      sweepLabel: variant.label,
+    });
+  }
+  return prepared;
+};
+
+// Latest rewritten text per LLM rewrite node, preferring runs from `workflowRunId`.
+const loadRewriteTexts = async (
+  ctx: any,
+  nodes: Array<Doc<"aiNodes">>,
+  workflowRunId?: Id<"aiWorkflowRuns">
+) => {
+  const texts = new Map<string, string>();
+  for (const node of nodes) {
+    if (normalizeNanoNodeType(node.type) !== LLM_REWRITE_NODE_TYPE) continue;
+    const doneRuns: Array<Doc<"aiNodeRuns">> = await ctx.db
+      .query("aiNodeRuns")
+      .withIndex("byNodeStatus", (q: any) => q.eq("nodeId", node._id).eq("status", RUN_STATUS_DONE))
+      .order("desc")
+      .take(20);
+    const run = doneRuns.find((candidate) => candidate.workflowRunId === workflowRunId) ?? doneRuns[0];
+    if (typeof run?.outputSummary?.text === "string") {
+      texts.set(String(node._id), run.outputSummary.text);
+    }
+  }
+  return texts;
+};
+
 const ensureNoActiveNodeRun = async (ctx: any, nodeId: Id<"aiNodes">) => {
   const queued = await ctx.db
     .query("aiNodeRuns")
@@ -369,6 +703,108 @@ const buildGraphInfo = (
   };
 };
 
+// Opt-in per node: `runPolicy.cacheResults` lets a launch reuse the outputs of an earlier
+// identical run (same requestHash) on the same board instead of billing the provider again.
+const isResultCacheEnabled = (node: Doc<"aiNodes">) => node.runPolicy?.cacheResults === true;
+
+const findCachedNodeRun = async (
+  ctx: any,
+  boardId: Id<"boards">,
+  requestHash: string
+): Promise<Doc<"aiNodeRuns"> | null> => {
+  const candidates: Array<Doc<"aiNodeRuns">> = await ctx.db
+    .query("aiNodeRuns")
+    .withIndex("byRequestHashStatus", (q: any) => q.eq("requestHash", requestHash).eq("status", RUN_STATUS_DONE))
+    .order("desc")
+    .take(20);
+
+  for (const candidate of candidates) {
+    if (candidate.boardId !== boardId) continue;
+    const output = await ctx.db
+      .query("aiNodeOutputs")
+      .withIndex("byNodeRun", (q: any) => q.eq("nodeRunId", candidate._id))
+      .first();
+    if (output) return candidate;
+  }
+  return null;
+};
+
+const settleNodeRunFromCache = async (
+  ctx: any,
+  nodeRunId: Id<"aiNodeRuns">,
+  source: Doc<"aiNodeRuns">,
+  model: string
+) => {
+  const nodeRun: Doc<"aiNodeRuns"> = await ctx.db.get(nodeRunId);
+  const now = nowTs();
+
+  const sourceOutputs: Array<Doc<"aiNodeOutputs">> = await ctx.db
+    .query("aiNodeOutputs")
+    .withIndex("byNodeRun", (q: any) => q.eq("nodeRunId", source._id))
+    .collect();
+  const latest = await ctx.db
+    .query("aiNodeOutputs")
+    .withIndex("byNodeVersion", (q: any) => q.eq("nodeId", nodeRun.nodeId))
+    .order("desc")
+    .first();
+
+  let version = (latest?.version ?? 0) + 1;
+  for (const output of sourceOutputs.sort((a, b) => a.version - b.version)) {
+    await ctx.db.insert("aiNodeOutputs", {
+      subnetworkId: nodeRun.subnetworkId,
+      boardId: nodeRun.boardId,
+      nodeId: nodeRun.nodeId,
+      workflowRunId: nodeRun.workflowRunId,
+      nodeRunId: nodeRun._id,
+      version,
+      outputType: output.outputType,
+      title: output.title,
+      storageKey: output.storageKey,
+      publicUrl: output.publicUrl,
+      mimeType: output.mimeType,
+      byteSize: output.byteSize,
+      width: output.width,
+      height: output.height,
+      durationSeconds: output.durationSeconds,
+      metadata: output.metadata,
+      pinned: false,
+      createdBy: nodeRun.launchedBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+    version += 1;
+  }
+
+  await ctx.db.patch(nodeRun._id, {
+    status: RUN_STATUS_DONE,
+    startedAt: now,
+    completedAt: now,
+    actualUsd: 0,
+    cacheHit: true,
+    cachedFromNodeRunId: source._id,
+    providerJobState: undefined,
+    outputSummary: source.outputSummary,
+    updatedAt: now,
+  });
+
+  // A zero "actual" entry keeps the run's effective cost at zero in sumLedgerEffective.
+  await ctx.db.insert("aiCostLedger", {
+    userId: nodeRun.launchedBy,
+    boardId: nodeRun.boardId,
+    subnetworkId: nodeRun.subnetworkId,
+    workflowRunId: nodeRun.workflowRunId,
+    nodeRunId: nodeRun._id,
+    provider: "google",
+    model,
+    metric: "actual",
+    amountUsd: 0,
+    currency: "USD",
+    monthKey: toMonthKey(new Date()),
+    notes: "cache hit",
+    createdAt: now,
+  });
+};
+
 const insertEstimatedLedger = async (
   ctx: any,
   userId: Id<"users">,
@@ -395,10 +831,145 @@ const insertEstimatedLedger = async (
   });
 };
 
+// A sweep launches as one "sweep" workflow run holding a node run per variant. The budget
+// check sees the combined estimate, so a sweep starts whole or not at all.
+const launchSweep = async (
+  ctx: any,
+  {
+    subnetwork,
+    user,
+    node,
+    variants,
+    forceRerun,
+  }: {
+    subnetwork: Doc<"aiSubnetworks">;
+    user: Doc<"users">;
+    node: Doc<"aiNodes">;
+    variants: PreparedSweepVariant[];
+    forceRerun?: boolean;
+  }
+) => {
+  const useCache = !forceRerun && isResultCacheEnabled(node);
+  const cachedRuns = await Promise.all(
+    variants.map((variant) =>
+      useCache && variant.requestHash
+        ? findCachedNodeRun(ctx, subnetwork.boardId, variant.requestHash)
+        : Promise.resolve(null)
+    )
+  );
+  const estimatedUsd = variants.reduce(
+    (sum, variant, index) => sum + (cachedRuns[index] ? 0 : variant.estimatedUsd),
+    0
+  );
+
+  const budgetBlock = await checkAiBudgets(ctx, { user, subnetwork, estimatedUsd });
+  if (budgetBlock) {
+    return { blocked: budgetBlock };
+  }
+
+  const keyRef = await resolveLauncherKey(ctx, user._id);
+  await markKeyUsed(ctx, user._id, keyRef);
+
+  const now = nowTs();
+
+  const workflowRunId = await ctx.db.insert("aiWorkflowRuns", {
+    subnetworkId: subnetwork._id,
+    boardId: subnetwork.boardId,
+    launchedBy: user._id,
+    runType: "sweep",
+    triggerNodeId: node._id,
+    status: RUN_STATUS_QUEUED,
+    keyRefType: keyRef.mode,
+    keyRefId: keyRef.keyId,
+    estimatedUsd,
+    nodeCount: variants.length,
+    completedNodeCount: 0,
+    failedNodeCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await ctx.db.patch(subnetwork._id, { updatedAt: now });
+
+  const nodeRunIds: Array<Id<"aiNodeRuns">> = [];
+  let cachedNodeCount = 0;
+  let lastCachedNodeRunId: Id<"aiNodeRuns"> | null = null;
+  for (const [index, variant] of variants.entries()) {
+    const cachedRun = cachedRuns[index];
+    const variantEstimatedUsd = cachedRun ? 0 : variant.estimatedUsd;
+    const nodeRunId = await ctx.db.insert("aiNodeRuns", {
+      workflowRunId,
+      subnetworkId: subnetwork._id,
+      boardId: subnetwork.boardId,
+      nodeId: node._id,
+      launchedBy: user._id,
+      status: RUN_STATUS_QUEUED,
+      attempts: 0,
+      maxAttempts: 1,
+      estimatedUsd: variantEstimatedUsd,
+      providerModelId: variant.providerModelId,
+      executionMode: variant.executionMode,
+      resolvedConfig: variant.resolvedConfig,
+      inputSnapshot: variant.inputSnapshot,
+      requestHash: variant.requestHash,
+      sweepIndex: variant.sweepIndex,
+      sweepLabel: variant.sweepLabel,
+      providerJobState: variant.executionMode === "batch" ? "queued" : undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+    nodeRunIds.push(nodeRunId);
+
+    const model = variant.providerModelId ?? resolveNanoBananaModelForNode(node.type, node.config) ?? node.type;
+    if (cachedRun) {
+      cachedNodeCount += 1;
+      await settleNodeRunFromCache(ctx, nodeRunId, cachedRun, model);
+      lastCachedNodeRunId = nodeRunId;
+      continue;
+    }
+
+    await insertEstimatedLedger(
+      ctx,
+      user._id,
+      subnetwork.boardId,
+      subnetwork._id,
+      workflowRunId,
+      nodeRunId,
+      variantEstimatedUsd,
+      model
+    );
+  }
+
+  // Settle once every variant exists, so the run's counts cover the whole sweep. The
+  // orchestrator pumps the queue itself when variants are still waiting.
+  if (lastCachedNodeRunId) {
+    await ctx.runMutation((internal as any)["internal/aiOrchestrator"].onNodeRunSettled, {
+      workflowRunId,
+      subnetworkId: subnetwork._id,
+      nodeId: node._id,
+      nodeRunId: lastCachedNodeRunId,
+      success: true,
+    });
+  } else {
+    await ctx.scheduler.runAfter(0, (internal as any)["internal/aiRunner"].pumpQueue, {});
+  }
+
+  return {
+    workflowRunId,
+    nodeRunId: nodeRunIds[0],
+    estimatedUsd,
+    cacheHit: cachedNodeCount === variants.length,
+    cachedNodeCount,
+    sweepVariantCount: variants.length,
+  };
+};
+
 export const launchNode = mutation({
   args: {
     subnetworkId: v.id("aiSubnetworks"),
     nodeId: v.id("aiNodes"),
+    // Skip the result cache and call the provider even when an identical run exists.
+    forceRerun: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const { subnetwork, user } = await requireSubnetworkWrite(ctx, args.subnetworkId);
@@ -419,13 +990,38 @@ export const launchNode = mutation({
       .withIndex("bySubnetwork", (q) => q.eq("subnetworkId", subnetwork._id))
       .collect();
 
-    const prepared = await prepareNodeRunInput(node, nodes, edges);
+    const textSources = {
+      rewriteTexts: await loadRewriteTexts(ctx, nodes),
+      deferPendingRewrites: false,
+    };
+
+    const sweepVariants = await prepareSweepRunInputs(node, nodes, edges, textSources);
+    if (sweepVariants) {
+      return await launchSweep(ctx, {
+        subnetwork,
+        user,
+        node,
+        variants: sweepVariants,
+        forceRerun: args.forceRerun,
+      });
+    }
+
+    const prepared = await prepareNodeRunInput(node, nodes, edges, textSources);
+    const cachedRun =
+      !args.forceRerun && isResultCacheEnabled(node) && prepared.requestHash
+        ? await findCachedNodeRun(ctx, subnetwork.boardId, prepared.requestHash)
+        : null;
+    const estimatedUsd = cachedRun ? 0 : prepared.estimatedUsd;
+
+    const budgetBlock = await checkAiBudgets(ctx, { user, subnetwork, estimatedUsd });
+    if (budgetBlock) {
+      return { blocked: budgetBlock };
+    }
 
     const keyRef = await resolveLauncherKey(ctx, user._id);
     await markKeyUsed(ctx, user._id, keyRef);
 
     const now = nowTs();
-    const estimatedUsd = prepared.estimatedUsd;
 
     const workflowRunId = await ctx.db.insert("aiWorkflowRuns", {
       subnetworkId: subnetwork._id,
@@ -464,6 +1060,27 @@ export const launchNode = mutation({
       updatedAt: now,
     });
 
+    const model = prepared.providerModelId ?? resolveNanoBananaModelForNode(node.type, node.config) ?? node.type;
+
+    await ctx.db.patch(subnetwork._id, { updatedAt: now });
+
+    if (cachedRun) {
+      await settleNodeRunFromCache(ctx, nodeRunId, cachedRun, model);
+      await ctx.runMutation((internal as any)["internal/aiOrchestrator"].onNodeRunSettled, {
+        workflowRunId,
+        subnetworkId: subnetwork._id,
+        nodeId: node._id,
+        nodeRunId,
+        success: true,
+      });
+      return {
+        workflowRunId,
+        nodeRunId,
+        estimatedUsd,
+        cacheHit: true,
+      };
+    }
+
     await insertEstimatedLedger(
       ctx,
       user._id,
@@ -472,24 +1089,27 @@ export const launchNode = mutation({
       workflowRunId,
       nodeRunId,
       estimatedUsd,
-      prepared.providerModelId ?? resolveNanoBananaModelForNode(node.type, node.config) ?? node.type
+      model
     );
 
-    await ctx.db.patch(subnetwork._id, { updatedAt: now });
-
     await ctx.scheduler.runAfter(0, (internal as any)["internal/aiRunner"].pumpQueue, {});
 
     return {
       workflowRunId,
       nodeRunId,
       estimatedUsd,
+      cacheHit: false,
     };
   },
 });
 
+// Sweep nodes run once here with their base config; the variants only run when the node is
+// launched alone (see `launchSweep`), which is what the workflow cost estimate assumes too.
 export const launchWorkflow = mutation({
   args: {
     subnetworkId: v.id("aiSubnetworks"),
+    // Skip the result cache for every node in the flow.
+    forceRerun: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const { subnetwork, user } = await requireSubnetworkWrite(ctx, args.subnetworkId);
@@ -517,11 +1137,6 @@ export const launchWorkflow = mutation({
       throw new ConvexError("AI_GRAPH_CYCLE_NOT_ALLOWED");
     }
 
-    const keyRef = await resolveLauncherKey(ctx, user._id);
-    await markKeyUsed(ctx, user._id, keyRef);
-
-    const now = nowTs();
-
     const preparedByNodeId = new Map<
       string,
       {
@@ -534,16 +1149,35 @@ export const launchWorkflow = mutation({
       }
     >();
 
+    const cachedRunByNodeId = new Map<string, Doc<"aiNodeRuns">>();
+
     for (const node of nodes) {
-      const prepared = await prepareNodeRunInput(node, nodes, edges);
+      const prepared = await prepareNodeRunInput(node, nodes, edges, {
+        rewriteTexts: new Map(),
+        deferPendingRewrites: true,
+      });
       preparedByNodeId.set(String(node._id), prepared);
+      if (!args.forceRerun && isResultCacheEnabled(node) && prepared.requestHash) {
+        const cachedRun = await findCachedNodeRun(ctx, subnetwork.boardId, prepared.requestHash);
+        if (cachedRun) cachedRunByNodeId.set(String(node._id), cachedRun);
+      }
     }
 
-    const estimatedUsd = Array.from(preparedByNodeId.values()).reduce(
-      (acc, prepared) => acc + prepared.estimatedUsd,
+    const estimatedUsd = Array.from(preparedByNodeId.entries()).reduce(
+      (acc, [nodeId, prepared]) => acc + (cachedRunByNodeId.has(nodeId) ? 0 : prepared.estimatedUsd),
       0
     );
 
+    const budgetBlock = await checkAiBudgets(ctx, { user, subnetwork, estimatedUsd });
+    if (budgetBlock) {
+      return { blocked: budgetBlock };
+    }
+
+    const keyRef = await resolveLauncherKey(ctx, user._id);
+    await markKeyUsed(ctx, user._id, keyRef);
+
+    const now = nowTs();
+
     const workflowRunId = await ctx.db.insert("aiWorkflowRuns", {
       subnetworkId: subnetwork._id,
       boardId: subnetwork.boardId,
@@ -563,12 +1197,14 @@ export const launchWorkflow = mutation({
     const nodeIdMap = new Map(nodes.map((node) => [String(node._id), node]));
 
     const nodeRunIds: Array<Id<"aiNodeRuns">> = [];
+    let lastCachedRun: { nodeId: Id<"aiNodes">; nodeRunId: Id<"aiNodeRuns"> } | null = null;
 
     for (const node of nodes) {
       const inDegree = graph.inDegree.get(String(node._id)) ?? 0;
       const nodeStatus = inDegree === 0 ? RUN_STATUS_QUEUED : NODE_STATUS_BLOCKED;
       const prepared = preparedByNodeId.get(String(node._id));
-      const estimatedNodeUsd = prepared?.estimatedUsd ?? estimateNodeCost(node.type);
+      const cachedRun = cachedRunByNodeId.get(String(node._id));
+      const estimatedNodeUsd = cachedRun ? 0 : prepared?.estimatedUsd ?? estimateNodeCost(node.type);
 
       const nodeRunId = await ctx.db.insert("aiNodeRuns", {
         workflowRunId,
@@ -591,6 +1227,18 @@ export const launchWorkflow = mutation({
       });
       nodeRunIds.push(nodeRunId);
 
+      const model =
+        prepared?.providerModelId ??
+        resolveNanoBananaModelForNode(nodeIdMap.get(String(node._id))?.type ?? node.type, node.config) ??
+        (nodeIdMap.get(String(node._id))?.type ?? node.type);
+
+      // Cached results don't depend on upstream runs finishing, so they settle right away.
+      if (cachedRun) {
+        await settleNodeRunFromCache(ctx, nodeRunId, cachedRun, model);
+        lastCachedRun = { nodeId: node._id, nodeRunId };
+        continue;
+      }
+
       await insertEstimatedLedger(
         ctx,
         user._id,
@@ -599,20 +1247,29 @@ export const launchWorkflow = mutation({
         workflowRunId,
         nodeRunId,
         estimatedNodeUsd,
-        prepared?.providerModelId ??
-          resolveNanoBananaModelForNode(nodeIdMap.get(String(node._id))?.type ?? node.type, node.config) ??
-          (nodeIdMap.get(String(node._id))?.type ?? node.type)
+        model
       );
     }
 
     await ctx.db.patch(subnetwork._id, { updatedAt: now });
 
+    if (lastCachedRun) {
+      await ctx.runMutation((internal as any)["internal/aiOrchestrator"].onNodeRunSettled, {
+        workflowRunId,
+        subnetworkId: subnetwork._id,
+        nodeId: lastCachedRun.nodeId,
+        nodeRunId: lastCachedRun.nodeRunId,
+        success: true,
+      });
+    }
+
     await ctx.scheduler.runAfter(0, (internal as any)["internal/aiRunner"].pumpQueue, {});
 
     return {
       workflowRunId,
       nodeRunIds,
       estimatedUsd,
+      cachedNodeCount: cachedRunByNodeId.size,
     };
   },
 });
@@ -714,7 +1371,8 @@ export const claimNodeRun = internalMutation({
       .withIndex("byNodeStatus", (q) => q.eq("nodeId", candidate.nodeId).eq("status", RUN_STATUS_PROCESSING))
       .first();
 
-    if (processingForNode) {
+    // Variants of one sweep run side by side; anything else waits for the node to settle.
+    if (processingForNode && processingForNode.workflowRunId !== candidate.workflowRunId) {
       return null;
     }
 
@@ -794,6 +1452,54 @@ export const claimNodeRun = internalMutation({
   },
 });
 
+// A workflow run that reads text from an LLM rewrite earlier in the same flow is prepared
+// before that text exists. The runner calls this right after claiming it to fill it in.
+export const refreshPendingTextInputs = internalMutation({
+  args: {
+    nodeRunId: v.id("aiNodeRuns"),
+    workerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const nodeRun = await ctx.db.get(args.nodeRunId);
+    if (!nodeRun) throw new ConvexError("AI_NODE_RUN_NOT_FOUND");
+    if (nodeRun.lockOwner !== args.workerId) {
+      throw new ConvexError("AI_NODE_RUN_LOCK_MISMATCH");
+    }
+    if (!nodeRun.inputSnapshot?.pendingRewriteNodeIds) return null;
+
+    const node = await ctx.db.get(nodeRun.nodeId);
+    if (!node) throw new ConvexError("AI_NODE_NOT_FOUND");
+
+    const nodes = await ctx.db
+      .query("aiNodes")
+      .withIndex("bySubnetwork", (q) => q.eq("subnetworkId", nodeRun.subnetworkId))
+      .collect();
+    const edges = await ctx.db
+      .query("aiEdges")
+      .withIndex("bySubnetwork", (q) => q.eq("subnetworkId", nodeRun.subnetworkId))
+      .collect();
+
+    const prepared = await prepareNodeRunInput(node, nodes, edges, {
+      rewriteTexts: await loadRewriteTexts(ctx, nodes, nodeRun.workflowRunId),
+      deferPendingRewrites: false,
+    });
+
+    await ctx.db.patch(nodeRun._id, {
+      providerModelId: prepared.providerModelId,
+      resolvedConfig: prepared.resolvedConfig,
+      inputSnapshot: prepared.inputSnapshot,
+      requestHash: prepared.requestHash,
+      updatedAt: nowTs(),
+    });
+
+    return {
+      providerModelId: prepared.providerModelId,
+      resolvedConfig: prepared.resolvedConfig,
+      inputSnapshot: prepared.inputSnapshot,
+    };
+  },
+});
+
 export const heartbeatNodeRun = internalMutation({
   args: {
     nodeRunId: v.id("aiNodeRuns"),
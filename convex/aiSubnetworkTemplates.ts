@@ -0,0 +1,503 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireBoardWrite, requireSubnetworkWrite } from "./aiAccess";
+import { insertGraphSnapshot, validateGraphSnapshot } from "./aiGraph";
+import type { GraphSnapshotEdge, GraphSnapshotNode } from "./aiGraph";
+import { normalizeNanoNodeType } from "./googleImageModelRegistry";
+import { getCurrentUserOrThrow } from "./utils/auth";
+import {
+  coerceTemplateParameterValue,
+  findTemplateParameterField,
+  MAX_TEMPLATE_PARAMETERS,
+  templateParameterKey,
+} from "../utils/subnetworkTemplates";
+import type { TemplateParameter } from "../utils/subnetworkTemplates";
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_LABEL_LENGTH = 80;
+const MAX_CHANGE_NOTE_LENGTH = 500;
+
+const parameterInputValidator = v.object({
+  nodeId: v.string(),
+  field: v.string(),
+  label: v.optional(v.string()),
+});
+
+const normalizeTitle = (value: string) => {
+  const title = value.trim();
+  if (!title) throw new ConvexError("AI_TEMPLATE_TITLE_REQUIRED");
+  if (title.length > MAX_TITLE_LENGTH) throw new ConvexError("AI_TEMPLATE_TITLE_TOO_LONG");
+  return title;
+};
+
+const normalizeOptionalText = (value: string | undefined, maxLength: number) => {
+  const text = (value ?? "").trim();
+  return text.length > 0 ? text.slice(0, maxLength) : undefined;
+};
+
+const isShareGroupMember = async (ctx: any, groupId: Id<"shareGroups">, user: Doc<"users">) => {
+  const members: Array<Doc<"shareGroupMembers">> = await ctx.db
+    .query("shareGroupMembers")
+    .withIndex("byGroup", (q: any) => q.eq("groupId", groupId))
+    .collect();
+  const email = user.email?.trim().toLowerCase();
+  return members.some((member) => member.userId === user._id || (email && member.email === email));
+};
+
+const requireTemplateRead = async (ctx: any, templateId: Id<"aiSubnetworkTemplates">) => {
+  const user = await getCurrentUserOrThrow(ctx);
+  const template: Doc<"aiSubnetworkTemplates"> | null = await ctx.db.get(templateId);
+  if (!template || template.isArchived) throw new ConvexError("AI_TEMPLATE_NOT_FOUND");
+
+  if (template.ownerId === user._id) {
+    return { template, user, isOwner: true };
+  }
+  if (template.groupId && (await isShareGroupMember(ctx, template.groupId, user))) {
+    return { template, user, isOwner: false };
+  }
+  throw new ConvexError("FORBIDDEN");
+};
+
+const requireTemplateOwner = async (ctx: any, templateId: Id<"aiSubnetworkTemplates">) => {
+  const access = await requireTemplateRead(ctx, templateId);
+  if (!access.isOwner) throw new ConvexError("FORBIDDEN");
+  return access;
+};
+
+// Templates are shared with one of the caller's own share groups, as content shares are.
+const assertOwnShareGroup = async (ctx: any, groupId: Id<"shareGroups">, user: Doc<"users">) => {
+  const group = await ctx.db.get(groupId);
+  if (!group || group.ownerId !== user._id) {
+    throw new ConvexError("GROUP_NOT_FOUND");
+  }
+};
+
+const getTemplateVersion = async (
+  ctx: any,
+  templateId: Id<"aiSubnetworkTemplates">,
+  version: number
+): Promise<Doc<"aiSubnetworkTemplateVersions">> => {
+  const templateVersion = await ctx.db
+    .query("aiSubnetworkTemplateVersions")
+    .withIndex("byTemplateVersion", (q: any) => q.eq("templateId", templateId).eq("version", version))
+    .first();
+  if (!templateVersion) throw new ConvexError("AI_TEMPLATE_VERSION_NOT_FOUND");
+  return templateVersion;
+};
+
+// The subnetwork's graph in the aiGraph import format, keyed by the current node ids.
+const snapshotSubnetworkGraph = async (ctx: any, subnetworkId: Id<"aiSubnetworks">) => {
+  const nodes: Array<Doc<"aiNodes">> = await ctx.db
+    .query("aiNodes")
+    .withIndex("bySubnetwork", (q: any) => q.eq("subnetworkId", subnetworkId))
+    .collect();
+  const edges: Array<Doc<"aiEdges">> = await ctx.db
+    .query("aiEdges")
+    .withIndex("bySubnetwork", (q: any) => q.eq("subnetworkId", subnetworkId))
+    .collect();
+
+  if (nodes.length === 0) {
+    throw new ConvexError("AI_TEMPLATE_EMPTY");
+  }
+
+  const snapshotNodes: GraphSnapshotNode[] = nodes.map((node) => ({
+    id: String(node._id),
+    type: node.type,
+    title: node.title,
+    position: node.position,
+    ...(node.size ? { size: node.size } : {}),
+    ...(node.config !== undefined ? { config: node.config } : {}),
+    ...(node.inputs ? { inputs: node.inputs } : {}),
+    ...(node.outputs ? { outputs: node.outputs } : {}),
+    ...(node.runPolicy !== undefined ? { runPolicy: node.runPolicy } : {}),
+  }));
+  const snapshotEdges: GraphSnapshotEdge[] = edges.map((edge) => ({
+    sourceNodeId: String(edge.sourceNodeId),
+    sourcePort: edge.sourcePort,
+    targetNodeId: String(edge.targetNodeId),
+    targetPort: edge.targetPort,
+  }));
+
+  return {
+    nodes: snapshotNodes,
+    edges: validateGraphSnapshot(snapshotNodes, snapshotEdges),
+  };
+};
+
+const normalizeParameters = (
+  raw: Array<{ nodeId: string; field: string; label?: string }>,
+  nodes: GraphSnapshotNode[]
+): TemplateParameter[] => {
+  if (raw.length > MAX_TEMPLATE_PARAMETERS) {
+    throw new ConvexError("AI_TEMPLATE_TOO_MANY_PARAMETERS");
+  }
+
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const parameters: TemplateParameter[] = [];
+  for (const item of raw) {
+    const node = nodeById.get(item.nodeId);
+    if (!node) throw new ConvexError("AI_TEMPLATE_PARAMETER_NODE_NOT_FOUND");
+    const field = findTemplateParameterField(node.type, item.field);
+    if (!field) throw new ConvexError("AI_TEMPLATE_PARAMETER_UNSUPPORTED");
+
+    const key = templateParameterKey(node.id, field.field);
+    if (parameters.some((parameter) => parameter.key === key)) continue;
+
+    const defaultValue = (node.config as Record<string, unknown> | undefined)?.[field.field];
+    parameters.push({
+      key,
+      label: normalizeOptionalText(item.label, MAX_LABEL_LENGTH) ?? `${node.title} · ${field.label}`,
+      nodeId: node.id,
+      field: field.field,
+      ...(defaultValue !== undefined ? { defaultValue } : {}),
+    });
+  }
+  return parameters;
+};
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUserOrThrow(ctx);
+
+    const owned = await ctx.db
+      .query("aiSubnetworkTemplates")
+      .withIndex("byOwner", (q) => q.eq("ownerId", user._id))
+      .collect();
+
+    // Members are matched by account, or by email for people invited before they had one.
+    const memberships = [
+      ...(await ctx.db
+        .query("shareGroupMembers")
+        .withIndex("byUser", (q) => q.eq("userId", user._id))
+        .collect()),
+      ...(user.email
+        ? await ctx.db
+            .query("shareGroupMembers")
+            .withIndex("byEmail", (q) => q.eq("email", user.email.trim().toLowerCase()))
+            .collect()
+        : []),
+    ];
+    const shared: Array<Doc<"aiSubnetworkTemplates">> = [];
+    for (const groupId of new Set(memberships.map((member) => member.groupId))) {
+      const groupTemplates = await ctx.db
+        .query("aiSubnetworkTemplates")
+        .withIndex("byGroup", (q) => q.eq("groupId", groupId))
+        .collect();
+      shared.push(...groupTemplates);
+    }
+
+    const byId = new Map<string, Doc<"aiSubnetworkTemplates">>();
+    for (const template of [...owned, ...shared]) {
+      if (!template.isArchived) byId.set(String(template._id), template);
+    }
+
+    const templates = Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+    return await Promise.all(
+      templates.map(async (template) => {
+        const latest = await getTemplateVersion(ctx, template._id, template.latestVersion);
+        const owner = await ctx.db.get(template.ownerId);
+        const group = template.groupId ? await ctx.db.get(template.groupId) : null;
+        return {
+          _id: template._id,
+          title: template.title,
+          description: template.description ?? null,
+          latestVersion: template.latestVersion,
+          isOwner: template.ownerId === user._id,
+          ownerName: owner?.name ?? owner?.email ?? "Unknown",
+          groupId: template.groupId ?? null,
+          groupName: group?.name ?? null,
+          nodeCount: latest.nodes.length,
+          parameterCount: latest.parameters.length,
+          updatedAt: template.updatedAt,
+        };
+      })
+    );
+  },
+});
+
+export const getVersion = query({
+  args: {
+    templateId: v.id("aiSubnetworkTemplates"),
+    // Defaults to the latest version.
+    version: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { template, isOwner } = await requireTemplateRead(ctx, args.templateId);
+    const templateVersion = await getTemplateVersion(ctx, template._id, args.version ?? template.latestVersion);
+
+    const nodeById = new Map(
+      (templateVersion.nodes as GraphSnapshotNode[]).map((node) => [node.id, node])
+    );
+    return {
+      templateId: template._id,
+      title: template.title,
+      description: template.description ?? null,
+      isOwner,
+      latestVersion: template.latestVersion,
+      version: templateVersion.version,
+      changeNote: templateVersion.changeNote ?? null,
+      createdAt: templateVersion.createdAt,
+      nodeCount: templateVersion.nodes.length,
+      edgeCount: templateVersion.edges.length,
+      // Node type and config let the form offer the options the node's model supports.
+      parameters: templateVersion.parameters.map((parameter) => {
+        const node = nodeById.get(parameter.nodeId);
+        return {
+          ...parameter,
+          nodeType: normalizeNanoNodeType(node?.type ?? ""),
+          nodeConfig: node?.config ?? null,
+        };
+      }),
+    };
+  },
+});
+
+// Template a subnetwork was saved as or instantiated from; null when the caller can't see it.
+export const getOrigin = query({
+  args: {
+    subnetworkId: v.id("aiSubnetworks"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    const subnetwork = await ctx.db.get(args.subnetworkId);
+    if (!subnetwork?.templateId) return null;
+
+    const template = await ctx.db.get(subnetwork.templateId);
+    if (!template || template.isArchived) return null;
+    const isOwner = template.ownerId === user._id;
+    if (!isOwner && !(template.groupId && (await isShareGroupMember(ctx, template.groupId, user)))) {
+      return null;
+    }
+
+    const latest = await getTemplateVersion(ctx, template._id, template.latestVersion);
+    return {
+      templateId: template._id,
+      title: template.title,
+      description: template.description ?? null,
+      groupId: template.groupId ?? null,
+      isOwner,
+      version: subnetwork.templateVersion ?? null,
+      latestVersion: template.latestVersion,
+      parameters: latest.parameters.map((parameter) => ({
+        nodeId: parameter.nodeId,
+        field: parameter.field,
+        label: parameter.label,
+      })),
+    };
+  },
+});
+
+export const listVersions = query({
+  args: {
+    templateId: v.id("aiSubnetworkTemplates"),
+  },
+  handler: async (ctx, args) => {
+    const { template } = await requireTemplateRead(ctx, args.templateId);
+    const versions = await ctx.db
+      .query("aiSubnetworkTemplateVersions")
+      .withIndex("byTemplateVersion", (q) => q.eq("templateId", template._id))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      versions.map(async (templateVersion) => {
+        const author = await ctx.db.get(templateVersion.createdBy);
+        return {
+          version: templateVersion.version,
+          changeNote: templateVersion.changeNote ?? null,
+          createdAt: templateVersion.createdAt,
+          createdByName: author?.name ?? author?.email ?? "Unknown",
+          nodeCount: templateVersion.nodes.length,
+          parameterCount: templateVersion.parameters.length,
+        };
+      })
+    );
+  },
+});
+
+export const create = mutation({
+  args: {
+    subnetworkId: v.id("aiSubnetworks"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    groupId: v.optional(v.id("shareGroups")),
+    parameters: v.array(parameterInputValidator),
+  },
+  handler: async (ctx, args) => {
+    const { subnetwork, user } = await requireSubnetworkWrite(ctx, args.subnetworkId);
+    const title = normalizeTitle(args.title);
+    if (args.groupId) {
+      await assertOwnShareGroup(ctx, args.groupId, user);
+    }
+
+    const snapshot = await snapshotSubnetworkGraph(ctx, subnetwork._id);
+    const parameters = normalizeParameters(args.parameters, snapshot.nodes);
+
+    const now = Date.now();
+    const templateId = await ctx.db.insert("aiSubnetworkTemplates", {
+      ownerId: user._id,
+      title,
+      description: normalizeOptionalText(args.description, MAX_CHANGE_NOTE_LENGTH),
+      groupId: args.groupId,
+      latestVersion: 1,
+      isArchived: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert("aiSubnetworkTemplateVersions", {
+      templateId,
+      version: 1,
+      nodes: snapshot.nodes,
+      edges: snapshot.edges,
+      parameters,
+      createdBy: user._id,
+      createdAt: now,
+    });
+
+    // The source subnetwork is where later versions get published from.
+    await ctx.db.patch(subnetwork._id, { templateId, templateVersion: 1, updatedAt: now });
+
+    return { templateId, version: 1 };
+  },
+});
+
+export const publishVersion = mutation({
+  args: {
+    templateId: v.id("aiSubnetworkTemplates"),
+    subnetworkId: v.id("aiSubnetworks"),
+    parameters: v.array(parameterInputValidator),
+    changeNote: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { template, user } = await requireTemplateOwner(ctx, args.templateId);
+    const { subnetwork } = await requireSubnetworkWrite(ctx, args.subnetworkId);
+
+    const snapshot = await snapshotSubnetworkGraph(ctx, subnetwork._id);
+    const parameters = normalizeParameters(args.parameters, snapshot.nodes);
+
+    const now = Date.now();
+    const version = template.latestVersion + 1;
+    await ctx.db.insert("aiSubnetworkTemplateVersions", {
+      templateId: template._id,
+      version,
+      nodes: snapshot.nodes,
+      edges: snapshot.edges,
+      parameters,
+      changeNote: normalizeOptionalText(args.changeNote, MAX_CHANGE_NOTE_LENGTH),
+      createdBy: user._id,
+      createdAt: now,
+    });
+    await ctx.db.patch(template._id, { latestVersion: version, updatedAt: now });
+    await ctx.db.patch(subnetwork._id, { templateId: template._id, templateVersion: version, updatedAt: now });
+
+    return { templateId: template._id, version };
+  },
+});
+
+export const update = mutation({
+  args: {
+    templateId: v.id("aiSubnetworkTemplates"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    // null stops sharing.
+    groupId: v.optional(v.union(v.id("shareGroups"), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { template, user } = await requireTemplateOwner(ctx, args.templateId);
+
+    const patch: Partial<Doc<"aiSubnetworkTemplates">> = {
+      updatedAt: Date.now(),
+    };
+    if (typeof args.title === "string") {
+      patch.title = normalizeTitle(args.title);
+    }
+    if (typeof args.description === "string") {
+      patch.description = normalizeOptionalText(args.description, MAX_CHANGE_NOTE_LENGTH);
+    }
+    if (args.groupId === null) {
+      patch.groupId = undefined;
+    } else if (args.groupId) {
+      await assertOwnShareGroup(ctx, args.groupId, user);
+      patch.groupId = args.groupId;
+    }
+
+    await ctx.db.patch(template._id, patch);
+    return template._id;
+  },
+});
+
+export const archive = mutation({
+  args: {
+    templateId: v.id("aiSubnetworkTemplates"),
+  },
+  handler: async (ctx, args) => {
+    const { template } = await requireTemplateOwner(ctx, args.templateId);
+    await ctx.db.patch(template._id, { isArchived: true, updatedAt: Date.now() });
+    return template._id;
+  },
+});
+
+export const instantiate = mutation({
+  args: {
+    templateId: v.id("aiSubnetworkTemplates"),
+    boardId: v.id("boards"),
+    // Defaults to the latest version.
+    version: v.optional(v.number()),
+    title: v.optional(v.string()),
+    values: v.optional(
+      v.array(
+        v.object({
+          key: v.string(),
+          value: v.any(),
+        })
+      )
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { template } = await requireTemplateRead(ctx, args.templateId);
+    const { user } = await requireBoardWrite(ctx, args.boardId);
+    const templateVersion = await getTemplateVersion(ctx, template._id, args.version ?? template.latestVersion);
+
+    const nodes = (templateVersion.nodes as GraphSnapshotNode[]).map((node) => ({
+      ...node,
+      config: node.config && typeof node.config === "object" ? { ...node.config } : node.config,
+    }));
+    const nodeById = new Map(nodes.map((node) => [node.id, node]));
+    const valueByKey = new Map((args.values ?? []).map((item) => [item.key, item.value]));
+
+    for (const parameter of templateVersion.parameters) {
+      const node = nodeById.get(parameter.nodeId);
+      const field = node ? findTemplateParameterField(node.type, parameter.field) : null;
+      if (!node || !field) continue;
+      const value = coerceTemplateParameterValue(field.input, valueByKey.get(parameter.key), parameter.defaultValue);
+      if (value === undefined) continue;
+      node.config = { ...(node.config ?? {}), [parameter.field]: value };
+    }
+
+    const normalizedEdges = validateGraphSnapshot(nodes, templateVersion.edges as GraphSnapshotEdge[]);
+
+    const title = args.title?.trim() ? normalizeTitle(args.title) : template.title;
+    const now = Date.now();
+    const subnetworkId = await ctx.db.insert("aiSubnetworks", {
+      boardId: args.boardId,
+      ownerId: user._id,
+      title,
+      description: template.description,
+      isArchived: false,
+      templateId: template._id,
+      templateVersion: templateVersion.version,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const subnetwork = (await ctx.db.get(subnetworkId))!;
+    await insertGraphSnapshot(ctx, subnetwork, user, nodes, normalizedEdges);
+
+    return {
+      subnetworkId,
+      title,
+      version: templateVersion.version,
+    };
+  },
+});
@@ -2,6 +2,7 @@ import { ConvexError, v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import type { Id } from "./_generated/dataModel";
 import { requireBoardRead, requireBoardWrite, requireSubnetworkRead, requireSubnetworkWrite } from "./aiAccess";
+import { deleteScopeBudget } from "./aiBudgets";
 
 const normalizeTitle = (value?: string | null) => {
   const title = (value ?? "").trim();
@@ -172,6 +173,7 @@ export const remove = mutation({
       await ctx.db.delete(node._id);
     }
 
+    await deleteScopeBudget(ctx, "subnetwork", subnetwork._id);
     await ctx.db.delete(subnetwork._id);
 
     return subnetwork._id;
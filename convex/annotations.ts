@@ -3,6 +3,8 @@ import { ConvexError, v } from "convex/values";
 import { api, internal } from "./_generated/api";
 import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
 import type { Id } from "./_generated/dataModel";
+import { getGuestSession, guestCanCommentOnVideo, guestCanViewVideo } from "./utils/shareGuests";
+import { resolveVideoSource } from "./utils/videoSources";
 
 const annotationValidator = v.any();
 
@@ -50,6 +52,34 @@ const validateMediaAnnotation = (annotation: any) => {
   }
 };
 
+// Keyframes beyond this would only come from a broken client; a 10-minute hold at 60fps has fewer.
+const MAX_KEYFRAMES = 1000;
+
+/** Checks the hold range and keyframes of an annotation payload; returns the frameEnd column value. */
+const validateHold = (annotation: any, frame: number): number | undefined => {
+  const { frameEnd, keyframes } = annotation;
+  if (frameEnd !== undefined && frameEnd !== null && (typeof frameEnd !== "number" || !Number.isFinite(frameEnd) || frameEnd < frame)) {
+    throw new ConvexError("INVALID_HOLD");
+  }
+  const lastFrame = typeof frameEnd === "number" ? frameEnd : frame;
+  if (keyframes !== undefined && keyframes !== null) {
+    if (!Array.isArray(keyframes) || keyframes.length > MAX_KEYFRAMES) {
+      throw new ConvexError("INVALID_HOLD");
+    }
+    for (const key of keyframes) {
+      const valid =
+        key &&
+        typeof key.frame === "number" &&
+        key.frame >= frame &&
+        key.frame <= lastFrame &&
+        typeof key.offset?.x === "number" &&
+        typeof key.offset?.y === "number";
+      if (!valid) throw new ConvexError("INVALID_HOLD");
+    }
+  }
+  return typeof frameEnd === "number" && frameEnd > frame ? frameEnd : undefined;
+};
+
 const enqueueAssetDeletion = async (ctx: any, annotation: any) => {
   const key = extractMediaStorageKey(annotation);
   if (!key) return;
@@ -140,12 +170,17 @@ async function canAnnotateVideo(ctx: any, userId: Id<'users'>, videoId: Id<'vide
 export const listByVideo = query({
   args: {
     videoId: v.id("videos"),
+    guestToken: v.optional(v.string()),
   },
-  async handler(ctx, { videoId }) {
+  async handler(ctx, { videoId, guestToken }) {
     const user = await getCurrentUserDoc(ctx);
-    if (!user) return [] as any[];
-    const ok = await canViewVideo(ctx, user._id, videoId);
-    if (!ok) return [] as any[];
+    if (user) {
+      const ok = await canViewVideo(ctx, user._id, videoId);
+      if (!ok) return [] as any[];
+    } else {
+      const session = await getGuestSession(ctx, guestToken);
+      if (!session || !(await guestCanViewVideo(ctx, session, videoId))) return [] as any[];
+    }
 
     const annotations = await ctx.db
       .query("annotations")
@@ -157,7 +192,8 @@ export const listByVideo = query({
       return {
         id: annotation._id,
         videoId: annotation.videoId,
-        authorId: annotation.authorId,
+        authorId: annotation.authorId ?? annotation.guestId,
+        isGuest: Boolean(annotation.guestId),
         createdAt: annotation.createdAt,
         updatedAt: annotation.updatedAt,
         frame: annotation.frame,
@@ -171,11 +207,27 @@ export const create = mutation({
   args: {
     videoId: v.id("videos"),
     annotation: annotationValidator,
+    sourceStorageKey: v.optional(v.string()),
+    guestToken: v.optional(v.string()),
   },
-  async handler(ctx, { videoId, annotation }) {
-    const user = await getCurrentUserOrThrow(ctx);
-    if (!(await canAnnotateVideo(ctx, user._id, videoId))) {
-      throw new ConvexError("FORBIDDEN");
+  async handler(ctx, { videoId, annotation, sourceStorageKey, guestToken }) {
+    const signedIn = await getCurrentUserDoc(ctx);
+    let author: { authorId?: Id<"users">; guestId?: Id<"shareGuests"> };
+    if (!signedIn && guestToken) {
+      const session = await getGuestSession(ctx, guestToken);
+      if (!session) {
+        throw new ConvexError("GUEST_SESSION_EXPIRED");
+      }
+      if (!(await guestCanCommentOnVideo(ctx, session, videoId))) {
+        throw new ConvexError("FORBIDDEN");
+      }
+      author = { guestId: session.guest._id };
+    } else {
+      const user = await getCurrentUserOrThrow(ctx);
+      if (!(await canAnnotateVideo(ctx, user._id, videoId))) {
+        throw new ConvexError("FORBIDDEN");
+      }
+      author = { authorId: user._id };
     }
 
     if (typeof annotation !== "object" || annotation === null) {
@@ -183,17 +235,26 @@ export const create = mutation({
     }
 
     validateMediaAnnotation(annotation);
+    // Media annotations reference uploads in our storage, which guests cannot write to.
+    if (author.guestId && getMediaPayload(annotation)) {
+      throw new ConvexError("FORBIDDEN");
+    }
 
     const frame = (annotation as any).frame;
     if (typeof frame !== "number") {
       throw new ConvexError("INVALID_FRAME");
     }
+    const frameEnd = validateHold(annotation, frame);
+
+    const { storageKey: source } = await resolveVideoSource(ctx, videoId, sourceStorageKey);
 
     const now = Date.now();
     const id = await ctx.db.insert("annotations", {
       videoId,
-      authorId: user._id,
+      ...author,
+      sourceStorageKey: source,
       frame,
+      frameEnd,
       data: annotation,
       createdAt: now,
       updatedAt: now,
@@ -202,7 +263,8 @@ export const create = mutation({
     return {
       id,
       ...(annotation as Record<string, unknown>),
-      authorId: user._id,
+      authorId: author.authorId ?? author.guestId,
+      isGuest: Boolean(author.guestId),
       videoId,
       createdAt: now,
     };
@@ -232,6 +294,7 @@ export const update = mutation({
     if (typeof frame !== "number") {
       throw new ConvexError("INVALID_FRAME");
     }
+    const frameEnd = validateHold(annotation, frame);
 
     const existingData = existing.data;
     const existingKey = extractMediaStorageKey(existingData);
@@ -239,6 +302,7 @@ export const update = mutation({
 
     await ctx.db.patch(annotationId, {
       frame,
+      frameEnd,
       data: annotation,
       updatedAt: Date.now(),
     });
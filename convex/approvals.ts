@@ -0,0 +1,159 @@
+import { mutation, query } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
+import type { Id } from "./_generated/dataModel";
+import { effectiveAvatar } from "./utils/avatar";
+import { canViewVideo, isVideoMember } from "./utils/videoAccess";
+import { resolveVideoSource } from "./utils/videoSources";
+
+const approvalStatusValidator = v.union(
+  v.literal("approved"),
+  v.literal("rejected"),
+  v.literal("needs_changes"),
+  v.literal("on_hold"),
+);
+
+const STATUS_LABELS: Record<string, string> = {
+  approved: "approved",
+  rejected: "rejected",
+  needs_changes: "requested changes on",
+  on_hold: "put on hold",
+};
+
+export const listByVideo = query({
+  args: {
+    videoId: v.id("videos"),
+    storageKey: v.optional(v.string()),
+  },
+  async handler(ctx, { videoId, storageKey }) {
+    const user = await getCurrentUserDoc(ctx);
+    if (!user || !(await canViewVideo(ctx, user._id, videoId))) return [];
+    const video = await ctx.db.get(videoId);
+    if (!video) return [];
+    const key = storageKey ?? video.storageKey;
+
+    const rows = await ctx.db
+      .query("videoApprovals")
+      .withIndex("byVideoAndStorageKey", (q) => q.eq("videoId", videoId).eq("storageKey", key))
+      .collect();
+
+    return Promise.all(
+      rows
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map(async (row) => {
+          const reviewer = await ctx.db.get(row.reviewerId);
+          return {
+            id: row._id,
+            videoId: row.videoId,
+            revisionId: row.revisionId ?? null,
+            storageKey: row.storageKey,
+            reviewerId: row.reviewerId,
+            reviewerName: reviewer?.name ?? reviewer?.email ?? "Anonymous",
+            reviewerAvatar: effectiveAvatar(reviewer),
+            status: row.status,
+            feedback: row.feedback ?? null,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+            isOwnDecision: row.reviewerId === user._id,
+          };
+        }),
+    );
+  },
+});
+
+// Whether the caller may record a decision, so link viewers get a read-only panel.
+export const canDecide = query({
+  args: {
+    videoId: v.id("videos"),
+  },
+  async handler(ctx, { videoId }) {
+    const user = await getCurrentUserDoc(ctx);
+    return user ? isVideoMember(ctx, user._id, videoId) : false;
+  },
+});
+
+export const setDecision = mutation({
+  args: {
+    videoId: v.id("videos"),
+    status: approvalStatusValidator,
+    feedback: v.optional(v.string()),
+    storageKey: v.optional(v.string()),
+  },
+  async handler(ctx, { videoId, status, feedback, storageKey }) {
+    const user = await getCurrentUserOrThrow(ctx);
+    if (!(await isVideoMember(ctx, user._id, videoId))) {
+      throw new ConvexError("FORBIDDEN");
+    }
+    const source = await resolveVideoSource(ctx, videoId, storageKey);
+    const trimmedFeedback = feedback?.trim() || undefined;
+    const now = Date.now();
+
+    const existing = await ctx.db
+      .query("videoApprovals")
+      .withIndex("byVideoStorageKeyReviewer", (q) =>
+        q.eq("videoId", videoId).eq("storageKey", source.storageKey).eq("reviewerId", user._id),
+      )
+      .unique();
+
+    let approvalId: Id<'videoApprovals'>;
+    if (existing) {
+      approvalId = existing._id;
+      await ctx.db.patch(existing._id, {
+        status,
+        feedback: trimmedFeedback,
+        revisionId: source.revisionId,
+        updatedAt: now,
+      });
+    } else {
+      approvalId = await ctx.db.insert("videoApprovals", {
+        videoId,
+        revisionId: source.revisionId,
+        storageKey: source.storageKey,
+        reviewerId: user._id,
+        status,
+        feedback: trimmedFeedback,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    // Let the owner know a reviewer signed off (or didn't), unless they decided themselves.
+    if (source.video.ownerId !== user._id && existing?.status !== status) {
+      await ctx.db.insert('notifications', {
+        userId: source.video.ownerId,
+        type: 'approval',
+        message: `${user.name ?? user.email} ${STATUS_LABELS[status]} ${source.video.title}`,
+        videoId,
+        projectId: source.video.projectId ?? undefined,
+        fromUserId: user._id,
+        contextTitle: source.video.title,
+        previewUrl: source.video.thumbnailUrl ?? undefined,
+        createdAt: now,
+        readAt: undefined,
+      });
+    }
+
+    return { id: approvalId, status, updatedAt: now };
+  },
+});
+
+export const withdraw = mutation({
+  args: {
+    videoId: v.id("videos"),
+    storageKey: v.optional(v.string()),
+  },
+  async handler(ctx, { videoId, storageKey }) {
+    const user = await getCurrentUserOrThrow(ctx);
+    const video = await ctx.db.get(videoId);
+    if (!video) throw new ConvexError("NOT_FOUND");
+    const key = storageKey ?? video.storageKey;
+    const existing = await ctx.db
+      .query("videoApprovals")
+      .withIndex("byVideoStorageKeyReviewer", (q) =>
+        q.eq("videoId", videoId).eq("storageKey", key).eq("reviewerId", user._id),
+      )
+      .unique();
+    if (!existing) return;
+    await ctx.db.delete(existing._id);
+  },
+});
@@ -1,5 +1,6 @@
 import { internalMutation, internalQuery } from "./_generated/server";
 import { v, ConvexError } from "convex/values";
+import { flagAssetDuplicates } from "./assets";
 
 const normalizeText = (value: string) =>
   value
@@ -190,6 +191,12 @@ export const applyAnalysisResult = internalMutation({
     nextAsset.searchText = searchText;
 
     await ctx.db.patch(job.assetId, nextAsset);
+    if (
+      (args.assetPatch.sha256 && args.assetPatch.sha256 !== asset.sha256) ||
+      (args.assetPatch.phash && args.assetPatch.phash !== asset.phash)
+    ) {
+      await flagAssetDuplicates(ctx, { ...asset, ...nextAsset });
+    }
 
     await ctx.db.patch(args.jobId, {
       status: "done",
@@ -1,5 +1,7 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation } from "./_generated/server";
 import { v, ConvexError } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
 
 const normalizeText = (value: string) =>
@@ -175,7 +177,12 @@ export const create = mutation({
       source: args.source,
     };
     base.searchText = buildSearchText(base);
-    return await ctx.db.insert("assets", base);
+    const assetId = await ctx.db.insert("assets", base);
+    if (args.sha256 || args.phash) {
+      const inserted = await ctx.db.get(assetId);
+      if (inserted) await flagAssetDuplicates(ctx, inserted);
+    }
+    return assetId;
   },
 });
 
@@ -291,6 +298,9 @@ export const patchDerived = mutation({
     };
     next.searchText = buildSearchText({ ...asset, ...next });
     await ctx.db.patch(args.id, next);
+    if (next.sha256 !== asset.sha256 || next.phash !== asset.phash) {
+      await flagAssetDuplicates(ctx, { ...asset, ...next });
+    }
     return args.id;
   },
 });
@@ -314,7 +324,346 @@ export const deleteAsset = mutation({
     for (const item of collectionItems) {
       await ctx.db.delete(item._id);
     }
+    await clearDuplicateIndex(ctx, args.id);
     await ctx.db.delete(args.id);
     return args.id;
   },
 });
+
+// === Duplicate detection ===
+
+// dHash (64 bits) Hamming distance at or under which two images count as near duplicates.
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+// 8 bands of 8 bits: hashes differing in at most 7 bits always share a band.
+const PHASH_BANDS = 8;
+const MAX_DUPLICATE_CANDIDATES = 50;
+const DUPLICATE_SCAN_BATCH_SIZE = 50;
+
+const splitPhash = (phash: string) => {
+  const hash = phash.trim().toLowerCase();
+  if (!/^[0-9a-f]+$/.test(hash) || hash.length < PHASH_BANDS) return [];
+  const width = Math.floor(hash.length / PHASH_BANDS);
+  return Array.from({ length: PHASH_BANDS }, (_, band) => hash.slice(band * width, (band + 1) * width));
+};
+
+const hammingDistance = (a: string, b: string) => {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+async function clearDuplicateIndex(ctx: any, assetId: Id<"assets">) {
+  const bands = await ctx.db
+    .query("assetPhashBands")
+    .withIndex("byAsset", (q: any) => q.eq("assetId", assetId))
+    .collect();
+  for (const band of bands) await ctx.db.delete(band._id);
+  const flags = [
+    ...(await ctx.db.query("assetDuplicateFlags").withIndex("byAsset", (q: any) => q.eq("assetId", assetId)).collect()),
+    ...(await ctx.db.query("assetDuplicateFlags").withIndex("byDuplicateOf", (q: any) => q.eq("duplicateOfId", assetId)).collect()),
+  ];
+  for (const flag of flags) await ctx.db.delete(flag._id);
+}
+
+/**
+ * Indexes an asset's hashes and flags it against the owner's library: same `sha256` is an exact
+ * duplicate, a pHash within NEAR_DUPLICATE_MAX_DISTANCE bits is a near duplicate.
+ * Runs whenever an upload (or the library worker) sets either hash; pairs already flagged,
+ * including dismissed ones, are not flagged again.
+ */
+export async function flagAssetDuplicates(ctx: any, asset: Doc<"assets">) {
+  const existingBands = await ctx.db
+    .query("assetPhashBands")
+    .withIndex("byAsset", (q: any) => q.eq("assetId", asset._id))
+    .collect();
+  for (const band of existingBands) await ctx.db.delete(band._id);
+
+  const matches = new Map<string, { kind: "exact" | "near"; distance: number }>();
+  if (asset.sha256) {
+    const sameHash: Doc<"assets">[] = await ctx.db
+      .query("assets")
+      .withIndex("byUserSha256", (q: any) => q.eq("userId", asset.userId).eq("sha256", asset.sha256))
+      .take(MAX_DUPLICATE_CANDIDATES);
+    for (const other of sameHash) {
+      if (other._id !== asset._id) matches.set(other._id, { kind: "exact", distance: 0 });
+    }
+  }
+
+  const bands = asset.phash ? splitPhash(asset.phash) : [];
+  const candidateIds = new Set<Id<"assets">>();
+  for (let band = 0; band < bands.length; band++) {
+    await ctx.db.insert("assetPhashBands", { userId: asset.userId, assetId: asset._id, band, value: bands[band] });
+    const rows = await ctx.db
+      .query("assetPhashBands")
+      .withIndex("byUserBand", (q: any) => q.eq("userId", asset.userId).eq("band", band).eq("value", bands[band]))
+      .take(MAX_DUPLICATE_CANDIDATES);
+    rows.forEach((row: Doc<"assetPhashBands">) => {
+      if (row.assetId !== asset._id && !matches.has(row.assetId)) candidateIds.add(row.assetId);
+    });
+  }
+  for (const candidateId of Array.from(candidateIds).slice(0, MAX_DUPLICATE_CANDIDATES)) {
+    const other: Doc<"assets"> | null = await ctx.db.get(candidateId);
+    if (!other?.phash) continue;
+    const distance = hammingDistance(asset.phash!.trim().toLowerCase(), other.phash.trim().toLowerCase());
+    if (distance <= NEAR_DUPLICATE_MAX_DISTANCE) matches.set(other._id, { kind: "near", distance });
+  }
+  if (matches.size === 0) return 0;
+
+  const flagged = new Set<string>();
+  const ownFlags = [
+    ...(await ctx.db.query("assetDuplicateFlags").withIndex("byAsset", (q: any) => q.eq("assetId", asset._id)).collect()),
+    ...(await ctx.db.query("assetDuplicateFlags").withIndex("byDuplicateOf", (q: any) => q.eq("duplicateOfId", asset._id)).collect()),
+  ];
+  ownFlags.forEach((flag: Doc<"assetDuplicateFlags">) =>
+    flagged.add(flag.assetId === asset._id ? flag.duplicateOfId : flag.assetId),
+  );
+
+  let created = 0;
+  for (const [otherId, match] of matches) {
+    if (flagged.has(otherId)) continue;
+    await ctx.db.insert("assetDuplicateFlags", {
+      userId: asset.userId,
+      assetId: asset._id,
+      duplicateOfId: otherId as Id<"assets">,
+      kind: match.kind,
+      distance: match.distance,
+      status: "open",
+      createdAt: Date.now(),
+    });
+    created++;
+  }
+  return created;
+}
+
+const toDuplicateAsset = (asset: Doc<"assets">, usageCount: number, collectionCount: number) => ({
+  _id: asset._id,
+  title: asset.title,
+  fileName: asset.fileName,
+  fileUrl: asset.fileUrl,
+  previewUrl: asset.variants?.thumb?.url ?? asset.variants?.preview?.url ?? asset.fileUrl,
+  type: asset.type,
+  width: asset.width ?? null,
+  height: asset.height ?? null,
+  fileSize: asset.fileSize ?? null,
+  createdAt: asset.createdAt,
+  usageCount,
+  collectionCount,
+});
+
+/**
+ * Open duplicate flags grouped into clusters of assets that match each other (directly or transitively),
+ * for the "Duplicates" review view.
+ */
+export const listDuplicates = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUserDoc(ctx);
+    if (!user) return [];
+    const flags = await ctx.db
+      .query("assetDuplicateFlags")
+      .withIndex("byUserStatus", (q) => q.eq("userId", user._id).eq("status", "open"))
+      .take(500);
+
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      const p = parent.get(id) ?? id;
+      if (p === id) return id;
+      const root = find(p);
+      parent.set(id, root);
+      return root;
+    };
+    flags.forEach((flag) => {
+      const a = find(flag.assetId);
+      const b = find(flag.duplicateOfId);
+      if (a !== b) parent.set(a, b);
+    });
+
+    const clusters = new Map<string, { assetIds: Set<Id<"assets">>; flags: typeof flags }>();
+    flags.forEach((flag) => {
+      const root = find(flag.assetId);
+      const cluster = clusters.get(root) ?? { assetIds: new Set<Id<"assets">>(), flags: [] };
+      cluster.assetIds.add(flag.assetId);
+      cluster.assetIds.add(flag.duplicateOfId);
+      cluster.flags.push(flag);
+      clusters.set(root, cluster);
+    });
+
+    const groups = [];
+    for (const [root, cluster] of clusters) {
+      const assets = [];
+      for (const assetId of cluster.assetIds) {
+        const asset = await ctx.db.get(assetId);
+        if (!asset) continue;
+        const usages = await ctx.db.query("assetUsages").withIndex("byAsset", (q) => q.eq("assetId", assetId)).collect();
+        const items = await ctx.db
+          .query("assetCollectionItems")
+          .withIndex("byAsset", (q) => q.eq("assetId", assetId))
+          .collect();
+        assets.push(toDuplicateAsset(asset, usages.length, items.length));
+      }
+      if (assets.length < 2) continue;
+      // Oldest first: it is the default asset to keep.
+      assets.sort((a, b) => a.createdAt - b.createdAt);
+      groups.push({
+        id: root,
+        kind: cluster.flags.every((flag) => flag.kind === "exact") ? ("exact" as const) : ("near" as const),
+        maxDistance: Math.max(...cluster.flags.map((flag) => flag.distance)),
+        flagIds: cluster.flags.map((flag) => flag._id),
+        assets,
+      });
+    }
+    return groups.sort((a, b) => b.assets[b.assets.length - 1].createdAt - a.assets[a.assets.length - 1].createdAt);
+  },
+});
+
+// Objects in storage that belong to an asset: the upload itself plus its generated variants.
+const assetStorageKeys = (asset: Doc<"assets">) => {
+  const keys = new Set<string>();
+  if (asset.storageKey) keys.add(asset.storageKey);
+  for (const variant of Object.values(asset.variants ?? {})) {
+    if (variant?.storageKey) keys.add(variant.storageKey);
+  }
+  return Array.from(keys);
+};
+
+const usageTargetKey = (usage: Doc<"assetUsages">) => `${usage.targetType}:${usage.targetId}`;
+
+/**
+ * Keeps `keepId` and folds the other assets into it: collection memberships and usages are
+ * repointed (dropping ones the kept asset already has), tags are merged, and the duplicates
+ * are deleted along with their analysis jobs and stored files.
+ */
+export const mergeDuplicates = mutation({
+  args: {
+    keepId: v.id("assets"),
+    mergeIds: v.array(v.id("assets")),
+  },
+  handler: async (ctx, { keepId, mergeIds }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    const keep = await ctx.db.get(keepId);
+    if (!keep || keep.userId !== user._id) {
+      throw new ConvexError("FORBIDDEN");
+    }
+    const toMerge: Doc<"assets">[] = [];
+    for (const id of new Set(mergeIds)) {
+      if (id === keepId) continue;
+      const asset = await ctx.db.get(id);
+      if (!asset || asset.userId !== user._id) {
+        throw new ConvexError("FORBIDDEN");
+      }
+      toMerge.push(asset);
+    }
+    if (toMerge.length === 0) return { keptId: keepId, merged: 0 };
+
+    const userTokens = new Set(keep.userTokens ?? []);
+    const tokens = new Set(keep.tokens ?? []);
+    const keptStorageKeys = new Set(assetStorageKeys(keep));
+    const keptUsages = await ctx.db.query("assetUsages").withIndex("byAsset", (q) => q.eq("assetId", keepId)).collect();
+    const usageTargets = new Set(keptUsages.map(usageTargetKey));
+    const now = Date.now();
+    for (const asset of toMerge) {
+      (asset.userTokens ?? []).forEach((token) => userTokens.add(token));
+      (asset.tokens ?? []).forEach((token) => tokens.add(token));
+
+      const items = await ctx.db
+        .query("assetCollectionItems")
+        .withIndex("byAsset", (q) => q.eq("assetId", asset._id))
+        .collect();
+      for (const item of items) {
+        const alreadyThere = await ctx.db
+          .query("assetCollectionItems")
+          .withIndex("byCollectionAsset", (q) => q.eq("collectionId", item.collectionId).eq("assetId", keepId))
+          .first();
+        if (alreadyThere) {
+          await ctx.db.delete(item._id);
+        } else {
+          await ctx.db.patch(item._id, { assetId: keepId });
+        }
+      }
+
+      const usages = await ctx.db.query("assetUsages").withIndex("byAsset", (q) => q.eq("assetId", asset._id)).collect();
+      for (const usage of usages) {
+        const key = usageTargetKey(usage);
+        if (usageTargets.has(key)) {
+          await ctx.db.delete(usage._id);
+        } else {
+          usageTargets.add(key);
+          await ctx.db.patch(usage._id, { assetId: keepId, updatedAt: now });
+        }
+      }
+
+      const jobs = await ctx.db
+        .query("assetAnalysisJobs")
+        .withIndex("byAsset", (q) => q.eq("assetId", asset._id))
+        .collect();
+      for (const job of jobs) await ctx.db.delete(job._id);
+
+      for (const storageKey of assetStorageKeys(asset)) {
+        if (keptStorageKeys.has(storageKey)) continue;
+        await ctx.scheduler.runAfter(0, internal.storage.deleteObject, { storageKey });
+      }
+
+      await clearDuplicateIndex(ctx, asset._id);
+      await ctx.db.delete(asset._id);
+    }
+
+    const next: any = {
+      userTokens: userTokens.size ? Array.from(userTokens) : keep.userTokens,
+      tokens: tokens.size ? Array.from(tokens) : keep.tokens,
+      updatedAt: now,
+    };
+    next.searchText = buildSearchText({ ...keep, ...next });
+    await ctx.db.patch(keepId, next);
+    return { keptId: keepId, merged: toMerge.length };
+  },
+});
+
+/** Marks a group as "not duplicates" so it leaves the review view and is not flagged again. */
+export const dismissDuplicates = mutation({
+  args: {
+    flagIds: v.array(v.id("assetDuplicateFlags")),
+  },
+  handler: async (ctx, { flagIds }) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    for (const flagId of flagIds) {
+      const flag = await ctx.db.get(flagId);
+      if (!flag || flag.userId !== user._id) continue;
+      await ctx.db.patch(flagId, { status: "dismissed" });
+    }
+  },
+});
+
+/** Flags duplicates among assets uploaded before detection existed, in scheduled batches. */
+export const scanLibraryForDuplicates = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    await ctx.scheduler.runAfter(0, internal.assets.scanDuplicatesBatch, { userId: user._id, cursor: null });
+  },
+});
+
+export const scanDuplicatesBatch = internalMutation({
+  args: {
+    userId: v.id("users"),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, { userId, cursor }) => {
+    const page = await ctx.db
+      .query("assets")
+      .withIndex("byUser", (q) => q.eq("userId", userId))
+      .paginate({ cursor, numItems: DUPLICATE_SCAN_BATCH_SIZE });
+    for (const asset of page.page) {
+      if (asset.sha256 || asset.phash) await flagAssetDuplicates(ctx, asset);
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.assets.scanDuplicatesBatch, { userId, cursor: page.continueCursor });
+    }
+  },
+});
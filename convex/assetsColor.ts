@@ -0,0 +1,94 @@
+import { query } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { getCurrentUserDoc } from "./utils/auth";
+import { hexToLab, labDistance, labFingerprintToPalette } from "../utils/colorUtils";
+
+// Palette search scores the newest assets of the library; older ones past this cap are not ranked.
+const MAX_SCANNED_ASSETS = 2000;
+const MAX_QUERY_COLORS = 6;
+// Default cut-off on the weighted delta E: beyond it a palette no longer reads as "the same colors".
+const DEFAULT_MAX_DISTANCE = 35;
+
+const clampLimit = (value: number | undefined, fallback: number) => {
+  const n = Math.floor(value ?? fallback);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(Math.max(n, 1), 200);
+};
+
+/** Lab palette of an asset: the stored fingerprint when present, otherwise its dominant colors. */
+const assetLabPalette = (asset: Doc<"assets">) => {
+  if (asset.colorFingerprint && asset.colorFingerprint.length >= 3 && asset.colorFingerprint.length % 3 === 0) {
+    return labFingerprintToPalette(asset.colorFingerprint);
+  }
+  return (asset.dominantColors ?? [])
+    .filter((color) => /^#?[0-9a-f]{6}$/i.test(color.trim()))
+    .map((color) => hexToLab(color.trim()));
+};
+
+/**
+ * Ranks the user's assets by how close their palette is to the picked colors.
+ * Each picked color is matched to the nearest color of the asset's palette in Lab space;
+ * the score is the weight-averaged distance (lower is closer).
+ */
+export const searchByPalette = query({
+  args: {
+    colors: v.array(
+      v.object({
+        hex: v.string(),
+        weight: v.optional(v.number()),
+      }),
+    ),
+    type: v.optional(v.string()),
+    limit: v.optional(v.number()),
+    maxDistance: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserDoc(ctx);
+    if (!user) return [];
+
+    const picked = args.colors
+      .filter((color) => /^#?[0-9a-f]{6}$/i.test(color.hex.trim()))
+      .slice(0, MAX_QUERY_COLORS)
+      .map((color) => ({
+        lab: hexToLab(color.hex.trim()),
+        weight: Math.max(0, color.weight ?? 1),
+      }));
+    const totalWeight = picked.reduce((sum, color) => sum + color.weight, 0);
+    if (picked.length === 0 || totalWeight <= 0) {
+      throw new ConvexError("PALETTE_REQUIRED");
+    }
+
+    const assets = args.type
+      ? await ctx.db
+          .query("assets")
+          .withIndex("byUserType", (q) => q.eq("userId", user._id).eq("type", args.type!))
+          .order("desc")
+          .take(MAX_SCANNED_ASSETS)
+      : await ctx.db
+          .query("assets")
+          .withIndex("byUser", (q) => q.eq("userId", user._id))
+          .order("desc")
+          .take(MAX_SCANNED_ASSETS);
+
+    const maxDistance = args.maxDistance ?? DEFAULT_MAX_DISTANCE;
+    const ranked: { asset: Doc<"assets">; distance: number }[] = [];
+    for (const asset of assets) {
+      const palette = assetLabPalette(asset);
+      if (palette.length === 0) continue;
+      let weighted = 0;
+      for (const color of picked) {
+        const nearest = Math.min(...palette.map((candidate) => labDistance(color.lab, candidate)));
+        weighted += nearest * color.weight;
+      }
+      const distance = weighted / totalWeight;
+      if (distance <= maxDistance) ranked.push({ asset, distance });
+    }
+
+    ranked.sort((a, b) => a.distance - b.distance);
+    return ranked.slice(0, clampLimit(args.limit, 80)).map(({ asset, distance }) => ({
+      assetId: asset._id,
+      distance: Math.round(distance * 10) / 10,
+    }));
+  },
+});
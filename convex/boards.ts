@@ -3,6 +3,7 @@ import { mutation, query } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
 import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
 import { effectiveAvatar } from "./utils/avatar";
+import { deleteScopeBudget } from "./aiBudgets";
 
 type BoardRole = "owner" | "editor" | "viewer";
 
@@ -288,6 +289,7 @@ export const remove = mutation({
       await ctx.db.delete(record._id);
     }
 
+    await deleteScopeBudget(ctx, "board", args.id);
     await ctx.db.delete(args.id);
     return args.id;
   },
@@ -2,6 +2,11 @@ import { ConvexError, v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
+import {
+  normalizeSmartCollectionRule,
+  querySmartCollectionAssets,
+  smartCollectionRuleValidator,
+} from "./utils/smartCollections";
 
 type CollectionRole = "owner" | "editor" | "viewer";
 
@@ -93,12 +98,23 @@ const sanitizeCollection = (collection: Doc<"assetCollections">, extra?: any) =>
   title: collection.title,
   projectId: collection.projectId ?? null,
   coverUrl: collection.coverUrl ?? null,
+  isSmart: Boolean(collection.rule),
+  rule: collection.rule ?? null,
   createdAt: collection.createdAt,
   updatedAt: collection.updatedAt,
   ...extra,
 });
 
-async function getCollectionStats(ctx: any, collectionId: Id<"assetCollections">) {
+async function getCollectionStats(ctx: any, collection: Doc<"assetCollections">) {
+  if (collection.rule) {
+    const matches = await querySmartCollectionAssets(ctx, collection.ownerId, collection.rule);
+    return {
+      itemCount: matches.length,
+      sampleUrls: matches.slice(0, 8).map((a) => a.fileUrl).filter(Boolean),
+    };
+  }
+
+  const collectionId = collection._id;
   const items = (await ctx.db
     .query("assetCollectionItems")
     .withIndex("byCollection", (q: any) => q.eq("collectionId", collectionId))
@@ -119,10 +135,12 @@ export const create = mutation({
   args: {
     title: v.string(),
     projectId: v.optional(v.id("projects")),
+    rule: v.optional(smartCollectionRuleValidator),
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUserOrThrow(ctx);
     const title = normalizeCollectionTitleDisplay(args.title);
+    const rule = args.rule ? normalizeSmartCollectionRule(args.rule) : undefined;
     if (!title) throw new ConvexError("TITLE_REQUIRED");
     if (title.length > 80) throw new ConvexError("TITLE_TOO_LONG");
 
@@ -146,6 +164,7 @@ export const create = mutation({
       ownerId: user._id,
       title,
       projectId: args.projectId,
+      rule,
       createdAt: now,
       updatedAt: now,
     });
@@ -212,7 +231,7 @@ export const list = query({
           if (roleRank[role] > roleRank[best]) best = role;
         }
 
-        const stats = await getCollectionStats(ctx, id);
+        const stats = await getCollectionStats(ctx, collection);
         return sanitizeCollection(collection, {
           isShared: true,
           sharedRole: best,
@@ -223,7 +242,7 @@ export const list = query({
 
     const ownedWithStats = await Promise.all(
       owned.map(async (c) => {
-        const stats = await getCollectionStats(ctx, c._id);
+        const stats = await getCollectionStats(ctx, c);
         return sanitizeCollection(c, { isShared: false, sharedRole: null, ...stats });
       }),
     );
@@ -283,6 +302,24 @@ export const setProject = mutation({
   },
 });
 
+/** Replaces the rule of a smart collection. Manual collections cannot be turned into smart ones. */
+export const updateRule = mutation({
+  args: {
+    id: v.id("assetCollections"),
+    rule: smartCollectionRuleValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUserOrThrow(ctx);
+    const col = await ctx.db.get(args.id);
+    if (!col) throw new ConvexError("COLLECTION_NOT_FOUND");
+    if (col.ownerId !== user._id) throw new ConvexError("FORBIDDEN");
+    if (!col.rule) throw new ConvexError("NOT_A_SMART_COLLECTION");
+
+    await ctx.db.patch(args.id, { rule: normalizeSmartCollectionRule(args.rule), updatedAt: Date.now() });
+    return args.id;
+  },
+});
+
 export const setCover = mutation({
   args: {
     id: v.id("assetCollections"),
@@ -359,6 +396,7 @@ export const addAssets = mutation({
     });
     if (!access.collection) throw new ConvexError("COLLECTION_NOT_FOUND");
     if (!access.canWrite) throw new ConvexError("FORBIDDEN");
+    if (access.collection.rule) throw new ConvexError("SMART_COLLECTION_READ_ONLY");
 
     const unique = Array.from(new Set(args.assetIds));
     if (unique.length === 0) return { added: 0 };
@@ -399,6 +437,7 @@ export const removeAssets = mutation({
     });
     if (!access.collection) throw new ConvexError("COLLECTION_NOT_FOUND");
     if (!access.canWrite) throw new ConvexError("FORBIDDEN");
+    if (access.collection.rule) throw new ConvexError("SMART_COLLECTION_READ_ONLY");
 
     const unique = Array.from(new Set(args.assetIds));
     if (unique.length === 0) return { removed: 0 };
@@ -432,6 +471,11 @@ export const listAssets = query({
       return [];
     }
 
+    // Smart collections resolve against the owner's library, so viewers see what the owner's rule matches.
+    if (access.collection.rule) {
+      return await querySmartCollectionAssets(ctx, access.collection.ownerId, access.collection.rule);
+    }
+
     const items = (await ctx.db
       .query("assetCollectionItems")
       .withIndex("byCollection", (q: any) => q.eq("collectionId", args.collectionId))
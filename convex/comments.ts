@@ -1,15 +1,86 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
 import { ConvexError, v } from "convex/values";
 import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
 import type { Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
 import { effectiveAvatar } from "./utils/avatar";
+import {
+  createNoteAuthorResolver,
+  getGuestSession,
+  guestCanCommentOnVideo,
+  guestCanViewVideo,
+} from "./utils/shareGuests";
+import { COMMENT_REACTIONS, isValidDueDate } from "../utils/commentTasks";
+import { MAX_COMMENT_ATTACHMENTS, commentAttachmentError } from "../utils/commentAttachments";
+import { deleteComment } from "./utils/commentAttachments";
+import { resolveVideoSource } from "./utils/videoSources";
 
 const pointValidator = v.object({
   x: v.number(),
   y: v.number(),
 });
 
+const statusValidator = v.union(v.literal("open"), v.literal("acknowledged"), v.literal("resolved"));
+
+const attachmentValidator = v.object({
+  storageKey: v.string(),
+  url: v.string(),
+  name: v.string(),
+  mimeType: v.string(),
+  size: v.number(),
+  width: v.optional(v.number()),
+  height: v.optional(v.number()),
+});
+
+type CommentAttachmentInput = {
+  storageKey: string;
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+};
+
+// Attachments must be objects this user uploaded for this video (see storage.buildAnnotationKey):
+// removing the comment deletes them, so a foreign key here would delete someone else's file.
+function validateAttachments(attachments: CommentAttachmentInput[], userId: Id<'users'>, videoId: Id<'videos'>) {
+  if (attachments.length > MAX_COMMENT_ATTACHMENTS) {
+    throw new ConvexError("TOO_MANY_ATTACHMENTS");
+  }
+  const prefix = `video_review/users/${userId}/annotations/${videoId.replace(/[^a-zA-Z0-9_-]/g, "")}/`;
+  for (const attachment of attachments) {
+    if (!attachment.storageKey.startsWith(prefix) || attachment.storageKey.includes("..")) {
+      throw new ConvexError("INVALID_ATTACHMENT");
+    }
+    if (commentAttachmentError(attachment.mimeType, attachment.size)) {
+      throw new ConvexError("ATTACHMENT_NOT_ALLOWED");
+    }
+  }
+}
+
+// A range note needs a start frame and ends after it; a zero-length range is stored as a plain note.
+function normalizeFrameEnd(frame: number | undefined, frameEnd: number | undefined, parentId: Id<'comments'> | undefined) {
+  if (frameEnd === undefined) return undefined;
+  if (parentId || frame === undefined || !Number.isFinite(frameEnd)) {
+    throw new ConvexError("INVALID_RANGE");
+  }
+  const end = Math.floor(frameEnd);
+  if (end < Math.floor(frame)) throw new ConvexError("INVALID_RANGE");
+  return end > Math.floor(frame) ? end : undefined;
+}
+
+// One entry per emoji with who reacted, in the order the emoji were first used.
+function groupReactions(reactions: Array<{ emoji: string; userId: Id<'users'> }> | undefined) {
+  const groups = new Map<string, string[]>();
+  (reactions ?? []).forEach((reaction) => {
+    const userIds = groups.get(reaction.emoji) ?? [];
+    userIds.push(reaction.userId);
+    groups.set(reaction.emoji, userIds);
+  });
+  return Array.from(groups.entries()).map(([emoji, userIds]) => ({ emoji, userIds }));
+}
+
 async function canViewVideo(ctx: any, userId: Id<'users'>, videoId: Id<'videos'>) {
   const video = await ctx.db.get(videoId);
   if (!video) return false;
@@ -153,7 +224,7 @@ async function collectMentionCandidates(ctx: any, userId: Id<'users'>, videoId:
   }
 
   const comments = await ctx.db.query('comments').withIndex('byVideo', (q: any) => q.eq('videoId', videoId)).collect();
-  const authorIds = new Set<Id<'users'>>(comments.map((comment: any) => comment.authorId));
+  const authorIds = new Set<Id<'users'>>(comments.map((comment: any) => comment.authorId).filter(Boolean));
   for (const authorId of authorIds) {
     const author = await ctx.db.get(authorId);
     enqueue(author?.email, author?.name);
@@ -179,46 +250,61 @@ async function collectMentionCandidates(ctx: any, userId: Id<'users'>, videoId:
 export const listByVideo = query({
   args: {
     videoId: v.id("videos"),
+    guestToken: v.optional(v.string()),
   },
-  async handler(ctx, { videoId }) {
+  async handler(ctx, { videoId, guestToken }) {
     const user = await getCurrentUserDoc(ctx);
-    if (!user || !(await canViewVideo(ctx, user._id, videoId))) return [];
+    if (user) {
+      if (!(await canViewVideo(ctx, user._id, videoId))) return [];
+    } else {
+      const session = await getGuestSession(ctx, guestToken);
+      if (!session || !(await guestCanViewVideo(ctx, session, videoId))) return [];
+    }
 
     const comments = await ctx.db
       .query("comments")
       .withIndex("byVideo", (q) => q.eq("videoId", videoId))
       .collect();
 
-    const authorCache = new Map<string, { name: string | null; email: string; avatar: string | null }>();
+    const authorOf = createNoteAuthorResolver(ctx);
+    const assigneeNames = new Map<Id<'users'>, Promise<string | null>>();
+    const assigneeNameOf = (assigneeId: Id<'users'>) => {
+      if (!assigneeNames.has(assigneeId)) {
+        assigneeNames.set(
+          assigneeId,
+          ctx.db.get(assigneeId).then((assignee) => assignee?.name ?? assignee?.email ?? null),
+        );
+      }
+      return assigneeNames.get(assigneeId)!;
+    };
 
     return Promise.all(
       comments
         .sort((a, b) => a.createdAt - b.createdAt)
         .map(async (comment) => {
-          let author = authorCache.get(comment.authorId);
-          if (!author) {
-            const userDoc = await ctx.db.get(comment.authorId);
-            author = {
-              name: userDoc?.name ?? null,
-              email: userDoc?.email ?? "",
-              avatar: effectiveAvatar(userDoc),
-            };
-            authorCache.set(comment.authorId, author);
-          }
+          const author = await authorOf(comment);
 
           return {
             id: comment._id,
             videoId: comment.videoId,
-            authorId: comment.authorId,
+            authorId: author.authorId,
             text: comment.text,
             parentId: comment.parentId ?? null,
             resolved: comment.resolved,
+            status: comment.status ?? (comment.resolved ? "resolved" : "open"),
+            assigneeId: comment.assigneeId ?? null,
+            assigneeName: comment.assigneeId ? await assigneeNameOf(comment.assigneeId) : null,
+            dueDate: comment.dueDate ?? null,
+            reactions: groupReactions(comment.reactions),
+            attachments: (comment.attachments ?? []).map(({ storageKey: _storageKey, ...attachment }) => attachment),
             frame: comment.frame ?? null,
+            frameEnd: comment.frameEnd ?? null,
             createdAt: comment.createdAt,
             updatedAt: comment.updatedAt,
             position: comment.position ?? null,
-            authorName: author.name ?? author.email ?? "Anonymous",
+            authorName: author.name,
             authorAvatar: author.avatar,
+            isGuest: author.isGuest,
           };
         })
     );
@@ -230,14 +316,28 @@ export const create = mutation({
     videoId: v.id("videos"),
     text: v.string(),
     frame: v.optional(v.number()),
+    frameEnd: v.optional(v.number()),
     parentId: v.optional(v.id("comments")),
     position: v.optional(pointValidator),
+    sourceStorageKey: v.optional(v.string()),
+    guestToken: v.optional(v.string()),
+    attachments: v.optional(v.array(attachmentValidator)),
   },
-  async handler(ctx, { videoId, text, frame, parentId, position }) {
+  async handler(ctx, { videoId, text, frame, frameEnd: requestedFrameEnd, parentId, position, sourceStorageKey, guestToken, attachments }) {
+    const frameEnd = normalizeFrameEnd(frame, requestedFrameEnd, parentId);
+    const signedIn = await getCurrentUserDoc(ctx);
+    if (!signedIn && guestToken) {
+      // Uploads need an account, so a guest comment can't carry attachments.
+      if (attachments?.length) throw new ConvexError("FORBIDDEN");
+      return createGuestComment(ctx, { videoId, text, frame, frameEnd, parentId, position, sourceStorageKey, guestToken });
+    }
     const user = await getCurrentUserOrThrow(ctx);
     if (!(await canCommentOnVideo(ctx, user._id, videoId))) {
       throw new ConvexError("FORBIDDEN");
     }
+    if (attachments?.length) {
+      validateAttachments(attachments, user._id, videoId);
+    }
 
     if (parentId) {
       const parent = await ctx.db.get(parentId);
@@ -246,18 +346,30 @@ export const create = mutation({
       }
     }
 
+    const { storageKey: source } = await resolveVideoSource(ctx, videoId, sourceStorageKey);
+
     const now = Date.now();
     const commentId = await ctx.db.insert("comments", {
       videoId,
       authorId: user._id,
+      sourceStorageKey: source,
       text,
       parentId,
       frame,
+      frameEnd,
       position,
+      attachments: attachments?.length ? attachments : undefined,
       resolved: false,
       createdAt: now,
       updatedAt: now,
     });
+    if (attachments?.length) {
+      // Type and size above are what the client reported; check the stored objects themselves.
+      await ctx.scheduler.runAfter(0, internal.storage.verifyCommentAttachments, {
+        commentId,
+        storageKeys: attachments.map((attachment) => attachment.storageKey),
+      });
+    }
 
     const author = await ctx.db.get(user._id);
 
@@ -310,17 +422,83 @@ export const create = mutation({
       text,
       parentId: parentId ?? null,
       frame: frame ?? null,
+      frameEnd: frameEnd ?? null,
       position: position ?? null,
+      attachments: (attachments ?? []).map(({ storageKey: _storageKey, ...attachment }) => attachment),
       resolved: false,
       createdAt: now,
       updatedAt: now,
       authorId: user._id,
       authorName: author?.name ?? author?.email ?? "Anonymous",
       authorAvatar: effectiveAvatar(author),
+      isGuest: false,
     };
   },
 });
 
+// Guests skip mention parsing: they have no contacts, and notifications need a sender account.
+async function createGuestComment(
+  ctx: any,
+  args: {
+    videoId: Id<'videos'>;
+    text: string;
+    frame?: number;
+    frameEnd?: number;
+    parentId?: Id<'comments'>;
+    position?: { x: number; y: number };
+    sourceStorageKey?: string;
+    guestToken: string;
+  },
+) {
+  const session = await getGuestSession(ctx, args.guestToken);
+  if (!session) {
+    throw new ConvexError("GUEST_SESSION_EXPIRED");
+  }
+  if (!(await guestCanCommentOnVideo(ctx, session, args.videoId))) {
+    throw new ConvexError("FORBIDDEN");
+  }
+  if (args.parentId) {
+    const parent = await ctx.db.get(args.parentId);
+    if (!parent || parent.videoId !== args.videoId) {
+      throw new ConvexError("INVALID_PARENT");
+    }
+  }
+
+  const { storageKey: source } = await resolveVideoSource(ctx, args.videoId, args.sourceStorageKey);
+  const now = Date.now();
+  const commentId = await ctx.db.insert("comments", {
+    videoId: args.videoId,
+    guestId: session.guest._id,
+    sourceStorageKey: source,
+    text: args.text,
+    parentId: args.parentId,
+    frame: args.frame,
+    frameEnd: args.frameEnd,
+    position: args.position,
+    resolved: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await ctx.db.patch(session.guest._id, { lastSeenAt: now });
+
+  return {
+    id: commentId,
+    videoId: args.videoId,
+    text: args.text,
+    parentId: args.parentId ?? null,
+    frame: args.frame ?? null,
+    frameEnd: args.frameEnd ?? null,
+    position: args.position ?? null,
+    resolved: false,
+    createdAt: now,
+    updatedAt: now,
+    authorId: session.guest._id as string,
+    authorName: session.guest.name,
+    authorAvatar: null,
+    isGuest: true,
+  };
+}
+
 export const updateText = mutation({
   args: {
     commentId: v.id("comments"),
@@ -356,13 +534,133 @@ export const toggleResolved = mutation({
       throw new ConvexError("FORBIDDEN");
     }
 
+    const now = Date.now();
     await ctx.db.patch(commentId, {
       resolved: !comment.resolved,
-      updatedAt: Date.now(),
+      status: comment.resolved ? "open" : "resolved",
+      resolvedAt: comment.resolved ? undefined : now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const setStatus = mutation({
+  args: {
+    commentId: v.id("comments"),
+    status: statusValidator,
+  },
+  async handler(ctx, { commentId, status }) {
+    const user = await getCurrentUserOrThrow(ctx);
+    const comment = await ctx.db.get(commentId);
+    if (!comment) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    if (!(await canCommentOnVideo(ctx, user._id, comment.videoId))) {
+      throw new ConvexError("FORBIDDEN");
+    }
+
+    const now = Date.now();
+    const resolved = status === "resolved";
+    await ctx.db.patch(commentId, {
+      status,
+      resolved,
+      resolvedAt: resolved ? comment.resolvedAt ?? now : undefined,
+      updatedAt: now,
     });
   },
 });
 
+export const toggleReaction = mutation({
+  args: {
+    commentId: v.id("comments"),
+    emoji: v.string(),
+  },
+  async handler(ctx, { commentId, emoji }) {
+    const user = await getCurrentUserOrThrow(ctx);
+    if (!(COMMENT_REACTIONS as readonly string[]).includes(emoji)) {
+      throw new ConvexError("INVALID_REACTION");
+    }
+    const comment = await ctx.db.get(commentId);
+    if (!comment) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    if (!(await canCommentOnVideo(ctx, user._id, comment.videoId))) {
+      throw new ConvexError("FORBIDDEN");
+    }
+
+    // Reactions don't bump updatedAt: they shouldn't mark the thread unread for everyone.
+    const reactions = comment.reactions ?? [];
+    const mine = reactions.some((reaction) => reaction.emoji === emoji && reaction.userId === user._id);
+    await ctx.db.patch(commentId, {
+      reactions: mine
+        ? reactions.filter((reaction) => !(reaction.emoji === emoji && reaction.userId === user._id))
+        : [...reactions, { emoji, userId: user._id, createdAt: Date.now() }],
+    });
+  },
+});
+
+// Pass null to clear the assignee or the due date; omitted fields are left unchanged.
+export const updateTask = mutation({
+  args: {
+    commentId: v.id("comments"),
+    assigneeId: v.optional(v.union(v.id("users"), v.null())),
+    dueDate: v.optional(v.union(v.string(), v.null())),
+  },
+  async handler(ctx, { commentId, assigneeId, dueDate }) {
+    const user = await getCurrentUserOrThrow(ctx);
+    const comment = await ctx.db.get(commentId);
+    if (!comment) {
+      throw new ConvexError("NOT_FOUND");
+    }
+
+    if (!(await canCommentOnVideo(ctx, user._id, comment.videoId))) {
+      throw new ConvexError("FORBIDDEN");
+    }
+
+    const patch: { assigneeId?: Id<'users'>; dueDate?: string; updatedAt: number } = { updatedAt: Date.now() };
+    if (dueDate !== undefined) {
+      if (dueDate !== null && !isValidDueDate(dueDate)) {
+        throw new ConvexError("INVALID_DUE_DATE");
+      }
+      patch.dueDate = dueDate ?? undefined;
+    }
+
+    let video: any = null;
+    if (assigneeId !== undefined) {
+      if (assigneeId !== null) {
+        // Same people the comment box offers for @mentions, limited to those with an account.
+        const mentionables = await collectMentionCandidates(ctx, user._id, comment.videoId);
+        video = mentionables.video;
+        if (!mentionables.candidates.some((candidate) => candidate.userId === assigneeId)) {
+          throw new ConvexError("INVALID_ASSIGNEE");
+        }
+      }
+      patch.assigneeId = assigneeId ?? undefined;
+    }
+
+    await ctx.db.patch(commentId, patch);
+
+    if (assigneeId && assigneeId !== comment.assigneeId && assigneeId !== user._id) {
+      await ctx.db.insert('notifications', {
+        userId: assigneeId,
+        type: 'assignment',
+        message: video?.title ? `You were assigned a note in ${video.title}` : 'You were assigned a review note',
+        videoId: comment.videoId,
+        projectId: video?.projectId ?? undefined,
+        commentId,
+        frame: comment.frame ?? undefined,
+        fromUserId: user._id,
+        contextTitle: video?.title ?? undefined,
+        previewUrl: video?.thumbnailUrl ?? undefined,
+        createdAt: Date.now(),
+        readAt: undefined,
+      });
+    }
+  },
+});
+
 export const updatePosition = mutation({
   args: {
     commentId: v.id("comments"),
@@ -400,6 +698,11 @@ export const updateFrame = mutation({
     }
 
     const nextFrame = Math.max(0, Math.floor(frame));
+    // Moving a range note keeps its length.
+    const nextFrameEnd =
+      comment.frameEnd !== undefined && comment.frame !== undefined
+        ? nextFrame + (comment.frameEnd - comment.frame)
+        : undefined;
     const updatedAt = Date.now();
     const toUpdate = new Set([commentId]);
     const queue = [commentId];
@@ -420,7 +723,7 @@ export const updateFrame = mutation({
 
     await Promise.all(
       Array.from(toUpdate).map((id) =>
-        ctx.db.patch(id, { frame: nextFrame, updatedAt }),
+        ctx.db.patch(id, id === commentId ? { frame: nextFrame, frameEnd: nextFrameEnd, updatedAt } : { frame: nextFrame, updatedAt }),
       ),
     );
   },
@@ -458,7 +761,45 @@ export const remove = mutation({
       }
     }
 
-    await Promise.all(Array.from(toDelete).map((id) => ctx.db.delete(id)));
+    for (const id of toDelete) {
+      const removed = await ctx.db.get(id);
+      if (removed) await deleteComment(ctx, removed);
+    }
+  },
+});
+
+// Result of storage.verifyCommentAttachments: keeps attachments whose stored object is within
+// the limits, with the stored type and size, and deletes the others.
+export const applyAttachmentCheck = internalMutation({
+  args: {
+    commentId: v.id("comments"),
+    objects: v.array(
+      v.object({
+        storageKey: v.string(),
+        mimeType: v.union(v.string(), v.null()),
+        size: v.union(v.number(), v.null()),
+      }),
+    ),
+  },
+  async handler(ctx, { commentId, objects }) {
+    const comment = await ctx.db.get(commentId);
+    if (!comment?.attachments?.length) return;
+
+    const byKey = new Map(objects.map((object) => [object.storageKey, object]));
+    const kept: NonNullable<typeof comment.attachments> = [];
+    for (const attachment of comment.attachments) {
+      const stored = byKey.get(attachment.storageKey);
+      if (!stored) {
+        kept.push(attachment);
+        continue;
+      }
+      if (stored.mimeType === null || stored.size === null || commentAttachmentError(stored.mimeType, stored.size)) {
+        await ctx.scheduler.runAfter(0, internal.storage.deleteObject, { storageKey: attachment.storageKey });
+        continue;
+      }
+      kept.push({ ...attachment, mimeType: stored.mimeType, size: stored.size });
+    }
+    await ctx.db.patch(commentId, { attachments: kept.length ? kept : undefined });
   },
 });
 
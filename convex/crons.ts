@@ -0,0 +1,28 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Digest emails; each job covers the period that just ended and honours the userSettings toggles.
+crons.weekly(
+  "weekly digest emails",
+  { dayOfWeek: "monday", hourUTC: 8, minuteUTC: 0 },
+  internal.digests.enqueueDigests,
+  { kind: "weekly" },
+);
+
+crons.daily(
+  "review update emails",
+  { hourUTC: 7, minuteUTC: 0 },
+  internal.digests.enqueueDigests,
+  { kind: "review_updates" },
+);
+
+crons.daily(
+  "purge expired share guests",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.shareGuests.purgeExpired,
+  {},
+);
+
+export default crons;
@@ -0,0 +1,109 @@
+"use node";
+
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { emailTemplates, type DigestEmailContent, type DigestEmailSection } from "../lib/email-templates";
+import { getEmailTransport } from "./utils/emailTransport";
+
+const PUBLIC_SITE_URL = () => (process.env.PUBLIC_SITE_URL ?? "https://reffo.studio").replace(/\/$/, "");
+
+const snippet = (text: string, max = 140) => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+};
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+/** Renders and delivers one pending digest; empty digests are recorded as skipped instead of sent. */
+export const send = internalAction({
+  args: {
+    digestId: v.id("emailDigests"),
+  },
+  async handler(ctx, { digestId }) {
+    const digest = await ctx.runQuery(internal.digests.buildDigest, { digestId });
+    if (!digest) return;
+    if (digest.itemCount === 0) {
+      await ctx.runMutation(internal.digests.markDigest, { digestId, status: "skipped", itemCount: 0 });
+      return;
+    }
+
+    const base = PUBLIC_SITE_URL();
+    const reviewUrl = (videoId: string, commentId?: string | null) =>
+      commentId ? `${base}/review/${videoId}?comment=${commentId}` : `${base}/review/${videoId}`;
+
+    const sections: DigestEmailSection[] = [
+      {
+        title: "Notifications",
+        items: digest.notifications.items.map((notification) => ({
+          title: notification.message,
+          detail: notification.contextTitle ?? undefined,
+          url: notification.videoId ? reviewUrl(notification.videoId, notification.commentId) : undefined,
+        })),
+        moreCount: digest.notifications.moreCount,
+      },
+      {
+        title: "New comments",
+        items: digest.comments.items.map((comment) => ({
+          title: `${comment.author} on ${comment.videoTitle}`,
+          detail: snippet(comment.text),
+          url: reviewUrl(comment.videoId, comment.commentId),
+        })),
+        moreCount: digest.comments.moreCount,
+      },
+      {
+        title: "Resolved threads",
+        items: digest.resolved.items.map((thread) => ({
+          title: thread.videoTitle,
+          detail: snippet(thread.text),
+          url: reviewUrl(thread.videoId, thread.commentId),
+        })),
+        moreCount: digest.resolved.moreCount,
+      },
+      {
+        title: "New revisions",
+        items: digest.revisions.items.map((revision) => ({
+          title: revision.videoTitle,
+          detail: revision.label ?? `Uploaded ${formatDay(revision.createdAt)}`,
+          url: reviewUrl(revision.videoId),
+        })),
+        moreCount: digest.revisions.moreCount,
+      },
+    ].filter((section) => section.items.length > 0);
+
+    const content: DigestEmailContent = {
+      heading: digest.kind === "weekly" ? "Your weekly digest" : "Review updates",
+      periodLabel:
+        digest.kind === "weekly"
+          ? `${formatDay(digest.periodStart)} - ${formatDay(digest.periodEnd - 1)}`
+          : formatDay(digest.periodStart),
+      sections,
+      ctaUrl: `${base}/workspaces`,
+    };
+    const template = emailTemplates.digest(digest.userName, content);
+
+    let transportName: string | undefined;
+    try {
+      const transport = getEmailTransport();
+      transportName = transport.name;
+      await transport.send({ to: digest.email, subject: template.subject, html: template.html, text: template.text });
+    } catch (error: any) {
+      console.error("Digest email failed", digestId, error);
+      await ctx.runMutation(internal.digests.markDigest, {
+        digestId,
+        status: "failed",
+        itemCount: digest.itemCount,
+        transport: transportName,
+        error: String(error?.message ?? error).slice(0, 500),
+      });
+      return;
+    }
+    await ctx.runMutation(internal.digests.markDigest, {
+      digestId,
+      status: "sent",
+      itemCount: digest.itemCount,
+      transport: transportName,
+    });
+  },
+});
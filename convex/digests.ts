@@ -0,0 +1,259 @@
+import { internalMutation, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ENQUEUE_BATCH_SIZE = 100;
+const MAX_DIGEST_VIDEOS = 200;
+const MAX_SECTION_ITEMS = 10;
+
+const digestKind = v.union(v.literal("weekly"), v.literal("review_updates"));
+type DigestKind = "weekly" | "review_updates";
+
+/**
+ * The period a digest run covers, ending at the most recent boundary before `now`:
+ * the previous Monday-to-Monday week (UTC) for weekly digests, the previous UTC day for review updates.
+ */
+export function digestPeriod(kind: DigestKind, now: number) {
+  const startOfDay = Math.floor(now / DAY_MS) * DAY_MS;
+  if (kind === "review_updates") {
+    return { start: startOfDay - DAY_MS, end: startOfDay };
+  }
+  // 1970-01-01 was a Thursday; shift so weeks start on Monday.
+  const daysSinceMonday = (Math.floor(startOfDay / DAY_MS) + 3) % 7;
+  const end = startOfDay - daysSinceMonday * DAY_MS;
+  return { start: end - 7 * DAY_MS, end };
+}
+
+const isEnabled = (kind: DigestKind, settings: Doc<"userSettings"> | null) =>
+  // Same defaults ProfileSettings shows before the settings row exists.
+  kind === "weekly" ? settings?.notifications.weeklyDigest ?? true : settings?.notifications.reviewUpdates ?? true;
+
+/**
+ * Cron entry point: creates one pending digest per opted-in user for the period and schedules its delivery.
+ * Walks users in batches, rescheduling itself with the pagination cursor; users that already have a
+ * digest for the period are skipped, so a re-run never sends twice.
+ */
+export const enqueueDigests = internalMutation({
+  args: {
+    kind: digestKind,
+    cursor: v.optional(v.union(v.string(), v.null())),
+    periodStart: v.optional(v.number()),
+    periodEnd: v.optional(v.number()),
+  },
+  async handler(ctx, { kind, cursor, periodStart, periodEnd }) {
+    const period =
+      periodStart !== undefined && periodEnd !== undefined
+        ? { start: periodStart, end: periodEnd }
+        : digestPeriod(kind, Date.now());
+
+    const page = await ctx.db.query("users").paginate({ cursor: cursor ?? null, numItems: ENQUEUE_BATCH_SIZE });
+    for (const user of page.page) {
+      if (!user.email) continue;
+      const settings = await ctx.db
+        .query("userSettings")
+        .withIndex("byUser", (q) => q.eq("userId", user._id))
+        .unique();
+      if (!isEnabled(kind, settings)) continue;
+      const existing = await ctx.db
+        .query("emailDigests")
+        .withIndex("byUserKindPeriod", (q) =>
+          q.eq("userId", user._id).eq("kind", kind).eq("periodStart", period.start),
+        )
+        .first();
+      if (existing) continue;
+      const digestId = await ctx.db.insert("emailDigests", {
+        userId: user._id,
+        kind,
+        periodStart: period.start,
+        periodEnd: period.end,
+        status: "pending",
+        createdAt: Date.now(),
+      });
+      await ctx.scheduler.runAfter(0, internal.digestEmails.send, { digestId });
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.digests.enqueueDigests, {
+        kind,
+        cursor: page.continueCursor,
+        periodStart: period.start,
+        periodEnd: period.end,
+      });
+    }
+  },
+});
+
+/** Videos the user owns plus those reachable through active group shares (directly or via their project). */
+async function collectDigestVideos(ctx: any, user: Doc<"users">) {
+  const videos = new Map<string, Doc<"videos">>();
+  const owned: Doc<"videos">[] = await ctx.db
+    .query("videos")
+    .withIndex("byOwner", (q: any) => q.eq("ownerId", user._id))
+    .order("desc")
+    .take(MAX_DIGEST_VIDEOS);
+  owned.forEach((video) => videos.set(video._id, video));
+
+  const memberships: Doc<"shareGroupMembers">[] = await ctx.db
+    .query("shareGroupMembers")
+    .withIndex("byEmail", (q: any) => q.eq("email", user.email))
+    .collect();
+  for (const membership of memberships) {
+    if (videos.size >= MAX_DIGEST_VIDEOS) break;
+    const shares: Doc<"contentShares">[] = await ctx.db
+      .query("contentShares")
+      .withIndex("byGroup", (q: any) => q.eq("groupId", membership.groupId))
+      .collect();
+    for (const share of shares) {
+      if (!share.isActive) continue;
+      if (share.videoId) {
+        const video = await ctx.db.get(share.videoId);
+        if (video) videos.set(video._id, video);
+      } else if (share.projectId) {
+        const projectVideos: Doc<"videos">[] = await ctx.db
+          .query("videos")
+          .withIndex("byProject", (q: any) => q.eq("projectId", share.projectId))
+          .take(MAX_DIGEST_VIDEOS);
+        projectVideos.forEach((video) => videos.set(video._id, video));
+      }
+    }
+  }
+  return Array.from(videos.values()).slice(0, MAX_DIGEST_VIDEOS);
+}
+
+const inPeriod = (timestamp: number | undefined, start: number, end: number) =>
+  typeof timestamp === "number" && timestamp >= start && timestamp < end;
+
+const capSection = <T>(items: T[]) => ({
+  items: items.slice(0, MAX_SECTION_ITEMS),
+  moreCount: Math.max(0, items.length - MAX_SECTION_ITEMS),
+});
+
+/**
+ * Everything a pending digest should mention, newest first. Returns null once the digest
+ * is no longer pending (already sent by an earlier attempt) or its user is gone.
+ */
+export const buildDigest = internalQuery({
+  args: {
+    digestId: v.id("emailDigests"),
+  },
+  async handler(ctx, { digestId }) {
+    const digest = await ctx.db.get(digestId);
+    if (!digest || digest.status !== "pending") return null;
+    const user = await ctx.db.get(digest.userId);
+    if (!user) return null;
+    const { periodStart: start, periodEnd: end } = digest;
+
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("byUserAndCreatedAt", (q) =>
+        q.eq("userId", user._id).gte("createdAt", start).lt("createdAt", end),
+      )
+      .order("desc")
+      .collect();
+
+    const names = new Map<string, string>();
+    const authorName = async (row: { authorId?: Id<"users">; guestId?: Id<"shareGuests"> }) => {
+      const key = (row.authorId ?? row.guestId ?? "") as string;
+      if (!names.has(key)) {
+        const doc: any = row.authorId ? await ctx.db.get(row.authorId) : row.guestId ? await ctx.db.get(row.guestId) : null;
+        names.set(key, doc?.name ?? doc?.email ?? "Someone");
+      }
+      return names.get(key)!;
+    };
+
+    const newComments: { videoId: Id<"videos">; videoTitle: string; commentId: Id<"comments">; author: string; text: string; createdAt: number }[] = [];
+    const resolvedThreads: { videoId: Id<"videos">; videoTitle: string; commentId: Id<"comments">; text: string; resolvedAt: number }[] = [];
+    const newRevisions: { videoId: Id<"videos">; videoTitle: string; label: string | null; createdAt: number }[] = [];
+
+    for (const video of await collectDigestVideos(ctx, user)) {
+      const comments = await ctx.db
+        .query("comments")
+        .withIndex("byVideo", (q) => q.eq("videoId", video._id))
+        .filter((q) => q.gte(q.field("updatedAt"), start))
+        .collect();
+      for (const comment of comments) {
+        if (inPeriod(comment.createdAt, start, end) && comment.authorId !== user._id) {
+          newComments.push({
+            videoId: video._id,
+            videoTitle: video.title,
+            commentId: comment._id,
+            author: await authorName(comment),
+            text: comment.text,
+            createdAt: comment.createdAt,
+          });
+        }
+        const resolvedAt = comment.resolvedAt ?? comment.updatedAt;
+        if (comment.resolved && !comment.parentId && inPeriod(resolvedAt, start, end)) {
+          resolvedThreads.push({
+            videoId: video._id,
+            videoTitle: video.title,
+            commentId: comment._id,
+            text: comment.text,
+            resolvedAt,
+          });
+        }
+      }
+
+      const revisions = await ctx.db
+        .query("videoRevisions")
+        .withIndex("byVideo", (q) => q.eq("videoId", video._id))
+        .filter((q) => q.and(q.gte(q.field("createdAt"), start), q.lt(q.field("createdAt"), end)))
+        .collect();
+      revisions.forEach((revision) =>
+        newRevisions.push({
+          videoId: video._id,
+          videoTitle: video.title,
+          label: revision.label ?? revision.fileName ?? null,
+          createdAt: revision.createdAt,
+        }),
+      );
+    }
+
+    newComments.sort((a, b) => b.createdAt - a.createdAt);
+    resolvedThreads.sort((a, b) => b.resolvedAt - a.resolvedAt);
+    newRevisions.sort((a, b) => b.createdAt - a.createdAt);
+
+    return {
+      kind: digest.kind,
+      periodStart: start,
+      periodEnd: end,
+      email: user.email,
+      userName: user.name ?? user.email,
+      itemCount: notifications.length + newComments.length + resolvedThreads.length + newRevisions.length,
+      notifications: capSection(
+        notifications.map((notification) => ({
+          message: notification.message,
+          videoId: notification.videoId ?? null,
+          commentId: notification.commentId ?? null,
+          contextTitle: notification.contextTitle ?? null,
+        })),
+      ),
+      comments: capSection(newComments),
+      resolved: capSection(resolvedThreads),
+      revisions: capSection(newRevisions),
+    };
+  },
+});
+
+export const markDigest = internalMutation({
+  args: {
+    digestId: v.id("emailDigests"),
+    status: v.union(v.literal("sent"), v.literal("skipped"), v.literal("failed")),
+    itemCount: v.optional(v.number()),
+    transport: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  async handler(ctx, { digestId, status, itemCount, transport, error }) {
+    const digest = await ctx.db.get(digestId);
+    if (!digest || digest.status !== "pending") return;
+    await ctx.db.patch(digestId, {
+      status,
+      itemCount,
+      transport,
+      error,
+      sentAt: status === "sent" ? Date.now() : undefined,
+    });
+  },
+});
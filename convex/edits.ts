@@ -4,6 +4,7 @@ import type { Id } from "./_generated/dataModel";
 import type { MutationCtx, QueryCtx } from "./_generated/server";
 import { getCurrentUserOrThrow } from "./utils/auth";
 import { api, internal } from "./_generated/api";
+import { RENDER_JOB_MAX_ATTEMPTS } from "./render";
 
 const compositionSettingsValidator = v.object({
   width: v.number(),
@@ -496,6 +497,8 @@ export const queueExport = mutation({
       payload: { format: fmt },
       status: "queued",
       progress: 0,
+      attempts: 0,
+      maxAttempts: RENDER_JOB_MAX_ATTEMPTS,
       createdAt: now,
       updatedAt: now,
       startedAt: undefined,
@@ -517,7 +520,8 @@ export const queueExport = mutation({
       updatedAt: now,
     });
 
-    await ctx.scheduler.runAfter(0, internal.render.processJob, { jobId });
+    // Rendering happens on an external worker (see convex/http/renderWorker.ts).
+    await ctx.scheduler.runAfter(0, internal.render.validateJob, { jobId });
 
     return { exportId, jobId };
   },
@@ -1,4 +1,6 @@
 import { ConvexError } from "convex/values";
+import type { AiSweep } from "../utils/aiSweep";
+import { normalizeAiSweep, restrictAiSweep } from "../utils/aiSweep";
 
 export type GoogleImageModelId =
   | "gemini-2.5-flash-image"
@@ -16,6 +18,7 @@ export type NanoBananaNodeConfig = {
   aspectRatio: string;
   imageSize: NanoBananaImageSize;
   enableSearchGrounding: boolean;
+  sweep?: AiSweep;
   legacy?: Record<string, unknown>;
 };
 
@@ -189,6 +192,7 @@ export const normalizeNanoBananaConfig = (
       imageSize,
       aspectRatio,
       enableSearchGrounding,
+      sweep: restrictAiSweep(normalizeAiSweep(input.sweep), capability),
       legacy: hasLegacyFields
         ? {
             resolution: input.resolution,
@@ -0,0 +1,117 @@
+export type GoogleTextModelId = "gemini-2.5-flash" | "gemini-2.5-flash-lite" | "gemini-2.5-pro";
+
+export type LlmRewriteNodeConfig = {
+  modelId: GoogleTextModelId;
+  instruction: string;
+  temperature: number;
+};
+
+export type GoogleTextModelCapability = {
+  id: GoogleTextModelId;
+  label: string;
+  inputPricePerMillionTokensUsd: number;
+  outputPricePerMillionTokensUsd: number;
+};
+
+export const PROMPT_TEMPLATE_NODE_TYPE = "prompt_template";
+export const LLM_REWRITE_NODE_TYPE = "llm_rewrite";
+
+export const DEFAULT_LLM_REWRITE_INSTRUCTION =
+  "Rewrite the prompt for an image generation model: keep its intent, add concrete visual detail, and answer with the prompt only.";
+
+const DEFAULT_MODEL_ID: GoogleTextModelId = "gemini-2.5-flash";
+const DEFAULT_TEMPERATURE = 0.7;
+const MAX_INSTRUCTION_LENGTH = 4000;
+// Rough sizing for estimates made before the provider reports token usage.
+const CHARS_PER_TOKEN = 4;
+const EXPECTED_OUTPUT_TOKENS = 400;
+
+const MODEL_CAPABILITIES: Record<GoogleTextModelId, GoogleTextModelCapability> = {
+  "gemini-2.5-flash": {
+    id: "gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+    inputPricePerMillionTokensUsd: 0.3,
+    outputPricePerMillionTokensUsd: 2.5,
+  },
+  "gemini-2.5-flash-lite": {
+    id: "gemini-2.5-flash-lite",
+    label: "Gemini 2.5 Flash-Lite",
+    inputPricePerMillionTokensUsd: 0.1,
+    outputPricePerMillionTokensUsd: 0.4,
+  },
+  "gemini-2.5-pro": {
+    id: "gemini-2.5-pro",
+    label: "Gemini 2.5 Pro",
+    inputPricePerMillionTokensUsd: 1.25,
+    outputPricePerMillionTokensUsd: 10,
+  },
+};
+
+const normalizeToLower = (value: unknown) =>
+  typeof value === "string" ? value.trim().toLowerCase() : "";
+
+export const listGoogleTextModels = (): GoogleTextModelCapability[] => Object.values(MODEL_CAPABILITIES);
+
+export const normalizeGoogleTextModelId = (value: unknown): GoogleTextModelId => {
+  const normalized = normalizeToLower(value);
+  if (normalized in MODEL_CAPABILITIES) {
+    return normalized as GoogleTextModelId;
+  }
+  return DEFAULT_MODEL_ID;
+};
+
+export const normalizeLlmRewriteConfig = (raw: unknown): { config: LlmRewriteNodeConfig } => {
+  const input = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const instruction =
+    typeof input.instruction === "string" && input.instruction.trim()
+      ? input.instruction.trim().slice(0, MAX_INSTRUCTION_LENGTH)
+      : DEFAULT_LLM_REWRITE_INSTRUCTION;
+  const temperature = Number(input.temperature);
+
+  return {
+    config: {
+      modelId: normalizeGoogleTextModelId(input.modelId),
+      instruction,
+      temperature: Number.isFinite(temperature)
+        ? Math.min(2, Math.max(0, Math.round(temperature * 100) / 100))
+        : DEFAULT_TEMPERATURE,
+    },
+  };
+};
+
+export const normalizePromptTemplateConfig = (raw: unknown): { config: { template: string } } => {
+  const input = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  return {
+    config: {
+      template: typeof input.template === "string" ? input.template : "",
+    },
+  };
+};
+
+export const computeLlmRewriteCostUsd = (input: {
+  modelId: GoogleTextModelId;
+  inputTokens: number;
+  outputTokens: number;
+}) => {
+  const capability = MODEL_CAPABILITIES[input.modelId] ?? MODEL_CAPABILITIES[DEFAULT_MODEL_ID];
+  const total =
+    (Math.max(input.inputTokens, 0) * capability.inputPricePerMillionTokensUsd +
+      Math.max(input.outputTokens, 0) * capability.outputPricePerMillionTokensUsd) /
+    1_000_000;
+  return Number(total.toFixed(6));
+};
+
+export const estimateLlmRewriteCostUsd = (input: {
+  modelId: GoogleTextModelId;
+  inputChars: number;
+}) =>
+  computeLlmRewriteCostUsd({
+    modelId: input.modelId,
+    inputTokens: Math.ceil(Math.max(input.inputChars, 0) / CHARS_PER_TOKEN),
+    outputTokens: EXPECTED_OUTPUT_TOKENS,
+  });
+
+export const resolveLlmRewriteModelForNode = (nodeType: string, config: unknown) => {
+  if (normalizeToLower(nodeType) !== LLM_REWRITE_NODE_TYPE) return null;
+  return normalizeLlmRewriteConfig(config).config.modelId;
+};
@@ -0,0 +1,177 @@
+import { ConvexError } from "convex/values";
+
+export type GoogleVideoModelId =
+  | "veo-3.1-generate-preview"
+  | "veo-3.1-fast-generate-preview"
+  | "veo-3.0-generate-001"
+  | "veo-3.0-fast-generate-001";
+
+export type Veo3Resolution = "720p" | "1080p";
+
+export type Veo3NodeConfig = {
+  modelId: GoogleVideoModelId;
+  durationSeconds: number;
+  resolution: Veo3Resolution;
+  aspectRatio: string;
+};
+
+export type GoogleVideoModelCapability = {
+  id: GoogleVideoModelId;
+  label: string;
+  durationsSeconds: number[];
+  resolutions: Veo3Resolution[];
+  aspectRatios: string[];
+  supportsEndFrame: boolean;
+  preview: boolean;
+  pricePerSecondUsd: number;
+};
+
+export const VEO3_NODE_TYPE = "veo3";
+
+const DEFAULT_MODEL_ID: GoogleVideoModelId = "veo-3.1-generate-preview";
+const DEFAULT_DURATION_SECONDS = 6;
+const DEFAULT_RESOLUTION: Veo3Resolution = "1080p";
+
+const MODEL_CAPABILITIES: Record<GoogleVideoModelId, GoogleVideoModelCapability> = {
+  "veo-3.1-generate-preview": {
+    id: "veo-3.1-generate-preview",
+    label: "Veo 3.1 (Preview)",
+    durationsSeconds: [4, 6, 8],
+    resolutions: ["720p", "1080p"],
+    aspectRatios: ["16:9", "9:16"],
+    supportsEndFrame: true,
+    preview: true,
+    pricePerSecondUsd: 0.4,
+  },
+  "veo-3.1-fast-generate-preview": {
+    id: "veo-3.1-fast-generate-preview",
+    label: "Veo 3.1 Fast (Preview)",
+    durationsSeconds: [4, 6, 8],
+    resolutions: ["720p", "1080p"],
+    aspectRatios: ["16:9", "9:16"],
+    supportsEndFrame: true,
+    preview: true,
+    pricePerSecondUsd: 0.15,
+  },
+  "veo-3.0-generate-001": {
+    id: "veo-3.0-generate-001",
+    label: "Veo 3",
+    durationsSeconds: [4, 6, 8],
+    resolutions: ["720p", "1080p"],
+    aspectRatios: ["16:9", "9:16"],
+    supportsEndFrame: false,
+    preview: false,
+    pricePerSecondUsd: 0.4,
+  },
+  "veo-3.0-fast-generate-001": {
+    id: "veo-3.0-fast-generate-001",
+    label: "Veo 3 Fast",
+    durationsSeconds: [4, 6, 8],
+    resolutions: ["720p", "1080p"],
+    aspectRatios: ["16:9", "9:16"],
+    supportsEndFrame: false,
+    preview: false,
+    pricePerSecondUsd: 0.15,
+  },
+};
+
+const normalizeToLower = (value: unknown) =>
+  typeof value === "string" ? value.trim().toLowerCase() : "";
+
+export const listGoogleVideoModels = (): GoogleVideoModelCapability[] =>
+  Object.values(MODEL_CAPABILITIES);
+
+export const getGoogleVideoModelCapability = (
+  modelId: GoogleVideoModelId
+): GoogleVideoModelCapability => MODEL_CAPABILITIES[modelId];
+
+export const normalizeGoogleVideoModelId = (value: unknown): GoogleVideoModelId => {
+  const normalized = normalizeToLower(value);
+  if (normalized in MODEL_CAPABILITIES) {
+    return normalized as GoogleVideoModelId;
+  }
+  return DEFAULT_MODEL_ID;
+};
+
+export const defaultVeo3Config = (): Veo3NodeConfig => ({
+  modelId: DEFAULT_MODEL_ID,
+  durationSeconds: DEFAULT_DURATION_SECONDS,
+  resolution: DEFAULT_RESOLUTION,
+  aspectRatio: "16:9",
+});
+
+// Older nodes stored free-form durations (3-12s); snap them to the closest supported length.
+const normalizeDuration = (value: unknown, capability: GoogleVideoModelCapability) => {
+  const numeric = typeof value === "number" ? value : Number(value);
+  const target = Number.isFinite(numeric) ? numeric : DEFAULT_DURATION_SECONDS;
+  return capability.durationsSeconds.reduce((best, candidate) =>
+    Math.abs(candidate - target) < Math.abs(best - target) ? candidate : best
+  );
+};
+
+const normalizeResolution = (value: unknown, capability: GoogleVideoModelCapability) => {
+  const candidate = normalizeToLower(value) as Veo3Resolution;
+  if (capability.resolutions.includes(candidate)) return candidate;
+  return capability.resolutions.includes(DEFAULT_RESOLUTION)
+    ? DEFAULT_RESOLUTION
+    : capability.resolutions[0];
+};
+
+const normalizeAspectRatio = (value: unknown, capability: GoogleVideoModelCapability) => {
+  const candidate = typeof value === "string" ? value.trim() : "";
+  if (capability.aspectRatios.includes(candidate)) return candidate;
+  return capability.aspectRatios[0];
+};
+
+export const normalizeVeo3Config = (raw: unknown): { config: Veo3NodeConfig } => {
+  const input = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const modelId = normalizeGoogleVideoModelId(input.modelId);
+  const capability = getGoogleVideoModelCapability(modelId);
+
+  return {
+    config: {
+      modelId,
+      durationSeconds: normalizeDuration(input.durationSeconds, capability),
+      resolution: normalizeResolution(input.resolution, capability),
+      aspectRatio: normalizeAspectRatio(input.aspectRatio, capability),
+    },
+  };
+};
+
+export const assertVeo3ConfigCompatible = (
+  config: Veo3NodeConfig,
+  frames: { hasStartFrame: boolean; hasEndFrame: boolean }
+) => {
+  const capability = getGoogleVideoModelCapability(config.modelId);
+
+  if (!capability.durationsSeconds.includes(config.durationSeconds)) {
+    throw new ConvexError("CONFIG_INVALID_DURATION");
+  }
+  if (!capability.resolutions.includes(config.resolution)) {
+    throw new ConvexError("CONFIG_INVALID_RESOLUTION");
+  }
+  if (!capability.aspectRatios.includes(config.aspectRatio)) {
+    throw new ConvexError("CONFIG_INVALID_ASPECT_RATIO");
+  }
+  if (frames.hasEndFrame && !capability.supportsEndFrame) {
+    throw new ConvexError("CONFIG_INVALID_END_FRAME_UNSUPPORTED");
+  }
+  // Veo interpolates between frames; an end frame alone is not a valid request.
+  if (frames.hasEndFrame && !frames.hasStartFrame) {
+    throw new ConvexError("CONFIG_INVALID_END_FRAME_REQUIRES_START_FRAME");
+  }
+};
+
+export const estimateVeo3CostUsd = (input: {
+  modelId: GoogleVideoModelId;
+  durationSeconds: number;
+}) => {
+  const pricePerSecond = MODEL_CAPABILITIES[input.modelId]?.pricePerSecondUsd ?? 0.4;
+  const seconds = Math.max(input.durationSeconds, 0);
+  return Number((pricePerSecond * seconds).toFixed(6));
+};
+
+export const resolveVeo3ModelForNode = (nodeType: string, config: unknown) => {
+  if (normalizeToLower(nodeType) !== VEO3_NODE_TYPE) return null;
+  return normalizeVeo3Config(config).config.modelId;
+};
@@ -19,6 +19,13 @@ import {
   complete as completeAiNodeRun,
   fail as failAiNodeRun,
 } from "./http/aiWorker";
+import {
+  claim as claimRenderJob,
+  heartbeat as heartbeatRenderJob,
+  complete as completeRenderJob,
+  fail as failRenderJob,
+} from "./http/renderWorker";
+import { openShareLink } from "./http/shareAccess";
 
 const http = httpRouter();
 
@@ -190,4 +197,64 @@ http.route({
   handler: failAiNodeRun,
 });
 
+http.route({
+  path: "/api/render-worker/claim",
+  method: "POST",
+  handler: claimRenderJob,
+});
+
+http.route({
+  path: "/api/render-worker/claim",
+  method: "OPTIONS",
+  handler: claimRenderJob,
+});
+
+http.route({
+  path: "/api/render-worker/heartbeat",
+  method: "POST",
+  handler: heartbeatRenderJob,
+});
+
+http.route({
+  path: "/api/render-worker/heartbeat",
+  method: "OPTIONS",
+  handler: heartbeatRenderJob,
+});
+
+http.route({
+  path: "/api/render-worker/complete",
+  method: "POST",
+  handler: completeRenderJob,
+});
+
+http.route({
+  path: "/api/render-worker/complete",
+  method: "OPTIONS",
+  handler: completeRenderJob,
+});
+
+http.route({
+  path: "/api/render-worker/fail",
+  method: "POST",
+  handler: failRenderJob,
+});
+
+http.route({
+  path: "/api/render-worker/fail",
+  method: "OPTIONS",
+  handler: failRenderJob,
+});
+
+http.route({
+  path: "/api/share/open",
+  method: "POST",
+  handler: openShareLink,
+});
+
+http.route({
+  path: "/api/share/open",
+  method: "OPTIONS",
+  handler: openShareLink,
+});
+
 export default http;
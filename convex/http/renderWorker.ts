@@ -0,0 +1,213 @@
+import { httpAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+
+const buildCorsHeaders = (origin: string | null) => ({
+  "Access-Control-Allow-Origin": origin ?? "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+});
+
+const jsonResponse = (status: number, body: unknown, origin: string | null) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...buildCorsHeaders(origin),
+      "Content-Type": "application/json",
+    },
+  });
+
+const requireWorkerSecret = (request: Request) => {
+  const configured = process.env.RENDER_WORKER_SECRET;
+  if (!configured) {
+    throw new Error("Missing Convex env RENDER_WORKER_SECRET");
+  }
+  const header = request.headers.get("Authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  if (!token || token !== configured) {
+    throw new Error("Unauthorized");
+  }
+};
+
+export const claim = httpAction(async (ctx, request) => {
+  const origin = request.headers.get("Origin");
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: buildCorsHeaders(origin) });
+  }
+
+  try {
+    requireWorkerSecret(request);
+  } catch {
+    return jsonResponse(401, { error: "UNAUTHORIZED" }, origin);
+  }
+
+  let payload: any = null;
+  try {
+    payload = await request.json();
+  } catch {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Invalid JSON body" }, origin);
+  }
+
+  const workerId = typeof payload?.workerId === "string" ? payload.workerId : null;
+  if (!workerId) {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Missing workerId" }, origin);
+  }
+
+  const claimed = await ctx.runMutation(internal.render.claimNextJob, { workerId });
+  if (!claimed) {
+    return jsonResponse(200, { claimed: null }, origin);
+  }
+
+  try {
+    const signed = await ctx.runAction(internal.storage.signRenderJobUrls, {
+      ownerId: claimed.ownerId,
+      compositionId: claimed.composition._id,
+      format: claimed.job.format,
+      sourceStorageKeys: Object.values(claimed.sources).map((source) => source.storageKey),
+    });
+    await ctx.runMutation(internal.render.assignOutput, {
+      jobId: claimed.job._id,
+      workerId,
+      storageKey: signed.output.storageKey,
+      publicUrl: signed.output.publicUrl,
+    });
+
+    const sources = Object.fromEntries(
+      Object.entries(claimed.sources).map(([videoId, source]) => [
+        videoId,
+        { ...source, downloadUrl: signed.sourceUrls[source.storageKey] ?? source.src },
+      ]),
+    );
+    return jsonResponse(200, { claimed: { ...claimed, sources, output: signed.output } }, origin);
+  } catch (error) {
+    // Hand the job back so another attempt can pick it up.
+    const details = error instanceof Error ? error.message : String(error);
+    try {
+      await ctx.runMutation(internal.render.failJob, {
+        jobId: claimed.job._id,
+        workerId,
+        error: `CLAIM_SIGNING_FAILED: ${details}`,
+      });
+    } catch {
+      // ignore
+    }
+    return jsonResponse(500, { error: "CLAIM_FAILED", details }, origin);
+  }
+});
+
+export const heartbeat = httpAction(async (ctx, request) => {
+  const origin = request.headers.get("Origin");
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: buildCorsHeaders(origin) });
+  }
+
+  try {
+    requireWorkerSecret(request);
+  } catch {
+    return jsonResponse(401, { error: "UNAUTHORIZED" }, origin);
+  }
+
+  let payload: any = null;
+  try {
+    payload = await request.json();
+  } catch {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Invalid JSON body" }, origin);
+  }
+
+  const jobId = payload?.jobId;
+  const workerId = typeof payload?.workerId === "string" ? payload.workerId : null;
+  if (!jobId || !workerId) {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Missing jobId/workerId" }, origin);
+  }
+
+  try {
+    const result = await ctx.runMutation(internal.render.heartbeatJob, {
+      jobId,
+      workerId,
+      progress: typeof payload?.progress === "number" ? payload.progress : undefined,
+    });
+    return jsonResponse(200, result, origin);
+  } catch (error) {
+    // JOB_NOT_FOUND here means the export was deleted: the worker should abort.
+    const details = error instanceof Error ? error.message : String(error);
+    return jsonResponse(400, { error: "HEARTBEAT_FAILED", details }, origin);
+  }
+});
+
+export const complete = httpAction(async (ctx, request) => {
+  const origin = request.headers.get("Origin");
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: buildCorsHeaders(origin) });
+  }
+
+  try {
+    requireWorkerSecret(request);
+  } catch {
+    return jsonResponse(401, { error: "UNAUTHORIZED" }, origin);
+  }
+
+  let payload: any = null;
+  try {
+    payload = await request.json();
+  } catch {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Invalid JSON body" }, origin);
+  }
+
+  const jobId = payload?.jobId;
+  const workerId = typeof payload?.workerId === "string" ? payload.workerId : null;
+  const outputStorageKey = typeof payload?.outputStorageKey === "string" ? payload.outputStorageKey : null;
+  if (!jobId || !workerId || !outputStorageKey) {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Missing jobId/workerId/outputStorageKey" }, origin);
+  }
+
+  try {
+    const result = await ctx.runMutation(internal.render.completeJob, {
+      jobId,
+      workerId,
+      outputStorageKey,
+    });
+    return jsonResponse(200, result, origin);
+  } catch (error) {
+    const details = error instanceof Error ? error.message : String(error);
+    return jsonResponse(400, { error: "COMPLETE_FAILED", details }, origin);
+  }
+});
+
+export const fail = httpAction(async (ctx, request) => {
+  const origin = request.headers.get("Origin");
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: buildCorsHeaders(origin) });
+  }
+
+  try {
+    requireWorkerSecret(request);
+  } catch {
+    return jsonResponse(401, { error: "UNAUTHORIZED" }, origin);
+  }
+
+  let payload: any = null;
+  try {
+    payload = await request.json();
+  } catch {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Invalid JSON body" }, origin);
+  }
+
+  const jobId = payload?.jobId;
+  const workerId = typeof payload?.workerId === "string" ? payload.workerId : null;
+  const errorMessage = typeof payload?.error === "string" ? payload.error : null;
+  if (!jobId || !workerId || !errorMessage) {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Missing jobId/workerId/error" }, origin);
+  }
+
+  try {
+    const result = await ctx.runMutation(internal.render.failJob, {
+      jobId,
+      workerId,
+      error: errorMessage,
+      permanent: payload?.permanent === true ? true : undefined,
+    });
+    return jsonResponse(200, result, origin);
+  } catch (error) {
+    const details = error instanceof Error ? error.message : String(error);
+    return jsonResponse(400, { error: "FAIL_FAILED", details }, origin);
+  }
+});
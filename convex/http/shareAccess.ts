@@ -0,0 +1,69 @@
+import { httpAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+
+const buildCorsHeaders = (origin: string | null) => ({
+  "Access-Control-Allow-Origin": origin ?? "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+});
+
+const jsonResponse = (status: number, body: unknown, origin: string | null) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...buildCorsHeaders(origin),
+      "Content-Type": "application/json",
+    },
+  });
+
+const ERROR_STATUS: Record<string, number> = {
+  SHARE_NOT_FOUND: 404,
+  PASSWORD_REQUIRED: 401,
+  INVALID_PASSWORD: 401,
+  TOO_MANY_ATTEMPTS: 429,
+  VIEW_LIMIT_REACHED: 410,
+};
+
+// First hop wins: proxies append their own address to x-forwarded-for.
+const clientIp = (request: Request) => {
+  const direct = request.headers.get("cf-connecting-ip") ?? request.headers.get("x-real-ip");
+  if (direct) return direct.trim();
+  const forwarded = request.headers.get("x-forwarded-for");
+  return forwarded ? forwarded.split(",")[0].trim() || null : null;
+};
+
+/**
+ * POST { token, password? } → { grant, remainingViews }.
+ * Opening a link counts a view and writes an access log entry, so it runs as an HTTP action
+ * to see the caller's IP and user agent.
+ */
+export const openShareLink = httpAction(async (ctx, request) => {
+  const origin = request.headers.get("Origin");
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: buildCorsHeaders(origin) });
+  }
+
+  let payload: any = null;
+  try {
+    payload = await request.json();
+  } catch {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Invalid JSON body" }, origin);
+  }
+
+  const token = typeof payload?.token === "string" ? payload.token : null;
+  if (!token) {
+    return jsonResponse(400, { error: "BAD_REQUEST", details: "Missing token" }, origin);
+  }
+  const password = typeof payload?.password === "string" ? payload.password : undefined;
+
+  const result = await ctx.runMutation(internal.shares.openLink, {
+    token,
+    password,
+    ip: clientIp(request) ?? undefined,
+    userAgent: request.headers.get("User-Agent") ?? undefined,
+  });
+  if (!result.ok) {
+    return jsonResponse(ERROR_STATUS[result.error] ?? 400, { error: result.error }, origin);
+  }
+  return jsonResponse(200, { grant: result.grant, remainingViews: result.remainingViews }, origin);
+});
@@ -1,5 +1,6 @@
 import { ConvexError, v } from "convex/values";
 import { internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
 import type { Doc } from "../_generated/dataModel";
 
 const RUN_STATUS_QUEUED = "queued";
@@ -71,6 +72,39 @@ export const onNodeRunSettled = internalMutation({
       return { ok: true };
     }
 
+    // Sweep variants are independent: a failed variant leaves its siblings running, and the
+    // run settles once every variant has. It counts as done when any variant produced output.
+    if (workflowRun.runType === "sweep") {
+      const settledStatus = args.success ? RUN_STATUS_DONE : RUN_STATUS_FAILED;
+      const settledRuns = nodeRuns.map((run) =>
+        run._id === args.nodeRunId ? ({ ...run, status: settledStatus } as Doc<"aiNodeRuns">) : run
+      );
+      const counts = countByStatus(settledRuns);
+
+      if (counts.queued + counts.processing + counts.blocked > 0) {
+        await ctx.db.patch(workflowRun._id, {
+          status: RUN_STATUS_PROCESSING,
+          completedNodeCount: counts.done,
+          failedNodeCount: counts.failed,
+          updatedAt: now,
+        });
+        // Nudge the runner when variants are still queued but none is being worked on.
+        if (counts.queued > 0 && counts.processing === 0) {
+          await ctx.scheduler.runAfter(0, (internal as any)["internal/aiRunner"].pumpQueue, {});
+        }
+        return { ok: true, counts };
+      }
+
+      await ctx.db.patch(workflowRun._id, {
+        status: counts.done > 0 ? RUN_STATUS_DONE : RUN_STATUS_FAILED,
+        ...(counts.done > 0 ? { completedAt: now } : { failedAt: now }),
+        completedNodeCount: counts.done,
+        failedNodeCount: counts.failed,
+        updatedAt: now,
+      });
+      return { ok: true, completed: true, counts };
+    }
+
     if (!args.success) {
       for (const nodeRun of nodeRuns) {
         if (nodeRun.status === RUN_STATUS_QUEUED || nodeRun.status === NODE_STATUS_BLOCKED) {
@@ -17,6 +17,31 @@ import {
 import {
   parseGoogleBatchTerminalStatus,
 } from "./googleBatchAdapter";
+import {
+  normalizeVeo3Config,
+  VEO3_NODE_TYPE,
+  type Veo3NodeConfig,
+} from "../googleVideoModelRegistry";
+import {
+  createGoogleVeo3Client,
+  createMockVeo3Client,
+  isVeo3MockProviderEnabled,
+  resolveMockVeo3Options,
+  type Veo3FrameInput,
+  type Veo3ProviderClient,
+} from "./veo3Adapter";
+import {
+  computeLlmRewriteCostUsd,
+  LLM_REWRITE_NODE_TYPE,
+  normalizeLlmRewriteConfig,
+  PROMPT_TEMPLATE_NODE_TYPE,
+} from "../googleTextModelRegistry";
+import {
+  createGoogleTextLlmClient,
+  createMockTextLlmClient,
+  isTextLlmMockProviderEnabled,
+  type TextLlmProviderClient,
+} from "./textLlmAdapter";
 
 const IV_SIZE = 12;
 const TAG_SIZE = 16;
@@ -28,6 +53,9 @@ const DEFAULT_MAX_RUNS_PER_PUMP = 6;
 const BATCH_POLL_BASE_MS = 10_000;
 const BATCH_POLL_MAX_MS = 60_000;
 const BATCH_MAX_POLLS = 240;
+const VEO3_POLL_BASE_MS = 10_000;
+const VEO3_POLL_MAX_MS = 30_000;
+const VEO3_MAX_POLLS = 60;
 
 const nowTs = () => Date.now();
 
@@ -101,6 +129,10 @@ const extensionFromMimeType = (mimeType: string) => {
       return "webp";
     case "image/gif":
       return "gif";
+    case "video/mp4":
+      return "mp4";
+    case "video/webm":
+      return "webm";
     case "image/png":
     default:
       return "png";
@@ -680,13 +712,13 @@ const extractGenerateResponsesFromEntries = (entries: any[], requestKey?: string
   return { responses, errors };
 };
 
-const uploadOutputImage = async (params: {
+const uploadOutputFile = async (params: {
   launchedBy: string;
   boardId: string;
   subnetworkId: string;
   nodeId: string;
   nodeRunId: string;
-  imageIndex: number;
+  outputIndex: number;
   mimeType: string;
   bytes: Buffer;
 }) => {
@@ -699,7 +731,7 @@ const uploadOutputImage = async (params: {
     sanitizeSegment(params.subnetworkId),
     sanitizeSegment(params.nodeId),
     sanitizeSegment(params.nodeRunId),
-    `${nowTs()}-${params.imageIndex + 1}-${randomUUID()}.${extension}`,
+    `${nowTs()}-${params.outputIndex + 1}-${randomUUID()}.${extension}`,
   ].join("/");
 
   await s3Client.send(
@@ -852,13 +884,13 @@ const persistNanoBananaOutputs = async (params: {
       continue;
     }
 
-    const stored = await uploadOutputImage({
+    const stored = await uploadOutputFile({
       launchedBy: String(params.claimed.nodeRun.launchedBy),
       boardId: String(params.claimed.nodeRun.boardId),
       subnetworkId: String(params.claimed.nodeRun.subnetworkId),
       nodeId: String(params.claimed.nodeRun.nodeId),
       nodeRunId: String(params.claimed.nodeRun._id),
-      imageIndex: i,
+      outputIndex: i,
       mimeType: resolvedMimeType,
       bytes,
     });
@@ -1248,9 +1280,385 @@ const executeNanoBananaRun = async (ctx: any, claimed: any, workerId: string) =>
   await executeNanoBananaInteractive(ctx, claimed, workerId);
 };
 
+const VEO3_FRAME_DIMENSIONS: Record<string, { width: number; height: number }> = {
+  "720p": { width: 1280, height: 720 },
+  "1080p": { width: 1920, height: 1080 },
+};
+
+const resolveVeo3OutputDimensions = (config: Veo3NodeConfig) => {
+  const landscape = VEO3_FRAME_DIMENSIONS[config.resolution];
+  if (!landscape) return {};
+  return config.aspectRatio === "9:16"
+    ? { width: landscape.height, height: landscape.width }
+    : landscape;
+};
+
+const resolveVeo3Client = (claimed: any): Veo3ProviderClient => {
+  if (isVeo3MockProviderEnabled()) {
+    return createMockVeo3Client(resolveMockVeo3Options());
+  }
+
+  const apiKey = decryptApiKey(extractKeyMaterial(claimed));
+  return createGoogleVeo3Client({
+    callJson: (params) => callGoogleJsonApi({ ...params, apiKey }),
+    downloadFile: (fileUri) => downloadGoogleOutputFile({ apiKey, fileUri }),
+  });
+};
+
+const buildVeo3ExecutionInput = async (claimed: any) => {
+  const config: Veo3NodeConfig = normalizeVeo3Config(
+    claimed.execution?.resolvedConfig ?? claimed.node?.config
+  ).config;
+
+  const prompt = String(claimed.execution?.inputSnapshot?.prompt ?? "").trim();
+  if (!prompt) {
+    throw new RunnerExecutionError("PROMPT_REQUIRED", {
+      code: "CONFIG_INVALID_PROMPT_REQUIRED",
+      validationError: "Prompt is required.",
+    });
+  }
+
+  const storage = getStorageConfig();
+  const loadFrame = async (raw: unknown): Promise<Veo3FrameInput | undefined> => {
+    if (!raw || typeof raw !== "object") return undefined;
+    const inline = await loadReferenceAsInlineData(raw as Record<string, unknown>, storage.publicBase);
+    return { mimeType: inline.mimeType, base64Data: inline.base64Data };
+  };
+
+  const startFrame = await loadFrame(claimed.execution?.inputSnapshot?.startFrame);
+  const endFrame = await loadFrame(claimed.execution?.inputSnapshot?.endFrame);
+  if (endFrame && !startFrame) {
+    throw new RunnerExecutionError("END_FRAME_REQUIRES_START_FRAME", {
+      code: "CONFIG_INVALID_END_FRAME_REQUIRES_START_FRAME",
+      validationError: "An end frame can only be used together with a start frame.",
+    });
+  }
+
+  return {
+    prompt,
+    config,
+    startFrame,
+    endFrame,
+  };
+};
+
+const executeVeo3Run = async (ctx: any, claimed: any, workerId: string) => {
+  const client = resolveVeo3Client(claimed);
+  const prepared = await buildVeo3ExecutionInput(claimed);
+
+  await heartbeat(ctx, claimed.nodeRun._id, workerId);
+
+  const started = await client.startGeneration(prepared);
+
+  await ctx.runMutation(internal.aiRuns.updateProcessingNodeRunProviderState, {
+    nodeRunId: claimed.nodeRun._id,
+    workerId,
+    providerRequestId: started.providerRequestId,
+    providerJobId: started.operationName,
+    providerJobState: "running",
+    resolvedConfig: prepared.config,
+  });
+
+  await ctx.scheduler.runAfter(VEO3_POLL_BASE_MS, (internal as any)["internal/aiRunner"].continueVeo3Run, {
+    nodeRunId: claimed.nodeRun._id,
+    workerId,
+    pollAttempt: 0,
+  });
+};
+
+const persistVeo3Outputs = async (params: {
+  ctx: any;
+  claimed: any;
+  workerId: string;
+  client: Veo3ProviderClient;
+  config: Veo3NodeConfig;
+  videos: Array<{ uri?: string; base64Data?: string; mimeType?: string }>;
+  providerRequestId?: string;
+  providerJobId: string;
+}) => {
+  const outputs: Array<Record<string, unknown>> = [];
+  const dimensions = resolveVeo3OutputDimensions(params.config);
+  const inputSnapshot = params.claimed.execution?.inputSnapshot ?? {};
+
+  for (let i = 0; i < params.videos.length; i += 1) {
+    const video = params.videos[i];
+    const downloaded = await params.client.downloadVideo(video);
+    await heartbeat(params.ctx, params.claimed.nodeRun._id, params.workerId);
+
+    const stored = await uploadOutputFile({
+      launchedBy: String(params.claimed.nodeRun.launchedBy),
+      boardId: String(params.claimed.nodeRun.boardId),
+      subnetworkId: String(params.claimed.nodeRun.subnetworkId),
+      nodeId: String(params.claimed.nodeRun.nodeId),
+      nodeRunId: String(params.claimed.nodeRun._id),
+      outputIndex: i,
+      mimeType: downloaded.mimeType,
+      bytes: downloaded.bytes,
+    });
+
+    outputs.push({
+      outputType: "video",
+      title: params.videos.length > 1 ? `Video ${i + 1}` : "Video",
+      storageKey: stored.storageKey,
+      publicUrl: stored.publicUrl,
+      mimeType: downloaded.mimeType,
+      byteSize: downloaded.bytes.byteLength,
+      ...dimensions,
+      durationSeconds: params.config.durationSeconds,
+      metadata: {
+        modelId: params.config.modelId,
+        resolution: params.config.resolution,
+        aspectRatio: params.config.aspectRatio,
+        provider: params.client.provider,
+        hasStartFrame: Boolean(inputSnapshot.startFrame),
+        hasEndFrame: Boolean(inputSnapshot.endFrame),
+        videoUri: video.uri,
+      },
+    });
+
+    if (!params.providerRequestId && downloaded.providerRequestId) {
+      params.providerRequestId = downloaded.providerRequestId;
+    }
+  }
+
+  await params.ctx.runMutation(internal.aiRuns.completeNodeRun, {
+    nodeRunId: params.claimed.nodeRun._id,
+    workerId: params.workerId,
+    providerRequestId: params.providerRequestId,
+    providerJobId: params.providerJobId,
+    providerJobState: "succeeded",
+    resolvedConfig: params.config,
+    outputs,
+  });
+};
+
+const processVeo3Poll = async (ctx: any, params: {
+  nodeRunId: string;
+  workerId: string;
+  pollAttempt: number;
+}) => {
+  const claimed = await ctx.runQuery(internal.aiRuns.getProcessingNodeRunForWorker, {
+    nodeRunId: params.nodeRunId,
+  });
+
+  if (!claimed) {
+    return { ok: false, reason: "NODE_RUN_NOT_FOUND" as const };
+  }
+
+  if (claimed.nodeRun.status !== "processing") {
+    return { ok: false, reason: "NODE_RUN_NOT_PROCESSING" as const };
+  }
+
+  if (String(claimed.nodeRun.lockOwner || "") !== params.workerId) {
+    return { ok: false, reason: "LOCK_MISMATCH" as const };
+  }
+
+  if (claimed.execution?.nodeType !== VEO3_NODE_TYPE) {
+    await failNodeRunSafely(ctx, {
+      nodeRunId: claimed.nodeRun._id,
+      workerId: params.workerId,
+      error: new RunnerExecutionError("NODE_TYPE_NOT_IMPLEMENTED", {
+        code: "NODE_TYPE_NOT_IMPLEMENTED",
+      }),
+    });
+    return { ok: false, reason: "WRONG_NODE_TYPE" as const };
+  }
+
+  const operationName = typeof claimed.nodeRun.providerJobId === "string"
+    ? claimed.nodeRun.providerJobId
+    : null;
+
+  if (!operationName) {
+    await failNodeRunSafely(ctx, {
+      nodeRunId: claimed.nodeRun._id,
+      workerId: params.workerId,
+      error: new RunnerExecutionError("VEO3_OPERATION_ID_MISSING", {
+        code: "PROVIDER_JOB_ID_MISSING",
+      }),
+    });
+    return { ok: false, reason: "MISSING_OPERATION_ID" as const };
+  }
+
+  const client = resolveVeo3Client(claimed);
+  const config: Veo3NodeConfig = normalizeVeo3Config(
+    claimed.execution?.resolvedConfig ?? claimed.node?.config
+  ).config;
+
+  await heartbeat(ctx, claimed.nodeRun._id, params.workerId);
+
+  const status = await client.getOperation(operationName);
+
+  await ctx.runMutation(internal.aiRuns.updateProcessingNodeRunProviderState, {
+    nodeRunId: claimed.nodeRun._id,
+    workerId: params.workerId,
+    providerRequestId: status.providerRequestId,
+    providerJobId: operationName,
+    providerJobState: status.state,
+  });
+
+  if (status.state === "running") {
+    if (params.pollAttempt >= VEO3_MAX_POLLS) {
+      await failNodeRunSafely(ctx, {
+        nodeRunId: claimed.nodeRun._id,
+        workerId: params.workerId,
+        error: new RunnerExecutionError("VEO3_TIMEOUT", {
+          code: "PROVIDER_JOB_TIMEOUT",
+          providerJobId: operationName,
+          providerJobState: status.state,
+          providerRequestId: status.providerRequestId,
+          providerErrorMessage: "Video generation did not finish in expected time.",
+        }),
+      });
+      return { ok: false, reason: "VEO3_TIMEOUT" as const };
+    }
+
+    const delay = Math.min(
+      VEO3_POLL_MAX_MS,
+      VEO3_POLL_BASE_MS * Math.max(1, Math.min(params.pollAttempt + 1, 3))
+    );
+
+    await ctx.scheduler.runAfter(delay, (internal as any)["internal/aiRunner"].continueVeo3Run, {
+      nodeRunId: claimed.nodeRun._id,
+      workerId: params.workerId,
+      pollAttempt: params.pollAttempt + 1,
+    });
+
+    return { ok: true, queuedNextPoll: true, operationState: status.state };
+  }
+
+  if (status.state === "failed") {
+    await failNodeRunSafely(ctx, {
+      nodeRunId: claimed.nodeRun._id,
+      workerId: params.workerId,
+      error: new RunnerExecutionError("VEO3_OPERATION_FAILED", {
+        code: "PROVIDER_JOB_FAILED",
+        providerJobId: operationName,
+        providerJobState: status.state,
+        providerRequestId: status.providerRequestId,
+        providerErrorCode: status.errorCode,
+        providerErrorMessage: status.errorMessage?.slice(0, 1000),
+      }),
+    });
+    return { ok: false, reason: "VEO3_OPERATION_FAILED" as const };
+  }
+
+  if (status.videos.length === 0) {
+    await failNodeRunSafely(ctx, {
+      nodeRunId: claimed.nodeRun._id,
+      workerId: params.workerId,
+      error: new RunnerExecutionError("PROVIDER_EMPTY_OUTPUT", {
+        code: "PROVIDER_EMPTY_OUTPUT",
+        providerJobId: operationName,
+        providerJobState: status.state,
+        providerRequestId: status.providerRequestId,
+        providerErrorMessage:
+          status.filteredReasons.length > 0
+            ? `Google returned no video (${status.filteredReasons.join(" | ").slice(0, 900)}).`
+            : "Google returned no video.",
+      }),
+    });
+    return { ok: false, reason: "VEO3_OUTPUT_MISSING" as const };
+  }
+
+  await persistVeo3Outputs({
+    ctx,
+    claimed,
+    workerId: params.workerId,
+    client,
+    config,
+    videos: status.videos,
+    providerRequestId: status.providerRequestId,
+    providerJobId: operationName,
+  });
+
+  return { ok: true, completed: true, operationState: status.state };
+};
+
+const resolveTextLlmClient = (claimed: any): TextLlmProviderClient => {
+  if (isTextLlmMockProviderEnabled()) {
+    return createMockTextLlmClient();
+  }
+
+  const apiKey = decryptApiKey(extractKeyMaterial(claimed));
+  return createGoogleTextLlmClient({
+    callJson: (params) => callGoogleJsonApi({ ...params, apiKey }),
+  });
+};
+
+const executeLlmRewriteRun = async (ctx: any, claimed: any, workerId: string) => {
+  const config = normalizeLlmRewriteConfig(
+    claimed.execution?.resolvedConfig ?? claimed.node?.config
+  ).config;
+  const instruction = String(claimed.execution?.inputSnapshot?.instruction ?? config.instruction);
+  const text = String(claimed.execution?.inputSnapshot?.text ?? "").trim();
+  if (!text) {
+    throw new RunnerExecutionError("PROMPT_REQUIRED", {
+      code: "CONFIG_INVALID_PROMPT_REQUIRED",
+      validationError: "Text to rewrite is required.",
+    });
+  }
+
+  const client = resolveTextLlmClient(claimed);
+  await heartbeat(ctx, claimed.nodeRun._id, workerId);
+
+  let rewritten;
+  try {
+    rewritten = await client.rewrite({
+      modelId: config.modelId,
+      instruction,
+      text,
+      temperature: config.temperature,
+    });
+  } catch (error) {
+    if (error instanceof RunnerExecutionError) throw error;
+    throw new RunnerExecutionError("TEXT_LLM_REWRITE_FAILED", {
+      code: "PROVIDER_REQUEST_FAILED",
+      providerErrorMessage: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+    });
+  }
+
+  if (!rewritten.text) {
+    throw new RunnerExecutionError("PROVIDER_EMPTY_OUTPUT", {
+      code: "PROVIDER_EMPTY_OUTPUT",
+      providerRequestId: rewritten.providerRequestId,
+      providerErrorMessage: rewritten.finishReason
+        ? `Google returned no text (${rewritten.finishReason}).`
+        : "Google returned no text.",
+    });
+  }
+
+  await ctx.runMutation(internal.aiRuns.completeNodeRun, {
+    nodeRunId: claimed.nodeRun._id,
+    workerId,
+    actualUsd: computeLlmRewriteCostUsd({
+      modelId: config.modelId,
+      inputTokens: rewritten.inputTokens,
+      outputTokens: rewritten.outputTokens,
+    }),
+    providerRequestId: rewritten.providerRequestId,
+    providerJobState: "done",
+    resolvedConfig: config,
+    outputSummary: {
+      text: rewritten.text,
+      inputTokens: rewritten.inputTokens,
+      outputTokens: rewritten.outputTokens,
+    },
+  });
+};
+
 const executeRun = async (ctx: any, claimed: any, workerId: string) => {
   const nodeType = String(claimed.execution?.nodeType ?? "");
 
+  if (claimed.execution?.inputSnapshot?.pendingRewriteNodeIds) {
+    const refreshed = await ctx.runMutation(internal.aiRuns.refreshPendingTextInputs, {
+      nodeRunId: claimed.nodeRun._id,
+      workerId,
+    });
+    if (refreshed) {
+      claimed = { ...claimed, execution: { ...claimed.execution, ...refreshed } };
+    }
+  }
+
   if (nodeType === "prompt" || nodeType === "image_reference") {
     await ctx.runMutation(internal.aiRuns.completeNodeRun, {
       nodeRunId: claimed.nodeRun._id,
@@ -1270,11 +1678,33 @@ const executeRun = async (ctx: any, claimed: any, workerId: string) => {
     return;
   }
 
+  if (nodeType === PROMPT_TEMPLATE_NODE_TYPE) {
+    await ctx.runMutation(internal.aiRuns.completeNodeRun, {
+      nodeRunId: claimed.nodeRun._id,
+      workerId,
+      providerJobState: "done",
+      outputSummary: {
+        text: String(claimed.execution?.inputSnapshot?.text ?? ""),
+      },
+    });
+    return;
+  }
+
+  if (nodeType === LLM_REWRITE_NODE_TYPE) {
+    await executeLlmRewriteRun(ctx, claimed, workerId);
+    return;
+  }
+
   if (nodeType === NANO_BANANA_CANONICAL_NODE_TYPE) {
     await executeNanoBananaRun(ctx, claimed, workerId);
     return;
   }
 
+  if (nodeType === VEO3_NODE_TYPE) {
+    await executeVeo3Run(ctx, claimed, workerId);
+    return;
+  }
+
   throw new RunnerExecutionError("NODE_TYPE_NOT_IMPLEMENTED", {
     code: "NODE_TYPE_NOT_IMPLEMENTED",
     validationError: `Node type "${nodeType}" is not yet executable.`,
@@ -1310,6 +1740,33 @@ export const continueBatchRun = internalAction({
   },
 });
 
+export const continueVeo3Run = internalAction({
+  args: {
+    nodeRunId: v.id("aiNodeRuns"),
+    workerId: v.string(),
+    pollAttempt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    try {
+      return await processVeo3Poll(ctx, {
+        nodeRunId: args.nodeRunId,
+        workerId: args.workerId,
+        pollAttempt: Math.max(0, Math.floor(args.pollAttempt ?? 0)),
+      });
+    } catch (error) {
+      await failNodeRunSafely(ctx, {
+        nodeRunId: args.nodeRunId,
+        workerId: args.workerId,
+        error,
+      });
+      return {
+        ok: false,
+        reason: "POLL_HANDLER_FAILED",
+      };
+    }
+  },
+});
+
 export const pumpQueue = internalAction({
   args: {
     maxRuns: v.optional(v.number()),
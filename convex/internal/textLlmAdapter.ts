@@ -0,0 +1,122 @@
+"use node";
+
+import { createHash, randomUUID } from "node:crypto";
+import type { GoogleTextModelId } from "../googleTextModelRegistry";
+
+export type TextRewriteRequest = {
+  modelId: GoogleTextModelId;
+  instruction: string;
+  text: string;
+  temperature: number;
+};
+
+export type TextRewriteResult = {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  finishReason?: string;
+  providerRequestId?: string;
+};
+
+/**
+ * Text model used by LLM rewrite nodes. The runner only talks to this interface so
+ * the Google API can be swapped for the offline mock (`AI_TEXT_LLM_PROVIDER=mock`).
+ */
+export type TextLlmProviderClient = {
+  provider: "google" | "mock";
+  rewrite: (request: TextRewriteRequest) => Promise<TextRewriteResult>;
+};
+
+type GoogleJsonTransport = (params: {
+  endpoint: string;
+  method?: "GET" | "POST";
+  body?: Record<string, unknown>;
+}) => Promise<{ payload: any; providerRequestId?: string }>;
+
+const GOOGLE_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+const MOCK_FAIL_MARKER = "[mock:fail]";
+const CHARS_PER_TOKEN = 4;
+
+export const buildTextRewriteRequest = (request: TextRewriteRequest) => ({
+  systemInstruction: {
+    parts: [{ text: request.instruction }],
+  },
+  contents: [
+    {
+      role: "user",
+      parts: [{ text: request.text }],
+    },
+  ],
+  generationConfig: {
+    temperature: request.temperature,
+    responseMimeType: "text/plain",
+  },
+});
+
+export const parseTextRewriteResponse = (payload: any) => {
+  const parts: any[] = Array.isArray(payload?.candidates?.[0]?.content?.parts)
+    ? payload.candidates[0].content.parts
+    : [];
+  const text = parts
+    .filter((part) => typeof part?.text === "string" && part.thought !== true)
+    .map((part) => part.text)
+    .join("")
+    .trim();
+  const usage = payload?.usageMetadata ?? {};
+  return {
+    text,
+    inputTokens: Number(usage.promptTokenCount) || 0,
+    outputTokens: (Number(usage.candidatesTokenCount) || 0) + (Number(usage.thoughtsTokenCount) || 0),
+    finishReason:
+      typeof payload?.candidates?.[0]?.finishReason === "string"
+        ? payload.candidates[0].finishReason
+        : undefined,
+  };
+};
+
+export const createGoogleTextLlmClient = (transport: {
+  callJson: GoogleJsonTransport;
+}): TextLlmProviderClient => ({
+  provider: "google",
+  rewrite: async (request) => {
+    const response = await transport.callJson({
+      endpoint: `${GOOGLE_API_BASE}/models/${encodeURIComponent(request.modelId)}:generateContent`,
+      method: "POST",
+      body: buildTextRewriteRequest(request),
+    });
+    return {
+      ...parseTextRewriteResponse(response.payload),
+      providerRequestId: response.providerRequestId,
+    };
+  },
+});
+
+const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Offline stand-in for local development and tests. The same request always yields the
+ * same text: the input with a short digest of the request appended. Texts or
+ * instructions containing `[mock:fail]` fail.
+ */
+export const createMockTextLlmClient = (): TextLlmProviderClient => ({
+  provider: "mock",
+  rewrite: async (request) => {
+    if (request.text.includes(MOCK_FAIL_MARKER) || request.instruction.includes(MOCK_FAIL_MARKER)) {
+      throw new Error("Mock text model failed on request.");
+    }
+    const digest = createHash("sha256")
+      .update(`${request.modelId}\n${request.temperature}\n${request.instruction}\n${request.text}`)
+      .digest("hex")
+      .slice(0, 8);
+    const text = `${request.text.trim()} [mock rewrite ${digest}]`;
+    return {
+      text,
+      inputTokens: estimateTokens(request.instruction) + estimateTokens(request.text),
+      outputTokens: estimateTokens(text),
+      providerRequestId: `mock-${randomUUID()}`,
+    };
+  },
+});
+
+export const isTextLlmMockProviderEnabled = () =>
+  String(process.env.AI_TEXT_LLM_PROVIDER ?? "").trim().toLowerCase() === "mock";
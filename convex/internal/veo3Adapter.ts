@@ -0,0 +1,255 @@
+"use node";
+
+import { randomUUID } from "node:crypto";
+import type { Veo3NodeConfig } from "../googleVideoModelRegistry";
+
+export type Veo3FrameInput = {
+  mimeType: string;
+  base64Data: string;
+};
+
+export type Veo3GenerationRequest = {
+  prompt: string;
+  startFrame?: Veo3FrameInput;
+  endFrame?: Veo3FrameInput;
+  config: Veo3NodeConfig;
+};
+
+export type Veo3GeneratedVideo = {
+  uri?: string;
+  base64Data?: string;
+  mimeType?: string;
+};
+
+export type Veo3OperationStatus = {
+  done: boolean;
+  state: "running" | "succeeded" | "failed";
+  videos: Veo3GeneratedVideo[];
+  errorCode?: string;
+  errorMessage?: string;
+  filteredReasons: string[];
+  providerRequestId?: string;
+};
+
+/**
+ * Long-running Veo3 provider. The runner only talks to this interface so the
+ * Google API can be swapped for the offline mock (`AI_VEO3_PROVIDER=mock`).
+ */
+export type Veo3ProviderClient = {
+  provider: "google" | "mock";
+  startGeneration: (
+    request: Veo3GenerationRequest
+  ) => Promise<{ operationName: string; providerRequestId?: string }>;
+  getOperation: (operationName: string) => Promise<Veo3OperationStatus>;
+  downloadVideo: (
+    video: Veo3GeneratedVideo
+  ) => Promise<{ bytes: Buffer; mimeType: string; providerRequestId?: string }>;
+};
+
+type GoogleJsonTransport = (params: {
+  endpoint: string;
+  method?: "GET" | "POST";
+  body?: Record<string, unknown>;
+}) => Promise<{ payload: any; providerRequestId?: string }>;
+
+type GoogleFileTransport = (fileUri: string) => Promise<{ bytes: Buffer; providerRequestId?: string }>;
+
+const GOOGLE_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+const DEFAULT_VIDEO_MIME_TYPE = "video/mp4";
+const DEFAULT_MOCK_DELAY_MS = 20_000;
+const MOCK_OPERATION_PREFIX = "mock/veo3/operations/";
+const MOCK_FAIL_MARKER = "[mock:fail]";
+
+const toFramePayload = (frame: Veo3FrameInput) => ({
+  bytesBase64Encoded: frame.base64Data,
+  mimeType: frame.mimeType,
+});
+
+export const buildVeo3PredictRequest = (request: Veo3GenerationRequest) => {
+  const instance: Record<string, unknown> = { prompt: request.prompt };
+  if (request.startFrame) {
+    instance.image = toFramePayload(request.startFrame);
+  }
+  if (request.endFrame) {
+    instance.lastFrame = toFramePayload(request.endFrame);
+  }
+
+  return {
+    instances: [instance],
+    parameters: {
+      aspectRatio: request.config.aspectRatio,
+      resolution: request.config.resolution,
+      durationSeconds: request.config.durationSeconds,
+      sampleCount: 1,
+    },
+  };
+};
+
+const asStringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+export const parseVeo3Operation = (payload: any): Veo3OperationStatus => {
+  const done = payload?.done === true;
+  if (payload?.error) {
+    return {
+      done: true,
+      state: "failed",
+      videos: [],
+      errorCode:
+        (typeof payload.error.status === "string" && payload.error.status) ||
+        (payload.error.code ? `HTTP_${payload.error.code}` : "OPERATION_FAILED"),
+      errorMessage: typeof payload.error.message === "string" ? payload.error.message : undefined,
+      filteredReasons: [],
+    };
+  }
+
+  if (!done) {
+    return { done: false, state: "running", videos: [], filteredReasons: [] };
+  }
+
+  const response = payload?.response ?? {};
+  const generated = response.generateVideoResponse ?? response;
+  const samples: any[] = Array.isArray(generated?.generatedSamples)
+    ? generated.generatedSamples
+    : Array.isArray(generated?.videos)
+      ? generated.videos.map((video: any) => ({ video }))
+      : [];
+
+  const videos = samples
+    .map((sample) => sample?.video ?? sample)
+    .map((video: any) => ({
+      uri:
+        typeof video?.uri === "string"
+          ? video.uri
+          : typeof video?.gcsUri === "string"
+            ? video.gcsUri
+            : undefined,
+      base64Data:
+        typeof video?.bytesBase64Encoded === "string" ? video.bytesBase64Encoded : undefined,
+      mimeType: typeof video?.mimeType === "string" ? video.mimeType : undefined,
+    }))
+    .filter((video) => video.uri || video.base64Data);
+
+  return {
+    done: true,
+    state: "succeeded",
+    videos,
+    filteredReasons: [
+      ...asStringList(generated?.raiMediaFilteredReasons),
+      ...asStringList(response?.raiMediaFilteredReasons),
+    ],
+  };
+};
+
+export const createGoogleVeo3Client = (transport: {
+  callJson: GoogleJsonTransport;
+  downloadFile: GoogleFileTransport;
+}): Veo3ProviderClient => ({
+  provider: "google",
+  startGeneration: async (request) => {
+    const started = await transport.callJson({
+      endpoint: `${GOOGLE_API_BASE}/models/${encodeURIComponent(
+        request.config.modelId
+      )}:predictLongRunning`,
+      method: "POST",
+      body: buildVeo3PredictRequest(request),
+    });
+    const operationName =
+      typeof started.payload?.name === "string" ? started.payload.name.trim() : "";
+    if (!operationName) {
+      throw new Error("Veo3 predictLongRunning response is missing the operation name.");
+    }
+    return { operationName, providerRequestId: started.providerRequestId };
+  },
+  getOperation: async (operationName) => {
+    const path = operationName
+      .split("/")
+      .filter((segment) => segment.length > 0)
+      .map((segment) => encodeURIComponent(segment))
+      .join("/");
+    const polled = await transport.callJson({ endpoint: `${GOOGLE_API_BASE}/${path}`, method: "GET" });
+    return { ...parseVeo3Operation(polled.payload), providerRequestId: polled.providerRequestId };
+  },
+  downloadVideo: async (video) => {
+    const mimeType = video.mimeType || DEFAULT_VIDEO_MIME_TYPE;
+    if (video.base64Data) {
+      return { bytes: Buffer.from(video.base64Data, "base64"), mimeType };
+    }
+    if (!video.uri) {
+      throw new Error("Veo3 video has neither inline bytes nor a file URI.");
+    }
+    const downloaded = await transport.downloadFile(video.uri);
+    return { bytes: downloaded.bytes, mimeType, providerRequestId: downloaded.providerRequestId };
+  },
+});
+
+/**
+ * Offline stand-in for local development. Operations finish after
+ * `AI_VEO3_MOCK_DELAY_MS`; the result is fetched from `AI_VEO3_MOCK_VIDEO_URL`
+ * when set, otherwise a placeholder payload is stored. Prompts containing
+ * `[mock:fail]` produce a failed operation.
+ */
+export const createMockVeo3Client = (options?: {
+  delayMs?: number;
+  videoUrl?: string;
+}): Veo3ProviderClient => {
+  const delayMs = Math.max(0, options?.delayMs ?? DEFAULT_MOCK_DELAY_MS);
+
+  return {
+    provider: "mock",
+    startGeneration: async (request) => {
+      const outcome = request.prompt.includes(MOCK_FAIL_MARKER) ? "fail" : "ok";
+      return {
+        operationName: `${MOCK_OPERATION_PREFIX}${outcome}-${Date.now()}-${randomUUID()}`,
+        providerRequestId: `mock-${randomUUID()}`,
+      };
+    },
+    getOperation: async (operationName) => {
+      const [outcome, startedAtRaw] = operationName.slice(MOCK_OPERATION_PREFIX.length).split("-");
+      const startedAt = Number(startedAtRaw);
+      if (!Number.isFinite(startedAt) || Date.now() - startedAt < delayMs) {
+        return { done: false, state: "running", videos: [], filteredReasons: [] };
+      }
+      if (outcome === "fail") {
+        return {
+          done: true,
+          state: "failed",
+          videos: [],
+          errorCode: "MOCK_FAILURE",
+          errorMessage: "Mock Veo3 operation failed on request.",
+          filteredReasons: [],
+        };
+      }
+      return {
+        done: true,
+        state: "succeeded",
+        videos: [{ uri: options?.videoUrl || "mock://veo3/video.mp4", mimeType: DEFAULT_VIDEO_MIME_TYPE }],
+        filteredReasons: [],
+      };
+    },
+    downloadVideo: async (video) => {
+      if (video.uri && /^https?:\/\//.test(video.uri)) {
+        const response = await fetch(video.uri);
+        if (!response.ok) {
+          throw new Error(`Mock Veo3 video fetch failed (${response.status}).`);
+        }
+        return {
+          bytes: Buffer.from(await response.arrayBuffer()),
+          mimeType: response.headers.get("content-type") || DEFAULT_VIDEO_MIME_TYPE,
+        };
+      }
+      return { bytes: Buffer.from("MOCK_VEO3_VIDEO"), mimeType: DEFAULT_VIDEO_MIME_TYPE };
+    },
+  };
+};
+
+export const isVeo3MockProviderEnabled = () =>
+  String(process.env.AI_VEO3_PROVIDER ?? "").trim().toLowerCase() === "mock";
+
+export const resolveMockVeo3Options = () => {
+  const delay = Number(process.env.AI_VEO3_MOCK_DELAY_MS);
+  return {
+    delayMs: Number.isFinite(delay) ? delay : undefined,
+    videoUrl: process.env.AI_VEO3_MOCK_VIDEO_URL || undefined,
+  };
+};
@@ -2,6 +2,9 @@ import { mutation, query } from "./_generated/server";
 import { ConvexError, v } from "convex/values";
 import type { Id } from "./_generated/dataModel";
 import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
+import { deleteShareAccessLogs } from "./utils/shareAccess";
+import { deleteShareGuests } from "./utils/shareGuests";
+import { deleteComment } from "./utils/commentAttachments";
 import { internal } from "./_generated/api";
 
 export const list = query({
@@ -97,7 +100,11 @@ export const remove = mutation({
       .query("contentShares")
       .withIndex("byProject", (q) => q.eq("projectId", projectId))
       .collect();
-    await Promise.all(projectShares.map((s) => ctx.db.delete(s._id)));
+    await Promise.all([
+      ...projectShares.map((s) => ctx.db.delete(s._id)),
+      ...projectShares.map((s) => deleteShareAccessLogs(ctx, s._id)),
+      ...projectShares.map((s) => deleteShareGuests(ctx, s._id)),
+    ]);
 
     // Load all videos in the project
     const videos = await ctx.db
@@ -122,8 +129,10 @@ export const remove = mutation({
 
       await Promise.all([
         ...anns.map((a) => ctx.db.delete(a._id)),
-        ...comments.map((c) => ctx.db.delete(c._id)),
+        ...comments.map((c) => deleteComment(ctx, c)),
         ...shares.map((s) => ctx.db.delete(s._id)),
+        ...shares.map((s) => deleteShareAccessLogs(ctx, s._id)),
+        ...shares.map((s) => deleteShareGuests(ctx, s._id)),
       ]);
 
       await ctx.db.delete(video._id);
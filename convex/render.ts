@@ -1,108 +1,342 @@
 import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
 import { v, ConvexError } from "convex/values";
 
-export const processJob = internalMutation({
+export const RENDER_JOB_MAX_ATTEMPTS = 3;
+// A running job whose worker has not sent a heartbeat for this long is handed to the next worker.
+const RENDER_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+const syncExport = async (
+  ctx: MutationCtx,
+  job: Doc<"renderJobs">,
+  patch: Partial<Pick<Doc<"compositionExports">, "status" | "progress" | "error" | "outputStorageKey" | "outputPublicUrl">>,
+) => {
+  if (!job.compositionId) return;
+  const exports = await ctx.db
+    .query("compositionExports")
+    .withIndex("byComposition", (q) => q.eq("compositionId", job.compositionId!))
+    .collect();
+  const target = exports.find((exp) => exp.renderJobId === job._id);
+  if (!target) return;
+  await ctx.db.patch(target._id, { ...patch, updatedAt: Date.now() });
+};
+
+// Drops a partially uploaded render left behind by a failed or abandoned attempt.
+const discardOutput = async (ctx: MutationCtx, job: Doc<"renderJobs">) => {
+  if (!job.outputStorageKey) return;
+  await ctx.scheduler.runAfter(0, internal.storage.deleteObject, { storageKey: job.outputStorageKey });
+};
+
+const failJobPermanently = async (ctx: MutationCtx, job: Doc<"renderJobs">, message: string) => {
+  const now = Date.now();
+  await discardOutput(ctx, job);
+  await ctx.db.patch(job._id, {
+    status: "failed",
+    progress: 0,
+    lockedBy: undefined,
+    lockedAt: undefined,
+    outputStorageKey: undefined,
+    outputPublicUrl: undefined,
+    error: message,
+    completedAt: now,
+    updatedAt: now,
+  });
+  await syncExport(ctx, job, { status: "failed", progress: 0, error: message });
+};
+
+const requireLockedJob = async (ctx: MutationCtx, jobId: Id<"renderJobs">, workerId: string) => {
+  const job = await ctx.db.get(jobId);
+  if (!job) throw new ConvexError("JOB_NOT_FOUND");
+  if (job.lockedBy !== workerId) throw new ConvexError("NOT_LOCK_OWNER");
+  if (job.status !== "running") throw new ConvexError("JOB_NOT_RUNNING");
+  return job;
+};
+
+// Fails fast on exports that can never render so the editor shows the error immediately.
+// Valid jobs stay queued until a render worker claims them.
+export const validateJob = internalMutation({
   args: {
     jobId: v.id("renderJobs"),
   },
   async handler(ctx, { jobId }) {
     const job = await ctx.db.get(jobId);
-    if (!job) return;
-    if (job.status !== "queued") return;
-
-    const start = Date.now();
-    await ctx.db.patch(jobId, {
-      status: "running",
-      startedAt: start,
-      updatedAt: start,
-      progress: 5,
-      error: undefined,
-    });
-
-    const fail = async (message: string) => {
-      await ctx.db.patch(jobId, {
-        status: "failed",
-        progress: 0,
-        updatedAt: Date.now(),
-        completedAt: Date.now(),
-        error: message,
-      });
-      if (job.compositionId) {
-        const exports = await ctx.db
-          .query("compositionExports")
-          .withIndex("byComposition", (q) => q.eq("compositionId", job.compositionId as any))
-          .collect();
-        const target = exports.find((exp) => exp.renderJobId === jobId);
-        if (target) {
-          await ctx.db.patch(target._id, {
-            status: "failed",
-            progress: 0,
-            error: message,
-            updatedAt: Date.now(),
-          });
-        }
-      }
-      throw new ConvexError(message);
-    };
+    if (!job || job.status !== "queued") return;
 
     if (!job.compositionId) {
-      await fail("Missing composition");
+      await failJobPermanently(ctx, job, "Missing composition");
       return;
     }
-
     const composition = await ctx.db.get(job.compositionId);
     if (!composition) {
-      await fail("Composition not found");
+      await failJobPermanently(ctx, job, "Composition not found");
       return;
     }
-
     const clips = await ctx.db
       .query("compositionClips")
       .withIndex("byComposition", (q) => q.eq("compositionId", job.compositionId!))
       .collect();
-
-    if (!clips.length) {
-      await fail("No clips to render");
-      return;
+    if (!clips.some((clip) => !clip.hidden)) {
+      await failJobPermanently(ctx, job, "No clips to render");
     }
+  },
+});
 
-    const sortedClips = clips.sort((a, b) => a.timelineStartFrame - b.timelineStartFrame);
-    const primaryClip = sortedClips[0];
-    const sourceVideo = await ctx.db.get(primaryClip.sourceVideoId);
-    if (!sourceVideo) {
-      await fail("Source video missing");
-      return;
+type RenderSource = {
+  storageKey: string;
+  src: string;
+  width: number;
+  height: number;
+  fps: number;
+  duration: number;
+};
+
+type RenderInputs = {
+  composition: Doc<"compositions">;
+  clips: Doc<"compositionClips">[];
+  sources: Record<string, RenderSource>;
+};
+
+// What a worker needs to render a job, or why the job can never render.
+const loadRenderInputs = async (ctx: MutationCtx, job: Doc<"renderJobs">): Promise<RenderInputs | { error: string }> => {
+  const composition = job.compositionId ? await ctx.db.get(job.compositionId) : null;
+  if (!composition) return { error: "Composition not found" };
+
+  const clips = (
+    await ctx.db
+      .query("compositionClips")
+      .withIndex("byComposition", (q) => q.eq("compositionId", composition._id))
+      .collect()
+  ).filter((clip) => !clip.hidden);
+  if (!clips.length) return { error: "No clips to render" };
+
+  const sources: Record<string, RenderSource> = {};
+  for (const clip of clips) {
+    const key = clip.sourceVideoId as string;
+    if (sources[key]) continue;
+    const video = await ctx.db.get(clip.sourceVideoId);
+    if (!video) return { error: "Source video missing" };
+    sources[key] = {
+      storageKey: video.storageKey,
+      src: video.src,
+      width: video.width,
+      height: video.height,
+      fps: video.fps,
+      duration: video.duration,
+    };
+  }
+  return { composition, clips, sources };
+};
+
+// Jobs failed while looking for one to claim, before giving up until the worker's next poll.
+const MAX_CLAIM_CANDIDATES = 10;
+
+export const claimNextJob = internalMutation({
+  args: {
+    workerId: v.string(),
+  },
+  async handler(ctx, { workerId }) {
+    const now = Date.now();
+
+    let job: Doc<"renderJobs"> | null = null;
+    let inputs: RenderInputs | null = null;
+    for (let candidate = 0; candidate < MAX_CLAIM_CANDIDATES && !inputs; candidate++) {
+      // Jobs abandoned by a crashed worker go first: they have waited longest, and a steady stream
+      // of new exports must not keep them stuck as "running".
+      const abandoned = await ctx.db
+        .query("renderJobs")
+        .withIndex("byStatusUpdatedAt", (q) => q.eq("status", "running").lt("updatedAt", now - RENDER_LOCK_TIMEOUT_MS))
+        .order("asc")
+        .first();
+      job =
+        abandoned ??
+        (await ctx.db
+          .query("renderJobs")
+          .withIndex("byStatusUpdatedAt", (q) => q.eq("status", "queued"))
+          .order("asc")
+          .first());
+      if (!job) return null;
+
+      // A job that can never render is failed and the next one is tried.
+      if ((job.attempts ?? 0) >= (job.maxAttempts ?? RENDER_JOB_MAX_ATTEMPTS)) {
+        await failJobPermanently(ctx, job, job.error ?? "MAX_ATTEMPTS_EXCEEDED");
+        continue;
+      }
+      const loaded = await loadRenderInputs(ctx, job);
+      if ("error" in loaded) {
+        await failJobPermanently(ctx, job, loaded.error);
+        continue;
+      }
+      inputs = loaded;
     }
+    if (!job || !inputs) return null;
 
-    const midUpdate = Date.now();
-    await ctx.db.patch(jobId, { progress: 60, updatedAt: midUpdate });
+    const attempts = job.attempts ?? 0;
+    const { composition, clips, sources } = inputs;
 
-    const exports = await ctx.db
-      .query("compositionExports")
-      .withIndex("byComposition", (q) => q.eq("compositionId", job.compositionId!))
+    const tracks = await ctx.db
+      .query("keyframeTracks")
+      .withIndex("byComposition", (q) => q.eq("compositionId", composition._id))
       .collect();
-    const target = exports.find((exp) => exp.renderJobId === jobId);
-    if (!target) {
-      await fail("Export record missing");
-      return;
-    }
 
-    const resultKey = sourceVideo.storageKey;
-    const resultUrl = sourceVideo.src;
+    await discardOutput(ctx, job);
+    await ctx.db.patch(job._id, {
+      status: "running",
+      lockedBy: workerId,
+      outputStorageKey: undefined,
+      outputPublicUrl: undefined,
+      lockedAt: now,
+      attempts: attempts + 1,
+      startedAt: job.startedAt ?? now,
+      progress: 0,
+      error: undefined,
+      updatedAt: now,
+    });
+    await syncExport(ctx, job, { status: "running", progress: 0, error: undefined });
+
+    return {
+      job: {
+        _id: job._id,
+        jobType: job.jobType,
+        format: typeof job.payload?.format === "string" ? job.payload.format : "video/mp4",
+        attempts: attempts + 1,
+      },
+      ownerId: composition.ownerId,
+      composition: {
+        _id: composition._id,
+        title: composition.title,
+        settings: composition.settings,
+      },
+      // Bottom-most layer first; the worker composites in this order.
+      clips: clips
+        .sort((a, b) => a.zIndex - b.zIndex || a.timelineStartFrame - b.timelineStartFrame)
+        .map((clip) => ({
+          _id: clip._id,
+          sourceVideoId: clip.sourceVideoId,
+          sourceInFrame: clip.sourceInFrame,
+          sourceOutFrame: clip.sourceOutFrame,
+          timelineStartFrame: clip.timelineStartFrame,
+          speed: clip.speed,
+          opacity: clip.opacity ?? 1,
+          zIndex: clip.zIndex,
+          audioEnabled: clip.audioEnabled ?? true,
+          transformTrackId: clip.transformTrackId ?? null,
+        })),
+      // `trim` ({ start, end } in timeline frames) and `transform` ({ x, y, scale, rotate }) channels.
+      tracks: tracks.map((track) => ({
+        _id: track._id,
+        clipId: track.clipId ?? null,
+        channel: track.channel,
+        keyframes: track.keyframes,
+      })),
+      sources,
+    };
+  },
+});
 
-    await ctx.db.patch(target._id, {
-      status: "completed",
-      progress: 100,
-      outputStorageKey: resultKey,
-      outputPublicUrl: resultUrl,
+// Records the upload target signed for the claimed job, so `complete` only accepts that object.
+export const assignOutput = internalMutation({
+  args: {
+    jobId: v.id("renderJobs"),
+    workerId: v.string(),
+    storageKey: v.string(),
+    publicUrl: v.string(),
+  },
+  async handler(ctx, { jobId, workerId, storageKey, publicUrl }) {
+    await requireLockedJob(ctx, jobId, workerId);
+    await ctx.db.patch(jobId, {
+      outputStorageKey: storageKey,
+      outputPublicUrl: publicUrl,
       updatedAt: Date.now(),
     });
+    return { ok: true };
+  },
+});
+
+export const heartbeatJob = internalMutation({
+  args: {
+    jobId: v.id("renderJobs"),
+    workerId: v.string(),
+    progress: v.optional(v.number()),
+  },
+  async handler(ctx, { jobId, workerId, progress }) {
+    const job = await requireLockedJob(ctx, jobId, workerId);
+    const now = Date.now();
+    const nextProgress =
+      typeof progress === "number" && Number.isFinite(progress)
+        ? Math.max(0, Math.min(99, progress))
+        : job.progress;
+    await ctx.db.patch(jobId, { lockedAt: now, progress: nextProgress, updatedAt: now });
+    if (nextProgress !== job.progress) {
+      await syncExport(ctx, job, { progress: nextProgress });
+    }
+    return { ok: true };
+  },
+});
 
+export const completeJob = internalMutation({
+  args: {
+    jobId: v.id("renderJobs"),
+    workerId: v.string(),
+    outputStorageKey: v.string(),
+  },
+  async handler(ctx, { jobId, workerId, outputStorageKey }) {
+    const job = await requireLockedJob(ctx, jobId, workerId);
+    if (!job.outputStorageKey || job.outputStorageKey !== outputStorageKey || !job.outputPublicUrl) {
+      throw new ConvexError("OUTPUT_MISMATCH");
+    }
+    const now = Date.now();
     await ctx.db.patch(jobId, {
       status: "completed",
       progress: 100,
-      completedAt: Date.now(),
+      lockedBy: undefined,
+      lockedAt: undefined,
+      error: undefined,
+      completedAt: now,
+      updatedAt: now,
+    });
+    await syncExport(ctx, job, {
+      status: "completed",
+      progress: 100,
+      error: undefined,
+      outputStorageKey: job.outputStorageKey,
+      outputPublicUrl: job.outputPublicUrl,
+    });
+    if (job.compositionId) {
+      await ctx.db.patch(job.compositionId, { updatedAt: now });
+    }
+    return { ok: true };
+  },
+});
+
+export const failJob = internalMutation({
+  args: {
+    jobId: v.id("renderJobs"),
+    workerId: v.string(),
+    error: v.string(),
+    // Set by the worker for errors a retry cannot fix (e.g. unsupported codec).
+    permanent: v.optional(v.boolean()),
+  },
+  async handler(ctx, { jobId, workerId, error, permanent }) {
+    const job = await requireLockedJob(ctx, jobId, workerId);
+    const willRetry = !permanent && (job.attempts ?? 0) < (job.maxAttempts ?? RENDER_JOB_MAX_ATTEMPTS);
+    if (!willRetry) {
+      await failJobPermanently(ctx, job, error);
+      return { ok: true, willRetry };
+    }
+    await discardOutput(ctx, job);
+    await ctx.db.patch(jobId, {
+      status: "queued",
+      progress: 0,
+      lockedBy: undefined,
+      lockedAt: undefined,
+      outputStorageKey: undefined,
+      outputPublicUrl: undefined,
+      error,
       updatedAt: Date.now(),
     });
+    await syncExport(ctx, job, { status: "queued", progress: 0, error });
+    return { ok: true, willRetry };
   },
 });
@@ -0,0 +1,130 @@
+import { query } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { getCurrentUserDoc } from "./utils/auth";
+import type { Doc, Id } from "./_generated/dataModel";
+import { createNoteAuthorResolver } from "./utils/shareGuests";
+
+async function canViewVideo(ctx: any, userId: Id<'users'>, videoId: Id<'videos'>) {
+  const video = await ctx.db.get(videoId);
+  if (!video) return false;
+  if (video.ownerId === userId) return true;
+  const videoShares = await ctx.db.query('contentShares').withIndex('byVideo', (q: any) => q.eq('videoId', videoId)).collect();
+  const memberEmails = new Set<string>();
+  for (const s of videoShares) {
+    if (s.groupId) {
+      const members = await ctx.db.query('shareGroupMembers').withIndex('byGroup', (q: any) => q.eq('groupId', s.groupId)).collect();
+      members.forEach((m: any) => memberEmails.add(m.email));
+    }
+  }
+  if (video.projectId) {
+    const projShares = await ctx.db.query('contentShares').withIndex('byProject', (q: any) => q.eq('projectId', video.projectId)).collect();
+    for (const s of projShares) {
+      if (s.groupId) {
+        const members = await ctx.db.query('shareGroupMembers').withIndex('byGroup', (q: any) => q.eq('groupId', s.groupId)).collect();
+        members.forEach((m: any) => memberEmails.add(m.email));
+      }
+    }
+  }
+  const user = await ctx.db.get(userId);
+  return user ? memberEmails.has(user.email) || videoShares.some((s: any) => s.linkToken && s.isActive) : false;
+}
+
+/**
+ * Maps a note to the source it was made on.
+ * Notes record `sourceStorageKey` on creation. Older rows are attributed by time: a revision row
+ * is written when its source gets replaced, so a note belongs to the first source replaced after it.
+ */
+function buildSourceResolver(video: Doc<'videos'>, revisions: Doc<'videoRevisions'>[]) {
+  const replaced = [...revisions].sort((a, b) => a.createdAt - b.createdAt);
+  return (row: { sourceStorageKey?: string; createdAt: number }) => {
+    if (row.sourceStorageKey) return row.sourceStorageKey;
+    const next = replaced.find((r) => r.createdAt > row.createdAt);
+    return next ? next.storageKey : video.storageKey;
+  };
+}
+
+/**
+ * Comments and annotations made on one uploaded source of a video, in the same shape as
+ * `comments.listByVideo` / `annotations.listByVideo`. Used by the reviewer's revision compare mode.
+ */
+export const listForSource = query({
+  args: {
+    videoId: v.id("videos"),
+    storageKey: v.string(),
+  },
+  async handler(ctx, { videoId, storageKey }) {
+    const user = await getCurrentUserDoc(ctx);
+    if (!user || !(await canViewVideo(ctx, user._id, videoId))) {
+      return { storageKey, comments: [], annotations: [] };
+    }
+    const video = await ctx.db.get(videoId);
+    if (!video) throw new ConvexError("NOT_FOUND");
+
+    const revisions = await ctx.db
+      .query("videoRevisions")
+      .withIndex("byVideo", (q) => q.eq("videoId", videoId))
+      .collect();
+    if (storageKey !== video.storageKey && !revisions.some((r) => r.storageKey === storageKey)) {
+      throw new ConvexError("REVISION_NOT_FOUND");
+    }
+    const sourceOf = buildSourceResolver(video, revisions);
+
+    const comments = (
+      await ctx.db
+        .query("comments")
+        .withIndex("byVideo", (q) => q.eq("videoId", videoId))
+        .collect()
+    ).sort((a, b) => a.createdAt - b.createdAt);
+    // Replies follow their thread root, wherever they were written.
+    const rootSource = new Map<string, string>();
+    for (const comment of comments) {
+      if (!comment.parentId) rootSource.set(comment._id, sourceOf(comment));
+    }
+
+    const authorOf = createNoteAuthorResolver(ctx);
+    const sourceComments = [];
+    for (const comment of comments) {
+      const source = comment.parentId ? rootSource.get(comment.parentId) ?? sourceOf(comment) : rootSource.get(comment._id);
+      if (source !== storageKey) continue;
+      const author = await authorOf(comment);
+      sourceComments.push({
+        id: comment._id,
+        videoId: comment.videoId,
+        authorId: author.authorId,
+        text: comment.text,
+        parentId: comment.parentId ?? null,
+        resolved: comment.resolved,
+        frame: comment.frame ?? null,
+        frameEnd: comment.frameEnd ?? null,
+        createdAt: comment.createdAt,
+        updatedAt: comment.updatedAt,
+        position: comment.position ?? null,
+        authorName: author.name,
+        authorAvatar: author.avatar,
+        isGuest: author.isGuest,
+      });
+    }
+
+    const annotations = await ctx.db
+      .query("annotations")
+      .withIndex("byVideo", (q) => q.eq("videoId", videoId))
+      .collect();
+    const sourceAnnotations = annotations
+      .filter((annotation) => sourceOf(annotation) === storageKey)
+      .map((annotation) => {
+        const data = annotation.data as Record<string, unknown> | null;
+        return {
+          id: annotation._id,
+          videoId: annotation.videoId,
+          authorId: annotation.authorId ?? annotation.guestId,
+          isGuest: Boolean(annotation.guestId),
+          createdAt: annotation.createdAt,
+          updatedAt: annotation.updatedAt,
+          frame: annotation.frame,
+          ...(data ?? {}),
+        };
+      });
+
+    return { storageKey, comments: sourceComments, annotations: sourceAnnotations };
+  },
+});
@@ -1,5 +1,6 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { smartCollectionRuleValidator } from "./utils/smartCollections";
 
 const pointValidator = v.object({
   x: v.number(),
@@ -202,6 +203,7 @@ export default defineSchema({
     .index("byUserAnalysisStatus", ["userId", "analysisStatus"])
     .index("byFileUrl", ["fileUrl"])
     .index("byStorageKey", ["storageKey"])
+    .index("byUserSha256", ["userId", "sha256"])
     .searchIndex("search_assets", {
       searchField: "title",
       filterFields: ["userId", "type"],
@@ -211,12 +213,40 @@ export default defineSchema({
       filterFields: ["userId", "type"],
     }),
 
+  // An asset's pHash cut into fixed-width bands. Two hashes within the near-duplicate
+  // distance always share at least one band, so candidates come from index lookups.
+  assetPhashBands: defineTable({
+    userId: v.id("users"),
+    assetId: v.id("assets"),
+    band: v.number(),
+    value: v.string(),
+  })
+    .index("byUserBand", ["userId", "band", "value"])
+    .index("byAsset", ["assetId"]),
+
+  // Raised when an asset matches an older one; `assetId` is the newer upload.
+  assetDuplicateFlags: defineTable({
+    userId: v.id("users"),
+    assetId: v.id("assets"),
+    duplicateOfId: v.id("assets"),
+    kind: v.union(v.literal("exact"), v.literal("near")),
+    // pHash Hamming distance in bits; 0 for exact matches.
+    distance: v.number(),
+    status: v.union(v.literal("open"), v.literal("dismissed")),
+    createdAt: v.number(),
+  })
+    .index("byUserStatus", ["userId", "status"])
+    .index("byAsset", ["assetId"])
+    .index("byDuplicateOf", ["duplicateOfId"]),
+
   assetCollections: defineTable({
     ownerId: v.id("users"),
     title: v.string(),
     projectId: v.optional(v.id("projects")),
     coverUrl: v.optional(v.string()),
     coverStorageKey: v.optional(v.string()),
+    // Smart collections store a rule instead of assetCollectionItems; membership is computed on read.
+    rule: v.optional(smartCollectionRuleValidator),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -364,6 +394,9 @@ export default defineSchema({
     description: v.optional(v.string()),
     icon: v.optional(v.string()),
     isArchived: v.optional(v.boolean()),
+    // Set when the subnetwork was instantiated from a template.
+    templateId: v.optional(v.id("aiSubnetworkTemplates")),
+    templateVersion: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -371,6 +404,42 @@ export default defineSchema({
     .index("byOwner", ["ownerId"])
     .index("byBoardUpdatedAt", ["boardId", "updatedAt"]),
 
+  // Reusable subnetwork graphs. Only the owner publishes versions; members of `groupId`
+  // can instantiate any version on boards they can edit.
+  aiSubnetworkTemplates: defineTable({
+    ownerId: v.id("users"),
+    title: v.string(),
+    description: v.optional(v.string()),
+    groupId: v.optional(v.id("shareGroups")),
+    latestVersion: v.number(),
+    isArchived: v.optional(v.boolean()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("byOwner", ["ownerId"])
+    .index("byGroup", ["groupId"]),
+
+  // Immutable graph snapshot per template version, in the aiGraph import format. Parameters
+  // expose one config field of one snapshot node to the instantiate form.
+  aiSubnetworkTemplateVersions: defineTable({
+    templateId: v.id("aiSubnetworkTemplates"),
+    version: v.number(),
+    nodes: v.array(v.any()),
+    edges: v.array(v.any()),
+    parameters: v.array(
+      v.object({
+        key: v.string(),
+        label: v.string(),
+        nodeId: v.string(),
+        field: v.string(),
+        defaultValue: v.optional(v.any()),
+      })
+    ),
+    changeNote: v.optional(v.string()),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  }).index("byTemplateVersion", ["templateId", "version"]),
+
   aiNodes: defineTable({
     subnetworkId: v.id("aiSubnetworks"),
     boardId: v.id("boards"),
@@ -409,7 +478,7 @@ export default defineSchema({
     subnetworkId: v.id("aiSubnetworks"),
     boardId: v.id("boards"),
     launchedBy: v.id("users"),
-    runType: v.string(), // node | workflow
+    runType: v.string(), // node | workflow | sweep
     triggerNodeId: v.optional(v.id("aiNodes")),
     status: v.string(), // queued | processing | done | failed | canceled
     keyRefType: v.optional(v.string()), // session | persistent
@@ -453,6 +522,12 @@ export default defineSchema({
     providerJobId: v.optional(v.string()),
     providerJobState: v.optional(v.string()),
     requestHash: v.optional(v.string()),
+    // Settled from an earlier done run with the same requestHash instead of calling the provider.
+    cacheHit: v.optional(v.boolean()),
+    cachedFromNodeRunId: v.optional(v.id("aiNodeRuns")),
+    // Position and label of the variant within a "sweep" workflow run.
+    sweepIndex: v.optional(v.number()),
+    sweepLabel: v.optional(v.string()),
     outputSummary: v.optional(v.any()),
     providerRequestId: v.optional(v.string()),
     providerErrorCode: v.optional(v.string()),
@@ -466,7 +541,8 @@ export default defineSchema({
     .index("bySubnetwork", ["subnetworkId"])
     .index("byNodeStatus", ["nodeId", "status"])
     .index("byStatusUpdatedAt", ["status", "updatedAt"])
-    .index("byNodeCreatedAt", ["nodeId", "createdAt"]),
+    .index("byNodeCreatedAt", ["nodeId", "createdAt"])
+    .index("byRequestHashStatus", ["requestHash", "status"]),
 
   aiNodeOutputs: defineTable({
     subnetworkId: v.id("aiSubnetworks"),
@@ -493,6 +569,7 @@ export default defineSchema({
   })
     .index("byNodeVersion", ["nodeId", "version"])
     .index("byNodeCreatedAt", ["nodeId", "createdAt"])
+    .index("byNodeRun", ["nodeRunId"])
     .index("bySubnetwork", ["subnetworkId"])
     .index("byBoard", ["boardId"]),
 
@@ -514,6 +591,8 @@ export default defineSchema({
   })
     .index("byUserCreatedAt", ["userId", "createdAt"])
     .index("byUserMonth", ["userId", "monthKey"])
+    .index("byBoardMonth", ["boardId", "monthKey"])
+    .index("bySubnetworkMonth", ["subnetworkId", "monthKey"])
     .index("bySubnetworkCreatedAt", ["subnetworkId", "createdAt"])
     .index("byWorkflowRun", ["workflowRunId"])
     .index("byNodeRun", ["nodeRunId"]),
@@ -534,10 +613,30 @@ export default defineSchema({
     .index("byUserCreatedAt", ["userId", "createdAt"])
     .index("byEventTypeCreatedAt", ["eventType", "createdAt"]),
 
+  // Monthly spend limits checked by aiRuns before a run starts. Exactly one of userId, boardId
+  // or subnetworkId identifies the scope; soft limits raise alerts, hard limits block runs.
+  aiBudgets: defineTable({
+    scope: v.string(), // user | board | subnetwork
+    userId: v.optional(v.id("users")),
+    boardId: v.optional(v.id("boards")),
+    subnetworkId: v.optional(v.id("aiSubnetworks")),
+    softLimitUsd: v.optional(v.number()),
+    hardLimitUsd: v.optional(v.number()),
+    updatedBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("byScopeUser", ["scope", "userId"])
+    .index("byScopeBoard", ["scope", "boardId"])
+    .index("byScopeSubnetwork", ["scope", "subnetworkId"]),
+
   aiUsageAlerts: defineTable({
     userId: v.id("users"),
     boardId: v.optional(v.id("boards")),
     subnetworkId: v.optional(v.id("aiSubnetworks")),
+    budgetId: v.optional(v.id("aiBudgets")),
+    budgetScope: v.optional(v.string()),
+    monthKey: v.optional(v.string()),
     provider: v.optional(v.string()),
     keyMode: v.optional(v.string()),
     keyRefId: v.optional(v.string()),
@@ -547,10 +646,15 @@ export default defineSchema({
     threshold: v.optional(v.number()),
     observedValue: v.optional(v.number()),
     triggeredAt: v.number(),
+    acknowledgedAt: v.optional(v.number()),
+    acknowledgedBy: v.optional(v.id("users")),
     resolvedAt: v.optional(v.number()),
-    status: v.string(), // open | resolved
+    resolvedBy: v.optional(v.id("users")),
+    status: v.string(), // open | acknowledged | resolved
   })
     .index("byUserStatus", ["userId", "status"])
+    .index("byBoardStatus", ["boardId", "status"])
+    .index("byBudgetMonth", ["budgetId", "monthKey"])
     .index("byUserTriggeredAt", ["userId", "triggeredAt"])
     .index("byStatusTriggeredAt", ["status", "triggeredAt"]),
 
@@ -588,6 +692,9 @@ export default defineSchema({
     width: v.number(),
     height: v.number(),
     fps: v.number(),
+    // SMPTE timecode of the first frame (HH:MM:SS:FF) and drop-frame counting for 29.97/59.94.
+    startTimecode: v.optional(v.string()),
+    dropFrame: v.optional(v.boolean()),
     duration: v.number(),
     uploadedAt: v.number(),
     lastReviewedAt: v.optional(v.number()),
@@ -611,10 +718,49 @@ export default defineSchema({
     fileName: v.optional(v.string()),
   }).index("byVideo", ["videoId"]),
 
+  // Audio peaks for one uploaded source of a video, computed once by the first client that opens it.
+  videoWaveforms: defineTable({
+    videoId: v.id("videos"),
+    revisionId: v.optional(v.id("videoRevisions")),
+    storageKey: v.string(),
+    peaksPerSecond: v.number(),
+    // Base64 of one byte (0-255) per bucket: peak amplitude with channels mixed down.
+    peaks: v.string(),
+    duration: v.number(),
+    hasAudio: v.boolean(),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("byVideo", ["videoId"])
+    .index("byVideoAndStorageKey", ["videoId", "storageKey"]),
+
+  // One sign-off decision per reviewer for a given uploaded source of a video.
+  // `storageKey` identifies the source (the current upload may not have a revision row yet).
+  videoApprovals: defineTable({
+    videoId: v.id("videos"),
+    revisionId: v.optional(v.id("videoRevisions")),
+    storageKey: v.string(),
+    reviewerId: v.id("users"),
+    status: v.string(), // approved | rejected | needs_changes | on_hold
+    feedback: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("byVideo", ["videoId"])
+    .index("byVideoAndStorageKey", ["videoId", "storageKey"])
+    .index("byVideoStorageKeyReviewer", ["videoId", "storageKey", "reviewerId"])
+    .index("byRevision", ["revisionId"]),
+
   annotations: defineTable({
     videoId: v.id("videos"),
-    authorId: v.id("users"),
+    // Exactly one of authorId / guestId is set; guests come from share links.
+    authorId: v.optional(v.id("users")),
+    guestId: v.optional(v.id("shareGuests")),
+    // Uploaded source the note was made on; unset on rows created before revisions were tracked.
+    sourceStorageKey: v.optional(v.string()),
     frame: v.number(),
+    // Copy of data.frameEnd: last frame a held annotation stays on screen. Unset for single-frame ones.
+    frameEnd: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
     data: v.any(),
@@ -624,14 +770,50 @@ export default defineSchema({
 
   comments: defineTable({
     videoId: v.id("videos"),
-    authorId: v.id("users"),
+    // Exactly one of authorId / guestId is set; guests come from share links.
+    authorId: v.optional(v.id("users")),
+    guestId: v.optional(v.id("shareGuests")),
+    // Uploaded source the note was made on; unset on rows created before revisions were tracked.
+    sourceStorageKey: v.optional(v.string()),
     text: v.string(),
     frame: v.optional(v.number()),
+    // Last frame (inclusive) of a range note; `frame` is the first. Only set on thread roots.
+    frameEnd: v.optional(v.number()),
     resolved: v.boolean(),
+    // Set when a thread is resolved, cleared when it is reopened; read by the digest emails.
+    resolvedAt: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
     parentId: v.optional(v.id("comments")),
     position: v.optional(pointValidator),
+    // Unset on comments made before statuses existed; `resolved` is kept in sync either way.
+    status: v.optional(v.union(v.literal("open"), v.literal("acknowledged"), v.literal("resolved"))),
+    assigneeId: v.optional(v.id("users")),
+    // Calendar day (YYYY-MM-DD), not a timestamp.
+    dueDate: v.optional(v.string()),
+    reactions: v.optional(
+      v.array(
+        v.object({
+          emoji: v.string(),
+          userId: v.id("users"),
+          createdAt: v.number(),
+        }),
+      ),
+    ),
+    // Files uploaded through storage.generateAnnotationAssetUploadUrl; deleted with the comment.
+    attachments: v.optional(
+      v.array(
+        v.object({
+          storageKey: v.string(),
+          url: v.string(),
+          name: v.string(),
+          mimeType: v.string(),
+          size: v.number(),
+          width: v.optional(v.number()),
+          height: v.optional(v.number()),
+        }),
+      ),
+    ),
   })
     .index("byVideo", ["videoId"])
     .index("byParent", ["parentId"])
@@ -655,7 +837,8 @@ export default defineSchema({
     acceptedAt: v.optional(v.number()),
   })
     .index("byGroup", ["groupId"])
-    .index("byEmail", ["email"]),
+    .index("byEmail", ["email"])
+    .index("byUser", ["userId"]),
 
   contentShares: defineTable({
     ownerId: v.id("users"),
@@ -668,11 +851,50 @@ export default defineSchema({
     isActive: v.boolean(),
     createdAt: v.number(),
     expiresAt: v.optional(v.number()),
+    // Optional link password, stored as a salted PBKDF2 hash.
+    passwordHash: v.optional(v.string()),
+    passwordSalt: v.optional(v.string()),
+    maxViews: v.optional(v.number()),
+    viewCount: v.optional(v.number()),
+    revokedReason: v.optional(v.union(v.literal("manual"), v.literal("view_limit"))),
   })
     .index("byOwner", ["ownerId"]) 
     .index("byLinkToken", ["linkToken"]) 
     .index("byVideo", ["videoId"]) 
-    .index("byProject", ["projectId"]),
+    .index("byProject", ["projectId"])
+    .index("byGroup", ["groupId"]),
+
+  shareAccessLogs: defineTable({
+    shareId: v.id("contentShares"),
+    createdAt: v.number(),
+    outcome: v.union(
+      v.literal("granted"),
+      v.literal("password_required"),
+      v.literal("invalid_password"),
+      v.literal("limit_reached"),
+      v.literal("rate_limited"),
+    ),
+    // SHA-256 of the client IP salted with the share id; raw addresses are never stored.
+    ipHash: v.optional(v.string()),
+    userAgent: v.optional(v.string()),
+    userId: v.optional(v.id("users")),
+  })
+    .index("byShare", ["shareId", "createdAt"])
+    .index("byShareClient", ["shareId", "ipHash", "createdAt"]),
+
+  // Named reviewers who comment through a share link without an account.
+  shareGuests: defineTable({
+    shareId: v.id("contentShares"),
+    name: v.string(),
+    email: v.string(),
+    sessionToken: v.string(),
+    createdAt: v.number(),
+    lastSeenAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("bySessionToken", ["sessionToken"])
+    .index("byShare", ["shareId"])
+    .index("byExpiresAt", ["expiresAt"]),
 
   friends: defineTable({
     ownerId: v.id("users"),
@@ -686,7 +908,7 @@ export default defineSchema({
 
   notifications: defineTable({
     userId: v.id("users"),
-    type: v.string(), // 'share' | 'mention'
+    type: v.string(), // 'share' | 'mention' | 'approval' | 'assignment'
     message: v.string(),
     videoId: v.optional(v.id("videos")),
     projectId: v.optional(v.id("projects")),
@@ -703,6 +925,27 @@ export default defineSchema({
     .index("byUser", ["userId"]) 
     .index("byUserAndCreatedAt", ["userId", "createdAt"]),
 
+  // One row per user, digest kind and period: the cron skips users that already have a row.
+  emailDigests: defineTable({
+    userId: v.id("users"),
+    kind: v.union(v.literal("weekly"), v.literal("review_updates")),
+    periodStart: v.number(),
+    periodEnd: v.number(),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("sent"),
+      v.literal("skipped"),
+      v.literal("failed"),
+    ),
+    itemCount: v.optional(v.number()),
+    transport: v.optional(v.string()),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    sentAt: v.optional(v.number()),
+  })
+    .index("byUserKindPeriod", ["userId", "kind", "periodStart"])
+    .index("byKindPeriod", ["kind", "periodStart"]),
+
   userSettings: defineTable({
     userId: v.id("users"),
     notifications: v.object({
@@ -868,15 +1111,24 @@ export default defineSchema({
     jobType: v.string(),
     compositionId: v.optional(v.id("compositions")),
     payload: v.any(),
-    status: v.string(),
+    status: v.string(), // queued | running | completed | failed
     progress: v.number(),
     error: v.optional(v.string()),
+    // Render worker lease (see convex/http/renderWorker.ts).
+    lockedBy: v.optional(v.string()),
+    lockedAt: v.optional(v.number()),
+    attempts: v.optional(v.number()),
+    maxAttempts: v.optional(v.number()),
+    // Upload target issued to the worker on claim.
+    outputStorageKey: v.optional(v.string()),
+    outputPublicUrl: v.optional(v.string()),
     startedAt: v.optional(v.number()),
     completedAt: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("byStatus", ["status"])
+    .index("byStatusUpdatedAt", ["status", "updatedAt"])
     .index("byType", ["jobType"]),
 
   // Named snapshots of a composition for a given base review (video)
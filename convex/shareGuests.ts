@@ -0,0 +1,104 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { internal } from "./_generated/api";
+import { resolveLinkShare } from "./utils/shareAccess";
+import { GUEST_SESSION_TTL_MS, generateSessionToken, getGuestSession } from "./utils/shareGuests";
+
+const PURGE_BATCH_SIZE = 500;
+
+const MAX_GUEST_NAME_LENGTH = 80;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const sanitizeGuest = (guest: any) => ({
+  id: guest._id,
+  shareId: guest.shareId,
+  name: guest.name,
+  email: guest.email,
+  expiresAt: guest.expiresAt,
+});
+
+/**
+ * Starts a named guest session on a share link that allows comments, for reviewers without an account.
+ * Password-protected and view-limited links must be opened first; pass the grant from `/api/share/open`.
+ */
+export const start = mutation({
+  args: {
+    token: v.string(),
+    grant: v.optional(v.string()),
+    name: v.string(),
+    email: v.string(),
+  },
+  async handler(ctx, { token, grant, name, email }) {
+    const resolved = await resolveLinkShare(ctx, token, grant);
+    if (!resolved) {
+      throw new ConvexError("SHARE_NOT_FOUND");
+    }
+    if (!resolved.unlocked) {
+      throw new ConvexError("SHARE_LOCKED");
+    }
+    const { share } = resolved;
+    if (!share.allowComments) {
+      throw new ConvexError("GUEST_COMMENTS_DISABLED");
+    }
+
+    const trimmedName = name.trim();
+    if (!trimmedName || trimmedName.length > MAX_GUEST_NAME_LENGTH) {
+      throw new ConvexError("INVALID_NAME");
+    }
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      throw new ConvexError("INVALID_EMAIL");
+    }
+
+    const now = Date.now();
+    const sessionToken = generateSessionToken();
+    const guestId = await ctx.db.insert("shareGuests", {
+      shareId: share._id,
+      name: trimmedName,
+      email: normalizedEmail,
+      sessionToken,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: Math.min(now + GUEST_SESSION_TTL_MS, share.expiresAt ?? Infinity),
+    });
+    const guest = await ctx.db.get(guestId);
+    return { guestToken: sessionToken, guest: sanitizeGuest(guest) };
+  },
+});
+
+/** The guest behind a session token, or null once the session or its link has ended. */
+export const current = query({
+  args: {
+    guestToken: v.optional(v.string()),
+  },
+  async handler(ctx, { guestToken }) {
+    const session = await getGuestSession(ctx, guestToken);
+    return session ? sanitizeGuest(session.guest) : null;
+  },
+});
+
+export const end = mutation({
+  args: {
+    guestToken: v.string(),
+  },
+  async handler(ctx, { guestToken }) {
+    const session = await getGuestSession(ctx, guestToken);
+    if (!session) return;
+    await ctx.db.patch(session.guest._id, { expiresAt: Date.now() });
+  },
+});
+
+/** Deletes guest rows whose session has ended; their notes fall back to "Guest" as the author. */
+export const purgeExpired = internalMutation({
+  args: {},
+  async handler(ctx) {
+    const expired = await ctx.db
+      .query("shareGuests")
+      .withIndex("byExpiresAt", (q) => q.lt("expiresAt", Date.now()))
+      .take(PURGE_BATCH_SIZE);
+    await Promise.all(expired.map((guest) => ctx.db.delete(guest._id)));
+    if (expired.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.shareGuests.purgeExpired, {});
+    }
+  },
+});
@@ -1,8 +1,23 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
 import { ConvexError, v } from "convex/values";
 import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
 import { api } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import {
+  MAX_SHARE_VIEWS,
+  constantTimeEqual,
+  generateSalt,
+  hashClientIp,
+  hashSharePassword,
+  isShareExpired,
+  resolveLinkShare,
+} from "./utils/shareAccess";
+import { deleteShareGuests } from "./utils/shareGuests";
+
+// Failed password attempts allowed per client (hashed IP) on a link inside the window before openLink
+// refuses further tries from that client; other visitors of the link are not locked out.
+const PASSWORD_ATTEMPT_LIMIT = 10;
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
 
 const sanitizeShare = (share: any) => ({
   id: share._id,
@@ -15,6 +30,10 @@ const sanitizeShare = (share: any) => ({
   isActive: share.isActive,
   createdAt: share.createdAt,
   expiresAt: share.expiresAt ?? null,
+  hasPassword: Boolean(share.passwordHash),
+  maxViews: share.maxViews ?? null,
+  viewCount: share.viewCount ?? 0,
+  revokedReason: share.revokedReason ?? null,
 });
 
 export const list = query({
@@ -234,12 +253,23 @@ export const generateLink = mutation({
     allowDownload: v.boolean(),
     allowComments: v.boolean(),
     expiresAt: v.optional(v.number()),
+    password: v.optional(v.string()),
+    maxViews: v.optional(v.number()),
   },
   async handler(ctx, args) {
     const user = await getCurrentUserOrThrow(ctx);
     if (!args.videoId && !args.projectId) {
       throw new ConvexError("ITEM_REQUIRED");
     }
+    const password = args.password?.trim() ? args.password : undefined;
+    if (
+      args.maxViews !== undefined &&
+      (!Number.isInteger(args.maxViews) || args.maxViews < 1 || args.maxViews > MAX_SHARE_VIEWS)
+    ) {
+      throw new ConvexError("INVALID_MAX_VIEWS");
+    }
+    const passwordSalt = password ? generateSalt() : undefined;
+    const passwordHash = password && passwordSalt ? await hashSharePassword(password, passwordSalt) : undefined;
 
     const now = Date.now();
     // First insert without a token, then use the generated document id as the stable token.
@@ -254,6 +284,10 @@ export const generateLink = mutation({
       isActive: true,
       createdAt: now,
       expiresAt: args.expiresAt,
+      passwordHash,
+      passwordSalt,
+      maxViews: args.maxViews,
+      viewCount: 0,
     });
 
     const token = shareId as unknown as string;
@@ -272,28 +306,163 @@ export const revoke = mutation({
     if (!share || share.ownerId !== user._id) {
       throw new ConvexError("SHARE_NOT_FOUND");
     }
-    await ctx.db.patch(shareId, { isActive: false });
+    await ctx.db.patch(shareId, { isActive: false, revokedReason: "manual" });
+    // A manual revoke is final, so the link's guests can't sign in again.
+    await deleteShareGuests(ctx, shareId);
   },
 });
 
+/**
+ * Share metadata for a link token. Password-protected and view-limited links come back `locked`,
+ * without the shared item ids, until the viewer passes the `grant` returned by `openLink`.
+ */
 export const resolveToken = query({
   args: {
     token: v.optional(v.string()),
+    grant: v.optional(v.string()),
   },
-  async handler(ctx, { token }) {
+  async handler(ctx, { token, grant }) {
     if (!token) return null;
+    const resolved = await resolveLinkShare(ctx, token, grant);
+    if (!resolved) {
+      return null;
+    }
+    const { share, unlocked } = resolved;
+    if (!unlocked) {
+      return {
+        id: share._id,
+        linkToken: share.linkToken ?? null,
+        videoId: null,
+        projectId: null,
+        locked: true as const,
+        requiresPassword: Boolean(share.passwordHash),
+        expiresAt: share.expiresAt ?? null,
+      };
+    }
+
+    return { ...sanitizeShare(share), locked: false as const, requiresPassword: Boolean(share.passwordHash) };
+  },
+});
+
+/**
+ * Counts one view of a link and hands back a grant for `resolveToken` / `videos.getByShareToken`.
+ * Called by the `/api/share/open` HTTP action, which supplies the client IP and user agent.
+ * Refusals are returned rather than thrown so the attempt still lands in the access log.
+ */
+export const openLink = internalMutation({
+  args: {
+    token: v.string(),
+    password: v.optional(v.string()),
+    ip: v.optional(v.string()),
+    userAgent: v.optional(v.string()),
+  },
+  async handler(ctx, { token, password, ip, userAgent }) {
     const share = await ctx.db
       .query("contentShares")
       .withIndex("byLinkToken", (q) => q.eq("linkToken", token))
       .unique();
-    if (!share || !share.isActive) {
-      return null;
+    const now = Date.now();
+    if (!share || isShareExpired(share, now) || (!share.isActive && share.revokedReason !== "view_limit")) {
+      return { ok: false as const, error: "SHARE_NOT_FOUND" };
     }
-    if (share.expiresAt && share.expiresAt < Date.now()) {
-      return null;
+
+    const user = await getCurrentUserDoc(ctx);
+    const ipHash = ip ? await hashClientIp(share._id, ip) : undefined;
+    const log = (outcome: "granted" | "password_required" | "invalid_password" | "limit_reached" | "rate_limited") =>
+      ctx.db.insert("shareAccessLogs", {
+        shareId: share._id,
+        createdAt: now,
+        outcome,
+        ipHash,
+        userAgent: userAgent?.slice(0, 512),
+        userId: user?._id,
+      });
+
+    const viewCount = share.viewCount ?? 0;
+    if (!share.isActive || (share.maxViews && viewCount >= share.maxViews)) {
+      await log("limit_reached");
+      return { ok: false as const, error: "VIEW_LIMIT_REACHED" };
+    }
+
+    if (share.passwordHash) {
+      if (!password) {
+        await log("password_required");
+        return { ok: false as const, error: "PASSWORD_REQUIRED" };
+      }
+      const recentFailures = await ctx.db
+        .query("shareAccessLogs")
+        .withIndex("byShareClient", (q) =>
+          q.eq("shareId", share._id).eq("ipHash", ipHash).gt("createdAt", now - PASSWORD_ATTEMPT_WINDOW_MS),
+        )
+        .filter((q) => q.eq(q.field("outcome"), "invalid_password"))
+        .collect();
+      if (recentFailures.length >= PASSWORD_ATTEMPT_LIMIT) {
+        await log("rate_limited");
+        return { ok: false as const, error: "TOO_MANY_ATTEMPTS" };
+      }
+      const hash = await hashSharePassword(password, share.passwordSalt ?? "");
+      if (!constantTimeEqual(hash, share.passwordHash)) {
+        await log("invalid_password");
+        return { ok: false as const, error: "INVALID_PASSWORD" };
+      }
     }
 
-    return sanitizeShare(share);
+    const nextCount = viewCount + 1;
+    const limitReached = Boolean(share.maxViews && nextCount >= share.maxViews);
+    await ctx.db.patch(share._id, {
+      viewCount: nextCount,
+      ...(limitReached ? { isActive: false, revokedReason: "view_limit" as const } : {}),
+    });
+    const grant = await log("granted");
+    return {
+      ok: true as const,
+      grant: grant as string,
+      remainingViews: share.maxViews ? Math.max(0, share.maxViews - nextCount) : null,
+    };
+  },
+});
+
+/**
+ * Access log of one of the caller's links, newest first.
+ */
+export const listAccessLogs = query({
+  args: {
+    shareId: v.id("contentShares"),
+    limit: v.optional(v.number()),
+  },
+  async handler(ctx, { shareId, limit }) {
+    const user = await getCurrentUserOrThrow(ctx);
+    const share = await ctx.db.get(shareId);
+    if (!share || share.ownerId !== user._id) {
+      throw new ConvexError("SHARE_NOT_FOUND");
+    }
+    const logs = await ctx.db
+      .query("shareAccessLogs")
+      .withIndex("byShare", (q) => q.eq("shareId", shareId))
+      .order("desc")
+      .take(Math.min(Math.max(1, limit ?? 50), 200));
+
+    const viewerCache = new Map<string, string | null>();
+    const entries = [];
+    for (const log of logs) {
+      let viewer: string | null = null;
+      if (log.userId) {
+        if (!viewerCache.has(log.userId)) {
+          const viewerDoc = await ctx.db.get(log.userId);
+          viewerCache.set(log.userId, viewerDoc ? viewerDoc.name ?? viewerDoc.email : null);
+        }
+        viewer = viewerCache.get(log.userId) ?? null;
+      }
+      entries.push({
+        id: log._id,
+        createdAt: log.createdAt,
+        outcome: log.outcome,
+        ipHash: log.ipHash ? log.ipHash.slice(0, 12) : null,
+        userAgent: log.userAgent ?? null,
+        viewer,
+      });
+    }
+    return entries;
   },
 });
 
@@ -322,6 +491,8 @@ export const videosSharedWithMe = query({
       width: video.width,
       height: video.height,
       fps: video.fps,
+      startTimecode: video.startTimecode ?? null,
+      dropFrame: video.dropFrame ?? null,
       duration: video.duration,
       projectId: video.projectId ?? null,
       uploadedAt: video.uploadedAt,
@@ -100,7 +100,7 @@ export const buildMentionPayload = query({
     if (!video || !comment) return null;
     const [project, author] = await Promise.all([
       video.projectId ? ctx.db.get(video.projectId) : Promise.resolve(null),
-      ctx.db.get(comment.authorId),
+      comment.authorId ? ctx.db.get(comment.authorId) : comment.guestId ? ctx.db.get(comment.guestId) : Promise.resolve(null),
     ]);
     return {
       connections: conns.map((row) => ({ accessToken: row.accessToken, slackUserId: row.slackUserId })),
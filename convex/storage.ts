@@ -4,13 +4,14 @@ import {
   action,
   internalAction,
 } from "./_generated/server";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
 import {
   S3Client,
   PutObjectCommand,
   GetObjectCommand,
   DeleteObjectCommand,
+  HeadObjectCommand,
   CreateMultipartUploadCommand,
   UploadPartCommand,
   CompleteMultipartUploadCommand,
@@ -172,7 +173,7 @@ const buildAvatarKey = (userId: string, fileName?: string) => {
 const buildAnnotationKey = (
   userId: string,
   videoId: string,
-  assetType: "image" | "video",
+  assetType: "image" | "video" | "file",
   fileName?: string,
 ) => {
   const safeFileName = fileName?.replace(/[^a-zA-Z0-9_.-]/g, "annotation");
@@ -180,9 +181,11 @@ const buildAnnotationKey = (
     ? safeFileName.slice(safeFileName.lastIndexOf("."))
     : assetType === "image"
       ? ".jpg"
-      : ".mp4";
+      : assetType === "video"
+        ? ".mp4"
+        : ".pdf";
   const safeVideoId = videoId.replace(/[^a-zA-Z0-9_-]/g, "");
-  const folder = assetType === "image" ? "images" : "videos";
+  const folder = assetType === "image" ? "images" : assetType === "video" ? "videos" : "files";
   return `video_review/users/${userId}/annotations/${safeVideoId}/${folder}/${Date.now()}-${randomUUID()}${extension}`;
 };
 
@@ -380,9 +383,12 @@ export const generateAnnotationAssetUploadUrl = action({
     contentType: v.string(),
     fileName: v.optional(v.string()),
     videoId: v.id("videos"),
-    assetType: v.union(v.literal("image"), v.literal("video")),
+    // "file" holds documents attached to comments (PDFs).
+    assetType: v.union(v.literal("image"), v.literal("video"), v.literal("file")),
+    // Signed into the URL with the content type, so the upload can't differ from what was announced.
+    contentLength: v.optional(v.number()),
   },
-  async handler(ctx, { contentType, fileName, videoId, assetType }) {
+  async handler(ctx, { contentType, fileName, videoId, assetType, contentLength }) {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) {
       throw new ConvexError("NOT_AUTHENTICATED");
@@ -399,10 +405,12 @@ export const generateAnnotationAssetUploadUrl = action({
       Bucket: BUCKET,
       Key: storageKey,
       ContentType: contentType,
+      ContentLength: contentLength,
     });
 
   const uploadUrl = await getSignedUrl(signingClient, command, {
     expiresIn: UPLOAD_TTL_SECONDS,
+    signableHeaders: new Set(contentLength === undefined ? ["content-type"] : ["content-type", "content-length"]),
   });
 
     return {
@@ -413,6 +421,69 @@ export const generateAnnotationAssetUploadUrl = action({
   },
 });
 
+// Reads what was actually uploaded for a comment's attachments; comments.applyAttachmentCheck
+// drops the ones that are missing or break the attachment limits.
+export const verifyCommentAttachments = internalAction({
+  args: {
+    commentId: v.id("comments"),
+    storageKeys: v.array(v.string()),
+  },
+  async handler(ctx, { commentId, storageKeys }) {
+    const objects = await Promise.all(
+      storageKeys.map(async (storageKey) => {
+        try {
+          const head = await s3Client.send(new HeadObjectCommand({ Bucket: BUCKET, Key: storageKey }));
+          return {
+            storageKey,
+            mimeType: head.ContentType ?? null,
+            size: head.ContentLength ?? null,
+          };
+        } catch (error: any) {
+          if (error?.name !== "NotFound" && error?.$metadata?.httpStatusCode !== 404) throw error;
+          return { storageKey, mimeType: null, size: null };
+        }
+      }),
+    );
+    await ctx.runMutation(internal.comments.applyAttachmentCheck, { commentId, objects });
+  },
+});
+
+const buildRenderOutputKey = (userId: string, compositionId: string, format: string) => {
+  const extension = format.includes("webm") ? ".webm" : format.includes("quicktime") ? ".mov" : ".mp4";
+  const safeCompositionId = sanitizePathSegment(compositionId);
+  return `video_review/users/${sanitizePathSegment(userId)}/renders/${safeCompositionId}/${Date.now()}-${randomUUID()}${extension}`;
+};
+
+// Signed URLs for a claimed render job: GET for every source, PUT for the output.
+export const signRenderJobUrls = internalAction({
+  args: {
+    ownerId: v.string(),
+    compositionId: v.string(),
+    format: v.string(),
+    sourceStorageKeys: v.array(v.string()),
+  },
+  async handler(_ctx, { ownerId, compositionId, format, sourceStorageKeys }) {
+    const storageKey = buildRenderOutputKey(ownerId, compositionId, format);
+    const uploadUrl = await getSignedUrl(
+      signingClient,
+      new PutObjectCommand({ Bucket: BUCKET, Key: storageKey, ContentType: format }),
+      { expiresIn: UPLOAD_TTL_SECONDS },
+    );
+    const sourceUrls: Record<string, string> = {};
+    for (const key of sourceStorageKeys) {
+      sourceUrls[key] = await getSignedUrl(
+        signingClient,
+        new GetObjectCommand({ Bucket: BUCKET, Key: key }),
+        { expiresIn: UPLOAD_TTL_SECONDS },
+      );
+    }
+    return {
+      output: { storageKey, uploadUrl, publicUrl: buildPublicUrl(storageKey), contentType: format },
+      sourceUrls,
+    };
+  },
+});
+
 export const deleteObject = internalAction({
   args: {
     storageKey: v.string(),
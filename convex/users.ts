@@ -3,6 +3,10 @@ import { ConvexError, v } from "convex/values";
 import { getCurrentUserDoc, getIdentityOrThrow, getCurrentUserOrThrow } from "./utils/auth";
 import { AvatarSource, effectiveAvatar, normalizeAvatarSource } from "./utils/avatar";
 import { internal } from "./_generated/api";
+import { deleteShareAccessLogs } from "./utils/shareAccess";
+import { deleteShareGuests } from "./utils/shareGuests";
+import { deleteComment } from "./utils/commentAttachments";
+import { deleteScopeBudget } from "./aiBudgets";
 
 const looksLikeUploadedAvatarUrl = (url: string) =>
   url.includes("/video_review/users/") && url.includes("/profile/avatar-");
@@ -498,9 +502,13 @@ export const deleteAccount = mutation({
           .query("assetUsages")
           .withIndex("byVideo", (q) => q.eq("videoId", video._id))
           .collect();
+        const waveforms = await ctx.db
+          .query("videoWaveforms")
+          .withIndex("byVideo", (q) => q.eq("videoId", video._id))
+          .collect();
 
         for (const row of annotations) await ctx.db.delete(row._id);
-        for (const row of comments) await ctx.db.delete(row._id);
+        for (const row of comments) await deleteComment(ctx, row);
         for (const row of videoShares) await ctx.db.delete(row._id);
         for (const row of revisions) {
           scheduleStorageDeleteByKey(row.storageKey);
@@ -508,6 +516,7 @@ export const deleteAccount = mutation({
           await ctx.db.delete(row._id);
         }
         for (const row of usages) await ctx.db.delete(row._id);
+        for (const row of waveforms) await ctx.db.delete(row._id);
 
         scheduleStorageDeleteByKey(video.storageKey);
         scheduleStorageDeleteByUrl(video.thumbnailUrl ?? null);
@@ -576,6 +585,7 @@ export const deleteAccount = mutation({
         for (const req of accessRequests) {
           await ctx.db.delete(req._id);
         }
+        await deleteScopeBudget(ctx, "board", board._id);
         await ctx.db.delete(board._id);
         counters.deletedBoards += 1;
       }
@@ -995,6 +1005,12 @@ export const deleteAccount = mutation({
       .collect();
     for (const row of settings) await ctx.db.delete(row._id);
 
+    const digests = await ctx.db
+      .query("emailDigests")
+      .withIndex("byUserKindPeriod", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const row of digests) await ctx.db.delete(row._id);
+
     const slackConnections = await ctx.db
       .query("slackConnections")
       .withIndex("byUser", (q) => q.eq("userId", user._id))
@@ -1111,6 +1127,8 @@ export const deleteAccount = mutation({
       .withIndex("byOwner", (q) => q.eq("ownerId", user._id))
       .collect();
     for (const share of myOwnedShares) {
+      await deleteShareAccessLogs(ctx, share._id);
+      await deleteShareGuests(ctx, share._id);
       await ctx.db.delete(share._id);
     }
 
@@ -1144,7 +1162,7 @@ export const deleteAccount = mutation({
     for (const comment of allComments) {
       if (comment.authorId === user._id) {
         removedCommentIds.add(comment._id as any);
-        await ctx.db.delete(comment._id);
+        await deleteComment(ctx, comment);
       }
     }
     for (const note of allNotifications) {
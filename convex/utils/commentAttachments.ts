@@ -0,0 +1,13 @@
+import { internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Deletes a comment row and schedules its uploaded attachments for removal from storage.
+ * Every path that deletes comments goes through here so no attachment is left behind.
+ */
+export async function deleteComment(ctx: any, comment: Doc<"comments">) {
+  await ctx.db.delete(comment._id);
+  for (const attachment of comment.attachments ?? []) {
+    await ctx.scheduler.runAfter(0, internal.storage.deleteObject, { storageKey: attachment.storageKey });
+  }
+}
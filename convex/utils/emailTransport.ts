@@ -0,0 +1,96 @@
+"use node";
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { ConvexError } from "convex/values";
+import type { EmailData } from "../../lib/email-templates";
+
+const DEFAULT_FROM = "Reffo <noreply@reffo.studio>";
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailData): Promise<void>;
+}
+
+const resendTransport = (): EmailTransport => {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    throw new ConvexError("Missing environment variable RESEND_API_KEY");
+  }
+  return {
+    name: "resend",
+    async send(message) {
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: message.from ?? process.env.EMAIL_FROM ?? DEFAULT_FROM,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(`Resend API error ${res.status}: ${(await res.text()).slice(0, 300)}`);
+      }
+    },
+  };
+};
+
+const toEml = (message: EmailData) => {
+  const boundary = `reffo-${randomUUID()}`;
+  const lines = [
+    `From: ${message.from ?? process.env.EMAIL_FROM ?? DEFAULT_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+  ];
+  if (message.text) {
+    lines.push(`--${boundary}`, "Content-Type: text/plain; charset=utf-8", "", message.text, "");
+  }
+  lines.push(`--${boundary}`, "Content-Type: text/html; charset=utf-8", "", message.html, "", `--${boundary}--`, "");
+  return lines.join("\r\n");
+};
+
+/**
+ * Local stand-in for an SMTP sink, enabled with EMAIL_TRANSPORT=file: every message lands as an
+ * `.eml` file in EMAIL_SINK_DIR, which any mail client opens directly.
+ */
+const fileTransport = (): EmailTransport => {
+  const dir = process.env.EMAIL_SINK_DIR ?? path.join("/tmp", "reffo-mail");
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-z0-9@._-]+/gi, "_");
+      await writeFile(path.join(dir, `${Date.now()}-${safeRecipient}.eml`), toEml(message), "utf8");
+    },
+  };
+};
+
+const EMAIL_TRANSPORTS: Record<string, () => EmailTransport> = {
+  resend: resendTransport,
+  file: fileTransport,
+};
+
+/**
+ * Transport picked by EMAIL_TRANSPORT. Resend is the default; the file sink is a dev-only
+ * opt-in (`EMAIL_TRANSPORT=file`), so a deployment missing RESEND_API_KEY fails loudly
+ * instead of reporting mail as sent.
+ */
+export function getEmailTransport(): EmailTransport {
+  const name = process.env.EMAIL_TRANSPORT ?? "resend";
+  const factory = EMAIL_TRANSPORTS[name];
+  if (!factory) {
+    throw new ConvexError(`Unknown EMAIL_TRANSPORT ${name}`);
+  }
+  return factory();
+}
@@ -0,0 +1,86 @@
+import type { Doc, Id } from "../_generated/dataModel";
+
+// A successful open of a protected link is good for one viewing session.
+export const SHARE_GRANT_TTL_MS = 12 * 60 * 60 * 1000;
+export const MAX_SHARE_VIEWS = 10_000;
+
+const PASSWORD_ITERATIONS = 100_000;
+const textEncoder = new TextEncoder();
+
+const toHex = (input: ArrayBuffer | Uint8Array) =>
+  Array.from(input instanceof Uint8Array ? input : new Uint8Array(input))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+export const generateSalt = () => toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+export const hashSharePassword = async (password: string, salt: string) => {
+  const key = await crypto.subtle.importKey("raw", textEncoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: textEncoder.encode(salt), iterations: PASSWORD_ITERATIONS },
+    key,
+    256,
+  );
+  return toHex(bits);
+};
+
+export const hashClientIp = async (shareId: Id<"contentShares">, ip: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", textEncoder.encode(`${shareId}:${ip}`));
+  return toHex(digest);
+};
+
+export const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
+/** Links with a password or a view limit only show content after `shares.openLink` grants access. */
+export const isShareGated = (share: Doc<"contentShares">) => Boolean(share.passwordHash || share.maxViews);
+
+export const isShareExpired = (share: Doc<"contentShares">, now = Date.now()) =>
+  Boolean(share.expiresAt && share.expiresAt < now);
+
+/**
+ * Whether `grant` (an access log id handed out by `shares.openLink`) still unlocks `share`.
+ */
+export async function hasValidGrant(ctx: any, share: Doc<"contentShares">, grant?: string | null) {
+  if (!grant) return false;
+  const logId = ctx.db.normalizeId("shareAccessLogs", grant);
+  if (!logId) return false;
+  const log = await ctx.db.get(logId);
+  return Boolean(
+    log &&
+      log.shareId === share._id &&
+      log.outcome === "granted" &&
+      log.createdAt + SHARE_GRANT_TTL_MS > Date.now(),
+  );
+}
+
+/**
+ * Looks up a link share by token and decides whether its content may be shown.
+ * Returns null for unknown, revoked or expired links. A link revoked because it hit its view
+ * limit stays open for viewers who already hold a grant, including the one who used the last view.
+ */
+export async function resolveLinkShare(ctx: any, token: string, grant?: string | null) {
+  const share: Doc<"contentShares"> | null = await ctx.db
+    .query("contentShares")
+    .withIndex("byLinkToken", (q: any) => q.eq("linkToken", token))
+    .unique();
+  if (!share || isShareExpired(share)) return null;
+  const granted = await hasValidGrant(ctx, share, grant);
+  if (!share.isActive && !(granted && share.revokedReason === "view_limit")) return null;
+  return { share, unlocked: granted || !isShareGated(share) };
+}
+
+/** Removes a share's access log; call alongside deleting the share row. */
+export async function deleteShareAccessLogs(ctx: any, shareId: Id<"contentShares">) {
+  const logs = await ctx.db
+    .query("shareAccessLogs")
+    .withIndex("byShare", (q: any) => q.eq("shareId", shareId))
+    .collect();
+  await Promise.all(logs.map((log: Doc<"shareAccessLogs">) => ctx.db.delete(log._id)));
+}
@@ -0,0 +1,78 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import { effectiveAvatar } from "./avatar";
+import { isShareExpired } from "./shareAccess";
+
+export const GUEST_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const generateSessionToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+export type GuestSession = { guest: Doc<"shareGuests">; share: Doc<"contentShares"> };
+
+/**
+ * Resolves a guest session token to the guest and the link it was issued for.
+ * Sessions end with their link: a manual revoke or expiry signs every guest out.
+ */
+export async function getGuestSession(ctx: any, guestToken?: string | null): Promise<GuestSession | null> {
+  if (!guestToken) return null;
+  const guest: Doc<"shareGuests"> | null = await ctx.db
+    .query("shareGuests")
+    .withIndex("bySessionToken", (q: any) => q.eq("sessionToken", guestToken))
+    .unique();
+  if (!guest || guest.expiresAt < Date.now()) return null;
+  const share: Doc<"contentShares"> | null = await ctx.db.get(guest.shareId);
+  if (!share || isShareExpired(share)) return null;
+  if (!share.isActive && share.revokedReason !== "view_limit") return null;
+  return { guest, share };
+}
+
+/** Removes a share's guests; call alongside deleting the share row. */
+export async function deleteShareGuests(ctx: any, shareId: Id<"contentShares">) {
+  const guests = await ctx.db
+    .query("shareGuests")
+    .withIndex("byShare", (q: any) => q.eq("shareId", shareId))
+    .collect();
+  await Promise.all(guests.map((guest: Doc<"shareGuests">) => ctx.db.delete(guest._id)));
+}
+
+/** Whether the link behind a guest session covers `videoId` (directly or through its project). */
+export async function guestCanViewVideo(ctx: any, session: GuestSession, videoId: Id<"videos">) {
+  if (session.share.videoId) return session.share.videoId === videoId;
+  if (!session.share.projectId) return false;
+  const video = await ctx.db.get(videoId);
+  return Boolean(video && video.projectId === session.share.projectId);
+}
+
+export async function guestCanCommentOnVideo(ctx: any, session: GuestSession, videoId: Id<"videos">) {
+  return session.share.allowComments && (await guestCanViewVideo(ctx, session, videoId));
+}
+
+/**
+ * Display info for the author of a comment or annotation, cached per call site.
+ * Guest rows report the guest id as `authorId` so clients can match their own notes.
+ */
+export function createNoteAuthorResolver(ctx: any) {
+  const cache = new Map<string, { authorId: string; name: string; avatar: string | null; isGuest: boolean }>();
+  return async (row: { authorId?: Id<"users">; guestId?: Id<"shareGuests"> }) => {
+    const key = (row.authorId ?? row.guestId ?? "") as string;
+    const cached = cache.get(key);
+    if (cached) return cached;
+    let author: { authorId: string; name: string; avatar: string | null; isGuest: boolean };
+    if (row.guestId) {
+      const guest = await ctx.db.get(row.guestId);
+      author = { authorId: row.guestId, name: guest?.name ?? "Guest", avatar: null, isGuest: true };
+    } else {
+      const userDoc = row.authorId ? await ctx.db.get(row.authorId) : null;
+      author = {
+        authorId: key,
+        name: userDoc?.name ?? userDoc?.email ?? "Anonymous",
+        avatar: effectiveAvatar(userDoc),
+        isGuest: false,
+      };
+    }
+    cache.set(key, author);
+    return author;
+  };
+}
@@ -0,0 +1,150 @@
+import { ConvexError, v, type Infer } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+
+// Membership rule of a smart collection. Every field that is set must match (AND);
+// inside `types` and `tags` (with tagMatch "any") a single hit is enough.
+export const smartCollectionRuleValidator = v.object({
+  types: v.optional(v.array(v.string())),
+  tags: v.optional(v.array(v.string())),
+  tagMatch: v.optional(v.union(v.literal("any"), v.literal("all"))),
+  color: v.optional(
+    v.object({
+      hex: v.string(),
+      // Euclidean RGB distance (0-441) to the closest dominant color.
+      maxDistance: v.number(),
+    }),
+  ),
+  orientation: v.optional(v.union(v.literal("landscape"), v.literal("portrait"), v.literal("square"))),
+  minDurationSeconds: v.optional(v.number()),
+  maxDurationSeconds: v.optional(v.number()),
+  createdAfter: v.optional(v.number()),
+  createdBefore: v.optional(v.number()),
+  text: v.optional(v.string()),
+});
+
+export type SmartCollectionRule = Infer<typeof smartCollectionRuleValidator>;
+
+// Rules are evaluated at read time, so membership follows asset analysis live. Past these caps
+// the newest matches win.
+const MAX_SCANNED_ASSETS = 2000;
+const MAX_TEXT_MATCHES = 256;
+// Aspect ratios within this distance of 1 count as square.
+const SQUARE_TOLERANCE = 0.05;
+
+const parseHex = (hex: string) => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255] as const;
+};
+
+const colorDistance = (a: readonly number[], b: readonly number[]) =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+const assetTags = (asset: Doc<"assets">) =>
+  new Set(
+    [
+      ...(asset.userTokens ?? []),
+      ...(asset.tokens ?? []),
+      ...(asset.aiTokensI18n?.it ?? []),
+      ...(asset.aiTokensI18n?.en ?? []),
+    ].map(normalizeTag),
+  );
+
+const assetOrientation = (asset: Doc<"assets">) => {
+  const ratio = asset.aspectRatio ?? (asset.width && asset.height ? asset.width / asset.height : undefined);
+  if (!ratio) return null;
+  if (Math.abs(ratio - 1) <= SQUARE_TOLERANCE) return "square";
+  return ratio > 1 ? "landscape" : "portrait";
+};
+
+/** Trims the rule and drops empty criteria; a rule with no criteria left is rejected. */
+export function normalizeSmartCollectionRule(rule: SmartCollectionRule): SmartCollectionRule {
+  const types = (rule.types ?? []).map((type) => type.trim()).filter(Boolean);
+  const tags = Array.from(new Set((rule.tags ?? []).map(normalizeTag).filter(Boolean)));
+  const text = rule.text?.trim();
+  if (rule.color && !parseHex(rule.color.hex)) {
+    throw new ConvexError("INVALID_RULE_COLOR");
+  }
+  const normalized: SmartCollectionRule = {
+    types: types.length ? types : undefined,
+    tags: tags.length ? tags : undefined,
+    tagMatch: tags.length ? rule.tagMatch ?? "any" : undefined,
+    color: rule.color
+      ? { hex: rule.color.hex.trim().toLowerCase(), maxDistance: Math.max(0, Math.min(441, rule.color.maxDistance)) }
+      : undefined,
+    orientation: rule.orientation,
+    minDurationSeconds: rule.minDurationSeconds,
+    maxDurationSeconds: rule.maxDurationSeconds,
+    createdAfter: rule.createdAfter,
+    createdBefore: rule.createdBefore,
+    text: text || undefined,
+  };
+  if (Object.values(normalized).every((value) => value === undefined)) {
+    throw new ConvexError("EMPTY_RULE");
+  }
+  return normalized;
+}
+
+export function assetMatchesSmartRule(asset: Doc<"assets">, rule: SmartCollectionRule) {
+  if (rule.types?.length && !rule.types.includes(asset.type)) return false;
+  if (rule.tags?.length) {
+    const tags = assetTags(asset);
+    const hits = rule.tags.filter((tag) => tags.has(tag)).length;
+    if (rule.tagMatch === "all" ? hits < rule.tags.length : hits === 0) return false;
+  }
+  if (rule.color) {
+    const target = parseHex(rule.color.hex);
+    const colors = (asset.dominantColors ?? []).map(parseHex).filter(Boolean) as (readonly number[])[];
+    if (!target || !colors.some((color) => colorDistance(color, target) <= rule.color!.maxDistance)) return false;
+  }
+  if (rule.orientation && assetOrientation(asset) !== rule.orientation) return false;
+  if (rule.minDurationSeconds !== undefined || rule.maxDurationSeconds !== undefined) {
+    const duration = asset.durationSeconds;
+    if (duration === undefined) return false;
+    if (rule.minDurationSeconds !== undefined && duration < rule.minDurationSeconds) return false;
+    if (rule.maxDurationSeconds !== undefined && duration > rule.maxDurationSeconds) return false;
+  }
+  if (rule.createdAfter !== undefined && asset.createdAt < rule.createdAfter) return false;
+  if (rule.createdBefore !== undefined && asset.createdAt >= rule.createdBefore) return false;
+  return true;
+}
+
+/**
+ * Assets of `ownerId` matching the rule, newest first. Text rules go through the full-text
+ * search index (ranked by relevance); everything else scans the owner's library.
+ */
+export async function querySmartCollectionAssets(
+  ctx: any,
+  ownerId: Id<"users">,
+  rule: SmartCollectionRule,
+  limit?: number,
+): Promise<Doc<"assets">[]> {
+  const singleType = rule.types?.length === 1 ? rule.types[0] : undefined;
+  let candidates: Doc<"assets">[];
+  if (rule.text) {
+    candidates = await ctx.db
+      .query("assets")
+      .withSearchIndex("search_assets_full", (s: any) => {
+        const search = s.search("searchText", rule.text).eq("userId", ownerId);
+        return singleType ? search.eq("type", singleType) : search;
+      })
+      .take(MAX_TEXT_MATCHES);
+  } else if (singleType) {
+    candidates = await ctx.db
+      .query("assets")
+      .withIndex("byUserType", (q: any) => q.eq("userId", ownerId).eq("type", singleType))
+      .order("desc")
+      .take(MAX_SCANNED_ASSETS);
+  } else {
+    candidates = await ctx.db
+      .query("assets")
+      .withIndex("byUser", (q: any) => q.eq("userId", ownerId))
+      .order("desc")
+      .take(MAX_SCANNED_ASSETS);
+  }
+  const matches = candidates.filter((asset) => assetMatchesSmartRule(asset, rule));
+  return limit === undefined ? matches : matches.slice(0, limit);
+}
@@ -0,0 +1,42 @@
+import type { Doc, Id } from "../_generated/dataModel";
+
+/** Owner, or a member of a group the video (or its project) is shared with. */
+export async function isVideoMember(ctx: any, userId: Id<"users">, videoId: Id<"videos">) {
+  const video: Doc<"videos"> | null = await ctx.db.get(videoId);
+  if (!video) return false;
+  if (video.ownerId === userId) return true;
+  const user: Doc<"users"> | null = await ctx.db.get(userId);
+  if (!user) return false;
+  const shares: Doc<"contentShares">[] = await ctx.db
+    .query("contentShares")
+    .withIndex("byVideo", (q: any) => q.eq("videoId", videoId))
+    .collect();
+  if (video.projectId) {
+    const projectShares: Doc<"contentShares">[] = await ctx.db
+      .query("contentShares")
+      .withIndex("byProject", (q: any) => q.eq("projectId", video.projectId))
+      .collect();
+    shares.push(...projectShares);
+  }
+  for (const share of shares) {
+    if (!share.groupId) continue;
+    const members: Doc<"shareGroupMembers">[] = await ctx.db
+      .query("shareGroupMembers")
+      .withIndex("byGroup", (q: any) => q.eq("groupId", share.groupId))
+      .collect();
+    if (members.some((member) => member.email === user.email)) return true;
+  }
+  return false;
+}
+
+/** Members, plus any signed-in user while the video has an active share link. */
+export async function canViewVideo(ctx: any, userId: Id<"users">, videoId: Id<"videos">) {
+  if (await isVideoMember(ctx, userId, videoId)) return true;
+  const user: Doc<"users"> | null = await ctx.db.get(userId);
+  if (!user) return false;
+  const videoShares: Doc<"contentShares">[] = await ctx.db
+    .query("contentShares")
+    .withIndex("byVideo", (q: any) => q.eq("videoId", videoId))
+    .collect();
+  return videoShares.some((share) => Boolean(share.linkToken) && share.isActive);
+}
@@ -0,0 +1,21 @@
+import { ConvexError } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Resolves one of a video's uploaded sources: the current one, or a replaced one recorded as a revision.
+ * Notes, decisions and waveforms are tied to the source they were made on; no storageKey means the current one.
+ */
+export async function resolveVideoSource(ctx: any, videoId: Id<"videos">, storageKey?: string) {
+  const video: Doc<"videos"> | null = await ctx.db.get(videoId);
+  if (!video) throw new ConvexError("NOT_FOUND");
+  const key = storageKey ?? video.storageKey;
+  const revision: Doc<"videoRevisions"> | null = await ctx.db
+    .query("videoRevisions")
+    .withIndex("byVideo", (q: any) => q.eq("videoId", videoId))
+    .filter((q: any) => q.eq(q.field("storageKey"), key))
+    .first();
+  if (key !== video.storageKey && !revision) {
+    throw new ConvexError("REVISION_NOT_FOUND");
+  }
+  return { video, storageKey: key as string, revisionId: revision?._id };
+}
@@ -3,6 +3,9 @@ import { ConvexError, v } from "convex/values";
 import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
 import { api, internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import { deleteShareAccessLogs, resolveLinkShare } from "./utils/shareAccess";
+import { deleteShareGuests } from "./utils/shareGuests";
+import { deleteComment } from "./utils/commentAttachments";
 
 async function canViewVideo(ctx: any, userId: Id<'users'>, videoId: Id<'videos'>) {
   const video = await ctx.db.get(videoId);
@@ -72,6 +75,8 @@ export const list = query({
       width: video.width,
       height: video.height,
       fps: video.fps,
+      startTimecode: video.startTimecode ?? null,
+      dropFrame: video.dropFrame ?? null,
       duration: video.duration,
       projectId: video.projectId ?? null,
       uploadedAt: video.uploadedAt,
@@ -102,6 +107,8 @@ export const get = query({
       width: video.width,
       height: video.height,
       fps: video.fps,
+      startTimecode: video.startTimecode ?? null,
+      dropFrame: video.dropFrame ?? null,
       duration: video.duration,
       projectId: video.projectId ?? null,
       uploadedAt: video.uploadedAt,
@@ -114,16 +121,18 @@ export const get = query({
 export const getByShareToken = query({
   args: {
     token: v.optional(v.string()),
+    grant: v.optional(v.string()),
   },
-  async handler(ctx, { token }) {
+  async handler(ctx, { token, grant }) {
     if (!token) return null as any;
-    const share = await ctx.db
-      .query("contentShares")
-      .withIndex("byLinkToken", (q) => q.eq("linkToken", token))
-      .unique();
-    if (!share || !share.isActive || (share.expiresAt && share.expiresAt < Date.now())) {
+    const resolved = await resolveLinkShare(ctx, token, grant);
+    if (!resolved) {
       throw new ConvexError("SHARE_NOT_FOUND");
     }
+    if (!resolved.unlocked) {
+      throw new ConvexError("SHARE_LOCKED");
+    }
+    const { share } = resolved;
     if (!share.videoId) {
       throw new ConvexError("NOT_A_VIDEO_LINK");
     }
@@ -141,6 +150,8 @@ export const getByShareToken = query({
       width: video.width,
       height: video.height,
       fps: video.fps,
+      startTimecode: video.startTimecode ?? null,
+      dropFrame: video.dropFrame ?? null,
       duration: video.duration,
       projectId: video.projectId ?? null,
       uploadedAt: video.uploadedAt,
@@ -235,6 +246,8 @@ export const completeUpload = mutation({
       width: video.width,
       height: video.height,
       fps: video.fps,
+      startTimecode: video.startTimecode ?? null,
+      dropFrame: video.dropFrame ?? null,
       duration: video.duration,
       projectId: video.projectId ?? null,
       uploadedAt: video.uploadedAt,
@@ -361,6 +374,38 @@ export const updateMetadata = mutation({
   },
 });
 
+const TIMECODE_RE = /^(\d{2}):([0-5]\d):([0-5]\d)[:;](\d{2,3})$/;
+
+export const updateTimecodeSettings = mutation({
+  args: {
+    videoId: v.id("videos"),
+    startTimecode: v.optional(v.union(v.string(), v.null())),
+    dropFrame: v.optional(v.union(v.boolean(), v.null())),
+  },
+  async handler(ctx, { videoId, startTimecode, dropFrame }) {
+    const user = await getCurrentUserOrThrow(ctx);
+    const video = await ctx.db.get(videoId);
+    if (!video || video.ownerId !== user._id) throw new ConvexError("NOT_FOUND");
+
+    const patch: { startTimecode?: string; dropFrame?: boolean } = {};
+    if (startTimecode !== undefined) {
+      const trimmed = startTimecode?.trim() ?? "";
+      if (trimmed && !TIMECODE_RE.test(trimmed)) {
+        throw new ConvexError("INVALID_TIMECODE");
+      }
+      patch.startTimecode = trimmed || undefined;
+    }
+    if (dropFrame !== undefined) {
+      patch.dropFrame = dropFrame ?? undefined;
+    }
+    await ctx.db.patch(videoId, patch);
+    return {
+      startTimecode: startTimecode !== undefined ? patch.startTimecode ?? null : video.startTimecode ?? null,
+      dropFrame: dropFrame !== undefined ? patch.dropFrame ?? null : video.dropFrame ?? null,
+    };
+  },
+});
+
 export const listRevisions = query({
   args: { videoId: v.id('videos') },
   async handler(ctx, { videoId }) {
@@ -458,6 +503,17 @@ export const deleteRevision = mutation({
     } catch (_) {
       // ignore scheduling errors
     }
+    // By source rather than revisionId: decisions made while this upload was current carry no revisionId.
+    const approvals = await ctx.db
+      .query('videoApprovals')
+      .withIndex('byVideoAndStorageKey', (q) => q.eq('videoId', rev.videoId).eq('storageKey', rev.storageKey))
+      .collect();
+    await Promise.all(approvals.map((a) => ctx.db.delete(a._id)));
+    const waveforms = await ctx.db
+      .query('videoWaveforms')
+      .withIndex('byVideoAndStorageKey', (q) => q.eq('videoId', rev.videoId).eq('storageKey', rev.storageKey))
+      .collect();
+    await Promise.all(waveforms.map((w) => ctx.db.delete(w._id)));
     await ctx.db.delete(revisionId);
     return { ok: true };
   }
@@ -486,11 +542,23 @@ export const remove = mutation({
       .query("contentShares")
       .withIndex("byVideo", (q) => q.eq("videoId", videoId))
       .collect();
+    const approvals = await ctx.db
+      .query("videoApprovals")
+      .withIndex("byVideo", (q) => q.eq("videoId", videoId))
+      .collect();
+    const waveforms = await ctx.db
+      .query("videoWaveforms")
+      .withIndex("byVideo", (q) => q.eq("videoId", videoId))
+      .collect();
 
     await Promise.all([
       ...annotations.map((a) => ctx.db.delete(a._id)),
-      ...comments.map((c) => ctx.db.delete(c._id)),
+      ...comments.map((c) => deleteComment(ctx, c)),
       ...shares.map((s) => ctx.db.delete(s._id)),
+      ...shares.map((s) => deleteShareAccessLogs(ctx, s._id)),
+      ...shares.map((s) => deleteShareGuests(ctx, s._id)),
+      ...approvals.map((a) => ctx.db.delete(a._id)),
+      ...waveforms.map((w) => ctx.db.delete(w._id)),
     ]);
 
     await ctx.db.delete(videoId);
@@ -0,0 +1,98 @@
+import { mutation, query } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { getCurrentUserDoc, getCurrentUserOrThrow } from "./utils/auth";
+import { canViewVideo, isVideoMember } from "./utils/videoAccess";
+import { resolveVideoSource } from "./utils/videoSources";
+
+// Keeps a row well under the document size limit (base64 adds a third).
+const MAX_WAVEFORM_PEAKS = 360_000;
+const MAX_PEAKS_PER_SECOND = 200;
+
+const waveformSourceValidator = v.object({
+  videoId: v.id("videos"),
+  storageKey: v.optional(v.string()),
+});
+
+export const getForSources = query({
+  args: {
+    sources: v.array(waveformSourceValidator),
+  },
+  async handler(ctx, { sources }) {
+    const user = await getCurrentUserDoc(ctx);
+    if (!user) return [];
+
+    const results = [];
+    for (const source of sources) {
+      if (!(await canViewVideo(ctx, user._id, source.videoId))) continue;
+      const video = await ctx.db.get(source.videoId);
+      if (!video) continue;
+      const storageKey = source.storageKey ?? video.storageKey;
+      const row = await ctx.db
+        .query("videoWaveforms")
+        .withIndex("byVideoAndStorageKey", (q) => q.eq("videoId", source.videoId).eq("storageKey", storageKey))
+        .first();
+      results.push({
+        videoId: source.videoId,
+        storageKey,
+        canSave: !row && (await isVideoMember(ctx, user._id, source.videoId)),
+        waveform: row
+          ? {
+              peaksPerSecond: row.peaksPerSecond,
+              peaks: row.peaks,
+              duration: row.duration,
+              hasAudio: row.hasAudio,
+            }
+          : null,
+      });
+    }
+    return results;
+  },
+});
+
+export const save = mutation({
+  args: {
+    videoId: v.id("videos"),
+    storageKey: v.optional(v.string()),
+    peaksPerSecond: v.number(),
+    peaks: v.string(),
+    duration: v.number(),
+    hasAudio: v.boolean(),
+  },
+  async handler(ctx, args) {
+    const user = await getCurrentUserOrThrow(ctx);
+    // Link viewers can read the cached waveform, but only members may write it.
+    if (!(await isVideoMember(ctx, user._id, args.videoId))) {
+      throw new ConvexError("FORBIDDEN");
+    }
+    const source = await resolveVideoSource(ctx, args.videoId, args.storageKey);
+
+    // Computed once per source: a concurrent viewer may have saved it first.
+    const existing = await ctx.db
+      .query("videoWaveforms")
+      .withIndex("byVideoAndStorageKey", (q) => q.eq("videoId", args.videoId).eq("storageKey", source.storageKey))
+      .first();
+    if (existing) return existing._id;
+
+    if (!Number.isFinite(args.peaksPerSecond) || args.peaksPerSecond <= 0 || args.peaksPerSecond > MAX_PEAKS_PER_SECOND) {
+      throw new ConvexError("INVALID_WAVEFORM");
+    }
+    if (!Number.isFinite(args.duration) || args.duration < 0) {
+      throw new ConvexError("INVALID_WAVEFORM");
+    }
+    if (args.peaks.length > Math.ceil(MAX_WAVEFORM_PEAKS / 3) * 4) {
+      throw new ConvexError("WAVEFORM_TOO_LARGE");
+    }
+
+    return await ctx.db.insert("videoWaveforms", {
+      videoId: args.videoId,
+      revisionId: source.revisionId,
+      storageKey: source.storageKey,
+      peaksPerSecond: args.peaksPerSecond,
+      peaks: args.peaks,
+      duration: args.duration,
+      hasAudio: args.hasAudio,
+      createdBy: user._id,
+      createdAt: Date.now(),
+    });
+  },
+});
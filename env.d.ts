@@ -1,3 +1,5 @@
+/// <reference types="vite/client" />
+
 declare module '*.svg' {
   const src: string;
   export default src;
@@ -0,0 +1,75 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { computeWaveform, decodeWaveform, type DecodedWaveform } from "@/utils/waveform";
+
+export type WaveformSource = {
+  videoId: Id<"videos">;
+  storageKey?: string;
+};
+
+// decodeAudioData needs the whole file in memory; skip sources larger than this.
+const MAX_SOURCE_BYTES = 300 * 1024 * 1024;
+
+/**
+ * Waveforms for a set of sources, keyed by videoId.
+ * Missing waveforms are computed in the browser (one source at a time) and saved by members,
+ * so every later viewer gets them straight from the query.
+ */
+export const useVideoWaveforms = (sources: WaveformSource[]) => {
+  const sourcesKey = sources.map((s) => `${s.videoId}:${s.storageKey ?? ""}`).join("|");
+  const args = useMemo(
+    () => (sources.length > 0 ? { sources: sources.map((s) => ({ videoId: s.videoId, storageKey: s.storageKey })) } : "skip" as const),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [sourcesKey],
+  );
+  const rows = useQuery(api.waveforms.getForSources, args);
+  const getDownloadUrl = useAction(api.storage.getDownloadUrl);
+  const saveWaveform = useMutation(api.waveforms.save);
+  const attempted = useRef(new Set<string>());
+  const busy = useRef(false);
+  // Bumped after each attempt so the next pending source is picked up even if nothing was saved.
+  const [attempts, setAttempts] = useState(0);
+
+  const waveforms = useMemo(() => {
+    const map: Record<string, DecodedWaveform> = {};
+    for (const row of rows ?? []) {
+      if (row.waveform) map[row.videoId] = decodeWaveform(row.waveform);
+    }
+    return map;
+  }, [rows]);
+
+  useEffect(() => {
+    if (!rows || busy.current) return;
+    const pending = rows.find(
+      (row) => !row.waveform && row.canSave && !attempted.current.has(`${row.videoId}:${row.storageKey}`),
+    );
+    if (!pending) return;
+    attempted.current.add(`${pending.videoId}:${pending.storageKey}`);
+    busy.current = true;
+
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const url = await getDownloadUrl({ storageKey: pending.storageKey });
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok) throw new Error(`Waveform source fetch failed (${response.status})`);
+        const size = Number(response.headers.get("content-length") ?? 0);
+        if (size > MAX_SOURCE_BYTES) {
+          controller.abort();
+          return;
+        }
+        const data = await computeWaveform(await response.arrayBuffer());
+        await saveWaveform({ videoId: pending.videoId, storageKey: pending.storageKey, ...data });
+      } catch (error) {
+        if (!controller.signal.aborted) console.warn("Waveform generation failed", error);
+      } finally {
+        busy.current = false;
+        setAttempts((n) => n + 1);
+      }
+    })();
+  }, [rows, attempts, getDownloadUrl, saveWaveform]);
+
+  return waveforms;
+};
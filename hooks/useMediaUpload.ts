@@ -10,10 +10,12 @@ import {
   ImageLayer, 
   VideoLayer,
   FileLayer,
+  TableLayer,
   Camera,
   Point 
 } from "@/types/canvas";
 import { Id } from "@/convex/_generated/dataModel";
+import type { ImportedTable } from "@/utils/tableSpreadsheet";
 
 interface UseMediaUploadOptions {
   boardId: string;
@@ -242,6 +244,46 @@ export const useMediaUpload = ({ boardId, camera }: UseMediaUploadOptions) => {
     [camera]
   );
 
+  // Inserisce una tabella importata da CSV/XLSX al centro della vista
+  const insertTableLayerAtViewCenter = useCanvasMutation(
+    ({ storage, setMyPresence }, table: ImportedTable) => {
+      const liveLayers = storage.get("layers");
+      const liveLayerIds = storage.get("layerIds");
+
+      const layerId = nanoid();
+      const centerPoint = getCameraViewCenter(camera);
+
+      // Stesse misure minime della tabella inserita dalla toolbar (numeri riga + colonna azioni)
+      const width = Math.max(960, table.columns.reduce((acc, column) => acc + column.width, 0) + 64 + 56);
+      const height = 44 + 46 + 40 + Math.min(table.rows.length, 12) * 46;
+
+      const tableLayer: TableLayer = {
+        type: LayerType.Table,
+        x: centerPoint.x - width / 2,
+        y: centerPoint.y - height / 2,
+        width,
+        height,
+        fill: { r: 255, g: 255, b: 255 },
+        title: table.title,
+        columns: table.columns,
+        rows: table.rows,
+        borderColor: { r: 226, g: 232, b: 240 },
+        borderWidth: 1,
+        headerColor: { r: 248, g: 250, b: 252 },
+        alternateRowColors: true,
+        showRowNumbers: true,
+        opacity: 1,
+      };
+
+      liveLayerIds.push(layerId);
+      liveLayers.set(layerId, new LiveObject(tableLayer));
+      setMyPresence({ selection: [layerId] }, { addToHistory: true });
+
+      return layerId;
+    },
+    [camera]
+  );
+
   // Handler chiamato quando il componente UploadOverlay completa un upload
   const handleMediaUploaded = useCallback(async (type: "image" | "video", url: string, previewUrl?: string) => {
     try {
@@ -271,6 +313,7 @@ export const useMediaUpload = ({ boardId, camera }: UseMediaUploadOptions) => {
     handleMediaUploaded,
     insertMediaLayerAtViewCenter,
     insertFileLayerAtViewCenter,
+    insertTableLayerAtViewCenter,
     handleFileUploaded
   };
 }; 
@@ -0,0 +1,821 @@
+import getStroke from "perfect-freehand";
+
+import {
+  colorToCSS,
+  getContrastingTextColor,
+  getSvgPathFromStroke,
+  isLayerOverlappingFrame,
+  sortLayersForRendering,
+} from "@/lib/utils";
+import {
+  LayerType,
+  TableColumnType,
+  type ArrowLayer,
+  type Color,
+  type EllipseLayer,
+  type FrameLayer,
+  type ImageLayer,
+  type Layer,
+  type LineLayer,
+  type NoteLayer,
+  type PathLayer,
+  type RectangleLayer,
+  type TableLayer,
+  type TextLayer,
+  type TodoWidgetLayer,
+  type VideoLayer,
+  type XYWH,
+} from "@/types/canvas";
+import { computeTableFormulas, filterTableRows, formatTableValue, sortTableRows, tableFormulaResult } from "@/utils/tableView";
+
+/**
+ * Board export: renders the Liveblocks `layers` straight to SVG markup (no DOM snapshot),
+ * then rasterizes that SVG for PNG and for PDF pages (one page per frame).
+ */
+
+export type BoardExportFormat = "png" | "svg" | "pdf";
+
+export type BoardExportSource = {
+  layers: ReadonlyMap<string, Layer>;
+  layerIds: readonly string[];
+  backgroundColor?: string;
+};
+
+export type BoardExportFrame = {
+  id: string;
+  title: string;
+  bounds: XYWH;
+};
+
+export const BOARD_EXPORT_SCALES = [1, 2, 3, 4] as const;
+
+const BOARD_EXPORT_PADDING = 48;
+// Browsers refuse canvases past ~16k px per side (Safari caps the area much lower).
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 * 0.25;
+const ASSET_FETCH_TIMEOUT_MS = 12000;
+const FONT_STACK = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, Helvetica, Arial";
+
+const NOTE_RADIUS = 22;
+const NOTE_PADDING = 16;
+const NOTE_FOOTER_HEIGHT = 26;
+const TEXT_PADDING = 12;
+const TABLE_TITLE_HEIGHT = 44;
+const TABLE_HEADER_HEIGHT = 46;
+const TABLE_ROW_HEIGHT = 46;
+const TABLE_IMAGE_ROW_HEIGHT = 96;
+const TODO_TITLE_HEIGHT = 48;
+const TODO_GROUP_HEIGHT = 30;
+const TODO_TASK_HEIGHT = 28;
+
+type AssetMap = ReadonlyMap<string, string | null>;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const num = (value: number) => (Number.isFinite(value) ? Math.round(value * 100) / 100 : 0);
+
+const mixColor = (color: Color, target: Color, amount: number): Color => ({
+  r: Math.round(color.r + (target.r - color.r) * amount),
+  g: Math.round(color.g + (target.g - color.g) * amount),
+  b: Math.round(color.b + (target.b - color.b) * amount),
+});
+
+const toPlainText = (value: string | undefined) => {
+  if (!value) return "";
+  const withBreaks = value.replace(/<br\s*\/?>/gi, "\n").replace(/<\/(p|div|li)>/gi, "\n");
+  let text: string;
+  if (typeof DOMParser !== "undefined") {
+    text = new DOMParser().parseFromString(withBreaks, "text/html").body.textContent || "";
+  } else {
+    text = withBreaks.replace(/<[^>]+>/g, " ");
+  }
+  return text.replace(/\u00A0/g, " ").replace(/\r\n?/g, "\n").replace(/\t/g, " ").replace(/\n+$/, "");
+};
+
+const wrapText = (text: string, maxChars: number, maxLines: number) => {
+  const rows: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      rows.push("");
+      continue;
+    }
+    let line = "";
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (candidate.length <= maxChars) {
+        line = candidate;
+        continue;
+      }
+      if (line) rows.push(line);
+      let rest = word;
+      while (rest.length > maxChars) {
+        rows.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+      line = rest;
+    }
+    if (line) rows.push(line);
+    if (rows.length >= maxLines) break;
+  }
+  return rows.slice(0, Math.max(1, maxLines));
+};
+
+const truncate = (text: string, maxChars: number) =>
+  text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 1))}…` : text;
+
+const charsFor = (width: number, fontSize: number) => Math.max(1, Math.floor(width / Math.max(5, fontSize * 0.58)));
+
+const textBlock = (
+  lines: string[],
+  opts: {
+    x: number;
+    y: number;
+    lineHeight: number;
+    fontSize: number;
+    fill: string;
+    anchor?: "start" | "middle" | "end";
+    fontWeight?: string | number;
+    fontStyle?: string;
+    fontFamily?: string;
+    decoration?: string;
+    letterSpacing?: number;
+  },
+) => {
+  const attrs = [
+    `x="${num(opts.x)}"`,
+    `y="${num(opts.y)}"`,
+    `font-size="${num(opts.fontSize)}"`,
+    `fill="${escapeXml(opts.fill)}"`,
+    `font-family="${escapeXml(opts.fontFamily || FONT_STACK)}"`,
+  ];
+  if (opts.anchor && opts.anchor !== "start") attrs.push(`text-anchor="${opts.anchor}"`);
+  if (opts.fontWeight && opts.fontWeight !== "normal") attrs.push(`font-weight="${opts.fontWeight}"`);
+  if (opts.fontStyle && opts.fontStyle !== "normal") attrs.push(`font-style="${opts.fontStyle}"`);
+  if (opts.decoration && opts.decoration !== "none") attrs.push(`text-decoration="${opts.decoration}"`);
+  if (opts.letterSpacing) attrs.push(`letter-spacing="${num(opts.letterSpacing)}"`);
+  const spans = lines
+    .map(
+      (line, index) =>
+        `<tspan x="${num(opts.x)}" dy="${index === 0 ? 0 : num(opts.lineHeight)}">${escapeXml(line || " ")}</tspan>`,
+    )
+    .join("");
+  return `<text ${attrs.join(" ")} xml:space="preserve">${spans}</text>`;
+};
+
+const alignedX = (align: string | undefined, left: number, width: number) => {
+  if (align === "center") return { x: left + width / 2, anchor: "middle" as const };
+  if (align === "right") return { x: left + width, anchor: "end" as const };
+  return { x: left, anchor: "start" as const };
+};
+
+const clipped = (id: string, rect: XYWH, radius: number, body: string) =>
+  `<clipPath id="${id}"><rect x="${num(rect.x)}" y="${num(rect.y)}" width="${num(rect.width)}" height="${num(rect.height)}" rx="${num(radius)}"/></clipPath><g clip-path="url(#${id})">${body}</g>`;
+
+const imageOrPlaceholder = (href: string | null | undefined, rect: XYWH, label?: string) => {
+  const { x, y, width, height } = rect;
+  if (href) {
+    return `<image href="${escapeXml(href)}" x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" preserveAspectRatio="xMidYMid slice"/>`;
+  }
+  const caption = label
+    ? textBlock([truncate(label, charsFor(width - 16, 12))], {
+        x: x + width / 2,
+        y: y + height / 2 + 4,
+        lineHeight: 14,
+        fontSize: 12,
+        fill: "#64748b",
+        anchor: "middle",
+      })
+    : "";
+  return `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="#e2e8f0"/>${caption}`;
+};
+
+const renderNote = (layer: NoteLayer) => {
+  const { x, y, width, height } = layer;
+  const fill = layer.fill || { r: 255, g: 235, b: 59 };
+  const fontSize = layer.fontSize || 16;
+  const darkText = getContrastingTextColor(fill) === "black";
+  const showMetadata = layer.showMetadata !== false;
+  const lineHeight = fontSize * 1.35;
+  const contentWidth = Math.max(40, width - NOTE_PADDING * 2);
+  const contentHeight = height - NOTE_PADDING * 2 - (showMetadata ? NOTE_FOOTER_HEIGHT : 0);
+  const lines = wrapText(
+    toPlainText(layer.value),
+    charsFor(contentWidth, fontSize),
+    Math.max(1, Math.floor(contentHeight / lineHeight)),
+  );
+  const { x: textX, anchor } = alignedX(layer.textAlign, NOTE_PADDING, contentWidth);
+  return `<g transform="translate(${num(x)} ${num(y)})"><rect width="${num(width)}" height="${num(height)}" rx="${NOTE_RADIUS}" fill="${colorToCSS(mixColor(fill, { r: 255, g: 255, b: 255 }, 0.08))}"/>${textBlock(lines, {
+    x: textX,
+    y: NOTE_PADDING + fontSize,
+    lineHeight,
+    fontSize,
+    fill: darkText ? "rgba(50, 42, 24, 0.92)" : "rgba(248, 250, 252, 0.92)",
+    anchor,
+    fontWeight: layer.fontWeight,
+    fontStyle: layer.fontStyle,
+    fontFamily: layer.fontFamily,
+    decoration: layer.textDecoration,
+  })}</g>`;
+};
+
+const applyTextTransform = (text: string, transform: TextLayer["textTransform"]) => {
+  if (transform === "uppercase") return text.toUpperCase();
+  if (transform === "lowercase") return text.toLowerCase();
+  if (transform === "capitalize") return text.replace(/\b\w/g, (c) => c.toUpperCase());
+  return text;
+};
+
+const renderText = (layer: TextLayer) => {
+  const { x, y, width, height } = layer;
+  const fontSize = layer.fontSize || 16;
+  const lineHeight = fontSize * (layer.lineHeight || 1.2);
+  const contentWidth = Math.max(1, width - TEXT_PADDING * 2);
+  const text = applyTextTransform(toPlainText(layer.value), layer.textTransform);
+  const lines = wrapText(
+    text,
+    charsFor(contentWidth, fontSize * (layer.fontWeight === "bold" ? 1.15 : 1)),
+    Math.max(1, Math.floor((height - TEXT_PADDING * 2) / lineHeight) || 1),
+  );
+  const { x: textX, anchor } = alignedX(layer.textAlign, x + TEXT_PADDING, contentWidth);
+  return textBlock(lines, {
+    x: textX,
+    y: y + TEXT_PADDING + fontSize,
+    lineHeight,
+    fontSize,
+    fill: colorToCSS(layer.fill),
+    anchor,
+    fontWeight: layer.fontWeight,
+    fontStyle: layer.fontStyle,
+    fontFamily: layer.fontFamily,
+    decoration: layer.textDecoration,
+    letterSpacing: layer.letterSpacing,
+  });
+};
+
+const renderArrow = (layer: ArrowLayer) => {
+  const stroke = colorToCSS(layer.fill);
+  const strokeWidth = layer.strokeWidth ?? 2;
+  const { startX, startY, endX, endY } = layer;
+  const curved = Boolean(
+    layer.curved && layer.controlPoint1X && layer.controlPoint1Y && layer.controlPoint2X && layer.controlPoint2Y,
+  );
+  const fromX = curved ? layer.controlPoint2X! : startX;
+  const fromY = curved ? layer.controlPoint2Y! : startY;
+  const angle = Math.atan2(endY - fromY, endX - fromX);
+  const headLength = Math.min(Math.max(Math.hypot(endX - fromX, endY - fromY) * 0.2, 8), 25);
+  const head = [
+    [endX, endY],
+    [endX - headLength * Math.cos(angle - Math.PI / 6), endY - headLength * Math.sin(angle - Math.PI / 6)],
+    [endX - headLength * Math.cos(angle + Math.PI / 6), endY - headLength * Math.sin(angle + Math.PI / 6)],
+  ]
+    .map(([px, py]) => `${num(px)},${num(py)}`)
+    .join(" ");
+  const shaft = curved
+    ? `<path d="M ${num(startX)} ${num(startY)} C ${num(layer.controlPoint1X!)} ${num(layer.controlPoint1Y!)}, ${num(layer.controlPoint2X!)} ${num(layer.controlPoint2Y!)}, ${num(endX)} ${num(endY)}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}" stroke-linecap="round"/>`
+    : `<line x1="${num(startX)}" y1="${num(startY)}" x2="${num(endX)}" y2="${num(endY)}" stroke="${stroke}" stroke-width="${strokeWidth}" stroke-linecap="round"/>`;
+  return `${shaft}<polygon points="${head}" fill="${stroke}" stroke="${stroke}" stroke-width="${strokeWidth / 2}" stroke-linejoin="round"/>`;
+};
+
+const renderLine = (layer: LineLayer) =>
+  `<line x1="${num(layer.startX)}" y1="${num(layer.startY)}" x2="${num(layer.endX)}" y2="${num(layer.endY)}" stroke="${colorToCSS(layer.fill)}" stroke-width="${layer.strokeWidth ?? 2}" stroke-linecap="round"/>`;
+
+const renderPath = (layer: PathLayer) => {
+  const d = getSvgPathFromStroke(
+    getStroke(layer.points, { size: layer.strokeWidth ?? 16, thinning: 0.5, smoothing: 0.5, streamline: 0.5 }),
+  );
+  return `<path transform="translate(${num(layer.x)} ${num(layer.y)})" d="${d}" fill="${layer.fill ? colorToCSS(layer.fill) : "#000"}"/>`;
+};
+
+const renderFrame = (layer: FrameLayer) => {
+  const { x, y, width, height } = layer;
+  const radius = Math.max(8, Math.min(12, Math.min(width, height) * 0.06));
+  const dash =
+    layer.borderStyle === "dashed" ? ` stroke-dasharray="6 4"` : layer.borderStyle === "dotted" ? ` stroke-dasharray="1.5 4"` : "";
+  const borderWidth = Math.max(1, Math.min(3, layer.borderWidth || 1));
+  const titleFontSize = Math.max(10, Math.min(12, Math.min(width, height) * 0.06));
+  const title = textBlock([truncate(layer.title || "Frame", charsFor(width, titleFontSize))], {
+    x,
+    y: y - 10,
+    lineHeight: 18,
+    fontSize: titleFontSize,
+    fill: "#64748b",
+    fontWeight: 600,
+  });
+  return `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" rx="${num(radius)}" fill="${colorToCSS(layer.fill)}" fill-opacity="${layer.opacity ?? 1}" stroke="${layer.borderColor ? colorToCSS(layer.borderColor) : "#dbe3ef"}" stroke-opacity="0.32" stroke-width="${borderWidth}"${dash}/>${title}`;
+};
+
+const tableCellText = (layer: TableLayer, columnId: string, value: unknown) => {
+  const column = layer.columns.find((col) => col.id === columnId);
+  if (value === null || value === undefined || value === "") return "";
+  if (column?.type === TableColumnType.Select) {
+    return column.options?.find((option) => option.id === value)?.label ?? String(value);
+  }
+  if (column?.type === TableColumnType.MultiSelect && Array.isArray(value)) {
+    return value.map((id) => column.options?.find((option) => option.id === id)?.label ?? String(id)).join(", ");
+  }
+  if (column?.type === TableColumnType.Date) {
+    const date = new Date(String(value));
+    return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+  }
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return String(record.name ?? record.label ?? record.title ?? "");
+  }
+  return String(value);
+};
+
+const tableImageUrl = (value: unknown) => {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object") {
+    const url = (value as Record<string, unknown>).url;
+    return typeof url === "string" ? url : null;
+  }
+  return null;
+};
+
+const renderTable = (id: string, layer: TableLayer, assets: AssetMap) => {
+  const { x, y, width, height } = layer;
+  const totalColumnWidth = layer.columns.reduce((sum, col) => sum + (col.width || 120), 0) || 1;
+  const ratio = Math.min(1, width / totalColumnWidth);
+  const border = layer.borderColor ? colorToCSS(layer.borderColor) : "#e2e8f0";
+  const parts: string[] = [
+    `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="${layer.fill ? colorToCSS(layer.fill) : "#ffffff"}"/>`,
+  ];
+  let cursorY = y;
+  if (layer.title) {
+    parts.push(
+      textBlock([truncate(layer.title, charsFor(width - 32, 15))], {
+        x: x + 16,
+        y: cursorY + 28,
+        lineHeight: 18,
+        fontSize: 15,
+        fill: "#0f172a",
+        fontWeight: 600,
+      }),
+    );
+    cursorY += TABLE_TITLE_HEIGHT;
+  }
+
+  const columnXs: number[] = [];
+  let columnX = x;
+  layer.columns.forEach((col) => {
+    columnXs.push(columnX);
+    columnX += (col.width || 120) * ratio;
+  });
+
+  parts.push(
+    `<rect x="${num(x)}" y="${num(cursorY)}" width="${num(width)}" height="${TABLE_HEADER_HEIGHT}" fill="${layer.headerColor ? colorToCSS(layer.headerColor) : "#f8fafc"}"/>`,
+  );
+  const headerText = layer.headerColor && getContrastingTextColor(layer.headerColor) === "white" ? "#f8fafc" : "#334155";
+  layer.columns.forEach((col, index) => {
+    const colWidth = (col.width || 120) * ratio;
+    parts.push(
+      textBlock([truncate(col.name, charsFor(colWidth - 24, 13))], {
+        x: columnXs[index] + 12,
+        y: cursorY + 28,
+        lineHeight: 16,
+        fontSize: 13,
+        fill: headerText,
+        fontWeight: 600,
+      }),
+    );
+  });
+  cursorY += TABLE_HEADER_HEIGHT;
+
+  // Same rows, in the same order, as the table currently shows (grouping is not exported).
+  const formulas = computeTableFormulas(layer.columns, layer.rows);
+  const rows = sortTableRows(
+    filterTableRows(layer.rows, layer.columns, layer.filterRules, formulas),
+    layer.columns,
+    layer.sortRules,
+    formulas,
+  );
+
+  const bottom = y + height;
+  for (let rowIndex = 0; rowIndex < rows.length && cursorY < bottom; rowIndex++) {
+    const row = rows[rowIndex];
+    const hasImage = layer.columns.some(
+      (col) => col.type === TableColumnType.Image && tableImageUrl(row.cells.find((cell) => cell.columnId === col.id)?.value),
+    );
+    const rowHeight = hasImage ? TABLE_IMAGE_ROW_HEIGHT : TABLE_ROW_HEIGHT;
+    if (layer.alternateRowColors && rowIndex % 2 === 1) {
+      parts.push(`<rect x="${num(x)}" y="${num(cursorY)}" width="${num(width)}" height="${rowHeight}" fill="#f8fafc"/>`);
+    }
+    parts.push(`<line x1="${num(x)}" y1="${num(cursorY)}" x2="${num(x + width)}" y2="${num(cursorY)}" stroke="${border}"/>`);
+    layer.columns.forEach((col, index) => {
+      const colWidth = (col.width || 120) * ratio;
+      const value = row.cells.find((cell) => cell.columnId === col.id)?.value;
+      if (col.type === TableColumnType.Image) {
+        const url = tableImageUrl(value);
+        if (url) {
+          parts.push(
+            imageOrPlaceholder(assets.get(url) ?? null, {
+              x: columnXs[index] + 8,
+              y: cursorY + 8,
+              width: Math.max(1, colWidth - 16),
+              height: rowHeight - 16,
+            }),
+          );
+        }
+        return;
+      }
+      const text =
+        col.type === TableColumnType.Formula
+          ? formatTableValue(tableFormulaResult(row, col, formulas)?.value ?? null)
+          : tableCellText(layer, col.id, value);
+      if (!text) return;
+      parts.push(
+        textBlock([truncate(text.replace(/\s+/g, " "), charsFor(colWidth - 24, 13))], {
+          x: columnXs[index] + 12,
+          y: cursorY + rowHeight / 2 + 5,
+          lineHeight: 16,
+          fontSize: 13,
+          fill: "#0f172a",
+        }),
+      );
+    });
+    cursorY += rowHeight;
+  }
+
+  columnXs.slice(1).forEach((lineX) => {
+    parts.push(`<line x1="${num(lineX)}" y1="${num(y + (layer.title ? TABLE_TITLE_HEIGHT : 0))}" x2="${num(lineX)}" y2="${num(Math.min(cursorY, bottom))}" stroke="${border}"/>`);
+  });
+  parts.push(
+    `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" rx="12" fill="none" stroke="${border}" stroke-width="${layer.borderWidth || 1}"/>`,
+  );
+  return `<g opacity="${layer.opacity ?? 1}">${clipped(`clip-${id}`, layer, 12, parts.join(""))}</g>`;
+};
+
+const renderTodoWidget = (id: string, layer: TodoWidgetLayer) => {
+  const { x, y, width, height } = layer;
+  const fill = layer.fill || { r: 255, g: 255, b: 255 };
+  const darkText = getContrastingTextColor(fill) === "black";
+  const textColor = darkText ? "#0f172a" : "#f8fafc";
+  const mutedColor = darkText ? "#64748b" : "#cbd5e1";
+  const parts: string[] = [
+    `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="${colorToCSS(fill)}"/>`,
+    textBlock([truncate(layer.title || "To-do", charsFor(width - 32, 16))], {
+      x: x + 16,
+      y: y + 30,
+      lineHeight: 20,
+      fontSize: 16,
+      fill: textColor,
+      fontWeight: 600,
+    }),
+  ];
+  const showCompleted = layer.showCompleted !== false;
+  const bottom = y + height;
+  let cursorY = y + TODO_TITLE_HEIGHT;
+  for (const group of layer.groups ?? []) {
+    if (cursorY >= bottom) break;
+    parts.push(
+      textBlock([truncate(group.title, charsFor(width - 32, 12))], {
+        x: x + 16,
+        y: cursorY + 19,
+        lineHeight: 16,
+        fontSize: 12,
+        fill: mutedColor,
+        fontWeight: 600,
+      }),
+    );
+    cursorY += TODO_GROUP_HEIGHT;
+    if (group.collapsed) continue;
+    for (const task of group.tasks) {
+      if (cursorY >= bottom) break;
+      if (task.completed && !showCompleted) continue;
+      parts.push(
+        `<rect x="${num(x + 16)}" y="${num(cursorY + 7)}" width="14" height="14" rx="4" fill="${task.completed ? "#22c55e" : "none"}" stroke="${task.completed ? "#22c55e" : mutedColor}" stroke-width="1.5"/>`,
+      );
+      if (task.completed) {
+        parts.push(
+          `<path d="M ${num(x + 19.5)} ${num(cursorY + 14)} l 2.5 2.5 l 4.5 -5" fill="none" stroke="#ffffff" stroke-width="1.8" stroke-linecap="round" stroke-linejoin="round"/>`,
+        );
+      }
+      parts.push(
+        textBlock([truncate(task.text, charsFor(width - 56, 14))], {
+          x: x + 40,
+          y: cursorY + 19,
+          lineHeight: 18,
+          fontSize: 14,
+          fill: task.completed ? mutedColor : textColor,
+          decoration: task.completed ? "line-through" : undefined,
+        }),
+      );
+      cursorY += TODO_TASK_HEIGHT;
+    }
+  }
+  parts.push(
+    `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" rx="16" fill="none" stroke="${layer.borderColor ? colorToCSS(layer.borderColor) : "#e2e8f0"}" stroke-width="${layer.borderWidth || 1}"/>`,
+  );
+  return `<g opacity="${layer.opacity ?? 1}">${clipped(`clip-${id}`, layer, 16, parts.join(""))}</g>`;
+};
+
+const videoPosterUrl = (layer: VideoLayer) => layer.thumbnailUrl?.trim() || layer.previewUrl?.trim() || null;
+
+const renderLayer = (id: string, layer: Layer, assets: AssetMap): string => {
+  switch (layer.type) {
+    case LayerType.Rectangle: {
+      const rect = layer as RectangleLayer;
+      return `<rect x="${num(rect.x)}" y="${num(rect.y)}" width="${num(rect.width)}" height="${num(rect.height)}" fill="${rect.fill ? colorToCSS(rect.fill) : "#000"}"/>`;
+    }
+    case LayerType.Ellipse: {
+      const ellipse = layer as EllipseLayer;
+      return `<ellipse cx="${num(ellipse.x + ellipse.width / 2)}" cy="${num(ellipse.y + ellipse.height / 2)}" rx="${num(ellipse.width / 2)}" ry="${num(ellipse.height / 2)}" fill="${ellipse.fill ? colorToCSS(ellipse.fill) : "#000"}"/>`;
+    }
+    case LayerType.Path:
+      return renderPath(layer as PathLayer);
+    case LayerType.Note:
+      return renderNote(layer as NoteLayer);
+    case LayerType.Text:
+      return renderText(layer as TextLayer);
+    case LayerType.Arrow:
+      return renderArrow(layer as ArrowLayer);
+    case LayerType.Line:
+      return renderLine(layer as LineLayer);
+    case LayerType.Frame:
+      return renderFrame(layer as FrameLayer);
+    case LayerType.Image: {
+      const image = layer as ImageLayer;
+      return imageOrPlaceholder(assets.get(image.url) ?? null, image, image.title);
+    }
+    case LayerType.Video: {
+      const video = layer as VideoLayer;
+      const poster = videoPosterUrl(video);
+      return imageOrPlaceholder(poster ? assets.get(poster) ?? null : null, video, video.title);
+    }
+    case LayerType.Table:
+      return renderTable(id, layer as TableLayer, assets);
+    case LayerType.TodoWidget:
+      return renderTodoWidget(id, layer as TodoWidgetLayer);
+    default:
+      // Files, link previews and subnetwork cards have no static rendering yet.
+      return "";
+  }
+};
+
+const layerBounds = (layer: Layer): XYWH => ({
+  x: layer.x,
+  y: layer.y,
+  width: Math.max(1, layer.width || 0),
+  height: Math.max(1, layer.height || 0),
+});
+
+const layersInRegion = (source: BoardExportSource, region: XYWH) =>
+  sortLayersForRendering(source.layerIds, source.layers).filter((id) => {
+    const layer = source.layers.get(id);
+    return Boolean(layer && isLayerOverlappingFrame(layerBounds(layer), region));
+  });
+
+/** Bounding box of every layer on the board, padded so frame titles and shadows are not cut off. */
+export function getBoardExportBounds(source: BoardExportSource): XYWH | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const id of source.layerIds) {
+    const layer = source.layers.get(id);
+    if (!layer) continue;
+    const bounds = layerBounds(layer);
+    minX = Math.min(minX, bounds.x);
+    minY = Math.min(minY, bounds.y);
+    maxX = Math.max(maxX, bounds.x + bounds.width);
+    maxY = Math.max(maxY, bounds.y + bounds.height);
+  }
+  if (!Number.isFinite(minX)) return null;
+  return {
+    x: minX - BOARD_EXPORT_PADDING,
+    y: minY - BOARD_EXPORT_PADDING,
+    width: maxX - minX + BOARD_EXPORT_PADDING * 2,
+    height: maxY - minY + BOARD_EXPORT_PADDING * 2,
+  };
+}
+
+/**
+ * Frames in reading order: rows top to bottom, left to right within a row.
+ * Frames whose tops sit within half a frame height of each other share a row.
+ */
+export function getBoardExportFrames(source: BoardExportSource): BoardExportFrame[] {
+  const frames = source.layerIds
+    .map((id) => ({ id, layer: source.layers.get(id) }))
+    .filter((entry): entry is { id: string; layer: FrameLayer } => entry.layer?.type === LayerType.Frame)
+    .sort((a, b) => a.layer.y - b.layer.y);
+
+  const rows: { top: number; tolerance: number; items: typeof frames }[] = [];
+  for (const frame of frames) {
+    const row = rows[rows.length - 1];
+    if (row && frame.layer.y - row.top <= row.tolerance) {
+      row.items.push(frame);
+      row.tolerance = Math.min(row.tolerance, frame.layer.height / 2);
+    } else {
+      rows.push({ top: frame.layer.y, tolerance: frame.layer.height / 2, items: [frame] });
+    }
+  }
+
+  return rows.flatMap((row) =>
+    row.items
+      .sort((a, b) => a.layer.x - b.layer.x)
+      .map(({ id, layer }) => ({ id, title: layer.title || "Frame", bounds: layerBounds(layer) })),
+  );
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("timeout")), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ""));
+    reader.onerror = () => reject(reader.error || new Error("Unable to read blob"));
+    reader.readAsDataURL(blob);
+  });
+
+// Same fallback as the frame PNG export in selection-tools: direct CORS fetch, then the download proxy.
+const fetchAssetDataUrl = async (url: string): Promise<string | null> => {
+  if (url.startsWith("data:")) return url;
+  try {
+    const response = await withTimeout(fetch(url, { mode: "cors", credentials: "omit" }), ASSET_FETCH_TIMEOUT_MS);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await blobToDataUrl(await response.blob());
+  } catch {
+    try {
+      const response = await withTimeout(
+        fetch("/api/download-proxy", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url, fileName: "board-export-asset" }),
+        }),
+        ASSET_FETCH_TIMEOUT_MS,
+      );
+      if (!response.ok) return null;
+      return await blobToDataUrl(await response.blob());
+    } catch {
+      return null;
+    }
+  }
+};
+
+const collectAssetUrls = (source: BoardExportSource, ids: readonly string[]) => {
+  const urls = new Set<string>();
+  for (const id of ids) {
+    const layer = source.layers.get(id);
+    if (!layer) continue;
+    if (layer.type === LayerType.Image) {
+      urls.add((layer as ImageLayer).url);
+    } else if (layer.type === LayerType.Video) {
+      const poster = videoPosterUrl(layer as VideoLayer);
+      if (poster) urls.add(poster);
+    } else if (layer.type === LayerType.Table) {
+      const table = layer as TableLayer;
+      const imageColumns = new Set(table.columns.filter((col) => col.type === TableColumnType.Image).map((col) => col.id));
+      table.rows.forEach((row) =>
+        row.cells.forEach((cell) => {
+          const url = imageColumns.has(cell.columnId) ? tableImageUrl(cell.value) : null;
+          if (url) urls.add(url);
+        }),
+      );
+    }
+  }
+  return urls;
+};
+
+/**
+ * Images are inlined as data URLs: an SVG drawn onto a canvas cannot load external resources,
+ * and a cross-origin image would taint the canvas anyway. Assets that cannot be fetched render as placeholders.
+ */
+const loadAssets = async (source: BoardExportSource, ids: readonly string[]) => {
+  const assets = new Map<string, string | null>();
+  await Promise.all(
+    Array.from(collectAssetUrls(source, ids)).map(async (url) => {
+      assets.set(url, await fetchAssetDataUrl(url));
+    }),
+  );
+  return assets;
+};
+
+const buildSvg = (source: BoardExportSource, ids: readonly string[], region: XYWH, assets: AssetMap) => {
+  const background = source.backgroundColor
+    ? `<rect x="${num(region.x)}" y="${num(region.y)}" width="${num(region.width)}" height="${num(region.height)}" fill="${escapeXml(source.backgroundColor)}"/>`
+    : "";
+  const body = ids
+    .map((id) => {
+      const layer = source.layers.get(id);
+      return layer ? renderLayer(id, layer, assets) : "";
+    })
+    .join("");
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${num(region.width)}" height="${num(region.height)}" viewBox="${num(region.x)} ${num(region.y)} ${num(region.width)} ${num(region.height)}">${background}${body}</svg>`;
+};
+
+/**
+ * Renders a region of the board (the whole board by default) to a standalone SVG document.
+ * Returns null when the board has no layers.
+ */
+export async function renderBoardSvg(source: BoardExportSource, region?: XYWH | null) {
+  const bounds = region ?? getBoardExportBounds(source);
+  if (!bounds) return null;
+  const ids = layersInRegion(source, bounds);
+  return buildSvg(source, ids, bounds, await loadAssets(source, ids));
+}
+
+const fitScale = (region: XYWH, scale: number) => {
+  const sideLimit = MAX_CANVAS_SIDE / Math.max(region.width, region.height);
+  const areaLimit = Math.sqrt(MAX_CANVAS_AREA / (region.width * region.height));
+  return Math.max(0.05, Math.min(scale, sideLimit, areaLimit));
+};
+
+const rasterizeSvg = async (svg: string, region: XYWH, scale: number) => {
+  const effectiveScale = fitScale(region, scale);
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+  try {
+    const image = new Image();
+    image.decoding = "async";
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Unable to render board SVG"));
+      image.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(region.width * effectiveScale));
+    canvas.height = Math.max(1, Math.round(region.height * effectiveScale));
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas 2D context unavailable");
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export async function exportBoardSvg(source: BoardExportSource, region?: XYWH | null) {
+  const svg = await renderBoardSvg(source, region);
+  return svg ? new Blob([svg], { type: "image/svg+xml;charset=utf-8" }) : null;
+}
+
+export async function exportBoardPng(source: BoardExportSource, scale: number, region?: XYWH | null) {
+  const bounds = region ?? getBoardExportBounds(source);
+  if (!bounds) return null;
+  const ids = layersInRegion(source, bounds);
+  const svg = buildSvg(source, ids, bounds, await loadAssets(source, ids));
+  const canvas = await rasterizeSvg(svg, bounds, scale);
+  return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+}
+
+/**
+ * One PDF page per frame, in reading order, each sized to its frame.
+ * Boards without frames export as a single page covering the whole board.
+ */
+export async function exportBoardPdf(source: BoardExportSource, scale: number) {
+  const frames = getBoardExportFrames(source);
+  const wholeBoard = getBoardExportBounds(source);
+  const pages = frames.length > 0 ? frames.map((frame) => frame.bounds) : wholeBoard ? [wholeBoard] : [];
+  if (pages.length === 0) return null;
+
+  const assets = await loadAssets(source, source.layerIds);
+  const { jsPDF } = await import("jspdf");
+  let pdf: InstanceType<typeof jsPDF> | null = null;
+
+  for (const page of pages) {
+    const ids = layersInRegion(source, page);
+    const canvas = await rasterizeSvg(buildSvg(source, ids, page, assets), page, scale);
+    const orientation = page.width >= page.height ? "landscape" : "portrait";
+    const format: [number, number] = [page.width, page.height];
+    if (!pdf) {
+      pdf = new jsPDF({ orientation, unit: "px", format, hotfixes: ["px_scaling"], compress: true });
+    } else {
+      pdf.addPage(format, orientation);
+    }
+    pdf.addImage(canvas.toDataURL("image/jpeg", 0.92), "JPEG", 0, 0, page.width, page.height, undefined, "FAST");
+  }
+
+  return pdf ? pdf.output("blob") : null;
+}
+
+export function downloadBoardExport(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.rel = "noopener";
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 30000);
+}
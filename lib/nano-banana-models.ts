@@ -4,6 +4,8 @@ import type {
   NanoBananaResponseMode,
   NanoBananaRunMode,
 } from "@/types/ai-subnetwork";
+import type { AiSweep } from "@/utils/aiSweep";
+import { normalizeAiSweep, restrictAiSweep } from "@/utils/aiSweep";
 
 export type NanoBananaModelCapability = {
   id: GoogleImageModelId;
@@ -62,6 +64,7 @@ export type NanoBananaUiConfig = {
   imageSize: NanoBananaImageSize;
   aspectRatio: string;
   enableSearchGrounding: boolean;
+  sweep?: AiSweep;
   legacy?: Record<string, unknown>;
 };
 
@@ -121,6 +124,7 @@ export const normalizeNanoBananaUiConfig = (input: any): NanoBananaUiConfig => {
     imageSize,
     aspectRatio,
     enableSearchGrounding,
+    sweep: restrictAiSweep(normalizeAiSweep(input?.sweep), capability),
     legacy: hasLegacyFields
       ? {
           resolution: input?.resolution,
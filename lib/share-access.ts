@@ -0,0 +1,115 @@
+const GRANT_STORAGE_PREFIX = "share_grant:";
+
+export type ShareOpenError =
+  | "SHARE_NOT_FOUND"
+  | "PASSWORD_REQUIRED"
+  | "INVALID_PASSWORD"
+  | "TOO_MANY_ATTEMPTS"
+  | "VIEW_LIMIT_REACHED"
+  | "OPEN_FAILED";
+
+export class ShareOpenFailure extends Error {
+  constructor(public readonly code: ShareOpenError) {
+    super(code);
+    this.name = "ShareOpenFailure";
+  }
+}
+
+const getConvexAuthToken = async () => {
+  if (typeof window === "undefined") return null;
+  const clerk = (window as any).Clerk;
+  const session = clerk?.session;
+  if (!session?.getToken) return null;
+  return await session.getToken({ template: "convex" });
+};
+
+const getApiBase = () => {
+  const env = import.meta.env;
+  const rawBase =
+    env.VITE_CONVEX_HTTP_URL ||
+    env.VITE_CONVEX_SELF_HOSTED_URL ||
+    env.VITE_CONVEX_URL;
+  if (!rawBase) return "";
+  return rawBase.includes(".convex.cloud")
+    ? rawBase.replace(".convex.cloud", ".convex.site")
+    : rawBase;
+};
+
+/** Grant stored for this tab, so reloading a limited link does not spend another view. */
+export const readShareGrant = (token: string) => {
+  try {
+    return window.sessionStorage.getItem(`${GRANT_STORAGE_PREFIX}${token}`);
+  } catch {
+    return null;
+  }
+};
+
+const storeShareGrant = (token: string, grant: string) => {
+  try {
+    window.sessionStorage.setItem(`${GRANT_STORAGE_PREFIX}${token}`, grant);
+  } catch {
+    // Private mode: the grant still lives in memory for this page.
+  }
+};
+
+/**
+ * Opens a share link through `/api/share/open`, which counts the view and logs the access.
+ * Resolves with the grant to pass to `shares.resolveToken` and `videos.getByShareToken`.
+ */
+export async function openShareLink(token: string, password?: string) {
+  const authToken = await getConvexAuthToken();
+  const base = getApiBase();
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+  };
+  if (authToken) {
+    headers.Authorization = `Bearer ${authToken}`;
+  }
+  let res: Response;
+  try {
+    res = await fetch(`${base}/api/share/open`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ token, password }),
+    });
+  } catch {
+    throw new ShareOpenFailure("OPEN_FAILED");
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok || typeof body?.grant !== "string") {
+    throw new ShareOpenFailure((body?.error as ShareOpenError | undefined) ?? "OPEN_FAILED");
+  }
+  storeShareGrant(token, body.grant);
+  return { grant: body.grant as string, remainingViews: (body.remainingViews ?? null) as number | null };
+}
+
+const GUEST_STORAGE_PREFIX = "share_guest:";
+
+export interface StoredGuestSession {
+  guestToken: string;
+  name: string;
+  email: string;
+}
+
+/** Guest reviewer session for a link, kept across visits so a guest keeps one identity. */
+export const readGuestSession = (token: string): StoredGuestSession | null => {
+  try {
+    const raw = window.localStorage.getItem(`${GUEST_STORAGE_PREFIX}${token}`);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed.guestToken === "string" ? (parsed as StoredGuestSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeGuestSession = (token: string, session: StoredGuestSession | null) => {
+  try {
+    if (session) {
+      window.localStorage.setItem(`${GUEST_STORAGE_PREFIX}${token}`, JSON.stringify(session));
+    } else {
+      window.localStorage.removeItem(`${GUEST_STORAGE_PREFIX}${token}`);
+    }
+  } catch {
+    // Storage unavailable: the session lasts until the page is closed.
+  }
+};
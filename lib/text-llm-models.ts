@@ -0,0 +1,51 @@
+import type { GoogleTextModelId } from "@/types/ai-subnetwork";
+
+export type TextLlmModelCapability = {
+  id: GoogleTextModelId;
+  label: string;
+};
+
+export const TEXT_LLM_DEFAULT_MODEL_ID: GoogleTextModelId = "gemini-2.5-flash";
+
+export const TEXT_LLM_DEFAULT_INSTRUCTION =
+  "Rewrite the prompt for an image generation model: keep its intent, add concrete visual detail, and answer with the prompt only.";
+
+export const TEXT_LLM_CAPABILITIES: Record<GoogleTextModelId, TextLlmModelCapability> = {
+  "gemini-2.5-flash": {
+    id: "gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+  },
+  "gemini-2.5-flash-lite": {
+    id: "gemini-2.5-flash-lite",
+    label: "Gemini 2.5 Flash-Lite",
+  },
+  "gemini-2.5-pro": {
+    id: "gemini-2.5-pro",
+    label: "Gemini 2.5 Pro",
+  },
+};
+
+export const TEXT_LLM_MODEL_OPTIONS = Object.values(TEXT_LLM_CAPABILITIES);
+
+export type LlmRewriteUiConfig = {
+  modelId: GoogleTextModelId;
+  instruction: string;
+  temperature: number;
+};
+
+export const normalizeLlmRewriteUiConfig = (input: any): LlmRewriteUiConfig => {
+  const modelId =
+    typeof input?.modelId === "string" && input.modelId in TEXT_LLM_CAPABILITIES
+      ? (input.modelId as GoogleTextModelId)
+      : TEXT_LLM_DEFAULT_MODEL_ID;
+  const rawTemperature = Number(input?.temperature);
+
+  return {
+    modelId,
+    instruction:
+      typeof input?.instruction === "string" && input.instruction.trim()
+        ? input.instruction
+        : TEXT_LLM_DEFAULT_INSTRUCTION,
+    temperature: Number.isFinite(rawTemperature) ? Math.min(2, Math.max(0, rawTemperature)) : 0.7,
+  };
+};
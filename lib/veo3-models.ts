@@ -0,0 +1,90 @@
+import type { GoogleVideoModelId, Veo3Resolution } from "@/types/ai-subnetwork";
+
+export type Veo3ModelCapability = {
+  id: GoogleVideoModelId;
+  label: string;
+  durationsSeconds: number[];
+  resolutions: Veo3Resolution[];
+  aspectRatios: string[];
+  supportsEndFrame: boolean;
+};
+
+export const VEO3_DEFAULT_MODEL_ID: GoogleVideoModelId = "veo-3.1-generate-preview";
+
+export const VEO3_CAPABILITIES: Record<GoogleVideoModelId, Veo3ModelCapability> = {
+  "veo-3.1-generate-preview": {
+    id: "veo-3.1-generate-preview",
+    label: "Veo 3.1 (Preview)",
+    durationsSeconds: [4, 6, 8],
+    resolutions: ["720p", "1080p"],
+    aspectRatios: ["16:9", "9:16"],
+    supportsEndFrame: true,
+  },
+  "veo-3.1-fast-generate-preview": {
+    id: "veo-3.1-fast-generate-preview",
+    label: "Veo 3.1 Fast (Preview)",
+    durationsSeconds: [4, 6, 8],
+    resolutions: ["720p", "1080p"],
+    aspectRatios: ["16:9", "9:16"],
+    supportsEndFrame: true,
+  },
+  "veo-3.0-generate-001": {
+    id: "veo-3.0-generate-001",
+    label: "Veo 3",
+    durationsSeconds: [4, 6, 8],
+    resolutions: ["720p", "1080p"],
+    aspectRatios: ["16:9", "9:16"],
+    supportsEndFrame: false,
+  },
+  "veo-3.0-fast-generate-001": {
+    id: "veo-3.0-fast-generate-001",
+    label: "Veo 3 Fast",
+    durationsSeconds: [4, 6, 8],
+    resolutions: ["720p", "1080p"],
+    aspectRatios: ["16:9", "9:16"],
+    supportsEndFrame: false,
+  },
+};
+
+export const VEO3_MODEL_OPTIONS = Object.values(VEO3_CAPABILITIES);
+
+export type Veo3UiConfig = {
+  modelId: GoogleVideoModelId;
+  durationSeconds: number;
+  resolution: Veo3Resolution;
+  aspectRatio: string;
+};
+
+export const normalizeVeo3UiConfig = (input: any): Veo3UiConfig => {
+  const modelId =
+    typeof input?.modelId === "string" && input.modelId in VEO3_CAPABILITIES
+      ? (input.modelId as GoogleVideoModelId)
+      : VEO3_DEFAULT_MODEL_ID;
+  const capability = VEO3_CAPABILITIES[modelId];
+
+  const rawDuration = Number(input?.durationSeconds);
+  const targetDuration = Number.isFinite(rawDuration) ? rawDuration : 6;
+  const durationSeconds = capability.durationsSeconds.reduce((best, candidate) =>
+    Math.abs(candidate - targetDuration) < Math.abs(best - targetDuration) ? candidate : best
+  );
+
+  const rawResolution =
+    typeof input?.resolution === "string" ? (input.resolution.toLowerCase() as Veo3Resolution) : "";
+  const resolution = capability.resolutions.includes(rawResolution as Veo3Resolution)
+    ? (rawResolution as Veo3Resolution)
+    : capability.resolutions.includes("1080p")
+      ? "1080p"
+      : capability.resolutions[0];
+
+  const aspectRatioCandidate = typeof input?.aspectRatio === "string" ? input.aspectRatio : "";
+  const aspectRatio = capability.aspectRatios.includes(aspectRatioCandidate)
+    ? aspectRatioCandidate
+    : capability.aspectRatios[0];
+
+  return {
+    modelId,
+    durationSeconds,
+    resolution,
+    aspectRatio,
+  };
+};
@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+
+// Reference render worker for composition exports (see docs/render-worker-protocol.md).
+// Polls `/api/render-worker/claim`, renders the timeline with the system `ffmpeg`/`ffprobe`,
+// uploads the result to the signed URL and reports back.
+//
+// Keyframe tracks are applied at their first keyframe: a clip's `trim` and `transform` are
+// static for the whole export. Animated tracks need a renderer that evaluates them per frame.
+//
+// Env:
+//   CONVEX_SITE_URL       https://XYZ.convex.site (HTTP actions origin)
+//   RENDER_WORKER_SECRET  same value as the Convex env var
+//   RENDER_WORKER_ID      optional, defaults to render-<hostname>-<pid>
+//   RENDER_POLL_MS        optional idle poll interval, defaults to 5000
+//   FFMPEG_PATH / FFPROBE_PATH  optional binary paths
+
+import { spawn } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { openAsBlob } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import path from "node:path";
+
+const SITE_URL = (process.env.CONVEX_SITE_URL ?? "").replace(/\/+$/, "");
+const SECRET = process.env.RENDER_WORKER_SECRET ?? "";
+const WORKER_ID = process.env.RENDER_WORKER_ID ?? `render-${hostname()}-${process.pid}`;
+const POLL_MS = Number(process.env.RENDER_POLL_MS ?? 5000);
+const FFMPEG = process.env.FFMPEG_PATH ?? "ffmpeg";
+const FFPROBE = process.env.FFPROBE_PATH ?? "ffprobe";
+// The protocol asks for at least one heartbeat a minute.
+const HEARTBEAT_MS = 30 * 1000;
+
+const OUTPUT_EXTENSIONS = { "video/mp4": "mp4", "video/webm": "webm", "video/quicktime": "mov" };
+
+class PermanentError extends Error {}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const callWorkerApi = async (route, body) => {
+  const res = await fetch(`${SITE_URL}/api/render-worker/${route}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${SECRET}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ workerId: WORKER_ID, ...body }),
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(`${route} failed (${res.status}): ${json?.details ?? json?.error ?? "no body"}`);
+  }
+  return json;
+};
+
+const run = (command, args, { onStdout } = {}) =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => {
+      const text = chunk.toString();
+      stdout += text;
+      onStdout?.(text);
+    });
+    child.stderr.on("data", (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${path.basename(command)} exited with ${code}: ${stderr.trim().split("\n").pop() ?? ""}`));
+    });
+    run.current = child;
+  });
+
+const hasAudioStream = async (url) => {
+  const out = await run(FFPROBE, ["-v", "error", "-select_streams", "a", "-show_entries", "stream=index", "-of", "csv=p=0", url]);
+  return out.trim().length > 0;
+};
+
+const firstValue = (tracks, clipId, channel) =>
+  tracks.find((track) => track.clipId === clipId && track.channel === channel)?.keyframes?.[0]?.value ?? null;
+
+// atempo only accepts 0.5–2, so larger speed changes are chained.
+const atempoChain = (speed) => {
+  const filters = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    filters.push("atempo=2");
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push("atempo=0.5");
+    remaining /= 0.5;
+  }
+  filters.push(`atempo=${remaining.toFixed(6)}`);
+  return filters.join(",");
+};
+
+const hexColor = (value) => (/^#[0-9a-f]{6}$/i.test(value ?? "") ? `0x${value.slice(1)}` : "black");
+
+/**
+ * Builds the ffmpeg arguments for one claimed job. Timeline frames are converted to seconds
+ * with the composition fps, source frames with each source's own fps.
+ */
+const buildFfmpegArgs = async (claimed, outputPath) => {
+  const { settings } = claimed.composition;
+  const fps = settings.fps || 24;
+  const width = settings.width;
+  const height = settings.height;
+  const durationSec = settings.durationFrames / fps;
+  if (!(durationSec > 0)) throw new PermanentError("Composition has no duration");
+
+  const inputs = ["-f", "lavfi", "-i", `color=c=${hexColor(settings.backgroundColor)}:s=${width}x${height}:r=${fps}:d=${durationSec}`];
+  const audioSources = new Set();
+  for (const [videoId, source] of Object.entries(claimed.sources)) {
+    if (await hasAudioStream(source.downloadUrl)) audioSources.add(videoId);
+  }
+
+  const filters = [];
+  const audioLabels = [];
+  let base = "0:v";
+  claimed.clips.forEach((clip, i) => {
+    const source = claimed.sources[clip.sourceVideoId];
+    if (!source) throw new PermanentError(`Source missing for clip ${clip._id}`);
+    // One input per clip: a filter graph can read each input stream only once.
+    const input = i + 1;
+    inputs.push("-i", source.downloadUrl);
+    const speed = clip.speed > 0 ? clip.speed : 1;
+    const trim = firstValue(claimed.tracks, clip._id, "trim") ?? {};
+    const trimStart = Math.max(0, Number(trim.start) || 0) / fps;
+    const trimEnd = Math.max(0, Number(trim.end) || 0) / fps;
+    const sourceFps = source.fps || fps;
+    const inSec = clip.sourceInFrame / sourceFps + trimStart * speed;
+    const outSec = clip.sourceOutFrame / sourceFps - trimEnd * speed;
+    if (outSec <= inSec) return;
+    const startSec = clip.timelineStartFrame / fps + trimStart;
+    const endSec = startSec + (outSec - inSec) / speed;
+
+    const transform = firstValue(claimed.tracks, clip._id, "transform") ?? {};
+    const scale = Number(transform.scale) > 0 ? Number(transform.scale) : 1;
+    const angle = ((Number(transform.rotate) || 0) * Math.PI) / 180;
+    const x = Number.isFinite(Number(transform.x)) ? Number(transform.x) : 0.5;
+    const y = Number.isFinite(Number(transform.y)) ? Number(transform.y) : 0.5;
+    const opacity = Math.max(0, Math.min(1, clip.opacity ?? 1));
+
+    filters.push(
+      `[${input}:v]trim=start=${inSec}:end=${outSec},setpts=(PTS-STARTPTS)/${speed}+${startSec}/TB,` +
+        `scale=${Math.round(width * scale)}:${Math.round(height * scale)}:force_original_aspect_ratio=decrease,` +
+        `format=yuva420p,${angle ? `rotate=${angle}:c=none:ow=rotw(${angle}):oh=roth(${angle}),` : ""}` +
+        `colorchannelmixer=aa=${opacity}[clip${i}]`,
+      `[${base}][clip${i}]overlay=x=${x}*W-w/2:y=${y}*H-h/2:eof_action=pass:enable='between(t,${startSec},${endSec})'[base${i}]`,
+    );
+    base = `base${i}`;
+
+    if (clip.audioEnabled && audioSources.has(clip.sourceVideoId)) {
+      const delayMs = Math.round(startSec * 1000);
+      filters.push(
+        `[${input}:a]atrim=start=${inSec}:end=${outSec},asetpts=PTS-STARTPTS,${atempoChain(speed)},adelay=${delayMs}|${delayMs}[aud${i}]`,
+      );
+      audioLabels.push(`[aud${i}]`);
+    }
+  });
+
+  if (!filters.length) throw new PermanentError("No clip has anything left to render after trimming");
+  const maps = ["-map", `[${base}]`];
+  if (audioLabels.length) {
+    filters.push(`${audioLabels.join("")}amix=inputs=${audioLabels.length}:normalize=0,atrim=end=${durationSec}[mix]`);
+    maps.push("-map", "[mix]");
+  }
+  return [
+    "-y",
+    "-v", "error",
+    "-progress", "pipe:1",
+    ...inputs,
+    "-filter_complex", filters.join(";"),
+    ...maps,
+    "-t", String(durationSec),
+    "-r", String(fps),
+    "-pix_fmt", "yuv420p",
+    outputPath,
+  ];
+};
+
+const renderJob = async (claimed) => {
+  const jobId = claimed.job._id;
+  const durationSec = claimed.composition.settings.durationFrames / (claimed.composition.settings.fps || 24);
+  const ext = OUTPUT_EXTENSIONS[claimed.output.contentType];
+  if (!ext) throw new PermanentError(`Unsupported format ${claimed.output.contentType}`);
+
+  const dir = await mkdtemp(path.join(tmpdir(), "reffo-render-"));
+  const outputPath = path.join(dir, `output.${ext}`);
+  let progress = 0;
+  let aborted = false;
+  const heartbeat = setInterval(() => {
+    callWorkerApi("heartbeat", { jobId, progress }).catch((error) => {
+      // JOB_NOT_FOUND: the export was deleted, so stop rendering.
+      console.error(`[${jobId}] heartbeat failed`, error.message);
+      if (/JOB_NOT_FOUND/.test(error.message)) {
+        aborted = true;
+        run.current?.kill("SIGTERM");
+      }
+    });
+  }, HEARTBEAT_MS);
+
+  try {
+    const args = await buildFfmpegArgs(claimed, outputPath);
+    await run(FFMPEG, args, {
+      onStdout: (text) => {
+        const match = /out_time_us=(\d+)/.exec(text);
+        if (match && durationSec > 0) {
+          progress = Math.min(99, Math.floor((Number(match[1]) / 1e6 / durationSec) * 100));
+        }
+      },
+    });
+    if (aborted) return;
+
+    const upload = await fetch(claimed.output.uploadUrl, {
+      method: "PUT",
+      headers: { "Content-Type": claimed.output.contentType },
+      body: await openAsBlob(outputPath),
+    });
+    if (!upload.ok) throw new Error(`Upload failed (${upload.status})`);
+    await callWorkerApi("complete", { jobId, outputStorageKey: claimed.output.storageKey });
+    console.log(`[${jobId}] completed`);
+  } finally {
+    clearInterval(heartbeat);
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+const main = async () => {
+  if (!SITE_URL || !SECRET) {
+    console.error("CONVEX_SITE_URL and RENDER_WORKER_SECRET are required");
+    process.exit(1);
+  }
+  console.log(`Render worker ${WORKER_ID} polling ${SITE_URL}`);
+  for (;;) {
+    let claimed = null;
+    try {
+      claimed = (await callWorkerApi("claim", {})).claimed;
+    } catch (error) {
+      console.error("claim failed", error.message);
+    }
+    if (!claimed) {
+      await sleep(POLL_MS);
+      continue;
+    }
+    const jobId = claimed.job._id;
+    console.log(`[${jobId}] claimed (attempt ${claimed.job.attempts})`);
+    try {
+      await renderJob(claimed);
+    } catch (error) {
+      console.error(`[${jobId}] failed`, error.message);
+      await callWorkerApi("fail", {
+        jobId,
+        error: String(error.message ?? error).slice(0, 500),
+        permanent: error instanceof PermanentError ? true : undefined,
+      }).catch((reportError) => console.error(`[${jobId}] could not report failure`, reportError.message));
+    }
+  }
+};
+
+main();
@@ -1,3 +1,5 @@
+import type { ReviewApprovalStatus, ReviewCommentStatus } from './types/canvas';
+
 export interface Point {
   x: number;
   y: number;
@@ -20,11 +22,20 @@ export enum AnnotationTool {
   VIDEO = 'video',
 }
 
+/** Position of a held annotation on one frame, as an offset (normalized) from where it was drawn. */
+export interface AnnotationKeyframe {
+  frame: number;
+  offset: Point;
+}
+
 export interface BaseAnnotation {
   id: string;
   videoId: string;
   authorId: string;
   frame: number;
+  /** Last frame the annotation stays on screen (inclusive); unset shows it on `frame` only. */
+  frameEnd?: number;
+  keyframes?: AnnotationKeyframe[];
   zIndex?: number;
   color: string;
   lineWidth: number;
@@ -98,6 +109,12 @@ export interface TextAnnotation extends BaseAnnotation {
 
 export type Annotation = FreehandAnnotation | RectangleAnnotation | EllipseAnnotation | ArrowAnnotation | TextAnnotation | ImageAnnotation | VideoAnnotation;
 
+/** Inclusive frame span of a range note, or of one being composed. */
+export interface CommentFrameRange {
+  start: number;
+  end: number;
+}
+
 export interface Comment {
   id: string;
   videoId: string;
@@ -107,10 +124,50 @@ export interface Comment {
   parentId?: string;
   text: string;
   frame?: number;
+  /** Last frame of a range note (inclusive); `frame` is the first. */
+  frameEnd?: number;
   resolved: boolean;
   createdAt: string;
   updatedAt?: number;
   position?: Point;
+  /** Written by a guest reviewer through a share link rather than a signed-in user. */
+  isGuest?: boolean;
+  status?: ReviewCommentStatus;
+  assigneeId?: string;
+  assigneeName?: string;
+  /** Calendar day (YYYY-MM-DD). */
+  dueDate?: string;
+  reactions?: CommentReaction[];
+  attachments?: CommentAttachment[];
+}
+
+export interface CommentReaction {
+  emoji: string;
+  userIds: string[];
+}
+
+export interface CommentAttachment {
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+}
+
+export interface VideoApproval {
+  id: string;
+  videoId: string;
+  revisionId: string | null;
+  storageKey: string;
+  reviewerId: string;
+  reviewerName: string;
+  reviewerAvatar: string | null;
+  status: ReviewApprovalStatus;
+  feedback: string | null;
+  createdAt: number;
+  updatedAt: number;
+  isOwnDecision: boolean;
 }
 
 export interface MentionOption {
@@ -147,6 +204,8 @@ export interface Video {
   width: number;
   height: number;
   fps: number;
+  startTimecode?: string;
+  dropFrame?: boolean;
   duration: number;
   projectId?: string;
   uploadedAt: string;
@@ -184,6 +243,16 @@ export interface ContentShare {
   isActive: boolean;
   createdAt: string;
   expiresAt?: string | null;
+  hasPassword?: boolean;
+  maxViews?: number | null;
+  viewCount?: number;
+  revokedReason?: 'manual' | 'view_limit' | null;
+}
+
+/** Optional restrictions applied when generating a share link. */
+export interface LinkProtection {
+  password?: string;
+  maxViews?: number;
 }
 
 export interface UserSettings {
@@ -7,9 +7,32 @@ export type NanoBananaRunMode = "interactive" | "batch";
 export type NanoBananaResponseMode = "image_only" | "text_and_image";
 export type NanoBananaImageSize = "512" | "1K" | "2K" | "4K";
 
-export type AiNodeType = "prompt" | "image_reference" | "nano_banana" | "nano_banana_pro" | "veo3";
+export type GoogleVideoModelId =
+  | "veo-3.1-generate-preview"
+  | "veo-3.1-fast-generate-preview"
+  | "veo-3.0-generate-001"
+  | "veo-3.0-fast-generate-001";
 
-export type CanonicalAiNodeType = "prompt" | "image_reference" | "nano_banana" | "veo3";
+export type Veo3Resolution = "720p" | "1080p";
+
+export type GoogleTextModelId = "gemini-2.5-flash" | "gemini-2.5-flash-lite" | "gemini-2.5-pro";
+
+export type AiNodeType =
+  | "prompt"
+  | "prompt_template"
+  | "llm_rewrite"
+  | "image_reference"
+  | "nano_banana"
+  | "nano_banana_pro"
+  | "veo3";
+
+export type CanonicalAiNodeType =
+  | "prompt"
+  | "prompt_template"
+  | "llm_rewrite"
+  | "image_reference"
+  | "nano_banana"
+  | "veo3";
 
 export type NodeRunStatus =
   | "blocked"
@@ -32,6 +55,22 @@ export type PromptNode = {
   outputPort: "prompt";
 };
 
+export type PromptTemplateNode = {
+  type: "prompt_template";
+  /** `{{name}}` slots; each one is an input port named `var:<name>`. */
+  template: string;
+  outputPort: "prompt";
+};
+
+export type LlmRewriteNode = {
+  type: "llm_rewrite";
+  textInput: "text";
+  modelId: GoogleTextModelId;
+  instruction: string;
+  temperature: number;
+  outputPort: "prompt";
+};
+
 export type ImageRefNode = {
   type: "image_reference";
   assets: Array<{
@@ -61,12 +100,19 @@ export type Veo3Node = {
   promptInput: "prompt";
   startFrameInput?: "image";
   endFrameInput?: "image";
+  modelId?: GoogleVideoModelId;
   durationSeconds?: number;
-  resolution?: string;
+  resolution?: Veo3Resolution;
   aspectRatio?: string;
 };
 
-export type SubnetworkNodeDto = PromptNode | ImageRefNode | NanoBananaNode | Veo3Node;
+export type SubnetworkNodeDto =
+  | PromptNode
+  | PromptTemplateNode
+  | LlmRewriteNode
+  | ImageRefNode
+  | NanoBananaNode
+  | Veo3Node;
 
 export type CostSummary = {
   selectedRunEstimateUsd: number;
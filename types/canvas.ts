@@ -1,3 +1,5 @@
+import type { CommentAttachment } from "../types";
+
 export type Color = {
   r: number;
   g: number;
@@ -294,6 +296,7 @@ export enum TableColumnType {
   MultiSelect = "multiSelect",
   Image = "image",
   Person = "person",
+  Formula = "formula",
 }
 
 export type TableSelectOption = {
@@ -310,6 +313,24 @@ export type TableColumn = {
   options?: TableSelectOption[]; // Per Select e MultiSelect
   required?: boolean;
   defaultValue?: any;
+  formula?: string; // Per Formula, vedi utils/tableFormula.ts
+  aggregate?: TableAggregate; // Valore mostrato nella riga di totali
+};
+
+export type TableAggregate = "count" | "filled" | "sum" | "avg" | "min" | "max";
+
+export type TableSortRule = {
+  columnId: string;
+  direction: "asc" | "desc";
+};
+
+export type TableFilterOperator = "contains" | "equals" | "notEquals" | "gt" | "lt" | "isEmpty" | "isNotEmpty";
+
+export type TableFilterRule = {
+  id: string;
+  columnId: string;
+  operator: TableFilterOperator;
+  value?: string;
 };
 
 export type TableCell = {
@@ -339,8 +360,11 @@ export type TableLayer = {
   headerColor?: Color;
   alternateRowColors?: boolean;
   showRowNumbers?: boolean;
-  allowSorting?: boolean;
-  allowFiltering?: boolean;
+  // Vista: ordinamento, filtri e raggruppamento cambiano solo la visualizzazione, non l'ordine di `rows`
+  sortRules?: TableSortRule[];
+  filterRules?: TableFilterRule[];
+  groupByColumnId?: string;
+  showFooter?: boolean;
   opacity?: number;
 };
 
@@ -570,6 +594,9 @@ export interface ReviewComment {
   parentCommentId?: string;
   threadId: string;
   status: ReviewCommentStatus;
+  assigneeId?: string;
+  // YYYY-MM-DD, see utils/commentTasks.
+  dueDate?: string;
   resolvedBy?: string;
   resolvedAt?: string;
   isDeleted: boolean;
@@ -578,6 +605,7 @@ export interface ReviewComment {
     type: string;
     createdAt: string;
   }>;
+  attachments?: CommentAttachment[];
 }
 
 export interface ReviewVideoFrame {
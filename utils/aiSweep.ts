@@ -0,0 +1,187 @@
+/**
+ * Parameter sweeps for image generation nodes. A node lists values per axis in `config.sweep`;
+ * launching it runs one child node run per combination of those values, times `repeats`.
+ * An axis left empty keeps the node's own setting. Workflow runs ignore the sweep and run the
+ * node once with its own settings.
+ */
+
+export type AiSweep = {
+  promptFragments?: string[];
+  aspectRatios?: string[];
+  imageSizes?: string[];
+  /** 1-based reference numbers, in the order the node's references are connected. */
+  referenceSubsets?: number[][];
+  repeats?: number;
+};
+
+export type AiSweepVariant = {
+  index: number;
+  label: string;
+  promptFragment?: string;
+  aspectRatio?: string;
+  imageSize?: string;
+  referenceSubset?: number[];
+  /** 1-based; only above 1 when the sweep repeats. */
+  repeat: number;
+};
+
+export const MAX_SWEEP_VARIANTS = 36;
+export const MAX_SWEEP_REPEATS = 8;
+
+const MAX_FRAGMENT_LABEL_LENGTH = 24;
+
+const uniqueStrings = (value: unknown) => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  for (const item of value) {
+    const text = typeof item === "string" ? item.trim() : "";
+    if (text) seen.add(text);
+  }
+  return Array.from(seen);
+};
+
+const normalizeSubset = (value: unknown) => {
+  if (!Array.isArray(value)) return null;
+  const numbers = value
+    .map((item) => Math.floor(Number(item)))
+    .filter((item) => Number.isFinite(item) && item >= 1);
+  return Array.from(new Set(numbers)).sort((a, b) => a - b);
+};
+
+/** Cleans a stored or edited sweep; undefined when it would produce a single plain run. */
+export const normalizeAiSweep = (raw: unknown): AiSweep | undefined => {
+  const input = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+
+  const subsetKeys = new Set<string>();
+  const referenceSubsets: number[][] = [];
+  for (const item of Array.isArray(input.referenceSubsets) ? input.referenceSubsets : []) {
+    const subset = normalizeSubset(item);
+    if (!subset || subsetKeys.has(subset.join(","))) continue;
+    subsetKeys.add(subset.join(","));
+    referenceSubsets.push(subset);
+  }
+
+  const sweep: AiSweep = {
+    promptFragments: uniqueStrings(input.promptFragments),
+    aspectRatios: uniqueStrings(input.aspectRatios),
+    imageSizes: uniqueStrings(input.imageSizes),
+    referenceSubsets,
+    repeats: Math.max(1, Math.min(MAX_SWEEP_REPEATS, Math.floor(Number(input.repeats) || 1))),
+  };
+
+  const hasAxis =
+    sweep.promptFragments!.length > 0 ||
+    sweep.aspectRatios!.length > 0 ||
+    sweep.imageSizes!.length > 0 ||
+    sweep.referenceSubsets!.length > 0;
+  return hasAxis || sweep.repeats! > 1 ? sweep : undefined;
+};
+
+/** Drops swept aspect ratios and sizes a model can't produce, e.g. after switching models. */
+export const restrictAiSweep = (
+  sweep: AiSweep | undefined,
+  allowed: { aspectRatios: string[]; imageSizes: string[] }
+) =>
+  sweep
+    ? normalizeAiSweep({
+        ...sweep,
+        aspectRatios: sweep.aspectRatios?.filter((ratio) => allowed.aspectRatios.includes(ratio)),
+        imageSizes: sweep.imageSizes?.filter((size) => allowed.imageSizes.includes(size)),
+      })
+    : undefined;
+
+export const countSweepVariants = (sweep: AiSweep | undefined) => {
+  if (!sweep) return 1;
+  const axisLength = (values?: unknown[]) => Math.max(1, values?.length ?? 0);
+  return (
+    axisLength(sweep.promptFragments) *
+    axisLength(sweep.aspectRatios) *
+    axisLength(sweep.imageSizes) *
+    axisLength(sweep.referenceSubsets) *
+    Math.max(1, sweep.repeats ?? 1)
+  );
+};
+
+const fragmentLabel = (fragment: string) =>
+  fragment.length > MAX_FRAGMENT_LABEL_LENGTH
+    ? `${fragment.slice(0, MAX_FRAGMENT_LABEL_LENGTH - 1).trimEnd()}…`
+    : fragment;
+
+export const formatReferenceSubset = (subset: number[]) =>
+  subset.length === 0 ? "no refs" : `refs ${subset.join(",")}`;
+
+/** Every combination of the sweep's axes, prompt fragments outermost and repeats innermost. */
+export const expandAiSweep = (sweep: AiSweep): AiSweepVariant[] => {
+  const axis = <T>(values: T[] | undefined) => (values && values.length > 0 ? values : [undefined]);
+  const repeats = Math.max(1, sweep.repeats ?? 1);
+
+  const variants: AiSweepVariant[] = [];
+  for (const promptFragment of axis(sweep.promptFragments)) {
+    for (const aspectRatio of axis(sweep.aspectRatios)) {
+      for (const imageSize of axis(sweep.imageSizes)) {
+        for (const referenceSubset of axis(sweep.referenceSubsets)) {
+          for (let repeat = 1; repeat <= repeats; repeat++) {
+            const parts = [
+              promptFragment !== undefined ? fragmentLabel(promptFragment) : null,
+              aspectRatio ?? null,
+              imageSize ?? null,
+              referenceSubset !== undefined ? formatReferenceSubset(referenceSubset) : null,
+              repeats > 1 ? `#${repeat}` : null,
+            ].filter((part): part is string => Boolean(part));
+            variants.push({
+              index: variants.length,
+              label: parts.join(" · ") || `#${repeat}`,
+              promptFragment,
+              aspectRatio,
+              imageSize,
+              referenceSubset,
+              repeat,
+            });
+          }
+        }
+      }
+    }
+  }
+  return variants;
+};
+
+/** Parses "1,2; 3; none" into reference subsets; "none" stands for a run without references. */
+export const parseReferenceSubsets = (text: string): number[][] =>
+  text
+    .split(";")
+    .map((group) => group.trim())
+    .filter(Boolean)
+    .map((group) =>
+      /^none$/i.test(group)
+        ? []
+        : group
+            .split(/[\s,]+/)
+            .map((item) => Math.floor(Number(item)))
+            .filter((item) => Number.isFinite(item) && item >= 1)
+    );
+
+export const formatReferenceSubsets = (subsets: number[][] | undefined) =>
+  (subsets ?? []).map((subset) => (subset.length === 0 ? "none" : subset.join(","))).join("; ");
+
+/**
+ * Drag payload for a contact sheet: outputs in sheet order, laid out `columns` wide when dropped
+ * on the board. Single outputs use "application/x-reffo-ai-output" with one of these items.
+ */
+export const AI_OUTPUT_GRID_MIME_TYPE = "application/x-reffo-ai-output-grid";
+
+export type AiOutputDragItem = {
+  outputType: string;
+  title?: string;
+  publicUrl?: string;
+  storageKey?: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+};
+
+export type AiOutputGridPayload = {
+  columns: number;
+  outputs: AiOutputDragItem[];
+};
+
+export const contactSheetColumns = (count: number) => Math.max(1, Math.ceil(Math.sqrt(count)));
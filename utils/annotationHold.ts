@@ -0,0 +1,141 @@
+/**
+ * Held annotations: a drawing stays on screen from `frame` through `frameEnd`, optionally
+ * following position keyframes. Keyframes store offsets from the drawn geometry, so the
+ * shape itself is never rewritten per frame; renderers pose a copy for the frame they show.
+ */
+import {
+  Annotation,
+  AnnotationKeyframe,
+  AnnotationTool,
+  ArrowAnnotation,
+  EllipseAnnotation,
+  FreehandAnnotation,
+  ImageAnnotation,
+  Point,
+  RectangleAnnotation,
+  TextAnnotation,
+  VideoAnnotation,
+} from '../types';
+
+type HoldFields = { frame: number; frameEnd?: number | null; keyframes?: AnnotationKeyframe[] | null };
+
+const ZERO: Point = { x: 0, y: 0 };
+
+export const annotationLastFrame = (annotation: HoldFields) =>
+  typeof annotation.frameEnd === 'number' && annotation.frameEnd > annotation.frame ? annotation.frameEnd : annotation.frame;
+
+export const isAnnotationHeld = (annotation: HoldFields) => annotationLastFrame(annotation) > annotation.frame;
+
+export const isAnnotationVisibleAt = (annotation: HoldFields, frame: number) =>
+  frame >= annotation.frame && frame <= annotationLastFrame(annotation);
+
+/**
+ * Offset of the annotation at `frame`, interpolated linearly between keyframes. The start
+ * frame is an implicit keyframe at no offset unless one is stored there; past the last
+ * keyframe the shape stays where that keyframe put it.
+ */
+export function annotationOffsetAt(annotation: HoldFields, frame: number): Point {
+  const stored = (annotation.keyframes ?? []).filter((key) => key.frame >= annotation.frame);
+  if (stored.length === 0) return ZERO;
+  const keys = stored.some((key) => key.frame === annotation.frame)
+    ? [...stored]
+    : [{ frame: annotation.frame, offset: ZERO }, ...stored];
+  keys.sort((a, b) => a.frame - b.frame);
+  if (frame <= keys[0].frame) return keys[0].offset;
+  for (let i = 1; i < keys.length; i++) {
+    const next = keys[i];
+    if (frame > next.frame) continue;
+    const prev = keys[i - 1];
+    const t = (frame - prev.frame) / Math.max(1, next.frame - prev.frame);
+    return {
+      x: prev.offset.x + (next.offset.x - prev.offset.x) * t,
+      y: prev.offset.y + (next.offset.y - prev.offset.y) * t,
+    };
+  }
+  return keys[keys.length - 1].offset;
+}
+
+/** Keyframes with `frame` set to `offset`, replacing any keyframe already on that frame. */
+export const withKeyframe = (keyframes: AnnotationKeyframe[] | undefined, frame: number, offset: Point) =>
+  [...(keyframes ?? []).filter((key) => key.frame !== frame), { frame, offset }].sort((a, b) => a.frame - b.frame);
+
+/** Drops keyframes that fall outside the hold, e.g. after it was shortened. */
+export const keyframesWithinHold = (annotation: HoldFields) => {
+  const last = annotationLastFrame(annotation);
+  const kept = (annotation.keyframes ?? []).filter((key) => key.frame >= annotation.frame && key.frame <= last);
+  return kept.length > 0 ? kept : undefined;
+};
+
+export function translateAnnotation(annotation: Annotation, dx: number, dy: number): Annotation {
+  switch (annotation.type) {
+    case AnnotationTool.RECTANGLE:
+    case AnnotationTool.ELLIPSE:
+    case AnnotationTool.IMAGE:
+    case AnnotationTool.VIDEO: {
+      const typed = annotation as RectangleAnnotation | EllipseAnnotation | ImageAnnotation | VideoAnnotation;
+      if (!typed.center) return annotation;
+      return { ...typed, center: { x: typed.center.x + dx, y: typed.center.y + dy } };
+    }
+    case AnnotationTool.ARROW: {
+      const typed = annotation as ArrowAnnotation;
+      return {
+        ...typed,
+        start: { x: typed.start.x + dx, y: typed.start.y + dy },
+        end: { x: typed.end.x + dx, y: typed.end.y + dy },
+      };
+    }
+    case AnnotationTool.FREEHAND: {
+      const typed = annotation as FreehandAnnotation;
+      return { ...typed, points: typed.points.map((point) => ({ x: point.x + dx, y: point.y + dy })) };
+    }
+    case AnnotationTool.TEXT: {
+      const typed = annotation as TextAnnotation;
+      if (!typed.position) return annotation;
+      return { ...typed, position: { x: typed.position.x + dx, y: typed.position.y + dy } };
+    }
+    default:
+      return annotation;
+  }
+}
+
+/** The annotation as it appears on `frame`: moved along its keyframes. */
+export function poseAnnotation(annotation: Annotation, frame: number): Annotation {
+  const offset = annotationOffsetAt(annotation, frame);
+  if (offset.x === 0 && offset.y === 0) return annotation;
+  return translateAnnotation(annotation, offset.x, offset.y);
+}
+
+// Reference point used to tell how far an edit moved a shape.
+function annotationAnchor(annotation: Annotation): Point | null {
+  switch (annotation.type) {
+    case AnnotationTool.ARROW:
+      return (annotation as ArrowAnnotation).start ?? null;
+    case AnnotationTool.FREEHAND:
+      return (annotation as FreehandAnnotation).points?.[0] ?? null;
+    case AnnotationTool.TEXT:
+      return (annotation as TextAnnotation).position ?? null;
+    default:
+      return (annotation as RectangleAnnotation).center ?? null;
+  }
+}
+
+/**
+ * Turns an edit made on a posed annotation back into stored form. Moving a held shape on
+ * any frame after its first records a keyframe there; on its first frame (or when it isn't
+ * held) the drawn geometry itself moves, taking the keyframed path along with it.
+ */
+export function unposeAnnotation(edited: Annotation, original: Annotation, frame: number): Annotation {
+  const offset = annotationOffsetAt(original, frame);
+  const before = annotationAnchor(poseAnnotation(original, frame));
+  const after = annotationAnchor(edited);
+  const moved = before && after ? { x: after.x - before.x, y: after.y - before.y } : ZERO;
+  const keyed = frame !== original.frame && isAnnotationHeld(original) && (moved.x !== 0 || moved.y !== 0);
+  const nextOffset = keyed ? { x: offset.x + moved.x, y: offset.y + moved.y } : offset;
+  const base = nextOffset.x === 0 && nextOffset.y === 0 ? edited : translateAnnotation(edited, -nextOffset.x, -nextOffset.y);
+  return {
+    ...base,
+    frame: original.frame,
+    frameEnd: original.frameEnd,
+    keyframes: keyed ? withKeyframe(original.keyframes, frame, nextOffset) : original.keyframes,
+  } as Annotation;
+}
@@ -50,4 +50,63 @@ export function colorDistance(c1: string, c2: string): number {
     Math.pow(g1 - g2, 2) +
     Math.pow(b1 - b2, 2)
   );
-} 
\ No newline at end of file
+} 
+/**
+ * Converts a HEX color to CIE L*a*b* (D65 white point)
+ * 
+ * @param hex - HEX color string (e.g., "#FF5500")
+ * @returns Array of [L, a, b] values
+ */
+export function hexToLab(hex: string): [number, number, number] {
+  const [r, g, b] = hexToRgb(hex).map((channel) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+
+  const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+  const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+  const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Perceptual distance between two Lab colors (CIE76 delta E)
+ * 
+ * @returns Distance value; around 2 is barely noticeable, above 50 the colors are unrelated
+ */
+export function labDistance(c1: readonly number[], c2: readonly number[]): number {
+  return Math.sqrt(
+    Math.pow(c1[0] - c2[0], 2) +
+    Math.pow(c1[1] - c2[1], 2) +
+    Math.pow(c1[2] - c2[2], 2)
+  );
+}
+
+/**
+ * Flattens a palette into the Lab vector stored as an asset's `colorFingerprint`
+ * 
+ * @param colors - Array of HEX color strings
+ * @returns [L1, a1, b1, L2, a2, b2, ...]
+ */
+export function paletteToLabFingerprint(colors: string[]): number[] {
+  return colors
+    .filter((color) => /^#?[0-9a-f]{6}$/i.test(color.trim()))
+    .flatMap((color) => hexToLab(color.trim()).map((value) => Math.round(value * 100) / 100));
+}
+
+/**
+ * Splits a `colorFingerprint` back into Lab triples
+ */
+export function labFingerprintToPalette(fingerprint: number[]): [number, number, number][] {
+  const palette: [number, number, number][] = [];
+  for (let i = 0; i + 2 < fingerprint.length; i += 3) {
+    palette.push([fingerprint[i], fingerprint[i + 1], fingerprint[i + 2]]);
+  }
+  return palette;
+}
@@ -0,0 +1,45 @@
+/**
+ * Limits for files attached to review comments. The comments pane checks them before
+ * uploading, `comments.create` against what the client reports, and
+ * `storage.verifyCommentAttachments` against the stored objects.
+ */
+
+export type CommentAttachmentKind = 'image' | 'video' | 'pdf';
+
+export const MAX_COMMENT_ATTACHMENTS = 4;
+
+const ATTACHMENT_MIME_TYPES: Record<CommentAttachmentKind, string[]> = {
+  image: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  video: ['video/mp4', 'video/webm', 'video/quicktime'],
+  pdf: ['application/pdf'],
+};
+
+export const COMMENT_ATTACHMENT_MAX_BYTES: Record<CommentAttachmentKind, number> = {
+  image: 20 * 1024 * 1024,
+  video: 100 * 1024 * 1024,
+  pdf: 25 * 1024 * 1024,
+};
+
+export const COMMENT_ATTACHMENT_ACCEPT = Object.values(ATTACHMENT_MIME_TYPES).flat().join(',');
+
+export const commentAttachmentKind = (mimeType: string): CommentAttachmentKind | null => {
+  const normalized = mimeType.toLowerCase();
+  const match = (Object.keys(ATTACHMENT_MIME_TYPES) as CommentAttachmentKind[]).find((kind) =>
+    ATTACHMENT_MIME_TYPES[kind].includes(normalized),
+  );
+  return match ?? null;
+};
+
+/** Why a file can't be attached, or null when it can. */
+export const commentAttachmentError = (mimeType: string, size: number): string | null => {
+  const kind = commentAttachmentKind(mimeType);
+  if (!kind) return 'Only images, PDFs and MP4/WebM/MOV clips can be attached';
+  const limit = COMMENT_ATTACHMENT_MAX_BYTES[kind];
+  if (size > limit) return `${kind === 'pdf' ? 'PDFs' : kind === 'image' ? 'Images' : 'Clips'} are limited to ${Math.round(limit / (1024 * 1024))} MB`;
+  return null;
+};
+
+export const formatAttachmentSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,242 @@
+/**
+ * Serializers for exporting review comments to editorial tools.
+ *
+ * - CSV: one row per comment (replies included, linked to their thread).
+ * - EDL: CMX3600 with an event and `* LOC:` locator per thread; range notes span their frames.
+ * - Marker XML: FCP7 xmeml sequence markers, which both Premiere and Resolve import.
+ *
+ * Range notes store an inclusive last frame; EDL and XML out points are exclusive, hence the +1.
+ */
+import type { Comment, Video } from '../types';
+import { TimecodeFormat, formatTimecodeFrames, frameToTimecode, frameToTimecodeFrames, getTimebase } from './timecode';
+
+export type CommentExportFormat = 'csv' | 'edl' | 'xml';
+
+export interface CommentExportThread {
+  comment: Comment;
+  replies: Comment[];
+}
+
+export interface CommentExportOptions {
+  video: Pick<Video, 'id' | 'title' | 'duration'>;
+  format: TimecodeFormat;
+  // Snapshot of the annotated frame, keyed by frame number.
+  thumbnails?: Record<number, string>;
+  // Deep link back into the reviewer for a comment.
+  buildReviewUrl?: (comment: Comment) => string;
+}
+
+export const COMMENT_EXPORT_EXTENSIONS: Record<CommentExportFormat, string> = {
+  csv: 'csv',
+  edl: 'edl',
+  xml: 'xml',
+};
+
+const COMMENT_EXPORT_MIME: Record<CommentExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  edl: 'text/plain;charset=utf-8',
+  xml: 'application/xml;charset=utf-8',
+};
+
+/**
+ * Groups comments into threads ordered by frame (unframed threads last), then by creation time.
+ */
+export function buildCommentThreads(comments: Comment[]): CommentExportThread[] {
+  const byId = new Map<string, CommentExportThread>();
+  const roots: CommentExportThread[] = [];
+  comments.forEach((comment) => {
+    if (!comment.parentId) {
+      const thread = { comment, replies: [] };
+      byId.set(comment.id, thread);
+      roots.push(thread);
+    }
+  });
+  comments.forEach((comment) => {
+    if (!comment.parentId) return;
+    const parent = byId.get(comment.parentId);
+    if (parent) {
+      parent.replies.push(comment);
+    } else {
+      // Orphaned reply (parent deleted): keep it as its own thread.
+      roots.push({ comment, replies: [] });
+    }
+  });
+  const createdAt = (c: Comment) => Date.parse(c.createdAt) || 0;
+  roots.forEach((thread) => thread.replies.sort((a, b) => createdAt(a) - createdAt(b)));
+  return roots.sort((a, b) => {
+    const fa = a.comment.frame ?? Number.POSITIVE_INFINITY;
+    const fb = b.comment.frame ?? Number.POSITIVE_INFINITY;
+    if (fa !== fb) return fa - fb;
+    return createdAt(a.comment) - createdAt(b.comment);
+  });
+}
+
+const singleLine = (value: string) => value.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+
+const csvCell = (value: string | number | boolean | null | undefined) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const xmlEscape = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// EDL readers choke on non-ASCII; fold accents and drop the rest.
+const edlText = (value: string) =>
+  singleLine(value)
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7e]/g, '');
+
+const threadNote = (thread: CommentExportThread) => {
+  const lines = [`${thread.comment.authorName}: ${singleLine(thread.comment.text)}`];
+  thread.replies.forEach((reply) => lines.push(`> ${reply.authorName}: ${singleLine(reply.text)}`));
+  return lines;
+};
+
+const framedThreads = (threads: CommentExportThread[]) =>
+  threads.filter((thread) => typeof thread.comment.frame === 'number');
+
+// Exclusive out frame of a thread: one past its range, or one frame for a single-frame note.
+const threadOutFrame = (thread: CommentExportThread) =>
+  (typeof thread.comment.frameEnd === 'number' ? thread.comment.frameEnd : thread.comment.frame!) + 1;
+
+export function commentsToCsv(comments: Comment[], options: CommentExportOptions): string {
+  const header = ['Thread', 'Type', 'Frame', 'Timecode', 'End frame', 'End timecode', 'Author', 'Comment', 'Resolved', 'Created', 'Annotation thumbnail', 'Review link'];
+  const rows: string[] = [header.join(',')];
+  buildCommentThreads(comments).forEach((thread, index) => {
+    [thread.comment, ...thread.replies].forEach((comment, replyIndex) => {
+      const frame = comment.frame ?? thread.comment.frame;
+      // Ranges belong to the thread root; replies repeat them so each row stands alone.
+      const frameEnd = thread.comment.frameEnd;
+      rows.push(
+        [
+          index + 1,
+          replyIndex === 0 ? 'comment' : 'reply',
+          frame ?? '',
+          typeof frame === 'number' ? frameToTimecode(frame, options.format) : '',
+          frameEnd ?? '',
+          typeof frameEnd === 'number' ? frameToTimecode(frameEnd, options.format) : '',
+          comment.authorName,
+          comment.text,
+          // Resolution is tracked on the thread root.
+          thread.comment.resolved ? 'yes' : 'no',
+          comment.createdAt,
+          typeof frame === 'number' ? options.thumbnails?.[frame] ?? '' : '',
+          options.buildReviewUrl?.(comment) ?? '',
+        ]
+          .map(csvCell)
+          .join(','),
+      );
+    });
+  });
+  return `${rows.join('\r\n')}\r\n`;
+}
+
+export function commentsToEdl(comments: Comment[], options: CommentExportOptions): string {
+  const { format } = options;
+  const timebase = getTimebase(format.fps, format.dropFrame);
+  const tc = (tcFrames: number) => formatTimecodeFrames(tcFrames, timebase, format.dropFrame);
+  const lines = [
+    `TITLE: ${edlText(options.video.title).slice(0, 70) || 'REVIEW NOTES'}`,
+    `FCM: ${format.dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+    '',
+  ];
+  framedThreads(buildCommentThreads(comments)).forEach((thread, index) => {
+    const start = frameToTimecodeFrames(thread.comment.frame!, format) + format.startFrame;
+    const end = frameToTimecodeFrames(threadOutFrame(thread), format) + format.startFrame;
+    const event = String(index + 1).padStart(3, '0');
+    const color = thread.comment.resolved ? 'GREEN' : 'RED';
+    lines.push(`${event}  AX       V     C        ${tc(start)} ${tc(end)} ${tc(start)} ${tc(end)}`);
+    lines.push(`* FROM CLIP NAME: ${edlText(options.video.title) || 'REVIEW'}`);
+    const [note, ...replies] = threadNote(thread).map(edlText);
+    lines.push(`* LOC: ${tc(start)} ${color.padEnd(7)} ${note}${thread.comment.resolved ? ' [RESOLVED]' : ''}`);
+    replies.forEach((reply) => lines.push(`* ${reply}`));
+    const thumbnail = options.thumbnails?.[thread.comment.frame!];
+    if (thumbnail) lines.push(`* THUMBNAIL: ${thumbnail}`);
+    const link = options.buildReviewUrl?.(thread.comment);
+    if (link) lines.push(`* LINK: ${link}`);
+    lines.push('');
+  });
+  return lines.join('\r\n');
+}
+
+export function commentsToMarkerXml(comments: Comment[], options: CommentExportOptions): string {
+  const { format, video } = options;
+  const timebase = getTimebase(format.fps, format.dropFrame);
+  const ntsc = format.dropFrame ? 'TRUE' : 'FALSE';
+  const rate = `<rate><timebase>${timebase}</timebase><ntsc>${ntsc}</ntsc></rate>`;
+  const duration = Math.max(1, frameToTimecodeFrames(Math.round(video.duration * format.fps), format));
+  const markers = framedThreads(buildCommentThreads(comments)).map((thread) => {
+    const inFrame = frameToTimecodeFrames(thread.comment.frame!, format);
+    // Single-frame notes stay point markers (-1); range notes become duration markers.
+    const outFrame = typeof thread.comment.frameEnd === 'number' ? frameToTimecodeFrames(threadOutFrame(thread), format) : -1;
+    const details = threadNote(thread);
+    details.push(`Resolved: ${thread.comment.resolved ? 'yes' : 'no'}`);
+    const thumbnail = options.thumbnails?.[thread.comment.frame!];
+    if (thumbnail) details.push(`Thumbnail: ${thumbnail}`);
+    const link = options.buildReviewUrl?.(thread.comment);
+    if (link) details.push(`Link: ${link}`);
+    return [
+      '    <marker>',
+      `      <name>${xmlEscape(`${thread.comment.authorName}${thread.comment.resolved ? ' (resolved)' : ''}`)}</name>`,
+      `      <comment>${xmlEscape(details.join('\n'))}</comment>`,
+      `      <in>${inFrame}</in>`,
+      `      <out>${outFrame}</out>`,
+      '    </marker>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE xmeml>',
+    '<xmeml version="5">',
+    `  <sequence id="${xmlEscape(video.id)}">`,
+    `    <name>${xmlEscape(video.title || 'Review notes')}</name>`,
+    `    <duration>${duration}</duration>`,
+    `    ${rate}`,
+    '    <timecode>',
+    `      ${rate}`,
+    `      <string>${formatTimecodeFrames(format.startFrame, timebase, format.dropFrame)}</string>`,
+    `      <frame>${format.startFrame}</frame>`,
+    `      <displayformat>${format.dropFrame ? 'DF' : 'NDF'}</displayformat>`,
+    '    </timecode>',
+    '    <media><video><track/></video></media>',
+    ...markers,
+    '  </sequence>',
+    '</xmeml>',
+    '',
+  ].join('\n');
+}
+
+export function serializeComments(kind: CommentExportFormat, comments: Comment[], options: CommentExportOptions): string {
+  switch (kind) {
+    case 'edl':
+      return commentsToEdl(comments, options);
+    case 'xml':
+      return commentsToMarkerXml(comments, options);
+    case 'csv':
+    default:
+      return commentsToCsv(comments, options);
+  }
+}
+
+export function downloadCommentExport(kind: CommentExportFormat, contents: string, baseName: string) {
+  // Excel only detects UTF-8 CSV with a BOM.
+  const blob = new Blob([kind === 'csv' ? `\uFEFF${contents}` : contents], { type: COMMENT_EXPORT_MIME[kind] });
+  const url = URL.createObjectURL(blob);
+  const safeName = baseName
+    .toLowerCase()
+    .replace(/[^a-z0-9-_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${safeName || 'review'}-notes.${COMMENT_EXPORT_EXTENSIONS[kind]}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,8 @@
+import type { Comment } from '../types';
+
+/** True when the note sits on `frame`: its own frame, or anywhere inside its range. */
+export const commentCoversFrame = (comment: Pick<Comment, 'frame' | 'frameEnd'>, frame: number) => {
+  if (comment.frame === undefined || comment.frame === null) return false;
+  if (comment.frameEnd === undefined || comment.frameEnd === null) return comment.frame === frame;
+  return frame >= comment.frame && frame <= comment.frameEnd;
+};
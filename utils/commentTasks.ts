@@ -0,0 +1,66 @@
+/**
+ * Task fields of review comments: status, assignee, due date and reactions.
+ * Shared by the Convex mutations (validation) and the comments pane (filters and labels).
+ */
+import type { ReviewCommentStatus } from '../types/canvas';
+
+export const COMMENT_STATUSES: ReviewCommentStatus[] = ['open', 'acknowledged', 'resolved'];
+
+export const COMMENT_STATUS_LABELS: Record<ReviewCommentStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved',
+};
+
+export const COMMENT_REACTIONS = ['👍', '👀', '❤️', '🔥', '🎉', '❓'] as const;
+
+// Due dates are calendar days, stored like table date cells so they don't shift across time zones.
+const DUE_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidDueDate = (value: string) => DUE_DATE_RE.test(value) && !Number.isNaN(Date.parse(value));
+
+/** Today's date as YYYY-MM-DD in the viewer's time zone. */
+export const todayDueDate = (now = new Date()) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+type CommentTaskFields = {
+  status?: ReviewCommentStatus | null;
+  resolved?: boolean;
+  assigneeId?: string | null;
+  dueDate?: string | null;
+};
+
+/** Status of a comment stored before statuses existed: only the resolved flag tells. */
+export const commentStatusOf = (comment: CommentTaskFields): ReviewCommentStatus =>
+  comment.status ?? (comment.resolved ? 'resolved' : 'open');
+
+/** A note is overdue once its due day has passed and it still isn't resolved. */
+export const isCommentOverdue = (comment: CommentTaskFields, today = todayDueDate()) =>
+  Boolean(comment.dueDate) && commentStatusOf(comment) !== 'resolved' && comment.dueDate! < today;
+
+export type CommentStatusFilter = 'all' | ReviewCommentStatus;
+
+export interface CommentTaskFilters {
+  status: CommentStatusFilter;
+  assignedToMe: boolean;
+  overdueOnly: boolean;
+}
+
+/** Status, "assigned to me" and "overdue" filters shared by the comment lists. "Assigned to me" is ignored when signed out. */
+export const matchesCommentTaskFilters = (
+  comment: CommentTaskFields,
+  filters: CommentTaskFilters,
+  currentUserId: string | null,
+) => {
+  if (filters.status !== 'all' && commentStatusOf(comment) !== filters.status) return false;
+  if (filters.assignedToMe && currentUserId && comment.assigneeId !== currentUserId) return false;
+  if (filters.overdueOnly && !isCommentOverdue(comment)) return false;
+  return true;
+};
+
+export const formatDueDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
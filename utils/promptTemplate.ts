@@ -0,0 +1,32 @@
+/**
+ * `{{variable}}` slots in prompt template nodes. Every slot becomes an input port named
+ * `var:<name>`, so the graph editor and the run preparation agree on where a value comes from.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+const VARIABLE_PORT_PREFIX = "var:";
+
+/** Slot names in order of first appearance. */
+export const extractTemplateVariables = (template: string) => {
+  const names: string[] = [];
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+export const templateVariablePort = (name: string) => `${VARIABLE_PORT_PREFIX}${name}`;
+
+export const templateVariableFromPort = (port: string) =>
+  port.startsWith(VARIABLE_PORT_PREFIX) ? port.slice(VARIABLE_PORT_PREFIX.length) : null;
+
+/** Fills the slots; unfilled ones render empty and are reported in `missing`. */
+export const renderPromptTemplate = (template: string, values: Record<string, string>) => {
+  const missing = new Set<string>();
+  const text = template.replace(VARIABLE_PATTERN, (_slot, name: string) => {
+    const value = values[name];
+    if (value === undefined) missing.add(name);
+    return value ?? "";
+  });
+  return { text: text.trim(), missing: Array.from(missing) };
+};
@@ -0,0 +1,92 @@
+/**
+ * Client-side shot-change detection for "hold until next cut". Videos carry no cut list, so
+ * this scans forward from a frame with a hidden player and compares brightness histograms of
+ * consecutive frames. It is a one-off scan per request, bounded by `maxFrames`.
+ */
+
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+const BINS = 32;
+
+type FindNextCutOptions = {
+  fromFrame: number;
+  fps: number;
+  /** Give up after this many frames; defaults to ten seconds of video. */
+  maxFrames?: number;
+  /** Histogram distance (0–1) that counts as a cut. */
+  threshold?: number;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('Could not read the video'));
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = time;
+  });
+
+const lumaHistogram = (context: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  context.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const { data } = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const histogram = new Float32Array(BINS);
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    histogram[Math.min(BINS - 1, Math.floor((luma / 256) * BINS))] += 1 / pixels;
+  }
+  return histogram;
+};
+
+const histogramDistance = (a: Float32Array, b: Float32Array) => {
+  let total = 0;
+  for (let i = 0; i < BINS; i++) total += Math.abs(a[i] - b[i]);
+  return total / 2;
+};
+
+/** First frame of the next shot after `fromFrame`, or null when none shows up within `maxFrames`. */
+export async function findNextCut(src: string, { fromFrame, fps, maxFrames, threshold = 0.35 }: FindNextCutOptions): Promise<number | null> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = src;
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.addEventListener('loadeddata', () => resolve(), { once: true });
+      video.addEventListener('error', () => reject(new Error('Could not read the video')), { once: true });
+    });
+    const lastFrame = Math.min(
+      fromFrame + (maxFrames ?? Math.round(fps * 10)),
+      Math.floor(video.duration * fps) - 1,
+    );
+    await seekTo(video, (fromFrame + 0.5) / fps);
+    let previous = lumaHistogram(context, video);
+    for (let frame = fromFrame + 1; frame <= lastFrame; frame++) {
+      await seekTo(video, (frame + 0.5) / fps);
+      const current = lumaHistogram(context, video);
+      if (histogramDistance(previous, current) >= threshold) return frame;
+      previous = current;
+    }
+    return null;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Parameters of subnetwork templates. A template exposes single config fields of its nodes
+ * (a prompt's text, an image node's aspect ratio, ...) and the instantiate form asks for a
+ * value per field. The server normalizes the node config afterwards, so a value the node's
+ * model doesn't support falls back to that model's default.
+ */
+
+export type TemplateParameterInput = "text" | "textarea" | "number" | "select";
+
+export type TemplateParameterField = {
+  field: string;
+  label: string;
+  input: TemplateParameterInput;
+};
+
+export type TemplateParameter = {
+  key: string;
+  label: string;
+  /** Node id inside the template snapshot. */
+  nodeId: string;
+  field: string;
+  defaultValue?: unknown;
+};
+
+export const MAX_TEMPLATE_PARAMETERS = 24;
+
+export const TEMPLATE_PARAMETER_FIELDS: Record<string, TemplateParameterField[]> = {
+  prompt: [{ field: "text", label: "Prompt text", input: "textarea" }],
+  prompt_template: [{ field: "template", label: "Template", input: "textarea" }],
+  llm_rewrite: [
+    { field: "instruction", label: "Instruction", input: "textarea" },
+    { field: "temperature", label: "Temperature", input: "number" },
+  ],
+  nano_banana: [
+    { field: "aspectRatio", label: "Aspect ratio", input: "select" },
+    { field: "imageSize", label: "Image size", input: "select" },
+  ],
+  veo3: [
+    { field: "aspectRatio", label: "Aspect ratio", input: "select" },
+    { field: "resolution", label: "Resolution", input: "select" },
+    { field: "durationSeconds", label: "Duration", input: "select" },
+  ],
+};
+
+const canonicalNodeType = (nodeType: string) => {
+  const normalized = nodeType.trim().toLowerCase();
+  return normalized === "nano_banana_pro" ? "nano_banana" : normalized;
+};
+
+export const findTemplateParameterField = (nodeType: string, field: string) =>
+  TEMPLATE_PARAMETER_FIELDS[canonicalNodeType(nodeType)]?.find((candidate) => candidate.field === field) ?? null;
+
+export const listTemplateParameterFields = (nodeType: string) =>
+  TEMPLATE_PARAMETER_FIELDS[canonicalNodeType(nodeType)] ?? [];
+
+export const templateParameterKey = (nodeId: string, field: string) => `${nodeId}.${field}`;
+
+/** Brings a submitted value to the type the field stores; undefined keeps the template's value. */
+export const coerceTemplateParameterValue = (
+  input: TemplateParameterInput,
+  value: unknown,
+  defaultValue: unknown
+) => {
+  if (value === undefined || value === null) return undefined;
+  if (input === "number" || typeof defaultValue === "number") {
+    const numeric = Number(value);
+    return Number.isFinite(numeric) ? numeric : undefined;
+  }
+  return String(value);
+};
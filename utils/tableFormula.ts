@@ -0,0 +1,398 @@
+/**
+ * Small expression language for formula columns of board tables.
+ *
+ * Formulas are parsed into an AST and evaluated by walking it; nothing is ever handed to
+ * `eval`/`Function`, so a formula can only read the table it lives in.
+ *
+ *   {Duration} * 24                      arithmetic on the current row (+ - * /, parentheses)
+ *   {First name} & " " & {Last name}     text concatenation
+ *   SUM({Duration}) / COUNT()            aggregates over a whole column (SUM, AVG, MIN, MAX, COUNT)
+ *   DATEDIFF({Start}, {Due}, "days")     difference between two dates (days, hours, weeks)
+ *   IF({Frames} > 100, "long", "short")  conditionals with = != < <= > >=
+ *   ROUND(x, 2), ABS(x), TODAY()
+ */
+
+export type FormulaValue = number | string | boolean | null;
+
+export type FormulaResult = { value: FormulaValue; error?: undefined } | { value?: undefined; error: string };
+
+export interface FormulaScope {
+  /** Value of the named column in the row being evaluated. */
+  cell(columnName: string): FormulaValue;
+  /** Values of the named column across every row of the table. */
+  column(columnName: string): FormulaValue[];
+  /** Number of rows in the table. */
+  rowCount: number;
+}
+
+export type FormulaNode =
+  | { kind: "literal"; value: FormulaValue }
+  | { kind: "column"; name: string }
+  | { kind: "unary"; operator: "-"; operand: FormulaNode }
+  | { kind: "binary"; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "column"; value: string }
+  | { type: "identifier"; value: string }
+  | { type: "operator"; value: string }
+  | { type: "paren"; value: "(" | ")" }
+  | { type: "comma" };
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+const MAX_FORMULA_LENGTH = 2000;
+const MS_PER_UNIT: Record<string, number> = {
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+const COLUMN_AGGREGATES = new Set(["SUM", "AVG", "MIN", "MAX", "COUNT"]);
+const TWO_CHAR_OPERATORS = new Set(["<=", ">=", "!=", "<>"]);
+const ONE_CHAR_OPERATORS = new Set(["+", "-", "*", "/", "&", "=", "<", ">"]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(index));
+      if (!match) throw new FormulaError(`Unexpected "${char}"`);
+      tokens.push({ type: "number", value: Number(match[1]) });
+      index += match[1].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, index + 1);
+      if (end < 0) throw new FormulaError("Unterminated text");
+      tokens.push({ type: "string", value: source.slice(index + 1, end) });
+      index = end + 1;
+      continue;
+    }
+
+    if (char === "{") {
+      const end = source.indexOf("}", index + 1);
+      if (end < 0) throw new FormulaError("Missing } after column name");
+      const name = source.slice(index + 1, end).trim();
+      if (!name) throw new FormulaError("Empty column reference");
+      tokens.push({ type: "column", value: name });
+      index = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))!;
+      tokens.push({ type: "identifier", value: match[0].toUpperCase() });
+      index += match[0].length;
+      continue;
+    }
+
+    const pair = source.slice(index, index + 2);
+    if (TWO_CHAR_OPERATORS.has(pair)) {
+      tokens.push({ type: "operator", value: pair === "<>" ? "!=" : pair });
+      index += 2;
+      continue;
+    }
+    if (ONE_CHAR_OPERATORS.has(char)) {
+      tokens.push({ type: "operator", value: char });
+      index += 1;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+      index += 1;
+      continue;
+    }
+    if (char === ",") {
+      tokens.push({ type: "comma" });
+      index += 1;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected "${char}"`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser. Precedence, loosest first:
+ * comparison, concatenation (&), additive, multiplicative, unary minus.
+ */
+export function parseFormula(source: string): FormulaNode {
+  const trimmed = source.trim().replace(/^=/, "");
+  if (!trimmed) throw new FormulaError("Formula is empty");
+  if (trimmed.length > MAX_FORMULA_LENGTH) throw new FormulaError("Formula is too long");
+
+  const tokens = tokenize(trimmed);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token?.type === "operator" && values.includes(token.value);
+  };
+  const expectParen = (value: "(" | ")") => {
+    const token = peek();
+    if (token?.type !== "paren" || token.value !== value) {
+      throw new FormulaError(`Expected "${value}"`);
+    }
+    position += 1;
+  };
+
+  const binaryLevel = (operators: string[], next: () => FormulaNode) => (): FormulaNode => {
+    let left = next();
+    while (isOperator(...operators)) {
+      const operator = (tokens[position++] as { value: string }).value;
+      left = { kind: "binary", operator, left, right: next() };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) throw new FormulaError("Formula ends unexpectedly");
+
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "column":
+        return { kind: "column", name: token.value };
+      case "paren": {
+        if (token.value !== "(") throw new FormulaError('Unexpected ")"');
+        const inner = parseComparison();
+        expectParen(")");
+        return inner;
+      }
+      case "identifier": {
+        if (token.value === "TRUE" || token.value === "FALSE") {
+          return { kind: "literal", value: token.value === "TRUE" };
+        }
+        expectParen("(");
+        const args: FormulaNode[] = [];
+        if (!(peek()?.type === "paren" && (peek() as { value: string }).value === ")")) {
+          args.push(parseComparison());
+          while (peek()?.type === "comma") {
+            position += 1;
+            args.push(parseComparison());
+          }
+        }
+        expectParen(")");
+        return { kind: "call", name: token.value, args };
+      }
+      default:
+        throw new FormulaError(token.type === "operator" ? `Unexpected "${token.value}"` : "Unexpected \",\"");
+    }
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator("-", "+")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      const operand = parseUnary();
+      return operator === "-" ? { kind: "unary", operator: "-", operand } : operand;
+    }
+    return parsePrimary();
+  };
+
+  const parseMultiplicative = binaryLevel(["*", "/"], parseUnary);
+  const parseAdditive = binaryLevel(["+", "-"], parseMultiplicative);
+  const parseConcat = binaryLevel(["&"], parseAdditive);
+  const parseComparison: () => FormulaNode = binaryLevel(["=", "!=", "<", "<=", ">", ">="], parseConcat);
+
+  const root = parseComparison();
+  if (position < tokens.length) {
+    throw new FormulaError("Unexpected input after the end of the formula");
+  }
+  return root;
+}
+
+/** Column names referenced by a formula, as written. */
+export function formulaColumnNames(node: FormulaNode): string[] {
+  switch (node.kind) {
+    case "column":
+      return [node.name];
+    case "unary":
+      return formulaColumnNames(node.operand);
+    case "binary":
+      return [...formulaColumnNames(node.left), ...formulaColumnNames(node.right)];
+    case "call":
+      return node.args.flatMap(formulaColumnNames);
+    default:
+      return [];
+  }
+}
+
+const isBlank = (value: FormulaValue) => value === null || value === "";
+
+export function toFormulaNumber(value: FormulaValue): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+const requireNumber = (value: FormulaValue) => {
+  if (isBlank(value)) return 0;
+  const parsed = toFormulaNumber(value);
+  if (parsed === null) throw new FormulaError(`"${String(value)}" is not a number`);
+  return parsed;
+};
+
+const toTimestamp = (value: FormulaValue) => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || !value.trim()) return null;
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const truthy = (value: FormulaValue) => {
+  if (typeof value === "string") return value !== "" && value.toLowerCase() !== "false";
+  return Boolean(value);
+};
+
+const compare = (operator: string, left: FormulaValue, right: FormulaValue) => {
+  const leftNumber = toFormulaNumber(left);
+  const rightNumber = toFormulaNumber(right);
+  // Numbers compare numerically; anything else compares as case-insensitive text.
+  const order =
+    leftNumber !== null && rightNumber !== null
+      ? leftNumber - rightNumber
+      : String(left ?? "").toLowerCase().localeCompare(String(right ?? "").toLowerCase());
+  switch (operator) {
+    case "=":
+      return order === 0;
+    case "!=":
+      return order !== 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+};
+
+function evaluateNode(node: FormulaNode, scope: FormulaScope): FormulaValue {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "column":
+      return scope.cell(node.name);
+    case "unary":
+      return -requireNumber(evaluateNode(node.operand, scope));
+    case "binary": {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case "+":
+          return requireNumber(left) + requireNumber(right);
+        case "-":
+          return requireNumber(left) - requireNumber(right);
+        case "*":
+          return requireNumber(left) * requireNumber(right);
+        case "/": {
+          const divisor = requireNumber(right);
+          if (divisor === 0) throw new FormulaError("Division by zero");
+          return requireNumber(left) / divisor;
+        }
+        case "&":
+          return `${left ?? ""}${right ?? ""}`;
+        default:
+          return compare(node.operator, left, right);
+      }
+    }
+    case "call":
+      return evaluateCall(node.name, node.args, scope);
+  }
+}
+
+function evaluateCall(name: string, args: FormulaNode[], scope: FormulaScope): FormulaValue {
+  if (COLUMN_AGGREGATES.has(name)) {
+    if (name === "COUNT" && args.length === 0) return scope.rowCount;
+    const target = args[0];
+    if (args.length !== 1 || target.kind !== "column") {
+      throw new FormulaError(`${name} takes a single {Column}`);
+    }
+    const values = scope.column(target.name).filter((value) => !isBlank(value));
+    if (name === "COUNT") return values.length;
+    const numbers = values.map(toFormulaNumber).filter((value): value is number => value !== null);
+    if (name === "SUM") return numbers.reduce((sum, value) => sum + value, 0);
+    if (numbers.length === 0) return null;
+    if (name === "AVG") return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+    return name === "MIN" ? Math.min(...numbers) : Math.max(...numbers);
+  }
+
+  const expectArgs = (min: number, max: number) => {
+    if (args.length < min || args.length > max) {
+      throw new FormulaError(`${name} takes ${min === max ? min : `${min}-${max}`} argument${max === 1 ? "" : "s"}`);
+    }
+  };
+
+  switch (name) {
+    case "IF": {
+      expectArgs(2, 3);
+      const condition = evaluateNode(args[0], scope);
+      if (truthy(condition)) return evaluateNode(args[1], scope);
+      return args[2] ? evaluateNode(args[2], scope) : null;
+    }
+    case "DATEDIFF": {
+      expectArgs(2, 3);
+      const start = toTimestamp(evaluateNode(args[0], scope));
+      const end = toTimestamp(evaluateNode(args[1], scope));
+      const unit = args[2] ? String(evaluateNode(args[2], scope) ?? "").toLowerCase() : "days";
+      const unitMs = MS_PER_UNIT[unit];
+      if (!unitMs) throw new FormulaError(`Unknown DATEDIFF unit "${unit}"`);
+      if (start === null || end === null) return null;
+      return Math.round((end - start) / unitMs);
+    }
+    case "ROUND": {
+      expectArgs(1, 2);
+      const digits = args[1] ? Math.max(0, Math.min(10, Math.floor(requireNumber(evaluateNode(args[1], scope))))) : 0;
+      const factor = 10 ** digits;
+      return Math.round(requireNumber(evaluateNode(args[0], scope)) * factor) / factor;
+    }
+    case "ABS":
+      expectArgs(1, 1);
+      return Math.abs(requireNumber(evaluateNode(args[0], scope)));
+    case "TODAY":
+      expectArgs(0, 0);
+      return new Date().toISOString().slice(0, 10);
+    default:
+      throw new FormulaError(`Unknown function ${name}`);
+  }
+}
+
+export function evaluateFormula(node: FormulaNode, scope: FormulaScope): FormulaResult {
+  try {
+    const value = evaluateNode(node, scope);
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      return { error: "Result is not a number" };
+    }
+    return { value };
+  } catch (error) {
+    if (error instanceof FormulaError) return { error: error.message };
+    throw error;
+  }
+}
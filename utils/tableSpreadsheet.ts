@@ -0,0 +1,617 @@
+/**
+ * Spreadsheet interchange for board tables.
+ *
+ * - CSV/TSV: RFC 4180 parsing with delimiter detection (comma, semicolon, tab).
+ * - XLSX: first worksheet only; read and written directly from the OOXML parts, zipped with fflate.
+ * - Import infers column types from the values (numbers, dates, image URLs, select options
+ *   from repeated values) and maps option labels to option ids.
+ */
+import { nanoid } from "nanoid";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+
+import { Color, TableColumn, TableColumnType, TableRow, TableSelectOption } from "@/types/canvas";
+import { FormulaValue } from "./tableFormula";
+import { TableFormulaResults, tableCellValue, tableFormulaResult } from "./tableView";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export type SpreadsheetCell = string | number | null;
+
+export type ImportedTable = {
+  title: string;
+  columns: TableColumn[];
+  rows: TableRow[];
+};
+
+export const SPREADSHEET_FILE_ACCEPT = ".csv,.tsv,.xlsx";
+
+const SPREADSHEET_MIME: Record<SpreadsheetFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const IMPORT_COLUMN_WIDTH = 260;
+const MAX_IMPORT_ROWS = 2000;
+const MAX_IMPORT_COLUMNS = 40;
+// A column becomes a select when it has few distinct values that repeat.
+const MAX_SELECT_OPTIONS = 12;
+const OPTION_COLORS: Color[] = [
+  { r: 59, g: 130, b: 246 },
+  { r: 34, g: 197, b: 94 },
+  { r: 249, g: 115, b: 22 },
+  { r: 168, g: 85, b: 247 },
+  { r: 236, g: 72, b: 153 },
+  { r: 20, g: 184, b: 166 },
+  { r: 234, g: 179, b: 8 },
+  { r: 148, g: 163, b: 184 },
+];
+// Excel built-in number formats that display dates.
+const XLSX_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NUMBER_RE = /^[-+]?(\d+([.,]\d*)?|[.,]\d+)$/;
+// Digit grouping: a comma followed by groups of exactly three digits is a thousands separator
+// ("1,000", "12,345.6"). Dots only group when a decimal comma or a second group proves it ("1.234,5").
+const COMMA_GROUPED_RE = /^[-+]?[1-9]\d{0,2}(,\d{3})+(\.\d+)?$/;
+const DOT_GROUPED_RE = /^[-+]?[1-9]\d{0,2}((\.\d{3})+,\d+|(\.\d{3}){2,})$/;
+const ISO_DATE_RE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/;
+const DMY_DATE_RE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+const MEDIA_URL_RE = /^https?:\/\/\S+\.(png|jpe?g|gif|webp|avif|mp4|webm|mov|ogg)(\?\S*)?$/i;
+const MULTI_VALUE_SEPARATOR = /\s*[,;]\s*/;
+
+export function isSpreadsheetFile(file: File) {
+  return /\.(csv|tsv|xlsx)$/i.test(file.name);
+}
+
+// ---------------------------------------------------------------------------
+// CSV / TSV
+
+function detectDelimiter(text: string) {
+  const lineEnd = text.search(/\r?\n/);
+  const firstLine = (lineEnd < 0 ? text : text.slice(0, lineEnd)).replace(/"[^"]*"/g, "");
+  const counts = [
+    ["\t", firstLine.split("\t").length - 1],
+    [";", firstLine.split(";").length - 1],
+    [",", firstLine.split(",").length - 1],
+  ] as const;
+  const best = counts.reduce((winner, entry) => (entry[1] > winner[1] ? entry : winner));
+  return best[1] > 0 ? best[0] : ",";
+}
+
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"') {
+        if (source[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return trimMatrix(rows);
+}
+
+const csvCell = (value: SpreadsheetCell, delimiter: string) => {
+  const text = value === null ? "" : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toDelimited(matrix: SpreadsheetCell[][], delimiter = ","): string {
+  return `${matrix.map((row) => row.map((value) => csvCell(value, delimiter)).join(delimiter)).join("\r\n")}\r\n`;
+}
+
+/** Drops trailing blank rows and columns that contain nothing. */
+function trimMatrix(rows: string[][]) {
+  const filled = rows.filter((row) => row.some((value) => value.trim() !== ""));
+  const width = filled.reduce((max, row) => {
+    let last = row.length - 1;
+    while (last >= 0 && row[last].trim() === "") last -= 1;
+    return Math.max(max, last + 1);
+  }, 0);
+  return filled.map((row) => Array.from({ length: width }, (_, index) => row[index] ?? ""));
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, "application/xml");
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab/newline are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+const columnLetters = (index: number) => {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const columnIndexFromRef = (ref: string) => {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() ?? "A";
+  return letters.split("").reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const textContent = (element: Element) =>
+  Array.from(element.getElementsByTagName("t"))
+    // Phonetic runs (<rPh>) repeat the text as a reading aid.
+    .filter((node) => node.parentElement?.tagName !== "rPh")
+    .map((node) => node.textContent ?? "")
+    .join("");
+
+const resolvePartPath = (target: string) => (target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`);
+
+function readDateStyles(files: Record<string, Uint8Array>) {
+  const dateStyles = new Set<number>();
+  const stylesXml = files["xl/styles.xml"];
+  if (!stylesXml) return dateStyles;
+
+  const styles = parseXml(strFromU8(stylesXml));
+  const customDateFormats = new Set<number>();
+  Array.from(styles.getElementsByTagName("numFmt")).forEach((format) => {
+    const code = (format.getAttribute("formatCode") ?? "").replace(/"[^"]*"|\[[^\]]*\]/g, "");
+    if (/[dy]/i.test(code) || /m{3,}/i.test(code)) {
+      customDateFormats.add(Number(format.getAttribute("numFmtId")));
+    }
+  });
+
+  const cellXfs = styles.getElementsByTagName("cellXfs")[0];
+  if (!cellXfs) return dateStyles;
+  Array.from(cellXfs.getElementsByTagName("xf")).forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute("numFmtId") ?? 0);
+    if (XLSX_DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+}
+
+/** Reads the first worksheet of an .xlsx file as a matrix of display strings. */
+export function readXlsx(data: Uint8Array): string[][] {
+  const files = unzipSync(data);
+  const workbookXml = files["xl/workbook.xml"];
+  if (!workbookXml) throw new Error("Not an XLSX workbook");
+
+  const workbook = parseXml(strFromU8(workbookXml));
+  const firstSheet = workbook.getElementsByTagName("sheet")[0];
+  const relationId = firstSheet?.getAttribute("r:id");
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const relsXml = files["xl/_rels/workbook.xml.rels"];
+  if (relationId && relsXml) {
+    const relation = Array.from(parseXml(strFromU8(relsXml)).getElementsByTagName("Relationship")).find(
+      (entry) => entry.getAttribute("Id") === relationId,
+    );
+    const target = relation?.getAttribute("Target");
+    if (target) sheetPath = resolvePartPath(target);
+  }
+
+  const sheetXml = files[sheetPath];
+  if (!sheetXml) throw new Error("Workbook has no worksheet");
+
+  const sharedStringsXml = files["xl/sharedStrings.xml"];
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(strFromU8(sharedStringsXml)).getElementsByTagName("si")).map(textContent)
+    : [];
+  const dateStyles = readDateStyles(files);
+
+  const rows: string[][] = [];
+  Array.from(parseXml(strFromU8(sheetXml)).getElementsByTagName("row")).forEach((rowElement, rowPosition) => {
+    const rowIndex = Number(rowElement.getAttribute("r") ?? rowPosition + 1) - 1;
+    if (rowIndex >= MAX_IMPORT_ROWS + 1) return;
+    const row: string[] = (rows[rowIndex] = rows[rowIndex] ?? []);
+
+    Array.from(rowElement.getElementsByTagName("c")).forEach((cell, cellPosition) => {
+      const ref = cell.getAttribute("r");
+      const columnIndex = ref ? columnIndexFromRef(ref) : cellPosition;
+      if (columnIndex >= MAX_IMPORT_COLUMNS) return;
+
+      const type = cell.getAttribute("t");
+      const raw = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      let value = raw;
+      if (type === "s") {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        const inline = cell.getElementsByTagName("is")[0];
+        value = inline ? textContent(inline) : "";
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE";
+      } else if (type === "e") {
+        value = "";
+      } else if (type !== "str" && raw !== "" && dateStyles.has(Number(cell.getAttribute("s") ?? -1))) {
+        value = new Date(EXCEL_EPOCH_MS + Math.round(Number(raw) * DAY_MS)).toISOString().slice(0, 10);
+      }
+      row[columnIndex] = value;
+    });
+  });
+
+  return trimMatrix(Array.from(rows, (row) => Array.from(row ?? [], (value) => value ?? "")));
+}
+
+/** Builds a single-sheet .xlsx; numbers stay numeric, everything else is written as text. */
+export function writeXlsx(matrix: SpreadsheetCell[][], sheetName: string): Uint8Array {
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet1");
+
+  const sheetRows = matrix
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) => {
+          if (value === null || value === "") return "";
+          const ref = `${columnLetters(columnIndex)}${rowIndex + 1}`;
+          const style = rowIndex === 0 ? ' s="1"' : "";
+          if (typeof value === "number" && Number.isFinite(value)) {
+            return `<c r="${ref}"${style}><v>${value}</v></c>`;
+          }
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const mainNs = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+  const relNs = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+  return zipSync(
+    {
+      "[Content_Types].xml": strToU8(
+        `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+          "</Types>",
+      ),
+      "_rels/.rels": strToU8(
+        `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+          `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/>` +
+          "</Relationships>",
+      ),
+      "xl/workbook.xml": strToU8(
+        `${xmlHeader}<workbook xmlns="${mainNs}" xmlns:r="${relNs}">` +
+          `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+          "</workbook>",
+      ),
+      "xl/_rels/workbook.xml.rels": strToU8(
+        `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+          `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>` +
+          `<Relationship Id="rId2" Type="${relNs}/styles" Target="styles.xml"/>` +
+          "</Relationships>",
+      ),
+      // Style 1 is the bold header row.
+      "xl/styles.xml": strToU8(
+        `${xmlHeader}<styleSheet xmlns="${mainNs}">` +
+          '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+          '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+          '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+          '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+          '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+          '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+          "</styleSheet>",
+      ),
+      "xl/worksheets/sheet1.xml": strToU8(
+        `${xmlHeader}<worksheet xmlns="${mainNs}"><sheetData>${sheetRows}</sheetData></worksheet>`,
+      ),
+    },
+    { level: 6 },
+  );
+}
+
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+  const text = await file.text();
+  return parseDelimited(text, /\.tsv$/i.test(file.name) ? "\t" : undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Type inference and conversion
+
+/** Normalizes the date spellings spreadsheets produce to YYYY-MM-DD; day-first when ambiguous. */
+export function parseSpreadsheetDate(value: string): string | null {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = ISO_DATE_RE.exec(text);
+  const dmy = DMY_DATE_RE.exec(text);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dmy) {
+    const first = Number(dmy[1]);
+    const second = Number(dmy[2]);
+    year = Number(dmy[3]);
+    [day, month] = second > 12 && first <= 12 ? [second, first] : [first, second];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+const parseSpreadsheetNumber = (value: string) => {
+  const text = value.trim();
+  if (COMMA_GROUPED_RE.test(text)) return Number(text.replace(/,/g, ""));
+  if (DOT_GROUPED_RE.test(text)) return Number(text.replace(/\./g, "").replace(",", "."));
+  return NUMBER_RE.test(text) ? Number(text.replace(",", ".")) : null;
+};
+
+const splitMultiValue = (value: string) =>
+  value
+    .split(MULTI_VALUE_SEPARATOR)
+    .map((token) => token.trim())
+    .filter(Boolean);
+
+const distinctLabels = (values: string[]) => {
+  const seen = new Map<string, string>();
+  values.forEach((value) => {
+    const key = value.toLowerCase();
+    if (!seen.has(key)) seen.set(key, value);
+  });
+  return Array.from(seen.values());
+};
+
+export function inferColumnType(values: string[]): TableColumnType {
+  const filled = values.map((value) => value.trim()).filter(Boolean);
+  if (filled.length === 0) return TableColumnType.Text;
+
+  if (filled.every((value) => parseSpreadsheetNumber(value) !== null)) return TableColumnType.Number;
+  if (filled.every((value) => parseSpreadsheetDate(value) !== null)) return TableColumnType.Date;
+  if (filled.every((value) => MEDIA_URL_RE.test(value))) return TableColumnType.Image;
+
+  const isRepeatedVocabulary = (tokens: string[]) => {
+    const distinct = distinctLabels(tokens).length;
+    return distinct <= MAX_SELECT_OPTIONS && distinct < tokens.length && tokens.length >= 2 * Math.min(distinct, 3);
+  };
+
+  if (filled.some((value) => splitMultiValue(value).length > 1)) {
+    const tokens = filled.flatMap(splitMultiValue);
+    if (isRepeatedVocabulary(tokens)) return TableColumnType.MultiSelect;
+    return TableColumnType.Text;
+  }
+  if (isRepeatedVocabulary(filled)) return TableColumnType.Select;
+  return TableColumnType.Text;
+}
+
+const createOption = (label: string, index: number): TableSelectOption => ({
+  id: `opt_${nanoid()}`,
+  label,
+  color: OPTION_COLORS[index % OPTION_COLORS.length],
+});
+
+/** Adds options for labels the column does not know yet (case-insensitive). */
+function withOptionsFor(column: TableColumn, labels: string[]): TableColumn {
+  const existing = column.options || [];
+  const known = new Set(existing.map((option) => option.label.toLowerCase()));
+  const missing = distinctLabels(labels).filter((label) => !known.has(label.toLowerCase()));
+  if (missing.length === 0) return column;
+  return {
+    ...column,
+    options: [...existing, ...missing.map((label, index) => createOption(label, existing.length + index))],
+  };
+}
+
+const optionIdFor = (column: TableColumn, label: string) =>
+  column.options?.find((option) => option.label.toLowerCase() === label.trim().toLowerCase())?.id;
+
+/** Converts a spreadsheet string into the stored value of a column; "" leaves the cell empty. */
+export function spreadsheetValueForColumn(column: TableColumn, raw: string): unknown {
+  const text = raw.trim();
+  switch (column.type) {
+    case TableColumnType.Number: {
+      if (!text) return "";
+      return parseSpreadsheetNumber(text) ?? "";
+    }
+    case TableColumnType.Date:
+      return text ? parseSpreadsheetDate(text) ?? "" : "";
+    case TableColumnType.Select:
+      return text ? optionIdFor(column, text) ?? "" : "";
+    case TableColumnType.MultiSelect:
+      return splitMultiValue(text)
+        .map((label) => optionIdFor(column, label))
+        .filter((id): id is string => Boolean(id));
+    case TableColumnType.Formula:
+      return "";
+    default:
+      return raw;
+  }
+}
+
+/** Option labels a raw value needs on a select column. */
+export function spreadsheetOptionLabels(column: TableColumn, values: string[]) {
+  if (column.type === TableColumnType.Select) return values.map((value) => value.trim()).filter(Boolean);
+  if (column.type === TableColumnType.MultiSelect) return values.flatMap(splitMultiValue);
+  return [];
+}
+
+export function ensureSpreadsheetOptions(column: TableColumn, values: string[]) {
+  const labels = spreadsheetOptionLabels(column, values);
+  return labels.length ? withOptionsFor(column, labels) : column;
+}
+
+const uniqueName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let suffix = 2; taken.has(candidate.toLowerCase()); suffix++) {
+    candidate = `${name} (${suffix})`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const emptyValueFor = (type: TableColumnType) =>
+  type === TableColumnType.Number ? 0 : type === TableColumnType.MultiSelect ? [] : "";
+
+const makeRow = (columns: TableColumn[], values: Map<string, unknown>): TableRow => {
+  const now = new Date().toISOString();
+  return {
+    id: `row_${nanoid()}`,
+    createdAt: now,
+    updatedAt: now,
+    cells: columns.map((column) => ({
+      columnId: column.id,
+      value: values.has(column.id) ? values.get(column.id) : emptyValueFor(column.type),
+    })),
+  };
+};
+
+/**
+ * Merges a spreadsheet (first row = header) into a table. Header names matching an existing
+ * column (case-insensitive) fill that column; the others become new columns with inferred types.
+ * Select columns gain options for labels they did not have.
+ */
+export function mergeSpreadsheetIntoTable(
+  matrix: string[][],
+  columns: TableColumn[],
+  rows: TableRow[],
+  mode: "append" | "replace",
+): { columns: TableColumn[]; rows: TableRow[]; imported: number } {
+  const [header = [], ...body] = matrix;
+  const dataRows = body.slice(0, MAX_IMPORT_ROWS);
+  const taken = new Set(columns.map((column) => column.name.toLowerCase()));
+  let nextColumns = [...columns];
+
+  const sourceColumns = header.slice(0, MAX_IMPORT_COLUMNS).map((rawName, sourceIndex) => {
+    const values = dataRows.map((row) => row[sourceIndex] ?? "");
+    const name = rawName.trim() || `Column ${sourceIndex + 1}`;
+    let target = nextColumns.find((column) => column.name.trim().toLowerCase() === name.toLowerCase());
+
+    if (!target) {
+      const type = inferColumnType(values);
+      target = {
+        id: `col_${nanoid()}`,
+        name: uniqueName(name, taken),
+        type,
+        width: IMPORT_COLUMN_WIDTH,
+        options: type === TableColumnType.Select || type === TableColumnType.MultiSelect ? [] : undefined,
+      };
+      nextColumns.push(target);
+    }
+
+    const withOptions = ensureSpreadsheetOptions(target, values);
+    if (withOptions !== target) {
+      nextColumns = nextColumns.map((column) => (column.id === withOptions.id ? withOptions : column));
+    }
+    return withOptions.id;
+  });
+
+  const byId = new Map(nextColumns.map((column) => [column.id, column]));
+  const importedRows = dataRows.map((row) => {
+    const values = new Map<string, unknown>();
+    sourceColumns.forEach((columnId, sourceIndex) => {
+      const column = byId.get(columnId)!;
+      if (column.type === TableColumnType.Formula) return;
+      values.set(columnId, spreadsheetValueForColumn(column, row[sourceIndex] ?? ""));
+    });
+    return makeRow(nextColumns, values);
+  });
+
+  const keptRows = mode === "append" ? rows : [];
+  return { columns: nextColumns, rows: [...keptRows, ...importedRows], imported: importedRows.length };
+}
+
+/** A new table from a spreadsheet; the file name becomes the title. */
+export function spreadsheetToTable(matrix: string[][], fileName: string): ImportedTable {
+  const { columns, rows } = mergeSpreadsheetIntoTable(matrix, [], [], "replace");
+  return {
+    title: fileName.replace(/\.[^.]+$/, "") || "Imported table",
+    columns,
+    rows,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+/**
+ * Header plus one line per row with select labels, formula results and person names resolved.
+ * Numbers (including numeric formula results) stay numeric so XLSX keeps them summable.
+ */
+export function tableToSpreadsheet(
+  columns: TableColumn[],
+  rows: TableRow[],
+  formulas: TableFormulaResults,
+  personName?: (id: string) => string | undefined,
+): SpreadsheetCell[][] {
+  const exportValue = (column: TableColumn, row: TableRow): SpreadsheetCell => {
+    let value: FormulaValue;
+    if (column.type === TableColumnType.Formula) {
+      value = tableFormulaResult(row, column, formulas)?.value ?? null;
+    } else {
+      value = tableCellValue(column, row.cells.find((cell) => cell.columnId === column.id)?.value);
+      if (column.type === TableColumnType.Person && typeof value === "string") {
+        value = personName?.(value) ?? value;
+      }
+    }
+    if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+    return value;
+  };
+
+  return [columns.map((column) => column.name), ...rows.map((row) => columns.map((column) => exportValue(column, row)))];
+}
+
+export function downloadSpreadsheet(format: SpreadsheetFormat, matrix: SpreadsheetCell[][], baseName: string) {
+  // Excel only detects UTF-8 CSV with a BOM.
+  const blob =
+    format === "csv"
+      ? new Blob([`\uFEFF${toDelimited(matrix)}`], { type: SPREADSHEET_MIME.csv })
+      : new Blob([writeXlsx(matrix, baseName)], { type: SPREADSHEET_MIME.xlsx });
+  const url = URL.createObjectURL(blob);
+  const safeName = baseName
+    .toLowerCase()
+    .replace(/[^a-z0-9-_]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${safeName || "table"}.${format}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,323 @@
+/**
+ * View helpers for board tables: formula evaluation, filtering, sorting, grouping and
+ * footer aggregates. All of them work on a copy of the rows; the stored order of
+ * `TableLayer.rows` never changes.
+ */
+import {
+  TableAggregate,
+  TableColumn,
+  TableColumnType,
+  TableFilterOperator,
+  TableFilterRule,
+  TableRow,
+  TableSelectOption,
+  TableSortRule,
+} from "@/types/canvas";
+import { FormulaError, FormulaNode, FormulaResult, FormulaValue, evaluateFormula, parseFormula, toFormulaNumber } from "./tableFormula";
+
+export type TableFormulaResults = Map<string, FormulaResult>;
+
+export type TableRowGroup = {
+  key: string;
+  label: string;
+  option?: TableSelectOption;
+  rows: TableRow[];
+};
+
+export const TABLE_AGGREGATE_LABELS: Record<TableAggregate, string> = {
+  count: "Count",
+  filled: "Filled",
+  sum: "Sum",
+  avg: "Average",
+  min: "Min",
+  max: "Max",
+};
+
+export const TABLE_FILTER_OPERATOR_LABELS: Record<TableFilterOperator, string> = {
+  contains: "contains",
+  equals: "is",
+  notEquals: "is not",
+  gt: "greater than",
+  lt: "less than",
+  isEmpty: "is empty",
+  isNotEmpty: "is not empty",
+};
+
+export const TABLE_NO_GROUP_KEY = "__none__";
+
+const formulaKey = (rowId: string, columnId: string) => `${rowId}:${columnId}`;
+
+const isBlank = (value: FormulaValue) => value === null || value === "";
+
+export const isGroupableColumn = (column: TableColumn) =>
+  column.type === TableColumnType.Select || column.type === TableColumnType.MultiSelect;
+
+const rawCellValue = (row: TableRow, columnId: string) => row.cells.find((cell) => cell.columnId === columnId)?.value;
+
+/** Stored cell value as formulas, filters and exports see it: option labels instead of ids. */
+export function tableCellValue(column: TableColumn, value: unknown): FormulaValue {
+  if (value === null || value === undefined || value === "") return null;
+  switch (column.type) {
+    case TableColumnType.Number:
+      return toFormulaNumber(value as FormulaValue);
+    case TableColumnType.Select:
+      return column.options?.find((option) => option.id === value)?.label ?? String(value);
+    case TableColumnType.MultiSelect: {
+      const ids = Array.isArray(value) ? value : [];
+      if (ids.length === 0) return null;
+      return ids.map((id) => column.options?.find((option) => option.id === id)?.label ?? String(id)).join(", ");
+    }
+    default:
+      return typeof value === "object" ? null : (value as FormulaValue);
+  }
+}
+
+/**
+ * Evaluates every formula column for every row. Formulas may reference other formula
+ * columns; cycles resolve to an error instead of recursing forever.
+ */
+export function computeTableFormulas(columns: TableColumn[], rows: TableRow[]): TableFormulaResults {
+  const results: TableFormulaResults = new Map();
+  const formulaColumns = columns.filter((column) => column.type === TableColumnType.Formula);
+  if (formulaColumns.length === 0) return results;
+
+  const byName = new Map<string, TableColumn>();
+  columns.forEach((column) => {
+    const name = column.name.trim().toLowerCase();
+    if (!byName.has(name)) byName.set(name, column);
+  });
+
+  const parsed = new Map<string, FormulaNode | string>();
+  formulaColumns.forEach((column) => {
+    try {
+      parsed.set(column.id, parseFormula(column.formula || ""));
+    } catch (error) {
+      parsed.set(column.id, error instanceof FormulaError ? error.message : "Invalid formula");
+    }
+  });
+
+  const visiting = new Set<string>();
+  const columnCache = new Map<string, FormulaValue[]>();
+
+  const lookup = (name: string) => {
+    const column = byName.get(name.trim().toLowerCase());
+    if (!column) throw new FormulaError(`Unknown column {${name}}`);
+    return column;
+  };
+
+  const valueAt = (rowIndex: number, column: TableColumn): FormulaValue => {
+    if (column.type !== TableColumnType.Formula) {
+      return tableCellValue(column, rawCellValue(rows[rowIndex], column.id));
+    }
+    const result = evaluateAt(rowIndex, column);
+    if (result.error !== undefined) throw new FormulaError(result.error);
+    return result.value;
+  };
+
+  const evaluateAt = (rowIndex: number, column: TableColumn): FormulaResult => {
+    const key = formulaKey(rows[rowIndex].id, column.id);
+    const cached = results.get(key);
+    if (cached) return cached;
+    if (visiting.has(key)) return { error: "Circular reference" };
+
+    const node = parsed.get(column.id)!;
+    if (typeof node === "string") {
+      const result = { error: node };
+      results.set(key, result);
+      return result;
+    }
+
+    visiting.add(key);
+    const result = evaluateFormula(node, {
+      rowCount: rows.length,
+      cell: (name) => valueAt(rowIndex, lookup(name)),
+      column: (name) => {
+        const target = lookup(name);
+        const hit = columnCache.get(target.id);
+        if (hit) return hit;
+        const values = rows.map((_, index) => valueAt(index, target));
+        columnCache.set(target.id, values);
+        return values;
+      },
+    });
+    visiting.delete(key);
+    results.set(key, result);
+    return result;
+  };
+
+  rows.forEach((_, rowIndex) => formulaColumns.forEach((column) => evaluateAt(rowIndex, column)));
+  return results;
+}
+
+/** Value of a cell for display-side logic, reading formula columns from the precomputed results. */
+export function tableViewValue(column: TableColumn, row: TableRow, formulas: TableFormulaResults): FormulaValue {
+  if (column.type === TableColumnType.Formula) {
+    return formulas.get(formulaKey(row.id, column.id))?.value ?? null;
+  }
+  return tableCellValue(column, rawCellValue(row, column.id));
+}
+
+export function tableFormulaResult(row: TableRow, column: TableColumn, formulas: TableFormulaResults) {
+  return formulas.get(formulaKey(row.id, column.id));
+}
+
+const toTimestamp = (value: FormulaValue) => {
+  if (typeof value !== "string" || !value) return null;
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/** Orders two non-blank values: dates chronologically, numbers numerically, text naturally. */
+function compareValues(column: TableColumn, a: FormulaValue, b: FormulaValue) {
+  if (column.type === TableColumnType.Date) {
+    const left = toTimestamp(a);
+    const right = toTimestamp(b);
+    if (left !== null && right !== null) return left - right;
+  }
+  const leftNumber = toFormulaNumber(a);
+  const rightNumber = toFormulaNumber(b);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber - rightNumber;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+function matchesFilter(column: TableColumn, value: FormulaValue, rule: TableFilterRule) {
+  if (rule.operator === "isEmpty") return isBlank(value);
+  if (rule.operator === "isNotEmpty") return !isBlank(value);
+
+  const target = (rule.value ?? "").trim();
+  // A rule still being typed should not hide the whole table.
+  if (!target) return true;
+  if (isBlank(value)) return rule.operator === "notEquals";
+
+  switch (rule.operator) {
+    case "contains":
+      return String(value).toLowerCase().includes(target.toLowerCase());
+    case "equals":
+      return compareValues(column, value, target) === 0;
+    case "notEquals":
+      return compareValues(column, value, target) !== 0;
+    case "gt":
+      return compareValues(column, value, target) > 0;
+    case "lt":
+      return compareValues(column, value, target) < 0;
+    default:
+      return true;
+  }
+}
+
+export function filterTableRows(
+  rows: TableRow[],
+  columns: TableColumn[],
+  rules: TableFilterRule[] | undefined,
+  formulas: TableFormulaResults,
+) {
+  const active = (rules || [])
+    .map((rule) => ({ rule, column: columns.find((column) => column.id === rule.columnId) }))
+    .filter((entry): entry is { rule: TableFilterRule; column: TableColumn } => Boolean(entry.column));
+  if (active.length === 0) return rows;
+
+  return rows.filter((row) =>
+    active.every(({ rule, column }) => matchesFilter(column, tableViewValue(column, row, formulas), rule)),
+  );
+}
+
+/** Stable multi-key sort. Select columns follow option order; blanks always sink to the bottom. */
+export function sortTableRows(
+  rows: TableRow[],
+  columns: TableColumn[],
+  rules: TableSortRule[] | undefined,
+  formulas: TableFormulaResults,
+) {
+  const active = (rules || [])
+    .map((rule) => ({ rule, column: columns.find((column) => column.id === rule.columnId) }))
+    .filter((entry): entry is { rule: TableSortRule; column: TableColumn } => Boolean(entry.column));
+  if (active.length === 0) return rows;
+
+  const sortValue = (column: TableColumn, row: TableRow): FormulaValue => {
+    if (column.type === TableColumnType.Select) {
+      const index = column.options?.findIndex((option) => option.id === rawCellValue(row, column.id)) ?? -1;
+      return index >= 0 ? index : null;
+    }
+    return tableViewValue(column, row, formulas);
+  };
+
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      for (const { rule, column } of active) {
+        const left = sortValue(column, a.row);
+        const right = sortValue(column, b.row);
+        if (isBlank(left) || isBlank(right)) {
+          if (isBlank(left) !== isBlank(right)) return isBlank(left) ? 1 : -1;
+          continue;
+        }
+        const order = compareValues(column, left, right);
+        if (order !== 0) return rule.direction === "desc" ? -order : order;
+      }
+      return a.index - b.index;
+    })
+    .map((entry) => entry.row);
+}
+
+/**
+ * Groups rows by a select column, in option order. With a multi-select column a row
+ * appears under each of its options; rows without a value collect in a trailing group.
+ */
+export function groupTableRows(rows: TableRow[], column: TableColumn): TableRowGroup[] {
+  const groups: TableRowGroup[] = (column.options || []).map((option) => ({
+    key: option.id,
+    label: option.label,
+    option,
+    rows: [],
+  }));
+  const byKey = new Map(groups.map((group) => [group.key, group]));
+  const ungrouped: TableRowGroup = { key: TABLE_NO_GROUP_KEY, label: `No ${column.name}`, rows: [] };
+
+  rows.forEach((row) => {
+    const value = rawCellValue(row, column.id);
+    const ids = (Array.isArray(value) ? value : [value]).filter((id) => byKey.has(id));
+    if (ids.length === 0) {
+      ungrouped.rows.push(row);
+      return;
+    }
+    ids.forEach((id) => byKey.get(id)!.rows.push(row));
+  });
+
+  return [...groups, ungrouped].filter((group) => group.rows.length > 0);
+}
+
+/** Footer value of a column over the given rows; null when there is nothing to aggregate. */
+export function aggregateTableColumn(
+  column: TableColumn,
+  aggregate: TableAggregate,
+  rows: TableRow[],
+  formulas: TableFormulaResults,
+): FormulaValue {
+  const values = rows.map((row) => tableViewValue(column, row, formulas)).filter((value) => !isBlank(value));
+  if (aggregate === "count") return rows.length;
+  if (aggregate === "filled") return values.length;
+
+  if (column.type === TableColumnType.Date && (aggregate === "min" || aggregate === "max")) {
+    const dated = values.filter((value) => toTimestamp(value) !== null);
+    if (dated.length === 0) return null;
+    return dated.reduce((best, value) => {
+      const order = toTimestamp(value)! - toTimestamp(best)!;
+      return (aggregate === "min" ? order < 0 : order > 0) ? value : best;
+    });
+  }
+
+  const numbers = values.map(toFormulaNumber).filter((value): value is number => value !== null);
+  if (aggregate === "sum") return numbers.reduce((sum, value) => sum + value, 0);
+  if (numbers.length === 0) return null;
+  if (aggregate === "avg") return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+  return aggregate === "min" ? Math.min(...numbers) : Math.max(...numbers);
+}
+
+export function formatTableValue(value: FormulaValue) {
+  if (value === null) return "";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? value.toLocaleString("en-US") : value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  }
+  return value;
+}
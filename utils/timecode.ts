@@ -0,0 +1,183 @@
+/**
+ * SMPTE timecode helpers (HH:MM:SS:FF, HH:MM:SS;FF for drop-frame).
+ *
+ * Frame numbers stored on comments/annotations are counted at the video's canonical
+ * integer fps (`Math.floor(video.fps)`). Timecode is counted at the nominal SMPTE
+ * rate, so for drop-frame material (29.97/59.94) we go through seconds first.
+ */
+
+export interface TimecodeFormat {
+  /** Canonical frame rate used for stored frame numbers. */
+  fps: number;
+  /** Drop-frame counting (only meaningful for 30/60 nominal rates). */
+  dropFrame: boolean;
+  /** Timecode of the first frame, expressed in timecode frames. */
+  startFrame: number;
+}
+
+export type TimecodeDisplayMode = 'timecode' | 'frames';
+
+const TIMECODE_RE = /^(\d{1,2})[:;.](\d{1,2})[:;.](\d{1,2})[:;.](\d{1,3})$/;
+
+/**
+ * Returns true when the rate is an NTSC rate that is conventionally counted drop-frame.
+ */
+export function isDropFrameRate(fps: number): boolean {
+  return Math.abs(fps - 29.97) < 0.01 || Math.abs(fps - 59.94) < 0.01;
+}
+
+/**
+ * Nominal (integer) timebase used for the FF field.
+ */
+export function getTimebase(fps: number, dropFrame: boolean): number {
+  if (dropFrame) return fps > 40 ? 60 : 30;
+  return Math.max(1, Math.round(fps));
+}
+
+/**
+ * Actual playback rate in timecode frames per second.
+ */
+function getTimecodeRate(fps: number, dropFrame: boolean): number {
+  if (dropFrame) return (getTimebase(fps, true) * 1000) / 1001;
+  return Math.max(1, Math.floor(fps));
+}
+
+const dropFramesPerMinute = (timebase: number) => Math.round(timebase / 15);
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Formats a timecode frame count (already at the timecode rate) as HH:MM:SS:FF.
+ */
+export function formatTimecodeFrames(totalFrames: number, timebase: number, dropFrame: boolean): string {
+  let n = Math.max(0, Math.floor(totalFrames));
+  if (dropFrame) {
+    const drop = dropFramesPerMinute(timebase);
+    const framesPer10Min = timebase * 600 - drop * 9;
+    const framesPerMin = timebase * 60 - drop;
+    const tens = Math.floor(n / framesPer10Min);
+    const rem = n % framesPer10Min;
+    n += drop * 9 * tens;
+    if (rem > drop) {
+      n += drop * Math.floor((rem - drop) / framesPerMin);
+    }
+  }
+  const ff = n % timebase;
+  const totalSeconds = Math.floor(n / timebase);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600) % 24;
+  const sep = dropFrame ? ';' : ':';
+  return `${pad2(hh)}:${pad2(mm)}:${pad2(ss)}${sep}${pad2(ff)}`;
+}
+
+/**
+ * Parses HH:MM:SS:FF (any of `:;.` as separators) into a timecode frame count.
+ * Returns null for malformed input or out-of-range fields.
+ */
+export function parseTimecodeFrames(value: string, timebase: number, dropFrame: boolean): number | null {
+  const match = TIMECODE_RE.exec(value.trim());
+  if (!match) return null;
+  const [hh, mm, ss, ff] = match.slice(1).map((part) => Number.parseInt(part, 10));
+  if (mm > 59 || ss > 59 || ff >= timebase) return null;
+  let frames = (hh * 3600 + mm * 60 + ss) * timebase + ff;
+  if (dropFrame) {
+    const totalMinutes = hh * 60 + mm;
+    frames -= dropFramesPerMinute(timebase) * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return Math.max(0, frames);
+}
+
+/**
+ * Frame rate for display. Videos keep their measured rate (29.97, 23.976) and are only
+ * rounded here, to three decimals.
+ */
+export function formatFrameRate(fps: number): string {
+  return String(Math.round((fps || 0) * 1000) / 1000);
+}
+
+/**
+ * Builds the timecode format for a video from its fps and optional per-video settings.
+ */
+export function getTimecodeFormat(video: { fps: number; startTimecode?: string | null; dropFrame?: boolean | null }): TimecodeFormat {
+  const fps = Math.max(1, Math.floor(video.fps || 24));
+  const dropFrame = video.dropFrame ?? isDropFrameRate(video.fps);
+  const timebase = getTimebase(video.fps || fps, dropFrame);
+  const startFrame = video.startTimecode ? parseTimecodeFrames(video.startTimecode, timebase, dropFrame) ?? 0 : 0;
+  return { fps, dropFrame, startFrame };
+}
+
+/**
+ * Converts a stored frame number to a timecode frame count (without the start offset).
+ */
+export function frameToTimecodeFrames(frame: number, format: TimecodeFormat): number {
+  const rate = getTimecodeRate(format.fps, format.dropFrame);
+  return format.dropFrame
+    ? Math.round((Math.max(0, frame) / format.fps) * rate)
+    : Math.max(0, Math.round(frame));
+}
+
+/**
+ * Converts a stored frame number to a timecode string, applying the start offset.
+ */
+export function frameToTimecode(frame: number, format: TimecodeFormat): string {
+  const timebase = getTimebase(format.fps, format.dropFrame);
+  return formatTimecodeFrames(frameToTimecodeFrames(frame, format) + format.startFrame, timebase, format.dropFrame);
+}
+
+/**
+ * Converts a position in seconds to a timecode string, applying the start offset.
+ */
+export function secondsToTimecode(seconds: number, format: TimecodeFormat): string {
+  return frameToTimecode(Math.round(Math.max(0, seconds) * format.fps), format);
+}
+
+/**
+ * Converts a timecode (including the start offset) back to a stored frame number.
+ * Returns null when the input is malformed or lies before the start timecode.
+ */
+export function timecodeToFrame(value: string, format: TimecodeFormat): number | null {
+  const timebase = getTimebase(format.fps, format.dropFrame);
+  const parsed = parseTimecodeFrames(value, timebase, format.dropFrame);
+  if (parsed === null) return null;
+  const relative = parsed - format.startFrame;
+  if (relative < 0) return null;
+  if (!format.dropFrame) return relative;
+  const rate = getTimecodeRate(format.fps, true);
+  return Math.round((relative / rate) * format.fps);
+}
+
+/**
+ * Parses free-form "go to" input: a full or partial timecode (right-aligned, so
+ * `12:05` means 12 seconds and 5 frames) or a bare frame number.
+ */
+export function parseTimecodeInput(value: string, format: TimecodeFormat): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) return Number.parseInt(trimmed, 10);
+  const parts = trimmed.split(/[:;.]/);
+  if (parts.length < 2 || parts.length > 4 || parts.some((part) => !/^\d{1,3}$/.test(part))) return null;
+  if (parts.length === 4) return timecodeToFrame(trimmed, format);
+  // Partial input is relative to the start timecode's hour/minute fields.
+  const timebase = getTimebase(format.fps, format.dropFrame);
+  const start = formatTimecodeFrames(format.startFrame, timebase, format.dropFrame).split(/[:;]/);
+  const full = [...start.slice(0, 4 - parts.length), ...parts].join(':');
+  return timecodeToFrame(full, format);
+}
+
+/**
+ * Normalizes a user-entered start timecode. Returns null when invalid.
+ */
+export function normalizeTimecode(value: string, fps: number, dropFrame: boolean): string | null {
+  const timebase = getTimebase(fps, dropFrame);
+  const frames = parseTimecodeFrames(value, timebase, dropFrame);
+  if (frames === null) return null;
+  return formatTimecodeFrames(frames, timebase, dropFrame);
+}
+
+/**
+ * Label for a stored frame according to the reviewer's display preference.
+ */
+export function formatFrameLabel(frame: number, format: TimecodeFormat, mode: TimecodeDisplayMode): string {
+  return mode === 'timecode' ? frameToTimecode(frame, format) : String(Math.max(0, Math.round(frame)));
+}
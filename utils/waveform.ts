@@ -0,0 +1,166 @@
+/**
+ * Audio waveform helpers for the review and editor timelines.
+ *
+ * Peaks are stored as one byte per bucket (0-255, channels mixed down to the
+ * max absolute sample) and transported as base64 so a whole source fits in a
+ * single Convex document.
+ */
+
+export interface WaveformData {
+  peaksPerSecond: number;
+  /** Base64 of one byte per bucket. */
+  peaks: string;
+  duration: number;
+  hasAudio: boolean;
+}
+
+export interface DecodedWaveform {
+  peaksPerSecond: number;
+  peaks: Uint8Array;
+  duration: number;
+  hasAudio: boolean;
+}
+
+const DEFAULT_PEAKS_PER_SECOND = 100;
+// Mirrors MAX_WAVEFORM_PEAKS in convex/waveforms.ts.
+const MAX_TOTAL_PEAKS = 360_000;
+// Below this the track is treated as silent (1/255 of full scale).
+const SILENCE_THRESHOLD = 1;
+// Browsers refuse very wide canvases; zoomed-in editor lanes are stretched past this instead.
+const MAX_CANVAS_PX = 16_384;
+
+/**
+ * Bucket rate for a source: long media gets coarser buckets so the total stays bounded.
+ */
+export function choosePeaksPerSecond(duration: number): number {
+  if (!Number.isFinite(duration) || duration <= 0) return DEFAULT_PEAKS_PER_SECOND;
+  return Math.max(1, Math.min(DEFAULT_PEAKS_PER_SECOND, Math.floor(MAX_TOTAL_PEAKS / duration)));
+}
+
+/**
+ * Decodes an audio/video file and reduces it to peaks.
+ * Files without an audio track resolve to an empty, `hasAudio: false` waveform.
+ */
+export async function computeWaveform(buffer: ArrayBuffer): Promise<WaveformData> {
+  const AudioContextCtor: typeof AudioContext | undefined =
+    (window as any).AudioContext ?? (window as any).webkitAudioContext;
+  if (!AudioContextCtor) throw new Error('Web Audio is not available');
+
+  const context = new AudioContextCtor();
+  let audio: AudioBuffer;
+  try {
+    audio = await context.decodeAudioData(buffer);
+  } catch {
+    return { peaksPerSecond: DEFAULT_PEAKS_PER_SECOND, peaks: '', duration: 0, hasAudio: false };
+  } finally {
+    void context.close();
+  }
+
+  const peaksPerSecond = choosePeaksPerSecond(audio.duration);
+  const bucketCount = Math.max(1, Math.ceil(audio.duration * peaksPerSecond));
+  const samplesPerBucket = Math.max(1, Math.floor(audio.sampleRate / peaksPerSecond));
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i));
+
+  const peaks = new Uint8Array(bucketCount);
+  let loudest = 0;
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = bucket * samplesPerBucket;
+    const end = Math.min(start + samplesPerBucket, audio.length);
+    let max = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > max) max = value;
+      }
+    }
+    const scaled = Math.min(255, Math.round(max * 255));
+    peaks[bucket] = scaled;
+    if (scaled > loudest) loudest = scaled;
+  }
+
+  return {
+    peaksPerSecond,
+    peaks: encodePeaks(peaks),
+    duration: audio.duration,
+    hasAudio: loudest > SILENCE_THRESHOLD,
+  };
+}
+
+export function encodePeaks(peaks: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < peaks.length; i += chunk) {
+    binary += String.fromCharCode(...peaks.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+export function decodePeaks(encoded: string): Uint8Array {
+  if (!encoded) return new Uint8Array(0);
+  const binary = atob(encoded);
+  const peaks = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) peaks[i] = binary.charCodeAt(i);
+  return peaks;
+}
+
+export function decodeWaveform(data: WaveformData): DecodedWaveform {
+  return {
+    peaksPerSecond: data.peaksPerSecond,
+    peaks: decodePeaks(data.peaks),
+    duration: data.duration,
+    hasAudio: data.hasAudio,
+  };
+}
+
+/**
+ * Peak (0-1) over a source time range.
+ */
+export function peakInRange(waveform: DecodedWaveform, startSec: number, endSec: number): number {
+  const { peaks, peaksPerSecond } = waveform;
+  if (!peaks.length) return 0;
+  const from = Math.max(0, Math.floor(startSec * peaksPerSecond));
+  const to = Math.min(peaks.length, Math.max(from + 1, Math.ceil(endSec * peaksPerSecond)));
+  let max = 0;
+  for (let i = from; i < to; i++) {
+    if (peaks[i] > max) max = peaks[i];
+  }
+  return max / 255;
+}
+
+/**
+ * Draws a mirrored waveform for the range `[startSec, endSec]` across the canvas width.
+ * `sample(x0, x1)` may be passed instead of a waveform to draw a composite (e.g. an edit mix).
+ */
+export function drawWaveform(
+  canvas: HTMLCanvasElement,
+  source: DecodedWaveform | ((startSec: number, endSec: number) => number),
+  startSec: number,
+  endSec: number,
+  color: string,
+) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const dpr = window.devicePixelRatio || 1;
+  const width = Math.max(1, Math.min(MAX_CANVAS_PX, Math.round(canvas.clientWidth * dpr)));
+  const height = Math.max(1, Math.round(canvas.clientHeight * dpr));
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  ctx.clearRect(0, 0, width, height);
+
+  const span = endSec - startSec;
+  if (span <= 0) return;
+  const sample = typeof source === 'function'
+    ? source
+    : (from: number, to: number) => peakInRange(source, from, to);
+
+  const mid = height / 2;
+  const secPerPx = span / width;
+  ctx.fillStyle = color;
+  for (let x = 0; x < width; x++) {
+    const from = startSec + x * secPerPx;
+    const amplitude = sample(from, from + secPerPx);
+    if (amplitude <= 0) continue;
+    const h = Math.max(1, amplitude * height);
+    ctx.fillRect(x, mid - h / 2, 1, h);
+  }
+}